@@ -89,6 +89,7 @@ module.exports = tseslint.config(
       // Tracked in plan §10 acceptance carve-out.
       "src/trpc/routers/feedback.ts",
       "src/trpc/routers/selfhosted-license.ts",
+      "src/trpc/routers/selfhosted-outbox.ts",
       "src/trpc/routers/selfhosted-smtp.ts",
       // sso.ts uses ssoAdminProcedure rooted in rateLimitedOrgAdminProcedure
       // — org-scoped, not workspace-scoped. Aligned with the structural
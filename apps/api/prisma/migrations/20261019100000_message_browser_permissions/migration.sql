@@ -0,0 +1,16 @@
+-- Message browser (queue detail → Messages tab).
+--
+-- Adds the `message:browse` and `message:move` permission keys and grants
+-- them to the built-in ADMIN and OWNER roles. Mirrors
+-- WORKSPACE_PERMISSION_REQUIREMENTS in apps/api/src/auth/permissions.ts.
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('message:browse', 'message', 'Browse message payloads in a queue'),
+    ('message:move', 'message', 'Move messages between queues and requeue from DLQs')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", p."permKey", NULL, NULL
+FROM (VALUES ('message:browse'), ('message:move')) AS p("permKey")
+JOIN "Role" r ON r."builtinKey"::text IN ('OWNER', 'ADMIN')
+             AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
@@ -0,0 +1,15 @@
+-- Binding management (create / delete bindings from the API and UI).
+--
+-- Adds the `binding:write` permission key and grants it to the built-in
+-- ADMIN and OWNER roles. Mirrors WORKSPACE_PERMISSION_REQUIREMENTS in
+-- apps/api/src/auth/permissions.ts.
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('binding:write', 'binding', 'Create and delete bindings')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'binding:write', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
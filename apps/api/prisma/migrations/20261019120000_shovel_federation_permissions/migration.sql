@@ -0,0 +1,27 @@
+-- Shovel and federation management.
+--
+-- Adds the `shovel:*` and `federation:*` permission keys. Reads go to
+-- every built-in role, writes to ADMIN and OWNER. Mirrors
+-- WORKSPACE_PERMISSION_REQUIREMENTS in apps/api/src/auth/permissions.ts.
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('shovel:read', 'shovel', 'View shovel definitions and link status'),
+    ('shovel:write', 'shovel', 'Create, delete and restart shovels'),
+    ('federation:read', 'federation', 'View federation upstreams and link status'),
+    ('federation:write', 'federation', 'Create and delete federation upstreams, restart links')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", p."key", NULL, NULL
+FROM "Role" r
+CROSS JOIN (VALUES ('shovel:read'), ('federation:read')) AS p("key")
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN', 'MEMBER', 'READONLY')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", p."key", NULL, NULL
+FROM "Role" r
+CROSS JOIN (VALUES ('shovel:write'), ('federation:write')) AS p("key")
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
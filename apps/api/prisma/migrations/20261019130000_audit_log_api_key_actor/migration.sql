@@ -0,0 +1,7 @@
+-- Write-mode API keys can mutate broker state, so the audit trail records
+-- the key that acted, not just the user who minted it. Existing rows were
+-- all human or read-only-key actions and stay NULL.
+ALTER TABLE "audit_logs" ADD COLUMN "apiKeyId" TEXT;
+
+CREATE INDEX "audit_logs_workspaceId_apiKeyId_timestamp_idx"
+  ON "audit_logs"("workspaceId", "apiKeyId", "timestamp" DESC);
@@ -0,0 +1,4 @@
+-- MCP write tools let an agent run broker mutations on its own. Their
+-- audit rows get a dedicated source so they can be told apart from
+-- mutations a person made in the UI with the same key creator.
+ALTER TYPE "AuditSource" ADD VALUE 'mcp_agent';
@@ -0,0 +1,10 @@
+-- Per-server TLS material for brokers behind a private PKI: a CA bundle,
+-- a client certificate/key pair (all encrypted by the application) and an
+-- SNI override. The client certificate expiry is denormalized so the
+-- expiry finding can be computed without decrypting anything.
+ALTER TABLE "RabbitMQServer"
+  ADD COLUMN "tlsCaBundle" TEXT,
+  ADD COLUMN "tlsClientCert" TEXT,
+  ADD COLUMN "tlsClientKey" TEXT,
+  ADD COLUMN "tlsServername" TEXT,
+  ADD COLUMN "tlsClientCertNotAfter" TIMESTAMP(3);
@@ -0,0 +1,66 @@
+-- Queue pauses move from the per-server `queuePauseStates` JSON blob, which
+-- only mirrored a consumer living inside one API process, to one row per
+-- queue owned by the queue-pause worker. Pauses still recorded as active are
+-- carried over so the worker re-applies them on its first reconcile.
+
+-- CreateEnum
+CREATE TYPE "QueuePauseStatus" AS ENUM ('PAUSED', 'RESUMED');
+
+-- CreateEnum
+CREATE TYPE "QueueResumeTrigger" AS ENUM ('MANUAL', 'SCHEDULED');
+
+-- CreateTable
+CREATE TABLE "QueuePause" (
+    "id" TEXT NOT NULL,
+    "serverId" UUID NOT NULL,
+    "vhost" TEXT NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "status" "QueuePauseStatus" NOT NULL,
+    "reason" TEXT,
+    "pausedById" TEXT,
+    "pausedByEmail" TEXT,
+    "pausedAt" TIMESTAMP(3) NOT NULL,
+    "pausedUntil" TIMESTAMP(3),
+    "resumedById" TEXT,
+    "resumedAt" TIMESTAMP(3),
+    "resumeTrigger" "QueueResumeTrigger",
+    "consumerTag" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QueuePause_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueuePause_serverId_vhost_queueName_key" ON "QueuePause"("serverId", "vhost", "queueName");
+
+-- CreateIndex
+CREATE INDEX "QueuePause_status_pausedUntil_idx" ON "QueuePause"("status", "pausedUntil");
+
+-- AddForeignKey
+ALTER TABLE "QueuePause" ADD CONSTRAINT "QueuePause_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "RabbitMQServer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over pauses the JSON blob still lists as active
+INSERT INTO "QueuePause" (
+    "id", "serverId", "vhost", "queueName", "status", "reason", "pausedAt", "updatedAt"
+)
+SELECT
+    gen_random_uuid()::text,
+    s."id",
+    COALESCE(NULLIF(p.value->>'vhost', ''), s."vhost"),
+    p.key,
+    'PAUSED',
+    'Carried over from the pre-worker pause state',
+    COALESCE((p.value->>'pausedAt')::timestamptz, CURRENT_TIMESTAMP),
+    CURRENT_TIMESTAMP
+FROM "RabbitMQServer" s
+CROSS JOIN LATERAL jsonb_each(s."queuePauseStates") AS p
+WHERE jsonb_typeof(s."queuePauseStates") = 'object'
+  AND jsonb_typeof(p.value) = 'object'
+  AND (p.value->>'isPaused') = 'true'
+ON CONFLICT ("serverId", "vhost", "queueName") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "RabbitMQServer" DROP COLUMN "queuePauseStates";
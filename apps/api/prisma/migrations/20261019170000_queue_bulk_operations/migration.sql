@@ -0,0 +1,56 @@
+-- Bulk queue operations: one row per run, one item per targeted queue.
+
+-- CreateEnum
+CREATE TYPE "QueueBulkAction" AS ENUM ('PURGE', 'DELETE', 'PAUSE', 'RESUME');
+
+-- CreateEnum
+CREATE TYPE "QueueBulkOperationStatus" AS ENUM ('RUNNING', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "QueueBulkItemStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "QueueBulkOperation" (
+    "id" UUID NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "serverId" UUID NOT NULL,
+    "action" "QueueBulkAction" NOT NULL,
+    "status" "QueueBulkOperationStatus" NOT NULL DEFAULT 'RUNNING',
+    "selector" JSONB,
+    "options" JSONB,
+    "total" INTEGER NOT NULL,
+    "succeeded" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "requestedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "QueueBulkOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QueueBulkOperationItem" (
+    "id" TEXT NOT NULL,
+    "operationId" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "vhost" TEXT NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "status" "QueueBulkItemStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "QueueBulkOperationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QueueBulkOperation_workspaceId_createdAt_idx" ON "QueueBulkOperation"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueueBulkOperationItem_operationId_position_key" ON "QueueBulkOperationItem"("operationId", "position");
+
+-- AddForeignKey
+ALTER TABLE "QueueBulkOperation" ADD CONSTRAINT "QueueBulkOperation_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "RabbitMQServer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueBulkOperationItem" ADD CONSTRAINT "QueueBulkOperationItem_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "QueueBulkOperation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
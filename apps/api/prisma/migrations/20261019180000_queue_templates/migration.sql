@@ -0,0 +1,94 @@
+-- Versioned queue templates and the queues declared from them.
+--
+-- Also adds the `queue_template:*` permission keys: read for every
+-- built-in role, write for ADMIN and OWNER. Mirrors
+-- WORKSPACE_PERMISSION_REQUIREMENTS in apps/api/src/auth/permissions.ts.
+
+-- CreateTable
+CREATE TABLE "QueueTemplate" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "latestVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdById" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QueueTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QueueTemplateVersion" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "queueType" TEXT NOT NULL,
+    "durable" BOOLEAN NOT NULL DEFAULT true,
+    "autoDelete" BOOLEAN NOT NULL DEFAULT false,
+    "arguments" JSONB NOT NULL,
+    "deadLetter" JSONB,
+    "policy" JSONB,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QueueTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TemplatedQueue" (
+    "id" TEXT NOT NULL,
+    "serverId" UUID NOT NULL,
+    "vhost" TEXT NOT NULL,
+    "queueName" TEXT NOT NULL,
+    "templateVersionId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TemplatedQueue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueueTemplate_workspaceId_name_key" ON "QueueTemplate"("workspaceId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QueueTemplateVersion_templateId_version_key" ON "QueueTemplateVersion"("templateId", "version");
+
+-- CreateIndex
+CREATE INDEX "TemplatedQueue_templateVersionId_idx" ON "TemplatedQueue"("templateVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplatedQueue_serverId_vhost_queueName_key" ON "TemplatedQueue"("serverId", "vhost", "queueName");
+
+-- AddForeignKey
+ALTER TABLE "QueueTemplate" ADD CONSTRAINT "QueueTemplate_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QueueTemplateVersion" ADD CONSTRAINT "QueueTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "QueueTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplatedQueue" ADD CONSTRAINT "TemplatedQueue_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "RabbitMQServer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplatedQueue" ADD CONSTRAINT "TemplatedQueue_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "QueueTemplateVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Permissions
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('queue_template:read', 'queue_template', 'View queue templates and template drift'),
+    ('queue_template:write', 'queue_template', 'Create, version and archive queue templates')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'queue_template:read', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN', 'MEMBER', 'READONLY')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'queue_template:write', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
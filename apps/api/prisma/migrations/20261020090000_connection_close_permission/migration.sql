@@ -0,0 +1,11 @@
+-- Permissions
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('broker:connections:close', 'broker', 'Close client connections on the broker')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'broker:connections:close', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
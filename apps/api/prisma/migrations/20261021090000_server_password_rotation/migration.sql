@@ -0,0 +1,8 @@
+-- Rotation policy for the broker password Qarote connects with, and the
+-- administrators the credential hygiene check expects to see.
+ALTER TABLE "RabbitMQServer"
+  ADD COLUMN "passwordRotationDays" INTEGER,
+  ADD COLUMN "passwordRotatedAt" TIMESTAMP(3),
+  ADD COLUMN "passwordRotationError" TEXT,
+  ADD COLUMN "expectedBrokerAdmins" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
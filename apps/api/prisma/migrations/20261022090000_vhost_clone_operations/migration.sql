@@ -0,0 +1,34 @@
+-- vhost.clone runs: one row per run, per-step progress kept as JSON.
+
+-- CreateEnum
+CREATE TYPE "VHostCloneStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "VHostCloneOperation" (
+    "id" UUID NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "sourceServerId" UUID NOT NULL,
+    "sourceVhost" TEXT NOT NULL,
+    "targetServerId" UUID NOT NULL,
+    "targetVhost" TEXT NOT NULL,
+    "status" "VHostCloneStatus" NOT NULL DEFAULT 'RUNNING',
+    "options" JSONB NOT NULL,
+    "steps" JSONB NOT NULL,
+    "report" JSONB,
+    "error" TEXT,
+    "requestedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "VHostCloneOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VHostCloneOperation_workspaceId_createdAt_idx" ON "VHostCloneOperation"("workspaceId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "VHostCloneOperation" ADD CONSTRAINT "VHostCloneOperation_sourceServerId_fkey" FOREIGN KEY ("sourceServerId") REFERENCES "RabbitMQServer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VHostCloneOperation" ADD CONSTRAINT "VHostCloneOperation_targetServerId_fkey" FOREIGN KEY ("targetServerId") REFERENCES "RabbitMQServer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
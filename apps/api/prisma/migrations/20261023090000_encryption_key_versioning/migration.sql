@@ -0,0 +1,6 @@
+-- Key version of each server's encrypted columns, for
+-- `qarote rotate-encryption-key`, and an optional external reference the
+-- broker password is read from instead of the encrypted column.
+ALTER TABLE "RabbitMQServer"
+  ADD COLUMN "passwordRef" TEXT,
+  ADD COLUMN "encryptionKeyVersion" INTEGER NOT NULL DEFAULT 1;
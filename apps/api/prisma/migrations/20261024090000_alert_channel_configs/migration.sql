@@ -0,0 +1,102 @@
+-- PagerDuty, Opsgenie and Microsoft Teams alert channels.
+
+-- CreateTable
+CREATE TABLE "PagerDutyConfig" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "routingKey" TEXT NOT NULL,
+    "severities" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "encryptionKeyVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PagerDutyConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OpsgenieConfig" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "apiKey" TEXT NOT NULL,
+    "region" TEXT NOT NULL DEFAULT 'us',
+    "severities" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "encryptionKeyVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OpsgenieConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TeamsConfig" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "webhookUrl" TEXT NOT NULL,
+    "severities" JSONB,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "encryptionKeyVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeamsConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PagerDutyConfig_enabled_idx" ON "PagerDutyConfig"("enabled");
+
+-- CreateIndex
+CREATE INDEX "PagerDutyConfig_workspaceId_idx" ON "PagerDutyConfig"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "OpsgenieConfig_enabled_idx" ON "OpsgenieConfig"("enabled");
+
+-- CreateIndex
+CREATE INDEX "OpsgenieConfig_workspaceId_idx" ON "OpsgenieConfig"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "TeamsConfig_enabled_idx" ON "TeamsConfig"("enabled");
+
+-- CreateIndex
+CREATE INDEX "TeamsConfig_workspaceId_idx" ON "TeamsConfig"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "PagerDutyConfig" ADD CONSTRAINT "PagerDutyConfig_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OpsgenieConfig" ADD CONSTRAINT "OpsgenieConfig_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TeamsConfig" ADD CONSTRAINT "TeamsConfig_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Permissions
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('notification_channel:read', 'notification_channel', 'View PagerDuty, Opsgenie and Teams integrations'),
+    ('notification_channel:write', 'notification_channel', 'Configure PagerDuty, Opsgenie and Teams integrations'),
+    ('notification_channel:delete', 'notification_channel', 'Remove PagerDuty, Opsgenie and Teams integrations')
+ON CONFLICT ("key") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'notification_channel:read', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN', 'MEMBER', 'READONLY')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'notification_channel:write', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
+
+INSERT INTO "RolePermission" ("id", "roleId", "permissionKey", "scopeJson", "scopeCanonical")
+SELECT gen_random_uuid(), r."id", 'notification_channel:delete', NULL, NULL
+FROM "Role" r
+WHERE r."builtinKey"::text IN ('OWNER', 'ADMIN')
+  AND r."isSystem" = true
+ON CONFLICT ("roleId", "permissionKey", "scopeFingerprint") DO NOTHING;
@@ -0,0 +1,55 @@
+-- Notification routing rules and escalation policies.
+
+-- CreateTable
+CREATE TABLE "NotificationRoutingRule" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "severities" JSONB,
+    "environments" JSONB,
+    "vhosts" JSONB,
+    "queuePattern" TEXT,
+    "categories" JSONB,
+    "escalationPolicyId" TEXT NOT NULL,
+    "continueMatching" BOOLEAN NOT NULL DEFAULT false,
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "quietHoursTimezone" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationRoutingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EscalationPolicy" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "steps" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscalationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationRoutingRule_workspaceId_position_idx" ON "NotificationRoutingRule"("workspaceId", "position");
+
+-- CreateIndex
+CREATE INDEX "NotificationRoutingRule_escalationPolicyId_idx" ON "NotificationRoutingRule"("escalationPolicyId");
+
+-- CreateIndex
+CREATE INDEX "EscalationPolicy_workspaceId_idx" ON "EscalationPolicy"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationRoutingRule" ADD CONSTRAINT "NotificationRoutingRule_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationRoutingRule" ADD CONSTRAINT "NotificationRoutingRule_escalationPolicyId_fkey" FOREIGN KEY ("escalationPolicyId") REFERENCES "EscalationPolicy"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationPolicy" ADD CONSTRAINT "EscalationPolicy_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
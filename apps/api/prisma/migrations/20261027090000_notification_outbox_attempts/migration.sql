@@ -0,0 +1,19 @@
+-- Delivery attempt history for the notification outbox console.
+
+-- CreateTable
+CREATE TABLE "NotificationOutboxAttempt" (
+    "id" TEXT NOT NULL,
+    "outboxId" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "detail" TEXT,
+    "durationMs" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationOutboxAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotificationOutboxAttempt_outboxId_createdAt_idx" ON "NotificationOutboxAttempt"("outboxId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "NotificationOutboxAttempt" ADD CONSTRAINT "NotificationOutboxAttempt_outboxId_fkey" FOREIGN KEY ("outboxId") REFERENCES "NotificationOutbox"("id") ON DELETE CASCADE ON UPDATE CASCADE;
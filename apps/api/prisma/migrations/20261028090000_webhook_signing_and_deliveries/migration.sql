@@ -0,0 +1,14 @@
+-- Webhook signing-key rotation, event subscriptions and delivery log.
+
+-- AlterTable
+ALTER TABLE "Webhook" ADD COLUMN     "previousSecret" TEXT,
+ADD COLUMN     "previousSecretExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "encryptionKeyVersion" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "events" TEXT[] DEFAULT ARRAY['alerts']::TEXT[];
+
+-- AlterTable
+ALTER TABLE "NotificationOutboxAttempt" ADD COLUMN     "statusCode" INTEGER,
+ADD COLUMN     "responseSnippet" TEXT;
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_target_idx" ON "NotificationOutbox"("channel", "target");
@@ -0,0 +1,34 @@
+-- Audit log streaming to syslog, HTTP and file sinks.
+
+-- CreateTable
+CREATE TABLE "AuditSink" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "settings" JSONB NOT NULL,
+    "secret" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "encryptionKeyVersion" INTEGER NOT NULL DEFAULT 1,
+    "cursorTimestamp" TIMESTAMP(3) NOT NULL,
+    "cursorId" TEXT NOT NULL DEFAULT '',
+    "lastDeliveredAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "lastErrorAt" TIMESTAMP(3),
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuditSink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditSink_enabled_nextAttemptAt_idx" ON "AuditSink"("enabled", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "AuditSink_workspaceId_idx" ON "AuditSink"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "AuditSink" ADD CONSTRAINT "AuditSink_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
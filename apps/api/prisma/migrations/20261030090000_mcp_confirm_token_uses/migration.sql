@@ -0,0 +1,14 @@
+-- Single-use MCP confirm tokens.
+
+-- CreateTable
+CREATE TABLE "McpConfirmTokenUse" (
+    "jti" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "McpConfirmTokenUse_pkey" PRIMARY KEY ("jti")
+);
+
+-- CreateIndex
+CREATE INDEX "McpConfirmTokenUse_expiresAt_idx" ON "McpConfirmTokenUse"("expiresAt");
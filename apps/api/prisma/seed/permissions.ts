@@ -117,6 +117,11 @@ export const PERMISSION_MANIFEST: ReadonlyArray<PermissionManifestEntry> = [
     category: "broker",
     description: "View broker AMQP connections",
   },
+  {
+    key: "broker:connections:close",
+    category: "broker",
+    description: "Close client connections on the broker",
+  },
   {
     key: "broker:update",
     category: "broker",
@@ -171,8 +176,25 @@ export const PERMISSION_MANIFEST: ReadonlyArray<PermissionManifestEntry> = [
     description: "Pause / resume a queue's consumers",
   },
 
+  // Queue templates
+  {
+    key: "queue_template:read",
+    category: "queue_template",
+    description: "View queue templates and template drift",
+  },
+  {
+    key: "queue_template:write",
+    category: "queue_template",
+    description: "Create, version and archive queue templates",
+  },
+
   // Bindings
   { key: "binding:read", category: "binding", description: "View bindings" },
+  {
+    key: "binding:write",
+    category: "binding",
+    description: "Create and delete bindings",
+  },
 
   // Exchanges
   { key: "exchange:read", category: "exchange", description: "View exchanges" },
@@ -204,6 +226,28 @@ export const PERMISSION_MANIFEST: ReadonlyArray<PermissionManifestEntry> = [
     description: "Delete broker policies",
   },
 
+  // Shovel / Federation
+  {
+    key: "shovel:read",
+    category: "shovel",
+    description: "View shovel definitions and link status",
+  },
+  {
+    key: "shovel:write",
+    category: "shovel",
+    description: "Create, delete and restart shovels",
+  },
+  {
+    key: "federation:read",
+    category: "federation",
+    description: "View federation upstreams and link status",
+  },
+  {
+    key: "federation:write",
+    category: "federation",
+    description: "Create and delete federation upstreams, restart links",
+  },
+
   // Live broker message ops
   {
     key: "message:publish",
@@ -215,6 +259,16 @@ export const PERMISSION_MANIFEST: ReadonlyArray<PermissionManifestEntry> = [
     category: "message",
     description: "Tap live messages (firehose)",
   },
+  {
+    key: "message:browse",
+    category: "message",
+    description: "Browse message payloads in a queue",
+  },
+  {
+    key: "message:move",
+    category: "message",
+    description: "Move messages between queues and requeue from DLQs",
+  },
   {
     key: "message:record:read",
     category: "message",
@@ -318,6 +372,23 @@ export const PERMISSION_MANIFEST: ReadonlyArray<PermissionManifestEntry> = [
     description: "Remove webhook integrations",
   },
 
+  // PagerDuty / Opsgenie / Teams integrations
+  {
+    key: "notification_channel:read",
+    category: "notification_channel",
+    description: "View PagerDuty, Opsgenie and Teams integrations",
+  },
+  {
+    key: "notification_channel:write",
+    category: "notification_channel",
+    description: "Configure PagerDuty, Opsgenie and Teams integrations",
+  },
+  {
+    key: "notification_channel:delete",
+    category: "notification_channel",
+    description: "Remove PagerDuty, Opsgenie and Teams integrations",
+  },
+
   // LLM config
   {
     key: "llm_config:read",
@@ -1,11 +1,17 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
 
 import {
   apiKeyMutationBlocked,
   type ApiKeyScope,
+  apiKeyScopeRows,
   apiKeyWorkspaceMismatch,
   parseApiKeyScope,
 } from "@/auth/api-key-scope";
+import { evaluateScope } from "@/auth/scope-evaluator";
 
 describe("parseApiKeyScope", () => {
   it("parses a valid read scope", () => {
@@ -37,11 +43,74 @@ describe("parseApiKeyScope", () => {
     ["missing workspaceId", { mode: "read" }],
     ["empty workspaceId", { workspaceId: "", mode: "read" }],
     ["non-string workspaceId", { workspaceId: 1, mode: "read" }],
-    ["invalid mode", { workspaceId: "ws_1", mode: "write" }],
+    ["invalid mode", { workspaceId: "ws_1", mode: "admin" }],
+    ["write mode without permissions", { workspaceId: "ws_1", mode: "write" }],
+    [
+      "write mode with an empty grant list",
+      { workspaceId: "ws_1", mode: "write", permissions: [] },
+    ],
+    [
+      "write mode with a non-string permission",
+      { workspaceId: "ws_1", mode: "write", permissions: ["queue:purge", 1] },
+    ],
+    [
+      "write mode with non-array scopes",
+      {
+        workspaceId: "ws_1",
+        mode: "write",
+        permissions: ["queue:purge"],
+        scopes: { kind: "server.id", ids: ["s_1"] },
+      },
+    ],
     ["missing mode", { workspaceId: "ws_1" }],
   ])("returns null for %s (fail closed)", (_label, input) => {
     expect(parseApiKeyScope(input)).toBeNull();
   });
+
+  it("parses a write scope with its grant list and resource scopes", () => {
+    const scopes = [{ kind: "server.environment", values: ["staging"] }];
+    expect(
+      parseApiKeyScope({
+        workspaceId: "ws_1",
+        mode: "write",
+        permissions: ["queue:purge", "definitions:import"],
+        scopes,
+        v: 1,
+      })
+    ).toEqual({
+      workspaceId: "ws_1",
+      mode: "write",
+      permissions: ["queue:purge", "definitions:import"],
+      scopes,
+      v: 1,
+    });
+  });
+
+  it("defaults a write scope without scopes to unscoped", () => {
+    expect(
+      parseApiKeyScope({
+        workspaceId: "ws_1",
+        mode: "write",
+        permissions: ["queue:purge"],
+      })
+    ).toEqual({
+      workspaceId: "ws_1",
+      mode: "write",
+      permissions: ["queue:purge"],
+      scopes: [],
+      v: 1,
+    });
+  });
+
+  it("drops write-only fields from read and explain scopes", () => {
+    expect(
+      parseApiKeyScope({
+        workspaceId: "ws_1",
+        mode: "read",
+        permissions: ["queue:purge"],
+      })
+    ).toEqual({ workspaceId: "ws_1", mode: "read", v: 1 });
+  });
 });
 
 const readScope: ApiKeyScope = { workspaceId: "ws_1", mode: "read", v: 1 };
@@ -50,6 +119,13 @@ const explainScope: ApiKeyScope = {
   mode: "explain",
   v: 1,
 };
+const writeScope: ApiKeyScope = {
+  workspaceId: "ws_1",
+  mode: "write",
+  permissions: ["queue:purge"],
+  scopes: [],
+  v: 1,
+};
 
 describe("apiKeyMutationBlocked (read-only floor)", () => {
   it.each([
@@ -66,6 +142,30 @@ describe("apiKeyMutationBlocked (read-only floor)", () => {
     expect(apiKeyMutationBlocked(scope, op)).toBe(blocked);
   });
 
+  it("ignores a procedure permission for read and explain keys", () => {
+    expect(apiKeyMutationBlocked(readScope, "mutation", "queue:purge")).toBe(
+      true
+    );
+    expect(apiKeyMutationBlocked(explainScope, "mutation", "queue:purge")).toBe(
+      true
+    );
+  });
+
+  it.each([
+    ["query", undefined, false],
+    ["mutation", "queue:purge", false],
+    // Not in the key's grant list.
+    ["mutation", "queue:delete", true],
+    // Mutations that declare no permission are never reachable by a key.
+    ["mutation", undefined, true],
+    ["subscription", "queue:purge", true],
+  ] as const)(
+    "write key + %s (%s) -> blocked=%s",
+    (op, permission, blocked) => {
+      expect(apiKeyMutationBlocked(writeScope, op, permission)).toBe(blocked);
+    }
+  );
+
   it.each(["query", "mutation", "subscription"] as const)(
     "never blocks a non-API-key request (scope null/undefined) on %s",
     (op) => {
@@ -89,3 +189,39 @@ describe("apiKeyWorkspaceMismatch", () => {
     expect(apiKeyWorkspaceMismatch(undefined, "ws_anything")).toBe(false);
   });
 });
+
+describe("apiKeyScopeRows (write-key resource scopes)", () => {
+  const scoped = (scopes: ApiKeyScope["scopes"]): ApiKeyScope => ({
+    ...writeScope,
+    scopes,
+  });
+
+  it("admits any resource when the key is unscoped", () => {
+    const rows = apiKeyScopeRows(writeScope);
+    expect(evaluateScope(rows, {})).toBe(true);
+    expect(evaluateScope(rows, { serverId: "s_1" })).toBe(true);
+  });
+
+  it("admits only the listed servers for a server.id scope", () => {
+    const rows = apiKeyScopeRows(scoped([{ kind: "server.id", ids: ["s_1"] }]));
+    expect(evaluateScope(rows, { serverId: "s_1" })).toBe(true);
+    expect(evaluateScope(rows, { serverId: "s_2" })).toBe(false);
+    // No server context (procedure without a resourceCtxFn) fails closed.
+    expect(evaluateScope(rows, {})).toBe(false);
+  });
+
+  it("OR-combines scopes like role scope rows", () => {
+    const rows = apiKeyScopeRows(
+      scoped([
+        { kind: "server.id", ids: ["s_1"] },
+        { kind: "server.environment", values: ["staging"] },
+      ])
+    );
+    expect(
+      evaluateScope(rows, { serverId: "s_2", serverEnvironment: "staging" })
+    ).toBe(true);
+    expect(
+      evaluateScope(rows, { serverId: "s_2", serverEnvironment: "prod" })
+    ).toBe(false);
+  });
+});
@@ -41,14 +41,18 @@ describe("hasPermission", () => {
         "broker:connections:read",
         "broker:read",
         "exchange:read",
+        "federation:read",
         "incident:read",
         "llm_config:read",
         "member:read",
         "metric:read",
+        "notification_channel:read",
         "policy:read",
         "queue:read",
+        "queue_template:read",
         "scan:read",
         "server:read",
+        "shovel:read",
         "slack_config:read",
         "topology:read",
         "vhost:read",
@@ -75,7 +79,12 @@ describe("hasPermission", () => {
     expect(adminPerms.has("definitions:import")).toBe(false);
     // ADMIN holds:
     expect(adminPerms.has("queue:purge")).toBe(true);
+    expect(adminPerms.has("broker:connections:close")).toBe(true);
     expect(adminPerms.has("queue:pause")).toBe(true);
+    expect(adminPerms.has("queue_template:write")).toBe(true);
+    expect(adminPerms.has("binding:write")).toBe(true);
+    expect(adminPerms.has("shovel:write")).toBe(true);
+    expect(adminPerms.has("federation:write")).toBe(true);
     expect(adminPerms.has("member:update_role")).toBe(true);
     expect(adminPerms.has("server:delete")).toBe(true);
     expect(adminPerms.has("server:test_connection")).toBe(true);
@@ -85,6 +94,8 @@ describe("hasPermission", () => {
     expect(adminPerms.has("alerting:delete")).toBe(true);
     expect(adminPerms.has("message:publish")).toBe(true);
     expect(adminPerms.has("message:tap")).toBe(true);
+    expect(adminPerms.has("message:browse")).toBe(true);
+    expect(adminPerms.has("message:move")).toBe(true);
     expect(adminPerms.has("message:record:read")).toBe(true);
     expect(adminPerms.has("broker_user:permissions:write")).toBe(true);
     expect(adminPerms.has("digest:write")).toBe(true);
@@ -108,9 +119,13 @@ describe("hasPermission", () => {
     }
   });
 
-  it("message:tap and message:record:read are ADMIN, NOT READONLY", () => {
+  it("message:tap, :browse and :record:read are ADMIN, NOT READONLY", () => {
     // Live broker payloads expose PII / secrets — READONLY must not see them.
-    for (const key of ["message:tap", "message:record:read"] as const) {
+    for (const key of [
+      "message:tap",
+      "message:browse",
+      "message:record:read",
+    ] as const) {
       expect(hasPermission(WorkspaceRole.READONLY, key)).toBe(false);
       expect(hasPermission(WorkspaceRole.MEMBER, key)).toBe(false);
       expect(hasPermission(WorkspaceRole.ADMIN, key)).toBe(true);
@@ -128,6 +143,8 @@ describe("hasPermission", () => {
       "slack_config:delete",
       "webhook:write",
       "webhook:delete",
+      "notification_channel:write",
+      "notification_channel:delete",
     ] as const) {
       expect(hasPermission(WorkspaceRole.READONLY, key)).toBe(false);
       expect(hasPermission(WorkspaceRole.MEMBER, key)).toBe(false);
@@ -2,18 +2,32 @@
  * Pure logic for machine API-key scope (MCP agent surface).
  *
  * Kept free of tRPC / Prisma / better-auth imports so the security-critical
- * decisions (read-only floor, workspace match) are unit-testable as plain
- * truth tables. The tRPC middleware (`protectedProcedure`, `workspaceProcedure`)
- * and the api-keys router consume these helpers.
+ * decisions (read-only floor, write grants, workspace match) are unit-testable
+ * as plain truth tables. The tRPC middleware (`protectedProcedure`,
+ * `workspaceProcedure`, `workspacePermissionProcedure`) and the api-keys
+ * router consume these helpers.
  */
 
+import type { ScopeJson, ScopeRow } from "./scope-evaluator";
+
 /**
  * Scope carried by a machine API key. Stored in the key's better-auth
  * `metadata` at mint time. Null for human / cookie-session requests.
  */
 export interface ApiKeyScope {
   workspaceId: string;
-  mode: "read" | "explain";
+  mode: "read" | "explain" | "write";
+  /**
+   * `write` mode only: the permission keys (from `auth/permissions.ts`) whose
+   * mutations this key may run. Absent on read / explain keys.
+   */
+  permissions?: string[];
+  /**
+   * `write` mode only: optional server-id / environment restrictions on those
+   * mutations, OR-combined like `RolePermission` scope rows. Empty = any
+   * server in the workspace.
+   */
+  scopes?: ScopeJson[];
   v: number;
 }
 
@@ -31,34 +45,77 @@ export function parseApiKeyScope(metadata: unknown): ApiKeyScope | null {
   if (typeof m.workspaceId !== "string" || m.workspaceId.length === 0) {
     return null;
   }
-  if (m.mode !== "read" && m.mode !== "explain") return null;
+  if (m.mode !== "read" && m.mode !== "explain" && m.mode !== "write") {
+    return null;
+  }
+  const v = typeof m.v === "number" ? m.v : 1;
+  if (m.mode !== "write")
+    return { workspaceId: m.workspaceId, mode: m.mode, v };
+
+  // A write key without an explicit grant list is malformed, not "grant
+  // everything". Scope entries are passed through as-is — the evaluator
+  // fails closed on any shape it doesn't recognise.
+  if (
+    !Array.isArray(m.permissions) ||
+    m.permissions.length === 0 ||
+    !m.permissions.every((p) => typeof p === "string")
+  ) {
+    return null;
+  }
+  if (m.scopes !== undefined && !Array.isArray(m.scopes)) return null;
   return {
     workspaceId: m.workspaceId,
-    mode: m.mode,
-    v: typeof m.v === "number" ? m.v : 1,
+    mode: "write",
+    permissions: m.permissions as string[],
+    scopes: (m.scopes ?? []) as ScopeJson[],
+    v,
   };
 }
 
 /**
- * Read-only floor: a machine API key may only run queries at the tRPC layer —
- * NO key (read *or* explain) may run a mutation or subscription. Returns true
- * when the operation must be blocked. A cookie session (scope null) is never
- * blocked here.
+ * Mutation floor: a machine API key may only run queries at the tRPC layer,
+ * with one exception — a `write` key may run a mutation whose gating
+ * permission (`permission`, from the procedure's meta) is in the key's
+ * explicit grant list. Returns true when the operation must be blocked. A
+ * cookie session (scope null) is never blocked here.
  *
  * `explain` mode is not a write grant: it unlocks the LLM explain capability
- * at the MCP tool layer (gated there), not arbitrary tRPC mutations. So the
- * floor is independent of mode, and independent of the creator's live role by
- * construction — it only looks at whether the request is an API key + a
- * non-query op.
+ * at the MCP tool layer (gated there), not arbitrary tRPC mutations.
+ * Subscriptions stay blocked for every key, and a mutation that declares no
+ * permission (e.g. profile / auth procedures) can never be reached by a key.
+ * The floor is independent of the creator's live role by construction: a
+ * later promotion of the creating user never escalates the key, and the
+ * creator's role still has to hold the permission downstream.
  */
 export function apiKeyMutationBlocked(
   scope: ApiKeyScope | null | undefined,
-  opType: ProcedureOpType
+  opType: ProcedureOpType,
+  permission?: string
 ): boolean {
   // `!= null` (loose) treats both null and undefined as "no API key" — a
   // cookie session leaves the scope unset, and not every call site populates
   // it explicitly.
-  return scope != null && opType !== "query";
+  if (scope == null || opType === "query") return false;
+  return !(
+    opType === "mutation" &&
+    scope.mode === "write" &&
+    permission !== undefined &&
+    (scope.permissions ?? []).includes(permission)
+  );
+}
+
+/**
+ * The key's resource scopes as evaluator rows (`scope-evaluator.ts`). An
+ * unscoped key yields a single unscoped row so it admits every server.
+ */
+export function apiKeyScopeRows(scope: ApiKeyScope): ScopeRow[] {
+  if (!scope.scopes || scope.scopes.length === 0) {
+    return [{ scopeJson: null, scopeFingerprint: "" }];
+  }
+  return scope.scopes.map((scopeJson, index) => ({
+    scopeJson,
+    scopeFingerprint: String(index),
+  }));
 }
 
 /**
@@ -46,6 +46,7 @@ export type WorkspacePermission =
   // --- Broker (cluster-level state of the connected RabbitMQ) ---
   | "broker:read"
   | "broker:connections:read"
+  | "broker:connections:close"
   | "broker:update"
   // --- Vhost ---
   | "vhost:read"
@@ -61,8 +62,12 @@ export type WorkspacePermission =
   | "queue:delete"
   | "queue:purge"
   | "queue:pause"
+  // --- Queue template (workspace-level declaration conventions) ---
+  | "queue_template:read"
+  | "queue_template:write"
   // --- Binding ---
   | "binding:read"
+  | "binding:write"
   // --- Exchange ---
   | "exchange:read"
   | "exchange:create"
@@ -71,9 +76,16 @@ export type WorkspacePermission =
   | "policy:read"
   | "policy:write"
   | "policy:delete"
+  // --- Shovel / Federation (plugin-backed links between brokers) ---
+  | "shovel:read"
+  | "shovel:write"
+  | "federation:read"
+  | "federation:write"
   // --- Message (live broker message ops) ---
   | "message:publish"
   | "message:tap"
+  | "message:browse"
+  | "message:move"
   | "message:record:read"
   | "message:record:write"
   // --- Broker user (RabbitMQ broker users, distinct from workspace members) ---
@@ -98,6 +110,10 @@ export type WorkspacePermission =
   | "webhook:read"
   | "webhook:write"
   | "webhook:delete"
+  // --- PagerDuty / Opsgenie / Teams integrations ---
+  | "notification_channel:read"
+  | "notification_channel:write"
+  | "notification_channel:delete"
   // --- LLM config (workspace-scoped) ---
   | "llm_config:read"
   | "llm_config:write"
@@ -151,6 +167,9 @@ export const WORKSPACE_PERMISSION_REQUIREMENTS: Record<
   // --- Broker ---
   "broker:read": WorkspaceRole.READONLY,
   "broker:connections:read": WorkspaceRole.READONLY,
+  // Closing a connection drops every channel on it and any unacked
+  // deliveries go back to their queues — ADMIN.
+  "broker:connections:close": WorkspaceRole.ADMIN,
   "broker:update": WorkspaceRole.ADMIN,
   // --- Vhost ---
   "vhost:read": WorkspaceRole.READONLY,
@@ -172,8 +191,15 @@ export const WORKSPACE_PERMISSION_REQUIREMENTS: Record<
   "queue:delete": WorkspaceRole.ADMIN,
   "queue:purge": WorkspaceRole.ADMIN,
   "queue:pause": WorkspaceRole.ADMIN,
+  // --- Queue template ---
+  // Declaring a queue from a template still needs queue:create; writing a
+  // template sets conventions for the whole workspace — ADMIN.
+  "queue_template:read": WorkspaceRole.READONLY,
+  "queue_template:write": WorkspaceRole.ADMIN,
   // --- Binding ---
   "binding:read": WorkspaceRole.READONLY,
+  // Rewires routing — same tier as exchange:create / exchange:delete.
+  "binding:write": WorkspaceRole.ADMIN,
   // --- Exchange ---
   "exchange:read": WorkspaceRole.READONLY,
   "exchange:create": WorkspaceRole.ADMIN,
@@ -182,11 +208,22 @@ export const WORKSPACE_PERMISSION_REQUIREMENTS: Record<
   "policy:read": WorkspaceRole.READONLY,
   "policy:write": WorkspaceRole.ADMIN,
   "policy:delete": WorkspaceRole.ADMIN,
+  // --- Shovel / Federation ---
+  // Read responses carry URIs with the password redacted, so READONLY is
+  // safe. Writes move messages between brokers / vhosts — ADMIN.
+  "shovel:read": WorkspaceRole.READONLY,
+  "shovel:write": WorkspaceRole.ADMIN,
+  "federation:read": WorkspaceRole.READONLY,
+  "federation:write": WorkspaceRole.ADMIN,
   // --- Message ---
   // tap + record:read at ADMIN — payloads expose PII / business data
   // (strictly more sensitive than queue:read metadata).
   "message:publish": WorkspaceRole.ADMIN,
   "message:tap": WorkspaceRole.ADMIN,
+  "message:browse": WorkspaceRole.ADMIN,
+  // Move / DLQ requeue consumes messages from the source queue — a failed
+  // republish can reorder or duplicate deliveries.
+  "message:move": WorkspaceRole.ADMIN,
   "message:record:read": WorkspaceRole.ADMIN,
   // Toggling broker-level tracing — destructive broker config change.
   "message:record:write": WorkspaceRole.ADMIN,
@@ -215,6 +252,10 @@ export const WORKSPACE_PERMISSION_REQUIREMENTS: Record<
   "webhook:read": WorkspaceRole.READONLY,
   "webhook:write": WorkspaceRole.ADMIN,
   "webhook:delete": WorkspaceRole.ADMIN,
+  // --- PagerDuty / Opsgenie / Teams integrations ---
+  "notification_channel:read": WorkspaceRole.READONLY,
+  "notification_channel:write": WorkspaceRole.ADMIN,
+  "notification_channel:delete": WorkspaceRole.ADMIN,
   // --- LLM config ---
   "llm_config:read": WorkspaceRole.READONLY,
   "llm_config:write": WorkspaceRole.ADMIN,
@@ -14,6 +14,20 @@ export interface ApiKeyAuth {
   apiKeyId: string;
 }
 
+/**
+ * Pull a machine API key from request headers: `x-api-key` (the MCP route's
+ * header) or an `Authorization: Bearer` token, which is what scrapers and
+ * generic HTTP tooling send. Returns undefined when neither is present.
+ */
+export function readApiKeyHeader(
+  apiKeyHeader: string | undefined,
+  authorization: string | undefined
+): string | undefined {
+  if (apiKeyHeader) return apiKeyHeader;
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() || undefined;
+}
+
 /**
  * Verify an `x-api-key` and resolve the creating user + scope for the MCP
  * route (which is a raw Hono endpoint, not a tRPC procedure, so it can't lean
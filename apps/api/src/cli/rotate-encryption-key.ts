@@ -0,0 +1,133 @@
+/* eslint-disable no-console */
+import { parseArgs } from "node:util";
+
+// Colors (disabled if not a terminal)
+const isTTY = process.stdout.isTTY;
+const c = {
+  green: (s: string) => (isTTY ? `\x1b[32m${s}\x1b[0m` : s),
+  red: (s: string) => (isTTY ? `\x1b[31m${s}\x1b[0m` : s),
+  yellow: (s: string) => (isTTY ? `\x1b[33m${s}\x1b[0m` : s),
+  bold: (s: string) => (isTTY ? `\x1b[1m${s}\x1b[0m` : s),
+  dim: (s: string) => (isTTY ? `\x1b[2m${s}\x1b[0m` : s),
+};
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const USAGE = `Usage: qarote rotate-encryption-key [--batch-size <n>] [--dry-run]
+
+Re-encrypts every stored secret under the current ENCRYPTION_KEY.
+
+Before running it:
+  1. Set ENCRYPTION_PREVIOUS_KEYS=<old version>:<old key> (append to any
+     existing entries)
+  2. Set ENCRYPTION_KEY to the new key and bump ENCRYPTION_KEY_VERSION
+  3. Restart Qarote, so new secrets are written with the new key
+
+The command is safe to interrupt and run again: it resumes with the rows
+still on an older key. Once it reports no pending rows, the old key can be
+removed from ENCRYPTION_PREVIOUS_KEYS.`;
+
+/**
+ * `qarote rotate-encryption-key` — reads its configuration from the
+ * environment and `.env` like the server does. Returns the exit code.
+ */
+export async function runRotateEncryptionKey(argv: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      "batch-size": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+    strict: true,
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const batchSize = Number(values["batch-size"] ?? DEFAULT_BATCH_SIZE);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error(c.red("  --batch-size must be a positive integer"));
+    return 1;
+  }
+  const dryRun = values["dry-run"];
+
+  // Loaded here so `--help` works without a configured environment
+  const { prisma } = await import("@/core/prisma");
+  const { EncryptionService } = await import("@/services/encryption.service");
+  const { rotateEncryptionKeys } = await import("@/services/key-rotation");
+
+  console.log("");
+  console.log(
+    c.bold(
+      `  ${dryRun ? "Checking" : "Re-encrypting"} secrets for key version ${EncryptionService.keyVersion}`
+    )
+  );
+  console.log("");
+
+  try {
+    const results = await rotateEncryptionKeys({
+      batchSize,
+      dryRun,
+      onBatch: (progress) => {
+        console.log(
+          c.dim(
+            `    ${progress.table}: ${progress.rotated} ${dryRun ? "readable" : "rotated"}, ${progress.conflicts} changed meanwhile, ${progress.failures.length} failed`
+          )
+        );
+      },
+    });
+
+    let failed = 0;
+    let conflicts = 0;
+    for (const result of results) {
+      failed += result.failures.length;
+      conflicts += result.conflicts;
+      const mark = result.failures.length > 0 ? c.red("✗") : c.green("✓");
+      console.log(
+        `  ${mark} ${result.table}: ${result.rotated} ${dryRun ? "to rotate" : "rotated"}`
+      );
+      for (const failure of result.failures) {
+        console.log(c.red(`      ${failure.id}: ${failure.error}`));
+      }
+    }
+    console.log("");
+
+    if (failed > 0) {
+      console.log(
+        c.red(
+          `  ${failed} row(s) could not be decrypted. Check that ENCRYPTION_PREVIOUS_KEYS holds every old key, then run the command again.`
+        )
+      );
+      return 1;
+    }
+    if (conflicts > 0) {
+      console.log(
+        c.yellow(
+          `  ${conflicts} row(s) changed while being rotated. Run the command again to finish them.`
+        )
+      );
+      return 1;
+    }
+    console.log(
+      c.green(
+        dryRun
+          ? "  Every pending secret can be decrypted."
+          : "  Every secret is on the current key."
+      )
+    );
+    return 0;
+  } catch (error) {
+    console.error(
+      c.red(
+        `  Rotation stopped: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+    console.error(c.dim("  Run the command again to resume."));
+    return 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -107,6 +107,13 @@ export const serverConfig = {
 export const authConfig = {
   jwtSecret: config.JWT_SECRET,
   encryptionKey: config.ENCRYPTION_KEY,
+  encryptionKeyVersion: config.ENCRYPTION_KEY_VERSION,
+  previousEncryptionKeys: config.ENCRYPTION_PREVIOUS_KEYS,
+  secretFilesDir: config.SECRET_FILES_DIR,
+} as const;
+
+export const auditSinkConfig = {
+  fileDir: config.AUDIT_SINK_FILE_DIR,
 } as const;
 
 export const corsConfig = {
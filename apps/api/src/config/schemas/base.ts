@@ -21,6 +21,18 @@ export const baseSchema = z
     ENCRYPTION_KEY: z
       .string()
       .min(32, "ENCRYPTION_KEY must be at least 32 characters"),
+    // Version of ENCRYPTION_KEY. Bump it when replacing the key, move the
+    // old one to ENCRYPTION_PREVIOUS_KEYS, then run
+    // `qarote rotate-encryption-key`.
+    ENCRYPTION_KEY_VERSION: z.coerce.number().int().positive().default(1),
+    // Keys still needed to read secrets not yet rotated: `1:oldkey,2:otherkey`
+    ENCRYPTION_PREVIOUS_KEYS: z.string().optional(),
+    // Directory `file:` broker password references are resolved in (e.g.
+    // /run/secrets). Unset = file references are refused.
+    SECRET_FILES_DIR: z.string().optional(),
+    // Directory audit `file` sinks write their NDJSON files in. Unset = file
+    // sinks are refused.
+    AUDIT_SINK_FILE_DIR: z.string().optional(),
 
     // Database - ALWAYS required
     DATABASE_URL: z
@@ -0,0 +1,48 @@
+import { Hono } from "hono";
+
+import { logger } from "@/core/logger";
+
+import {
+  OPENMETRICS_CONTENT_TYPE,
+  renderOpenMetrics,
+} from "@/services/metrics/openmetrics";
+import { collectWorkspaceMetrics } from "@/services/metrics/workspace-metrics";
+
+import { readApiKeyHeader, resolveApiKeyAuth } from "@/auth/resolve-api-key";
+
+/**
+ * Prometheus / OpenMetrics scrape endpoint for the workspace an API key is
+ * bound to. Accepts the key as `x-api-key` (like the MCP route) or as a
+ * bearer token, which is what Prometheus' `authorization` scrape config
+ * sends (see `readApiKeyHeader`).
+ */
+const metricsController = new Hono();
+
+metricsController.get("/", async (c) => {
+  const key = readApiKeyHeader(
+    c.req.header("x-api-key"),
+    c.req.header("authorization")
+  );
+  if (!key) return c.json({ error: "Unauthorized" }, 401);
+
+  const apiKeyAuth = await resolveApiKeyAuth(key);
+  if (!apiKeyAuth) return c.json({ error: "Unauthorized" }, 401);
+
+  try {
+    const families = await collectWorkspaceMetrics(
+      apiKeyAuth.scope.workspaceId
+    );
+    return c.body(renderOpenMetrics(families), 200, {
+      "Content-Type": OPENMETRICS_CONTENT_TYPE,
+      "Cache-Control": "no-store",
+    });
+  } catch (error) {
+    logger.error(
+      { err: error, workspaceId: apiKeyAuth.scope.workspaceId },
+      "Metrics exposition failed"
+    );
+    return c.json({ error: "Metrics collection failed" }, 500);
+  }
+});
+
+export default metricsController;
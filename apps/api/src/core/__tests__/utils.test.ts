@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+
+import { canonicalJson, normalizeTags } from "../utils";
+
+describe("canonicalJson", () => {
+  it("sorts keys at every depth and drops undefined values", () => {
+    expect(
+      canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: undefined } })
+    ).toBe('{"a":{"d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+});
+
+describe("normalizeTags", () => {
+  it("accepts both the string and the array form", () => {
+    expect(normalizeTags("administrator, monitoring")).toEqual([
+      "administrator",
+      "monitoring",
+    ]);
+    expect(normalizeTags(["management"])).toEqual(["management"]);
+    expect(normalizeTags("")).toEqual([]);
+    expect(normalizeTags(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * A service failure the caller can act on, identified by `code` — which
+ * doubles as the i18n error key. A service declares its code union and
+ * subclasses this (`class QueuePauseError extends CodedError<QueuePauseErrorCode> {}`);
+ * `throwAsTRPCError` in `@/trpc/errors` turns it into a tRPC error.
+ */
+export class CodedError<Code extends string = string> extends Error {
+  constructor(
+    public code: Code,
+    message: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
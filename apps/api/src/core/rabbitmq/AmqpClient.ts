@@ -4,16 +4,12 @@ import { logger } from "@/core/logger";
 
 import { captureRabbitMQError } from "@/services/sentry";
 
-import type {
-  AMQPConnectionConfig,
-  QueuePauseState,
-} from "./rabbitmq.interfaces";
+import { QAROTE_CONNECTION_NAME } from "./internal-connections";
+import type { AMQPConnectionConfig } from "./rabbitmq.interfaces";
+import { brokerTlsSocketOptions } from "./tls";
 
 // Re-export types for convenience
-export type {
-  AMQPConnectionConfig,
-  QueuePauseState,
-} from "./rabbitmq.interfaces";
+export type { AMQPConnectionConfig } from "./rabbitmq.interfaces";
 
 /**
  * AMQP-based RabbitMQ client for direct protocol operations
@@ -26,52 +22,11 @@ export class RabbitMQAmqpClient {
   private config: AMQPConnectionConfig;
   private isConnected = false;
   private consumers: Map<string, amqp.Replies.Consume> = new Map();
-  private pausedQueues: Map<string, QueuePauseState> = new Map();
-  private persistenceCallback?: (
-    serverId: string,
-    pauseStates: QueuePauseState[]
-  ) => Promise<void>;
 
   constructor(config: AMQPConnectionConfig) {
     this.config = config;
   }
 
-  /**
-   * Set callback for persisting pause states to database
-   */
-  setPersistenceCallback(
-    callback: (
-      serverId: string,
-      pauseStates: QueuePauseState[]
-    ) => Promise<void>
-  ): void {
-    this.persistenceCallback = callback;
-  }
-
-  /**
-   * Load existing pause states from database
-   */
-  loadPauseStates(pauseStates: QueuePauseState[]): void {
-    this.pausedQueues.clear();
-    for (const state of pauseStates) {
-      this.pausedQueues.set(state.queueName, state);
-    }
-  }
-
-  /**
-   * Persist pause states to database
-   */
-  private async persistPauseStates(): Promise<void> {
-    if (this.persistenceCallback && this.config.serverId) {
-      const states = Array.from(this.pausedQueues.values());
-      try {
-        await this.persistenceCallback(this.config.serverId, states);
-      } catch (error) {
-        logger.warn({ error }, "Failed to persist pause states to database:");
-      }
-    }
-  }
-
   /**
    * Connect to RabbitMQ via AMQP protocol
    * Creates dynamic connection based on server configuration
@@ -116,11 +71,35 @@ export class RabbitMQAmqpClient {
         },
         {
           timeout: this.config.connectionTimeout ?? 30000,
+          // Lets connection listings (and bulk close) tell ours apart
+          clientProperties: { connection_name: QAROTE_CONNECTION_NAME },
+          // Socket options go to tls.connect for amqps — the same CA, client
+          // certificate and SNI override the Management API client uses.
+          ...(this.config.protocol === "amqps" && this.config.tls
+            ? brokerTlsSocketOptions(this.config.tls)
+            : {}),
         }
       );
 
       this.channel = await this.connection.createChannel();
 
+      // A channel-level error (e.g. a failed passive declare) closes the
+      // channel and every consumer on it while the connection stays up —
+      // drop it so isConnectionActive() tells the truth.
+      const channel = this.channel;
+      channel.on("error", (error: Error) => {
+        logger.warn(
+          { serverId: this.config.serverId, error: error.message },
+          "AMQP channel error"
+        );
+      });
+      channel.on("close", () => {
+        if (this.channel === channel) {
+          this.channel = null;
+          this.consumers.clear();
+        }
+      });
+
       // Set up connection event handlers
       this.connection.on("error", (error: Error) => {
         logger.error(
@@ -216,78 +195,77 @@ export class RabbitMQAmqpClient {
   }
 
   /**
-   * Pause a queue by creating a blocking consumer
-   * This effectively pauses message processing
+   * Pause a queue by attaching a blocking consumer: highest priority and
+   * never acking, so the broker hands it messages ahead of every other
+   * consumer and they stay unacked until it is cancelled (then redelivered).
+   *
+   * The consumer lives exactly as long as this connection. Pauses that must
+   * outlast a process are owned by the queue-pause worker, which re-applies
+   * them; `onCancelled` fires when the broker cancels the consumer itself,
+   * e.g. because the queue was deleted.
    */
-  async pauseQueue(queueName: string): Promise<QueuePauseState> {
+  async pauseQueue(
+    queueName: string,
+    consumerTag: string,
+    onCancelled?: () => void
+  ): Promise<string> {
     try {
       await this.ensureConnection();
 
-      if (!this.channel) {
+      if (!this.channel || !this.connection) {
         throw new Error("No AMQP channel available");
       }
 
       logger.info(`Pausing queue via AMQP: ${queueName}`);
 
-      // Check if queue exists
+      // Check on a throwaway channel: a 404 closes the channel it ran on,
+      // which would take every other pause consumer on this one with it.
+      const probe = await this.connection.createChannel();
+      probe.on("error", () => {});
       try {
-        await this.channel.checkQueue(queueName);
+        await probe.checkQueue(queueName);
       } catch {
         throw new Error(`Queue "${queueName}" does not exist`);
+      } finally {
+        await probe.close().catch(() => {});
       }
 
-      // Create a blocking consumer with high priority that will consume but not ack messages
-      // This effectively pauses the queue by preventing other consumers from processing
-      const pauseConsumerTag = `pause-${queueName}-${Date.now()}`;
-
       const consumeResult = await this.channel.consume(
         queueName,
         (msg) => {
-          if (msg) {
-            // Don't acknowledge the message - this blocks the queue
-            // The message will be redelivered when we cancel this consumer
-            logger.debug(
-              `Pause consumer received message on ${queueName}, holding without ack`
-            );
+          if (!msg) {
+            // Broker-side cancel (queue deleted, node failover)
+            this.consumers.delete(consumerTag);
+            onCancelled?.();
+            return;
           }
+          // Don't acknowledge the message - this blocks the queue
+          // The message will be redelivered when we cancel this consumer
+          logger.debug(
+            `Pause consumer received message on ${queueName}, holding without ack`
+          );
         },
         {
-          consumerTag: pauseConsumerTag,
+          consumerTag,
           priority: 255, // Highest priority to ensure this consumer gets messages first
           exclusive: false,
           noAck: false, // Important: we need manual ack control
         }
       );
 
-      if (consumeResult) {
-        this.consumers.set(pauseConsumerTag, consumeResult);
-      }
-
-      const pauseState: QueuePauseState = {
-        queueName,
-        vhost: this.config.vhost,
-        isPaused: true,
-        pausedAt: new Date(),
-        pausedConsumers: [pauseConsumerTag],
-        serverId: this.config.serverId,
-      };
-
-      this.pausedQueues.set(queueName, pauseState);
-
-      // Persist to database
-      await this.persistPauseStates();
+      this.consumers.set(consumerTag, consumeResult);
 
       logger.info(
         {
           serverId: this.config.serverId,
           serverName: this.config.serverName,
-          pauseConsumerTag,
-          pausedAt: pauseState.pausedAt,
+          vhost: this.config.vhost,
+          consumerTag,
         },
         `Queue ${queueName} paused successfully via AMQP`
       );
 
-      return pauseState;
+      return consumeResult.consumerTag;
     } catch (error) {
       logger.error({ error }, `Failed to pause queue ${queueName} via AMQP:`);
 
@@ -302,99 +280,6 @@ export class RabbitMQAmqpClient {
     }
   }
 
-  /**
-   * Resume a queue by cancelling the blocking consumer
-   */
-  async resumeQueue(queueName: string): Promise<QueuePauseState> {
-    try {
-      await this.ensureConnection();
-
-      if (!this.channel) {
-        throw new Error("No AMQP channel available");
-      }
-
-      logger.info(`Resuming queue via AMQP: ${queueName}`);
-
-      const pauseState = this.pausedQueues.get(queueName);
-      if (!pauseState) {
-        throw new Error(`Queue "${queueName}" is not currently paused`);
-      }
-
-      // Cancel all pause consumers for this queue
-      for (const consumerTag of pauseState.pausedConsumers) {
-        try {
-          await this.channel.cancel(consumerTag);
-          this.consumers.delete(consumerTag);
-          logger.debug(`Cancelled pause consumer: ${consumerTag}`);
-        } catch (error) {
-          logger.warn(
-            { error },
-            `Failed to cancel pause consumer ${consumerTag}:`
-          );
-        }
-      }
-
-      const resumedState: QueuePauseState = {
-        ...pauseState,
-        isPaused: false,
-        resumedAt: new Date(),
-        pausedConsumers: [],
-      };
-
-      this.pausedQueues.set(queueName, resumedState);
-
-      // Persist to database
-      await this.persistPauseStates();
-
-      logger.info(
-        {
-          serverId: this.config.serverId,
-          serverName: this.config.serverName,
-          resumedAt: resumedState.resumedAt,
-          cancelledConsumers: pauseState.pausedConsumers.length,
-        },
-        `Queue ${queueName} resumed successfully via AMQP`
-      );
-
-      return resumedState;
-    } catch (error) {
-      logger.error({ error }, `Failed to resume queue ${queueName} via AMQP:`);
-
-      if (error instanceof Error) {
-        captureRabbitMQError(error, {
-          operation: "amqp_resume_queue",
-          queueName,
-        });
-      }
-
-      throw error;
-    }
-  }
-
-  /**
-   * Get the pause state of a queue
-   */
-  getQueuePauseState(queueName: string): QueuePauseState | null {
-    return this.pausedQueues.get(queueName) || null;
-  }
-
-  /**
-   * Get all paused queues
-   */
-  getAllPausedQueues(): QueuePauseState[] {
-    return Array.from(this.pausedQueues.values()).filter(
-      (state) => state.isPaused
-    );
-  }
-
-  /**
-   * Check if a queue is currently paused
-   */
-  isQueuePaused(queueName: string): boolean {
-    const state = this.pausedQueues.get(queueName);
-    return state?.isPaused || false;
-  }
-
   /**
    * Create a queue with specified options
    */
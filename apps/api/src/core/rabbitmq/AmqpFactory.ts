@@ -1,6 +1,47 @@
 import { logger } from "@/core/logger";
 
 import { AMQPConnectionConfig, RabbitMQAmqpClient } from "./AmqpClient";
+import type { BrokerTlsOptions } from "./rabbitmq.interfaces";
+
+export interface AmqpServerConfig {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  amqpPort: number;
+  username: string;
+  password: string;
+  vhost: string;
+  useHttps: boolean;
+  tls?: BrokerTlsOptions;
+}
+
+/**
+ * Connection settings for a server's AMQP listener. Exported for callers
+ * that own their connections outside the factory's per-server cache (the
+ * queue-pause worker holds one per server and vhost).
+ */
+export function amqpConnectionConfig(
+  serverConfig: AmqpServerConfig
+): AMQPConnectionConfig {
+  return {
+    protocol: serverConfig.useHttps
+      ? "amqps"
+      : serverConfig.amqpPort === 5671
+        ? "amqps"
+        : "amqp",
+    hostname: serverConfig.host,
+    port: serverConfig.amqpPort, // Use AMQP port for the connection
+    username: serverConfig.username,
+    password: serverConfig.password,
+    vhost: serverConfig.vhost || "/",
+    serverId: serverConfig.id,
+    serverName: serverConfig.name,
+    connectionTimeout: 30_000,
+    heartbeat: 60, // heartbeat interval
+    tls: serverConfig.tls,
+  };
+}
 
 /**
  * Factory class to create AMQP clients for different RabbitMQ servers
@@ -14,17 +55,9 @@ export class RabbitMQAmqpClientFactory {
   /**
    * Create an AMQP client for a specific RabbitMQ server with local connection management
    */
-  static async createClient(serverConfig: {
-    id: string;
-    name: string;
-    host: string;
-    port: number;
-    amqpPort: number;
-    username: string;
-    password: string;
-    vhost: string;
-    useHttps: boolean;
-  }): Promise<RabbitMQAmqpClient> {
+  static async createClient(
+    serverConfig: AmqpServerConfig
+  ): Promise<RabbitMQAmqpClient> {
     // Check local cache first
     const existingClient = this.clients.get(serverConfig.id);
     if (existingClient && existingClient.isConnectionActive()) {
@@ -56,25 +89,8 @@ export class RabbitMQAmqpClientFactory {
       );
     }
 
-    const config: AMQPConnectionConfig = {
-      protocol: serverConfig.useHttps
-        ? "amqps"
-        : serverConfig.amqpPort === 5671
-          ? "amqps"
-          : "amqp",
-      hostname: serverConfig.host,
-      port: serverConfig.amqpPort, // Use AMQP port for the connection
-      username: serverConfig.username,
-      password: serverConfig.password,
-      vhost: serverConfig.vhost || "/",
-      serverId: serverConfig.id,
-      serverName: serverConfig.name,
-      connectionTimeout: 30_000,
-      heartbeat: 60, // heartbeat interval
-    };
-
     // Create new client
-    const client = new RabbitMQAmqpClient(config);
+    const client = new RabbitMQAmqpClient(amqpConnectionConfig(serverConfig));
     await client.connect();
 
     // Register locally
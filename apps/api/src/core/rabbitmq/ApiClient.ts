@@ -2,22 +2,32 @@ import { captureRabbitMQError } from "../../services/sentry";
 import { logger } from "../logger";
 import { RabbitMQBaseClient } from "./BaseClient";
 import type {
+  BindingArguments,
+  BindingDestinationType,
   CreateOrUpdatePolicyRequest,
   CreateVHostRequest,
+  FederationUpstreamDefinition,
   RabbitMQBinding,
   RabbitMQChannel,
   RabbitMQConnection,
   RabbitMQConsumer,
   RabbitMQExchange,
+  RabbitMQFederationLink,
+  RabbitMQFederationUpstream,
   RabbitMQNode,
   RabbitMQOverview,
   RabbitMQPolicy,
   RabbitMQQueue,
+  RabbitMQShovelParameter,
+  RabbitMQShovelStatus,
+  RabbitMQStreamConsumer,
   RabbitMQUser,
   RabbitMQUserPermission,
   RabbitMQVHost,
+  RabbitMQWhoami,
   SetVHostLimitRequest,
   SetVHostPermissionsRequest,
+  ShovelDefinition,
   UpdateUserData,
   UpdateVHostRequest,
   VHostLimits,
@@ -346,6 +356,118 @@ export class RabbitMQApiClient extends RabbitMQBaseClient {
     }
   }
 
+  /**
+   * One channel with sampled message rates over `timeRange` — the ack
+   * counter samples show whether its consumers acked anything lately.
+   */
+  async getChannelWithTimeRange(
+    name: string,
+    timeRange: { age: number; increment: number }
+  ): Promise<RabbitMQChannel> {
+    try {
+      logger.debug(
+        { name, age: timeRange.age, increment: timeRange.increment },
+        "Fetching RabbitMQ channel with time range"
+      );
+      const queryParams = new URLSearchParams({
+        msg_rates_age: timeRange.age.toString(),
+        msg_rates_incr: timeRange.increment.toString(),
+      });
+      return await this.request<RabbitMQChannel>(
+        `/channels/${encodeURIComponent(name)}?${queryParams.toString()}`
+      );
+    } catch (error) {
+      logger.error(
+        { error, name },
+        "Failed to fetch RabbitMQ channel with time range"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getChannelWithTimeRange",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async getConnection(name: string): Promise<RabbitMQConnection> {
+    try {
+      logger.debug({ name }, "Fetching RabbitMQ connection");
+      return await this.request<RabbitMQConnection>(
+        `/connections/${encodeURIComponent(name)}`
+      );
+    } catch (error) {
+      logger.error({ error, name }, "Failed to fetch RabbitMQ connection");
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getConnection",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async getConnectionChannels(name: string): Promise<RabbitMQChannel[]> {
+    try {
+      logger.debug({ name }, "Fetching RabbitMQ connection channels");
+      const channels = await this.request<RabbitMQChannel[]>(
+        `/connections/${encodeURIComponent(name)}/channels`
+      );
+      logger.debug(
+        { name, count: channels?.length ?? 0 },
+        "RabbitMQ connection channels fetched"
+      );
+      return channels;
+    } catch (error) {
+      logger.error(
+        { error, name },
+        "Failed to fetch RabbitMQ connection channels"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getConnectionChannels",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Force-close a client connection. The broker passes `reason` to the
+   * client in the connection.close frame (via the `X-Reason` header), so
+   * it shows up in the application's own logs.
+   */
+  async closeConnection(name: string, reason?: string): Promise<void> {
+    try {
+      logger.debug({ name }, "Closing RabbitMQ connection");
+      await this.request(`/connections/${encodeURIComponent(name)}`, {
+        method: "DELETE",
+        // Replaces the default headers wholesale, so auth goes along
+        headers: {
+          Authorization: this.authHeader,
+          "Content-Type": "application/json",
+          // HTTP header values must be printable ASCII
+          ...(reason
+            ? { "X-Reason": reason.replace(/[^\x20-\x7e]/g, "?") }
+            : {}),
+        },
+      });
+      logger.debug({ name }, "RabbitMQ connection closed");
+    } catch (error) {
+      logger.error({ error, name }, "Failed to close RabbitMQ connection");
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "closeConnection",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
   async getExchanges(vhost?: string): Promise<RabbitMQExchange[]> {
     try {
       // Follow RabbitMQ API: /api/exchanges for all, /api/exchanges/vhost for filtered
@@ -507,6 +629,108 @@ export class RabbitMQApiClient extends RabbitMQBaseClient {
     }
   }
 
+  async createBinding(
+    vhost: string,
+    source: string,
+    destinationType: BindingDestinationType,
+    destination: string,
+    routingKey: string = "",
+    bindingArgs: BindingArguments = {}
+  ): Promise<void> {
+    try {
+      logger.debug(
+        { vhost, source, destinationType, destination, routingKey },
+        "Creating RabbitMQ binding"
+      );
+
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedSource = encodeURIComponent(source);
+      const encodedDestination = encodeURIComponent(destination);
+      const destinationSegment = destinationType === "queue" ? "q" : "e";
+
+      await this.request(
+        `/bindings/${encodedVhost}/e/${encodedSource}/${destinationSegment}/${encodedDestination}`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            routing_key: routingKey,
+            arguments: bindingArgs,
+          }),
+        }
+      );
+
+      logger.debug(
+        { vhost, source, destinationType, destination },
+        "RabbitMQ binding created successfully"
+      );
+    } catch (error) {
+      logger.error(
+        { error, vhost, source, destinationType, destination },
+        "Failed to create RabbitMQ binding"
+      );
+
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "createBinding",
+          exchange: source,
+          serverId: this.baseUrl,
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a binding. RabbitMQ identifies a binding by its `properties_key`
+   * (routing key + argument hash) as returned by the bindings listing.
+   */
+  async deleteBinding(
+    vhost: string,
+    source: string,
+    destinationType: BindingDestinationType,
+    destination: string,
+    propertiesKey: string
+  ): Promise<void> {
+    try {
+      logger.debug(
+        { vhost, source, destinationType, destination, propertiesKey },
+        "Deleting RabbitMQ binding"
+      );
+
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedSource = encodeURIComponent(source);
+      const encodedDestination = encodeURIComponent(destination);
+      const encodedPropertiesKey = encodeURIComponent(propertiesKey);
+      const destinationSegment = destinationType === "queue" ? "q" : "e";
+
+      await this.request(
+        `/bindings/${encodedVhost}/e/${encodedSource}/${destinationSegment}/${encodedDestination}/${encodedPropertiesKey}`,
+        { method: "DELETE" }
+      );
+
+      logger.debug(
+        { vhost, source, destinationType, destination },
+        "RabbitMQ binding deleted successfully"
+      );
+    } catch (error) {
+      logger.error(
+        { error, vhost, source, destinationType, destination },
+        "Failed to delete RabbitMQ binding"
+      );
+
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "deleteBinding",
+          exchange: source,
+          serverId: this.baseUrl,
+        });
+      }
+
+      throw error;
+    }
+  }
+
   async createExchange(
     exchangeName: string,
     exchangeType: string,
@@ -1197,6 +1421,58 @@ export class RabbitMQApiClient extends RabbitMQBaseClient {
     }
   }
 
+  /**
+   * Ask the broker to spread quorum queue and stream leaders evenly across
+   * running nodes. The broker accepts the request and rebalances in the
+   * background; leaders move one queue at a time.
+   */
+  async rebalanceQueues(): Promise<void> {
+    try {
+      logger.debug("Requesting RabbitMQ queue leader rebalance");
+      await this.request("/rebalance/queues", { method: "POST" });
+      logger.debug("RabbitMQ queue leader rebalance requested");
+    } catch (error) {
+      logger.error({ error }, "Failed to request RabbitMQ leader rebalance");
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "rebalanceQueues",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream protocol subscriptions in a vhost, with their offsets. Requires
+   * rabbitmq_stream_management.
+   */
+  async getStreamConsumers(vhost: string): Promise<RabbitMQStreamConsumer[]> {
+    try {
+      logger.debug({ vhost }, "Fetching RabbitMQ stream consumers");
+      const items = await this.request<RabbitMQStreamConsumer[]>(
+        `/stream/consumers/${encodeURIComponent(vhost)}`
+      );
+      logger.debug(
+        { count: items?.length ?? 0 },
+        "RabbitMQ stream consumers fetched"
+      );
+      return items;
+    } catch (error) {
+      logger.error(
+        { error, vhost },
+        "Failed to fetch RabbitMQ stream consumers"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getStreamConsumers",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
   // User Management Methods
   async getUsers(): Promise<RabbitMQUser[]> {
     try {
@@ -1271,6 +1547,44 @@ export class RabbitMQApiClient extends RabbitMQBaseClient {
     }
   }
 
+  /** Every user's permissions on every vhost, in one request. */
+  async getPermissions(): Promise<RabbitMQUserPermission[]> {
+    try {
+      logger.debug("Fetching all user permissions");
+      const permissions =
+        await this.request<RabbitMQUserPermission[]>("/permissions");
+      logger.debug(
+        { count: permissions?.length || 0 },
+        "All user permissions fetched successfully"
+      );
+      return permissions;
+    } catch (error) {
+      logger.error({ error }, "Failed to fetch all user permissions");
+
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getPermissions",
+          serverId: this.baseUrl,
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * The user these credentials authenticate as. Cheap and side-effect
+   * free, so it doubles as a credential check.
+   */
+  async whoami(): Promise<RabbitMQWhoami> {
+    try {
+      return await this.request<RabbitMQWhoami>("/whoami");
+    } catch (error) {
+      logger.debug({ error }, "RabbitMQ whoami failed");
+      throw error;
+    }
+  }
+
   async createUser(
     username: string,
     userData: { password?: string; tags: string }
@@ -1526,4 +1840,308 @@ export class RabbitMQApiClient extends RabbitMQBaseClient {
       throw error;
     }
   }
+
+  /**
+   * Dynamic shovel definitions. The `shovel` parameter component only
+   * exists while the rabbitmq_shovel plugin is enabled.
+   */
+  async getShovelParameters(
+    vhost?: string
+  ): Promise<RabbitMQShovelParameter[]> {
+    try {
+      const path = vhost
+        ? `/parameters/shovel/${encodeURIComponent(vhost)}`
+        : "/parameters/shovel";
+      logger.debug({ vhost }, "Fetching RabbitMQ shovel definitions");
+      const items = await this.request<RabbitMQShovelParameter[]>(path);
+      logger.debug(
+        { count: items?.length ?? 0 },
+        "RabbitMQ shovel definitions fetched"
+      );
+      return items;
+    } catch (error) {
+      logger.error(
+        { error, vhost },
+        "Failed to fetch RabbitMQ shovel definitions"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getShovelParameters",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Live shovel state (running / starting / terminated), static and
+   * dynamic. Requires rabbitmq_shovel_management.
+   */
+  async getShovelStatuses(vhost?: string): Promise<RabbitMQShovelStatus[]> {
+    try {
+      const path = vhost ? `/shovels/${encodeURIComponent(vhost)}` : "/shovels";
+      logger.debug({ vhost }, "Fetching RabbitMQ shovel statuses");
+      const items = await this.request<RabbitMQShovelStatus[]>(path);
+      logger.debug(
+        { count: items?.length ?? 0 },
+        "RabbitMQ shovel statuses fetched"
+      );
+      return items;
+    } catch (error) {
+      logger.error(
+        { error, vhost },
+        "Failed to fetch RabbitMQ shovel statuses"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getShovelStatuses",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async putShovel(
+    vhost: string,
+    name: string,
+    value: ShovelDefinition
+  ): Promise<void> {
+    try {
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedName = encodeURIComponent(name);
+      logger.debug({ vhost, name }, "Creating/updating RabbitMQ shovel");
+      await this.request(`/parameters/shovel/${encodedVhost}/${encodedName}`, {
+        method: "PUT",
+        body: JSON.stringify({ component: "shovel", vhost, name, value }),
+      });
+      logger.debug({ vhost, name }, "RabbitMQ shovel saved successfully");
+    } catch (error) {
+      logger.error({ error, vhost, name }, "Failed to save RabbitMQ shovel");
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "putShovel",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async deleteShovel(vhost: string, name: string): Promise<void> {
+    try {
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedName = encodeURIComponent(name);
+      logger.debug({ vhost, name }, "Deleting RabbitMQ shovel");
+      await this.request(`/parameters/shovel/${encodedVhost}/${encodedName}`, {
+        method: "DELETE",
+      });
+      logger.debug({ vhost, name }, "RabbitMQ shovel deleted successfully");
+    } catch (error) {
+      logger.error({ error, vhost, name }, "Failed to delete RabbitMQ shovel");
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "deleteShovel",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Restart a dynamic shovel in place without touching its definition.
+   * Requires rabbitmq_shovel_management 3.8+.
+   */
+  async restartShovel(vhost: string, name: string): Promise<void> {
+    try {
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedName = encodeURIComponent(name);
+      logger.debug({ vhost, name }, "Restarting RabbitMQ shovel");
+      await this.request(
+        `/shovels/vhost/${encodedVhost}/${encodedName}/restart`,
+        { method: "DELETE" }
+      );
+      logger.debug({ vhost, name }, "RabbitMQ shovel restarted successfully");
+    } catch (error) {
+      logger.error({ error, vhost, name }, "Failed to restart RabbitMQ shovel");
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "restartShovel",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Federation upstream definitions. The `federation-upstream` parameter
+   * component only exists while the rabbitmq_federation plugin is enabled.
+   */
+  async getFederationUpstreams(
+    vhost?: string
+  ): Promise<RabbitMQFederationUpstream[]> {
+    try {
+      const path = vhost
+        ? `/parameters/federation-upstream/${encodeURIComponent(vhost)}`
+        : "/parameters/federation-upstream";
+      logger.debug({ vhost }, "Fetching RabbitMQ federation upstreams");
+      const items = await this.request<RabbitMQFederationUpstream[]>(path);
+      logger.debug(
+        { count: items?.length ?? 0 },
+        "RabbitMQ federation upstreams fetched"
+      );
+      return items;
+    } catch (error) {
+      logger.error(
+        { error, vhost },
+        "Failed to fetch RabbitMQ federation upstreams"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getFederationUpstreams",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Live federation link state. Requires rabbitmq_federation_management.
+   */
+  async getFederationLinks(vhost?: string): Promise<RabbitMQFederationLink[]> {
+    try {
+      const path = vhost
+        ? `/federation-links/${encodeURIComponent(vhost)}`
+        : "/federation-links";
+      logger.debug({ vhost }, "Fetching RabbitMQ federation links");
+      const items = await this.request<RabbitMQFederationLink[]>(path);
+      logger.debug(
+        { count: items?.length ?? 0 },
+        "RabbitMQ federation links fetched"
+      );
+      return items;
+    } catch (error) {
+      logger.error(
+        { error, vhost },
+        "Failed to fetch RabbitMQ federation links"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "getFederationLinks",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async putFederationUpstream(
+    vhost: string,
+    name: string,
+    value: FederationUpstreamDefinition
+  ): Promise<void> {
+    try {
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedName = encodeURIComponent(name);
+      logger.debug(
+        { vhost, name },
+        "Creating/updating RabbitMQ federation upstream"
+      );
+      await this.request(
+        `/parameters/federation-upstream/${encodedVhost}/${encodedName}`,
+        {
+          method: "PUT",
+          body: JSON.stringify({
+            component: "federation-upstream",
+            vhost,
+            name,
+            value,
+          }),
+        }
+      );
+      logger.debug(
+        { vhost, name },
+        "RabbitMQ federation upstream saved successfully"
+      );
+    } catch (error) {
+      logger.error(
+        { error, vhost, name },
+        "Failed to save RabbitMQ federation upstream"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "putFederationUpstream",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async deleteFederationUpstream(vhost: string, name: string): Promise<void> {
+    try {
+      const encodedVhost = encodeURIComponent(vhost);
+      const encodedName = encodeURIComponent(name);
+      logger.debug({ vhost, name }, "Deleting RabbitMQ federation upstream");
+      await this.request(
+        `/parameters/federation-upstream/${encodedVhost}/${encodedName}`,
+        { method: "DELETE" }
+      );
+      logger.debug(
+        { vhost, name },
+        "RabbitMQ federation upstream deleted successfully"
+      );
+    } catch (error) {
+      logger.error(
+        { error, vhost, name },
+        "Failed to delete RabbitMQ federation upstream"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "deleteFederationUpstream",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Restart a single federation link. Links are per node, so both the
+   * link id and the node running it are required.
+   */
+  async restartFederationLink(
+    vhost: string,
+    id: string,
+    node: string
+  ): Promise<void> {
+    try {
+      const encodedVhost = encodeURIComponent(vhost);
+      logger.debug({ vhost, id, node }, "Restarting RabbitMQ federation link");
+      await this.request(
+        `/federation-links/vhost/${encodedVhost}/${encodeURIComponent(id)}/${encodeURIComponent(node)}/restart`,
+        { method: "DELETE" }
+      );
+      logger.debug(
+        { vhost, id, node },
+        "RabbitMQ federation link restarted successfully"
+      );
+    } catch (error) {
+      logger.error(
+        { error, vhost, id, node },
+        "Failed to restart RabbitMQ federation link"
+      );
+      if (error instanceof Error) {
+        captureRabbitMQError(error, {
+          operation: "restartFederationLink",
+          serverId: this.baseUrl,
+        });
+      }
+      throw error;
+    }
+  }
 }
@@ -1,6 +1,9 @@
+import type https from "node:https";
+
 import { captureRabbitMQError } from "../../services/sentry";
 import { logger } from "../logger";
 import type { RabbitMQCredentials } from "./rabbitmq.interfaces";
+import { createBrokerTlsAgent, fetchWithAgent, hasBrokerTls } from "./tls";
 import { normalizeTunnelCredentials } from "./tunnel";
 
 /**
@@ -38,6 +41,8 @@ export class RabbitMQBaseClient {
   protected vhost: string;
   protected version?: string; // Full RabbitMQ version (e.g., "3.12.10", "4.0.1")
   protected versionMajorMinor?: string; // Major.Minor version (e.g., "3.12", "4.0")
+  /** Set when the server has a CA bundle, client certificate or SNI override. */
+  private tlsAgent?: https.Agent;
 
   constructor(credentials: RabbitMQCredentials) {
     // Normalize tunnel URLs automatically
@@ -79,6 +84,10 @@ export class RabbitMQBaseClient {
     this.vhost = encodeURIComponent(credentials.vhost);
     this.version = credentials.version;
     this.versionMajorMinor = credentials.versionMajorMinor;
+
+    if (normalized.useHttps && hasBrokerTls(credentials.tls)) {
+      this.tlsAgent = createBrokerTlsAgent(credentials.tls);
+    }
   }
 
   protected async request<T = unknown>(
@@ -99,7 +108,10 @@ export class RabbitMQBaseClient {
         `Fetching RabbitMQ API endpoint: ${this.baseUrl}${endpoint}`
       );
       const startedAt = process.hrtime.bigint();
-      const response = await fetch(`${this.baseUrl}${endpoint}`, fetchOptions);
+      const url = `${this.baseUrl}${endpoint}`;
+      const response = this.tlsAgent
+        ? await fetchWithAgent(url, fetchOptions, this.tlsAgent)
+        : await fetch(url, fetchOptions);
       const headersAt = process.hrtime.bigint();
 
       if (!response.ok) {
@@ -10,7 +10,9 @@ import type {
   BindingArguments,
   BindQueueResult,
   CreateQueueResult,
+  GetMessagesOptions,
   MessageProperties,
+  PayloadEncoding,
   PublishResult,
   PurgeQueueResult,
   QueueCreateOptions,
@@ -64,21 +66,24 @@ export class RabbitMQQueueClient extends RabbitMQBaseClient {
   async getMessages(
     queueName: string,
     vhost: string,
-    count: number = 10
+    count: number = 10,
+    options: GetMessagesOptions = {}
   ): Promise<RabbitMQMessage[]> {
     const encodedQueueName = encodeURIComponent(queueName);
     const encodedVhost = encodeURIComponent(vhost);
     const endpoint = `/queues/${encodedVhost}/${encodedQueueName}/get`;
 
-    const payload = {
+    const ackmode = options.ackMode ?? AckMode.ACK_REQUEUE_TRUE;
+    const payload: Record<string, unknown> = {
       count,
-      ackmode: AckMode.ACK_REQUEUE_TRUE,
-      encoding: "auto",
+      ackmode,
+      encoding: options.encoding ?? "auto",
     };
+    if (options.truncate !== undefined) payload.truncate = options.truncate;
 
     try {
       logger.info(
-        `Browsing messages from queue: ${queueName} (count: ${count})`
+        `Fetching messages from queue: ${queueName} (count: ${count}, ackmode: ${ackmode})`
       );
 
       const result = await this.request(endpoint, {
@@ -116,7 +121,8 @@ export class RabbitMQQueueClient extends RabbitMQBaseClient {
     routingKey: string,
     vhost: string,
     payload: string,
-    properties: MessageProperties = {}
+    properties: MessageProperties = {},
+    payloadEncoding: PayloadEncoding = "string"
   ): Promise<PublishResult> {
     const encodedExchange = encodeURIComponent(exchange);
     const encodedVhost = encodeURIComponent(vhost);
@@ -154,7 +160,7 @@ export class RabbitMQQueueClient extends RabbitMQBaseClient {
         properties: rabbitMQProperties,
         routing_key: routingKey,
         payload: payload,
-        payload_encoding: "string",
+        payload_encoding: payloadEncoding,
       };
 
       logger.info(
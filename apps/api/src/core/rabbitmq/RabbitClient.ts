@@ -7,8 +7,10 @@ import type {
   BindingArguments,
   BindQueueResult,
   CreateQueueResult,
+  GetMessagesOptions,
   MessageProperties,
   Metrics,
+  PayloadEncoding,
   PublishResult,
   PurgeQueueResult,
   QueueCreateOptions,
@@ -39,9 +41,10 @@ export class RabbitMQClient extends RabbitMQApiClient {
   async getMessages(
     queueName: string,
     vhost: string,
-    count: number = 10
+    count: number = 10,
+    options: GetMessagesOptions = {}
   ): Promise<RabbitMQMessage[]> {
-    return this.queueClient.getMessages(queueName, vhost, count);
+    return this.queueClient.getMessages(queueName, vhost, count, options);
   }
 
   async publishMessage(
@@ -49,14 +52,16 @@ export class RabbitMQClient extends RabbitMQApiClient {
     routingKey: string,
     vhost: string,
     payload: string,
-    properties: MessageProperties = {}
+    properties: MessageProperties = {},
+    payloadEncoding: PayloadEncoding = "string"
   ): Promise<PublishResult> {
     return this.queueClient.publishMessage(
       exchange,
       routingKey,
       vhost,
       payload,
-      properties
+      properties,
+      payloadEncoding
     );
   }
 
@@ -72,6 +72,29 @@ describe("RabbitMQAmqpClient.connect — vhost handling", () => {
     expect(sockopts).not.toHaveProperty("heartbeat");
   });
 
+  it("passes broker TLS material as socket options, for amqps only", async () => {
+    const tls = {
+      ca: "CA PEM",
+      cert: "CERT PEM",
+      key: "KEY PEM",
+      servername: "broker.test",
+    };
+
+    await new RabbitMQAmqpClient({
+      ...base,
+      protocol: "amqps",
+      vhost: "/",
+      tls,
+    }).connect();
+    await new RabbitMQAmqpClient({ ...base, vhost: "/", tls }).connect();
+
+    const [target, sockopts] = connectMock.mock.calls[0];
+    expect(sockopts).toMatchObject(tls);
+    // Key material belongs to the socket, never to the connection URL object.
+    expect(JSON.stringify(target)).not.toContain("KEY PEM");
+    expect(connectMock.mock.calls[1][1]).not.toHaveProperty("ca");
+  });
+
   it("keeps the default vhost as /", async () => {
     await new RabbitMQAmqpClient({ ...base, vhost: "/" }).connect();
     expect(connectMock.mock.calls[0][0]).toMatchObject({ vhost: "/" });
@@ -0,0 +1,118 @@
+/**
+ * A server with a private CA, a client certificate and an SNI override must
+ * reach the broker through both transports with the same trust decisions.
+ * The Management API path is exercised against a real local TLS server that
+ * only answers clients presenting a certificate from the test CA.
+ */
+import https from "node:https";
+import type { AddressInfo } from "node:net";
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { createBrokerTlsAgent, fetchWithAgent } from "../tls";
+import {
+  TEST_CA_PEM,
+  TEST_CLIENT_CERT_PEM,
+  TEST_CLIENT_KEY_PEM,
+  TEST_SERVER_CERT_PEM,
+  TEST_SERVER_KEY_PEM,
+} from "./pem-fixtures";
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+let server: https.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = https.createServer(
+    {
+      cert: TEST_SERVER_CERT_PEM,
+      key: TEST_SERVER_KEY_PEM,
+      ca: TEST_CA_PEM,
+      requestCert: true,
+      rejectUnauthorized: true,
+    },
+    (req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        res.setHeader("content-type", "application/json");
+        res.end(
+          JSON.stringify({
+            method: req.method,
+            auth: req.headers.authorization,
+            body,
+            servername: (req.socket as { servername?: string }).servername,
+          })
+        );
+      });
+    }
+  );
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `https://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchWithAgent", () => {
+  it("verifies the broker against the CA under the SNI name and presents the client certificate", async () => {
+    const agent = createBrokerTlsAgent({
+      ca: TEST_CA_PEM,
+      cert: TEST_CLIENT_CERT_PEM,
+      key: TEST_CLIENT_KEY_PEM,
+      servername: "broker.test",
+    });
+
+    const response = await fetchWithAgent(
+      `${baseUrl}/api/overview`,
+      {
+        method: "PUT",
+        headers: { Authorization: "Basic abc" },
+        body: '{"a":1}',
+      },
+      agent
+    );
+    agent.destroy();
+
+    expect(response.ok).toBe(true);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(await response.json()).toEqual({
+      method: "PUT",
+      auth: "Basic abc",
+      body: '{"a":1}',
+      servername: "broker.test",
+    });
+  });
+
+  it("rejects the broker certificate without the SNI override (IP not in the SAN)", async () => {
+    const agent = createBrokerTlsAgent({
+      ca: TEST_CA_PEM,
+      cert: TEST_CLIENT_CERT_PEM,
+      key: TEST_CLIENT_KEY_PEM,
+    });
+
+    await expect(
+      fetchWithAgent(`${baseUrl}/api/overview`, {}, agent)
+    ).rejects.toThrow(/IP: 127\.0\.0\.1 is not in the cert's list/);
+    agent.destroy();
+  });
+
+  it("honours an already-aborted signal without connecting", async () => {
+    const agent = createBrokerTlsAgent({ ca: TEST_CA_PEM });
+    const controller = new AbortController();
+    controller.abort(new Error("budget spent"));
+
+    await expect(
+      fetchWithAgent(
+        `${baseUrl}/api/overview`,
+        { signal: controller.signal },
+        agent
+      )
+    ).rejects.toThrow("budget spent");
+    agent.destroy();
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applicableKeys,
+  diffDefinitions,
+  selectDefinitions,
+  summarizeDefinitionsDiff,
+} from "../definitions-diff";
+
+describe("diffDefinitions", () => {
+  it("ignores export-format differences", () => {
+    const diff = diffDefinitions(
+      {
+        users: [{ name: "ops", tags: "management,monitoring" }],
+        policies: [
+          {
+            name: "ttl",
+            vhost: "/",
+            pattern: ".*",
+            definition: { a: 1, b: 2 },
+          },
+        ],
+        queues: [{ name: "orders", vhost: "/", durable: true }],
+      },
+      {
+        users: [{ name: "ops", tags: ["monitoring", "management"] }],
+        policies: [
+          {
+            name: "ttl",
+            vhost: "/",
+            pattern: ".*",
+            "apply-to": "all",
+            priority: 0,
+            definition: { b: 2, a: 1 },
+          },
+        ],
+        queues: [{ name: "orders", vhost: "/", durable: true, arguments: {} }],
+      }
+    );
+
+    expect(applicableKeys(diff)).toEqual([]);
+    expect(diff.users.unchanged).toBe(1);
+    expect(diff.policies.unchanged).toBe(1);
+    expect(diff.queues.unchanged).toBe(1);
+  });
+
+  it("keys the same name in different vhosts separately", () => {
+    const diff = diffDefinitions(
+      { exchanges: [{ name: "events", vhost: "/", type: "topic" }] },
+      { exchanges: [{ name: "events", vhost: "staging", type: "fanout" }] }
+    );
+
+    expect(diff.exchanges.added.map((e) => e.vhost)).toEqual(["staging"]);
+    expect(diff.exchanges.removed.map((e) => e.vhost)).toEqual(["/"]);
+    expect(diff.exchanges.changed).toEqual([]);
+  });
+
+  it("resolves items of a vhost-scoped export to the import vhost", () => {
+    const diff = diffDefinitions(
+      {
+        permissions: [
+          { user: "app", configure: ".*", write: ".*", read: ".*" },
+        ],
+      },
+      {
+        permissions: [
+          {
+            user: "app",
+            vhost: "orders",
+            configure: "",
+            write: ".*",
+            read: ".*",
+          },
+        ],
+      },
+      "orders"
+    );
+
+    expect(diff.permissions.changed).toMatchObject([
+      { label: "app", vhost: "orders", fields: ["configure"] },
+    ]);
+  });
+
+  it("treats bindings as added or removed, never changed", () => {
+    const binding = {
+      source: "events",
+      vhost: "/",
+      destination: "orders",
+      destination_type: "queue",
+      routing_key: "order.*",
+      arguments: {},
+    };
+    const diff = diffDefinitions(
+      { bindings: [binding] },
+      { bindings: [{ ...binding, routing_key: "order.created" }] }
+    );
+
+    expect(diff.bindings.added).toHaveLength(1);
+    expect(diff.bindings.removed).toHaveLength(1);
+    expect(diff.bindings.added[0].label).toBe(
+      "events → orders (order.created)"
+    );
+  });
+
+  it("hides Qarote's own trace queues and their bindings", () => {
+    const diff = diffDefinitions(
+      {
+        queues: [{ name: "qarote.trace.v2.srv.%2F", vhost: "/" }],
+        bindings: [
+          {
+            source: "amq.rabbitmq.trace",
+            vhost: "/",
+            destination: "qarote.trace.v2.srv.%2F",
+            destination_type: "queue",
+            routing_key: "#",
+          },
+        ],
+      },
+      { queues: [] }
+    );
+
+    expect(summarizeDefinitionsDiff(diff).queues).toEqual({
+      added: 0,
+      changed: 0,
+      removed: 0,
+    });
+    expect(diff.bindings.removed).toEqual([]);
+  });
+
+  it("never returns password hashes", () => {
+    const diff = diffDefinitions(
+      { users: [{ name: "app", password_hash: "aaa", tags: [] }] },
+      {
+        users: [
+          { name: "app", password_hash: "bbb", tags: [] },
+          { name: "new", password_hash: "ccc", tags: [] },
+        ],
+      }
+    );
+
+    expect(diff.users.changed[0].fields).toEqual(["password_hash"]);
+    expect(JSON.stringify(diff)).not.toMatch(/aaa|bbb|ccc/);
+  });
+
+  it("takes the last of duplicate entries, as the broker does", () => {
+    const diff = diffDefinitions(
+      { queues: [{ name: "orders", vhost: "/", durable: true }] },
+      {
+        queues: [
+          { name: "orders", vhost: "/", durable: false },
+          { name: "orders", vhost: "/", durable: true },
+        ],
+      }
+    );
+
+    expect(diff.queues.changed).toEqual([]);
+    expect(diff.queues.unchanged).toBe(1);
+  });
+});
+
+describe("selectDefinitions", () => {
+  it("keeps selected items as uploaded and drops everything else", () => {
+    const document = {
+      rabbit_version: "3.13.0",
+      queues: [
+        { name: "a", vhost: "/", "x-extra": 1 },
+        { name: "b", vhost: "/" },
+      ],
+      vhosts: [{ name: "/" }],
+    };
+    const diff = diffDefinitions({}, document);
+    const keyOfA = diff.queues.added.find((q) => q.label === "a")!.key;
+
+    expect(selectDefinitions(document, new Set([keyOfA]))).toEqual({
+      rabbit_version: "3.13.0",
+      queues: [{ name: "a", vhost: "/", "x-extra": 1 }],
+      exchanges: [],
+      bindings: [],
+      policies: [],
+      users: [],
+      permissions: [],
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+
+import { summarizeLeaderDistribution } from "../leader-distribution";
+import type { RabbitMQNode, RabbitMQQueue } from "../rabbitmq.interfaces";
+
+const NODES = ["rabbit@a", "rabbit@b", "rabbit@c"];
+
+function node(name: string, running = true): RabbitMQNode {
+  return { name, running, mem_used: 1000 } as RabbitMQNode;
+}
+
+function queue(
+  name: string,
+  type: string,
+  leader: string,
+  overrides: Partial<RabbitMQQueue> = {}
+): RabbitMQQueue {
+  return {
+    name,
+    vhost: "/",
+    type,
+    node: leader,
+    memory: 100,
+    ...(type === "classic" ? {} : { leader, members: NODES, online: NODES }),
+    ...overrides,
+  } as RabbitMQQueue;
+}
+
+describe("summarizeLeaderDistribution", () => {
+  it("reports a balanced cluster as not skewed", () => {
+    const result = summarizeLeaderDistribution(
+      [
+        queue("q1", "quorum", "rabbit@a"),
+        queue("q2", "quorum", "rabbit@b"),
+        queue("s1", "stream", "rabbit@c"),
+      ],
+      NODES.map((n) => node(n))
+    );
+
+    expect(result.totalLeaders).toBe(3);
+    expect(result.skew).toBe(1);
+    expect(result.skewed).toBe(false);
+    expect(result.nodes.map((n) => n.followerReplicas)).toEqual([2, 2, 2]);
+  });
+
+  it("flags leaders piled onto one node", () => {
+    const result = summarizeLeaderDistribution(
+      [
+        queue("q1", "quorum", "rabbit@a"),
+        queue("q2", "quorum", "rabbit@a"),
+        queue("q3", "quorum", "rabbit@a"),
+        queue("q4", "quorum", "rabbit@b"),
+      ],
+      NODES.map((n) => node(n))
+    );
+
+    expect(result.busiestNode).toBe("rabbit@a");
+    expect(result.skew).toBeCloseTo(2.25);
+    expect(result.skewed).toBe(true);
+    expect(result.nodes[0]).toMatchObject({
+      node: "rabbit@a",
+      quorumLeaders: 3,
+      leaderMemory: 300,
+    });
+  });
+
+  it("does not count classic queues towards skew", () => {
+    const result = summarizeLeaderDistribution(
+      [
+        queue("c1", "classic", "rabbit@a"),
+        queue("c2", "classic", "rabbit@a"),
+        queue("q1", "quorum", "rabbit@b"),
+      ],
+      NODES.map((n) => node(n))
+    );
+
+    expect(result.totalLeaders).toBe(1);
+    expect(result.skewed).toBe(false);
+    expect(result.nodes[0]).toMatchObject({
+      classicQueues: 2,
+      leaderMemory: 200,
+    });
+  });
+
+  it("measures the even share over running nodes only", () => {
+    const result = summarizeLeaderDistribution(
+      [queue("q1", "quorum", "rabbit@a"), queue("q2", "quorum", "rabbit@b")],
+      [node("rabbit@a"), node("rabbit@b"), node("rabbit@c", false)]
+    );
+
+    expect(result.skew).toBe(1);
+    expect(result.skewed).toBe(false);
+  });
+
+  it("lists replicated queues with members that are not online", () => {
+    const result = summarizeLeaderDistribution(
+      [
+        queue("q1", "quorum", "rabbit@a", {
+          online: ["rabbit@a", "rabbit@b"],
+        }),
+        queue("q2", "quorum", "rabbit@b"),
+      ],
+      NODES.map((n) => node(n))
+    );
+
+    expect(result.outOfSync).toEqual([
+      {
+        name: "q1",
+        vhost: "/",
+        type: "quorum",
+        leader: "rabbit@a",
+        outOfSync: ["rabbit@c"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * The poll hub exists so that N viewers of one server cost the broker one
+ * request per interval, not N. These tests pin that contract: shared
+ * fetches, replay for late joiners, a single in-flight request per key,
+ * and teardown (with the in-flight request aborted) when the last
+ * subscriber leaves.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { BrokerPollHub, type PollSource } from "../poll-hub";
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+function countingSource(intervalMs = 60_000) {
+  let calls = 0;
+  const source: PollSource<number> = {
+    intervalMs,
+    fetch: vi.fn(async () => ++calls),
+  };
+  return source;
+}
+
+describe("BrokerPollHub", () => {
+  let hub: BrokerPollHub;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    hub = new BrokerPollHub();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one fetch between concurrent subscribers of the same key", async () => {
+    const source = countingSource();
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const subA = hub.subscribe("s1:metrics", source, a.signal);
+    const subB = hub.subscribe("s1:metrics", source, b.signal);
+    const [first, second] = await Promise.all([subA.next(), subB.next()]);
+
+    expect(first.value).toMatchObject({ ok: true, value: 1 });
+    expect(second.value).toMatchObject({ ok: true, value: 1 });
+    expect(source.fetch).toHaveBeenCalledTimes(1);
+    expect(hub.subscriberCount("s1:metrics")).toBe(2);
+
+    a.abort();
+    b.abort();
+    await Promise.all([subA.next(), subB.next()]);
+  });
+
+  it("broadcasts each tick to every subscriber", async () => {
+    const source = countingSource(1_000);
+    const a = new AbortController();
+    const b = new AbortController();
+    const subA = hub.subscribe("s1:rates", source, a.signal);
+    const subB = hub.subscribe("s1:rates", source, b.signal);
+    await Promise.all([subA.next(), subB.next()]);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    const [nextA, nextB] = await Promise.all([subA.next(), subB.next()]);
+
+    expect(nextA.value).toMatchObject({ ok: true, value: 2 });
+    expect(nextB.value).toMatchObject({ ok: true, value: 2 });
+    expect(source.fetch).toHaveBeenCalledTimes(2);
+
+    a.abort();
+    b.abort();
+    await Promise.all([subA.next(), subB.next()]);
+  });
+
+  it("replays the latest result to a late joiner without fetching again", async () => {
+    const source = countingSource();
+    const a = new AbortController();
+    const subA = hub.subscribe("s1:queues:/", source, a.signal);
+    await subA.next();
+
+    const late = new AbortController();
+    const subLate = hub.subscribe("s1:queues:/", source, late.signal);
+    const replayed = await subLate.next();
+
+    expect(replayed.value).toMatchObject({ ok: true, value: 1 });
+    expect(source.fetch).toHaveBeenCalledTimes(1);
+
+    a.abort();
+    late.abort();
+    await Promise.all([subA.next(), subLate.next()]);
+  });
+
+  it("keeps a single fetch in flight per key", async () => {
+    const pending = deferred<number>();
+    const source: PollSource<number> = {
+      intervalMs: 100,
+      fetch: vi.fn(() => pending.promise),
+    };
+    const a = new AbortController();
+    const sub = hub.subscribe("s1:metrics", source, a.signal);
+    const first = sub.next();
+
+    // A slow broker must not stack requests while the first is outstanding
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(source.fetch).toHaveBeenCalledTimes(1);
+
+    pending.resolve(7);
+    expect((await first).value).toMatchObject({ ok: true, value: 7 });
+
+    a.abort();
+    await sub.next();
+  });
+
+  it("does not share across keys", async () => {
+    const source = countingSource();
+    const a = new AbortController();
+    const b = new AbortController();
+    const subA = hub.subscribe("s1:metrics", source, a.signal);
+    const subB = hub.subscribe("s2:metrics", source, b.signal);
+    await Promise.all([subA.next(), subB.next()]);
+
+    expect(source.fetch).toHaveBeenCalledTimes(2);
+
+    a.abort();
+    b.abort();
+    await Promise.all([subA.next(), subB.next()]);
+  });
+
+  it("carries the last good value on failure for stale fallbacks", async () => {
+    let call = 0;
+    const source: PollSource<string> = {
+      intervalMs: 1_000,
+      fetch: vi.fn(async () => {
+        call += 1;
+        if (call === 2) throw new Error("broker down");
+        return `v${call}`;
+      }),
+    };
+    const a = new AbortController();
+    const sub = hub.subscribe("s1:metrics", source, a.signal);
+    await sub.next();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    const failed = await sub.next();
+
+    expect(failed.value).toMatchObject({ ok: false, lastValue: "v1" });
+
+    a.abort();
+    await sub.next();
+  });
+
+  it("stops polling and aborts the in-flight fetch when the last subscriber leaves", async () => {
+    let fetchSignal: AbortSignal | undefined;
+    const source: PollSource<number> = {
+      intervalMs: 1_000,
+      fetch: vi.fn((signal: AbortSignal) => {
+        fetchSignal = signal;
+        return new Promise<number>(() => {});
+      }),
+    };
+    const a = new AbortController();
+    const sub = hub.subscribe("s1:metrics", source, a.signal);
+    const next = sub.next();
+    await vi.advanceTimersByTimeAsync(0);
+
+    a.abort();
+    expect((await next).done).toBe(true);
+
+    expect(fetchSignal?.aborted).toBe(true);
+    expect(hub.subscriberCount("s1:metrics")).toBe(0);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(source.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps polling while at least one subscriber remains", async () => {
+    const source = countingSource(1_000);
+    const a = new AbortController();
+    const b = new AbortController();
+    const subA = hub.subscribe("s1:metrics", source, a.signal);
+    const subB = hub.subscribe("s1:metrics", source, b.signal);
+    await Promise.all([subA.next(), subB.next()]);
+
+    a.abort();
+    await subA.next();
+    expect(hub.subscriberCount("s1:metrics")).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect((await subB.next()).value).toMatchObject({ ok: true, value: 2 });
+
+    b.abort();
+    await subB.next();
+  });
+});
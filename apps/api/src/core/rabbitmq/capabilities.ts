@@ -128,6 +128,55 @@ export async function detectServerCapabilities(
   };
 }
 
+/**
+ * Shovel and federation are split into a base plugin (runtime-parameter
+ * components `shovel` / `federation-upstream`, i.e. definitions) and a
+ * `_management` companion that adds `/api/shovels` and
+ * `/api/federation-links` (live link state). A broker can have the first
+ * without the second, so both are reported. Stream consumer offsets are
+ * only exposed by `rabbitmq_stream_management` (`/api/stream/...`).
+ */
+export interface PluginCapabilities {
+  shovel: boolean;
+  shovelManagement: boolean;
+  federation: boolean;
+  federationManagement: boolean;
+  streamManagement: boolean;
+}
+
+/**
+ * Derive plugin capabilities from a cluster-wide `enabled_plugins` set —
+ * either a persisted `CapabilitySnapshot.enabledPlugins` or a live read.
+ */
+export function pluginCapabilitiesFrom(
+  enabledPlugins: readonly string[]
+): PluginCapabilities {
+  const enabled = new Set(enabledPlugins);
+  return {
+    shovel: enabled.has("rabbitmq_shovel"),
+    shovelManagement: enabled.has("rabbitmq_shovel_management"),
+    federation: enabled.has("rabbitmq_federation"),
+    federationManagement: enabled.has("rabbitmq_federation_management"),
+    streamManagement: enabled.has("rabbitmq_stream_management"),
+  };
+}
+
+/**
+ * Live plugin detection via `GET /api/nodes`. Unlike
+ * `detectServerCapabilities`, errors propagate — callers are request
+ * handlers that surface them, not the background refresher.
+ *
+ * Live rather than snapshot-based: enabling a plugin is exactly the step
+ * an operator takes right before opening the Shovels / Federation page,
+ * and the persisted snapshot may predate it.
+ */
+export async function detectPluginCapabilities(
+  client: RabbitMQApiClient
+): Promise<PluginCapabilities> {
+  const nodes = await client.getNodes();
+  return pluginCapabilitiesFrom(unionPlugins(nodes));
+}
+
 function unionPlugins(nodes: RabbitMQNode[]): string[] {
   const set = new Set<string>();
   for (const node of nodes) {
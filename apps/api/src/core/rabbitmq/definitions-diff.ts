@@ -0,0 +1,353 @@
+import type { z } from "zod";
+
+import { canonicalJson, normalizeTags } from "@/core/utils";
+
+import type {
+  BindingDefinitionSchema,
+  DefinitionsDocumentSchema,
+  ExchangeDefinitionSchema,
+  PermissionDefinitionSchema,
+  PolicyDefinitionSchema,
+  QueueDefinitionSchema,
+  UserDefinitionSchema,
+} from "@/schemas/rabbitmq";
+
+import { isQaroteInternalQueue } from "./internal-queues";
+
+/**
+ * Change set between the definitions currently on a broker and an uploaded
+ * definitions document.
+ *
+ * Every item gets a stable `key` (`<kind>:<JSON identity tuple>`) that the
+ * import accepts back as a selection, so a reviewer can apply a subset of
+ * the added/changed items. `removed` is informational: a definitions import
+ * only ever creates or overwrites, it never deletes.
+ *
+ * User password hashes are compared but never returned — a changed hash
+ * shows up as `password_hash` in `fields` with the value stripped.
+ */
+
+export type DefinitionsDocument = z.infer<typeof DefinitionsDocumentSchema>;
+export type QueueDefinition = z.infer<typeof QueueDefinitionSchema>;
+export type ExchangeDefinition = z.infer<typeof ExchangeDefinitionSchema>;
+export type BindingDefinition = z.infer<typeof BindingDefinitionSchema>;
+export type PolicyDefinition = z.infer<typeof PolicyDefinitionSchema>;
+export type UserDefinition = z.infer<typeof UserDefinitionSchema>;
+export type PermissionDefinition = z.infer<typeof PermissionDefinitionSchema>;
+
+export const DEFINITION_KINDS = [
+  "queues",
+  "exchanges",
+  "bindings",
+  "policies",
+  "users",
+  "permissions",
+] as const;
+
+export type DefinitionKind = (typeof DEFINITION_KINDS)[number];
+
+interface DefinitionItemTypes {
+  queues: QueueDefinition;
+  exchanges: ExchangeDefinition;
+  bindings: BindingDefinition;
+  policies: PolicyDefinition;
+  users: UserDefinition;
+  permissions: PermissionDefinition;
+}
+
+export interface DefinitionItem<T> {
+  key: string;
+  /** Human-readable identity, e.g. `orders` or `amq.topic → orders (#)`. */
+  label: string;
+  /** Resolved vhost; null for users. */
+  vhost: string | null;
+  item: T;
+}
+
+export interface DefinitionChange<T> {
+  key: string;
+  label: string;
+  vhost: string | null;
+  /** Compared fields whose values differ. */
+  fields: string[];
+  before: T;
+  after: T;
+}
+
+export interface DefinitionKindDiff<T> {
+  added: DefinitionItem<T>[];
+  changed: DefinitionChange<T>[];
+  removed: DefinitionItem<T>[];
+  unchanged: number;
+}
+
+export type DefinitionsDiff = {
+  [K in DefinitionKind]: DefinitionKindDiff<DefinitionItemTypes[K]>;
+};
+
+export type DefinitionsDiffSummary = Record<
+  DefinitionKind,
+  { added: number; changed: number; removed: number }
+>;
+
+interface KindSpec<T> {
+  /** Identity tuple, vhost already resolved. */
+  identity: (item: T, vhost: string | null) => unknown[];
+  label: (item: T) => string;
+  /** Fields compared to classify an item as changed. */
+  compared: readonly string[];
+  /** Normalises a compared value so export-format differences don't count. */
+  normalize?: (field: string, value: unknown) => unknown;
+  /** Whether the item is scoped to a vhost. */
+  vhostScoped: boolean;
+  /** Items Qarote owns on the broker and never shows as user changes. */
+  internal?: (item: T) => boolean;
+}
+
+const KIND_SPECS: { [K in DefinitionKind]: KindSpec<DefinitionItemTypes[K]> } =
+  {
+    queues: {
+      identity: (q, vhost) => [vhost, q.name],
+      label: (q) => q.name,
+      compared: ["durable", "auto_delete", "arguments"],
+      normalize: (field, value) =>
+        field === "arguments" ? (value ?? {}) : value,
+      vhostScoped: true,
+      internal: (q) => isQaroteInternalQueue(q.name),
+    },
+    exchanges: {
+      identity: (e, vhost) => [vhost, e.name],
+      label: (e) => e.name,
+      compared: ["type", "durable", "auto_delete", "internal", "arguments"],
+      normalize: (field, value) =>
+        field === "arguments" ? (value ?? {}) : value,
+      vhostScoped: true,
+    },
+    // A binding is its whole tuple — there is nothing left to change
+    bindings: {
+      identity: (b, vhost) => [
+        vhost,
+        b.source,
+        b.destination_type,
+        b.destination,
+        b.routing_key ?? "",
+        canonicalJson(b.arguments ?? {}),
+      ],
+      label: (b) =>
+        `${b.source || "(default)"} → ${b.destination} (${b.routing_key ?? ""})`,
+      compared: [],
+      vhostScoped: true,
+      internal: (b) =>
+        b.destination_type === "queue" && isQaroteInternalQueue(b.destination),
+    },
+    policies: {
+      identity: (p, vhost) => [vhost, p.name],
+      label: (p) => p.name,
+      compared: ["pattern", "apply-to", "definition", "priority"],
+      normalize: (field, value) => {
+        if (field === "apply-to") return value ?? "all";
+        if (field === "priority") return value ?? 0;
+        return value;
+      },
+      vhostScoped: true,
+    },
+    users: {
+      identity: (u) => [u.name],
+      label: (u) => u.name,
+      compared: ["tags", "password_hash"],
+      normalize: (field, value) =>
+        field === "tags" ? normalizeTags(value).sort() : value,
+      vhostScoped: false,
+    },
+    permissions: {
+      identity: (p, vhost) => [vhost, p.user],
+      label: (p) => p.user,
+      compared: ["configure", "write", "read"],
+      vhostScoped: true,
+    },
+  };
+
+function resolveVhost(
+  vhostScoped: boolean,
+  item: Record<string, unknown>,
+  scopeVhost: string | undefined
+): string | null {
+  if (!vhostScoped) return null;
+  return typeof item.vhost === "string" ? item.vhost : (scopeVhost ?? null);
+}
+
+function itemKey<K extends DefinitionKind>(
+  kind: K,
+  item: DefinitionItemTypes[K],
+  scopeVhost: string | undefined
+): string {
+  const spec = KIND_SPECS[kind] as KindSpec<DefinitionItemTypes[K]>;
+  const vhost = resolveVhost(spec.vhostScoped, item, scopeVhost);
+  return `${kind}:${JSON.stringify(spec.identity(item, vhost))}`;
+}
+
+function redact<T>(item: T): T {
+  if (item && typeof item === "object" && "password_hash" in item) {
+    const { password_hash: _omitted, ...rest } = item as Record<
+      string,
+      unknown
+    >;
+    return rest as T;
+  }
+  return item;
+}
+
+function toItem<K extends DefinitionKind>(
+  kind: K,
+  item: DefinitionItemTypes[K],
+  scopeVhost: string | undefined
+): DefinitionItem<DefinitionItemTypes[K]> {
+  const spec = KIND_SPECS[kind] as KindSpec<DefinitionItemTypes[K]>;
+  return {
+    key: itemKey(kind, item, scopeVhost),
+    label: spec.label(item),
+    vhost: resolveVhost(spec.vhostScoped, item, scopeVhost),
+    item: redact(item),
+  };
+}
+
+function diffKind<K extends DefinitionKind>(
+  kind: K,
+  current: DefinitionItemTypes[K][],
+  incoming: DefinitionItemTypes[K][],
+  scopeVhost: string | undefined
+): DefinitionKindDiff<DefinitionItemTypes[K]> {
+  const spec = KIND_SPECS[kind] as KindSpec<DefinitionItemTypes[K]>;
+  const visible = (item: DefinitionItemTypes[K]) => !spec.internal?.(item);
+
+  const currentByKey = new Map(
+    current
+      .filter(visible)
+      .map((item) => [itemKey(kind, item, scopeVhost), item] as const)
+  );
+  // Duplicate entries in one document: the broker applies the last one
+  const incomingByKey = new Map(
+    incoming
+      .filter(visible)
+      .map((item) => [itemKey(kind, item, scopeVhost), item] as const)
+  );
+  const result: DefinitionKindDiff<DefinitionItemTypes[K]> = {
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: 0,
+  };
+
+  for (const [key, item] of incomingByKey) {
+    const existing = currentByKey.get(key);
+    if (!existing) {
+      result.added.push(toItem(kind, item, scopeVhost));
+      continue;
+    }
+
+    const normalize = spec.normalize ?? ((_field, value) => value);
+    const fields = spec.compared.filter((field) => {
+      const before = (existing as Record<string, unknown>)[field];
+      const after = (item as Record<string, unknown>)[field];
+      return (
+        canonicalJson(normalize(field, before)) !==
+        canonicalJson(normalize(field, after))
+      );
+    });
+    if (fields.length === 0) {
+      result.unchanged += 1;
+      continue;
+    }
+    const described = toItem(kind, item, scopeVhost);
+    result.changed.push({
+      key,
+      label: described.label,
+      vhost: described.vhost,
+      fields,
+      before: redact(existing),
+      after: described.item,
+    });
+  }
+
+  for (const [key, item] of currentByKey) {
+    if (!incomingByKey.has(key)) {
+      result.removed.push(toItem(kind, item, scopeVhost));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Diff an uploaded document against the broker's current definitions.
+ * `scopeVhost` is the vhost of a vhost-scoped import: items without their
+ * own `vhost` field belong to it.
+ */
+export function diffDefinitions(
+  current: DefinitionsDocument,
+  incoming: DefinitionsDocument,
+  scopeVhost?: string
+): DefinitionsDiff {
+  const diffOf = <K extends DefinitionKind>(kind: K) =>
+    diffKind(
+      kind,
+      (current[kind] ?? []) as DefinitionItemTypes[K][],
+      (incoming[kind] ?? []) as DefinitionItemTypes[K][],
+      scopeVhost
+    );
+
+  return {
+    queues: diffOf("queues"),
+    exchanges: diffOf("exchanges"),
+    bindings: diffOf("bindings"),
+    policies: diffOf("policies"),
+    users: diffOf("users"),
+    permissions: diffOf("permissions"),
+  };
+}
+
+export function summarizeDefinitionsDiff(
+  diff: DefinitionsDiff
+): DefinitionsDiffSummary {
+  return Object.fromEntries(
+    DEFINITION_KINDS.map((kind) => [
+      kind,
+      {
+        added: diff[kind].added.length,
+        changed: diff[kind].changed.length,
+        removed: diff[kind].removed.length,
+      },
+    ])
+  ) as DefinitionsDiffSummary;
+}
+
+/** Keys of every item an import of the whole document would create or change. */
+export function applicableKeys(diff: DefinitionsDiff): string[] {
+  return DEFINITION_KINDS.flatMap((kind) => [
+    ...diff[kind].added.map((item) => item.key),
+    ...diff[kind].changed.map((item) => item.key),
+  ]);
+}
+
+/**
+ * Reduce a document to the items whose keys are in `selection`, keeping
+ * them byte-for-byte as uploaded. Top-level metadata (`rabbit_version`, …)
+ * is kept; sections outside the diffed kinds (vhosts, parameters, …) are
+ * dropped, since nobody selected them.
+ */
+export function selectDefinitions(
+  document: DefinitionsDocument,
+  selection: ReadonlySet<string>,
+  scopeVhost?: string
+): DefinitionsDocument {
+  const selected: Record<string, unknown> = Object.fromEntries(
+    Object.entries(document).filter(([, value]) => !Array.isArray(value))
+  );
+  for (const kind of DEFINITION_KINDS) {
+    const items = (document[kind] ?? []) as DefinitionItemTypes[typeof kind][];
+    selected[kind] = items.filter((item) =>
+      selection.has(itemKey(kind, item as never, scopeVhost))
+    );
+  }
+  return selected as DefinitionsDocument;
+}
@@ -6,7 +6,6 @@
  */
 
 // Specialized clients for advanced usage
-export { type QueuePauseState } from "./AmqpClient";
 export { RabbitMQAmqpClientFactory } from "./AmqpFactory";
 
 // Main RabbitMQ client that combines all functionality
@@ -0,0 +1,17 @@
+import type { RabbitMQConnection } from "./rabbitmq.interfaces";
+
+/**
+ * AMQP connections Qarote itself opens to the user's broker (firehose,
+ * pause holders, message browsing) announce this `connection_name`. Bulk
+ * actions on connections skip them: closing our own pause holder would
+ * silently resume the queue it holds.
+ */
+export const QAROTE_CONNECTION_NAME = "qarote";
+
+export function isQaroteInternalConnection(
+  connection: Pick<RabbitMQConnection, "client_properties">
+): boolean {
+  return (
+    connection.client_properties?.connection_name === QAROTE_CONNECTION_NAME
+  );
+}
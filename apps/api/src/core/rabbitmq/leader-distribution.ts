@@ -0,0 +1,149 @@
+import type { RabbitMQNode, RabbitMQQueue } from "./rabbitmq.interfaces";
+
+/**
+ * A node is skewed when it leads this many times its even share of
+ * replicated-queue leaders. Leaders do the writes and hold the in-memory
+ * index, so a node that leads most queues also carries most of the memory.
+ */
+export const LEADER_SKEW_THRESHOLD = 1.5;
+
+export interface NodeLeaderShare {
+  node: string;
+  running: boolean;
+  quorumLeaders: number;
+  streamLeaders: number;
+  classicQueues: number;
+  /** Quorum/stream memberships where this node is a follower */
+  followerReplicas: number;
+  /** Memory held by the queues this node leads (or hosts, for classic) */
+  leaderMemory: number;
+  memUsed: number | null;
+}
+
+export interface OutOfSyncQueue {
+  name: string;
+  vhost: string;
+  type: string;
+  leader: string | null;
+  outOfSync: string[];
+}
+
+export interface LeaderDistribution {
+  nodes: NodeLeaderShare[];
+  /** Quorum queue and stream leaders across the cluster */
+  totalLeaders: number;
+  /** Most leaders on one running node divided by the even share; 1 = balanced */
+  skew: number;
+  skewed: boolean;
+  busiestNode: string | null;
+  outOfSync: OutOfSyncQueue[];
+}
+
+function isReplicated(queue: RabbitMQQueue): boolean {
+  return queue.type === "quorum" || queue.type === "stream";
+}
+
+/**
+ * Count quorum/stream leaders, classic queues and follower replicas per
+ * node, and flag replicated queues with members that are not online.
+ * Classic queues are listed for memory context but do not count towards
+ * skew — a rebalance cannot move them.
+ */
+export function summarizeLeaderDistribution(
+  queues: RabbitMQQueue[],
+  nodes: RabbitMQNode[]
+): LeaderDistribution {
+  const shares = new Map<string, NodeLeaderShare>();
+  const shareFor = (node: string): NodeLeaderShare => {
+    let share = shares.get(node);
+    if (!share) {
+      // Queues can reference a node that left the cluster listing
+      share = {
+        node,
+        running: false,
+        quorumLeaders: 0,
+        streamLeaders: 0,
+        classicQueues: 0,
+        followerReplicas: 0,
+        leaderMemory: 0,
+        memUsed: null,
+      };
+      shares.set(node, share);
+    }
+    return share;
+  };
+
+  for (const node of nodes) {
+    const share = shareFor(node.name);
+    share.running = node.running;
+    share.memUsed = node.mem_used ?? null;
+  }
+
+  const outOfSync: OutOfSyncQueue[] = [];
+
+  for (const queue of queues) {
+    const leader = queue.leader ?? queue.node ?? null;
+
+    if (!isReplicated(queue)) {
+      if (leader) {
+        const share = shareFor(leader);
+        share.classicQueues += 1;
+        share.leaderMemory += queue.memory ?? 0;
+      }
+      continue;
+    }
+
+    if (leader) {
+      const share = shareFor(leader);
+      if (queue.type === "quorum") share.quorumLeaders += 1;
+      else share.streamLeaders += 1;
+      share.leaderMemory += queue.memory ?? 0;
+    }
+
+    const members = queue.members ?? [];
+    for (const member of members) {
+      if (member !== leader) shareFor(member).followerReplicas += 1;
+    }
+
+    const online = queue.online ?? [];
+    const missing = members.filter((member) => !online.includes(member));
+    if (missing.length > 0) {
+      outOfSync.push({
+        name: queue.name,
+        vhost: queue.vhost,
+        type: queue.type,
+        leader,
+        outOfSync: missing,
+      });
+    }
+  }
+
+  const all = [...shares.values()].sort((a, b) => a.node.localeCompare(b.node));
+  const running = all.filter((share) => share.running);
+  const leadersOf = (share: NodeLeaderShare) =>
+    share.quorumLeaders + share.streamLeaders;
+  const totalLeaders = all.reduce((sum, share) => sum + leadersOf(share), 0);
+
+  let skew = 1;
+  let busiestNode: string | null = null;
+  if (running.length > 0 && totalLeaders > 0) {
+    const busiest = running.reduce((max, share) =>
+      leadersOf(share) > leadersOf(max) ? share : max
+    );
+    busiestNode = busiest.node;
+    skew = leadersOf(busiest) / (totalLeaders / running.length);
+  }
+
+  return {
+    nodes: all,
+    totalLeaders,
+    skew,
+    // A single node, or fewer leaders than nodes, cannot be spread further
+    skewed:
+      running.length > 1 &&
+      totalLeaders >= running.length &&
+      skew >= LEADER_SKEW_THRESHOLD,
+    busiestNode,
+    outOfSync,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Shared Management-API poller for live (`watch*`) subscriptions.
+ *
+ * Each subscription used to run its own poll loop, so N people watching the
+ * same server meant N identical requests to the broker every few seconds.
+ * The hub keys a single loop per server + resource: the first subscriber
+ * starts it, every result is broadcast to all current subscribers, and the
+ * loop stops (aborting any in-flight request) when the last one leaves.
+ *
+ * - One in-flight fetch per key — the loop awaits each fetch before sleeping.
+ * - Late joiners get the latest result immediately instead of waiting up to
+ *   a full interval for the next tick.
+ * - Slow consumers are conflated: a subscriber that has not pulled yet only
+ *   ever sees the newest result, never a backlog.
+ *
+ * In-process only. Keys must start with the server id so results never
+ * cross servers; callers verify access before subscribing.
+ */
+
+import { logger } from "@/core/logger";
+import { abortableSleep } from "@/core/utils";
+
+export type PollResult<T> =
+  | { ok: true; value: T; fetchedAt: Date }
+  | {
+      ok: false;
+      error: unknown;
+      /** Last successful value for this key, if any — for stale fallbacks. */
+      lastValue: T | undefined;
+    };
+
+export interface PollSource<T> {
+  /** Delay between the end of one fetch and the start of the next. */
+  intervalMs: number;
+  /** Aborted when the last subscriber leaves. */
+  fetch: (signal: AbortSignal) => Promise<T>;
+}
+
+type Listener<T> = (result: PollResult<T>) => void;
+
+interface Channel<T> {
+  listeners: Set<Listener<T>>;
+  controller: AbortController;
+  latest: PollResult<T> | undefined;
+  lastValue: T | undefined;
+}
+
+export class BrokerPollHub {
+  private readonly channels = new Map<string, Channel<unknown>>();
+
+  /**
+   * Stream poll results for `key` until `signal` aborts. The source of the
+   * first subscriber wins; later subscribers to the same key share it.
+   */
+  async *subscribe<T>(
+    key: string,
+    source: PollSource<T>,
+    signal: AbortSignal
+  ): AsyncGenerator<PollResult<T>> {
+    let pending: PollResult<T> | undefined;
+    let wake: (() => void) | undefined;
+
+    const listener: Listener<T> = (result) => {
+      pending = result;
+      wake?.();
+    };
+    const onAbort = () => wake?.();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    this.join(key, source, listener);
+
+    try {
+      while (!signal.aborted) {
+        if (!pending) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+          continue;
+        }
+        const result = pending;
+        pending = undefined;
+        yield result;
+      }
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+      this.leave(key, listener);
+    }
+  }
+
+  /** Number of subscribers currently attached to `key`. */
+  subscriberCount(key: string): number {
+    return this.channels.get(key)?.listeners.size ?? 0;
+  }
+
+  private join<T>(key: string, source: PollSource<T>, listener: Listener<T>) {
+    const existing = this.channels.get(key) as Channel<T> | undefined;
+    if (existing) {
+      existing.listeners.add(listener);
+      if (existing.latest) listener(existing.latest);
+      return;
+    }
+
+    const channel: Channel<T> = {
+      listeners: new Set([listener]),
+      controller: new AbortController(),
+      latest: undefined,
+      lastValue: undefined,
+    };
+    this.channels.set(key, channel as Channel<unknown>);
+    void this.run(key, channel, source);
+  }
+
+  private leave<T>(key: string, listener: Listener<T>) {
+    const channel = this.channels.get(key) as Channel<T> | undefined;
+    if (!channel) return;
+    channel.listeners.delete(listener);
+    if (channel.listeners.size === 0) {
+      channel.controller.abort();
+      this.channels.delete(key);
+    }
+  }
+
+  private async run<T>(
+    key: string,
+    channel: Channel<T>,
+    source: PollSource<T>
+  ) {
+    const { signal } = channel.controller;
+
+    while (!signal.aborted) {
+      let result: PollResult<T>;
+      try {
+        const value = await source.fetch(signal);
+        channel.lastValue = value;
+        result = { ok: true, value, fetchedAt: new Date() };
+      } catch (error) {
+        if (signal.aborted) break;
+        logger.warn({ err: error, key }, "Broker poll failed");
+        result = { ok: false, error, lastValue: channel.lastValue };
+      }
+      if (signal.aborted) break;
+
+      channel.latest = result;
+      for (const listener of channel.listeners) listener(result);
+
+      await abortableSleep(source.intervalMs, signal);
+    }
+  }
+}
+
+export const brokerPollHub = new BrokerPollHub();
@@ -191,6 +191,30 @@ export interface RabbitMQConnection {
   send_cnt: number;
   recv_oct: number;
   send_oct: number;
+  peer_host?: string;
+  peer_port?: number;
+  /** Epoch milliseconds. */
+  connected_at?: number;
+  /** Properties the client announced when it connected */
+  client_properties?: ConnectionClientProperties;
+  auth_mechanism?: string;
+  ssl?: boolean;
+  ssl_protocol?: string | null;
+  /** Negotiated heartbeat timeout, seconds (0 = disabled) */
+  timeout?: number;
+  frame_max?: number;
+  channel_max?: number;
+}
+
+export interface ConnectionClientProperties {
+  [key: string]: unknown;
+  /** Name the application gave the connection, when it set one */
+  connection_name?: string;
+  product?: string;
+  version?: string;
+  platform?: string;
+  information?: string;
+  capabilities?: Record<string, boolean>;
 }
 
 export interface RabbitMQChannel {
@@ -207,17 +231,28 @@ export interface RabbitMQChannel {
   };
   consumer_count: number;
   prefetch_count: number;
+  /** Channel-wide (`global`) prefetch, shared by all its consumers */
+  global_prefetch_count?: number;
   messages_unacknowledged: number;
   messages_unconfirmed: number;
+  messages_uncommitted?: number;
+  confirm?: boolean;
+  transactional?: boolean;
+  idle_since?: string;
+  /** `*_details.samples` are present only when fetched with `msg_rates_age` */
   message_stats?: {
     publish?: number;
-    publish_details?: { rate: number };
+    publish_details?: RateDetail;
     deliver?: number;
-    deliver_details?: { rate: number };
+    deliver_details?: RateDetail;
+    deliver_get?: number;
+    deliver_get_details?: RateDetail;
     ack?: number;
-    ack_details?: { rate: number };
+    ack_details?: RateDetail;
+    redeliver?: number;
+    redeliver_details?: RateDetail;
     confirm?: number;
-    confirm_details?: { rate: number };
+    confirm_details?: RateDetail;
   };
 }
 
@@ -461,6 +496,23 @@ export interface RabbitMQCredentials {
   useHttps: boolean;
   version?: string; // Full RabbitMQ version (e.g., "3.12.10", "4.0.1")
   versionMajorMinor?: string; // Major.Minor version (e.g., "3.12", "4.0")
+  tls?: BrokerTlsOptions;
+}
+
+/**
+ * TLS material for a broker behind a private PKI, shared by the Management
+ * API client and the AMQP connection. PEM strings, already decrypted. Only
+ * applied to TLS connections (`useHttps` / `amqps`).
+ */
+export interface BrokerTlsOptions {
+  /** CA bundle trusted instead of the system store. */
+  ca?: string;
+  /** Client certificate (chain) for mutual TLS. */
+  cert?: string;
+  /** Unencrypted private key matching `cert`. */
+  key?: string;
+  /** SNI / certificate hostname override. */
+  servername?: string;
 }
 
 export interface QueueArguments {
@@ -615,6 +667,62 @@ export interface RabbitMQQueue {
    */
   recoverable_slaves?: string[] | null;
 
+  // Raft membership (quorum queues and streams)
+  /**
+   * @since 3.8.0
+   * Node hosting the Raft leader (quorum) or stream writer
+   */
+  leader?: string;
+  /**
+   * @since 3.8.0
+   * Nodes hosting a replica, leader included
+   */
+  members?: string[];
+  /**
+   * @since 3.8.0
+   * Members currently reachable and running
+   */
+  online?: string[];
+
+  // Quorum queue specifics
+  /**
+   * @since 4.0.0
+   * Effective delivery limit after which messages are dead-lettered or dropped
+   */
+  delivery_limit?: number;
+  /**
+   * @since 3.10.0
+   * Messages held by the queue for at-least-once dead-lettering
+   */
+  messages_dlx?: number;
+  /**
+   * @since 3.10.0
+   * Bytes held by the queue for at-least-once dead-lettering
+   */
+  message_bytes_dlx?: number;
+
+  // Stream specifics
+  /**
+   * @since 3.9.0
+   * Number of segment files on the leader
+   */
+  segments?: number;
+  /**
+   * @since 3.9.0
+   * Offset of the oldest chunk still retained
+   */
+  first_offset?: number;
+  /**
+   * @since 3.9.0
+   * Timestamp (ms) of the oldest chunk still retained
+   */
+  first_timestamp?: number;
+  /**
+   * @since 3.9.0
+   * Highest offset replicated to a quorum of members
+   */
+  committed_offset?: number;
+
   // Message stats (optional for backwards compatibility)
   message_stats?: QueueMessageStats;
   backing_queue_status?: {
@@ -628,6 +736,34 @@ export interface RabbitMQQueue {
   storage_version?: number;
 }
 
+/**
+ * Stream protocol subscription, from `GET /api/stream/consumers/{vhost}`
+ * (rabbitmq_stream_management). AMQP 0-9-1 consumers of a stream are listed
+ * with the regular consumers instead.
+ */
+export interface RabbitMQStreamConsumer {
+  queue: { name: string; vhost: string };
+  connection_details: {
+    name: string;
+    node?: string;
+    user?: string;
+    peer_host?: string;
+    peer_port?: number;
+  };
+  subscription_id: number;
+  credits: number;
+  messages_consumed: number;
+  offset: number;
+  offset_lag: number;
+  active: boolean;
+  /**
+   * @since 3.11.0
+   * Single active consumer status ("single_active", "waiting", "up")
+   */
+  activity_status?: string;
+  properties?: Record<string, unknown>;
+}
+
 export interface Metrics {
   overview: RabbitMQOverview;
   nodes: RabbitMQNode[];
@@ -740,7 +876,8 @@ export interface RabbitMQUser {
   name: string;
   password_hash?: string;
   hashing_algorithm?: string;
-  tags: string;
+  /** Comma-separated before RabbitMQ 3.9, an array since */
+  tags: string | string[];
   /**
    * User limits (optional, only present when limits are configured)
    */
@@ -762,6 +899,15 @@ export interface UpdateUserData {
   tags?: string;
   password?: string;
   password_hash?: string;
+  hashing_algorithm?: string;
+}
+
+/**
+ * GET /api/whoami
+ */
+export interface RabbitMQWhoami {
+  name: string;
+  tags: string | string[];
 }
 
 /**
@@ -806,8 +952,26 @@ export interface BindingArguments {
   [key: string]: string | number | boolean;
 }
 
+/** Binding destinations: `q` and `e` segments of the `/bindings` endpoints. */
+export type BindingDestinationType = "queue" | "exchange";
+
 export enum AckMode {
   ACK_REQUEUE_TRUE = "ack_requeue_true",
+  REJECT_REQUEUE_TRUE = "reject_requeue_true",
+  ACK_REQUEUE_FALSE = "ack_requeue_false",
+  REJECT_REQUEUE_FALSE = "reject_requeue_false",
+}
+
+/** Encoding of a message payload as sent to / returned by the Management API. */
+export type PayloadEncoding = "string" | "base64";
+
+export interface GetMessagesOptions {
+  /** Defaults to ACK_REQUEUE_TRUE (non-destructive peek). */
+  ackMode?: AckMode;
+  /** "auto" returns UTF-8 payloads as strings and binary ones as base64. */
+  encoding?: "auto" | "base64";
+  /** Truncate payloads longer than this many bytes (server-side). */
+  truncate?: number;
 }
 
 export interface PurgeQueueResult {
@@ -864,19 +1028,7 @@ export interface AMQPConnectionConfig {
   connectionTimeout?: number;
   serverId?: string;
   serverName?: string;
-}
-
-/**
- * Queue pause state tracking
- */
-export interface QueuePauseState {
-  queueName: string;
-  vhost: string;
-  isPaused: boolean;
-  pausedAt?: Date;
-  resumedAt?: Date;
-  pausedConsumers: string[];
-  serverId?: string;
+  tls?: BrokerTlsOptions;
 }
 
 /**
@@ -906,3 +1058,113 @@ export interface CreateOrUpdatePolicyRequest {
   definition: Record<string, unknown>;
   priority: number;
 }
+
+/**
+ * Dynamic shovel definition — the `value` of a `shovel` runtime parameter
+ * (`/api/parameters/shovel/{vhost}/{name}`). Keys follow the broker's
+ * hyphenated naming; only the commonly used AMQP 0-9-1 fields are typed.
+ */
+export interface ShovelDefinition {
+  "src-protocol"?: "amqp091" | "amqp10";
+  "src-uri": string | string[];
+  "src-queue"?: string;
+  "src-exchange"?: string;
+  "src-exchange-key"?: string;
+  "src-prefetch-count"?: number;
+  "src-delete-after"?: "never" | "queue-length" | number;
+  "dest-protocol"?: "amqp091" | "amqp10";
+  "dest-uri": string | string[];
+  "dest-queue"?: string;
+  "dest-exchange"?: string;
+  "dest-exchange-key"?: string;
+  "dest-add-forward-headers"?: boolean;
+  "ack-mode"?: "on-confirm" | "on-publish" | "no-ack";
+  "reconnect-delay"?: number;
+  [key: string]: unknown;
+}
+
+export interface RabbitMQShovelParameter {
+  vhost: string;
+  component: "shovel";
+  name: string;
+  value: ShovelDefinition;
+}
+
+export type RabbitMQShovelState = "starting" | "running" | "terminated";
+
+/**
+ * Live shovel status from `/api/shovels` (rabbitmq_shovel_management).
+ * `reason` is only present for terminated shovels.
+ */
+export interface RabbitMQShovelStatus {
+  name: string;
+  vhost: string;
+  type: "dynamic" | "static";
+  state: RabbitMQShovelState;
+  node: string;
+  timestamp: string;
+  reason?: string;
+  src_uri?: string;
+  src_protocol?: string;
+  src_queue?: string;
+  src_exchange?: string;
+  src_exchange_key?: string;
+  dest_uri?: string;
+  dest_protocol?: string;
+  dest_queue?: string;
+  dest_exchange?: string;
+  dest_exchange_key?: string;
+}
+
+/**
+ * Federation upstream definition — the `value` of a `federation-upstream`
+ * runtime parameter.
+ */
+export interface FederationUpstreamDefinition {
+  uri: string | string[];
+  exchange?: string;
+  queue?: string;
+  "prefetch-count"?: number;
+  "reconnect-delay"?: number;
+  "ack-mode"?: "on-confirm" | "on-publish" | "no-ack";
+  "trust-user-id"?: boolean;
+  "max-hops"?: number;
+  expires?: number;
+  "message-ttl"?: number;
+  [key: string]: unknown;
+}
+
+export interface RabbitMQFederationUpstream {
+  vhost: string;
+  component: "federation-upstream";
+  name: string;
+  value: FederationUpstreamDefinition;
+}
+
+export type RabbitMQFederationLinkStatus =
+  | "starting"
+  | "running"
+  | "error"
+  | "shutdown";
+
+/**
+ * Live federation link from `/api/federation-links`
+ * (rabbitmq_federation_management). Exchange links carry
+ * `exchange`/`upstream_exchange`, queue links `queue`/`upstream_queue`.
+ */
+export interface RabbitMQFederationLink {
+  id: string;
+  node: string;
+  vhost: string;
+  upstream: string;
+  type: "exchange" | "queue";
+  status: RabbitMQFederationLinkStatus;
+  uri?: string;
+  exchange?: string;
+  upstream_exchange?: string;
+  queue?: string;
+  upstream_queue?: string;
+  local_connection?: string;
+  error?: string;
+  timestamp?: string;
+}
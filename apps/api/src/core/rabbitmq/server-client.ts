@@ -0,0 +1,74 @@
+import { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+
+import { type BrokerTlsColumns, decryptBrokerTls } from "@/services/broker-tls";
+import { EncryptionService } from "@/services/encryption.service";
+import { serverPassword } from "@/services/secret-source";
+
+import type { RabbitMQServer } from "@/generated/prisma/client";
+
+/**
+ * The connection fields a RabbitMQ client actually needs — deliberately narrower
+ * than the full `RabbitMQServer` row so callers can pass a projected `select`
+ * result instead of hydrating every column (interface segregation). A full row
+ * still satisfies it structurally, so existing call-sites are unaffected.
+ */
+export type RabbitMQConnectionFields = Pick<
+  RabbitMQServer,
+  | "host"
+  | "port"
+  | "amqpPort"
+  | "username"
+  | "password"
+  | "passwordRef"
+  | "vhost"
+  | "useHttps"
+  | "version"
+  | "versionMajorMinor"
+  | keyof BrokerTlsColumns
+>;
+
+/**
+ * Helper function to decrypt server credentials for RabbitMQ client. A
+ * `login` replaces the stored ones without reading them — the password may
+ * live in an external secret source.
+ */
+function getDecryptedCredentials(
+  server: RabbitMQConnectionFields,
+  login?: { username: string; password: string }
+) {
+  return {
+    host: server.host,
+    port: server.port,
+    username: login?.username ?? EncryptionService.decrypt(server.username),
+    password: login?.password ?? serverPassword(server),
+    vhost: server.vhost,
+    useHttps: server.useHttps,
+    amqpPort: server.amqpPort,
+    version: server.version ?? undefined,
+    versionMajorMinor: server.versionMajorMinor ?? undefined,
+    tls: decryptBrokerTls(server),
+  };
+}
+
+/**
+ * Helper function to create RabbitMQ client from an already-fetched server object.
+ * Use this when you already have a server from verifyServerAccess() to avoid
+ * a redundant DB query.
+ */
+export function createRabbitMQClientFromServer(
+  server: RabbitMQConnectionFields
+): RabbitMQClient {
+  return new RabbitMQClient(getDecryptedCredentials(server));
+}
+
+/**
+ * Client for the same broker authenticating as someone else — used to
+ * check credentials (a freshly rotated password, the default `guest`
+ * login) rather than to act on the broker.
+ */
+export function createRabbitMQClientAs(
+  server: RabbitMQConnectionFields,
+  credentials: { username: string; password: string }
+): RabbitMQClient {
+  return new RabbitMQClient(getDecryptedCredentials(server, credentials));
+}
@@ -0,0 +1,100 @@
+import https from "node:https";
+
+import type { BrokerTlsOptions } from "./rabbitmq.interfaces";
+
+/**
+ * Custom trust / mutual TLS for the Management API client.
+ *
+ * Global `fetch` (undici) takes no per-request CA or client certificate, so
+ * a server with TLS material configured goes through `node:https` with a
+ * dedicated agent instead. The agent's options are the same `tls.connect`
+ * options amqplib receives, so both transports verify the broker the same
+ * way: `servername` drives SNI *and* the hostname check.
+ */
+
+/** Statuses whose `Response` must be constructed without a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export function hasBrokerTls(
+  tls: BrokerTlsOptions | undefined
+): tls is BrokerTlsOptions {
+  return Boolean(tls && (tls.ca || tls.cert || tls.key || tls.servername));
+}
+
+/** Socket options for `tls.connect` / `https.Agent`, unset fields omitted. */
+export function brokerTlsSocketOptions(tls: BrokerTlsOptions): {
+  ca?: string;
+  cert?: string;
+  key?: string;
+  servername?: string;
+} {
+  return Object.fromEntries(
+    Object.entries({
+      ca: tls.ca,
+      cert: tls.cert,
+      key: tls.key,
+      servername: tls.servername,
+    }).filter(([, value]) => Boolean(value))
+  );
+}
+
+export function createBrokerTlsAgent(tls: BrokerTlsOptions): https.Agent {
+  return new https.Agent({ keepAlive: true, ...brokerTlsSocketOptions(tls) });
+}
+
+/**
+ * The subset of `fetch` the Management API client uses (method, headers,
+ * string body, abort signal), over `https.request` with the given agent.
+ * Resolves to a standard `Response` so callers can't tell the difference.
+ */
+export function fetchWithAgent(
+  url: string,
+  init: RequestInit,
+  agent: https.Agent
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const signal = init.signal ?? undefined;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    if (init.body != null && typeof init.body !== "string") {
+      reject(new TypeError("fetchWithAgent only supports string bodies"));
+      return;
+    }
+
+    const request = https.request(
+      url,
+      {
+        method: init.method ?? "GET",
+        headers: Object.fromEntries(new Headers(init.headers)),
+        agent,
+        signal,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("error", reject);
+        res.on("end", () => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value === undefined) continue;
+            for (const item of Array.isArray(value) ? value : [value]) {
+              headers.append(name, item);
+            }
+          }
+          const status = res.statusCode ?? 502;
+          resolve(
+            new Response(
+              NULL_BODY_STATUSES.has(status) ? null : Buffer.concat(chunks),
+              { status, statusText: res.statusMessage, headers }
+            )
+          );
+        });
+      }
+    );
+    request.on("error", reject);
+    if (init.body) request.write(init.body);
+    request.end();
+  });
+}
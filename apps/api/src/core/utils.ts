@@ -71,3 +71,33 @@ export function formatInvitedBy(
     displayName: getUserDisplayName(user),
   };
 }
+
+/**
+ * JSON with object keys sorted at every depth, so key order never matters
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * RabbitMQ user tags, which come as "a,b" before RabbitMQ 3.9 and as
+ * ["a","b"] since
+ */
+export function normalizeTags(tags: unknown): string[] {
+  const list = Array.isArray(tags)
+    ? tags
+    : typeof tags === "string"
+      ? tags.split(",")
+      : [];
+  return list.map((tag) => String(tag).trim()).filter((tag) => tag.length > 0);
+}
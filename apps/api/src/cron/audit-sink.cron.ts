@@ -0,0 +1,118 @@
+/**
+ * Audit Sink Drain Cron
+ *
+ * Runs on the notification worker (which holds its advisory lock, so each
+ * sink has a single drainer across replicas) and streams new audit rows
+ * to the workspaces' syslog, HTTP and file sinks.
+ */
+
+import { logger } from "@/core/logger";
+
+import {
+  AUDIT_SINK_SETTLE_MS,
+  drainAuditSinks,
+} from "@/services/audit-sinks/drain";
+
+// Polling picks up sinks coming out of backoff and covers lost NOTIFYs;
+// new rows normally wake the drain through triggerCycleNow.
+const DRAIN_INTERVAL_MS = 30_000;
+
+class AuditSinkCronService {
+  private isRunning = false;
+  private isDraining = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private wakeTimeoutId: NodeJS.Timeout | null = null;
+  private currentCyclePromise: Promise<void> | null = null;
+
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Audit sink drain already running");
+      return;
+    }
+    this.isRunning = true;
+    logger.info(
+      { intervalMs: DRAIN_INTERVAL_MS },
+      "Starting audit sink drain cron"
+    );
+
+    // Skip re-assigning while a cycle runs, so stopAndWait awaits the
+    // real one (see notification-outbox.cron.ts).
+    this.currentCyclePromise = this.runCycle();
+    this.intervalId = setInterval(() => {
+      if (this.isDraining) return;
+      this.currentCyclePromise = this.runCycle();
+    }, DRAIN_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    if (this.wakeTimeoutId) {
+      clearTimeout(this.wakeTimeoutId);
+      this.wakeTimeoutId = null;
+    }
+    logger.info("Audit sink drain cron stopped");
+  }
+
+  async stopAndWait(): Promise<void> {
+    this.stop();
+    if (this.currentCyclePromise) {
+      try {
+        await this.currentCyclePromise;
+      } catch (error) {
+        logger.error(
+          { error },
+          "Audit sink drain in-flight cycle errored during shutdown"
+        );
+      }
+      this.currentCyclePromise = null;
+    }
+  }
+
+  /**
+   * Schedule a cycle for when the row that triggered it has settled. The
+   * drain leaves rows younger than AUDIT_SINK_SETTLE_MS alone, so running
+   * right away would deliver nothing; a burst of writes shares one cycle.
+   */
+  triggerCycleNow(): void {
+    if (!this.isRunning || this.wakeTimeoutId) return;
+    this.wakeTimeoutId = setTimeout(() => {
+      this.wakeTimeoutId = null;
+      if (!this.isRunning) return;
+      // The running cycle may have queried before the row settled
+      if (this.isDraining) {
+        this.triggerCycleNow();
+        return;
+      }
+      this.currentCyclePromise = this.runCycle();
+    }, AUDIT_SINK_SETTLE_MS + 500);
+  }
+
+  private async runCycle(): Promise<void> {
+    if (this.isDraining) {
+      logger.debug(
+        "Audit sink drain skipping — previous cycle still in progress"
+      );
+      return;
+    }
+    this.isDraining = true;
+    try {
+      const stats = await drainAuditSinks();
+      if (stats.delivered > 0 || stats.failed > 0) {
+        logger.info({ ...stats }, "Audit sink drain cycle complete");
+      }
+    } catch (error) {
+      logger.error({ error }, "Audit sink drain cycle errored");
+    } finally {
+      this.isDraining = false;
+    }
+  }
+}
+
+export const auditSinkCronService = new AuditSinkCronService();
@@ -0,0 +1,165 @@
+/**
+ * Scheduled Broker Password Rotation Cron
+ *
+ * Runs on the queue-pause worker (a singleton in both cloud and
+ * self-hosted, so two replicas never rotate the same password at once)
+ * and rotates the connection password of every server whose
+ * `passwordRotationDays` has elapsed. Rotations run one at a time: each
+ * one briefly locks out readers of the stored password.
+ *
+ * A failed rotation is recorded on the server row by the service and is
+ * not retried for a day, so a misconfigured broker is not hammered with
+ * password changes and rollbacks every tick.
+ */
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { recordAuditLog } from "@/services/audit";
+import {
+  nextRotationAt,
+  rotateServerPassword,
+} from "@/services/credential-rotation";
+
+import { isDemoMode } from "@/config/deployment";
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const RETRY_AFTER_FAILURE_MS = 24 * 60 * 60 * 1000;
+
+class CredentialRotationCronService {
+  private isRunning = false;
+  private isRotating = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private currentCyclePromise: Promise<void> | null = null;
+  /** Server id → when its last failed attempt ran */
+  private readonly failedAt = new Map<string, number>();
+
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Credential rotation cron already running");
+      return;
+    }
+    if (isDemoMode()) {
+      logger.info("Credential rotation cron skipped (demo mode)");
+      return;
+    }
+    this.isRunning = true;
+    logger.info(
+      { intervalMs: CHECK_INTERVAL_MS },
+      "Starting credential rotation cron"
+    );
+
+    this.currentCyclePromise = this.runCycle();
+    this.intervalId = setInterval(() => {
+      if (this.isRotating) return;
+      this.currentCyclePromise = this.runCycle();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (!this.isRunning) return;
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    logger.info("Credential rotation cron stopped");
+  }
+
+  async stopAndWait(): Promise<void> {
+    this.stop();
+    if (this.currentCyclePromise) {
+      try {
+        await this.currentCyclePromise;
+      } catch (error) {
+        logger.error(
+          { error },
+          "Credential rotation in-flight cycle errored during shutdown"
+        );
+      }
+      this.currentCyclePromise = null;
+    }
+  }
+
+  private async runCycle(): Promise<void> {
+    if (this.isRotating) return;
+    this.isRotating = true;
+    try {
+      const now = Date.now();
+      const servers = await prisma.rabbitMQServer.findMany({
+        where: {
+          passwordRotationDays: { not: null },
+          passwordRef: null,
+          workspaceId: { not: null },
+        },
+        select: {
+          id: true,
+          name: true,
+          vhost: true,
+          workspaceId: true,
+          passwordRotationDays: true,
+          passwordRotatedAt: true,
+          createdAt: true,
+        },
+      });
+
+      for (const server of servers) {
+        if (!this.isRunning) break;
+        const due = nextRotationAt(server);
+        if (!due || due.getTime() > now) continue;
+        const failedAt = this.failedAt.get(server.id);
+        if (failedAt && now - failedAt < RETRY_AFTER_FAILURE_MS) continue;
+
+        await this.rotate(server);
+      }
+    } catch (error) {
+      logger.error({ error }, "Credential rotation cycle errored");
+    } finally {
+      this.isRotating = false;
+    }
+  }
+
+  private async rotate(server: {
+    id: string;
+    name: string;
+    vhost: string;
+    workspaceId: string | null;
+  }): Promise<void> {
+    const audit = {
+      actorId: null,
+      category: "rabbitmq",
+      entityType: "server",
+      entityId: server.id,
+      entityLabel: server.name,
+      serverId: server.id,
+      vhost: server.vhost,
+      workspaceId: server.workspaceId,
+    };
+    try {
+      const result = await rotateServerPassword(server.id);
+      this.failedAt.delete(server.id);
+      void recordAuditLog({
+        ...audit,
+        action: "rabbitmq.server.password.rotated",
+        metadata: { username: result.username, scheduled: true },
+      });
+    } catch (error) {
+      this.failedAt.set(server.id, Date.now());
+      logger.error(
+        { error, serverId: server.id },
+        "Scheduled broker password rotation failed"
+      );
+      void recordAuditLog({
+        ...audit,
+        action: "rabbitmq.server.password.rotation_failed",
+        metadata: {
+          scheduled: true,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+}
+
+export const credentialRotationCronService =
+  new CredentialRotationCronService();
@@ -8,7 +8,10 @@
 
 import { logger } from "@/core/logger";
 
-import { drainNotificationOutbox } from "@/services/notification/notification-outbox.service";
+import {
+  drainNotificationOutbox,
+  publishBreakerStates,
+} from "@/services/notification/notification-outbox.service";
 
 // 30s cadence is a safety net only: the LISTEN/NOTIFY wake-up triggers a
 // cycle in <100ms after each enqueue, so polling exists to (a) catch
@@ -33,6 +36,8 @@ class NotificationOutboxCronService {
       { intervalMs: DRAIN_INTERVAL_MS, batchLimit: DRAIN_BATCH_LIMIT },
       "Starting notification outbox drain cron"
     );
+    // Replace whatever breaker states the previous worker left behind.
+    void publishBreakerStates();
 
     // Skip re-assigning when a drain cycle is still running — otherwise
     // the isDraining-skipped callback would clobber the real promise and
@@ -97,7 +102,12 @@ class NotificationOutboxCronService {
     this.isDraining = true;
     try {
       const stats = await drainNotificationOutbox(DRAIN_BATCH_LIMIT);
-      if (stats.sent > 0 || stats.failed > 0 || stats.retrying > 0) {
+      if (
+        stats.sent > 0 ||
+        stats.failed > 0 ||
+        stats.retrying > 0 ||
+        stats.cancelled > 0
+      ) {
         logger.info({ ...stats }, "Notification outbox drain cycle complete");
       }
     } catch (error) {
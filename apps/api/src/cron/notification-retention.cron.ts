@@ -3,10 +3,12 @@
  *
  * Sweeps two notification-related tables on the same daily cycle:
  *
- *  - NotificationOutbox: deletes SENT rows older than 30 days. FAILED
- *    rows are kept indefinitely — they're the audit trail for "we never
- *    reached this customer", and ops triage them manually before any
- *    cleanup. PENDING rows are obviously never deleted.
+ *  - NotificationOutbox: deletes SENT rows older than 30 days, and
+ *    CANCELLED rows (escalations made moot by an ack or resolve) created
+ *    more than 30 days ago. FAILED rows are kept indefinitely — they're
+ *    the audit trail for "we never reached this customer", and ops
+ *    triage them manually before any cleanup. PENDING rows are obviously
+ *    never deleted.
  *
  *  - DigestLog: deletes "sent" and "failed" rows older than 30 days.
  *    "queued" rows are kept indefinitely — orphaned queued rows signal
@@ -81,7 +83,12 @@ class NotificationRetentionCronService {
       const cutoff = subDays(new Date(), RETENTION_DAYS);
 
       const outboxResult = await prisma.notificationOutbox.deleteMany({
-        where: { status: "SENT", sentAt: { lt: cutoff } },
+        where: {
+          OR: [
+            { status: "SENT", sentAt: { lt: cutoff } },
+            { status: "CANCELLED", createdAt: { lt: cutoff } },
+          ],
+        },
       });
 
       // DigestLog has no nullable column for terminal status, so we filter
@@ -0,0 +1,127 @@
+/**
+ * Queue Pause Reconcile Cron
+ *
+ * Runs on the queue-pause worker (which holds the queue-pause advisory lock,
+ * so exactly one process owns the blocking consumers) and converges them on
+ * the `QueuePause` rows. The first cycle runs on start — that is the
+ * startup reconcile that re-applies every pause after a restart.
+ */
+
+import { logger } from "@/core/logger";
+
+import { QueuePauseReconciler } from "@/services/queue-pause/queue-pause.reconciler";
+
+// LISTEN/NOTIFY wakes a cycle as soon as a pause or resume is recorded, so
+// polling exists to (a) honour `pausedUntil` deadlines (nothing NOTIFYs
+// when a schedule comes due), (b) re-attach consumers lost to a broker
+// restart, and (c) cover dropped-LISTEN windows. 15s bounds how late a
+// scheduled resume can be.
+const RECONCILE_INTERVAL_MS = 15_000;
+
+class QueuePauseCronService {
+  private isRunning = false;
+  private isReconciling = false;
+  /** A change was recorded while a cycle ran; run again before idling. */
+  private rerunRequested = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private currentCyclePromise: Promise<void> | null = null;
+  private readonly reconciler = new QueuePauseReconciler();
+
+  start(): void {
+    if (this.isRunning) {
+      logger.info("Queue pause reconcile already running");
+      return;
+    }
+    this.isRunning = true;
+    logger.info(
+      { intervalMs: RECONCILE_INTERVAL_MS },
+      "Starting queue pause reconcile cron"
+    );
+
+    this.currentCyclePromise = this.runCycle();
+    this.intervalId = setInterval(() => {
+      if (this.isReconciling) return;
+      this.currentCyclePromise = this.runCycle();
+    }, RECONCILE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    logger.info("Queue pause reconcile cron stopped");
+  }
+
+  /**
+   * Stop, let an in-flight cycle finish, then close every broker
+   * connection. The held consumers go with them — the next worker
+   * re-applies the pauses on its first cycle.
+   */
+  async stopAndWait(): Promise<void> {
+    this.stop();
+    if (this.currentCyclePromise) {
+      try {
+        await this.currentCyclePromise;
+      } catch (error) {
+        logger.error(
+          { error },
+          "Queue pause reconcile in-flight cycle errored during shutdown"
+        );
+      }
+      this.currentCyclePromise = null;
+    }
+    await this.reconciler.shutdown();
+  }
+
+  /**
+   * Trigger an immediate cycle. Called by the worker's LISTEN handler so a
+   * pause or resume takes effect in <100ms instead of on the next tick.
+   * While a cycle runs the request is folded into it (a rerun) rather than
+   * starting another, which would clobber the in-flight promise
+   * stopAndWait waits on — and unlike the outbox, a change recorded
+   * mid-cycle must not wait for the next tick.
+   */
+  triggerCycleNow(): void {
+    if (!this.isRunning) return;
+    if (this.isReconciling) {
+      this.rerunRequested = true;
+      return;
+    }
+    this.currentCyclePromise = this.runCycle();
+  }
+
+  private async runCycle(): Promise<void> {
+    if (this.isReconciling) {
+      logger.debug(
+        "Queue pause reconcile skipping — previous cycle still in progress"
+      );
+      return;
+    }
+    this.isReconciling = true;
+    try {
+      do {
+        this.rerunRequested = false;
+        const stats = await this.reconciler.reconcile();
+        if (
+          stats.applied > 0 ||
+          stats.released > 0 ||
+          stats.expired > 0 ||
+          stats.failed > 0
+        ) {
+          logger.info({ ...stats }, "Queue pause reconcile cycle complete");
+        }
+      } while (this.rerunRequested && this.isRunning);
+    } catch (error) {
+      logger.error({ error }, "Queue pause reconcile cycle errored");
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+}
+
+export const queuePauseCronService = new QueuePauseCronService();
@@ -1,6 +1,7 @@
 import { logger } from "@/core/logger";
 import { prisma } from "@/core/prisma";
 
+import { syncClientCertificateFinding } from "@/services/broker-tls";
 import { refreshServerCapabilities } from "@/services/feature-gate/capability-refresh";
 
 import { isDemoMode } from "@/config/deployment";
@@ -18,6 +19,10 @@ import { isDemoMode } from "@/config/deployment";
  * not all hit the broker at the same UTC minute. The hash is
  * server-stable, so a flapping server doesn't reschedule every cycle.
  *
+ * The same per-server pass re-evaluates the broker client certificate
+ * expiry finding (`services/broker-tls`), which moves with the calendar
+ * rather than with the broker.
+ *
  * **Single-replica required** — concurrent runs would both pass the
  * compare-and-swap CAS in `persistServerCapabilities` only one at a time
  * (the loser silently no-ops), so correctness is preserved, but running
@@ -215,6 +220,17 @@ class ServerCapabilitiesCronService {
             "capability cron: refresh failed for server"
           );
         }
+
+        // The client certificate expiry finding is time-based, so it rides
+        // on this daily pass instead of waiting for the server to change.
+        try {
+          await syncClientCertificateFinding(server.id);
+        } catch (error) {
+          logger.warn(
+            { error, serverId: server.id },
+            "capability cron: client certificate expiry check failed"
+          );
+        }
       }
 
       logger.info(
@@ -15,12 +15,19 @@ if (subcommand === "setup") {
   const { runSetup } = await import("./cli/setup.js");
   await runSetup();
   process.exit(0);
+} else if (subcommand === "rotate-encryption-key") {
+  const { runRotateEncryptionKey } =
+    await import("./cli/rotate-encryption-key.js");
+  process.exit(await runRotateEncryptionKey(process.argv.slice(3)));
 } else if (subcommand === "worker") {
   await import("./ee/workers/alert-monitor.js");
   await new Promise(() => {}); // Never resolves — signal handlers shut down the process
 } else if (subcommand === "notification-worker") {
   await import("./workers/notification-worker.js");
   await new Promise(() => {}); // Never resolves — signal handlers shut down the process
+} else if (subcommand === "queue-pause-worker") {
+  await import("./workers/queue-pause-worker.js");
+  await new Promise(() => {});
 } else if (subcommand === "digest-worker") {
   await import("./ee/workers/digest-monitor.js");
   await new Promise(() => {});
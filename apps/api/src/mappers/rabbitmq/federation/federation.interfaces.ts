@@ -0,0 +1,50 @@
+/**
+ * Federation API Response Types
+ *
+ * Lean response types containing only fields actually used by the web.
+ */
+
+import type { LinkState } from "../shovel/shovel.interfaces";
+
+/**
+ * Federation upstream API Response
+ */
+export interface FederationUpstreamResponse {
+  name: string;
+  vhost: string;
+  /** Credentials redacted. */
+  uris: string[];
+  exchange: string | null;
+  queue: string | null;
+  prefetchCount: number | null;
+  reconnectDelay: number | null;
+  ackMode: string | null;
+  trustUserId: boolean;
+  maxHops: number | null;
+  expires: number | null;
+  messageTtl: number | null;
+  /** Links currently established from this upstream (all nodes). */
+  links: FederationLinkResponse[];
+}
+
+/**
+ * Federation link API Response
+ */
+export interface FederationLinkResponse {
+  id: string;
+  node: string;
+  vhost: string;
+  upstream: string;
+  type: "exchange" | "queue";
+  state: LinkState;
+  /** Raw broker status, kept for the `error` vs `shutdown` distinction. */
+  status: string;
+  /** Local exchange or queue being federated. */
+  resource: string | null;
+  /** Exchange or queue on the upstream side. */
+  upstreamResource: string | null;
+  /** Credentials redacted. */
+  uri: string | null;
+  error: string | null;
+  timestamp: string | null;
+}
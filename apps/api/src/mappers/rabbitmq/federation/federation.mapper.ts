@@ -0,0 +1,95 @@
+import type {
+  RabbitMQFederationLink,
+  RabbitMQFederationUpstream,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import type { LinkState } from "../shovel/shovel.interfaces";
+import { redactAmqpUri, redactAmqpUris } from "../uri";
+import type {
+  FederationLinkResponse,
+  FederationUpstreamResponse,
+} from "./federation.interfaces";
+
+function toLinkState(status: RabbitMQFederationLink["status"]): LinkState {
+  if (status === "running" || status === "starting") return status;
+  return "terminated";
+}
+
+/**
+ * Mapper for transforming federation upstreams and links
+ */
+export class FederationMapper {
+  /**
+   * Map a single RabbitMQFederationLink to FederationLinkResponse
+   */
+  static toLinkResponse(link: RabbitMQFederationLink): FederationLinkResponse {
+    return {
+      id: link.id,
+      node: link.node,
+      vhost: link.vhost,
+      upstream: link.upstream,
+      type: link.type,
+      state: toLinkState(link.status),
+      status: link.status,
+      resource: (link.type === "queue" ? link.queue : link.exchange) ?? null,
+      upstreamResource:
+        (link.type === "queue"
+          ? link.upstream_queue
+          : link.upstream_exchange) ?? null,
+      uri: link.uri ? redactAmqpUri(link.uri) : null,
+      error: link.error ?? null,
+      timestamp: link.timestamp ?? null,
+    };
+  }
+
+  /**
+   * Map an array of RabbitMQFederationLink to FederationLinkResponse[]
+   */
+  static toLinkResponseArray(
+    links: RabbitMQFederationLink[]
+  ): FederationLinkResponse[] {
+    return links.map(this.toLinkResponse);
+  }
+
+  /**
+   * Map an upstream definition, attaching the links that belong to it
+   */
+  static toUpstreamResponse(
+    upstream: RabbitMQFederationUpstream,
+    links: RabbitMQFederationLink[] = []
+  ): FederationUpstreamResponse {
+    const value = upstream.value;
+    return {
+      name: upstream.name,
+      vhost: upstream.vhost,
+      uris: redactAmqpUris(value.uri),
+      exchange: value.exchange ?? null,
+      queue: value.queue ?? null,
+      prefetchCount: value["prefetch-count"] ?? null,
+      reconnectDelay: value["reconnect-delay"] ?? null,
+      ackMode: value["ack-mode"] ?? null,
+      trustUserId: value["trust-user-id"] ?? false,
+      maxHops: value["max-hops"] ?? null,
+      expires: value.expires ?? null,
+      messageTtl: value["message-ttl"] ?? null,
+      links: links
+        .filter(
+          (link) =>
+            link.vhost === upstream.vhost && link.upstream === upstream.name
+        )
+        .map(FederationMapper.toLinkResponse),
+    };
+  }
+
+  /**
+   * Map upstream definitions, each with its matching links
+   */
+  static toUpstreamResponseArray(
+    upstreams: RabbitMQFederationUpstream[],
+    links: RabbitMQFederationLink[]
+  ): FederationUpstreamResponse[] {
+    return upstreams.map((upstream) =>
+      FederationMapper.toUpstreamResponse(upstream, links)
+    );
+  }
+}
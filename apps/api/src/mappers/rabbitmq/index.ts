@@ -8,8 +8,11 @@
 export { ConsumerMapper } from "./consumer/consumer.mapper";
 export { BindingMapper } from "./exchange/binding.mapper";
 export { ExchangeMapper } from "./exchange/exchange.mapper";
+export { FederationMapper } from "./federation/federation.mapper";
+export { MessageMapper } from "./message/message.mapper";
 export { NodeMapper } from "./node/node.mapper";
 export { OverviewMapper } from "./overview/overview.mapper";
 export { QueueMapper } from "./queue/queue.mapper";
+export { ShovelMapper } from "./shovel/shovel.mapper";
 export { UserMapper } from "./user/user.mapper";
 export { VHostMapper } from "./vhost/vhost.mapper";
@@ -0,0 +1,35 @@
+/**
+ * Message API Response Types
+ *
+ * Lean response types containing only fields actually used by the web.
+ */
+
+import type {
+  MessageProperties,
+  RabbitMQMessage,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+/**
+ * A message as fetched by a browse, with `truncated` measured on the bytes
+ * the broker returned (before any decode of the payload)
+ */
+export interface BrowsedMessage extends RabbitMQMessage {
+  truncated: boolean;
+}
+
+/**
+ * Message API Response (one entry of a queue browse)
+ */
+export interface MessageResponse {
+  payload: string;
+  payload_bytes: number;
+  payload_encoding: string;
+  /** True when the broker cut the payload short (`truncate` option). */
+  truncated: boolean;
+  properties: MessageProperties;
+  routing_key: string;
+  redelivered: boolean;
+  exchange: string;
+  /** Messages left in the queue after this one was fetched. */
+  message_count: number;
+}
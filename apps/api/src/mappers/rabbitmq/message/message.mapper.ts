@@ -0,0 +1,30 @@
+import type { BrowsedMessage, MessageResponse } from "./message.interfaces";
+
+/**
+ * Mapper for transforming BrowsedMessage to MessageResponse
+ */
+export class MessageMapper {
+  /**
+   * Map a single BrowsedMessage to MessageResponse
+   */
+  static toApiResponse(message: BrowsedMessage): MessageResponse {
+    return {
+      payload: message.payload,
+      payload_bytes: message.payload_bytes,
+      payload_encoding: message.payload_encoding,
+      truncated: message.truncated,
+      properties: message.properties ?? {},
+      routing_key: message.routing_key,
+      redelivered: message.redelivered,
+      exchange: message.exchange,
+      message_count: message.message_count,
+    };
+  }
+
+  /**
+   * Map an array of BrowsedMessage to MessageResponse[]
+   */
+  static toApiResponseArray(messages: BrowsedMessage[]): MessageResponse[] {
+    return messages.map(this.toApiResponse);
+  }
+}
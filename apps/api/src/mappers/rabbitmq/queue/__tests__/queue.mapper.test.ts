@@ -148,4 +148,79 @@ describe("QueueMapper", () => {
     expect(results[1].name).toBe("q2");
     expect(results[1].state).toBe("stopped");
   });
+
+  it("leaves type-specific details null for classic queues", () => {
+    const result = QueueMapper.toApiResponse(baseQueue);
+    expect(result.quorum).toBeNull();
+    expect(result.stream).toBeNull();
+  });
+
+  it("maps quorum placement, out-of-sync members and limits", () => {
+    const result = QueueMapper.toApiResponse({
+      ...baseQueue,
+      type: "quorum",
+      arguments: { "x-quorum-initial-group-size": 3, "x-delivery-limit": 10 },
+      effective_policy_definition: { "delivery-limit": 5 },
+      leader: "rabbit@node1",
+      members: ["rabbit@node1", "rabbit@node2", "rabbit@node3"],
+      online: ["rabbit@node1", "rabbit@node2"],
+      messages_dlx: 4,
+    });
+
+    expect(result.quorum).toEqual({
+      leader: "rabbit@node1",
+      members: ["rabbit@node1", "rabbit@node2", "rabbit@node3"],
+      online: ["rabbit@node1", "rabbit@node2"],
+      outOfSync: ["rabbit@node3"],
+      initialGroupSize: 3,
+      deliveryLimit: 5,
+      messagesDeadLettered: 4,
+      messageBytesDeadLettered: 0,
+    });
+    expect(result.stream).toBeNull();
+  });
+
+  it("prefers the broker-reported delivery limit and treats negative as unlimited", () => {
+    const quorum = { ...baseQueue, type: "quorum" };
+
+    expect(
+      QueueMapper.toApiResponse({ ...quorum, delivery_limit: 20 }).quorum
+        ?.deliveryLimit
+    ).toBe(20);
+    expect(
+      QueueMapper.toApiResponse({ ...quorum, delivery_limit: -1 }).quorum
+        ?.deliveryLimit
+    ).toBeNull();
+    expect(QueueMapper.toApiResponse(quorum).quorum?.deliveryLimit).toBeNull();
+  });
+
+  it("maps stream retention, segments and offsets", () => {
+    const result = QueueMapper.toApiResponse({
+      ...baseQueue,
+      type: "stream",
+      arguments: { "x-max-length-bytes": 20_000_000_000, "x-max-age": "7D" },
+      effective_policy_definition: { "stream-max-segment-size-bytes": 500 },
+      leader: "rabbit@node2",
+      members: ["rabbit@node1", "rabbit@node2"],
+      online: ["rabbit@node1", "rabbit@node2"],
+      segments: 12,
+      first_offset: 0,
+      committed_offset: 9_000,
+      first_timestamp: Date.UTC(2026, 0, 1),
+    });
+
+    expect(result.stream).toMatchObject({
+      leader: "rabbit@node2",
+      outOfSync: [],
+      initialClusterSize: null,
+      maxLengthBytes: 20_000_000_000,
+      maxSegmentSizeBytes: 500,
+      maxAge: "7D",
+      segments: 12,
+      firstOffset: 0,
+      committedOffset: 9_000,
+      firstTimestamp: "2026-01-01T00:00:00.000Z",
+    });
+    expect(result.quorum).toBeNull();
+  });
 });
@@ -13,6 +13,58 @@ interface RateDetailResponse {
   rate: number;
 }
 
+/**
+ * Replica placement shared by quorum queues and streams
+ */
+interface ReplicaPlacementResponse {
+  leader: string | null;
+  members: string[];
+  online: string[];
+  /** Members not reported online — down, or still catching up */
+  outOfSync: string[];
+}
+
+/**
+ * Quorum queue details. Limits are the effective value across the queue
+ * argument and the applied policy; `deliveryLimit: null` means unlimited.
+ */
+export interface QuorumQueueDetailsResponse extends ReplicaPlacementResponse {
+  initialGroupSize: number | null;
+  deliveryLimit: number | null;
+  messagesDeadLettered: number;
+  messageBytesDeadLettered: number;
+}
+
+/**
+ * Stream details. Retention limits are the effective value across the
+ * queue argument and the applied policy.
+ */
+export interface StreamDetailsResponse extends ReplicaPlacementResponse {
+  initialClusterSize: number | null;
+  maxLengthBytes: number | null;
+  maxSegmentSizeBytes: number | null;
+  maxAge: string | null;
+  segments: number | null;
+  firstOffset: number | null;
+  committedOffset: number | null;
+  firstTimestamp: string | null;
+}
+
+/**
+ * Stream protocol subscription with its position in the stream
+ */
+export interface StreamConsumerResponse {
+  connectionName: string;
+  user: string | null;
+  subscriptionId: number;
+  offset: number;
+  offsetLag: number;
+  messagesConsumed: number;
+  credits: number;
+  active: boolean;
+  activityStatus: string | null;
+}
+
 /**
  * Queue API Response - only fields used by web
  */
@@ -67,6 +119,10 @@ export interface QueueResponse {
   internal?: boolean;
   internal_owner?: string;
 
+  // Type-specific (null for other queue types)
+  quorum?: QuorumQueueDetailsResponse | null;
+  stream?: StreamDetailsResponse | null;
+
   // Deprecated (for display only)
   slave_nodes?: string[];
   synchronised_slave_nodes?: string[];
@@ -1,6 +1,95 @@
-import type { RabbitMQQueue } from "@/core/rabbitmq/rabbitmq.interfaces";
+import type {
+  RabbitMQQueue,
+  RabbitMQStreamConsumer,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
 
-import type { QueueResponse } from "./queue.interfaces";
+import type {
+  QueueResponse,
+  QuorumQueueDetailsResponse,
+  StreamConsumerResponse,
+  StreamDetailsResponse,
+} from "./queue.interfaces";
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Effective numeric limit: when both the queue argument and the applied
+ * policy set one, the broker enforces the lower of the two.
+ */
+function effectiveLimit(
+  queue: RabbitMQQueue,
+  argument: string,
+  policyKey: string
+): number | null {
+  const values = [
+    numberOrNull(queue.arguments?.[argument]),
+    numberOrNull(queue.effective_policy_definition?.[policyKey]),
+  ].filter((value): value is number => value !== null);
+  return values.length > 0 ? Math.min(...values) : null;
+}
+
+function replicaPlacement(queue: RabbitMQQueue) {
+  const members = queue.members ?? [];
+  const online = queue.online ?? [];
+  return {
+    leader: queue.leader ?? null,
+    members,
+    online,
+    outOfSync: members.filter((member) => !online.includes(member)),
+  };
+}
+
+function quorumDetails(queue: RabbitMQQueue): QuorumQueueDetailsResponse {
+  // 4.0+ reports the effective limit (defaulting to 20); older brokers
+  // only know what was configured. A negative limit disables it.
+  const deliveryLimit =
+    numberOrNull(queue.delivery_limit) ??
+    effectiveLimit(queue, "x-delivery-limit", "delivery-limit");
+
+  return {
+    ...replicaPlacement(queue),
+    initialGroupSize: numberOrNull(
+      queue.arguments?.["x-quorum-initial-group-size"]
+    ),
+    deliveryLimit:
+      deliveryLimit !== null && deliveryLimit >= 0 ? deliveryLimit : null,
+    messagesDeadLettered: queue.messages_dlx ?? 0,
+    messageBytesDeadLettered: queue.message_bytes_dlx ?? 0,
+  };
+}
+
+function streamDetails(queue: RabbitMQQueue): StreamDetailsResponse {
+  const maxAge =
+    queue.arguments?.["x-max-age"] ??
+    queue.effective_policy_definition?.["max-age"];
+
+  return {
+    ...replicaPlacement(queue),
+    initialClusterSize: numberOrNull(
+      queue.arguments?.["x-initial-cluster-size"]
+    ),
+    maxLengthBytes: effectiveLimit(
+      queue,
+      "x-max-length-bytes",
+      "max-length-bytes"
+    ),
+    maxSegmentSizeBytes: effectiveLimit(
+      queue,
+      "x-stream-max-segment-size-bytes",
+      "stream-max-segment-size-bytes"
+    ),
+    maxAge: typeof maxAge === "string" ? maxAge : null,
+    segments: numberOrNull(queue.segments),
+    firstOffset: numberOrNull(queue.first_offset),
+    committedOffset: numberOrNull(queue.committed_offset),
+    firstTimestamp:
+      typeof queue.first_timestamp === "number"
+        ? new Date(queue.first_timestamp).toISOString()
+        : null,
+  };
+}
 
 /**
  * Mapper for transforming RabbitMQQueue to QueueResponse
@@ -84,6 +173,10 @@ export class QueueMapper {
       internal: queue.internal,
       internal_owner: queue.internal_owner,
 
+      // Type-specific
+      quorum: queue.type === "quorum" ? quorumDetails(queue) : null,
+      stream: queue.type === "stream" ? streamDetails(queue) : null,
+
       // Deprecated (for display only)
       slave_nodes: queue.slave_nodes,
       synchronised_slave_nodes: queue.synchronised_slave_nodes,
@@ -97,4 +190,23 @@ export class QueueMapper {
   static toApiResponseArray(queues: RabbitMQQueue[]): QueueResponse[] {
     return queues.map(this.toApiResponse);
   }
+
+  /**
+   * Map a stream protocol subscription to StreamConsumerResponse
+   */
+  static toStreamConsumerResponse(
+    consumer: RabbitMQStreamConsumer
+  ): StreamConsumerResponse {
+    return {
+      connectionName: consumer.connection_details.name,
+      user: consumer.connection_details.user ?? null,
+      subscriptionId: consumer.subscription_id,
+      offset: consumer.offset,
+      offsetLag: consumer.offset_lag,
+      messagesConsumed: consumer.messages_consumed,
+      credits: consumer.credits,
+      active: consumer.active,
+      activityStatus: consumer.activity_status ?? null,
+    };
+  }
 }
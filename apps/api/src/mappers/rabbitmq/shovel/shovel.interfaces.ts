@@ -0,0 +1,45 @@
+/**
+ * Shovel API Response Types
+ *
+ * Lean response types containing only fields actually used by the web.
+ */
+
+/**
+ * Link state shared by shovels and federation links. Federation's
+ * `error` / `shutdown` statuses collapse into `terminated`.
+ */
+export type LinkState = "running" | "starting" | "terminated";
+
+/**
+ * One side (source or destination) of a shovel.
+ */
+export interface ShovelEndpointResponse {
+  /** Credentials redacted. */
+  uris: string[];
+  protocol: string;
+  queue: string | null;
+  exchange: string | null;
+  exchangeKey: string | null;
+}
+
+/**
+ * Shovel API Response — a dynamic definition joined with its live status.
+ * Static shovels (declared in the broker config) have no definition and
+ * are reported from status alone.
+ */
+export interface ShovelResponse {
+  name: string;
+  vhost: string;
+  type: "dynamic" | "static";
+  /** `null` when the management plugin is missing or the shovel has no status yet. */
+  state: LinkState | null;
+  node: string | null;
+  error: string | null;
+  timestamp: string | null;
+  source: ShovelEndpointResponse;
+  destination: ShovelEndpointResponse;
+  ackMode: string | null;
+  prefetchCount: number | null;
+  reconnectDelay: number | null;
+  deleteAfter: string | number | null;
+}
@@ -0,0 +1,114 @@
+import type {
+  RabbitMQShovelParameter,
+  RabbitMQShovelStatus,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { redactAmqpUri, redactAmqpUris } from "../uri";
+import type {
+  ShovelEndpointResponse,
+  ShovelResponse,
+} from "./shovel.interfaces";
+
+function statusKey(vhost: string, name: string): string {
+  return `${vhost}\u0000${name}`;
+}
+
+function endpointFromStatus(
+  status: RabbitMQShovelStatus,
+  side: "src" | "dest"
+): ShovelEndpointResponse {
+  const uri = status[`${side}_uri`];
+  return {
+    uris: uri ? [redactAmqpUri(uri)] : [],
+    protocol: status[`${side}_protocol`] ?? "amqp091",
+    queue: status[`${side}_queue`] ?? null,
+    exchange: status[`${side}_exchange`] ?? null,
+    exchangeKey: status[`${side}_exchange_key`] ?? null,
+  };
+}
+
+/**
+ * Mapper for joining shovel definitions with their live status
+ */
+export class ShovelMapper {
+  /**
+   * Map a dynamic shovel definition (and its status, if any) to ShovelResponse
+   */
+  static toApiResponse(
+    parameter: RabbitMQShovelParameter,
+    status?: RabbitMQShovelStatus
+  ): ShovelResponse {
+    const value = parameter.value;
+    return {
+      name: parameter.name,
+      vhost: parameter.vhost,
+      type: "dynamic",
+      state: status?.state ?? null,
+      node: status?.node ?? null,
+      error: status?.reason ?? null,
+      timestamp: status?.timestamp ?? null,
+      source: {
+        uris: redactAmqpUris(value["src-uri"]),
+        protocol: value["src-protocol"] ?? "amqp091",
+        queue: value["src-queue"] ?? null,
+        exchange: value["src-exchange"] ?? null,
+        exchangeKey: value["src-exchange-key"] ?? null,
+      },
+      destination: {
+        uris: redactAmqpUris(value["dest-uri"]),
+        protocol: value["dest-protocol"] ?? "amqp091",
+        queue: value["dest-queue"] ?? null,
+        exchange: value["dest-exchange"] ?? null,
+        exchangeKey: value["dest-exchange-key"] ?? null,
+      },
+      ackMode: value["ack-mode"] ?? null,
+      prefetchCount: value["src-prefetch-count"] ?? null,
+      reconnectDelay: value["reconnect-delay"] ?? null,
+      deleteAfter: value["src-delete-after"] ?? null,
+    };
+  }
+
+  /**
+   * Map a status entry with no dynamic definition (static shovel)
+   */
+  static fromStatus(status: RabbitMQShovelStatus): ShovelResponse {
+    return {
+      name: status.name,
+      vhost: status.vhost,
+      type: status.type,
+      state: status.state,
+      node: status.node ?? null,
+      error: status.reason ?? null,
+      timestamp: status.timestamp ?? null,
+      source: endpointFromStatus(status, "src"),
+      destination: endpointFromStatus(status, "dest"),
+      ackMode: null,
+      prefetchCount: null,
+      reconnectDelay: null,
+      deleteAfter: null,
+    };
+  }
+
+  /**
+   * Join definitions with statuses on (vhost, name). Statuses without a
+   * matching definition are static shovels and are appended.
+   */
+  static toApiResponseArray(
+    parameters: RabbitMQShovelParameter[],
+    statuses: RabbitMQShovelStatus[]
+  ): ShovelResponse[] {
+    const byKey = new Map(
+      statuses.map((status) => [statusKey(status.vhost, status.name), status])
+    );
+    const shovels = parameters.map((parameter) => {
+      const key = statusKey(parameter.vhost, parameter.name);
+      const status = byKey.get(key);
+      byKey.delete(key);
+      return ShovelMapper.toApiResponse(parameter, status);
+    });
+    for (const status of byKey.values()) {
+      shovels.push(ShovelMapper.fromStatus(status));
+    }
+    return shovels;
+  }
+}
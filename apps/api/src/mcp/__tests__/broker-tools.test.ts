@@ -20,12 +20,22 @@ const {
   mockCreateRabbitMQClientFromServer,
   mockGetQueues,
   mockGetOverview,
+  mockGetQueueConsumers,
+  mockGetBindings,
+  mockGetExchanges,
+  mockGetNodes,
+  mockGetQueueRateSeries,
 } = vi.hoisted(() => ({
   mockRabbitMQServerFindMany: vi.fn(),
   mockVerifyServerAccess: vi.fn(),
   mockCreateRabbitMQClientFromServer: vi.fn(),
   mockGetQueues: vi.fn(),
   mockGetOverview: vi.fn(),
+  mockGetQueueConsumers: vi.fn(),
+  mockGetBindings: vi.fn(),
+  mockGetExchanges: vi.fn(),
+  mockGetNodes: vi.fn(),
+  mockGetQueueRateSeries: vi.fn(),
 }));
 
 vi.mock("@/core/prisma", () => ({
@@ -46,6 +56,10 @@ vi.mock("@/trpc/routers/rabbitmq/shared", () => ({
   createRabbitMQClientFromServer: mockCreateRabbitMQClientFromServer,
 }));
 
+vi.mock("@/stores/metrics", () => ({
+  metricsStore: { getQueueRateSeries: mockGetQueueRateSeries },
+}));
+
 vi.mock("@/services/feature-gate/license", () => ({
   isFeatureEnabled: vi.fn().mockResolvedValue(false),
 }));
@@ -87,6 +101,10 @@ beforeEach(() => {
   mockCreateRabbitMQClientFromServer.mockReturnValue({
     getQueues: mockGetQueues,
     getOverview: mockGetOverview,
+    getQueueConsumers: mockGetQueueConsumers,
+    getBindings: mockGetBindings,
+    getExchanges: mockGetExchanges,
+    getNodes: mockGetNodes,
   });
 });
 
@@ -282,3 +300,243 @@ describe("get_overview", () => {
     expect(mockGetOverview).toHaveBeenCalled();
   });
 });
+
+describe("list_queue_consumers", () => {
+  it("answers who is consuming from a queue", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: "s_1" });
+    mockGetQueueConsumers.mockResolvedValue([
+      {
+        consumer_tag: "amq.ctag-1",
+        channel_details: {
+          name: "10.0.0.7:51234 -> 10.0.0.2:5672 (1)",
+          number: 1,
+          connection_name: "10.0.0.7:51234 -> 10.0.0.2:5672",
+          peer_host: "10.0.0.7",
+          peer_port: 51234,
+        },
+        queue: { name: "orders.dlq", vhost: "/" },
+        ack_required: true,
+        exclusive: false,
+        prefetch_count: 20,
+        arguments: {},
+      },
+    ]);
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "list_queue_consumers",
+      arguments: { serverId: "s_1", vhost: "/", queueName: "orders.dlq" },
+    });
+
+    expect(mockGetQueueConsumers).toHaveBeenCalledWith("orders.dlq", "/");
+    expect(JSON.parse(firstText(result))).toEqual({
+      total: 1,
+      truncated: false,
+      items: [
+        expect.objectContaining({
+          consumerTag: "amq.ctag-1",
+          peerHost: "10.0.0.7",
+          prefetchCount: 20,
+        }),
+      ],
+    });
+  });
+
+  it("hides Qarote-internal queues without opening a client", async () => {
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "list_queue_consumers",
+      arguments: {
+        serverId: "s_1",
+        vhost: "/",
+        queueName: "qarote.trace.v2.s_1./",
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(mockVerifyServerAccess).not.toHaveBeenCalled();
+  });
+});
+
+describe("get_consumer_health", () => {
+  it("names the consumer stuck on a full prefetch", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: "s_1" });
+    mockGetQueueRateSeries.mockResolvedValue([]);
+    mockGetQueueConsumers.mockResolvedValue([
+      {
+        consumer_tag: "amq.ctag-1",
+        channel_details: { name: "ch-1", connection_name: "conn-1" },
+        ack_required: true,
+        prefetch_count: 20,
+      },
+    ]);
+    const getChannelWithTimeRange = vi.fn().mockResolvedValue({
+      name: "ch-1",
+      consumer_count: 1,
+      messages_unacknowledged: 20,
+      message_stats: { deliver: 20 },
+    });
+    mockCreateRabbitMQClientFromServer.mockReturnValue({
+      getQueue: vi.fn().mockResolvedValue({ messages_ready: 500 }),
+      getQueueConsumers: mockGetQueueConsumers,
+      getChannelWithTimeRange,
+    });
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "get_consumer_health",
+      arguments: { serverId: "s_1", vhost: "/", queueName: "orders" },
+    });
+
+    expect(getChannelWithTimeRange).toHaveBeenCalledWith("ch-1", {
+      age: 300,
+      increment: 15,
+    });
+    expect(JSON.parse(firstText(result))).toMatchObject({
+      stuck: 1,
+      starving: true,
+      consumers: [
+        {
+          consumerTag: "amq.ctag-1",
+          status: "stuck",
+          prefetchUtilization: 1,
+        },
+      ],
+    });
+  });
+});
+
+describe("bounded list tools", () => {
+  it("filters, caps at `limit` and reports the total", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: "s_1" });
+    mockGetExchanges.mockResolvedValue(
+      ["orders.x", "orders.retry", "payments.x"].map((name) => ({
+        name,
+        vhost: "/",
+        type: "topic",
+        durable: true,
+        auto_delete: false,
+        internal: false,
+        arguments: {},
+      }))
+    );
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "list_exchanges",
+      arguments: { serverId: "s_1", nameContains: "ORDERS", limit: 1 },
+    });
+
+    const payload = JSON.parse(firstText(result)) as {
+      total: number;
+      truncated: boolean;
+      items: Array<{ name: string }>;
+    };
+    expect(payload.total).toBe(2);
+    expect(payload.truncated).toBe(true);
+    expect(payload.items.map((e) => e.name)).toEqual(["orders.x"]);
+  });
+
+  it("drops bindings to Qarote-internal queues", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: "s_1" });
+    mockGetBindings.mockResolvedValue([
+      {
+        source: "amq.rabbitmq.trace",
+        vhost: "/",
+        destination: "qarote.trace.v2.s_1./",
+        destination_type: "queue",
+        routing_key: "#",
+        arguments: {},
+      },
+      {
+        source: "orders.x",
+        vhost: "/",
+        destination: "orders",
+        destination_type: "queue",
+        routing_key: "order.*",
+        arguments: {},
+      },
+    ]);
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "list_bindings",
+      arguments: { serverId: "s_1", vhost: "/" },
+    });
+
+    const payload = JSON.parse(firstText(result)) as {
+      items: Array<{ destination: string }>;
+    };
+    expect(mockGetBindings).toHaveBeenCalledWith("/");
+    expect(payload.items.map((b) => b.destination)).toEqual(["orders"]);
+  });
+});
+
+describe("get_node_memory", () => {
+  it("returns a structured not-found error for an unknown node", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: "s_1" });
+    mockGetNodes.mockResolvedValue([]);
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "get_node_memory",
+      arguments: { serverId: "s_1", nodeName: "rabbit@missing" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(firstText(result)).toMatch(/node not found/i);
+  });
+});
+
+describe("get_queue_history", () => {
+  it("reads the workspace's stored series and serializes counters", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: "s_1" });
+    mockGetQueueRateSeries.mockResolvedValue([
+      {
+        queueName: "orders",
+        vhost: "/",
+        timestamp: new Date("2026-10-19T10:00:00Z"),
+        publishRate: 12.5,
+        consumeRate: 0,
+        messages: 420n,
+        messagesReady: 400n,
+        messagesUnack: 20n,
+        consumerCount: 0,
+      },
+    ]);
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "get_queue_history",
+      arguments: { serverId: "s_1", vhost: "/", queueName: "orders" },
+    });
+
+    expect(mockGetQueueRateSeries).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workspaceId: "ws_1",
+        serverId: "s_1",
+        queueName: "orders",
+        vhost: "/",
+        resolution: "raw",
+      })
+    );
+    const payload = JSON.parse(firstText(result)) as {
+      samples: Array<{ messagesReady: number }>;
+    };
+    expect(payload.samples[0].messagesReady).toBe(400);
+  });
+
+  it("returns a structured not-found error for a cross-workspace serverId", async () => {
+    mockVerifyServerAccess.mockResolvedValue(null);
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: "get_queue_history",
+      arguments: { serverId: "s_other", vhost: "/", queueName: "orders" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(mockGetQueueRateSeries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Contract tests for the MCP write tools. What the agent relies on:
+ *
+ * - registration: a tool appears only when the key was granted its
+ *   permission;
+ * - two-step execution: the first call is a dry run that returns a plan
+ *   and a token, only a matching token executes, and only once;
+ * - the live floor: the creator's current role and the key's scopes are
+ *   re-checked on every call;
+ * - executions are audited as `mcp_agent` with the key as actor.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockMemberFindFirst,
+  mockLoadPermissions,
+  mockVerifyServerAccess,
+  mockGetQueue,
+  mockGetQueues,
+  mockPurgeQueue,
+  mockGetPolicies,
+  mockCreateOrUpdatePolicy,
+  mockPublishMessage,
+  mockUserFindUnique,
+  mockGetQueuePause,
+  mockRequestQueuePause,
+  mockRecordAuditLog,
+  mockTokenUseCreate,
+  mockTokenUseDeleteMany,
+} = vi.hoisted(() => ({
+  mockMemberFindFirst: vi.fn(),
+  mockLoadPermissions: vi.fn(),
+  mockVerifyServerAccess: vi.fn(),
+  mockGetQueue: vi.fn(),
+  mockGetQueues: vi.fn(),
+  mockPurgeQueue: vi.fn(),
+  mockGetPolicies: vi.fn(),
+  mockCreateOrUpdatePolicy: vi.fn(),
+  mockPublishMessage: vi.fn(),
+  mockUserFindUnique: vi.fn(),
+  mockGetQueuePause: vi.fn(),
+  mockRequestQueuePause: vi.fn(),
+  mockRecordAuditLog: vi.fn(),
+  mockTokenUseCreate: vi.fn(),
+  mockTokenUseDeleteMany: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    workspaceMember: { findFirst: mockMemberFindFirst },
+    user: { findUnique: mockUserFindUnique },
+    mcpConfirmTokenUse: {
+      create: mockTokenUseCreate,
+      deleteMany: mockTokenUseDeleteMany,
+    },
+  },
+}));
+
+vi.mock("@/auth/effective-permissions", () => ({
+  loadEffectivePermissions: mockLoadPermissions,
+}));
+
+vi.mock("@/trpc/routers/rabbitmq/shared", () => ({
+  verifyServerAccess: mockVerifyServerAccess,
+  createRabbitMQClientFromServer: () => ({
+    getQueue: mockGetQueue,
+    getQueues: mockGetQueues,
+    purgeQueue: mockPurgeQueue,
+    getPolicies: mockGetPolicies,
+    createOrUpdatePolicy: mockCreateOrUpdatePolicy,
+    publishMessage: mockPublishMessage,
+  }),
+}));
+
+vi.mock("@/services/queue-pause", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/queue-pause")>()),
+  getQueuePause: mockGetQueuePause,
+  requestQueuePause: mockRequestQueuePause,
+}));
+
+vi.mock("@/services/audit", () => ({
+  recordAuditLog: mockRecordAuditLog,
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { ApiKeyAuth } from "@/auth/resolve-api-key";
+import { registerBrokerWriteTools } from "@/mcp/broker-write-tools";
+
+const SERVER = { id: "s_1", vhost: "/", environment: "prod" };
+
+function writeAuth(
+  permissions: string[],
+  scopes: ApiKeyAuth["scope"]["scopes"] = []
+): ApiKeyAuth {
+  return {
+    userId: "u_1",
+    apiKeyId: "k_1",
+    scope: { workspaceId: "ws_1", mode: "write", permissions, scopes, v: 1 },
+  };
+}
+
+async function connect(auth: ApiKeyAuth): Promise<Client> {
+  const server = new McpServer({ name: "qarote-test", version: "1.0.0" });
+  registerBrokerWriteTools(server, auth);
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+function firstText(result: unknown): string {
+  const { content } = result as {
+    content: Array<{ type: string; text: string }>;
+  };
+  return content[0].text;
+}
+
+const PURGE_ARGS = { serverId: "s_1", vhost: "/", queueName: "orders" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockTokenUseCreate.mockResolvedValue({});
+  mockTokenUseDeleteMany.mockResolvedValue({ count: 0 });
+  mockMemberFindFirst.mockResolvedValue({ id: "m_1" });
+  mockLoadPermissions.mockResolvedValue({
+    kind: "builtin",
+    role: "ADMIN",
+    permissions: new Set([
+      "queue:purge",
+      "queue:pause",
+      "message:publish",
+      "policy:write",
+    ]),
+  });
+  mockVerifyServerAccess.mockResolvedValue(SERVER);
+  mockGetQueue.mockResolvedValue({
+    name: "orders",
+    messages: 12,
+    messages_ready: 10,
+    messages_unacknowledged: 2,
+    consumers: 1,
+  });
+});
+
+describe("registration", () => {
+  it("registers only the tools the key was granted", async () => {
+    const client = await connect(writeAuth(["queue:purge", "policy:write"]));
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name).sort()).toEqual([
+      "purge_queue",
+      "set_policy",
+    ]);
+  });
+
+  it("registers pause and resume together under queue:pause", async () => {
+    const client = await connect(writeAuth(["queue:pause"]));
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name).sort()).toEqual([
+      "pause_queue",
+      "resume_queue",
+    ]);
+  });
+});
+
+describe("plan → confirm → execute", () => {
+  it("plans without touching the broker state, then executes with the token", async () => {
+    const client = await connect(writeAuth(["queue:purge"]));
+
+    const planned = await client.callTool({
+      name: "purge_queue",
+      arguments: PURGE_ARGS,
+    });
+    const plan = JSON.parse(firstText(planned)) as {
+      dryRun: boolean;
+      plan: { before: { messagesReady: number } };
+      confirmToken: string;
+    };
+    expect(plan.dryRun).toBe(true);
+    expect(plan.plan.before.messagesReady).toBe(10);
+    expect(mockPurgeQueue).not.toHaveBeenCalled();
+    expect(mockRecordAuditLog).not.toHaveBeenCalled();
+
+    const executed = await client.callTool({
+      name: "purge_queue",
+      arguments: { ...PURGE_ARGS, confirmToken: plan.confirmToken },
+    });
+    expect(executed.isError).toBeUndefined();
+    expect(mockPurgeQueue).toHaveBeenCalledWith("orders", "/");
+    expect(mockRecordAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: "mcp_agent",
+        action: "rabbitmq.queue.purged",
+        actorId: "u_1",
+        apiKeyId: "k_1",
+        workspaceId: "ws_1",
+        serverId: "s_1",
+        metadata: { tool: "purge_queue" },
+      })
+    );
+  });
+
+  it("refuses to execute the same token twice", async () => {
+    const client = await connect(writeAuth(["queue:purge"]));
+    const planned = await client.callTool({
+      name: "purge_queue",
+      arguments: PURGE_ARGS,
+    });
+    const { confirmToken } = JSON.parse(firstText(planned)) as {
+      confirmToken: string;
+    };
+
+    const first = await client.callTool({
+      name: "purge_queue",
+      arguments: { ...PURGE_ARGS, confirmToken },
+    });
+    expect(first.isError).toBeUndefined();
+    mockTokenUseCreate.mockRejectedValueOnce(
+      Object.assign(new Error("Unique constraint failed"), { code: "P2002" })
+    );
+
+    const replayed = await client.callTool({
+      name: "purge_queue",
+      arguments: { ...PURGE_ARGS, confirmToken },
+    });
+    expect(replayed.isError).toBe(true);
+    expect(firstText(replayed)).toMatch(/already used/i);
+    expect(mockPurgeQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses a token planned for different arguments", async () => {
+    const client = await connect(writeAuth(["queue:purge"]));
+    const planned = await client.callTool({
+      name: "purge_queue",
+      arguments: PURGE_ARGS,
+    });
+    const { confirmToken } = JSON.parse(firstText(planned)) as {
+      confirmToken: string;
+    };
+
+    const result = await client.callTool({
+      name: "purge_queue",
+      arguments: { ...PURGE_ARGS, queueName: "payments", confirmToken },
+    });
+    expect(result.isError).toBe(true);
+    expect(firstText(result)).toMatch(/does not match/i);
+    expect(mockPurgeQueue).not.toHaveBeenCalled();
+  });
+
+  it("hides Qarote-internal queues", async () => {
+    const client = await connect(writeAuth(["queue:purge"]));
+    const result = await client.callTool({
+      name: "purge_queue",
+      arguments: { ...PURGE_ARGS, queueName: "qarote.trace.s_1" },
+    });
+    expect(result.isError).toBe(true);
+    expect(firstText(result)).toMatch(/queue not found/i);
+    expect(mockVerifyServerAccess).not.toHaveBeenCalled();
+  });
+
+  it("records the pause in the given vhost for the worker and audits it", async () => {
+    mockGetQueuePause.mockResolvedValue(null);
+    mockUserFindUnique.mockResolvedValue({ email: "oncall@example.com" });
+    mockRequestQueuePause.mockResolvedValue({
+      id: "p_1",
+      serverId: "s_1",
+      vhost: "billing",
+      queueName: "orders",
+      status: "PAUSED",
+      reason: "deploy",
+      pausedById: "u_1",
+      pausedByEmail: "oncall@example.com",
+      pausedAt: new Date("2026-10-19T10:00:00Z"),
+      pausedUntil: new Date("2099-01-01T00:00:00Z"),
+      resumedById: null,
+      resumedAt: null,
+      resumeTrigger: null,
+      consumerTag: null,
+      appliedAt: null,
+      lastError: null,
+    });
+    const client = await connect(writeAuth(["queue:pause"]));
+    const args = {
+      serverId: "s_1",
+      vhost: "billing",
+      queueName: "orders",
+      reason: "deploy",
+      pausedUntil: "2099-01-01T00:00:00Z",
+    };
+
+    const planned = await client.callTool({
+      name: "pause_queue",
+      arguments: args,
+    });
+    const { confirmToken } = JSON.parse(firstText(planned)) as {
+      confirmToken: string;
+    };
+    const executed = await client.callTool({
+      name: "pause_queue",
+      arguments: { ...args, confirmToken },
+    });
+
+    expect(mockGetQueue).toHaveBeenCalledWith("orders", "billing");
+    expect(JSON.parse(firstText(planned))).toMatchObject({
+      plan: { vhost: "billing" },
+    });
+    expect(mockRequestQueuePause).toHaveBeenCalledWith(
+      { serverId: "s_1", vhost: "billing", queueName: "orders" },
+      { id: "u_1", email: "oncall@example.com" },
+      { reason: "deploy", pausedUntil: new Date("2099-01-01T00:00:00Z") }
+    );
+    expect(JSON.parse(firstText(executed))).toMatchObject({
+      executed: true,
+      isPaused: true,
+      reason: "deploy",
+    });
+    expect(mockRecordAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "rabbitmq.queue.paused",
+        entityLabel: "orders@billing",
+      })
+    );
+  });
+
+  it("rejects a pausedUntil in the past before planning", async () => {
+    const client = await connect(writeAuth(["queue:pause"]));
+
+    const result = await client.callTool({
+      name: "pause_queue",
+      arguments: {
+        serverId: "s_1",
+        vhost: "/",
+        queueName: "orders",
+        pausedUntil: "2000-01-01T00:00:00Z",
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(mockVerifyServerAccess).not.toHaveBeenCalled();
+  });
+
+  it("diffs a policy update against the current definition", async () => {
+    mockGetPolicies.mockResolvedValue([
+      {
+        name: "ttl",
+        vhost: "/",
+        pattern: "^orders",
+        "apply-to": "queues",
+        definition: { "message-ttl": 1000 },
+        priority: 0,
+      },
+    ]);
+    mockGetQueues.mockResolvedValue([
+      { name: "orders" },
+      { name: "orders.retry" },
+      { name: "payments" },
+    ]);
+    const client = await connect(writeAuth(["policy:write"]));
+
+    const planned = await client.callTool({
+      name: "set_policy",
+      arguments: {
+        serverId: "s_1",
+        vhost: "/",
+        name: "ttl",
+        pattern: "^orders",
+        applyTo: "queues",
+        definition: { "message-ttl": 5000 },
+      },
+    });
+    const { plan } = JSON.parse(firstText(planned)) as {
+      plan: {
+        action: string;
+        changed: string[];
+        matchingQueues: { count: number; names: string[] };
+      };
+    };
+
+    expect(plan.action).toBe("update");
+    expect(plan.changed).toEqual(["definition"]);
+    expect(plan.matchingQueues).toEqual({
+      count: 2,
+      names: ["orders", "orders.retry"],
+    });
+    expect(mockCreateOrUpdatePolicy).not.toHaveBeenCalled();
+  });
+});
+
+describe("live authorization floor", () => {
+  it("refuses when the creator no longer holds the permission", async () => {
+    mockLoadPermissions.mockResolvedValue({
+      kind: "builtin",
+      role: "READONLY",
+      permissions: new Set(["queue:read"]),
+    });
+    const client = await connect(writeAuth(["queue:purge"]));
+
+    const result = await client.callTool({
+      name: "purge_queue",
+      arguments: PURGE_ARGS,
+    });
+    expect(result.isError).toBe(true);
+    expect(firstText(result)).toMatch(/no longer holds the queue:purge/i);
+    expect(mockGetQueue).not.toHaveBeenCalled();
+  });
+
+  it("refuses a server outside the key's environment scope", async () => {
+    const client = await connect(
+      writeAuth(
+        ["queue:purge"],
+        [{ kind: "server.environment", values: ["staging"] }]
+      )
+    );
+
+    const result = await client.callTool({
+      name: "purge_queue",
+      arguments: PURGE_ARGS,
+    });
+    expect(result.isError).toBe(true);
+    expect(firstText(result)).toMatch(/outside the API key's scope/i);
+    expect(mockGetQueue).not.toHaveBeenCalled();
+  });
+
+  it("returns a structured not-found error for a cross-workspace server", async () => {
+    mockVerifyServerAccess.mockResolvedValue(null);
+    const client = await connect(writeAuth(["queue:purge"]));
+
+    const result = await client.callTool({
+      name: "purge_queue",
+      arguments: PURGE_ARGS,
+    });
+    expect(result.isError).toBe(true);
+    expect(firstText(result)).toMatch(/server not found/i);
+  });
+});
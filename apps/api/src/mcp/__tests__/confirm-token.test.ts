@@ -0,0 +1,188 @@
+/**
+ * The confirm token is the only thing standing between an agent's plan and
+ * its execution: it must bind the key, the tool and the exact arguments,
+ * expire, reject any tampering, and execute at most once.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockTokenUseCreate, mockTokenUseDeleteMany } = vi.hoisted(() => ({
+  mockTokenUseCreate: vi.fn(),
+  mockTokenUseDeleteMany: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    mcpConfirmTokenUse: {
+      create: mockTokenUseCreate,
+      deleteMany: mockTokenUseDeleteMany,
+    },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { warn: vi.fn() },
+}));
+
+import {
+  CONFIRM_TOKEN_TTL_MS,
+  consumeConfirmToken,
+  issueConfirmToken,
+  verifyConfirmToken,
+} from "@/mcp/confirm-token";
+
+const ARGS = { serverId: "s_1", vhost: "/", queueName: "orders" };
+const NOW = 1_700_000_000_000;
+
+describe("confirm tokens", () => {
+  it("verifies for the same key, tool and arguments", () => {
+    const { token, expiresAt } = issueConfirmToken(
+      "k_1",
+      "purge_queue",
+      ARGS,
+      NOW
+    );
+    expect(expiresAt.getTime()).toBe(NOW + CONFIRM_TOKEN_TTL_MS);
+    expect(verifyConfirmToken(token, "k_1", "purge_queue", ARGS, NOW)).toEqual({
+      ok: true,
+      jti: expect.any(String),
+      expiresAt: new Date(NOW + CONFIRM_TOKEN_TTL_MS),
+    });
+  });
+
+  it("ignores argument key order, including nested objects", () => {
+    const { token } = issueConfirmToken(
+      "k_1",
+      "set_policy",
+      { vhost: "/", definition: { "max-length": 10, "message-ttl": 5 } },
+      NOW
+    );
+    expect(
+      verifyConfirmToken(
+        token,
+        "k_1",
+        "set_policy",
+        { definition: { "message-ttl": 5, "max-length": 10 }, vhost: "/" },
+        NOW
+      ).ok
+    ).toBe(true);
+  });
+
+  it.each([
+    ["another key", "k_2", "purge_queue", ARGS],
+    ["another tool", "k_1", "pause_queue", ARGS],
+    ["other arguments", "k_1", "purge_queue", { ...ARGS, queueName: "x" }],
+  ])("rejects %s as a mismatch", (_label, key, tool, args) => {
+    const { token } = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    expect(verifyConfirmToken(token, key, tool, args, NOW)).toEqual({
+      ok: false,
+      reason: "mismatch",
+    });
+  });
+
+  it("expires after the TTL", () => {
+    const { token } = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    expect(
+      verifyConfirmToken(
+        token,
+        "k_1",
+        "purge_queue",
+        ARGS,
+        NOW + CONFIRM_TOKEN_TTL_MS
+      )
+    ).toEqual({ ok: false, reason: "expired" });
+  });
+
+  it("rejects a re-signed or forged payload", () => {
+    const { token } = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    const [payload, signature] = token.split(".");
+    const extended = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(payload, "base64url").toString()),
+        e: NOW + 10 * CONFIRM_TOKEN_TTL_MS,
+      })
+    ).toString("base64url");
+
+    for (const forged of [
+      `${extended}.${signature}`,
+      payload,
+      `${payload}.${signature}.x`,
+      "garbage",
+    ]) {
+      expect(
+        verifyConfirmToken(forged, "k_1", "purge_queue", ARGS, NOW)
+      ).toEqual({ ok: false, reason: "malformed" });
+    }
+  });
+
+  it("gives every token its own id", () => {
+    const first = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    const second = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    expect(first.token).not.toBe(second.token);
+  });
+});
+
+describe("consumeConfirmToken", () => {
+  const spent = new Set<string>();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    spent.clear();
+    mockTokenUseDeleteMany.mockResolvedValue({ count: 0 });
+    // The table's primary key, as Postgres enforces it
+    mockTokenUseCreate.mockImplementation(
+      async ({ data }: { data: { jti: string } }) => {
+        if (spent.has(data.jti)) {
+          throw Object.assign(new Error("Unique constraint failed"), {
+            code: "P2002",
+          });
+        }
+        spent.add(data.jti);
+        return data;
+      }
+    );
+  });
+
+  it("spends a token once and refuses a replay", async () => {
+    const { token } = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    const check = verifyConfirmToken(token, "k_1", "purge_queue", ARGS, NOW);
+    if (!check.ok) throw new Error("expected a valid token");
+
+    await expect(consumeConfirmToken(check, "k_1")).resolves.toBe(true);
+    expect(mockTokenUseCreate).toHaveBeenCalledWith({
+      data: {
+        jti: check.jti,
+        apiKeyId: "k_1",
+        expiresAt: new Date(NOW + CONFIRM_TOKEN_TTL_MS),
+      },
+    });
+
+    // The replay still verifies — only the recorded id stops it
+    const replay = verifyConfirmToken(token, "k_1", "purge_queue", ARGS, NOW);
+    if (!replay.ok) throw new Error("expected a valid token");
+    await expect(consumeConfirmToken(replay, "k_1")).resolves.toBe(false);
+  });
+
+  it("lets only one of two racing executions through", async () => {
+    const { token } = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    const check = verifyConfirmToken(token, "k_1", "purge_queue", ARGS, NOW);
+    if (!check.ok) throw new Error("expected a valid token");
+
+    const results = await Promise.all([
+      consumeConfirmToken(check, "k_1"),
+      consumeConfirmToken(check, "k_1"),
+    ]);
+    expect(results.sort()).toEqual([false, true]);
+  });
+
+  it("propagates database errors other than a duplicate", async () => {
+    mockTokenUseCreate.mockRejectedValueOnce(new Error("connection lost"));
+    const { token } = issueConfirmToken("k_1", "purge_queue", ARGS, NOW);
+    const check = verifyConfirmToken(token, "k_1", "purge_queue", ARGS, NOW);
+    if (!check.ok) throw new Error("expected a valid token");
+
+    await expect(consumeConfirmToken(check, "k_1")).rejects.toThrow(
+      "connection lost"
+    );
+  });
+});
@@ -58,10 +58,20 @@ describe("MCP read tools", () => {
     const client = await connectClient();
     const { tools } = await client.listTools();
     expect(tools.map((t) => t.name).sort()).toEqual([
+      "get_consumer_health",
       "get_incident",
+      "get_node_memory",
       "get_overview",
+      "get_queue_history",
+      "get_vhost_limits",
+      "list_bindings",
+      "list_channels",
       "list_config_findings",
+      "list_connections",
+      "list_exchanges",
       "list_incidents",
+      "list_policies",
+      "list_queue_consumers",
       "list_queues",
       "list_servers",
       "ping",
@@ -140,4 +150,27 @@ describe("MCP read tools", () => {
       })
     );
   });
+
+  it("list_config_findings narrows to open findings and honours the limit", async () => {
+    mockConfigFindMany.mockResolvedValue([]);
+    const client = await connectClient();
+
+    await client.callTool({
+      name: "list_config_findings",
+      arguments: { openOnly: true, severity: "HIGH", vhost: "/", limit: 5 },
+    });
+
+    expect(mockConfigFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          workspaceId: "ws_1",
+          resolvedAt: null,
+          dismissedAt: null,
+          severity: "HIGH",
+          vhost: "/",
+        },
+        take: 5,
+      })
+    );
+  });
 });
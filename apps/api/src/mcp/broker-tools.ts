@@ -1,18 +1,25 @@
 /**
- * Live-broker MCP read tools — `list_servers`, `list_queues`, `get_overview`.
+ * Live-broker MCP read tools — servers, queues, overview, exchanges,
+ * bindings, connections, channels, queue consumers and their health, node
+ * memory, policies, vhost limits and queue history.
  *
  * Unlike the diagnosis tools (which read from the Qarote DB), these proxy
  * straight through to the RabbitMQ Management HTTP API for the workspace's
- * connected servers. Read-only by design — mutations (publish, purge,
- * delete) are deliberately out of scope per PRD §1.3 ("write/purge/delete
- * via agent = footgun, non-goal v1").
+ * connected servers — except `get_queue_history`, which reads the stored
+ * metric series. Read-only: the opt-in mutating tools live in
+ * `broker-write-tools.ts`, registered only for write-scoped keys and gated
+ * behind a dry-run plan and a confirmation token.
  *
  * Workspace scoping is enforced two ways:
  * - `list_servers` queries Prisma with `workspaceId: auth.scope.workspaceId`.
- * - `list_queues` / `get_overview` route their input `serverId` through
+ * - Every other tool routes its input `serverId` through
  *   `verifyServerAccess(serverId, workspaceId)` before opening a broker
  *   client. Cross-workspace ids surface as a structured not-found error.
  *
+ * List tools take a `limit` and report `total` / `truncated` so an agent
+ * on a broker with thousands of objects gets a bounded answer and knows to
+ * narrow its filters. Qarote's own `qarote.trace.*` queues stay hidden.
+ *
  * Credentials never leave the server: the `list_servers` projection
  * omits `username`/`password`/SSL config — the agent gets the metadata
  * it needs to call the other tools, nothing more.
@@ -23,7 +30,18 @@ import { z } from "zod/v4";
 
 import { logger } from "@/core/logger";
 import { prisma } from "@/core/prisma";
-import { excludeInternalQueues } from "@/core/rabbitmq/internal-queues";
+import {
+  excludeInternalQueues,
+  isQaroteInternalQueue,
+} from "@/core/rabbitmq/internal-queues";
+import { describeNodeMemory } from "@/core/rabbitmq/node-memory";
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+
+import {
+  DEFAULT_WINDOW_MINUTES,
+  getQueueConsumerHealth,
+  MAX_WINDOW_MINUTES,
+} from "@/services/consumer-health";
 
 import {
   createRabbitMQClientFromServer,
@@ -31,6 +49,7 @@ import {
 } from "@/trpc/routers/rabbitmq/shared";
 
 import type { ApiKeyAuth } from "@/auth/resolve-api-key";
+import { metricsStore } from "@/stores/metrics";
 
 type ToolResult = {
   content: Array<{ type: "text"; text: string }>;
@@ -50,18 +69,82 @@ function toolError(message: string): ToolResult {
   };
 }
 
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+/** Most recent samples `get_queue_history` returns. */
+const MAX_HISTORY_SAMPLES = 500;
+
+const limitField = z
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_LIMIT)
+  .default(DEFAULT_LIMIT)
+  .describe(`Maximum items to return (1-${MAX_LIMIT}).`);
+
+// Reject blank/whitespace vhost (would otherwise pass `""` to the client
+// and silently match "all vhosts" — masking a typo).
+const vhostField = z.string().trim().min(1);
+
+const nameContainsField = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Case-insensitive substring the name must contain.");
+
+function bounded<T>(items: T[], limit: number) {
+  return {
+    total: items.length,
+    truncated: items.length > limit,
+    items: items.slice(0, limit),
+  };
+}
+
+function containsFilter(needle: string | undefined) {
+  const lowered = needle?.toLowerCase();
+  return (name: string) => !lowered || name.toLowerCase().includes(lowered);
+}
+
 export function registerBrokerReadTools(
   server: McpServer,
   auth: ApiKeyAuth
 ): void {
   const { workspaceId } = auth.scope;
 
+  /**
+   * Resolve the workspace-scoped server, then run one broker read. A
+   * cross-workspace id never opens a client; a broker failure becomes a
+   * typed tool error instead of a transport-level crash.
+   */
+  async function withBroker(
+    tool: string,
+    serverId: string,
+    read: (client: RabbitMQClient) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    const server = await verifyServerAccess(serverId, workspaceId);
+    if (!server) {
+      return toolError("Server not found.");
+    }
+    try {
+      return await read(createRabbitMQClientFromServer(server));
+    } catch (err) {
+      logger.warn(
+        { err, serverId, workspaceId },
+        `mcp.${tool}.broker_unreachable`
+      );
+      return toolError(
+        "Could not reach the broker. Check the server's connection state in Qarote."
+      );
+    }
+  }
+
   server.registerTool(
     "list_servers",
     {
       title: "List RabbitMQ servers",
       description:
-        "List the RabbitMQ servers connected to this workspace. Returns id, name, host, port, vhost, version, environment — never credentials. The returned ids feed `list_queues` and `get_overview`.",
+        "List the RabbitMQ servers connected to this workspace. Returns id, name, host, port, vhost, version, environment — never credentials. The returned ids feed every other broker tool.",
     },
     async () => {
       const servers = await prisma.rabbitMQServer.findMany({
@@ -89,30 +172,13 @@ export function registerBrokerReadTools(
         "List queues on a workspace-scoped RabbitMQ server. Live read from the Management API — surfaces the current state, message counts, consumer counts. Pass a `vhost` to filter; omit for all vhosts the server exposes.",
       inputSchema: {
         serverId: z.string().min(1),
-        // Reject blank/whitespace vhost (would otherwise pass `""` to
-        // getQueues and silently match "all vhosts" — masking a typo).
-        vhost: z.string().trim().min(1).optional(),
+        vhost: vhostField.optional(),
       },
     },
-    async ({ serverId, vhost }) => {
-      const server = await verifyServerAccess(serverId, workspaceId);
-      if (!server) {
-        return toolError("Server not found.");
-      }
-      try {
-        const client = createRabbitMQClientFromServer(server);
-        const queues = excludeInternalQueues(await client.getQueues(vhost));
-        return toolOk(queues);
-      } catch (err) {
-        logger.warn(
-          { err, serverId, workspaceId },
-          "mcp.list_queues.broker_unreachable"
-        );
-        return toolError(
-          "Could not reach the broker. Check the server's connection state in Qarote."
-        );
-      }
-    }
+    async ({ serverId, vhost }) =>
+      withBroker("list_queues", serverId, async (client) =>
+        toolOk(excludeInternalQueues(await client.getQueues(vhost)))
+      )
   );
 
   server.registerTool(
@@ -123,23 +189,364 @@ export function registerBrokerReadTools(
         "Fetch the RabbitMQ broker overview: version, cluster name, message rates, queue totals, node counts. Live Management API read.",
       inputSchema: { serverId: z.string().min(1) },
     },
-    async ({ serverId }) => {
+    async ({ serverId }) =>
+      withBroker("get_overview", serverId, async (client) =>
+        toolOk(await client.getOverview())
+      )
+  );
+
+  server.registerTool(
+    "list_exchanges",
+    {
+      title: "List exchanges",
+      description:
+        "List exchanges with type, durability, arguments and publish rates. Filter by vhost, exchange type or a name substring.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField.optional(),
+        type: z.string().min(1).optional(),
+        nameContains: nameContainsField,
+        limit: limitField,
+      },
+    },
+    async ({ serverId, vhost, type, nameContains, limit }) =>
+      withBroker("list_exchanges", serverId, async (client) => {
+        const matchesName = containsFilter(nameContains);
+        const exchanges = (await client.getExchanges(vhost))
+          .filter((e) => (!type || e.type === type) && matchesName(e.name))
+          .map((e) => ({
+            name: e.name,
+            vhost: e.vhost,
+            type: e.type,
+            durable: e.durable,
+            autoDelete: e.auto_delete,
+            internal: e.internal,
+            arguments: e.arguments,
+            publishInRate: e.message_stats?.publish_in_details?.rate ?? null,
+            publishOutRate: e.message_stats?.publish_out_details?.rate ?? null,
+          }));
+        return toolOk(bounded(exchanges, limit));
+      })
+  );
+
+  server.registerTool(
+    "list_bindings",
+    {
+      title: "List bindings",
+      description:
+        "List bindings (source exchange → destination queue or exchange, with routing key and arguments). Filter by vhost, source exchange, destination name or destination type. The default exchange's implicit bindings are listed with an empty source.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField.optional(),
+        source: z.string().optional(),
+        destination: z.string().min(1).optional(),
+        destinationType: z.enum(["queue", "exchange"]).optional(),
+        limit: limitField,
+      },
+    },
+    async ({ serverId, vhost, source, destination, destinationType, limit }) =>
+      withBroker("list_bindings", serverId, async (client) => {
+        const bindings = (await client.getBindings(vhost))
+          .filter(
+            (b) =>
+              !(
+                b.destination_type === "queue" &&
+                isQaroteInternalQueue(b.destination)
+              ) &&
+              (source === undefined || b.source === source) &&
+              (!destination || b.destination === destination) &&
+              (!destinationType || b.destination_type === destinationType)
+          )
+          .map((b) => ({
+            source: b.source,
+            vhost: b.vhost,
+            destination: b.destination,
+            destinationType: b.destination_type,
+            routingKey: b.routing_key,
+            arguments: b.arguments,
+          }));
+        return toolOk(bounded(bindings, limit));
+      })
+  );
+
+  server.registerTool(
+    "list_connections",
+    {
+      title: "List connections",
+      description:
+        "List client connections with user, vhost, node, protocol, state, channel count and peer address. Filter by vhost, user or a name substring.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField.optional(),
+        user: z.string().min(1).optional(),
+        nameContains: nameContainsField,
+        limit: limitField,
+      },
+    },
+    async ({ serverId, vhost, user, nameContains, limit }) =>
+      withBroker("list_connections", serverId, async (client) => {
+        const matchesName = containsFilter(nameContains);
+        const connections = (await client.getConnections())
+          .filter(
+            (c) =>
+              (!vhost || c.vhost === vhost) &&
+              (!user || c.user === user) &&
+              matchesName(c.name)
+          )
+          .map((c) => ({
+            name: c.name,
+            user: c.user,
+            vhost: c.vhost,
+            node: c.node,
+            protocol: c.protocol,
+            state: c.state,
+            channels: c.channels,
+            peerHost: c.peer_host ?? null,
+            peerPort: c.peer_port ?? null,
+            connectedAt: c.connected_at
+              ? new Date(c.connected_at).toISOString()
+              : null,
+          }));
+        return toolOk(bounded(connections, limit));
+      })
+  );
+
+  server.registerTool(
+    "list_channels",
+    {
+      title: "List channels",
+      description:
+        "List channels with their connection, consumer count, prefetch, unacknowledged and unconfirmed messages, and publish / deliver / ack rates. Filter by vhost or by connection name.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField.optional(),
+        connectionName: z.string().min(1).optional(),
+        limit: limitField,
+      },
+    },
+    async ({ serverId, vhost, connectionName, limit }) =>
+      withBroker("list_channels", serverId, async (client) => {
+        const channels = (await client.getChannels())
+          .filter(
+            (ch) =>
+              (!vhost || ch.vhost === vhost) &&
+              (!connectionName ||
+                ch.connection_details?.name === connectionName)
+          )
+          .map((ch) => ({
+            name: ch.name,
+            connectionName: ch.connection_details?.name ?? null,
+            user: ch.user,
+            vhost: ch.vhost,
+            state: ch.state,
+            consumers: ch.consumer_count,
+            prefetchCount: ch.prefetch_count,
+            messagesUnacknowledged: ch.messages_unacknowledged,
+            messagesUnconfirmed: ch.messages_unconfirmed,
+            publishRate: ch.message_stats?.publish_details?.rate ?? null,
+            deliverRate: ch.message_stats?.deliver_details?.rate ?? null,
+            ackRate: ch.message_stats?.ack_details?.rate ?? null,
+          }));
+        return toolOk(bounded(channels, limit));
+      })
+  );
+
+  server.registerTool(
+    "list_queue_consumers",
+    {
+      title: "List queue consumers",
+      description:
+        "Who is consuming from a queue: consumer tag, connection name, peer address, channel, prefetch, ack mode and exclusivity.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField,
+        queueName: z.string().min(1),
+        limit: limitField,
+      },
+    },
+    async ({ serverId, vhost, queueName, limit }) => {
+      if (isQaroteInternalQueue(queueName)) {
+        return toolError("Queue not found.");
+      }
+      return withBroker("list_queue_consumers", serverId, async (client) => {
+        const consumers = (
+          await client.getQueueConsumers(queueName, vhost)
+        ).map((c) => ({
+          consumerTag: c.consumer_tag,
+          connectionName: c.channel_details?.connection_name ?? null,
+          channel: c.channel_details?.name ?? null,
+          peerHost: c.channel_details?.peer_host ?? null,
+          peerPort: c.channel_details?.peer_port ?? null,
+          prefetchCount: c.prefetch_count,
+          ackRequired: c.ack_required,
+          exclusive: c.exclusive,
+          arguments: c.arguments,
+        }));
+        return toolOk(bounded(consumers, limit));
+      });
+    }
+  );
+
+  server.registerTool(
+    "get_consumer_health",
+    {
+      title: "Get consumer health",
+      description:
+        "Which consumer is starving a queue: per consumer, prefetch utilization, unacked count and how long it has gone without an ack, ack rate, and a status — 'stuck' means a full prefetch and no ack over the window. Includes the stored consumer-count trend when Qarote collects metrics for the server.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField,
+        queueName: z.string().min(1),
+        windowMinutes: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_WINDOW_MINUTES)
+          .default(DEFAULT_WINDOW_MINUTES),
+      },
+    },
+    async ({ serverId, vhost, queueName, windowMinutes }) => {
+      if (isQaroteInternalQueue(queueName)) {
+        return toolError("Queue not found.");
+      }
+      return withBroker("get_consumer_health", serverId, async (client) => {
+        return toolOk(
+          await getQueueConsumerHealth(client, {
+            workspaceId,
+            serverId,
+            queueName,
+            vhost,
+            windowMinutes,
+          })
+        );
+      });
+    }
+  );
+
+  server.registerTool(
+    "get_node_memory",
+    {
+      title: "Get node memory",
+      description:
+        "Memory breakdown for cluster nodes: usage against the high watermark, alarms, file descriptor / socket / process usage, I/O counters, rate trends and tuning suggestions. Pass `nodeName` for one node; omit for every node.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        nodeName: z.string().min(1).optional(),
+      },
+    },
+    async ({ serverId, nodeName }) =>
+      withBroker("get_node_memory", serverId, async (client) => {
+        const nodes = (await client.getNodes()).filter(
+          (n) => !nodeName || n.name === nodeName
+        );
+        if (nodeName && nodes.length === 0) {
+          return toolError("Node not found.");
+        }
+        return toolOk(nodes.map((n) => describeNodeMemory(n).node));
+      })
+  );
+
+  server.registerTool(
+    "list_policies",
+    {
+      title: "List policies",
+      description:
+        "List policies with pattern, apply-to, priority and definition (TTL, max-length, dead-lettering, queue type settings). Filter by vhost or a name substring.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField.optional(),
+        nameContains: nameContainsField,
+        limit: limitField,
+      },
+    },
+    async ({ serverId, vhost, nameContains, limit }) =>
+      withBroker("list_policies", serverId, async (client) => {
+        const matchesName = containsFilter(nameContains);
+        const policies = (await client.getPolicies(vhost)).filter((p) =>
+          matchesName(p.name)
+        );
+        return toolOk(bounded(policies, limit));
+      })
+  );
+
+  server.registerTool(
+    "get_vhost_limits",
+    {
+      title: "Get vhost limits",
+      description:
+        "Fetch the limits configured on a vhost (max connections, max queues). An empty result means the vhost is unlimited.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField,
+      },
+    },
+    async ({ serverId, vhost }) =>
+      withBroker("get_vhost_limits", serverId, async (client) =>
+        toolOk(await client.getVHostLimits(vhost))
+      )
+  );
+
+  server.registerTool(
+    "get_queue_history",
+    {
+      title: "Get queue history",
+      description:
+        "Stored time series for one queue: publish and consume rates, depth (ready / unacknowledged) and consumer count per bucket. Answers 'when did this backlog start'. Empty when Qarote has not collected metrics for the server.",
+      inputSchema: {
+        serverId: z.string().min(1),
+        vhost: vhostField,
+        queueName: z.string().min(1),
+        windowMinutes: z
+          .number()
+          .int()
+          .min(5)
+          .max(24 * 60)
+          .default(60),
+        resolution: z.enum(["raw", "coarse"]).default("raw"),
+      },
+    },
+    async ({ serverId, vhost, queueName, windowMinutes, resolution }) => {
+      if (isQaroteInternalQueue(queueName)) {
+        return toolError("Queue not found.");
+      }
       const server = await verifyServerAccess(serverId, workspaceId);
       if (!server) {
         return toolError("Server not found.");
       }
       try {
-        const client = createRabbitMQClientFromServer(server);
-        const overview = await client.getOverview();
-        return toolOk(overview);
+        const series = await metricsStore.getQueueRateSeries({
+          workspaceId,
+          serverId,
+          since: new Date(Date.now() - windowMinutes * 60_000),
+          resolution,
+          queueName,
+          vhost,
+        });
+        // Keep the most recent samples — the tail is what an incident is about.
+        const samples = series.slice(-MAX_HISTORY_SAMPLES).map((s) => ({
+          timestamp: s.timestamp.toISOString(),
+          publishRate: s.publishRate,
+          consumeRate: s.consumeRate,
+          messages: Number(s.messages),
+          messagesReady: Number(s.messagesReady),
+          messagesUnacknowledged: Number(s.messagesUnack),
+          consumers: s.consumerCount,
+        }));
+        return toolOk({
+          queueName,
+          vhost,
+          windowMinutes,
+          resolution,
+          total: series.length,
+          truncated: series.length > MAX_HISTORY_SAMPLES,
+          samples,
+        });
       } catch (err) {
         logger.warn(
           { err, serverId, workspaceId },
-          "mcp.get_overview.broker_unreachable"
-        );
-        return toolError(
-          "Could not reach the broker. Check the server's connection state in Qarote."
+          "mcp.get_queue_history.store_failed"
         );
+        return toolError("Could not load the queue's metric history.");
       }
     }
   );
@@ -0,0 +1,684 @@
+/**
+ * Live-broker MCP write tools — `purge_queue`, `pause_queue`,
+ * `resume_queue`, `publish_test_message`, `set_policy`.
+ *
+ * Opt-in remediation for on-call agents. `buildMcpServer` only calls
+ * `registerBrokerWriteTools` for `write` keys, and each tool is registered
+ * only when the key's grant list holds its permission — a key that can't
+ * purge never sees `purge_queue` in `tools/list`.
+ *
+ * Every tool is two-step:
+ * 1. Called without `confirmToken`, it reads the broker and returns a
+ *    dry-run plan (what will change, before → after) plus a short-lived
+ *    token bound to the key, the tool and the exact arguments.
+ * 2. Called again with the same arguments and that token, it executes.
+ *    A token executes once; running the plan again needs a new one.
+ *
+ * At call time the key's creator must still hold the permission (and, for
+ * a custom role, its scope must admit the server), and the key's own
+ * server / environment scopes must admit it too — the same floor
+ * `workspacePermissionProcedure` applies to write keys over tRPC.
+ * Executions are audited with `source: mcp_agent` and the key as actor.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import { isQaroteInternalQueue } from "@/core/rabbitmq/internal-queues";
+import type { MessageProperties } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { recordAuditLog } from "@/services/audit";
+import {
+  getQueuePause,
+  type PauseActor,
+  QueuePauseError,
+  requestQueuePause,
+  requestQueueResume,
+  serializeQueuePause,
+} from "@/services/queue-pause";
+
+import {
+  createRabbitMQClientFromServer,
+  verifyServerAccess,
+} from "@/trpc/routers/rabbitmq/shared";
+
+import {
+  consumeConfirmToken,
+  issueConfirmToken,
+  verifyConfirmToken,
+} from "./confirm-token";
+
+import { apiKeyScopeRows } from "@/auth/api-key-scope";
+import { loadEffectivePermissions } from "@/auth/effective-permissions";
+import type { WorkspacePermission } from "@/auth/permissions";
+import type { ApiKeyAuth } from "@/auth/resolve-api-key";
+import { evaluateScope } from "@/auth/scope-evaluator";
+import {
+  AuditSource,
+  type Prisma,
+  QueuePauseStatus,
+  type RabbitMQServer,
+} from "@/generated/prisma/client";
+
+type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: true;
+};
+
+function toolOk(payload: unknown): ToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+  };
+}
+
+function toolError(message: string): ToolResult {
+  return {
+    content: [{ type: "text", text: message }],
+    isError: true,
+  };
+}
+
+/** Largest payload `publish_test_message` accepts — a probe, not a bulk load. */
+const MAX_TEST_PAYLOAD_LENGTH = 64 * 1024;
+
+/** Queue names `set_policy` lists in its plan before truncating. */
+const MAX_PLAN_MATCHES = 50;
+
+const CONFIRM_ERRORS = {
+  malformed: "Invalid confirmToken. Call the tool without one to get a plan.",
+  mismatch:
+    "confirmToken does not match these arguments. Call the tool without a token to plan the new arguments.",
+  expired: "confirmToken expired. Call the tool without one to re-plan.",
+  used: "confirmToken was already used. Call the tool without one to re-plan.",
+} as const;
+
+interface AuditTarget {
+  action: string;
+  entityType: string;
+  entityId: string;
+  entityLabel: string;
+  vhost: string;
+  metadata?: Record<string, Prisma.InputJsonValue>;
+}
+
+interface WriteStep {
+  /** Reads the broker and describes what executing would change. */
+  plan: (server: RabbitMQServer) => Promise<Record<string, unknown>>;
+  /** Performs the change; the return value is reported to the agent. */
+  execute: (server: RabbitMQServer) => Promise<Record<string, unknown>>;
+  audit: (server: RabbitMQServer) => AuditTarget;
+}
+
+/**
+ * Re-resolve what the key may do right now. Returns the server on success,
+ * or the message to hand back to the agent.
+ */
+async function authorize(
+  auth: ApiKeyAuth,
+  tool: string,
+  permission: WorkspacePermission,
+  serverId: string
+): Promise<{ server: RabbitMQServer } | { error: string }> {
+  const { workspaceId } = auth.scope;
+
+  const member = await prisma.workspaceMember.findFirst({
+    where: { userId: auth.userId, workspaceId },
+    select: { id: true },
+  });
+  const effective = member ? await loadEffectivePermissions(member.id) : null;
+  if (!effective?.permissions.has(permission)) {
+    logger.warn(
+      { apiKeyId: auth.apiKeyId, workspaceId, permission },
+      `mcp.${tool}.creator_permission_missing`
+    );
+    return {
+      error: `The key's creator no longer holds the ${permission} permission.`,
+    };
+  }
+
+  const server = await verifyServerAccess(serverId, workspaceId);
+  if (!server) {
+    return { error: "Server not found." };
+  }
+
+  const resourceCtx = {
+    serverId: server.id,
+    serverEnvironment: server.environment ?? undefined,
+  };
+  const creatorAdmits =
+    effective.kind !== "custom" ||
+    evaluateScope(
+      effective.scopeRows.filter((row) => row.permissionKey === permission),
+      resourceCtx
+    );
+  if (
+    !creatorAdmits ||
+    !evaluateScope(apiKeyScopeRows(auth.scope), resourceCtx)
+  ) {
+    logger.warn(
+      { apiKeyId: auth.apiKeyId, workspaceId, serverId, permission },
+      `mcp.${tool}.scope_denied`
+    );
+    return { error: "This server is outside the API key's scope." };
+  }
+
+  return { server };
+}
+
+/**
+ * Shared plan → confirm → execute flow. `args` are the tool arguments
+ * without `confirmToken`; they are what the token is bound to.
+ */
+async function planOrExecute(
+  auth: ApiKeyAuth,
+  tool: string,
+  permission: WorkspacePermission,
+  args: { serverId: string } & Record<string, unknown>,
+  confirmToken: string | undefined,
+  step: WriteStep
+): Promise<ToolResult> {
+  const { workspaceId } = auth.scope;
+  const authorized = await authorize(auth, tool, permission, args.serverId);
+  if ("error" in authorized) {
+    return toolError(authorized.error);
+  }
+  const { server } = authorized;
+
+  if (!confirmToken) {
+    let plan: Record<string, unknown>;
+    try {
+      plan = await step.plan(server);
+    } catch (err) {
+      logger.warn(
+        { err, serverId: server.id, workspaceId },
+        `mcp.${tool}.broker_unreachable`
+      );
+      return toolError(
+        "Could not reach the broker. Check the server's connection state in Qarote."
+      );
+    }
+    const { token, expiresAt } = issueConfirmToken(auth.apiKeyId, tool, args);
+    return toolOk({
+      dryRun: true,
+      plan,
+      confirmToken: token,
+      expiresAt: expiresAt.toISOString(),
+      next: `Nothing has changed yet. Call ${tool} again with the same arguments plus this confirmToken to execute.`,
+    });
+  }
+
+  const check = verifyConfirmToken(confirmToken, auth.apiKeyId, tool, args);
+  if (!check.ok) {
+    return toolError(CONFIRM_ERRORS[check.reason]);
+  }
+  // Spent before executing: a replayed token must not run the plan again,
+  // even while the first execution is still in flight
+  if (!(await consumeConfirmToken(check, auth.apiKeyId))) {
+    return toolError(CONFIRM_ERRORS.used);
+  }
+
+  let result: Record<string, unknown>;
+  try {
+    result = await step.execute(server);
+  } catch (err) {
+    if (err instanceof QueuePauseError) {
+      return toolError(err.message);
+    }
+    logger.warn(
+      { err, serverId: server.id, workspaceId, apiKeyId: auth.apiKeyId },
+      `mcp.${tool}.failed`
+    );
+    return toolError(
+      "The broker did not complete the operation. Re-plan to see the current state."
+    );
+  }
+
+  const audit = step.audit(server);
+  void recordAuditLog({
+    actorId: auth.userId,
+    apiKeyId: auth.apiKeyId,
+    source: AuditSource.mcp_agent,
+    action: audit.action,
+    category: "rabbitmq",
+    entityType: audit.entityType,
+    entityId: audit.entityId,
+    entityLabel: audit.entityLabel,
+    serverId: server.id,
+    vhost: audit.vhost,
+    workspaceId,
+    metadata: { tool, ...audit.metadata },
+  });
+
+  return toolOk({ executed: true, ...result });
+}
+
+function queueSnapshot(queue: {
+  messages: number;
+  messages_ready: number;
+  messages_unacknowledged: number;
+  consumers: number;
+}) {
+  return {
+    messages: queue.messages,
+    messagesReady: queue.messages_ready,
+    messagesUnacknowledged: queue.messages_unacknowledged,
+    consumers: queue.consumers,
+  };
+}
+
+/** Queue names a policy pattern would match; null when the regex is invalid. */
+function matchPolicyPattern(pattern: string, names: string[]): string[] | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    return null;
+  }
+  return names.filter((name) => regex.test(name));
+}
+
+/** The key's creator, recorded as who paused or resumed. */
+async function pauseActor(userId: string): Promise<PauseActor> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+  return { id: userId, email: user?.email ?? null };
+}
+
+const serverIdField = z.string().min(1);
+const vhostField = z.string().trim().min(1);
+const queueNameField = z.string().min(1);
+const confirmTokenField = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Token from the dry-run call. Omit to get a plan.");
+
+export function registerBrokerWriteTools(
+  server: McpServer,
+  auth: ApiKeyAuth
+): void {
+  const granted = new Set(auth.scope.permissions ?? []);
+
+  if (granted.has("queue:purge")) {
+    server.registerTool(
+      "purge_queue",
+      {
+        title: "Purge queue",
+        description:
+          "Delete every ready message in a queue. Two-step: without `confirmToken` returns the current message counts and a token; repeat the call with the token to purge. Unacknowledged deliveries are not affected. Irreversible.",
+        inputSchema: {
+          serverId: serverIdField,
+          vhost: vhostField,
+          queueName: queueNameField,
+          confirmToken: confirmTokenField,
+        },
+      },
+      async ({ confirmToken, ...args }) => {
+        const { queueName, vhost } = args;
+        if (isQaroteInternalQueue(queueName)) {
+          return toolError("Queue not found.");
+        }
+        return planOrExecute(
+          auth,
+          "purge_queue",
+          "queue:purge",
+          args,
+          confirmToken,
+          {
+            plan: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              const queue = await client.getQueue(queueName, vhost);
+              return {
+                action: "purge",
+                queue: queueName,
+                vhost,
+                before: queueSnapshot(queue),
+                after: { messagesReady: 0 },
+              };
+            },
+            execute: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              await client.purgeQueue(queueName, vhost);
+              return { queue: queueName, vhost, purged: true };
+            },
+            audit: () => ({
+              action: "rabbitmq.queue.purged",
+              entityType: "queue",
+              entityId: queueName,
+              entityLabel: `${queueName}@${vhost}`,
+              vhost,
+            }),
+          }
+        );
+      }
+    );
+  }
+
+  if (granted.has("queue:pause")) {
+    server.registerTool(
+      "pause_queue",
+      {
+        title: "Pause queue",
+        description:
+          "Stop deliveries to a queue's consumers. Qarote records the pause and its queue-pause worker holds a highest-priority consumer that keeps messages without acking — the pause survives API and worker restarts. Optionally pass a `reason` and a `pausedUntil` time after which the queue resumes by itself. Two-step: without `confirmToken` returns the current state and a token; repeat with the token to pause. Undo with `resume_queue`.",
+        inputSchema: {
+          serverId: serverIdField,
+          vhost: vhostField,
+          queueName: queueNameField,
+          reason: z.string().trim().max(500).optional(),
+          pausedUntil: z.iso
+            .datetime()
+            .optional()
+            .describe("ISO-8601 time to resume automatically."),
+          confirmToken: confirmTokenField,
+        },
+      },
+      async ({ confirmToken, ...args }) => {
+        const { queueName, vhost, reason, pausedUntil } = args;
+        if (isQaroteInternalQueue(queueName)) {
+          return toolError("Queue not found.");
+        }
+        if (pausedUntil && new Date(pausedUntil).getTime() <= Date.now()) {
+          return toolError("`pausedUntil` must be in the future.");
+        }
+        return planOrExecute(
+          auth,
+          "pause_queue",
+          "queue:pause",
+          args,
+          confirmToken,
+          {
+            plan: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              const queue = await client.getQueue(queueName, vhost);
+              const current = await getQueuePause({
+                serverId: server.id,
+                vhost,
+                queueName,
+              });
+              return {
+                action: "pause",
+                queue: queueName,
+                vhost,
+                before: {
+                  ...queueSnapshot(queue),
+                  paused: current?.status === QueuePauseStatus.PAUSED,
+                },
+                after: {
+                  paused: true,
+                  reason: reason ?? null,
+                  pausedUntil: pausedUntil ?? null,
+                },
+              };
+            },
+            execute: async (server) => {
+              const pause = await requestQueuePause(
+                { serverId: server.id, vhost, queueName },
+                await pauseActor(auth.userId),
+                {
+                  reason,
+                  pausedUntil: pausedUntil ? new Date(pausedUntil) : null,
+                }
+              );
+              return { queue: queueName, ...serializeQueuePause(pause) };
+            },
+            audit: () => ({
+              action: "rabbitmq.queue.paused",
+              entityType: "queue",
+              entityId: queueName,
+              entityLabel: `${queueName}@${vhost}`,
+              vhost,
+              metadata: {
+                ...(reason && { reason }),
+                ...(pausedUntil && { pausedUntil }),
+              },
+            }),
+          }
+        );
+      }
+    );
+
+    server.registerTool(
+      "resume_queue",
+      {
+        title: "Resume queue",
+        description:
+          "Resume a queue paused by Qarote; the queue-pause worker cancels its blocking consumer and held messages are redelivered. Two-step: without `confirmToken` returns the current pause (who, why, until when) and a token; repeat with the token to resume.",
+        inputSchema: {
+          serverId: serverIdField,
+          vhost: vhostField,
+          queueName: queueNameField,
+          confirmToken: confirmTokenField,
+        },
+      },
+      async ({ confirmToken, ...args }) => {
+        const { queueName, vhost } = args;
+        if (isQaroteInternalQueue(queueName)) {
+          return toolError("Queue not found.");
+        }
+        return planOrExecute(
+          auth,
+          "resume_queue",
+          "queue:pause",
+          args,
+          confirmToken,
+          {
+            plan: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              const queue = await client.getQueue(queueName, vhost);
+              const current = await getQueuePause({
+                serverId: server.id,
+                vhost,
+                queueName,
+              });
+              return {
+                action: "resume",
+                queue: queueName,
+                vhost,
+                before: {
+                  ...queueSnapshot(queue),
+                  paused: current?.status === QueuePauseStatus.PAUSED,
+                  pause: current ? serializeQueuePause(current) : null,
+                },
+                after: { paused: false },
+              };
+            },
+            execute: async (server) => {
+              const pause = await requestQueueResume(
+                { serverId: server.id, vhost, queueName },
+                await pauseActor(auth.userId)
+              );
+              return { queue: queueName, ...serializeQueuePause(pause) };
+            },
+            audit: () => ({
+              action: "rabbitmq.queue.resumed",
+              entityType: "queue",
+              entityId: queueName,
+              entityLabel: `${queueName}@${vhost}`,
+              vhost,
+              metadata: { trigger: "manual" },
+            }),
+          }
+        );
+      }
+    );
+  }
+
+  if (granted.has("message:publish")) {
+    server.registerTool(
+      "publish_test_message",
+      {
+        title: "Publish test message",
+        description:
+          "Publish one message to a queue through the default exchange, tagged with the `x-qarote-test` header so consumers can tell it apart. Use it to verify a consumer recovered. Two-step: without `confirmToken` returns what would be sent and a token; repeat with the token to publish.",
+        inputSchema: {
+          serverId: serverIdField,
+          vhost: vhostField,
+          queueName: queueNameField,
+          payload: z.string().max(MAX_TEST_PAYLOAD_LENGTH),
+          contentType: z.string().min(1).max(255).optional(),
+          confirmToken: confirmTokenField,
+        },
+      },
+      async ({ confirmToken, ...args }) => {
+        const { queueName, vhost, payload, contentType } = args;
+        if (isQaroteInternalQueue(queueName)) {
+          return toolError("Queue not found.");
+        }
+        const properties: MessageProperties = {
+          app_id: "qarote-mcp",
+          headers: { "x-qarote-test": true },
+          ...(contentType ? { content_type: contentType } : {}),
+        };
+        return planOrExecute(
+          auth,
+          "publish_test_message",
+          "message:publish",
+          args,
+          confirmToken,
+          {
+            plan: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              const queue = await client.getQueue(queueName, vhost);
+              return {
+                action: "publish",
+                exchange: "",
+                routingKey: queueName,
+                vhost,
+                payloadBytes: Buffer.byteLength(payload),
+                properties,
+                before: queueSnapshot(queue),
+                after: { messages: queue.messages + 1 },
+              };
+            },
+            execute: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              const result = await client.publishMessage(
+                "",
+                queueName,
+                vhost,
+                payload,
+                properties
+              );
+              return { queue: queueName, vhost, routed: result.routed };
+            },
+            audit: () => ({
+              action: "rabbitmq.message.published",
+              entityType: "queue",
+              entityId: queueName,
+              entityLabel: `${queueName}@${vhost}`,
+              vhost,
+              metadata: { payloadBytes: Buffer.byteLength(payload) },
+            }),
+          }
+        );
+      }
+    );
+  }
+
+  if (granted.has("policy:write")) {
+    server.registerTool(
+      "set_policy",
+      {
+        title: "Create or update policy",
+        description:
+          "Create or replace a RabbitMQ policy in a vhost. Two-step: without `confirmToken` returns the existing policy (if any), the new one, the changed fields and the queues the pattern matches, plus a token; repeat with the token to apply.",
+        inputSchema: {
+          serverId: serverIdField,
+          vhost: vhostField,
+          name: z.string().trim().min(1),
+          pattern: z.string().trim().min(1),
+          applyTo: z.enum(["queues", "exchanges", "all"]).default("all"),
+          definition: z
+            .record(z.string(), z.unknown())
+            .refine((obj) => Object.keys(obj).length > 0, {
+              message: "Policy definition must contain at least one key",
+            }),
+          priority: z.number().int().min(0).max(1_000_000).default(0),
+          confirmToken: confirmTokenField,
+        },
+      },
+      async ({ confirmToken, ...args }) => {
+        const { vhost, name, pattern, applyTo, definition, priority } = args;
+        const next = { pattern, "apply-to": applyTo, definition, priority };
+        return planOrExecute(
+          auth,
+          "set_policy",
+          "policy:write",
+          args,
+          confirmToken,
+          {
+            plan: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              const [policies, queues] = await Promise.all([
+                client.getPolicies(vhost),
+                applyTo === "exchanges"
+                  ? Promise.resolve([])
+                  : client.getQueues(vhost),
+              ]);
+              const existing = policies.find((p) => p.name === name);
+              const before = existing
+                ? {
+                    pattern: existing.pattern,
+                    "apply-to": existing["apply-to"],
+                    definition: existing.definition,
+                    priority: existing.priority,
+                  }
+                : null;
+              const changed = (
+                Object.keys(next) as Array<keyof typeof next>
+              ).filter(
+                (key) =>
+                  !before ||
+                  JSON.stringify(before[key]) !== JSON.stringify(next[key])
+              );
+              const matches = matchPolicyPattern(
+                pattern,
+                queues
+                  .map((q) => q.name)
+                  .filter((queue) => !isQaroteInternalQueue(queue))
+              );
+              return {
+                action: existing ? "update" : "create",
+                policy: name,
+                vhost,
+                before,
+                after: next,
+                changed,
+                matchingQueues: matches
+                  ? {
+                      count: matches.length,
+                      names: matches.slice(0, MAX_PLAN_MATCHES),
+                    }
+                  : null,
+              };
+            },
+            execute: async (server) => {
+              const client = createRabbitMQClientFromServer(server);
+              await client.createOrUpdatePolicy(vhost, name, next);
+              return { policy: name, vhost, applied: true };
+            },
+            audit: () => ({
+              action: "rabbitmq.policy.upserted",
+              entityType: "policy",
+              entityId: name,
+              entityLabel: `${name}@${vhost}`,
+              vhost,
+              // The broker validates `definition`; cast like the procedure.
+              metadata: {
+                pattern,
+                applyTo,
+                definition: definition as Prisma.InputJsonValue,
+                priority,
+              },
+            }),
+          }
+        );
+      }
+    );
+  }
+}
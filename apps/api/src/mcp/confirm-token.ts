@@ -0,0 +1,144 @@
+import crypto from "node:crypto";
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import { canonicalJson } from "@/core/utils";
+
+import { authConfig } from "@/config";
+
+/**
+ * Plan/confirm tokens for the MCP write tools.
+ *
+ * A write tool called without a token returns a dry-run plan and a token
+ * that binds (api key, tool, exact arguments, expiry). Calling the tool
+ * again with the same arguments plus that token executes the plan. The
+ * token is stateless — an HMAC over its payload — so it survives the
+ * stateless MCP transport and works across API replicas; the short TTL
+ * bounds how long an approved plan stays executable. Each token carries a
+ * random id that {@link consumeConfirmToken} records when the plan runs,
+ * so a token executes at most once.
+ */
+
+export const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+interface ConfirmTokenPayload {
+  /** API key the plan was issued to. */
+  k: string;
+  /** Tool name. */
+  t: string;
+  /** SHA-256 of the canonical tool arguments. */
+  h: string;
+  /** Expiry, epoch ms. */
+  e: number;
+  /** Random token id, recorded once the plan executes. */
+  n: string;
+}
+
+export type ConfirmTokenCheck =
+  | { ok: true; jti: string; expiresAt: Date }
+  | { ok: false; reason: "malformed" | "mismatch" | "expired" };
+
+function hashArgs(args: Record<string, unknown>): string {
+  return crypto.createHash("sha256").update(canonicalJson(args)).digest("hex");
+}
+
+function sign(encodedPayload: string): string {
+  return crypto
+    .createHmac("sha256", authConfig.jwtSecret)
+    .update(`mcp-confirm.${encodedPayload}`)
+    .digest("base64url");
+}
+
+export function issueConfirmToken(
+  apiKeyId: string,
+  tool: string,
+  args: Record<string, unknown>,
+  now = Date.now()
+): { token: string; expiresAt: Date } {
+  const payload: ConfirmTokenPayload = {
+    k: apiKeyId,
+    t: tool,
+    h: hashArgs(args),
+    e: now + CONFIRM_TOKEN_TTL_MS,
+    n: crypto.randomUUID(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return {
+    token: `${encoded}.${sign(encoded)}`,
+    expiresAt: new Date(payload.e),
+  };
+}
+
+export function verifyConfirmToken(
+  token: string,
+  apiKeyId: string,
+  tool: string,
+  args: Record<string, unknown>,
+  now = Date.now()
+): ConfirmTokenCheck {
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const given = Buffer.from(signature);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  let payload: ConfirmTokenPayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf8")
+    ) as ConfirmTokenPayload;
+  } catch {
+    return { ok: false, reason: "malformed" };
+  }
+
+  if (
+    payload.k !== apiKeyId ||
+    payload.t !== tool ||
+    payload.h !== hashArgs(args)
+  ) {
+    return { ok: false, reason: "mismatch" };
+  }
+  if (typeof payload.e !== "number" || payload.e <= now) {
+    return { ok: false, reason: "expired" };
+  }
+  if (typeof payload.n !== "string" || !payload.n) {
+    return { ok: false, reason: "malformed" };
+  }
+  return { ok: true, jti: payload.n, expiresAt: new Date(payload.e) };
+}
+
+/**
+ * Spend a verified token. Resolves false when it was already used: the
+ * primary key on the token id makes the insert the gate, so two racing
+ * executions cannot both win, on one replica or several.
+ */
+export async function consumeConfirmToken(
+  check: { jti: string; expiresAt: Date },
+  apiKeyId: string,
+  now = new Date()
+): Promise<boolean> {
+  try {
+    await prisma.mcpConfirmTokenUse.create({
+      data: { jti: check.jti, apiKeyId, expiresAt: check.expiresAt },
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === "P2002") return false;
+    throw error;
+  }
+
+  // Spent ids only matter until the token would have expired anyway
+  void prisma.mcpConfirmTokenUse
+    .deleteMany({ where: { expiresAt: { lt: now } } })
+    .catch((error: unknown) =>
+      logger.warn({ error }, "Failed to prune spent MCP confirm tokens")
+    );
+  return true;
+}
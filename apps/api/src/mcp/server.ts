@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import { registerBrokerReadTools } from "./broker-tools";
+import { registerBrokerWriteTools } from "./broker-write-tools";
 import { registerReadTools } from "./tools";
 
 import type { ApiKeyAuth } from "@/auth/resolve-api-key";
@@ -17,6 +18,11 @@ import type { ApiKeyAuth } from "@/auth/resolve-api-key";
  * the api key was minted with `scope.mode === "explain"`. That keeps the
  * tool out of `tools/list` for CE workspaces and read-scoped keys, so the
  * agent's introspection reflects exactly what it can actually invoke.
+ *
+ * Live-broker write tools (purge_queue, pause_queue, resume_queue,
+ * publish_test_message, set_policy) follow the same rule: registered only
+ * for `scope.mode === "write"` keys, and only the tools whose permission
+ * the key was granted. Each runs a plan → confirm-token → execute flow.
  */
 export async function buildMcpServer(auth: ApiKeyAuth): Promise<McpServer> {
   const server = new McpServer({
@@ -40,6 +46,9 @@ export async function buildMcpServer(auth: ApiKeyAuth): Promise<McpServer> {
 
   registerReadTools(server, auth);
   registerBrokerReadTools(server, auth);
+  if (auth.scope.mode === "write") {
+    registerBrokerWriteTools(server, auth);
+  }
 
   return server;
 }
@@ -95,18 +95,35 @@ export function registerReadTools(server: McpServer, auth: ApiKeyAuth): void {
     {
       title: "List config findings",
       description:
-        "List configuration-scan findings for the workspace — static anti-patterns such as a missing dead-letter exchange or an orphan exchange.",
+        "List configuration-scan findings for the workspace — static anti-patterns such as a missing dead-letter exchange or an orphan exchange. `openOnly` keeps findings that are neither resolved by a later scan nor dismissed by a user.",
       inputSchema: {
         serverId: z.string().optional(),
         unresolvedOnly: z.boolean().optional(),
+        openOnly: z.boolean().optional(),
+        severity: z.enum(AlertSeverity).optional(),
+        ruleKey: z.string().min(1).optional(),
+        vhost: z.string().min(1).optional(),
+        limit: z.number().int().min(1).max(MAX_ROWS).optional(),
       },
     },
-    async ({ serverId, unresolvedOnly }) => {
+    async ({
+      serverId,
+      unresolvedOnly,
+      openOnly,
+      severity,
+      ruleKey,
+      vhost,
+      limit,
+    }) => {
       const rows = await prisma.configFinding.findMany({
         where: {
           workspaceId,
           ...(serverId ? { serverId } : {}),
-          ...(unresolvedOnly ? { resolvedAt: null } : {}),
+          ...(unresolvedOnly || openOnly ? { resolvedAt: null } : {}),
+          ...(openOnly ? { dismissedAt: null } : {}),
+          ...(severity ? { severity } : {}),
+          ...(ruleKey ? { ruleKey } : {}),
+          ...(vhost ? { vhost } : {}),
         },
         select: {
           id: true,
@@ -119,9 +136,10 @@ export function registerReadTools(server: McpServer, auth: ApiKeyAuth): void {
           detectedAt: true,
           lastSeenAt: true,
           resolvedAt: true,
+          dismissedAt: true,
         },
         orderBy: { lastSeenAt: "desc" },
-        take: MAX_ROWS,
+        take: limit ?? MAX_ROWS,
       });
       return jsonResult(rows);
     }
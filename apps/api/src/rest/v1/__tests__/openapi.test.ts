@@ -0,0 +1,97 @@
+/**
+ * The OpenAPI document is generated from the endpoint catalog, so these
+ * tests pin the generator rather than individual operations: every served
+ * route is documented, parameters mirror the zod schemas, and shared
+ * response shapes land in `components.schemas` behind `$ref`s.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/core/prisma", () => ({ prisma: {} }));
+
+import { REST_V1_ENDPOINTS } from "../endpoints";
+import { buildOpenApiDocument } from "../openapi";
+
+type Operation = {
+  operationId: string;
+  parameters?: Array<{
+    name: string;
+    in: string;
+    required: boolean;
+    schema: Record<string, unknown>;
+  }>;
+  responses: Record<string, { content?: unknown }>;
+};
+
+const doc = buildOpenApiDocument(REST_V1_ENDPOINTS, "1.2.3");
+const operations = Object.values(doc.paths).map(
+  (item) => (item as { get: Operation }).get
+);
+
+function operation(id: string): Operation {
+  const op = operations.find((o) => o.operationId === id);
+  if (!op) throw new Error(`missing operation ${id}`);
+  return op;
+}
+
+describe("buildOpenApiDocument", () => {
+  it("is an OpenAPI 3.1 document covering every endpoint", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info.version).toBe("1.2.3");
+    expect(operations.map((o) => o.operationId).sort()).toEqual(
+      REST_V1_ENDPOINTS.map((e) => e.operationId).sort()
+    );
+  });
+
+  it("marks path params required and defaulted query params optional", () => {
+    const params = operation("listQueues").parameters ?? [];
+
+    expect(params).toContainEqual(
+      expect.objectContaining({ name: "serverId", in: "path", required: true })
+    );
+    expect(params).toContainEqual(
+      expect.objectContaining({ name: "page", in: "query", required: false })
+    );
+    expect(params).toContainEqual(
+      expect.objectContaining({ name: "vhost", in: "query", required: false })
+    );
+  });
+
+  it("documents pagination query params as integers", () => {
+    const limit = operation("listServers").parameters?.find(
+      (p) => p.name === "limit"
+    );
+
+    expect(limit?.schema).toMatchObject({
+      type: "integer",
+      maximum: 100,
+      default: 20,
+    });
+  });
+
+  it("hoists shared response schemas into components", () => {
+    expect(Object.keys(doc.components.schemas)).toEqual(
+      expect.arrayContaining(["Error", "Server", "Queue", "Incident"])
+    );
+    const body = JSON.stringify(operation("getServer").responses["200"]);
+    expect(body).toContain('"$ref":"#/components/schemas/Server"');
+    expect(body).not.toContain("$defs");
+  });
+
+  it("documents broker resources with the mappers' field names", () => {
+    const queue = doc.components.schemas.Queue as {
+      properties: Record<string, unknown>;
+    };
+    expect(Object.keys(queue.properties)).toEqual(
+      expect.arrayContaining(["auto_delete", "messages_ready", "policy"])
+    );
+  });
+
+  it("never documents server credentials", () => {
+    const server = doc.components.schemas.Server as {
+      properties: Record<string, unknown>;
+    };
+    expect(Object.keys(server.properties)).not.toContain("password");
+    expect(Object.keys(server.properties)).not.toContain("username");
+  });
+});
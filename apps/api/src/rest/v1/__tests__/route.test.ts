@@ -0,0 +1,196 @@
+/**
+ * Auth + contract gate for the public REST API. The key resolves the
+ * workspace, the creator's live permissions decide each endpoint, and every
+ * query is filtered by the key's workspace — never by anything the caller
+ * sends.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockResolve,
+  mockLoadPermissions,
+  mockMemberFindFirst,
+  mockServerFindMany,
+  mockServerCount,
+  mockServerFindFirst,
+  mockVerifyServerAccess,
+  mockGetQueues,
+} = vi.hoisted(() => ({
+  mockResolve: vi.fn(),
+  mockLoadPermissions: vi.fn(),
+  mockMemberFindFirst: vi.fn(),
+  mockServerFindMany: vi.fn(),
+  mockServerCount: vi.fn(),
+  mockServerFindFirst: vi.fn(),
+  mockVerifyServerAccess: vi.fn(),
+  mockGetQueues: vi.fn(),
+}));
+
+vi.mock("@/auth/resolve-api-key", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/auth/resolve-api-key")>()),
+  resolveApiKeyAuth: mockResolve,
+}));
+
+vi.mock("@/auth/effective-permissions", () => ({
+  loadEffectivePermissions: mockLoadPermissions,
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    workspaceMember: { findFirst: mockMemberFindFirst },
+    rabbitMQServer: {
+      findMany: mockServerFindMany,
+      count: mockServerCount,
+      findFirst: mockServerFindFirst,
+    },
+  },
+}));
+
+vi.mock("@/trpc/routers/rabbitmq/shared", () => ({
+  verifyServerAccess: mockVerifyServerAccess,
+  createRabbitMQClientFromServer: () => ({ getQueues: mockGetQueues }),
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { restV1Router } from "../route";
+
+const SERVER_ID = "7f1c6a52-3a8e-4a8a-9b43-2f9d3c0b8e11";
+const AUTH = { authorization: "Bearer qk_test" };
+
+function grant(...permissions: string[]) {
+  mockLoadPermissions.mockResolvedValue({
+    kind: "custom",
+    permissions: new Set(permissions),
+  });
+}
+
+describe("REST v1 route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolve.mockResolvedValue({
+      userId: "u_1",
+      apiKeyId: "k_1",
+      scope: { workspaceId: "ws_1", mode: "read", v: 1 },
+    });
+    mockMemberFindFirst.mockResolvedValue({
+      id: "m_1",
+      workspace: { organizationId: "org_1" },
+    });
+    grant("server:read", "queue:read");
+  });
+
+  it("serves the OpenAPI document without a key", async () => {
+    const res = await restV1Router.request("/openapi.json");
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as { openapi: string }).openapi).toBe("3.1.0");
+    expect(mockResolve).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 without a key, and for a key that does not resolve", async () => {
+    expect((await restV1Router.request("/servers")).status).toBe(401);
+
+    mockResolve.mockResolvedValue(null);
+    const res = await restV1Router.request("/servers", { headers: AUTH });
+    expect(res.status).toBe(401);
+    expect(mockResolve).toHaveBeenCalledWith("qk_test");
+  });
+
+  it("accepts the key in x-api-key too", async () => {
+    mockServerFindMany.mockResolvedValue([]);
+    mockServerCount.mockResolvedValue(0);
+    const res = await restV1Router.request("/servers", {
+      headers: { "x-api-key": "qk_test" },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 403 when the key's creator lacks the endpoint permission", async () => {
+    grant("queue:read");
+    const res = await restV1Router.request("/servers", { headers: AUTH });
+    expect(res.status).toBe(403);
+    expect(mockServerFindMany).not.toHaveBeenCalled();
+  });
+
+  it("lists servers for the key's workspace with pagination metadata", async () => {
+    mockServerFindMany.mockResolvedValue([{ id: SERVER_ID, name: "prod" }]);
+    mockServerCount.mockResolvedValue(41);
+
+    const res = await restV1Router.request(
+      "/servers?page=3&limit=20&workspaceId=ws_other",
+      { headers: AUTH }
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      data: [{ id: SERVER_ID, name: "prod" }],
+      pagination: { page: 3, limit: 20, total: 41, pages: 3 },
+    });
+    expect(mockServerFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { workspaceId: "ws_1" },
+        skip: 40,
+        take: 20,
+      })
+    );
+    const select = mockServerFindMany.mock.calls[0][0].select;
+    expect(select).not.toHaveProperty("password");
+    expect(select).not.toHaveProperty("username");
+  });
+
+  it("rejects out-of-range pagination with 400", async () => {
+    const res = await restV1Router.request("/servers?limit=500", {
+      headers: AUTH,
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for a server outside the workspace", async () => {
+    mockServerFindFirst.mockResolvedValue(null);
+    const res = await restV1Router.request(`/servers/${SERVER_ID}`, {
+      headers: AUTH,
+    });
+    expect(res.status).toBe(404);
+    expect(mockServerFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: SERVER_ID, workspaceId: "ws_1" },
+      })
+    );
+  });
+
+  it("pages live queues and hides Qarote-internal ones", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: SERVER_ID });
+    mockGetQueues.mockResolvedValue([
+      { name: "b", vhost: "/", type: "classic", messages: 2 },
+      { name: "a", vhost: "/", type: "quorum", messages: 1 },
+      { name: "qarote.trace.x", vhost: "/", type: "classic" },
+    ]);
+
+    const res = await restV1Router.request(
+      `/servers/${SERVER_ID}/queues?limit=1`,
+      { headers: AUTH }
+    );
+    const body = (await res.json()) as {
+      data: Array<{ name: string }>;
+      pagination: unknown;
+    };
+
+    expect(res.status).toBe(200);
+    expect(body.data.map((q) => q.name)).toEqual(["a"]);
+    expect(body.pagination).toEqual({ page: 1, limit: 1, total: 2, pages: 2 });
+    expect(mockVerifyServerAccess).toHaveBeenCalledWith(SERVER_ID, "ws_1");
+  });
+
+  it("maps broker failures to 502", async () => {
+    mockVerifyServerAccess.mockResolvedValue({ id: SERVER_ID });
+    mockGetQueues.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const res = await restV1Router.request(`/servers/${SERVER_ID}/queues`, {
+      headers: AUTH,
+    });
+    expect(res.status).toBe(502);
+  });
+});
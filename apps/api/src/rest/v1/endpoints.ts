@@ -0,0 +1,419 @@
+/**
+ * Endpoint catalog for the public REST API (`/api/v1`).
+ *
+ * Each entry carries its path, permission, request schemas, response schema
+ * and handler. `route.ts` mounts the catalog on Hono and `openapi.ts`
+ * generates the OpenAPI document from the same entries, so the published
+ * contract always matches what is served.
+ *
+ * Everything here is read-only: `read` and `explain` API keys get the same
+ * surface. Handlers only ever filter by the key's workspace, and live-broker
+ * reads go through `verifyServerAccess` first (cross-workspace ids are 404s).
+ */
+
+import { z } from "zod";
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import { excludeInternalQueues } from "@/core/rabbitmq/internal-queues";
+
+import { isBlocked, resolveFeatureGate } from "@/services/feature-gate";
+
+import { paginateQuery, paginationMeta } from "@/schemas/pagination";
+
+import { FEATURES } from "@/config/features";
+
+import { ExchangeMapper, QueueMapper, VHostMapper } from "@/mappers/rabbitmq";
+
+import {
+  createRabbitMQClientFromServer,
+  verifyServerAccess,
+} from "@/trpc/routers/rabbitmq/shared";
+
+import {
+  AuditLogEntrySchema,
+  AuditLogListQuerySchema,
+  BrokerListQuerySchema,
+  ConfigFindingListQuerySchema,
+  ConfigFindingSchema,
+  documentedFields,
+  ExchangeSchema,
+  IncidentListQuerySchema,
+  IncidentSchema,
+  itemResponse,
+  listResponse,
+  QueueSchema,
+  ServerIdParamsSchema,
+  ServerListQuerySchema,
+  ServerSchema,
+  VHostListQuerySchema,
+  VHostSchema,
+} from "./schemas";
+
+import type { WorkspacePermission } from "@/auth/permissions";
+import type { Prisma } from "@/generated/prisma/client";
+
+/** Caller identity resolved from the API key by the route's auth middleware. */
+export interface RestContext {
+  workspaceId: string;
+  organizationId: string | null;
+  permissions: ReadonlySet<WorkspacePermission>;
+  apiKeyId: string;
+}
+
+/** A handled failure — rendered as `{ error }` with `status`. */
+export class RestApiError extends Error {
+  constructor(
+    readonly status: 400 | 403 | 404 | 502,
+    message: string
+  ) {
+    super(message);
+    this.name = "RestApiError";
+  }
+}
+
+type EmptySchema = z.ZodObject<Record<string, never>>;
+
+interface RestEndpointDef<P extends z.ZodType, Q extends z.ZodType> {
+  operationId: string;
+  /** OpenAPI path template relative to `/api/v1`, e.g. `/servers/{serverId}`. */
+  path: string;
+  tag: string;
+  summary: string;
+  permission: WorkspacePermission;
+  params?: P;
+  query?: Q;
+  response: z.ZodType;
+  handler: (input: {
+    ctx: RestContext;
+    params: z.output<P>;
+    query: z.output<Q>;
+  }) => Promise<unknown>;
+}
+
+export type RestEndpoint = RestEndpointDef<z.ZodType, z.ZodType>;
+
+function defineEndpoint<
+  P extends z.ZodType = EmptySchema,
+  Q extends z.ZodType = EmptySchema,
+>(def: RestEndpointDef<P, Q>): RestEndpoint {
+  return def as unknown as RestEndpoint;
+}
+
+const SERVER_SELECT = {
+  id: true,
+  name: true,
+  host: true,
+  port: true,
+  amqpPort: true,
+  vhost: true,
+  useHttps: true,
+  version: true,
+  environment: true,
+  lastPolledAt: true,
+  createdAt: true,
+} satisfies Prisma.RabbitMQServerSelect;
+
+const INCIDENT_SELECT = {
+  id: true,
+  serverId: true,
+  ruleId: true,
+  severity: true,
+  scope: true,
+  queueName: true,
+  vhost: true,
+  description: true,
+  recommendation: true,
+  supersededBy: true,
+  firstSeenAt: true,
+  lastSeenAt: true,
+  resolvedAt: true,
+} satisfies Prisma.IncidentDiagnosisRecordSelect;
+
+const CONFIG_FINDING_SELECT = {
+  id: true,
+  serverId: true,
+  ruleKey: true,
+  severity: true,
+  resourceType: true,
+  resourceName: true,
+  vhost: true,
+  detectedAt: true,
+  lastSeenAt: true,
+  resolvedAt: true,
+  dismissedAt: true,
+} satisfies Prisma.ConfigFindingSelect;
+
+const AUDIT_LOG_SELECT = {
+  id: true,
+  timestamp: true,
+  source: true,
+  action: true,
+  category: true,
+  entityType: true,
+  entityId: true,
+  entityLabel: true,
+  actorId: true,
+  actorEmail: true,
+  apiKeyId: true,
+  serverId: true,
+  vhost: true,
+  metadata: true,
+} satisfies Prisma.AuditLogSelect;
+
+/** Page an in-memory list (live broker reads) with the DB pagination math. */
+function paginateList<T>(items: T[], query: { page: number; limit: number }) {
+  const { skip, take } = paginateQuery(query);
+  return {
+    data: items.slice(skip, skip + take),
+    pagination: paginationMeta(query.page, query.limit, items.length),
+  };
+}
+
+/**
+ * Resolve a workspace server and run a live Management-API read against it.
+ * Broker failures surface as 502 so callers can tell them apart from a
+ * Qarote-side error.
+ */
+async function withBroker<T>(
+  ctx: RestContext,
+  serverId: string,
+  operation: string,
+  read: (
+    client: ReturnType<typeof createRabbitMQClientFromServer>
+  ) => Promise<T>
+): Promise<T> {
+  const server = await verifyServerAccess(serverId, ctx.workspaceId);
+  if (!server) throw new RestApiError(404, "Server not found");
+
+  try {
+    return await read(createRabbitMQClientFromServer(server));
+  } catch (err) {
+    logger.warn(
+      { err, serverId, workspaceId: ctx.workspaceId, operation },
+      "REST API broker read failed"
+    );
+    throw new RestApiError(502, "Could not reach the broker");
+  }
+}
+
+export const REST_V1_ENDPOINTS: RestEndpoint[] = [
+  defineEndpoint({
+    operationId: "listServers",
+    path: "/servers",
+    tag: "Servers",
+    summary: "List the RabbitMQ servers connected to the workspace",
+    permission: "server:read",
+    query: ServerListQuerySchema,
+    response: listResponse(ServerSchema),
+    handler: async ({ ctx, query }) => {
+      const where = { workspaceId: ctx.workspaceId };
+      const [rows, total] = await Promise.all([
+        prisma.rabbitMQServer.findMany({
+          where,
+          select: SERVER_SELECT,
+          orderBy: { name: "asc" },
+          ...paginateQuery(query),
+        }),
+        prisma.rabbitMQServer.count({ where }),
+      ]);
+      return {
+        data: rows,
+        pagination: paginationMeta(query.page, query.limit, total),
+      };
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "getServer",
+    path: "/servers/{serverId}",
+    tag: "Servers",
+    summary: "Get one server",
+    permission: "server:read",
+    params: ServerIdParamsSchema,
+    response: itemResponse(ServerSchema),
+    handler: async ({ ctx, params }) => {
+      const server = await prisma.rabbitMQServer.findFirst({
+        where: { id: params.serverId, workspaceId: ctx.workspaceId },
+        select: SERVER_SELECT,
+      });
+      if (!server) throw new RestApiError(404, "Server not found");
+      return { data: server };
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "listQueues",
+    path: "/servers/{serverId}/queues",
+    tag: "Broker",
+    summary: "List queues (live read from the broker)",
+    permission: "queue:read",
+    params: ServerIdParamsSchema,
+    query: BrokerListQuerySchema,
+    response: listResponse(QueueSchema),
+    handler: async ({ ctx, params, query }) => {
+      const queues = await withBroker(ctx, params.serverId, "queues", (c) =>
+        c.getQueues(query.vhost || undefined)
+      );
+      const items = excludeInternalQueues(queues)
+        .map((q) => documentedFields(QueueSchema, QueueMapper.toApiResponse(q)))
+        .sort(
+          (a, b) =>
+            a.vhost.localeCompare(b.vhost) || a.name.localeCompare(b.name)
+        );
+      return paginateList(items, query);
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "listExchanges",
+    path: "/servers/{serverId}/exchanges",
+    tag: "Broker",
+    summary: "List exchanges (live read from the broker)",
+    permission: "exchange:read",
+    params: ServerIdParamsSchema,
+    query: BrokerListQuerySchema,
+    response: listResponse(ExchangeSchema),
+    handler: async ({ ctx, params, query }) => {
+      const exchanges = await withBroker(
+        ctx,
+        params.serverId,
+        "exchanges",
+        (c) => c.getExchanges(query.vhost || undefined)
+      );
+      const items = exchanges
+        .map((e) =>
+          documentedFields(ExchangeSchema, ExchangeMapper.toApiResponse(e))
+        )
+        .sort(
+          (a, b) =>
+            a.vhost.localeCompare(b.vhost) || a.name.localeCompare(b.name)
+        );
+      return paginateList(items, query);
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "listVHosts",
+    path: "/servers/{serverId}/vhosts",
+    tag: "Broker",
+    summary: "List virtual hosts (live read from the broker)",
+    permission: "vhost:read",
+    params: ServerIdParamsSchema,
+    query: VHostListQuerySchema,
+    response: listResponse(VHostSchema),
+    handler: async ({ ctx, params, query }) => {
+      const vhosts = await withBroker(ctx, params.serverId, "vhosts", (c) =>
+        c.getVHosts()
+      );
+      const items = vhosts
+        .map((v) => documentedFields(VHostSchema, VHostMapper.toApiResponse(v)))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return paginateList(items, query);
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "listIncidents",
+    path: "/incidents",
+    tag: "Diagnosis",
+    summary: "List diagnosed incidents, most recently seen first",
+    permission: "incident:read",
+    query: IncidentListQuerySchema,
+    response: listResponse(IncidentSchema),
+    handler: async ({ ctx, query }) => {
+      const where: Prisma.IncidentDiagnosisRecordWhereInput = {
+        workspaceId: ctx.workspaceId,
+        ...(query.serverId ? { serverId: query.serverId } : {}),
+        ...(query.severity ? { severity: query.severity } : {}),
+        ...(query.unresolvedOnly ? { resolvedAt: null } : {}),
+      };
+      const [rows, total] = await Promise.all([
+        prisma.incidentDiagnosisRecord.findMany({
+          where,
+          select: INCIDENT_SELECT,
+          orderBy: [{ lastSeenAt: "desc" }, { id: "desc" }],
+          ...paginateQuery(query),
+        }),
+        prisma.incidentDiagnosisRecord.count({ where }),
+      ]);
+      return {
+        data: rows,
+        pagination: paginationMeta(query.page, query.limit, total),
+      };
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "listConfigFindings",
+    path: "/config-findings",
+    tag: "Diagnosis",
+    summary: "List configuration-scan findings, most recently seen first",
+    permission: "scan:read",
+    query: ConfigFindingListQuerySchema,
+    response: listResponse(ConfigFindingSchema),
+    handler: async ({ ctx, query }) => {
+      const where: Prisma.ConfigFindingWhereInput = {
+        workspaceId: ctx.workspaceId,
+        ...(query.serverId ? { serverId: query.serverId } : {}),
+        ...(query.unresolvedOnly ? { resolvedAt: null } : {}),
+      };
+      const [rows, total] = await Promise.all([
+        prisma.configFinding.findMany({
+          where,
+          select: CONFIG_FINDING_SELECT,
+          orderBy: [{ lastSeenAt: "desc" }, { id: "desc" }],
+          ...paginateQuery(query),
+        }),
+        prisma.configFinding.count({ where }),
+      ]);
+      return {
+        data: rows,
+        pagination: paginationMeta(query.page, query.limit, total),
+      };
+    },
+  }),
+
+  defineEndpoint({
+    operationId: "listAuditLog",
+    path: "/audit-log",
+    tag: "Audit",
+    summary: "List audit log entries, newest first (Enterprise)",
+    permission: "audit:read",
+    query: AuditLogListQuerySchema,
+    response: listResponse(AuditLogEntrySchema),
+    handler: async ({ ctx, query }) => {
+      const gate = await resolveFeatureGate(FEATURES.AUDIT_LOG, {
+        organizationId: ctx.organizationId ?? undefined,
+      });
+      if (isBlocked(gate)) {
+        throw new RestApiError(403, "Audit log is not available on this plan");
+      }
+
+      const where: Prisma.AuditLogWhereInput = {
+        workspaceId: ctx.workspaceId,
+        ...(query.category ? { category: query.category } : {}),
+        ...(query.serverId ? { serverId: query.serverId } : {}),
+      };
+      if (query.from || query.to) {
+        where.timestamp = {
+          ...(query.from ? { gte: new Date(query.from) } : {}),
+          ...(query.to ? { lt: new Date(query.to) } : {}),
+        };
+      }
+      const [rows, total] = await Promise.all([
+        prisma.auditLog.findMany({
+          where,
+          select: AUDIT_LOG_SELECT,
+          orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+          ...paginateQuery(query),
+        }),
+        prisma.auditLog.count({ where }),
+      ]);
+      return {
+        data: rows,
+        pagination: paginationMeta(query.page, query.limit, total),
+      };
+    },
+  }),
+];
@@ -0,0 +1,148 @@
+/**
+ * OpenAPI 3.1 document for `/api/v1`, generated from the endpoint catalog.
+ *
+ * OpenAPI 3.1 schemas are JSON Schema 2020-12, which is zod's native
+ * `toJSONSchema` target, so request and response schemas convert directly.
+ * Schemas tagged with `.meta({ id })` are hoisted into
+ * `components.schemas` and referenced from every operation that uses them.
+ */
+
+import { z } from "zod";
+
+import { type RestEndpoint } from "./endpoints";
+import { ErrorResponseSchema } from "./schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENT_REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Convert a zod schema, moving any `$defs` into `components` and pointing
+ * the `$ref`s at them.
+ */
+function toSchema(
+  schema: z.ZodType,
+  io: "input" | "output",
+  components: Record<string, JsonSchema>
+): JsonSchema {
+  const json = z.toJSONSchema(schema, { io, unrepresentable: "any" });
+  const {
+    $schema: _dialect,
+    $defs,
+    ...rest
+  } = json as JsonSchema & {
+    $defs?: Record<string, JsonSchema>;
+  };
+
+  for (const [id, def] of Object.entries($defs ?? {})) {
+    const { id: _id, ...body } = def;
+    components[id] = body;
+  }
+
+  return JSON.parse(
+    JSON.stringify(rest).replaceAll('"#/$defs/', `"${COMPONENT_REF_PREFIX}`)
+  ) as JsonSchema;
+}
+
+function objectParameters(
+  schema: z.ZodType | undefined,
+  location: "path" | "query",
+  components: Record<string, JsonSchema>
+) {
+  if (!(schema instanceof z.ZodObject)) return [];
+  return Object.entries(schema.shape as Record<string, z.ZodType>).map(
+    ([name, field]) => {
+      const fieldSchema = toSchema(field, "input", components);
+      const { description, ...rest } = fieldSchema;
+      return {
+        name,
+        in: location,
+        // Path params are always required; query params are required only
+        // when the schema rejects their absence.
+        required: location === "path" || !field.safeParse(undefined).success,
+        ...(typeof description === "string" ? { description } : {}),
+        schema: rest,
+      };
+    }
+  );
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: { $ref: `${COMPONENT_REF_PREFIX}Error` },
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(
+  endpoints: RestEndpoint[],
+  version: string
+) {
+  const components: Record<string, JsonSchema> = {
+    Error: toSchema(ErrorResponseSchema, "output", {}),
+  };
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const endpoint of endpoints) {
+    const parameters = [
+      ...objectParameters(endpoint.params, "path", components),
+      ...objectParameters(endpoint.query, "query", components),
+    ];
+
+    paths[endpoint.path] = {
+      ...paths[endpoint.path],
+      get: {
+        operationId: endpoint.operationId,
+        summary: endpoint.summary,
+        description: `Requires the \`${endpoint.permission}\` permission on the API key's creator.`,
+        tags: [endpoint.tag],
+        ...(parameters.length > 0 ? { parameters } : {}),
+        responses: {
+          "200": {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: toSchema(endpoint.response, "output", components),
+              },
+            },
+          },
+          ...(parameters.length > 0
+            ? { "400": errorResponse("Invalid path or query parameters") }
+            : {}),
+          "401": errorResponse("Missing or invalid API key"),
+          "403": errorResponse("The key's creator lacks the permission"),
+          ...(endpoint.params
+            ? { "404": errorResponse("Not found in this workspace") }
+            : {}),
+          ...(endpoint.tag === "Broker"
+            ? { "502": errorResponse("The broker could not be reached") }
+            : {}),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Qarote API",
+      version,
+      description:
+        "Read-only REST API for a Qarote workspace. Authenticate with an agent API key (Settings → Agent Access) sent as `Authorization: Bearer <key>` or `x-api-key`. The key determines the workspace; its creator's role determines which endpoints are allowed.",
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "x-api-key" },
+      },
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import {
+  isWebhookPayloadVersion,
+  webhookPayloadJsonSchema,
+} from "@/services/webhooks/payload";
+
+import { config } from "@/config";
+
+import {
+  REST_V1_ENDPOINTS,
+  RestApiError,
+  type RestContext,
+  type RestEndpoint,
+} from "./endpoints";
+import { buildOpenApiDocument } from "./openapi";
+
+import { loadEffectivePermissions } from "@/auth/effective-permissions";
+import { readApiKeyHeader, resolveApiKeyAuth } from "@/auth/resolve-api-key";
+
+/**
+ * Public read-only REST API (`/api/v1`) for scripts and infrastructure
+ * tooling that can't speak tRPC.
+ *
+ * Authenticated by the same machine API keys as the MCP endpoint (bearer
+ * token or `x-api-key`). The key pins the workspace; each endpoint then
+ * checks its permission against the key creator's live role, exactly like
+ * `workspacePermissionProcedure` does for the same user in the app — a
+ * key can never read more than its creator could.
+ *
+ * `GET /openapi.json` is public: it describes the contract, not data. So
+ * is `GET /webhook-schemas/{version}`, the JSON Schema webhook consumers
+ * validate deliveries against.
+ */
+type RestEnv = { Variables: { restContext: RestContext } };
+
+export const restV1Router = new Hono<RestEnv>();
+
+const openApiDocument = buildOpenApiDocument(
+  REST_V1_ENDPOINTS,
+  config.npm_package_version ?? "1.0.0"
+);
+
+restV1Router.get("/openapi.json", (c) => c.json(openApiDocument));
+
+restV1Router.get("/webhook-schemas/:version", (c) => {
+  // `/webhook-schemas/v1` and `/webhook-schemas/v1.json` both work
+  const version = c.req.param("version").replace(/\.json$/, "");
+  if (!isWebhookPayloadVersion(version)) {
+    return c.json({ error: "Unknown webhook payload version" }, 404);
+  }
+  return c.json(webhookPayloadJsonSchema(version));
+});
+
+const requireApiKey = createMiddleware<RestEnv>(async (c, next) => {
+  const key = readApiKeyHeader(
+    c.req.header("x-api-key"),
+    c.req.header("authorization")
+  );
+  if (!key) return c.json({ error: "Unauthorized" }, 401);
+
+  const apiKeyAuth = await resolveApiKeyAuth(key);
+  if (!apiKeyAuth) return c.json({ error: "Unauthorized" }, 401);
+
+  const { workspaceId } = apiKeyAuth.scope;
+  const member = await prisma.workspaceMember.findFirst({
+    where: { userId: apiKeyAuth.userId, workspaceId },
+    select: { id: true, workspace: { select: { organizationId: true } } },
+  });
+  const effective = member ? await loadEffectivePermissions(member.id) : null;
+  if (!member || !effective) return c.json({ error: "Unauthorized" }, 401);
+
+  c.set("restContext", {
+    workspaceId,
+    organizationId: member.workspace.organizationId,
+    permissions: effective.permissions,
+    apiKeyId: apiKeyAuth.apiKeyId,
+  });
+  await next();
+});
+
+/** `/servers/{serverId}` → `/servers/:serverId` */
+function toHonoPath(path: string): string {
+  return path.replace(/\{(\w+)\}/g, ":$1");
+}
+
+async function handle(c: Context<RestEnv>, endpoint: RestEndpoint) {
+  const ctx = c.get("restContext");
+  if (!ctx.permissions.has(endpoint.permission)) {
+    return c.json({ error: `Missing permission: ${endpoint.permission}` }, 403);
+  }
+
+  const params = endpoint.params?.safeParse(c.req.param()) ?? {
+    success: true as const,
+    data: {},
+  };
+  const query = endpoint.query?.safeParse(c.req.query()) ?? {
+    success: true as const,
+    data: {},
+  };
+  if (!params.success || !query.success) {
+    const error = !params.success ? params.error : query.error;
+    return c.json({ error: "Invalid request", details: error?.flatten() }, 400);
+  }
+
+  try {
+    const body = await endpoint.handler({
+      ctx,
+      params: params.data,
+      query: query.data,
+    });
+    return c.json(body as object, 200);
+  } catch (error) {
+    if (error instanceof RestApiError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    logger.error(
+      {
+        err: error,
+        operationId: endpoint.operationId,
+        workspaceId: ctx.workspaceId,
+        apiKeyId: ctx.apiKeyId,
+      },
+      "REST API request failed"
+    );
+    return c.json({ error: "Internal server error" }, 500);
+  }
+}
+
+restV1Router.use("*", requireApiKey);
+
+for (const endpoint of REST_V1_ENDPOINTS) {
+  restV1Router.get(toHonoPath(endpoint.path), (c) => handle(c, endpoint));
+}
@@ -0,0 +1,211 @@
+/**
+ * Request + response schemas for the public REST API (`/api/v1`).
+ *
+ * Path and query schemas are built from `@/schemas/*`, so REST and tRPC
+ * validate the same input. Broker response schemas document fields of the
+ * mappers' responses and are filled through {@link documentedFields}, which
+ * fails to compile when a mapper stops matching them. The OpenAPI document
+ * is generated from all of these. Timestamps are ISO-8601 strings on the
+ * wire.
+ */
+
+import { z } from "zod";
+
+import { PaginationQuerySchema } from "@/schemas/pagination";
+import {
+  CreateServerSchema,
+  ServerWorkspaceInputSchema,
+  VHostOptionalQuerySchema,
+} from "@/schemas/rabbitmq";
+
+import { AlertSeverity } from "@/generated/prisma/client";
+
+const Timestamp = z.iso.datetime();
+
+// --- Requests --------------------------------------------------------------
+
+// Server ids are UUID columns: anything else is a 400, not a database error.
+export const ServerIdParamsSchema = z.object({
+  serverId: ServerWorkspaceInputSchema.shape.serverId.check(z.uuid()),
+});
+
+export const ServerListQuerySchema = PaginationQuerySchema;
+
+export const BrokerListQuerySchema = PaginationQuerySchema.extend(
+  VHostOptionalQuerySchema.shape
+);
+
+export const VHostListQuerySchema = PaginationQuerySchema;
+
+export const IncidentListQuerySchema = PaginationQuerySchema.extend({
+  serverId: z.uuid().optional(),
+  severity: z.enum(AlertSeverity).optional(),
+  unresolvedOnly: z.stringbool().optional(),
+});
+
+export const ConfigFindingListQuerySchema = PaginationQuerySchema.extend({
+  serverId: z.uuid().optional(),
+  unresolvedOnly: z.stringbool().optional(),
+});
+
+export const AuditLogListQuerySchema = PaginationQuerySchema.extend({
+  category: z.string().min(1).max(64).optional(),
+  serverId: z.uuid().optional(),
+  /** Rows AT OR AFTER this timestamp. */
+  from: Timestamp.optional(),
+  /** Rows STRICTLY BEFORE this timestamp. */
+  to: Timestamp.optional(),
+});
+
+// --- Responses -------------------------------------------------------------
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+  details: z.unknown().optional(),
+});
+
+const PaginationMetaSchema = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  pages: z.number().int(),
+});
+
+export function listResponse<T extends z.ZodType>(item: T) {
+  return z.object({ data: z.array(item), pagination: PaginationMetaSchema });
+}
+
+export function itemResponse<T extends z.ZodType>(item: T) {
+  return z.object({ data: item });
+}
+
+/**
+ * The fields of a mapper response that `schema` documents. `value` is typed
+ * as the schema's output, so a mapper change that breaks the documented
+ * shape is a compile error; undocumented fields are left out.
+ */
+export function documentedFields<S extends z.ZodObject>(
+  schema: S,
+  value: z.output<S>
+): z.output<S> {
+  const fields = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.keys(schema.shape).map((key) => [key, fields[key]])
+  ) as z.output<S>;
+}
+
+/** Server metadata — credentials and TLS material are never exposed. */
+export const ServerSchema = CreateServerSchema.pick({
+  name: true,
+  host: true,
+  port: true,
+  amqpPort: true,
+  vhost: true,
+  useHttps: true,
+})
+  .extend({
+    id: z.uuid(),
+    version: z.string().nullable(),
+    environment: z.string().nullable(),
+    lastPolledAt: Timestamp.nullable(),
+    createdAt: Timestamp,
+  })
+  .meta({ id: "Server" });
+
+/** Fields of the mappers' `QueueResponse`. */
+export const QueueSchema = z
+  .object({
+    name: z.string(),
+    vhost: z.string(),
+    node: z.string(),
+    type: z.string(),
+    state: z.string(),
+    durable: z.boolean(),
+    auto_delete: z.boolean(),
+    exclusive: z.boolean(),
+    arguments: z.record(z.string(), z.unknown()),
+    policy: z.string().nullable().optional(),
+    consumers: z.number().int(),
+    messages: z.number().int(),
+    messages_ready: z.number().int(),
+    messages_unacknowledged: z.number().int(),
+  })
+  .meta({ id: "Queue" });
+
+/** Fields of the mappers' `ExchangeResponse`. */
+export const ExchangeSchema = z
+  .object({
+    name: z.string(),
+    vhost: z.string(),
+    type: z.string(),
+    durable: z.boolean(),
+    auto_delete: z.boolean(),
+    internal: z.boolean(),
+    arguments: z.record(z.string(), z.unknown()),
+    policy: z.string().nullable().optional(),
+  })
+  .meta({ id: "Exchange" });
+
+/** Fields of the mappers' `VHostResponse`. */
+export const VHostSchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    default_queue_type: z.string().optional(),
+    messages: z.number().int().optional(),
+  })
+  .meta({ id: "VHost" });
+
+export const IncidentSchema = z
+  .object({
+    id: z.uuid(),
+    serverId: z.uuid(),
+    ruleId: z.string(),
+    severity: z.enum(AlertSeverity),
+    scope: z.string(),
+    queueName: z.string(),
+    vhost: z.string(),
+    description: z.string(),
+    recommendation: z.string(),
+    supersededBy: z.string().nullable(),
+    firstSeenAt: Timestamp,
+    lastSeenAt: Timestamp,
+    resolvedAt: Timestamp.nullable(),
+  })
+  .meta({ id: "Incident" });
+
+export const ConfigFindingSchema = z
+  .object({
+    id: z.uuid(),
+    serverId: z.uuid(),
+    ruleKey: z.string(),
+    severity: z.enum(AlertSeverity),
+    resourceType: z.string(),
+    resourceName: z.string(),
+    vhost: z.string().nullable(),
+    detectedAt: Timestamp,
+    lastSeenAt: Timestamp,
+    resolvedAt: Timestamp.nullable(),
+    dismissedAt: Timestamp.nullable(),
+  })
+  .meta({ id: "ConfigFinding" });
+
+export const AuditLogEntrySchema = z
+  .object({
+    id: z.uuid(),
+    timestamp: Timestamp,
+    source: z.string(),
+    action: z.string(),
+    category: z.string(),
+    entityType: z.string(),
+    entityId: z.string().nullable(),
+    entityLabel: z.string().nullable(),
+    actorId: z.string().nullable(),
+    actorEmail: z.string().nullable(),
+    apiKeyId: z.string().nullable(),
+    serverId: z.string().nullable(),
+    vhost: z.string().nullable(),
+    metadata: z.unknown().nullable(),
+  })
+  .meta({ id: "AuditLogEntry" });
@@ -50,8 +50,8 @@ export const AlertsQueryWithOptionalVHostSchema = AlertsQuerySchema.omit({
 export const UpdateAlertNotificationSettingsRequestSchema = z.object({
   emailNotificationsEnabled: z.boolean().optional(),
   contactEmail: z.string().email().optional().nullable(),
-  notificationSeverities: z.array(AlertSeveritySchema).optional(), // Array of severities to receive notifications for
-  notificationServerIds: z.array(z.string().uuid()).optional().nullable(), // Array of server IDs to receive notifications for (null/empty = all servers)
+  notificationSeverities: z.array(AlertSeveritySchema).optional(), // Severities sent to email, Slack and webhooks, before routing rules apply
+  notificationServerIds: z.array(z.string().uuid()).optional().nullable(), // Server IDs sent to email, Slack and webhooks, before routing rules apply (null/empty = all servers)
   browserNotificationsEnabled: z.boolean().optional(),
   browserNotificationSeverities: z.array(AlertSeveritySchema).optional(), // Array of severities to receive browser notifications for
 });
@@ -227,3 +227,276 @@ export const UpdateWebhookWithIdSchema = UpdateWebhookSchema.extend({
 export const UpdateSlackConfigWithIdSchema = UpdateSlackConfigSchema.extend({
   id: z.string(),
 });
+
+// ============================================================================
+// Alert Channel Schemas (PagerDuty, Opsgenie & Teams)
+// ============================================================================
+
+const AlertChannelSchema = z.enum(["pagerduty", "opsgenie", "teams"]);
+
+/** PagerDuty Events v2 integration keys are 32 alphanumeric characters */
+const pagerDutyRoutingKeySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9]{32}$/, "Invalid PagerDuty integration key");
+
+const opsgenieApiKeySchema = z.string().trim().min(1).max(128);
+
+const OpsgenieRegionSchema = z.enum(["us", "eu"]);
+
+/**
+ * Teams incoming webhooks (*.webhook.office.com) and their Workflows
+ * replacement (*.logic.azure.com, *.powerplatform.com).
+ */
+const teamsWebhookUrlSchema = z
+  .string()
+  .url("Invalid webhook URL")
+  .refine(
+    (url) => {
+      try {
+        const urlObj = new URL(url);
+        return (
+          urlObj.protocol === "https:" &&
+          /(^|\.)(webhook\.office\.com|logic\.azure\.com|powerplatform\.com)$/.test(
+            urlObj.hostname
+          )
+        );
+      } catch {
+        return false;
+      }
+    },
+    {
+      message:
+        "Invalid Teams webhook URL. Use an incoming webhook or Workflows URL from Microsoft Teams.",
+    }
+  );
+
+const alertChannelFields = {
+  workspaceId: z.string(),
+  name: z.string().trim().min(1).max(100),
+  // Null forwards every severity
+  severities: z.array(AlertSeveritySchema).min(1).nullable().default(null),
+  enabled: z.boolean().default(true),
+};
+
+/**
+ * Schema for creating a PagerDuty, Opsgenie or Teams channel
+ */
+export const CreateAlertChannelSchema = z.discriminatedUnion("channel", [
+  z.object({
+    channel: z.literal("pagerduty"),
+    ...alertChannelFields,
+    routingKey: pagerDutyRoutingKeySchema,
+  }),
+  z.object({
+    channel: z.literal("opsgenie"),
+    ...alertChannelFields,
+    apiKey: opsgenieApiKeySchema,
+    region: OpsgenieRegionSchema.default("us"),
+  }),
+  z.object({
+    channel: z.literal("teams"),
+    ...alertChannelFields,
+    webhookUrl: teamsWebhookUrlSchema,
+  }),
+]);
+
+const updateAlertChannelFields = {
+  workspaceId: z.string(),
+  id: z.string(),
+  name: alertChannelFields.name.optional(),
+  severities: z.array(AlertSeveritySchema).min(1).nullable().optional(),
+  enabled: z.boolean().optional(),
+};
+
+/**
+ * Schema for updating an alert channel. Secrets are write-only: leave
+ * them out to keep the stored one.
+ */
+export const UpdateAlertChannelSchema = z.discriminatedUnion("channel", [
+  z.object({
+    channel: z.literal("pagerduty"),
+    ...updateAlertChannelFields,
+    routingKey: pagerDutyRoutingKeySchema.optional(),
+  }),
+  z.object({
+    channel: z.literal("opsgenie"),
+    ...updateAlertChannelFields,
+    apiKey: opsgenieApiKeySchema.optional(),
+    region: OpsgenieRegionSchema.optional(),
+  }),
+  z.object({
+    channel: z.literal("teams"),
+    ...updateAlertChannelFields,
+    webhookUrl: teamsWebhookUrlSchema.optional(),
+  }),
+]);
+
+export const AlertChannelIdSchema = z.object({
+  workspaceId: z.string(),
+  channel: AlertChannelSchema,
+  id: z.string(),
+});
+
+// ============================================================================
+// Notification Routing Schemas (routing rules & escalation policies)
+// ============================================================================
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour HH:MM time");
+
+const timeZoneSchema = z.string().refine(
+  (timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Unknown time zone" }
+);
+
+const QuietHoursSchema = z
+  .object({
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+    timezone: timeZoneSchema.default("UTC"),
+  })
+  .refine((quietHours) => quietHours.start !== quietHours.end, {
+    message: "Quiet hours must not start and end at the same time",
+  });
+
+const queuePatternSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .refine(
+    (pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression" }
+  );
+
+// Null match fields match every alert
+const routingRuleFields = {
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean(),
+  severities: z.array(AlertSeveritySchema).min(1).nullable(),
+  environments: z
+    .array(z.string().trim().min(1).max(50))
+    .min(1)
+    .max(20)
+    .nullable(),
+  vhosts: z.array(z.string().min(1).max(255)).min(1).max(50).nullable(),
+  queuePattern: queuePatternSchema.nullable(),
+  categories: z.array(AlertCategorySchema).min(1).nullable(),
+  escalationPolicyId: z.string(),
+  continueMatching: z.boolean(),
+  quietHours: QuietHoursSchema.nullable(),
+};
+
+/**
+ * Schema for creating a routing rule; it is appended to the rule order
+ */
+export const CreateRoutingRuleSchema = z.object({
+  workspaceId: z.string(),
+  ...routingRuleFields,
+  enabled: routingRuleFields.enabled.default(true),
+  severities: routingRuleFields.severities.default(null),
+  environments: routingRuleFields.environments.default(null),
+  vhosts: routingRuleFields.vhosts.default(null),
+  queuePattern: routingRuleFields.queuePattern.default(null),
+  categories: routingRuleFields.categories.default(null),
+  continueMatching: routingRuleFields.continueMatching.default(false),
+  quietHours: routingRuleFields.quietHours.default(null),
+});
+
+export const UpdateRoutingRuleSchema = z
+  .object(routingRuleFields)
+  .partial()
+  .extend({ workspaceId: z.string(), id: z.string() });
+
+export const RoutingRuleIdSchema = z.object({
+  workspaceId: z.string(),
+  id: z.string(),
+});
+
+/** Every rule of the workspace, in the new evaluation order */
+export const ReorderRoutingRulesSchema = z.object({
+  workspaceId: z.string(),
+  ruleIds: z.array(z.string()).min(1).max(200),
+});
+
+const RoutingChannelSchema = z.enum([
+  "pagerduty",
+  "opsgenie",
+  "teams",
+  "slack",
+  "email",
+  "webhook",
+]);
+
+const EscalationStepSchema = z.object({
+  // Minutes after the previous step; the first step after the alert fired
+  delayMinutes: z.number().int().min(0).max(1440),
+  targets: z
+    // configId is the config or webhook id, or the address for email
+    .array(z.object({ channel: RoutingChannelSchema, configId: z.string() }))
+    .min(1)
+    .max(10),
+});
+
+const escalationPolicyFields = {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable(),
+  steps: z.array(EscalationStepSchema).min(1).max(10),
+};
+
+export const CreateEscalationPolicySchema = z.object({
+  workspaceId: z.string(),
+  ...escalationPolicyFields,
+  description: escalationPolicyFields.description.default(null),
+});
+
+export const UpdateEscalationPolicySchema = z
+  .object(escalationPolicyFields)
+  .partial()
+  .extend({ workspaceId: z.string(), id: z.string() });
+
+export const EscalationPolicyIdSchema = z.object({
+  workspaceId: z.string(),
+  id: z.string(),
+});
+
+// ============================================================================
+// Webhook Signing, Subscription & Delivery Schemas
+// ============================================================================
+
+export const WorkspaceWebhookIdSchema = z.object({
+  workspaceId: z.string(),
+  id: z.string(),
+});
+
+export const UpdateWebhookSubscriptionsSchema = WorkspaceWebhookIdSchema.extend(
+  {
+    events: z.array(z.enum(["alerts", "audit", "config_findings"])).min(1),
+    version: z.enum(["v1"]),
+  }
+);
+
+export const RotateWebhookSecretSchema = WorkspaceWebhookIdSchema.extend({
+  // How long deliveries stay signed with the old secret too; 0 retires it
+  overlapHours: z.number().int().min(0).max(168).default(24),
+});
+
+export const WebhookDeliveriesSchema = WorkspaceWebhookIdSchema.extend({
+  cursor: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(25),
+});
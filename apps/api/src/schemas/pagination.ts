@@ -15,3 +15,13 @@ export function paginateQuery(input: PaginationInput) {
 export function paginationMeta(page: number, limit: number, total: number) {
   return { page, limit, total, pages: Math.ceil(total / limit) };
 }
+
+/**
+ * Query-string variant of {@link PaginationInputSchema} for the REST API —
+ * values arrive as strings, so they are coerced before the same bounds
+ * apply.
+ */
+export const PaginationQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
@@ -9,25 +9,50 @@ const HostSchema = z
   .max(253, "Host must be 253 characters or less")
   .trim();
 
+// PEM text — capped well above any real chain so a pasted file can't bloat the row
+const PemSchema = z.string().max(64 * 1024, "PEM must be 64 KB or less");
+
+// Per-server TLS material for brokers behind a private PKI. On update
+// `undefined` keeps the stored value and `null`/"" clears it (the client key
+// is never sent back to the browser).
+const BrokerTlsSchema = z.object({
+  ca: PemSchema.nullable().optional(),
+  cert: PemSchema.nullable().optional(),
+  key: PemSchema.nullable().optional(),
+  servername: z.string().trim().max(253).nullable().optional(),
+});
+
+// External source of the broker password: `env:QAROTE_SECRET_<NAME>` or
+// `file:<path>` — fenced and resolved by services/secret-source
+const PasswordRefSchema = z
+  .string()
+  .trim()
+  .max(512)
+  .regex(/^(env|file):./, "Secret references start with env: or file:");
+
 // Schema for RabbitMQ server credentials
 const RabbitMQCredentialsSchema = z.object({
   host: HostSchema,
   port: z.number().int().positive().default(15672), // Management API port
   amqpPort: z.number().int().positive().default(5672), // AMQP protocol port
   username: z.string().min(1, "Username is required"),
-  password: z.string().min(1, "Password is required"),
+  password: z.string().min(1, "Password is required").optional(),
+  passwordRef: PasswordRefSchema.nullable().optional(),
   vhost: z.string().default("/"),
   useHttps: z.boolean(),
+  tls: BrokerTlsSchema.optional(),
 });
 
 // Schema for creating a new RabbitMQ server
-const CreateServerSchema = z.object({
+export const CreateServerSchema = z.object({
   name: z.string().min(1, "Server name is required"),
   host: HostSchema,
   port: z.number().int().positive().default(15672), // Management API port
   amqpPort: z.number().int().positive().default(5672), // AMQP protocol port
   username: z.string().min(1, "Username is required"),
-  password: z.string().min(1, "Password is required"),
+  // Optional only when `passwordRef` is given — see the create refinement
+  password: z.string().min(1, "Password is required").optional(),
+  passwordRef: PasswordRefSchema.nullable().optional(),
   vhost: z.string().default("/"),
   useHttps: z.boolean(),
   // RBAC Phase 3 — free-text environment tag (`prod`, `staging`, `dev`).
@@ -41,6 +66,7 @@ const CreateServerSchema = z.object({
     .nullable()
     .optional()
     .transform((v) => (v ? v : null)),
+  tls: BrokerTlsSchema.optional(),
 });
 
 // Schema for updating a RabbitMQ server
@@ -68,6 +94,10 @@ export const CreateQueueSchema = z.object({
   // Optional binding configuration
   bindToExchange: z.string().optional(),
   routingKey: z.string().default(""),
+  // Declare from a workspace queue template. The template's latest version
+  // supplies durability and arguments — `durable`, `autoDelete` and
+  // `arguments` above are ignored when set.
+  templateId: z.string().optional(),
 });
 
 // Schema for publishing a message to a queue (alternative to exchange publishing)
@@ -148,6 +178,147 @@ export const ServerWorkspaceWithQueueNameSchema =
     queueName: z.string(),
   });
 
+// Consumer health over the last `windowMinutes`. Capped at the hour of
+// channel samples the Management API keeps by default.
+export const QueueConsumerHealthSchema =
+  ServerWorkspaceWithQueueNameSchema.merge(VHostRequiredQuerySchema).extend({
+    windowMinutes: z.number().int().min(1).max(60).default(5),
+  });
+
+// Queue targeted by a pause or resume. vhost defaults to the server's own.
+export const QueuePauseTargetSchema = ServerWorkspaceWithQueueNameSchema.merge(
+  VHostOptionalQuerySchema
+);
+
+// Pause a queue, optionally until a given time (auto-resume). Recorded
+// here, applied by the queue-pause worker.
+export const PauseQueueSchema = QueuePauseTargetSchema.extend({
+  reason: z.string().trim().max(500).optional(),
+  pausedUntil: z.coerce.date().optional(),
+});
+
+// Bulk queue operations. vhosts here are plain values (JSON body), not
+// URL-encoded like the single-queue query params.
+const BulkQueueRefSchema = z.object({
+  name: z.string().min(1),
+  vhost: z.string().min(1),
+});
+
+// Selector name patterns run on the server as typed; one that does not
+// compile is refused instead of matching as a substring.
+const selectorRegexSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .refine(
+    (pattern) => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression" }
+  );
+
+export const QueueSelectorSchema = z
+  .object({
+    vhost: z.string().min(1).optional(),
+    nameRegex: selectorRegexSchema.optional(),
+    emptyOnly: z.boolean().optional(),
+    withoutConsumers: z.boolean().optional(),
+    idleSince: z.coerce.date().optional(),
+  })
+  .refine(
+    (selector) =>
+      selector.vhost !== undefined ||
+      selector.nameRegex !== undefined ||
+      selector.emptyOnly ||
+      selector.withoutConsumers ||
+      selector.idleSince !== undefined,
+    { message: "Selector needs at least one criterion" }
+  );
+
+export const BulkQueueTargetSchema = z.union([
+  z.object({ queues: z.array(BulkQueueRefSchema).min(1).max(1000) }),
+  z.object({ selector: QueueSelectorSchema }),
+]);
+
+export const PreviewBulkQueuesSchema = ServerWorkspaceInputSchema.extend({
+  target: BulkQueueTargetSchema,
+});
+
+// `operationId` is generated by the client so it can watch progress while
+// the mutation runs.
+export const BulkQueueOperationSchema = PreviewBulkQueuesSchema.extend({
+  operationId: z.string().uuid(),
+});
+
+export const BulkDeleteQueuesSchema = BulkQueueOperationSchema.extend({
+  ifUnused: z.boolean().optional().default(false),
+  ifEmpty: z.boolean().optional().default(false),
+});
+
+export const BulkPauseQueuesSchema = BulkQueueOperationSchema.extend({
+  reason: z.string().trim().max(500).optional(),
+  pausedUntil: z.coerce.date().optional(),
+});
+
+export const BulkOperationIdSchema = ServerWorkspaceInputSchema.extend({
+  operationId: z.string().uuid(),
+});
+
+// Connection names look like "10.0.0.5:50312 -> 10.0.0.1:5672"; sent as
+// plain values and encoded by the client for the Management API path.
+export const ServerWorkspaceWithConnectionNameSchema =
+  ServerWorkspaceInputSchema.extend({
+    connectionName: z.string().min(1),
+  });
+
+// Shown to the client application in the connection.close frame
+const ConnectionCloseReasonSchema = z.string().trim().max(200).optional();
+
+export const CloseConnectionSchema =
+  ServerWorkspaceWithConnectionNameSchema.extend({
+    reason: ConnectionCloseReasonSchema,
+  });
+
+export const ConnectionSelectorSchema = z
+  .object({
+    vhost: z.string().min(1).optional(),
+    user: z.string().min(1).optional(),
+    clientNameRegex: selectorRegexSchema.optional(),
+    peerHost: z.string().min(1).optional(),
+  })
+  .refine(
+    // A vhost alone would take down every client on it
+    (selector) =>
+      selector.user !== undefined ||
+      selector.clientNameRegex !== undefined ||
+      selector.peerHost !== undefined,
+    { message: "Selector needs a user, client name or peer host" }
+  );
+
+export const ConnectionCloseTargetSchema = z.union([
+  z.object({ connections: z.array(z.string().min(1)).min(1).max(500) }),
+  z.object({ selector: ConnectionSelectorSchema }),
+]);
+
+export const PreviewCloseConnectionsSchema = ServerWorkspaceInputSchema.extend({
+  target: ConnectionCloseTargetSchema,
+});
+
+export const CloseConnectionsSchema = PreviewCloseConnectionsSchema.extend({
+  reason: ConnectionCloseReasonSchema,
+});
+
+/** Rotation cadence of the connection password and the administrators the hygiene check expects. */
+export const PasswordRotationPolicySchema = ServerWorkspaceInputSchema.extend({
+  rotationDays: z.number().int().min(1).max(365).nullable(),
+  expectedAdmins: z.array(z.string().trim().min(1).max(255)).max(50),
+});
+
 export const ServerWorkspaceWithNodeNameSchema =
   ServerWorkspaceInputSchema.extend({
     nodeName: z.string(),
@@ -158,6 +329,45 @@ export const ServerWorkspaceWithVHostNameSchema =
     vhostName: z.string(),
   });
 
+const VHostRenameRuleSchema = z.object({
+  appliesTo: z.enum(["queues", "exchanges", "all"]),
+  match: z
+    .string()
+    .min(1)
+    .max(200)
+    .refine(
+      (pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Invalid regular expression" }
+    ),
+  replace: z.string().max(200),
+});
+
+// Source is `serverId` + `vhostName`; the target may be the same server
+export const PreviewVHostCloneSchema =
+  ServerWorkspaceWithVHostNameSchema.extend({
+    targetServerId: z.string().min(1),
+    targetVhost: z.string().trim().min(1).max(255),
+    renameRules: z.array(VHostRenameRuleSchema).max(20).default([]),
+    excludeUsers: z.boolean().default(false),
+  });
+
+// `operationId` is generated by the client so it can watch progress while
+// the mutation runs.
+export const CloneVHostSchema = PreviewVHostCloneSchema.extend({
+  operationId: z.string().uuid(),
+});
+
+export const VHostCloneIdSchema = ServerWorkspaceInputSchema.extend({
+  operationId: z.string().uuid(),
+});
+
 // Time range schema for metrics
 const TimeRangeSchema = z.enum(["1m", "10m", "1h", "8h", "1d"]);
 
@@ -182,6 +392,9 @@ export const GetServerInputSchema = WorkspaceIdOnlySchema.extend({
 
 export const CreateServerWithWorkspaceSchema = CreateServerSchema.extend({
   workspaceId: z.string(),
+}).refine((data) => !!data.password || !!data.passwordRef, {
+  message: "Password is required",
+  path: ["password"],
 });
 
 export const UpdateServerWithWorkspaceSchema = UpdateServerSchema.extend({
@@ -201,6 +414,12 @@ export const DeleteServerInputSchema = WorkspaceIdOnlySchema.extend({
 export const TestConnectionWithWorkspaceSchema =
   RabbitMQCredentialsSchema.extend({
     workspaceId: z.string(),
+    // Edit mode: TLS fields left undefined fall back to this server's stored
+    // material, so a test doesn't need the (never returned) client key.
+    serverId: z.string().optional(),
+  }).refine((data) => !!data.password || !!data.passwordRef, {
+    message: "Password is required",
+    path: ["password"],
   });
 
 // Schema for creating/updating a policy
@@ -221,6 +440,61 @@ export const DeletePolicySchema = z.object({
   policyName: z.string().trim().min(1, "Policy name is required"),
 });
 
+// Queue templates. `{queue}` in dead-letter names stands for the queue name.
+const TemplateNameSchema = z.string().trim().min(1).max(100);
+
+export const QueueTemplateSpecSchema = z.object({
+  queueType: z.enum(["classic", "quorum", "stream"]),
+  durable: z.boolean().default(true),
+  autoDelete: z.boolean().default(false),
+  arguments: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .default({}),
+  deadLetter: z
+    .object({
+      exchange: TemplateNameSchema,
+      exchangeType: z.enum(["direct", "fanout", "topic"]).default("direct"),
+      queue: TemplateNameSchema,
+      routingKey: z.string().max(255).default("{queue}"),
+    })
+    .nullable()
+    .default(null),
+  policy: z
+    .object({
+      definition: z
+        .record(z.string(), z.unknown())
+        .refine((obj) => Object.keys(obj).length > 0, {
+          message: "Policy definition must contain at least one key",
+        }),
+      priority: z.number().int().min(0).max(1_000_000).default(0),
+    })
+    .nullable()
+    .default(null),
+});
+
+export const ListQueueTemplatesSchema = WorkspaceIdOnlySchema.extend({
+  includeArchived: z.boolean().optional(),
+});
+
+export const QueueTemplateIdSchema = WorkspaceIdOnlySchema.extend({
+  templateId: z.string(),
+});
+
+export const CreateQueueTemplateSchema = WorkspaceIdOnlySchema.extend({
+  name: TemplateNameSchema,
+  description: z.string().trim().max(500).optional(),
+  spec: QueueTemplateSpecSchema,
+});
+
+export const PublishQueueTemplateVersionSchema = QueueTemplateIdSchema.extend({
+  description: z.string().trim().max(500).optional(),
+  spec: QueueTemplateSpecSchema,
+});
+
+export const CheckTemplateDriftSchema = ServerWorkspaceInputSchema.extend({
+  templateId: z.string().optional(),
+});
+
 // Metrics schemas
 export const GetMetricsSchema = ServerWorkspaceInputSchema.extend({
   timeRange: TimeRangeSchema.optional().default("1m"),
@@ -233,3 +507,218 @@ export const GetQueueRatesSchema = ServerWorkspaceWithQueueNameSchema.extend({
 // Publish message with queue schema
 export const PublishMessageWithQueueSchema =
   ServerWorkspaceWithQueueNameSchema.merge(publishMessageToQueueSchema);
+
+// Schema for browsing (peeking) messages in a queue. Only non-destructive
+// ack modes are accepted — messages always go back to the queue.
+export const BrowseMessagesSchema = ServerWorkspaceWithQueueNameSchema.extend({
+  count: z.number().int().min(1).max(100).default(10),
+  ackMode: z.enum(["requeue", "reject_requeue"]).default("requeue"),
+  // "auto" lets the broker pick (UTF-8 → string, binary → base64); "string"
+  // forces a UTF-8 decode, "base64" forces raw bytes.
+  encoding: z.enum(["auto", "base64", "string"]).default("auto"),
+  truncate: z.number().int().positive().max(50_000_000).optional(),
+});
+
+// Schema for moving messages out of a queue into another exchange
+export const MoveMessagesSchema = ServerWorkspaceWithQueueNameSchema.extend({
+  targetExchange: z.string().default(""), // Default exchange routes by queue name
+  targetRoutingKey: z.string(),
+  count: z.number().int().min(1).max(10_000),
+});
+
+// Schema for requeueing dead-lettered messages back to their origin queue
+export const RequeueFromDlqSchema = ServerWorkspaceWithQueueNameSchema.extend({
+  count: z.number().int().min(1).max(10_000),
+});
+
+const BindingDestinationTypeSchema = z.enum(["queue", "exchange"]);
+
+// Schema for creating a binding (exchange → queue or exchange → exchange)
+export const CreateBindingSchema = ServerWorkspaceInputSchema.extend({
+  source: z.string(), // "" is the default exchange — rejected by the router
+  destination: z.string().min(1, "Destination is required"),
+  destinationType: BindingDestinationTypeSchema,
+  routingKey: z.string().default(""),
+  // Matched by headers exchanges (plus `x-match`); ignored by the others
+  arguments: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .default({}),
+});
+
+// Schema for deleting a binding, identified by its properties_key
+export const DeleteBindingSchema = ServerWorkspaceInputSchema.extend({
+  source: z.string(),
+  destination: z.string().min(1, "Destination is required"),
+  destinationType: BindingDestinationTypeSchema,
+  propertiesKey: z.string().min(1, "Binding properties key is required"),
+});
+
+// AMQP URIs used by shovels and federation upstreams. "amqp://" alone
+// means the local broker (default vhost); credentials may be embedded.
+const AmqpUriListSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .regex(/^amqps?:\/\//, "URI must start with amqp:// or amqps://")
+  )
+  .min(1, "At least one URI is required");
+
+const ShovelAckModeSchema = z.enum(["on-confirm", "on-publish", "no-ack"]);
+
+// One side of a shovel: either a queue, or an exchange plus routing key
+const ShovelEndpointSchema = z
+  .object({
+    uris: AmqpUriListSchema,
+    queue: z.string().trim().optional(),
+    exchange: z.string().trim().optional(),
+    exchangeKey: z.string().optional(),
+  })
+  .refine((e) => !(e.queue && e.exchange), {
+    message: "Specify either a queue or an exchange, not both",
+  });
+
+// Schema for creating (or replacing) a dynamic shovel
+export const CreateShovelSchema = ServerWorkspaceInputSchema.extend({
+  name: z.string().trim().min(1, "Shovel name is required"),
+  source: ShovelEndpointSchema.refine((e) => !!(e.queue || e.exchange), {
+    message: "Source queue or exchange is required",
+  }),
+  destination: ShovelEndpointSchema,
+  ackMode: ShovelAckModeSchema.default("on-confirm"),
+  prefetchCount: z.number().int().positive().max(65_535).optional(),
+  reconnectDelay: z.number().int().min(0).max(3600).optional(),
+  // "queue-length" drains what is in the source queue at start, then stops
+  deleteAfter: z
+    .union([z.enum(["never", "queue-length"]), z.number().int().positive()])
+    .default("never"),
+  addForwardHeaders: z.boolean().default(false),
+});
+
+// Schema for deleting / restarting a shovel
+export const ShovelNameSchema = ServerWorkspaceInputSchema.extend({
+  name: z.string().trim().min(1, "Shovel name is required"),
+});
+
+// Schema for creating (or replacing) a federation upstream
+export const CreateFederationUpstreamSchema = ServerWorkspaceInputSchema.extend(
+  {
+    name: z.string().trim().min(1, "Upstream name is required"),
+    uris: AmqpUriListSchema,
+    // Defaults to the name of the federated exchange / queue downstream
+    exchange: z.string().trim().optional(),
+    queue: z.string().trim().optional(),
+    prefetchCount: z.number().int().positive().max(65_535).optional(),
+    reconnectDelay: z.number().int().min(0).max(3600).optional(),
+    ackMode: ShovelAckModeSchema.default("on-confirm"),
+    trustUserId: z.boolean().default(false),
+    maxHops: z.number().int().min(1).max(255).optional(),
+    expires: z.number().int().positive().optional(),
+    messageTtl: z.number().int().positive().optional(),
+  }
+);
+
+// Schema for deleting a federation upstream
+export const FederationUpstreamNameSchema = ServerWorkspaceInputSchema.extend({
+  name: z.string().trim().min(1, "Upstream name is required"),
+});
+
+// Schema for restarting a federation link (links are per node)
+export const RestartFederationLinkSchema = ServerWorkspaceInputSchema.extend({
+  linkId: z.string().min(1, "Link id is required"),
+  node: z.string().min(1, "Node is required"),
+});
+
+// Broker definitions document (GET/POST /api/definitions). Only the fields
+// the definitions diff compares are declared; every other field is kept as-is
+// so a selective import uploads items exactly as they were exported. `vhost`
+// is absent from every item in a vhost-scoped export.
+const DefinitionArgumentsSchema = z.record(z.string(), z.unknown());
+
+export const QueueDefinitionSchema = z.looseObject({
+  name: z.string(),
+  vhost: z.string().optional(),
+  durable: z.boolean().optional(),
+  auto_delete: z.boolean().optional(),
+  arguments: DefinitionArgumentsSchema.optional(),
+});
+
+export const ExchangeDefinitionSchema = z.looseObject({
+  name: z.string(),
+  vhost: z.string().optional(),
+  type: z.string(),
+  durable: z.boolean().optional(),
+  auto_delete: z.boolean().optional(),
+  internal: z.boolean().optional(),
+  arguments: DefinitionArgumentsSchema.optional(),
+});
+
+export const BindingDefinitionSchema = z.looseObject({
+  source: z.string(),
+  vhost: z.string().optional(),
+  destination: z.string(),
+  destination_type: z.string(),
+  routing_key: z.string().optional(),
+  arguments: DefinitionArgumentsSchema.optional(),
+});
+
+export const PolicyDefinitionSchema = z.looseObject({
+  name: z.string(),
+  vhost: z.string().optional(),
+  pattern: z.string(),
+  "apply-to": z.string().optional(),
+  definition: DefinitionArgumentsSchema,
+  priority: z.number().optional(),
+});
+
+export const UserDefinitionSchema = z.looseObject({
+  name: z.string(),
+  password_hash: z.string().optional(),
+  hashing_algorithm: z.string().optional(),
+  // Comma-separated string before RabbitMQ 3.13, an array since
+  tags: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+export const PermissionDefinitionSchema = z.looseObject({
+  user: z.string(),
+  vhost: z.string().optional(),
+  configure: z.string(),
+  write: z.string(),
+  read: z.string(),
+});
+
+export const DefinitionsDocumentSchema = z
+  .looseObject({
+    queues: z.array(QueueDefinitionSchema).optional(),
+    exchanges: z.array(ExchangeDefinitionSchema).optional(),
+    bindings: z.array(BindingDefinitionSchema).optional(),
+    policies: z.array(PolicyDefinitionSchema).optional(),
+    users: z.array(UserDefinitionSchema).optional(),
+    permissions: z.array(PermissionDefinitionSchema).optional(),
+  })
+  // A JSON file with none of the sections is almost certainly the wrong file
+  .refine(
+    (doc) =>
+      [
+        "queues",
+        "exchanges",
+        "bindings",
+        "policies",
+        "users",
+        "permissions",
+        "vhosts",
+        "parameters",
+        "global_parameters",
+        "topic_permissions",
+      ].some((section) => Array.isArray(doc[section])),
+    { message: "Not a broker definitions document" }
+  );
+
+// Schema for diffing / importing a definitions document
+export const DefinitionsImportSchema = ServerWorkspaceInputSchema.merge(
+  VHostOptionalQuerySchema
+).extend({
+  definitions: z.unknown(),
+  // Item keys from `definitions.diff`; omitted = import the whole document
+  selection: z.array(z.string()).max(10_000).optional(),
+});
@@ -42,10 +42,12 @@ import { createContext } from "@/trpc/context";
 import { standardRateLimiter } from "./middlewares/rateLimiter";
 
 import healthcheckController from "@/controllers/healthcheck.controller";
+import metricsController from "@/controllers/metrics.controller";
 import webhookController from "@/controllers/payment/webhook.controller";
 import quizController from "@/controllers/quiz.controller";
 import { appRouter } from "@/trpc/router";
 import { mcpRouter } from "@/mcp/route";
+import { restV1Router } from "@/rest/v1/route";
 
 const app = new Hono();
 
@@ -104,6 +106,11 @@ app.use(
 app.use("/api/mcp/*", standardRateLimiter);
 app.route("/api/mcp", mcpRouter);
 
+// Public read-only REST API + its OpenAPI document, for tooling that can't
+// speak tRPC. Same API keys as /api/mcp, same edge throttling.
+app.use("/api/v1/*", standardRateLimiter);
+app.route("/api/v1", restV1Router);
+
 
 // OG unfurl route for /explanations/:id — registered BEFORE the SPA catch-all
 // and outside the !isCloudMode() gate so it works in both cloud and self-hosted.
@@ -205,6 +212,11 @@ app.route("/api/quiz", quizController);
 // 1. Health check (most basic)
 app.route("/", healthcheckController);
 
+// OpenMetrics scrape endpoint, authenticated by a workspace API key. Throttled
+// like /api/mcp since every scrape runs verifyApiKey + DB lookups.
+app.use("/metrics", standardRateLimiter);
+app.route("/metrics", metricsController);
+
 // --- Self-hosted: Serve embedded frontend (binary + single-container mode) ---
 // In non-cloud modes, if a public/ directory exists alongside the binary/dist,
 // serve the frontend from it. This enables single-binary and single-container deployments.
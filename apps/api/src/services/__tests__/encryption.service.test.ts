@@ -0,0 +1,84 @@
+import crypto from "node:crypto";
+
+import { describe, expect, it, vi } from "vitest";
+
+const OLD_KEY = "old-encryption-key-for-tests-only-32-chars";
+const NEW_KEY = "new-encryption-key-for-tests-only-32-chars";
+
+vi.mock("@/config", () => ({
+  authConfig: {
+    encryptionKey: "new-encryption-key-for-tests-only-32-chars",
+    encryptionKeyVersion: 2,
+    previousEncryptionKeys: "1:old-encryption-key-for-tests-only-32-chars",
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { EncryptionService, parsePreviousKeys } from "../encryption.service";
+
+/** A ciphertext as written before key versioning: `iv:data`, no prefix. */
+function legacyEncrypt(text: string, secret: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv(
+    "aes-256-cbc",
+    crypto.scryptSync(secret, "salt", 32),
+    iv
+  );
+  return `${iv.toString("hex")}:${cipher.update(text, "utf8", "hex")}${cipher.final("hex")}`;
+}
+
+describe("EncryptionService key versions", () => {
+  it("writes under the current version and reads it back", () => {
+    const encrypted = EncryptionService.encrypt("s3cret");
+
+    expect(encrypted).toMatch(/^v2:[0-9a-f]{32}:/);
+    expect(EncryptionService.keyVersionOf(encrypted)).toBe(2);
+    expect(EncryptionService.decrypt(encrypted)).toBe("s3cret");
+  });
+
+  it("reads unprefixed ciphertexts with the version 1 key", () => {
+    const legacy = legacyEncrypt("s3cret", OLD_KEY);
+
+    expect(EncryptionService.keyVersionOf(legacy)).toBe(1);
+    expect(EncryptionService.decrypt(legacy)).toBe("s3cret");
+  });
+
+  it("re-encrypts old ciphertexts and leaves current ones alone", () => {
+    const legacy = legacyEncrypt("s3cret", OLD_KEY);
+    const rotated = EncryptionService.reencrypt(legacy);
+
+    expect(EncryptionService.keyVersionOf(rotated)).toBe(2);
+    expect(EncryptionService.decrypt(rotated)).toBe("s3cret");
+    expect(EncryptionService.reencrypt(rotated)).toBe(rotated);
+    expect(EncryptionService.reencrypt("")).toBe("");
+  });
+
+  it("refuses a version it has no key for", () => {
+    const unknown = legacyEncrypt("s3cret", NEW_KEY).replace(/^/, "v7:");
+
+    expect(() => EncryptionService.decrypt(unknown)).toThrow(
+      "No encryption key configured for version 7"
+    );
+  });
+});
+
+describe("parsePreviousKeys", () => {
+  it("parses version:key pairs, keys may contain colons", () => {
+    expect(parsePreviousKeys(" 1:abc, 3:d:e ")).toEqual(
+      new Map([
+        [1, "abc"],
+        [3, "d:e"],
+      ])
+    );
+    expect(parsePreviousKeys(undefined).size).toBe(0);
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parsePreviousKeys("abc")).toThrow();
+    expect(() => parsePreviousKeys("0:abc")).toThrow();
+    expect(() => parsePreviousKeys("2:")).toThrow();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/config", () => ({
+  appConfig: { baseUrl: "https://app.example.com/" },
+}));
+
+import {
+  alertDedupKey,
+  type AlertRecord,
+  forwardsSeverity,
+  toAlertNotificationPayload,
+} from "../alert-payload";
+import { opsgenieRequest } from "../opsgenie";
+import { pagerDutyEvent } from "../pagerduty";
+import { slackMessage } from "../slack";
+import { teamsMessage } from "../teams";
+
+function alertRecord(overrides: Partial<AlertRecord> = {}): AlertRecord {
+  return {
+    id: "alert-1",
+    workspaceId: "ws-1",
+    fingerprint: "ws-1:server-1:queue:orders:QUEUE_MESSAGES",
+    title: "Queue orders is backing up",
+    description: "12000 messages ready (threshold 10000)",
+    severity: "HIGH",
+    serverId: "server-1",
+    serverName: "prod-rabbit",
+    vhost: "/",
+    category: "queue",
+    sourceType: "queue",
+    sourceName: "orders",
+    value: 12000,
+    threshold: 10000,
+    createdAt: new Date("2026-10-01T10:05:00.000Z"),
+    firstSeenAt: new Date("2026-10-01T10:00:00.000Z"),
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+describe("alertDedupKey", () => {
+  it("is stable across alerts sharing a fingerprint", () => {
+    const first = alertDedupKey({ id: "a", fingerprint: "fp" });
+    const refire = alertDedupKey({ id: "b", fingerprint: "fp" });
+    expect(first).toBe(refire);
+    expect(first).toMatch(/^qarote-[0-9a-f]{40}$/);
+  });
+
+  it("falls back to the alert id without a fingerprint", () => {
+    expect(alertDedupKey({ id: "a", fingerprint: null })).not.toBe(
+      alertDedupKey({ id: "b", fingerprint: null })
+    );
+  });
+});
+
+describe("toAlertNotificationPayload", () => {
+  it("dates the alert from its first sighting and links to the alerts page", () => {
+    const payload = toAlertNotificationPayload(alertRecord());
+    expect(payload.firedAt).toBe("2026-10-01T10:00:00.000Z");
+    expect(payload.resolvedAt).toBeNull();
+    expect(payload.url).toBe("https://app.example.com/alerts");
+    expect(payload.dedupKey).toBe(alertDedupKey(alertRecord()));
+  });
+});
+
+describe("forwardsSeverity", () => {
+  it("forwards everything when no severities are set", () => {
+    expect(forwardsSeverity(null, "INFO")).toBe(true);
+  });
+
+  it("filters on the configured severities", () => {
+    expect(forwardsSeverity(["CRITICAL", "HIGH"], "HIGH")).toBe(true);
+    expect(forwardsSeverity(["CRITICAL", "HIGH"], "LOW")).toBe(false);
+  });
+});
+
+describe("provider payloads", () => {
+  const payload = toAlertNotificationPayload(alertRecord());
+
+  it("triggers and resolves the same PagerDuty incident", () => {
+    const trigger = pagerDutyEvent("routing-key", "trigger", payload);
+    const resolve = pagerDutyEvent("routing-key", "resolve", payload);
+    expect(trigger).toEqual(
+      expect.objectContaining({
+        event_action: "trigger",
+        dedup_key: payload.dedupKey,
+        payload: expect.objectContaining({
+          severity: "error",
+          source: "prod-rabbit",
+        }),
+      })
+    );
+    expect(resolve).toEqual({
+      routing_key: "routing-key",
+      event_action: "resolve",
+      dedup_key: payload.dedupKey,
+    });
+  });
+
+  it("closes the Opsgenie alert by alias on resolve", () => {
+    const trigger = opsgenieRequest("eu", "trigger", payload);
+    expect(trigger.url).toBe("https://api.eu.opsgenie.com/v2/alerts");
+    expect(trigger.body).toEqual(
+      expect.objectContaining({
+        alias: payload.dedupKey,
+        priority: "P2",
+        details: expect.objectContaining({ value: "12000", vhost: "/" }),
+      })
+    );
+
+    const resolve = opsgenieRequest("us", "resolve", payload);
+    expect(resolve.url).toBe(
+      `https://api.opsgenie.com/v2/alerts/${payload.dedupKey}/close?identifierType=alias`
+    );
+  });
+
+  it("posts a resolved Adaptive Card to Teams", () => {
+    const card = teamsMessage("resolve", {
+      ...payload,
+      resolvedAt: "2026-10-01T11:00:00.000Z",
+    });
+    const content = card.attachments[0].content;
+    expect(content.type).toBe("AdaptiveCard");
+    expect(content.body[0]).toEqual(
+      expect.objectContaining({
+        text: "Resolved: Queue orders is backing up",
+        color: "Good",
+      })
+    );
+    expect(content.body).toContainEqual({
+      type: "FactSet",
+      facts: expect.arrayContaining([
+        { title: "Resolved at", value: "2026-10-01T11:00:00.000Z" },
+      ]),
+    });
+  });
+
+  it("posts a colored Slack attachment linking to the alert", () => {
+    const message = slackMessage("trigger", payload);
+    expect(message.text).toBe("HIGH: Queue orders is backing up");
+    const [attachment] = message.attachments;
+    expect(attachment.color).toBe("#ea580c");
+    expect(attachment.blocks[0].text?.text).toBe(
+      `*<${payload.url}|HIGH: Queue orders is backing up>*\n12000 messages ready (threshold 10000)`
+    );
+    expect(attachment.blocks[1].fields).toContainEqual({
+      type: "mrkdwn",
+      text: "*Value*\n12000 (threshold 10000)",
+    });
+  });
+});
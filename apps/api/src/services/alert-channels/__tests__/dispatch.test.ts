@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  alertFindUnique,
+  pagerDutyFindFirst,
+  slackFindUnique,
+  sendPagerDuty,
+  sendSlack,
+  sendAlertEmail,
+} = vi.hoisted(() => ({
+  alertFindUnique: vi.fn(),
+  pagerDutyFindFirst: vi.fn(),
+  slackFindUnique: vi.fn(),
+  sendPagerDuty: vi.fn(),
+  sendSlack: vi.fn(),
+  sendAlertEmail: vi.fn(),
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn() },
+}));
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    alert: { findUnique: alertFindUnique },
+    pagerDutyConfig: { findFirst: pagerDutyFindFirst },
+    slackConfig: { findUnique: slackFindUnique },
+  },
+}));
+vi.mock("@/services/encryption.service", () => ({
+  EncryptionService: { decrypt: (value: string) => value },
+}));
+vi.mock("@/services/email/alert-email.service", () => ({
+  AlertEmailService: { sendAlertEmail },
+}));
+vi.mock("../pagerduty", () => ({ sendPagerDuty }));
+vi.mock("../slack", () => ({ sendSlack }));
+
+import type { AlertNotificationPayload } from "../alert-payload";
+import { dispatchAlertChannel } from "../dispatch";
+
+const payload = {
+  alertId: "alert-1",
+  dedupKey: "qarote-abc",
+} as AlertNotificationPayload;
+
+const escalation = { ...payload, routing: { ruleId: "rule-1", step: 1 } };
+
+describe("dispatchAlertChannel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pagerDutyFindFirst.mockResolvedValue({
+      name: "On-call",
+      enabled: true,
+      routingKey: "key",
+    });
+    sendPagerDuty.mockResolvedValue({ success: true });
+  });
+
+  it("cancels a trigger once the alert is resolved", async () => {
+    alertFindUnique.mockResolvedValue({
+      resolvedAt: new Date(),
+      acknowledgedAt: null,
+      snoozedUntil: null,
+    });
+
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_trigger",
+      "pd-1",
+      payload
+    );
+
+    expect(result.cancelled).toBe("alert resolved before delivery");
+    expect(sendPagerDuty).not.toHaveBeenCalled();
+  });
+
+  it("stops an escalation step once the alert is acknowledged", async () => {
+    alertFindUnique.mockResolvedValue({
+      resolvedAt: null,
+      acknowledgedAt: new Date(),
+      snoozedUntil: null,
+    });
+
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_trigger",
+      "pd-1",
+      escalation
+    );
+
+    expect(result.cancelled).toMatch(/acknowledged/);
+    expect(sendPagerDuty).not.toHaveBeenCalled();
+  });
+
+  it("drops the first step of an acknowledged alert too", async () => {
+    alertFindUnique.mockResolvedValue({
+      resolvedAt: null,
+      acknowledgedAt: new Date(),
+      snoozedUntil: null,
+    });
+
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_trigger",
+      "pd-1",
+      { ...escalation, routing: { ruleId: "rule-1", step: 0 } }
+    );
+
+    expect(result.cancelled).toMatch(/acknowledged/);
+    expect(sendPagerDuty).not.toHaveBeenCalled();
+  });
+
+  it("holds an escalation step while the alert is snoozed", async () => {
+    const snoozedUntil = new Date(Date.now() + 60 * 60_000);
+    alertFindUnique.mockResolvedValue({
+      resolvedAt: null,
+      acknowledgedAt: null,
+      snoozedUntil,
+    });
+
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_trigger",
+      "pd-1",
+      escalation
+    );
+
+    expect(result).toEqual({ success: false, deferUntil: snoozedUntil });
+  });
+
+  it("holds the first step of a snoozed alert", async () => {
+    const snoozedUntil = new Date(Date.now() + 60 * 60_000);
+    alertFindUnique.mockResolvedValue({
+      resolvedAt: null,
+      acknowledgedAt: null,
+      snoozedUntil,
+    });
+
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_trigger",
+      "pd-1",
+      { ...escalation, routing: { ruleId: "rule-1", step: 0 } }
+    );
+
+    expect(result).toEqual({ success: false, deferUntil: snoozedUntil });
+    expect(sendPagerDuty).not.toHaveBeenCalled();
+  });
+
+  it("sends a trigger once the snooze has passed", async () => {
+    alertFindUnique.mockResolvedValue({
+      resolvedAt: null,
+      acknowledgedAt: null,
+      snoozedUntil: new Date(Date.now() - 60_000),
+    });
+
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_trigger",
+      "pd-1",
+      payload
+    );
+
+    expect(result).toEqual({ success: true });
+  });
+
+  it("does not gate resolves", async () => {
+    const result = await dispatchAlertChannel(
+      "pagerduty",
+      "alert_resolve",
+      "pd-1",
+      payload
+    );
+
+    expect(alertFindUnique).not.toHaveBeenCalled();
+    expect(sendPagerDuty).toHaveBeenCalledWith("key", "resolve", payload);
+    expect(result).toEqual({ success: true });
+  });
+
+  describe("Slack and email", () => {
+    beforeEach(() => {
+      alertFindUnique.mockResolvedValue({
+        resolvedAt: null,
+        acknowledgedAt: null,
+        snoozedUntil: null,
+      });
+      sendSlack.mockResolvedValue({ success: true });
+      sendAlertEmail.mockResolvedValue({ success: true });
+    });
+
+    it("posts to the Slack config's webhook", async () => {
+      slackFindUnique.mockResolvedValue({
+        enabled: true,
+        webhookUrl: "https://hooks.slack.com/services/T/B/X",
+      });
+
+      const result = await dispatchAlertChannel(
+        "slack",
+        "alert_trigger",
+        "slack-1",
+        payload
+      );
+
+      expect(sendSlack).toHaveBeenCalledWith(
+        "https://hooks.slack.com/services/T/B/X",
+        "trigger",
+        payload
+      );
+      expect(result).toEqual({ success: true });
+    });
+
+    it("drops the row once the Slack config is disabled", async () => {
+      slackFindUnique.mockResolvedValue({ enabled: false, webhookUrl: "x" });
+
+      const result = await dispatchAlertChannel(
+        "slack",
+        "alert_trigger",
+        "slack-1",
+        payload
+      );
+
+      expect(result).toEqual(expect.objectContaining({ permanent: true }));
+      expect(sendSlack).not.toHaveBeenCalled();
+    });
+
+    it("emails the row's address", async () => {
+      await dispatchAlertChannel(
+        "email",
+        "alert_resolve",
+        "ops@example.com",
+        payload
+      );
+
+      expect(sendAlertEmail).toHaveBeenCalledWith({
+        to: "ops@example.com",
+        event: "resolve",
+        alert: payload,
+      });
+    });
+
+    it("holds an email trigger while the alert is snoozed", async () => {
+      const snoozedUntil = new Date(Date.now() + 60 * 60_000);
+      alertFindUnique.mockResolvedValue({
+        resolvedAt: null,
+        acknowledgedAt: null,
+        snoozedUntil,
+      });
+
+      const result = await dispatchAlertChannel(
+        "email",
+        "alert_trigger",
+        "ops@example.com",
+        payload
+      );
+
+      expect(result).toEqual({ success: false, deferUntil: snoozedUntil });
+      expect(sendAlertEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,497 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { enqueueNotification } = vi.hoisted(() => ({
+  enqueueNotification: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({ prisma: {} }));
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock("@/config", () => ({
+  appConfig: { baseUrl: "https://app.example.com" },
+}));
+vi.mock("@/services/notification/notification-outbox.service", () => ({
+  enqueueNotification,
+}));
+
+import type { AlertRecord } from "../alert-payload";
+import { enqueueAlertChannelNotifications } from "../enqueue";
+
+const alert: AlertRecord = {
+  id: "alert-1",
+  workspaceId: "ws-1",
+  fingerprint: "fp-1",
+  title: "Node memory alarm",
+  description: "Memory alarm raised on rabbit@node-1",
+  severity: "CRITICAL",
+  serverId: "server-1",
+  serverName: "prod-rabbit",
+  vhost: null,
+  category: "node",
+  sourceType: "node",
+  sourceName: "rabbit@node-1",
+  value: null,
+  threshold: null,
+  createdAt: new Date("2026-10-01T10:00:00.000Z"),
+  firstSeenAt: null,
+  resolvedAt: null,
+};
+
+function client(configs: {
+  pagerduty?: { id: string; severities: unknown }[];
+  opsgenie?: { id: string; severities: unknown }[];
+  teams?: { id: string; severities: unknown }[];
+  slack?: { id: string }[];
+  workspace?: Record<string, unknown>;
+  members?: string[];
+  rules?: unknown[];
+  environment?: string | null;
+  triggers?: unknown[];
+  webhooks?: unknown[];
+}) {
+  const findMany = (rows: unknown[] = []) => vi.fn().mockResolvedValue(rows);
+  return {
+    pagerDutyConfig: { findMany: findMany(configs.pagerduty) },
+    opsgenieConfig: { findMany: findMany(configs.opsgenie) },
+    teamsConfig: { findMany: findMany(configs.teams) },
+    slackConfig: { findMany: findMany(configs.slack) },
+    workspace: {
+      findUnique: vi.fn().mockResolvedValue({
+        emailNotificationsEnabled: false,
+        contactEmail: null,
+        notificationSeverities: null,
+        notificationServerIds: null,
+        ...configs.workspace,
+      }),
+    },
+    workspaceMember: {
+      findMany: findMany(
+        (configs.members ?? []).map((email) => ({ user: { email } }))
+      ),
+    },
+    notificationRoutingRule: { findMany: findMany(configs.rules) },
+    rabbitMQServer: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue({ environment: configs.environment ?? null }),
+    },
+    notificationOutbox: {
+      findMany: findMany(configs.triggers),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    webhook: { findMany: findMany(configs.webhooks) },
+    $executeRawUnsafe: vi.fn(),
+  } as unknown as NonNullable<
+    Parameters<typeof enqueueAlertChannelNotifications>[2]
+  >;
+}
+
+function rule(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "rule-1",
+    severities: null,
+    environments: null,
+    vhosts: null,
+    queuePattern: null,
+    categories: null,
+    continueMatching: false,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    quietHoursTimezone: null,
+    escalationPolicy: {
+      steps: [
+        {
+          delayMinutes: 0,
+          targets: [{ channel: "pagerduty", configId: "pd-1" }],
+        },
+        {
+          delayMinutes: 15,
+          targets: [{ channel: "opsgenie", configId: "og-1" }],
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe("enqueueAlertChannelNotifications", () => {
+  beforeEach(() => {
+    enqueueNotification.mockReset().mockResolvedValue(true);
+  });
+
+  it("enqueues one row per enabled config that forwards the severity", async () => {
+    const tx = client({
+      pagerduty: [{ id: "pd-1", severities: null }],
+      opsgenie: [{ id: "og-1", severities: ["LOW"] }],
+      teams: [{ id: "teams-1", severities: ["CRITICAL", "HIGH"] }],
+    });
+
+    const count = await enqueueAlertChannelNotifications(alert, "trigger", tx);
+
+    expect(count).toBe(2);
+    expect(enqueueNotification.mock.calls.map((c) => c[0].target)).toEqual([
+      "pd-1",
+      "teams-1",
+    ]);
+    expect(enqueueNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: "pagerduty",
+        template: "alert_trigger",
+        idempotencyKey: "pagerduty:alert:alert-1:trigger:pd-1",
+        payload: expect.objectContaining({ alertId: "alert-1" }),
+      }),
+      tx
+    );
+  });
+
+  it("sends the resolve with the trigger's dedup key", async () => {
+    const tx = client({
+      pagerduty: [{ id: "pd-1", severities: null }],
+      triggers: [
+        {
+          id: "row-1",
+          channel: "pagerduty",
+          target: "pd-1",
+          status: "SENT",
+          nextAttemptAt: new Date(0),
+        },
+      ],
+    });
+
+    await enqueueAlertChannelNotifications(alert, "trigger", tx);
+    await enqueueAlertChannelNotifications(
+      { ...alert, resolvedAt: new Date() },
+      "resolve",
+      tx
+    );
+
+    const [trigger, resolve] = enqueueNotification.mock.calls.map((c) => c[0]);
+    expect(resolve.template).toBe("alert_resolve");
+    expect(resolve.idempotencyKey).toBe("pagerduty:alert:alert-1:resolve:pd-1");
+    expect(resolve.payload.dedupKey).toBe(trigger.payload.dedupKey);
+  });
+
+  it("resolves delivered triggers and cancels escalations not yet due", async () => {
+    const tx = client({
+      triggers: [
+        {
+          id: "row-pd",
+          channel: "pagerduty",
+          target: "pd-1",
+          status: "SENT",
+          nextAttemptAt: new Date(0),
+        },
+        {
+          id: "row-og",
+          channel: "opsgenie",
+          target: "og-1",
+          status: "PENDING",
+          nextAttemptAt: new Date(Date.now() + 15 * 60_000),
+        },
+        {
+          id: "row-teams",
+          channel: "teams",
+          target: "teams-1",
+          status: "FAILED",
+          nextAttemptAt: new Date(0),
+        },
+      ],
+    });
+
+    const count = await enqueueAlertChannelNotifications(
+      { ...alert, resolvedAt: new Date() },
+      "resolve",
+      tx
+    );
+
+    expect(count).toBe(1);
+    expect(enqueueNotification.mock.calls.map((c) => c[0].target)).toEqual([
+      "pd-1",
+    ]);
+    expect(tx.notificationOutbox.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["row-og"] }, status: "PENDING" },
+      data: expect.objectContaining({ status: "CANCELLED" }),
+    });
+  });
+
+  it("does not count rows that were already queued", async () => {
+    enqueueNotification.mockResolvedValue(false);
+    const tx = client({ teams: [{ id: "teams-1", severities: null }] });
+
+    await expect(
+      enqueueAlertChannelNotifications(alert, "trigger", tx)
+    ).resolves.toBe(0);
+  });
+
+  describe("with routing rules", () => {
+    const configs = {
+      pagerduty: [{ id: "pd-1", severities: null }],
+      opsgenie: [{ id: "og-1", severities: null }],
+      teams: [{ id: "teams-1", severities: null }],
+    };
+
+    it("enqueues the escalation steps of the matching rule, each when due", async () => {
+      const tx = client({ ...configs, rules: [rule()] });
+      const before = Date.now();
+
+      const count = await enqueueAlertChannelNotifications(
+        alert,
+        "trigger",
+        tx
+      );
+
+      expect(count).toBe(2);
+      const [first, second] = enqueueNotification.mock.calls.map((c) => c[0]);
+      expect(first).toEqual(
+        expect.objectContaining({
+          target: "pd-1",
+          payload: expect.objectContaining({
+            routing: { ruleId: "rule-1", step: 0 },
+          }),
+        })
+      );
+      expect(second.target).toBe("og-1");
+      expect(second.payload.routing).toEqual({ ruleId: "rule-1", step: 1 });
+      expect(second.notBefore.getTime()).toBeGreaterThanOrEqual(
+        before + 15 * 60_000
+      );
+    });
+
+    it("sends nothing when no rule matches", async () => {
+      const tx = client({
+        ...configs,
+        rules: [rule({ severities: ["LOW"] })],
+      });
+
+      await expect(
+        enqueueAlertChannelNotifications(alert, "trigger", tx)
+      ).resolves.toBe(0);
+      expect(enqueueNotification).not.toHaveBeenCalled();
+    });
+
+    it("matches on the server's environment", async () => {
+      const tx = client({
+        ...configs,
+        environment: "staging",
+        rules: [
+          rule({ id: "prod", environments: ["prod"] }),
+          rule({
+            id: "staging",
+            environments: ["staging"],
+            escalationPolicy: {
+              steps: [
+                {
+                  delayMinutes: 0,
+                  targets: [{ channel: "teams", configId: "teams-1" }],
+                },
+              ],
+            },
+          }),
+        ],
+      });
+
+      await enqueueAlertChannelNotifications(alert, "trigger", tx);
+
+      expect(tx.rabbitMQServer.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "server-1" } })
+      );
+      expect(enqueueNotification.mock.calls.map((c) => c[0].target)).toEqual([
+        "teams-1",
+      ]);
+    });
+
+    it("skips disabled configs and pages a config once", async () => {
+      const tx = client({
+        pagerduty: [{ id: "pd-1", severities: null }],
+        rules: [
+          rule({
+            escalationPolicy: {
+              steps: [
+                {
+                  delayMinutes: 0,
+                  targets: [
+                    { channel: "pagerduty", configId: "pd-1" },
+                    { channel: "opsgenie", configId: "og-1" },
+                  ],
+                },
+                {
+                  delayMinutes: 10,
+                  targets: [{ channel: "pagerduty", configId: "pd-1" }],
+                },
+              ],
+            },
+          }),
+        ],
+      });
+
+      await enqueueAlertChannelNotifications(alert, "trigger", tx);
+
+      expect(enqueueNotification.mock.calls.map((c) => c[0].target)).toEqual([
+        "pd-1",
+      ]);
+    });
+  });
+
+  describe("email, Slack and webhooks", () => {
+    const channels = {
+      slack: [{ id: "slack-1" }],
+      webhooks: [
+        { id: "wh-1", version: "v1", events: ["alerts"] },
+        { id: "wh-2", version: "v1", events: ["audit"] },
+      ],
+      workspace: {
+        emailNotificationsEnabled: true,
+        contactEmail: "ops@example.com",
+      },
+      members: ["ops@example.com", "dev@example.com"],
+    };
+
+    it("go to Slack, alert webhooks and the contact address without rules", async () => {
+      const tx = client(channels);
+
+      const count = await enqueueAlertChannelNotifications(
+        alert,
+        "trigger",
+        tx
+      );
+
+      expect(count).toBe(3);
+      expect(
+        enqueueNotification.mock.calls.map((c) => [c[0].channel, c[0].target])
+      ).toEqual([
+        ["slack", "slack-1"],
+        ["webhook", "wh-1"],
+        ["email", "ops@example.com"],
+      ]);
+      expect(enqueueNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: "webhook",
+          template: "alert.triggered",
+          idempotencyKey: "webhook:alert:alert-1:trigger:wh-1",
+          payload: expect.objectContaining({
+            id: "alert:alert-1:trigger",
+            data: expect.objectContaining({ alertId: "alert-1" }),
+          }),
+        }),
+        tx
+      );
+      expect(enqueueNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: "email",
+          template: "alert_trigger",
+          idempotencyKey: "email:alert:alert-1:trigger:ops@example.com",
+        }),
+        tx
+      );
+    });
+
+    it("skip alerts the workspace's severity or server filters leave out", async () => {
+      for (const filters of [
+        { notificationSeverities: ["LOW"] },
+        { notificationServerIds: ["server-2"] },
+      ]) {
+        enqueueNotification.mockClear();
+        const tx = client({
+          ...channels,
+          pagerduty: [{ id: "pd-1", severities: null }],
+          workspace: { ...channels.workspace, ...filters },
+        });
+
+        await enqueueAlertChannelNotifications(alert, "trigger", tx);
+
+        // Incident configs filter by their own severities only
+        expect(enqueueNotification.mock.calls.map((c) => c[0].target)).toEqual([
+          "pd-1",
+        ]);
+      }
+    });
+
+    it("follow the routing rules, members included", async () => {
+      const tx = client({
+        ...channels,
+        rules: [
+          rule({
+            escalationPolicy: {
+              steps: [
+                {
+                  delayMinutes: 0,
+                  targets: [{ channel: "slack", configId: "slack-1" }],
+                },
+                {
+                  delayMinutes: 10,
+                  targets: [
+                    { channel: "email", configId: "dev@example.com" },
+                    { channel: "webhook", configId: "wh-1" },
+                    { channel: "webhook", configId: "wh-2" },
+                  ],
+                },
+              ],
+            },
+          }),
+        ],
+      });
+
+      await enqueueAlertChannelNotifications(alert, "trigger", tx);
+
+      const calls = enqueueNotification.mock.calls.map((c) => c[0]);
+      expect(calls.map((c) => [c.channel, c.target])).toEqual([
+        ["slack", "slack-1"],
+        ["email", "dev@example.com"],
+        ["webhook", "wh-1"],
+      ]);
+      expect(calls[1].payload.routing).toEqual({ ruleId: "rule-1", step: 1 });
+      expect(calls[2].notBefore).toEqual(calls[1].notBefore);
+    });
+
+    it("reach nothing when no rule matches", async () => {
+      const tx = client({
+        ...channels,
+        rules: [rule({ severities: ["LOW"] })],
+      });
+
+      await expect(
+        enqueueAlertChannelNotifications(alert, "trigger", tx)
+      ).resolves.toBe(0);
+    });
+
+    it("resolve what their trigger reached", async () => {
+      const tx = client({
+        ...channels,
+        triggers: [
+          {
+            id: "row-email",
+            channel: "email",
+            target: "dev@example.com",
+            status: "SENT",
+            nextAttemptAt: new Date(0),
+          },
+          {
+            id: "row-wh",
+            channel: "webhook",
+            target: "wh-1",
+            status: "SENT",
+            nextAttemptAt: new Date(0),
+          },
+        ],
+      });
+
+      await enqueueAlertChannelNotifications(
+        { ...alert, resolvedAt: new Date() },
+        "resolve",
+        tx
+      );
+
+      expect(tx.webhook.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: ["wh-1"] }, enabled: true },
+        })
+      );
+      const calls = enqueueNotification.mock.calls.map((c) => c[0]);
+      expect(calls.map((c) => [c.template, c.idempotencyKey])).toEqual([
+        ["alert_resolve", "email:alert:alert-1:resolve:dev@example.com"],
+        ["alert.resolved", "webhook:alert:alert-1:resolve:wh-1"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { parseRetryAfter, postJson, postJsonBody } from "../http";
+
+const fetchMock = vi.fn();
+
+function respond(status: number, headers: Record<string, string> = {}) {
+  fetchMock.mockResolvedValue(
+    new Response(status === 204 ? null : "body", { status, headers })
+  );
+}
+
+describe("postJson", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it("treats 2xx as delivered", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    respond(202);
+    await expect(postJson("https://x.test", {})).resolves.toEqual({
+      success: true,
+    });
+  });
+
+  it("marks client errors as permanent", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    respond(400);
+    await expect(postJson("https://x.test", {})).resolves.toEqual({
+      success: false,
+      error: "HTTP 400: body",
+      permanent: true,
+    });
+  });
+
+  it("retries rate limits after the provider's Retry-After", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    respond(429, { "retry-after": "30" });
+    await expect(postJson("https://x.test", {})).resolves.toEqual(
+      expect.objectContaining({ success: false, retryAfterMs: 30_000 })
+    );
+  });
+
+  it("retries server errors, timeouts and network failures", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    respond(503);
+    expect((await postJson("https://x.test", {})).permanent).toBeUndefined();
+    respond(408);
+    expect((await postJson("https://x.test", {})).permanent).toBeUndefined();
+    fetchMock.mockRejectedValue(new Error("ECONNRESET"));
+    await expect(postJson("https://x.test", {})).resolves.toEqual({
+      success: false,
+      error: "request failed: ECONNRESET",
+    });
+  });
+});
+
+describe("postJsonBody", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it("sends the body as given and reports the receiver's answer", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    respond(200);
+
+    const result = await postJsonBody("https://x.test", '{"a":1}', {
+      "X-Test": "1",
+    });
+
+    expect(result).toEqual({
+      success: true,
+      statusCode: 200,
+      responseSnippet: "body",
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://x.test",
+      expect.objectContaining({
+        body: '{"a":1}',
+        headers: expect.objectContaining({ "X-Test": "1" }),
+      })
+    );
+  });
+
+  it("keeps the status code of failed answers", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+    respond(500);
+    await expect(postJsonBody("https://x.test", "{}")).resolves.toEqual(
+      expect.objectContaining({ success: false, statusCode: 500 })
+    );
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("accepts seconds and caps at an hour", () => {
+    expect(parseRetryAfter("5")).toBe(5_000);
+    expect(parseRetryAfter("86400")).toBe(60 * 60_000);
+  });
+
+  it("ignores missing or unparseable values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
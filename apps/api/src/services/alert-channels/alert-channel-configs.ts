@@ -0,0 +1,248 @@
+import { prisma } from "@/core/prisma";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+import type { AlertChannel } from "./alert-payload";
+import type { OpsgenieRegion } from "./opsgenie";
+
+import { AlertSeverity, Prisma } from "@/generated/prisma/client";
+
+/**
+ * PagerDuty, Opsgenie and Teams configs of a workspace. The three models
+ * differ only in their secret (and Opsgenie's region), so the settings UI
+ * handles them as one list. Secrets are encrypted at rest and never
+ * returned — `secretHint` is enough to tell two configs apart.
+ */
+
+interface ChannelConfigFields {
+  name: string;
+  /** Null forwards every severity. */
+  severities: AlertSeverity[] | null;
+  enabled: boolean;
+}
+
+export type AlertChannelConfigInput = ChannelConfigFields &
+  (
+    | { channel: "pagerduty"; routingKey: string }
+    | { channel: "opsgenie"; apiKey: string; region: OpsgenieRegion }
+    | { channel: "teams"; webhookUrl: string }
+  );
+
+/** Omitted fields are kept; a blank secret keeps the stored one. */
+export type AlertChannelConfigUpdate = {
+  id: string;
+} & Partial<ChannelConfigFields> &
+  (
+    | { channel: "pagerduty"; routingKey?: string }
+    | { channel: "opsgenie"; apiKey?: string; region?: OpsgenieRegion }
+    | { channel: "teams"; webhookUrl?: string }
+  );
+
+export interface AlertChannelConfigSummary {
+  id: string;
+  channel: AlertChannel;
+  name: string;
+  severities: AlertSeverity[] | null;
+  enabled: boolean;
+  region: OpsgenieRegion | null;
+  secretHint: string;
+  createdAt: string;
+}
+
+function keyHint(encrypted: string): string {
+  try {
+    return `••••${EncryptionService.decrypt(encrypted).slice(-4)}`;
+  } catch {
+    return "••••";
+  }
+}
+
+function urlHint(encrypted: string): string {
+  try {
+    return new URL(EncryptionService.decrypt(encrypted)).host;
+  } catch {
+    return "••••";
+  }
+}
+
+function severitiesOf(value: Prisma.JsonValue | null): AlertSeverity[] | null {
+  return Array.isArray(value) ? (value as AlertSeverity[]) : null;
+}
+
+function severitiesData(
+  severities: AlertSeverity[] | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (severities === undefined) return undefined;
+  return severities === null ? Prisma.DbNull : severities;
+}
+
+function encryptedSecret(value: string | undefined) {
+  return value
+    ? {
+        secret: EncryptionService.encrypt(value),
+        encryptionKeyVersion: EncryptionService.keyVersion,
+      }
+    : null;
+}
+
+export async function listAlertChannelConfigs(
+  workspaceId: string
+): Promise<AlertChannelConfigSummary[]> {
+  const where = { workspaceId };
+  const orderBy = { createdAt: "asc" } as const;
+  const [pagerDuty, opsgenie, teams] = await Promise.all([
+    prisma.pagerDutyConfig.findMany({ where, orderBy }),
+    prisma.opsgenieConfig.findMany({ where, orderBy }),
+    prisma.teamsConfig.findMany({ where, orderBy }),
+  ]);
+
+  const common = (config: {
+    id: string;
+    name: string;
+    severities: Prisma.JsonValue | null;
+    enabled: boolean;
+    createdAt: Date;
+  }) => ({
+    id: config.id,
+    name: config.name,
+    severities: severitiesOf(config.severities),
+    enabled: config.enabled,
+    createdAt: config.createdAt.toISOString(),
+  });
+
+  return [
+    ...pagerDuty.map((config) => ({
+      ...common(config),
+      channel: "pagerduty" as const,
+      region: null,
+      secretHint: keyHint(config.routingKey),
+    })),
+    ...opsgenie.map((config) => ({
+      ...common(config),
+      channel: "opsgenie" as const,
+      region: config.region as OpsgenieRegion,
+      secretHint: keyHint(config.apiKey),
+    })),
+    ...teams.map((config) => ({
+      ...common(config),
+      channel: "teams" as const,
+      region: null,
+      secretHint: urlHint(config.webhookUrl),
+    })),
+  ];
+}
+
+export async function createAlertChannelConfig(
+  workspaceId: string,
+  input: AlertChannelConfigInput
+): Promise<{ id: string }> {
+  const data = {
+    workspaceId,
+    name: input.name,
+    severities: severitiesData(input.severities),
+    enabled: input.enabled,
+    encryptionKeyVersion: EncryptionService.keyVersion,
+  };
+  const select = { id: true } as const;
+  switch (input.channel) {
+    case "pagerduty":
+      return prisma.pagerDutyConfig.create({
+        data: {
+          ...data,
+          routingKey: EncryptionService.encrypt(input.routingKey),
+        },
+        select,
+      });
+    case "opsgenie":
+      return prisma.opsgenieConfig.create({
+        data: {
+          ...data,
+          apiKey: EncryptionService.encrypt(input.apiKey),
+          region: input.region,
+        },
+        select,
+      });
+    case "teams":
+      return prisma.teamsConfig.create({
+        data: {
+          ...data,
+          webhookUrl: EncryptionService.encrypt(input.webhookUrl),
+        },
+        select,
+      });
+  }
+}
+
+/** False when the config does not exist in the workspace. */
+export async function updateAlertChannelConfig(
+  workspaceId: string,
+  input: AlertChannelConfigUpdate
+): Promise<boolean> {
+  const where = { id: input.id, workspaceId };
+  const data = {
+    name: input.name,
+    severities: severitiesData(input.severities),
+    enabled: input.enabled,
+  };
+  switch (input.channel) {
+    case "pagerduty": {
+      const secret = encryptedSecret(input.routingKey);
+      const { count } = await prisma.pagerDutyConfig.updateMany({
+        where,
+        data: {
+          ...data,
+          ...(secret && {
+            routingKey: secret.secret,
+            encryptionKeyVersion: secret.encryptionKeyVersion,
+          }),
+        },
+      });
+      return count === 1;
+    }
+    case "opsgenie": {
+      const secret = encryptedSecret(input.apiKey);
+      const { count } = await prisma.opsgenieConfig.updateMany({
+        where,
+        data: {
+          ...data,
+          region: input.region,
+          ...(secret && {
+            apiKey: secret.secret,
+            encryptionKeyVersion: secret.encryptionKeyVersion,
+          }),
+        },
+      });
+      return count === 1;
+    }
+    case "teams": {
+      const secret = encryptedSecret(input.webhookUrl);
+      const { count } = await prisma.teamsConfig.updateMany({
+        where,
+        data: {
+          ...data,
+          ...(secret && {
+            webhookUrl: secret.secret,
+            encryptionKeyVersion: secret.encryptionKeyVersion,
+          }),
+        },
+      });
+      return count === 1;
+    }
+  }
+}
+
+/** False when the config does not exist in the workspace. */
+export async function deleteAlertChannelConfig(
+  workspaceId: string,
+  channel: AlertChannel,
+  id: string
+): Promise<boolean> {
+  const where = { id, workspaceId };
+  const { count } =
+    channel === "pagerduty"
+      ? await prisma.pagerDutyConfig.deleteMany({ where })
+      : channel === "opsgenie"
+        ? await prisma.opsgenieConfig.deleteMany({ where })
+        : await prisma.teamsConfig.deleteMany({ where });
+  return count === 1;
+}
@@ -0,0 +1,186 @@
+import { createHash } from "node:crypto";
+
+import { appConfig } from "@/config";
+
+import type { Alert, AlertSeverity } from "@/generated/prisma/client";
+
+export const ALERT_CHANNELS = ["pagerduty", "opsgenie", "teams"] as const;
+
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+/**
+ * Channels that send the alert snapshot itself: the incident tools, Slack
+ * and email. Webhooks send their own versioned payload.
+ */
+export type AlertDeliveryChannel = AlertChannel | "slack" | "email";
+
+export type AlertChannelEvent = "trigger" | "resolve";
+
+/** Outbox templates of the alert channels, one per event. */
+export const ALERT_CHANNEL_TEMPLATES = {
+  alert_trigger: "trigger",
+  alert_resolve: "resolve",
+} as const satisfies Record<string, AlertChannelEvent>;
+
+export type AlertChannelTemplate = keyof typeof ALERT_CHANNEL_TEMPLATES;
+
+export function templateForEvent(
+  event: AlertChannelEvent
+): AlertChannelTemplate {
+  return event === "trigger" ? "alert_trigger" : "alert_resolve";
+}
+
+/**
+ * Alert snapshot carried by an alert-channel outbox row. Secrets are not
+ * part of it — the dispatcher reads them from the channel config at send
+ * time, so a rotated key applies to rows already queued.
+ *
+ * Declared as `type` so it is assignable to Prisma's `InputJsonValue`.
+ */
+export type AlertNotificationPayload = {
+  alertId: string;
+  /** PagerDuty dedup key / Opsgenie alias, see {@link alertDedupKey}. */
+  dedupKey: string;
+  title: string;
+  description: string;
+  severity: AlertSeverity;
+  serverId: string | null;
+  serverName: string | null;
+  vhost: string | null;
+  category: string | null;
+  sourceType: string | null;
+  sourceName: string | null;
+  value: number | null;
+  threshold: number | null;
+  firedAt: string;
+  resolvedAt: string | null;
+  url: string;
+  /** Set on triggers enqueued by a routing rule: the rule and its step. */
+  routing?: { ruleId: string; step: number };
+};
+
+export type AlertRecord = Pick<
+  Alert,
+  | "id"
+  | "workspaceId"
+  | "fingerprint"
+  | "title"
+  | "description"
+  | "severity"
+  | "serverId"
+  | "serverName"
+  | "vhost"
+  | "category"
+  | "sourceType"
+  | "sourceName"
+  | "value"
+  | "threshold"
+  | "createdAt"
+  | "firstSeenAt"
+  | "resolvedAt"
+>;
+
+/**
+ * Provider-side identity of an alert. Derived from the fingerprint, so the
+ * trigger and the resolve of an alert — and a condition that re-fires
+ * while its incident is still open — land on the same PagerDuty incident
+ * or Opsgenie alert. Alerts without a fingerprint (custom rules) fall back
+ * to their id. Hashed to stay inside PagerDuty's 255-character limit.
+ */
+export function alertDedupKey(
+  alert: Pick<Alert, "id" | "fingerprint">
+): string {
+  const source = alert.fingerprint ?? alert.id;
+  return `qarote-${createHash("sha256").update(source).digest("hex").slice(0, 40)}`;
+}
+
+export function toAlertNotificationPayload(
+  alert: AlertRecord
+): AlertNotificationPayload {
+  return {
+    alertId: alert.id,
+    dedupKey: alertDedupKey(alert),
+    title: alert.title,
+    description: alert.description,
+    severity: alert.severity,
+    serverId: alert.serverId,
+    serverName: alert.serverName,
+    vhost: alert.vhost,
+    category: alert.category,
+    sourceType: alert.sourceType,
+    sourceName: alert.sourceName,
+    value: alert.value,
+    threshold: alert.threshold,
+    firedAt: (alert.firstSeenAt ?? alert.createdAt).toISOString(),
+    resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+    url: `${appConfig.baseUrl.replace(/\/$/, "")}/alerts`,
+  };
+}
+
+/** `severities` column: null (or anything but a list) forwards everything. */
+export function forwardsSeverity(
+  severities: unknown,
+  severity: AlertSeverity
+): boolean {
+  return !Array.isArray(severities) || severities.includes(severity);
+}
+
+export type AlertFactField =
+  | "severity"
+  | "server"
+  | "vhost"
+  | "source"
+  | "value"
+  | "firedAt"
+  | "resolvedAt";
+
+export const ALERT_FACT_LABELS: Record<AlertFactField, string> = {
+  severity: "Severity",
+  server: "Server",
+  vhost: "Virtual host",
+  source: "Source",
+  value: "Value",
+  firedAt: "Fired at",
+  resolvedAt: "Resolved at",
+};
+
+/** Details shown under an alert's title in chat and email messages. */
+export function alertFacts(
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): { field: AlertFactField; value: string }[] {
+  const resolved = event === "resolve";
+  const facts: { field: AlertFactField; value: string | null }[] = [
+    { field: "severity", value: alert.severity },
+    { field: "server", value: alert.serverName },
+    { field: "vhost", value: alert.vhost },
+    {
+      field: "source",
+      value: alert.sourceType
+        ? `${alert.sourceType} ${alert.sourceName ?? ""}`.trim()
+        : null,
+    },
+    {
+      field: "value",
+      value:
+        alert.value === null
+          ? null
+          : alert.threshold === null
+            ? String(alert.value)
+            : `${alert.value} (threshold ${alert.threshold})`,
+    },
+    resolved
+      ? {
+          field: "resolvedAt",
+          value: alert.resolvedAt ?? new Date().toISOString(),
+        }
+      : { field: "firedAt", value: alert.firedAt },
+  ];
+  return facts.filter(
+    (fact): fact is { field: AlertFactField; value: string } => !!fact.value
+  );
+}
+
+export function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
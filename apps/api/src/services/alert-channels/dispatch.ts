@@ -0,0 +1,199 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { AlertEmailService } from "@/services/email/alert-email.service";
+import { EncryptionService } from "@/services/encryption.service";
+
+import {
+  ALERT_CHANNEL_TEMPLATES,
+  type AlertChannel,
+  type AlertChannelEvent,
+  type AlertDeliveryChannel,
+  type AlertNotificationPayload,
+} from "./alert-payload";
+import type { ChannelSendResult } from "./http";
+import { type OpsgenieRegion, sendOpsgenie } from "./opsgenie";
+import { sendPagerDuty } from "./pagerduty";
+import { sendSlack } from "./slack";
+import { sendTeams } from "./teams";
+import { triggerGate } from "./trigger-gate";
+
+/** A channel config with its secret decrypted, ready to send to. */
+export type ChannelTarget =
+  | { channel: "pagerduty"; routingKey: string }
+  | { channel: "opsgenie"; apiKey: string; region: OpsgenieRegion }
+  | { channel: "teams"; webhookUrl: string };
+
+/**
+ * Load a config's send target; null once the config is gone (or, given a
+ * workspace, when it belongs to another one).
+ */
+export async function loadChannelTarget(
+  channel: AlertChannel,
+  configId: string,
+  workspaceId?: string
+): Promise<{ name: string; enabled: boolean; target: ChannelTarget } | null> {
+  const where = { id: configId, ...(workspaceId && { workspaceId }) };
+  switch (channel) {
+    case "pagerduty": {
+      const config = await prisma.pagerDutyConfig.findFirst({
+        where,
+        select: { name: true, enabled: true, routingKey: true },
+      });
+      return config
+        ? {
+            name: config.name,
+            enabled: config.enabled,
+            target: {
+              channel,
+              routingKey: EncryptionService.decrypt(config.routingKey),
+            },
+          }
+        : null;
+    }
+    case "opsgenie": {
+      const config = await prisma.opsgenieConfig.findFirst({
+        where,
+        select: { name: true, enabled: true, apiKey: true, region: true },
+      });
+      return config
+        ? {
+            name: config.name,
+            enabled: config.enabled,
+            target: {
+              channel,
+              apiKey: EncryptionService.decrypt(config.apiKey),
+              region: config.region as OpsgenieRegion,
+            },
+          }
+        : null;
+    }
+    case "teams": {
+      const config = await prisma.teamsConfig.findFirst({
+        where,
+        select: { name: true, enabled: true, webhookUrl: true },
+      });
+      return config
+        ? {
+            name: config.name,
+            enabled: config.enabled,
+            target: {
+              channel,
+              webhookUrl: EncryptionService.decrypt(config.webhookUrl),
+            },
+          }
+        : null;
+    }
+  }
+}
+
+export function sendToChannel(
+  target: ChannelTarget,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  switch (target.channel) {
+    case "pagerduty":
+      return sendPagerDuty(target.routingKey, event, alert);
+    case "opsgenie":
+      return sendOpsgenie(target.apiKey, target.region, event, alert);
+    case "teams":
+      return sendTeams(target.webhookUrl, event, alert);
+  }
+}
+
+async function sendSlackAlert(
+  configId: string,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  const config = await prisma.slackConfig.findUnique({
+    where: { id: configId },
+    select: { enabled: true, webhookUrl: true },
+  });
+  if (!config) {
+    return {
+      success: false,
+      error: `slack config ${configId} was removed`,
+      permanent: true,
+    };
+  }
+  if (!config.enabled) {
+    return {
+      success: false,
+      error: `slack config ${configId} is disabled`,
+      permanent: true,
+    };
+  }
+  return sendSlack(config.webhookUrl, event, alert);
+}
+
+/**
+ * Outbox dispatcher of alert triggers and resolves. The row's target is
+ * the config id (the recipient address for email); a config deleted or
+ * disabled since the enqueue drops the row, and triggers go through
+ * {@link triggerGate} first.
+ */
+export async function dispatchAlertChannel(
+  channel: AlertDeliveryChannel,
+  template: string,
+  target: string,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  const event =
+    ALERT_CHANNEL_TEMPLATES[template as keyof typeof ALERT_CHANNEL_TEMPLATES];
+  if (!event) {
+    logger.error(
+      { channel, template },
+      "NotificationOutbox: unknown alert channel template — cannot dispatch"
+    );
+    return {
+      success: false,
+      error: `unknown ${channel} template: ${template}`,
+      permanent: true,
+    };
+  }
+
+  if (event === "trigger") {
+    const gated = await triggerGate(alert);
+    if (gated) return gated;
+  }
+
+  switch (channel) {
+    case "email":
+      return AlertEmailService.sendAlertEmail({ to: target, event, alert });
+    case "slack":
+      return sendSlackAlert(target, event, alert);
+  }
+
+  const config = await loadChannelTarget(channel, target);
+  if (!config) {
+    return {
+      success: false,
+      error: `${channel} config ${target} was removed`,
+      permanent: true,
+    };
+  }
+  if (!config.enabled) {
+    return {
+      success: false,
+      error: `${channel} config ${target} is disabled`,
+      permanent: true,
+    };
+  }
+  return sendToChannel(config.target, event, alert);
+}
+
+/**
+ * Fire a sample alert at a config, bypassing the outbox so the result is
+ * immediate. Incident tools get the matching resolve right away so the
+ * test leaves nothing open.
+ */
+export async function sendTestAlert(
+  target: ChannelTarget,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  const result = await sendToChannel(target, "trigger", alert);
+  if (!result.success || target.channel === "teams") return result;
+  return sendToChannel(target, "resolve", alert);
+}
@@ -0,0 +1,411 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { enqueueNotification } from "@/services/notification/notification-outbox.service";
+import {
+  escalationStepsOf,
+  passesWorkspaceFilters,
+  planEscalation,
+  quietHoursOf,
+  ROUTING_CHANNELS,
+  type RoutingChannel,
+  selectRoutingRules,
+} from "@/services/notification-routing/routing-rules";
+import {
+  buildWebhookPayload,
+  isWebhookPayloadVersion,
+  subscribesTo,
+  type WebhookPayloadVersion,
+} from "@/services/webhooks/payload";
+
+import {
+  ALERT_CHANNELS,
+  type AlertChannel,
+  type AlertChannelEvent,
+  type AlertDeliveryChannel,
+  type AlertNotificationPayload,
+  type AlertRecord,
+  forwardsSeverity,
+  templateForEvent,
+  toAlertNotificationPayload,
+} from "./alert-payload";
+
+import type { Prisma } from "@/generated/prisma/client";
+
+type AlertChannelDbClient = Pick<
+  Prisma.TransactionClient,
+  | "pagerDutyConfig"
+  | "opsgenieConfig"
+  | "teamsConfig"
+  | "slackConfig"
+  | "webhook"
+  | "workspace"
+  | "workspaceMember"
+  | "notificationRoutingRule"
+  | "rabbitMQServer"
+  | "notificationOutbox"
+  | "$executeRawUnsafe"
+>;
+
+/** Where one row goes; webhooks also need the payload version they pin. */
+type DeliveryTarget =
+  | { channel: AlertDeliveryChannel; configId: string }
+  | { channel: "webhook"; configId: string; version: WebhookPayloadVersion };
+
+type RoutableTarget = DeliveryTarget & {
+  /** Gets the alert when the workspace has no routing rules. */
+  byDefault: boolean;
+};
+
+async function enabledConfigs(
+  client: AlertChannelDbClient,
+  channel: AlertChannel,
+  workspaceId: string
+): Promise<{ id: string; severities: Prisma.JsonValue }[]> {
+  const args = {
+    where: { workspaceId, enabled: true },
+    select: { id: true, severities: true },
+  };
+  switch (channel) {
+    case "pagerduty":
+      return client.pagerDutyConfig.findMany(args);
+    case "opsgenie":
+      return client.opsgenieConfig.findMany(args);
+    case "teams":
+      return client.teamsConfig.findMany(args);
+  }
+}
+
+/** Enabled webhooks subscribed to the event, keyed by id. */
+async function alertWebhooks(
+  client: AlertChannelDbClient,
+  where: Prisma.WebhookWhereInput,
+  event: AlertChannelEvent
+): Promise<Map<string, WebhookPayloadVersion>> {
+  const webhooks = await client.webhook.findMany({
+    where: { ...where, enabled: true },
+    select: { id: true, version: true, events: true },
+  });
+  const type = event === "trigger" ? "alert.triggered" : "alert.resolved";
+  const versions = new Map<string, WebhookPayloadVersion>();
+  for (const webhook of webhooks) {
+    if (!subscribesTo(webhook.events, type)) continue;
+    if (!isWebhookPayloadVersion(webhook.version)) {
+      logger.warn(
+        { webhookId: webhook.id, version: webhook.version },
+        "Webhook pinned to an unknown payload version — event skipped"
+      );
+      continue;
+    }
+    versions.set(webhook.id, webhook.version);
+  }
+  return versions;
+}
+
+/**
+ * Everything in the workspace the alert may go to. Incident configs filter
+ * by their own severities; Slack, webhooks and email by the workspace's
+ * notification settings. Email goes to the contact address by default;
+ * members' addresses are only reached through a routing rule.
+ */
+async function routableTargets(
+  client: AlertChannelDbClient,
+  alert: AlertRecord
+): Promise<RoutableTarget[]> {
+  const targets: RoutableTarget[] = [];
+  for (const channel of ALERT_CHANNELS) {
+    const configs = await enabledConfigs(client, channel, alert.workspaceId);
+    for (const config of configs) {
+      if (forwardsSeverity(config.severities, alert.severity)) {
+        targets.push({ channel, configId: config.id, byDefault: true });
+      }
+    }
+  }
+
+  const workspace = await client.workspace.findUnique({
+    where: { id: alert.workspaceId },
+    select: {
+      emailNotificationsEnabled: true,
+      contactEmail: true,
+      notificationSeverities: true,
+      notificationServerIds: true,
+    },
+  });
+  if (!workspace || !passesWorkspaceFilters(workspace, alert)) return targets;
+
+  const slackConfigs = await client.slackConfig.findMany({
+    where: { workspaceId: alert.workspaceId, enabled: true },
+    select: { id: true },
+  });
+  for (const config of slackConfigs) {
+    targets.push({ channel: "slack", configId: config.id, byDefault: true });
+  }
+
+  const webhooks = await alertWebhooks(
+    client,
+    { workspaceId: alert.workspaceId },
+    "trigger"
+  );
+  for (const [id, version] of webhooks) {
+    targets.push({
+      channel: "webhook",
+      configId: id,
+      version,
+      byDefault: true,
+    });
+  }
+
+  if (!workspace.emailNotificationsEnabled) return targets;
+  if (workspace.contactEmail) {
+    targets.push({
+      channel: "email",
+      configId: workspace.contactEmail,
+      byDefault: true,
+    });
+  }
+  const members = await client.workspaceMember.findMany({
+    where: { workspaceId: alert.workspaceId },
+    select: { user: { select: { email: true } } },
+  });
+  for (const { user } of members) {
+    if (user.email === workspace.contactEmail) continue;
+    targets.push({ channel: "email", configId: user.email, byDefault: false });
+  }
+  return targets;
+}
+
+function alertKey(
+  channel: RoutingChannel,
+  alertId: string,
+  event: AlertChannelEvent,
+  configId?: string
+): string {
+  return `${channel}:alert:${alertId}:${event}:${configId ?? ""}`;
+}
+
+/**
+ * Outbox row of an alert event for one target. Webhooks get the versioned
+ * payload, under the same key format as the other channels.
+ */
+function alertJob(
+  target: DeliveryTarget,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload,
+  workspaceId: string,
+  now: Date
+): Parameters<typeof enqueueNotification>[0] {
+  const idempotencyKey = alertKey(
+    target.channel,
+    alert.alertId,
+    event,
+    target.configId
+  );
+  if (target.channel === "webhook") {
+    const type = event === "trigger" ? "alert.triggered" : "alert.resolved";
+    return {
+      channel: "webhook",
+      template: type,
+      target: target.configId,
+      payload: buildWebhookPayload(
+        { id: `alert:${alert.alertId}:${event}`, type, workspaceId, alert },
+        target.version,
+        now
+      ),
+      idempotencyKey,
+    };
+  }
+  return {
+    channel: target.channel,
+    template: templateForEvent(event),
+    target: target.configId,
+    payload: alert,
+    idempotencyKey,
+  };
+}
+
+/**
+ * Triggers go where the workspace's routing rules send them, each
+ * escalation step held until it is due. Without any enabled rule every
+ * default target gets the alert at once; with rules, an alert that matches
+ * none reaches no channel.
+ */
+async function enqueueTriggers(
+  alert: AlertRecord,
+  client: AlertChannelDbClient
+): Promise<number> {
+  const payload = toAlertNotificationPayload(alert);
+  const routable = await routableTargets(client, alert);
+  const rules = await client.notificationRoutingRule.findMany({
+    where: { workspaceId: alert.workspaceId, enabled: true },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    include: { escalationPolicy: { select: { steps: true } } },
+  });
+
+  const now = new Date();
+  let enqueued = 0;
+  const enqueue = async (
+    target: DeliveryTarget,
+    routing?: { ruleId: string; step: number; dueAt: Date }
+  ) => {
+    const created = await enqueueNotification(
+      {
+        ...alertJob(
+          target,
+          "trigger",
+          routing
+            ? {
+                ...payload,
+                routing: { ruleId: routing.ruleId, step: routing.step },
+              }
+            : payload,
+          alert.workspaceId,
+          now
+        ),
+        notBefore: routing?.dueAt,
+      },
+      client
+    );
+    if (created) enqueued++;
+  };
+
+  if (rules.length === 0) {
+    for (const target of routable) {
+      if (target.byDefault) await enqueue(target);
+    }
+    return enqueued;
+  }
+
+  const server =
+    alert.serverId && rules.some((rule) => Array.isArray(rule.environments))
+      ? await client.rabbitMQServer.findUnique({
+          where: { id: alert.serverId },
+          select: { environment: true },
+        })
+      : null;
+  const matched = selectRoutingRules(rules, {
+    ...alert,
+    environment: server?.environment ?? null,
+  });
+
+  const byKey = new Map(
+    routable.map((target) => [`${target.channel}:${target.configId}`, target])
+  );
+  const planned = new Set<string>();
+  for (const rule of matched) {
+    const steps = planEscalation(
+      escalationStepsOf(rule.escalationPolicy.steps),
+      now,
+      quietHoursOf(rule)
+    );
+    for (const { step, dueAt, targets } of steps) {
+      for (const { channel, configId } of targets) {
+        const key = `${channel}:${configId}`;
+        const target = byKey.get(key);
+        // Disabled and filtered-out targets stay silent; a target reached
+        // by an earlier rule or step is notified once.
+        if (!target || planned.has(key)) continue;
+        planned.add(key);
+        await enqueue(target, { ruleId: rule.id, step, dueAt });
+      }
+    }
+  }
+  return enqueued;
+}
+
+/**
+ * Resolves follow the triggers: targets whose trigger went out (or is
+ * going out right now) get the resolve, escalation steps not yet due are
+ * cancelled. Webhooks get it when they are still subscribed.
+ */
+async function enqueueResolves(
+  alert: AlertRecord,
+  client: AlertChannelDbClient
+): Promise<number> {
+  const payload = toAlertNotificationPayload(alert);
+  const triggers = await client.notificationOutbox.findMany({
+    where: {
+      OR: ROUTING_CHANNELS.map((channel) => ({
+        idempotencyKey: { startsWith: alertKey(channel, alert.id, "trigger") },
+      })),
+    },
+    select: {
+      id: true,
+      channel: true,
+      target: true,
+      status: true,
+      nextAttemptAt: true,
+    },
+  });
+
+  const now = new Date();
+  const notDue: string[] = [];
+  const delivered = triggers.filter((trigger) => {
+    if (trigger.status === "PENDING" && trigger.nextAttemptAt > now) {
+      notDue.push(trigger.id);
+      return false;
+    }
+    return trigger.status === "SENT" || trigger.status === "PENDING";
+  });
+
+  const webhookIds = delivered
+    .filter((trigger) => trigger.channel === "webhook")
+    .map((trigger) => trigger.target);
+  const webhooks =
+    webhookIds.length > 0
+      ? await alertWebhooks(client, { id: { in: webhookIds } }, "resolve")
+      : new Map<string, WebhookPayloadVersion>();
+
+  let enqueued = 0;
+  for (const trigger of delivered) {
+    let target: DeliveryTarget;
+    if (trigger.channel === "webhook") {
+      const version = webhooks.get(trigger.target);
+      if (!version) continue;
+      target = { channel: "webhook", configId: trigger.target, version };
+    } else {
+      target = {
+        channel: trigger.channel as AlertDeliveryChannel,
+        configId: trigger.target,
+      };
+    }
+    const created = await enqueueNotification(
+      alertJob(target, "resolve", payload, alert.workspaceId, now),
+      client
+    );
+    if (created) enqueued++;
+  }
+
+  if (notDue.length > 0) {
+    await client.notificationOutbox.updateMany({
+      where: { id: { in: notDue }, status: "PENDING" },
+      data: {
+        status: "CANCELLED",
+        lastError: "alert resolved before the notification was due",
+      },
+    });
+  }
+  return enqueued;
+}
+
+/**
+ * Hand an alert event to its workspace's notification channels: PagerDuty,
+ * Opsgenie and Teams configs, Slack configs, webhooks subscribed to alerts
+ * and email recipients. Called by the alert engine when an alert fires and
+ * when it resolves; pass the transaction client so the rows commit with
+ * the alert state change.
+ *
+ * The idempotency key is per alert, event and target, so a re-evaluation
+ * of the same alert never double-notifies. Every channel goes through the
+ * same routing rules.
+ *
+ * @returns the number of rows enqueued
+ */
+export async function enqueueAlertChannelNotifications(
+  alert: AlertRecord,
+  event: AlertChannelEvent,
+  client: AlertChannelDbClient = prisma
+): Promise<number> {
+  return event === "trigger"
+    ? enqueueTriggers(alert, client)
+    : enqueueResolves(alert, client);
+}
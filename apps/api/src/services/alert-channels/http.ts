@@ -0,0 +1,106 @@
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RETRY_AFTER_MS = 60 * 60_000;
+const RESPONSE_SNIPPET_LENGTH = 300;
+
+/** Mirrors the outbox dispatcher contract. */
+export interface ChannelSendResult {
+  success: boolean;
+  error?: string | null;
+  retryAfterMs?: number;
+  /** The provider rejected the request itself; retrying cannot help. */
+  permanent?: boolean;
+  /** Not sent: the alert no longer needs it (see the outbox's `cancelled`). */
+  cancelled?: string;
+  /** Not sent yet: hold the row until then. */
+  deferUntil?: Date;
+}
+
+/** `Retry-After` as delta-seconds or an HTTP date, capped at an hour. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds)
+    ? seconds * 1000
+    : new Date(value).getTime() - Date.now();
+  if (!Number.isFinite(ms) || ms < 0) return undefined;
+  return Math.min(ms, MAX_RETRY_AFTER_MS);
+}
+
+/** A send result plus what the receiver answered, for delivery logs. */
+export interface HttpSendResult extends ChannelSendResult {
+  statusCode?: number;
+  /** Start of the response body. */
+  responseSnippet?: string;
+}
+
+/**
+ * POST a serialized JSON body and classify the response: 2xx is delivered,
+ * 429 is retried after the provider's Retry-After, any other 4xx but 408
+ * is permanent (bad key, malformed payload), the rest is retried with the
+ * channel backoff. Takes the body as a string so a caller signing it
+ * signs exactly the bytes sent.
+ */
+export async function postJsonBody(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {}
+): Promise<HttpSendResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      // Redirects would forward the credential headers somewhere else
+      redirect: "error",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: `request failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const detail = (await response.text().catch(() => "")).slice(
+    0,
+    RESPONSE_SNIPPET_LENGTH
+  );
+  const answered = {
+    statusCode: response.status,
+    ...(detail && { responseSnippet: detail }),
+  };
+  if (response.ok) return { success: true, ...answered };
+
+  const error = `HTTP ${response.status}${detail ? `: ${detail}` : ""}`;
+  if (response.status === 429) {
+    return {
+      success: false,
+      error,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      ...answered,
+    };
+  }
+  if (
+    response.status >= 400 &&
+    response.status < 500 &&
+    response.status !== 408
+  ) {
+    return { success: false, error, permanent: true, ...answered };
+  }
+  return { success: false, error, ...answered };
+}
+
+/** {@link postJsonBody} for an object, without the response details. */
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<ChannelSendResult> {
+  const {
+    statusCode: _statusCode,
+    responseSnippet: _responseSnippet,
+    ...result
+  } = await postJsonBody(url, JSON.stringify(body), headers);
+  return result;
+}
@@ -0,0 +1,6 @@
+export * from "./alert-channel-configs";
+export * from "./alert-payload";
+export * from "./dispatch";
+export * from "./enqueue";
+export type { ChannelSendResult, HttpSendResult } from "./http";
+export type { OpsgenieRegion } from "./opsgenie";
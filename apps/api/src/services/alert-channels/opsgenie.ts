@@ -0,0 +1,82 @@
+import {
+  type AlertChannelEvent,
+  type AlertNotificationPayload,
+  truncate,
+} from "./alert-payload";
+import { type ChannelSendResult, postJson } from "./http";
+
+import type { AlertSeverity } from "@/generated/prisma/client";
+
+/** Opsgenie Alert API — https://docs.opsgenie.com/docs/alert-api */
+export const OPSGENIE_API_URLS = {
+  us: "https://api.opsgenie.com",
+  eu: "https://api.eu.opsgenie.com",
+} as const;
+
+export type OpsgenieRegion = keyof typeof OPSGENIE_API_URLS;
+
+const OPSGENIE_PRIORITY: Record<AlertSeverity, string> = {
+  CRITICAL: "P1",
+  HIGH: "P2",
+  MEDIUM: "P3",
+  LOW: "P4",
+  INFO: "P5",
+};
+
+export function opsgenieRequest(
+  region: OpsgenieRegion,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): { url: string; body: unknown } {
+  const base = OPSGENIE_API_URLS[region] ?? OPSGENIE_API_URLS.us;
+
+  if (event === "resolve") {
+    return {
+      url: `${base}/v2/alerts/${encodeURIComponent(alert.dedupKey)}/close?identifierType=alias`,
+      body: { source: "Qarote", note: "Resolved in Qarote" },
+    };
+  }
+
+  // Opsgenie only accepts string detail values
+  const details: Record<string, string> = { alertId: alert.alertId };
+  for (const [key, value] of Object.entries({
+    server: alert.serverName,
+    vhost: alert.vhost,
+    category: alert.category,
+    sourceType: alert.sourceType,
+    sourceName: alert.sourceName,
+    value: alert.value,
+    threshold: alert.threshold,
+    url: alert.url,
+  })) {
+    if (value !== null) details[key] = String(value);
+  }
+
+  return {
+    url: `${base}/v2/alerts`,
+    body: {
+      message: truncate(alert.title, 130),
+      alias: alert.dedupKey,
+      description: truncate(alert.description, 15_000),
+      priority: OPSGENIE_PRIORITY[alert.severity],
+      source: "Qarote",
+      entity: alert.serverName ?? undefined,
+      tags: [
+        "qarote",
+        alert.severity.toLowerCase(),
+        ...(alert.category ? [alert.category] : []),
+      ],
+      details,
+    },
+  };
+}
+
+export function sendOpsgenie(
+  apiKey: string,
+  region: OpsgenieRegion,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  const { url, body } = opsgenieRequest(region, event, alert);
+  return postJson(url, body, { Authorization: `GenieKey ${apiKey}` });
+}
@@ -0,0 +1,76 @@
+import {
+  type AlertChannelEvent,
+  type AlertNotificationPayload,
+  truncate,
+} from "./alert-payload";
+import { type ChannelSendResult, postJson } from "./http";
+
+import type { AlertSeverity } from "@/generated/prisma/client";
+
+/** PagerDuty Events API v2 — https://developer.pagerduty.com/docs/events-api-v2/overview/ */
+export const PAGERDUTY_EVENTS_URL = "https://events.pagerduty.com/v2/enqueue";
+
+const PAGERDUTY_SEVERITY: Record<
+  AlertSeverity,
+  "critical" | "error" | "warning" | "info"
+> = {
+  CRITICAL: "critical",
+  HIGH: "error",
+  MEDIUM: "warning",
+  LOW: "info",
+  INFO: "info",
+};
+
+export function pagerDutyEvent(
+  routingKey: string,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+) {
+  if (event === "resolve") {
+    return {
+      routing_key: routingKey,
+      event_action: "resolve" as const,
+      dedup_key: alert.dedupKey,
+    };
+  }
+  return {
+    routing_key: routingKey,
+    event_action: "trigger" as const,
+    dedup_key: alert.dedupKey,
+    client: "Qarote",
+    client_url: alert.url,
+    payload: {
+      summary: truncate(alert.title, 1024),
+      source: alert.serverName ?? "qarote",
+      severity: PAGERDUTY_SEVERITY[alert.severity],
+      timestamp: alert.firedAt,
+      component: alert.sourceName ?? undefined,
+      group: alert.vhost ?? undefined,
+      class: alert.category ?? undefined,
+      custom_details: {
+        description: alert.description,
+        severity: alert.severity,
+        server: alert.serverName,
+        vhost: alert.vhost,
+        source: alert.sourceType
+          ? `${alert.sourceType} ${alert.sourceName ?? ""}`.trim()
+          : null,
+        value: alert.value,
+        threshold: alert.threshold,
+        alertId: alert.alertId,
+      },
+    },
+    links: [{ href: alert.url, text: "Open in Qarote" }],
+  };
+}
+
+export function sendPagerDuty(
+  routingKey: string,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  return postJson(
+    PAGERDUTY_EVENTS_URL,
+    pagerDutyEvent(routingKey, event, alert)
+  );
+}
@@ -0,0 +1,72 @@
+import {
+  ALERT_FACT_LABELS,
+  type AlertChannelEvent,
+  alertFacts,
+  type AlertNotificationPayload,
+  truncate,
+} from "./alert-payload";
+import { type ChannelSendResult, postJson } from "./http";
+
+import type { AlertSeverity } from "@/generated/prisma/client";
+
+const ATTACHMENT_COLOR: Record<AlertSeverity, string> = {
+  CRITICAL: "#dc2626",
+  HIGH: "#ea580c",
+  MEDIUM: "#d97706",
+  LOW: "#2563eb",
+  INFO: "#78716c",
+};
+
+const RESOLVED_COLOR = "#16a34a";
+
+/** Slack caps a section's text at 3000 characters. */
+const MAX_SECTION_TEXT = 3000;
+
+/**
+ * Message for a Slack incoming webhook: the title as notification text and
+ * a colored attachment with the details. Like Teams, Slack cannot update a
+ * message sent through a webhook, so a resolve posts a second message.
+ */
+export function slackMessage(
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+) {
+  const resolved = event === "resolve";
+  const title = `${resolved ? "Resolved" : alert.severity}: ${alert.title}`;
+  const fields = alertFacts(event, alert).map(({ field, value }) => ({
+    type: "mrkdwn",
+    text: `*${ALERT_FACT_LABELS[field]}*\n${value}`,
+  }));
+
+  return {
+    text: title,
+    attachments: [
+      {
+        color: resolved ? RESOLVED_COLOR : ATTACHMENT_COLOR[alert.severity],
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: truncate(
+                resolved
+                  ? `*<${alert.url}|${title}>*`
+                  : `*<${alert.url}|${title}>*\n${alert.description}`,
+                MAX_SECTION_TEXT
+              ),
+            },
+          },
+          { type: "section", fields },
+        ],
+      },
+    ],
+  };
+}
+
+export function sendSlack(
+  webhookUrl: string,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  return postJson(webhookUrl, slackMessage(event, alert));
+}
@@ -0,0 +1,73 @@
+import {
+  ALERT_FACT_LABELS,
+  type AlertChannelEvent,
+  alertFacts,
+  type AlertNotificationPayload,
+} from "./alert-payload";
+import { type ChannelSendResult, postJson } from "./http";
+
+import type { AlertSeverity } from "@/generated/prisma/client";
+
+const CARD_COLOR: Record<AlertSeverity, "Attention" | "Warning" | "Accent"> = {
+  CRITICAL: "Attention",
+  HIGH: "Attention",
+  MEDIUM: "Warning",
+  LOW: "Accent",
+  INFO: "Accent",
+};
+
+/**
+ * Adaptive Card message for a Teams incoming webhook or Workflows URL.
+ * Teams has no notion of resolving a message, so a resolve posts a second
+ * card marking the alert resolved.
+ */
+export function teamsMessage(
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+) {
+  const resolved = event === "resolve";
+  const facts = alertFacts(event, alert).map(({ field, value }) => ({
+    title: ALERT_FACT_LABELS[field],
+    value,
+  }));
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              text: `${resolved ? "Resolved" : alert.severity}: ${alert.title}`,
+              weight: "Bolder",
+              size: "Medium",
+              color: resolved ? "Good" : CARD_COLOR[alert.severity],
+              wrap: true,
+            },
+            ...(resolved
+              ? []
+              : [{ type: "TextBlock", text: alert.description, wrap: true }]),
+            { type: "FactSet", facts },
+          ],
+          actions: [
+            { type: "Action.OpenUrl", title: "Open in Qarote", url: alert.url },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+export function sendTeams(
+  webhookUrl: string,
+  event: AlertChannelEvent,
+  alert: AlertNotificationPayload
+): Promise<ChannelSendResult> {
+  return postJson(webhookUrl, teamsMessage(event, alert));
+}
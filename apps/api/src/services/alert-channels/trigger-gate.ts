@@ -0,0 +1,35 @@
+import { prisma } from "@/core/prisma";
+
+import type { AlertNotificationPayload } from "./alert-payload";
+import type { ChannelSendResult } from "./http";
+
+/**
+ * Whether a queued trigger still has to go out, checked at send time for
+ * every escalation step. Triggers of an alert that is gone, resolved or
+ * acknowledged are dropped; triggers are held while it is snoozed. Alert
+ * webhooks go through it too.
+ */
+export async function triggerGate(
+  alert: Pick<AlertNotificationPayload, "alertId">
+): Promise<ChannelSendResult | null> {
+  const current = await prisma.alert.findUnique({
+    where: { id: alert.alertId },
+    select: { resolvedAt: true, acknowledgedAt: true, snoozedUntil: true },
+  });
+  if (!current) {
+    return { success: false, cancelled: "alert was deleted" };
+  }
+  if (current.resolvedAt) {
+    return { success: false, cancelled: "alert resolved before delivery" };
+  }
+  if (current.acknowledgedAt) {
+    return {
+      success: false,
+      cancelled: "alert acknowledged before delivery",
+    };
+  }
+  if (current.snoozedUntil && current.snoozedUntil > new Date()) {
+    return { success: false, deferUntil: current.snoozedUntil };
+  }
+  return null;
+}
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { sinkFindMany, sinkUpdateMany, auditLogFindMany, sendToAuditSink } =
+  vi.hoisted(() => ({
+    sinkFindMany: vi.fn(),
+    sinkUpdateMany: vi.fn(),
+    auditLogFindMany: vi.fn(),
+    sendToAuditSink: vi.fn(),
+  }));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    auditSink: { findMany: sinkFindMany, updateMany: sinkUpdateMany },
+    auditLog: { findMany: auditLogFindMany },
+  },
+}));
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock("../delivery", () => ({ sendToAuditSink }));
+
+import {
+  AUDIT_SINK_BATCH_SIZE,
+  auditSinkBackoffMs,
+  drainAuditSinks,
+} from "../drain";
+
+const cursorTimestamp = new Date("2026-10-29T08:00:00.000Z");
+
+const sink = {
+  id: "sink-1",
+  workspaceId: "ws-1",
+  kind: "http",
+  format: "ecs",
+  settings: { url: "https://siem.example.com/ingest" },
+  secret: null,
+  cursorTimestamp,
+  cursorId: "",
+  consecutiveFailures: 0,
+};
+
+function row(id: string, minute: number) {
+  return {
+    id,
+    timestamp: new Date(Date.UTC(2026, 9, 29, 9, minute)),
+  };
+}
+
+describe("drainAuditSinks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sinkFindMany.mockResolvedValue([sink]);
+    sinkUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("reads past the cursor in order and advances it on success", async () => {
+    auditLogFindMany.mockResolvedValue([row("log-1", 0), row("log-2", 1)]);
+    sendToAuditSink.mockResolvedValue({ success: true });
+
+    const stats = await drainAuditSinks();
+
+    expect(stats).toEqual({ sinks: 1, delivered: 2, failed: 0 });
+    const query = auditLogFindMany.mock.calls[0][0];
+    expect(query.where).toMatchObject({
+      workspaceId: "ws-1",
+      OR: [
+        { timestamp: { gt: cursorTimestamp } },
+        { timestamp: cursorTimestamp, id: { gt: "" } },
+      ],
+    });
+    // Rows still settling are left for the next cycle
+    expect(query.where.timestamp.lte.getTime()).toBeLessThan(Date.now());
+    expect(query.orderBy).toEqual([{ timestamp: "asc" }, { id: "asc" }]);
+    expect(sinkUpdateMany).toHaveBeenCalledWith({
+      where: { id: "sink-1" },
+      data: expect.objectContaining({
+        cursorTimestamp: row("log-2", 1).timestamp,
+        cursorId: "log-2",
+        consecutiveFailures: 0,
+        lastError: null,
+      }),
+    });
+  });
+
+  it("keeps reading while batches come back full", async () => {
+    const full = Array.from({ length: AUDIT_SINK_BATCH_SIZE }, (_, index) =>
+      row(`log-${index}`, 0)
+    );
+    auditLogFindMany
+      .mockResolvedValueOnce(full)
+      .mockResolvedValueOnce([row("log-last", 5)]);
+    sendToAuditSink.mockResolvedValue({ success: true });
+
+    const stats = await drainAuditSinks();
+
+    expect(stats.delivered).toBe(AUDIT_SINK_BATCH_SIZE + 1);
+    // The second read starts after the first batch's last row
+    expect(auditLogFindMany.mock.calls[1][0].where.OR[1]).toEqual({
+      timestamp: full[full.length - 1].timestamp,
+      id: { gt: full[full.length - 1].id },
+    });
+  });
+
+  it("leaves the cursor alone and backs off when delivery fails", async () => {
+    auditLogFindMany.mockResolvedValue([row("log-1", 0)]);
+    sendToAuditSink.mockResolvedValue({
+      success: false,
+      error: "HTTP 503: unavailable",
+    });
+    const before = Date.now();
+
+    const stats = await drainAuditSinks();
+
+    expect(stats).toEqual({ sinks: 1, delivered: 0, failed: 1 });
+    expect(sinkUpdateMany).toHaveBeenCalledTimes(1);
+    const { data } = sinkUpdateMany.mock.calls[0][0];
+    expect(data).not.toHaveProperty("cursorId");
+    expect(data).toMatchObject({
+      consecutiveFailures: 1,
+      lastError: "HTTP 503: unavailable",
+    });
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+      before + auditSinkBackoffMs(1)
+    );
+  });
+
+  it("records a failure when the transport throws", async () => {
+    auditLogFindMany.mockResolvedValue([row("log-1", 0)]);
+    sendToAuditSink.mockRejectedValue(new Error("socket hang up"));
+    const before = Date.now();
+
+    const stats = await drainAuditSinks();
+
+    expect(stats).toEqual({ sinks: 1, delivered: 0, failed: 1 });
+    expect(sinkUpdateMany).toHaveBeenCalledTimes(1);
+    const { data } = sinkUpdateMany.mock.calls[0][0];
+    expect(data).not.toHaveProperty("cursorId");
+    expect(data).toMatchObject({
+      consecutiveFailures: 1,
+      lastError: "socket hang up",
+    });
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+      before + auditSinkBackoffMs(1)
+    );
+  });
+
+  it("does not send anything when the sink is caught up", async () => {
+    auditLogFindMany.mockResolvedValue([]);
+
+    await expect(drainAuditSinks()).resolves.toEqual({
+      sinks: 1,
+      delivered: 0,
+      failed: 0,
+    });
+    expect(sendToAuditSink).not.toHaveBeenCalled();
+    expect(sinkUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("auditSinkBackoffMs", () => {
+  it("doubles per failure up to an hour", () => {
+    expect(auditSinkBackoffMs(1)).toBe(10_000);
+    expect(auditSinkBackoffMs(2)).toBe(20_000);
+    expect(auditSinkBackoffMs(30)).toBe(60 * 60_000);
+  });
+});
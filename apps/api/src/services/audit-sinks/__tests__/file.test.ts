@@ -0,0 +1,85 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/config", () => ({ auditSinkConfig: { fileDir: undefined } }));
+
+import {
+  appendNdjsonLines,
+  AuditSinkFileError,
+  resolveSinkFilePath,
+} from "../file";
+
+describe("resolveSinkFilePath", () => {
+  it("refuses file sinks when no directory is configured", () => {
+    expect(() => resolveSinkFilePath("audit.ndjson")).toThrow(
+      AuditSinkFileError
+    );
+  });
+
+  it("keeps the file inside the directory", () => {
+    expect(resolveSinkFilePath("siem/audit.ndjson", "/var/log/qarote")).toBe(
+      "/var/log/qarote/siem/audit.ndjson"
+    );
+    for (const name of ["../audit.ndjson", "/etc/passwd", "."]) {
+      expect(() => resolveSinkFilePath(name, "/var/log/qarote")).toThrow(
+        AuditSinkFileError
+      );
+    }
+  });
+});
+
+describe("appendNdjsonLines", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "audit-sink-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends one line per record", async () => {
+    const file = path.join(dir, "nested", "audit.ndjson");
+
+    await appendNdjsonLines(file, ['{"a":1}'], {});
+    await appendNdjsonLines(file, ['{"a":2}', '{"a":3}'], {});
+
+    await expect(readFile(file, "utf8")).resolves.toBe(
+      '{"a":1}\n{"a":2}\n{"a":3}\n'
+    );
+  });
+
+  it("rotates before a batch would overflow and drops the oldest file", async () => {
+    const file = path.join(dir, "audit.ndjson");
+    const settings = { maxFileBytes: 10, maxFiles: 2 };
+
+    for (const batch of ["first", "second", "third", "fourth"]) {
+      await appendNdjsonLines(file, [batch], settings);
+    }
+
+    expect((await readdir(dir)).sort()).toEqual([
+      "audit.ndjson",
+      "audit.ndjson.1",
+      "audit.ndjson.2",
+    ]);
+    await expect(readFile(file, "utf8")).resolves.toBe("fourth\n");
+    await expect(readFile(`${file}.1`, "utf8")).resolves.toBe("third\n");
+    await expect(readFile(`${file}.2`, "utf8")).resolves.toBe("second\n");
+  });
+
+  it("never splits a batch larger than the limit", async () => {
+    const file = path.join(dir, "audit.ndjson");
+
+    await appendNdjsonLines(file, ["a".repeat(20), "b".repeat(20)], {
+      maxFileBytes: 10,
+    });
+
+    await expect(readFile(file, "utf8")).resolves.toBe(
+      `${"a".repeat(20)}\n${"b".repeat(20)}\n`
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  type AuditSinkRecord,
+  formatAuditRecord,
+  toCefLine,
+  toEcsRecord,
+} from "../mapping";
+
+function record(overrides: Partial<AuditSinkRecord> = {}): AuditSinkRecord {
+  return {
+    id: "log-1",
+    timestamp: new Date("2026-10-29T09:00:00.000Z"),
+    actorId: "user-1",
+    actorEmail: "ops@example.com",
+    apiKeyId: null,
+    source: "qarote",
+    action: "rabbitmq.queue.purge",
+    category: "rabbitmq",
+    entityType: "queue",
+    entityId: "orders",
+    entityLabel: "orders",
+    serverId: "server-1",
+    vhost: "/",
+    workspaceId: "ws-1",
+    organizationId: null,
+    metadata: { messages: 12 },
+    ipAddress: "10.0.0.1",
+    userAgent: "Mozilla/5.0",
+    ...overrides,
+  };
+}
+
+describe("toEcsRecord", () => {
+  it("maps an audit row onto ECS fields", () => {
+    expect(toEcsRecord(record())).toEqual({
+      "@timestamp": "2026-10-29T09:00:00.000Z",
+      ecs: { version: expect.any(String) },
+      event: {
+        id: "log-1",
+        kind: "event",
+        module: "qarote",
+        dataset: "qarote.audit",
+        action: "rabbitmq.queue.purge",
+        category: ["configuration"],
+        type: ["change"],
+        outcome: "success",
+      },
+      user: { id: "user-1", email: "ops@example.com" },
+      source: { ip: "10.0.0.1" },
+      client: { ip: "10.0.0.1" },
+      user_agent: { original: "Mozilla/5.0" },
+      qarote: {
+        source: "qarote",
+        category: "rabbitmq",
+        workspace_id: "ws-1",
+        organization_id: null,
+        api_key_id: null,
+        server_id: "server-1",
+        vhost: "/",
+        entity: { type: "queue", id: "orders", label: "orders" },
+        metadata: { messages: 12 },
+      },
+    });
+  });
+
+  it("marks RBAC denials as failed and leaves absent fields out", () => {
+    const ecs = toEcsRecord(
+      record({
+        source: "rbac_denial",
+        category: "auth",
+        actorId: null,
+        actorEmail: null,
+        ipAddress: null,
+        userAgent: null,
+      })
+    );
+
+    expect(ecs.event).toMatchObject({
+      category: ["authentication"],
+      type: ["denied"],
+      outcome: "failure",
+    });
+    expect(ecs).not.toHaveProperty("user");
+    expect(ecs).not.toHaveProperty("source");
+    expect(ecs).not.toHaveProperty("user_agent");
+  });
+});
+
+describe("toCefLine", () => {
+  it("builds the header and the extension", () => {
+    const line = toCefLine(record());
+
+    expect(line).toMatch(
+      /^CEF:0\|Qarote\|Qarote\|[^|]+\|rabbitmq\.queue\.purge\|rabbitmq\.queue\.purge\|3\|/
+    );
+    expect(line).toContain(`rt=${Date.parse("2026-10-29T09:00:00.000Z")}`);
+    expect(line).toContain("suser=ops@example.com");
+    expect(line).toContain("cs1Label=workspaceId cs1=ws-1");
+    expect(line).not.toContain("apiKeyId");
+  });
+
+  it("escapes pipes in the header and = \\ and newlines in extensions", () => {
+    const line = toCefLine(
+      record({
+        action: "custom|action",
+        entityLabel: "a=b\\c\nd",
+        source: "rbac_denial",
+      })
+    );
+
+    expect(line).toContain("|custom\\|action|custom\\|action|7|");
+    expect(line).toContain("msg=a\\=b\\\\c\\nd");
+    expect(line).not.toContain("\n");
+  });
+});
+
+describe("formatAuditRecord", () => {
+  it("serializes each format on a single line", () => {
+    const multiline = record({ entityLabel: "line one\nline two" });
+
+    for (const format of ["json", "ecs", "cef"] as const) {
+      expect(formatAuditRecord(format, multiline)).not.toContain("\n");
+    }
+    expect(JSON.parse(formatAuditRecord("json", multiline))).toMatchObject({
+      id: "log-1",
+      timestamp: "2026-10-29T09:00:00.000Z",
+      entityLabel: "line one\nline two",
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import net from "node:net";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { AuditSinkRecord } from "../mapping";
+import {
+  formatSyslogMessage,
+  frameSyslogMessage,
+  sendSyslogMessages,
+} from "../syslog";
+
+const record = {
+  id: "log-1",
+  timestamp: new Date("2026-10-29T09:00:00.000Z"),
+  source: "qarote",
+  action: "rabbitmq.queue.purge",
+} as AuditSinkRecord;
+
+describe("formatSyslogMessage", () => {
+  it("writes an RFC5424 header with the audit facility", () => {
+    expect(formatSyslogMessage(record, "{}", {}, "api-1")).toBe(
+      "<109>1 2026-10-29T09:00:00.000Z api-1 qarote - rabbitmq.queue.purge - {}"
+    );
+  });
+
+  it("raises denials to warning and honors the sink's facility", () => {
+    const message = formatSyslogMessage(
+      { ...record, source: "rbac_denial" },
+      "{}",
+      { facility: 16, appName: "qarote prod" },
+      "api 1"
+    );
+
+    // local0 (16) * 8 + warning (4); spaces dropped from header fields
+    expect(message).toBe(
+      "<132>1 2026-10-29T09:00:00.000Z api1 qaroteprod - rabbitmq.queue.purge - {}"
+    );
+  });
+});
+
+describe("frameSyslogMessage", () => {
+  it("prefixes the byte length, not the character count", () => {
+    expect(frameSyslogMessage("héllo")).toBe("6 héllo");
+  });
+});
+
+describe("sendSyslogMessages", () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) =>
+      server ? server.close(() => resolve()) : resolve()
+    );
+    server = null;
+  });
+
+  it("delivers octet-counted frames over TCP", async () => {
+    const received = new Promise<string>((resolve) => {
+      server = net.createServer((socket) => {
+        let data = "";
+        socket.on("data", (chunk) => (data += chunk.toString("utf8")));
+        socket.on("end", () => resolve(data));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", () => resolve())
+    );
+    const { port } = server!.address() as net.AddressInfo;
+
+    await sendSyslogMessages({ host: "127.0.0.1", port, tls: false }, [
+      "first",
+      "second\nline",
+    ]);
+
+    await expect(received).resolves.toBe("5 first11 second\nline");
+  });
+
+  it("rejects when the collector is unreachable", async () => {
+    server = net.createServer();
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", () => resolve())
+    );
+    const { port } = server.address() as net.AddressInfo;
+    await new Promise<void>((resolve) => server!.close(() => resolve()));
+    server = null;
+
+    await expect(
+      sendSyslogMessages({ host: "127.0.0.1", port, tls: false }, ["x"])
+    ).rejects.toThrow();
+  });
+});
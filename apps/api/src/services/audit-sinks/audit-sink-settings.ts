@@ -0,0 +1,288 @@
+import crypto from "node:crypto";
+
+import { prisma } from "@/core/prisma";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+import {
+  type AuditSinkKind,
+  type AuditSinkSettings,
+  sendToAuditSink,
+} from "./delivery";
+import { resolveSinkFilePath } from "./file";
+import type { AuditSinkFormat, AuditSinkRecord } from "./mapping";
+
+import type { Prisma } from "@/generated/prisma/client";
+
+/**
+ * Configuration and health of a workspace's audit sinks. Like the alert
+ * channel configs, the HTTP Authorization value is encrypted at rest and
+ * never returned. Every function scopes the sink to the caller's
+ * workspace and returns null when it is not there.
+ */
+
+/** Pending events older than this turn a sink from healthy to lagging. */
+export const AUDIT_SINK_LAG_THRESHOLD_MS = 5 * 60_000;
+// Counting past this is wasted work; the UI shows "10000+"
+const PENDING_COUNT_CAP = 10_000;
+
+export type AuditSinkHealth = "healthy" | "lagging" | "failing" | "disabled";
+
+interface AuditSinkFields {
+  name: string;
+  format: AuditSinkFormat;
+  enabled: boolean;
+}
+
+export type AuditSinkInput = AuditSinkFields & {
+  kind: AuditSinkKind;
+  settings: AuditSinkSettings;
+  /** HTTP only: the Authorization header value, e.g. `Splunk <token>`. */
+  authorization?: string;
+  /** Start from the oldest row retention has kept instead of now. */
+  backfill?: boolean;
+};
+
+/**
+ * Omitted fields are kept; a blank authorization keeps the stored one and
+ * null removes it. The kind cannot change — it decides the settings shape.
+ */
+export type AuditSinkUpdate = {
+  id: string;
+  kind: AuditSinkKind;
+  settings?: AuditSinkSettings;
+  authorization?: string | null;
+} & Partial<AuditSinkFields>;
+
+export interface AuditSinkSummary {
+  id: string;
+  name: string;
+  kind: AuditSinkKind;
+  format: AuditSinkFormat;
+  enabled: boolean;
+  settings: Record<string, unknown>;
+  hasAuthorization: boolean;
+  health: AuditSinkHealth;
+  /** Events not yet delivered, capped at `pendingCapped`. */
+  pendingEvents: number;
+  pendingCapped: boolean;
+  /** Age of the oldest undelivered event. */
+  lagSeconds: number | null;
+  cursorTimestamp: string;
+  lastDeliveredAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  consecutiveFailures: number;
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
+export interface AuditSinkTestResult {
+  success: boolean;
+  durationMs: number;
+  error: string | null;
+}
+
+function afterCursor(
+  workspaceId: string,
+  cursorTimestamp: Date,
+  cursorId: string
+): Prisma.AuditLogWhereInput {
+  return {
+    workspaceId,
+    OR: [
+      { timestamp: { gt: cursorTimestamp } },
+      { timestamp: cursorTimestamp, id: { gt: cursorId } },
+    ],
+  };
+}
+
+function healthOf(
+  sink: { enabled: boolean; consecutiveFailures: number },
+  lagMs: number | null
+): AuditSinkHealth {
+  if (!sink.enabled) return "disabled";
+  if (sink.consecutiveFailures > 0) return "failing";
+  if (lagMs !== null && lagMs > AUDIT_SINK_LAG_THRESHOLD_MS) return "lagging";
+  return "healthy";
+}
+
+/** File names are checked here so a bad one fails the save, not the drain. */
+function checkSettings(kind: AuditSinkKind, settings: AuditSinkSettings) {
+  if (kind === "file" && "fileName" in settings) {
+    resolveSinkFilePath(settings.fileName);
+  }
+}
+
+export async function listAuditSinks(
+  workspaceId: string
+): Promise<AuditSinkSummary[]> {
+  const sinks = await prisma.auditSink.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: "asc" },
+  });
+  const now = Date.now();
+
+  return Promise.all(
+    sinks.map(async (sink) => {
+      const pending = afterCursor(
+        workspaceId,
+        sink.cursorTimestamp,
+        sink.cursorId
+      );
+      const [pendingEvents, oldest] = await Promise.all([
+        prisma.auditLog.count({ where: pending, take: PENDING_COUNT_CAP }),
+        prisma.auditLog.findFirst({
+          where: pending,
+          orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+          select: { timestamp: true },
+        }),
+      ]);
+      const lagMs = oldest ? now - oldest.timestamp.getTime() : null;
+
+      return {
+        id: sink.id,
+        name: sink.name,
+        kind: sink.kind as AuditSinkKind,
+        format: sink.format as AuditSinkFormat,
+        enabled: sink.enabled,
+        settings: (sink.settings ?? {}) as Record<string, unknown>,
+        hasAuthorization: !!sink.secret,
+        health: healthOf(sink, lagMs),
+        pendingEvents,
+        pendingCapped: pendingEvents >= PENDING_COUNT_CAP,
+        lagSeconds: lagMs === null ? null : Math.floor(lagMs / 1000),
+        cursorTimestamp: sink.cursorTimestamp.toISOString(),
+        lastDeliveredAt: sink.lastDeliveredAt?.toISOString() ?? null,
+        lastError: sink.lastError,
+        lastErrorAt: sink.lastErrorAt?.toISOString() ?? null,
+        consecutiveFailures: sink.consecutiveFailures,
+        nextAttemptAt: sink.nextAttemptAt.toISOString(),
+        createdAt: sink.createdAt.toISOString(),
+      };
+    })
+  );
+}
+
+/**
+ * A new sink starts at the current time — or, with `backfill`, at the
+ * oldest row retention has kept — so it never floods a SIEM with history
+ * nobody asked for.
+ */
+export async function createAuditSink(
+  workspaceId: string,
+  input: AuditSinkInput
+): Promise<{ id: string }> {
+  checkSettings(input.kind, input.settings);
+  const authorization =
+    input.kind === "http" && input.authorization
+      ? EncryptionService.encrypt(input.authorization)
+      : null;
+
+  return prisma.auditSink.create({
+    data: {
+      workspaceId,
+      name: input.name,
+      kind: input.kind,
+      format: input.format,
+      enabled: input.enabled,
+      settings: input.settings as unknown as Prisma.InputJsonValue,
+      secret: authorization,
+      encryptionKeyVersion: EncryptionService.keyVersion,
+      cursorTimestamp: input.backfill ? new Date(0) : new Date(),
+    },
+    select: { id: true },
+  });
+}
+
+/** Any edit clears the backoff, so a fixed sink is retried right away. */
+export async function updateAuditSink(
+  workspaceId: string,
+  input: AuditSinkUpdate
+): Promise<boolean> {
+  if (input.settings) checkSettings(input.kind, input.settings);
+
+  const secretData =
+    input.kind !== "http" || input.authorization === undefined
+      ? {}
+      : input.authorization === null
+        ? { secret: null }
+        : input.authorization.trim()
+          ? {
+              secret: EncryptionService.encrypt(input.authorization),
+              encryptionKeyVersion: EncryptionService.keyVersion,
+            }
+          : {};
+
+  const { count } = await prisma.auditSink.updateMany({
+    where: { id: input.id, workspaceId, kind: input.kind },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.format !== undefined && { format: input.format }),
+      ...(input.enabled !== undefined && { enabled: input.enabled }),
+      ...(input.settings && {
+        settings: input.settings as unknown as Prisma.InputJsonValue,
+      }),
+      ...secretData,
+      consecutiveFailures: 0,
+      nextAttemptAt: new Date(),
+    },
+  });
+  return count === 1;
+}
+
+export async function deleteAuditSink(
+  workspaceId: string,
+  id: string
+): Promise<boolean> {
+  const { count } = await prisma.auditSink.deleteMany({
+    where: { id, workspaceId },
+  });
+  return count === 1;
+}
+
+/**
+ * Send one synthetic `audit.sink.test` event straight to the sink. It
+ * does not touch the cursor or the health fields — it is not part of the
+ * stream.
+ */
+export async function sendAuditSinkTest(
+  workspaceId: string,
+  id: string,
+  actor: { id: string | null; email: string | null }
+): Promise<AuditSinkTestResult | null> {
+  const sink = await prisma.auditSink.findFirst({
+    where: { id, workspaceId },
+    select: { kind: true, format: true, settings: true, secret: true },
+  });
+  if (!sink) return null;
+
+  const record: AuditSinkRecord = {
+    id: crypto.randomUUID(),
+    timestamp: new Date(),
+    actorId: actor.id,
+    actorEmail: actor.email,
+    apiKeyId: null,
+    source: "qarote",
+    action: "audit.sink.test",
+    category: "audit",
+    entityType: "audit_sink",
+    entityId: id,
+    entityLabel: null,
+    serverId: null,
+    vhost: null,
+    workspaceId,
+    organizationId: null,
+    metadata: { test: true },
+    ipAddress: null,
+    userAgent: null,
+  };
+
+  const startedAt = Date.now();
+  const result = await sendToAuditSink(sink, [record]);
+  return {
+    success: result.success,
+    durationMs: Date.now() - startedAt,
+    error: result.success ? null : (result.error ?? "delivery failed"),
+  };
+}
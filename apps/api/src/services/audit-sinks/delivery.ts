@@ -0,0 +1,145 @@
+import {
+  type ChannelSendResult,
+  postJsonBody,
+} from "@/services/alert-channels/http";
+import { EncryptionService } from "@/services/encryption.service";
+
+import {
+  appendNdjsonLines,
+  type FileSinkSettings,
+  resolveSinkFilePath,
+} from "./file";
+import {
+  type AuditSinkFormat,
+  type AuditSinkRecord,
+  formatAuditRecord,
+} from "./mapping";
+import {
+  formatSyslogMessage,
+  sendSyslogMessages,
+  type SyslogSettings,
+} from "./syslog";
+
+export const AUDIT_SINK_KINDS = ["syslog", "http", "file"] as const;
+export type AuditSinkKind = (typeof AUDIT_SINK_KINDS)[number];
+
+export interface HttpSinkSettings {
+  url: string;
+}
+
+export type AuditSinkSettings =
+  | SyslogSettings
+  | HttpSinkSettings
+  | FileSinkSettings;
+
+/** What a delivery needs from the sink row; the secret still encrypted. */
+export interface AuditSinkTarget {
+  kind: string;
+  format: string;
+  settings: unknown;
+  secret: string | null;
+}
+
+export type AuditSinkSendResult = Pick<
+  ChannelSendResult,
+  "success" | "error" | "permanent" | "retryAfterMs"
+>;
+
+const HTTP_ATTEMPTS = 3;
+const HTTP_RETRY_DELAY_MS = 1_000;
+// A longer Retry-After is left to the sink's backoff instead of holding
+// the drain cycle
+const MAX_INLINE_RETRY_AFTER_MS = 5_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * POST a batch as newline-delimited records — NDJSON for `json`/`ecs`,
+ * one CEF line per event otherwise — which Splunk HEC's raw endpoint,
+ * Logstash and Vector's HTTP sources all accept. Retried a few times in
+ * place; what still fails goes back to the drain's backoff.
+ */
+async function sendHttp(
+  settings: HttpSinkSettings,
+  format: AuditSinkFormat,
+  lines: string[],
+  secret: string | null
+): Promise<AuditSinkSendResult> {
+  const body = lines.map((line) => `${line}\n`).join("");
+  const headers: Record<string, string> = {
+    "Content-Type":
+      format === "cef" ? "text/plain; charset=utf-8" : "application/x-ndjson",
+    "User-Agent": "Qarote-AuditSink/1.0",
+    ...(secret && { Authorization: EncryptionService.decrypt(secret) }),
+  };
+
+  let result: AuditSinkSendResult = { success: false };
+  for (let attempt = 1; attempt <= HTTP_ATTEMPTS; attempt++) {
+    result = await postJsonBody(settings.url, body, headers);
+    if (result.success || result.permanent || attempt === HTTP_ATTEMPTS) {
+      break;
+    }
+    const delay = result.retryAfterMs ?? HTTP_RETRY_DELAY_MS * attempt;
+    if (delay > MAX_INLINE_RETRY_AFTER_MS) break;
+    await sleep(delay);
+  }
+  return {
+    success: result.success,
+    error: result.error,
+    permanent: result.permanent,
+    retryAfterMs: result.retryAfterMs,
+  };
+}
+
+/** Deliver a batch of audit rows to one sink, in order. */
+export async function sendToAuditSink(
+  sink: AuditSinkTarget,
+  records: AuditSinkRecord[]
+): Promise<AuditSinkSendResult> {
+  const format = sink.format as AuditSinkFormat;
+  const lines = records.map((record) => formatAuditRecord(format, record));
+
+  try {
+    switch (sink.kind as AuditSinkKind) {
+      case "http":
+        return await sendHttp(
+          sink.settings as HttpSinkSettings,
+          format,
+          lines,
+          sink.secret
+        );
+      case "syslog": {
+        const settings = sink.settings as SyslogSettings;
+        await sendSyslogMessages(
+          settings,
+          records.map((record, index) =>
+            formatSyslogMessage(record, lines[index], settings)
+          )
+        );
+        return { success: true };
+      }
+      case "file": {
+        const settings = sink.settings as FileSinkSettings;
+        await appendNdjsonLines(
+          resolveSinkFilePath(settings.fileName),
+          lines,
+          settings
+        );
+        return { success: true };
+      }
+      default:
+        return {
+          success: false,
+          error: `unknown sink kind ${sink.kind}`,
+          permanent: true,
+        };
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { type AuditSinkSendResult, sendToAuditSink } from "./delivery";
+import { AUDIT_SINK_RECORD_SELECT } from "./mapping";
+
+/**
+ * Streams each enabled sink's share of the audit log, in order, from its
+ * durable cursor — the (timestamp, id) of the last row delivered. The
+ * cursor only moves after a batch is accepted, so a worker restart or a
+ * collector outage replays from there instead of dropping events; the
+ * price is at-least-once delivery, which SIEMs dedupe on the event id.
+ */
+
+export const AUDIT_SINK_BATCH_SIZE = 200;
+// Batches per sink per cycle, so one sink catching up on a backlog does
+// not starve the others
+const MAX_BATCHES_PER_CYCLE = 10;
+const MAX_SINKS_PER_CYCLE = 50;
+/**
+ * Rows younger than this are left for the next cycle. `timestamp` is set
+ * before the insert commits, so a slower transaction can commit a row
+ * older than one already delivered — the lag keeps the cursor behind it.
+ */
+export const AUDIT_SINK_SETTLE_MS = 5_000;
+
+const BACKOFF_BASE_MS = 10_000;
+const BACKOFF_CAP_MS = 60 * 60_000;
+
+export interface AuditSinkDrainStats {
+  sinks: number;
+  delivered: number;
+  failed: number;
+}
+
+export function auditSinkBackoffMs(consecutiveFailures: number): number {
+  return Math.min(
+    BACKOFF_CAP_MS,
+    BACKOFF_BASE_MS * 2 ** Math.max(0, consecutiveFailures - 1)
+  );
+}
+
+interface DueSink {
+  id: string;
+  workspaceId: string;
+  kind: string;
+  format: string;
+  settings: unknown;
+  secret: string | null;
+  cursorTimestamp: Date;
+  cursorId: string;
+  consecutiveFailures: number;
+}
+
+async function recordFailure(
+  sink: DueSink,
+  result: AuditSinkSendResult
+): Promise<void> {
+  const failures = sink.consecutiveFailures + 1;
+  // A permanent rejection (bad token, malformed URL) will not heal on its
+  // own; the cap keeps it from hammering the receiver until someone edits
+  // the sink, which resets the backoff.
+  const backoffMs = result.permanent
+    ? BACKOFF_CAP_MS
+    : Math.max(result.retryAfterMs ?? 0, auditSinkBackoffMs(failures));
+  await prisma.auditSink.updateMany({
+    where: { id: sink.id },
+    data: {
+      consecutiveFailures: failures,
+      lastError: (result.error ?? "delivery failed").slice(0, 500),
+      lastErrorAt: new Date(),
+      nextAttemptAt: new Date(Date.now() + backoffMs),
+    },
+  });
+}
+
+async function drainSink(
+  sink: DueSink,
+  settledBefore: Date
+): Promise<{ delivered: number; failed: boolean }> {
+  let cursor = { timestamp: sink.cursorTimestamp, id: sink.cursorId };
+  let delivered = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_CYCLE; batch++) {
+    const rows = await prisma.auditLog.findMany({
+      where: {
+        workspaceId: sink.workspaceId,
+        timestamp: { lte: settledBefore },
+        OR: [
+          { timestamp: { gt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, id: { gt: cursor.id } },
+        ],
+      },
+      orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+      take: AUDIT_SINK_BATCH_SIZE,
+      select: AUDIT_SINK_RECORD_SELECT,
+    });
+    if (rows.length === 0) break;
+
+    const result = await sendToAuditSink(sink, rows);
+    if (!result.success) {
+      logger.warn(
+        { sinkId: sink.id, kind: sink.kind, error: result.error },
+        "Audit sink delivery failed"
+      );
+      await recordFailure(sink, result);
+      return { delivered, failed: true };
+    }
+
+    const last = rows[rows.length - 1];
+    cursor = { timestamp: last.timestamp, id: last.id };
+    const { count } = await prisma.auditSink.updateMany({
+      where: { id: sink.id },
+      data: {
+        cursorTimestamp: cursor.timestamp,
+        cursorId: cursor.id,
+        lastDeliveredAt: new Date(),
+        lastError: null,
+        consecutiveFailures: 0,
+      },
+    });
+    delivered += rows.length;
+    // Deleted mid-cycle
+    if (count === 0 || rows.length < AUDIT_SINK_BATCH_SIZE) break;
+  }
+  return { delivered, failed: false };
+}
+
+/**
+ * One drain cycle over the sinks that are due. Runs on the notification
+ * worker, which holds the advisory lock, so each sink has one drainer.
+ */
+export async function drainAuditSinks(): Promise<AuditSinkDrainStats> {
+  const now = new Date();
+  const settledBefore = new Date(now.getTime() - AUDIT_SINK_SETTLE_MS);
+  const sinks = await prisma.auditSink.findMany({
+    where: { enabled: true, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: MAX_SINKS_PER_CYCLE,
+    select: {
+      id: true,
+      workspaceId: true,
+      kind: true,
+      format: true,
+      settings: true,
+      secret: true,
+      cursorTimestamp: true,
+      cursorId: true,
+      consecutiveFailures: true,
+    },
+  });
+
+  const stats: AuditSinkDrainStats = {
+    sinks: sinks.length,
+    delivered: 0,
+    failed: 0,
+  };
+  for (const sink of sinks) {
+    try {
+      const result = await drainSink(sink, settledBefore);
+      stats.delivered += result.delivered;
+      if (result.failed) stats.failed++;
+    } catch (error) {
+      stats.failed++;
+      logger.error({ error, sinkId: sink.id }, "Audit sink drain errored");
+      // A mapping bug or a transport that throws instead of returning a
+      // result still counts against the sink, so it backs off and shows
+      // as failing instead of being retried every cycle
+      await recordFailure(sink, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }).catch((recordError: unknown) =>
+        logger.error(
+          { error: recordError, sinkId: sink.id },
+          "Failed to record audit sink failure"
+        )
+      );
+    }
+  }
+  return stats;
+}
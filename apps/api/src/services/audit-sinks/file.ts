@@ -0,0 +1,104 @@
+import { appendFile, mkdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { auditSinkConfig } from "@/config";
+
+/**
+ * Rotating NDJSON files under `AUDIT_SINK_FILE_DIR`, for shippers such as
+ * Filebeat or the Splunk forwarder that tail a directory. `audit.ndjson`
+ * rolls over to `audit.ndjson.1`, `.1` to `.2` and so on; the oldest file
+ * past `maxFiles` is deleted.
+ */
+
+export const DEFAULT_MAX_FILE_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_MAX_FILES = 5;
+
+export interface FileSinkSettings {
+  /** Relative to `AUDIT_SINK_FILE_DIR`. */
+  fileName: string;
+  maxFileBytes?: number;
+  /** Rotated files kept next to the live one. */
+  maxFiles?: number;
+}
+
+export class AuditSinkFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditSinkFileError";
+  }
+}
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return (
+    relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * Absolute path of a sink's live file. A workspace admin picks the name,
+ * so it is fenced to the directory the operator set aside.
+ */
+export function resolveSinkFilePath(
+  fileName: string,
+  fileDir = auditSinkConfig.fileDir
+): string {
+  if (!fileDir) {
+    throw new AuditSinkFileError(
+      "File sinks need AUDIT_SINK_FILE_DIR to be set"
+    );
+  }
+  const dir = path.resolve(fileDir);
+  const resolved = path.resolve(dir, fileName);
+  if (!isWithin(dir, resolved)) {
+    throw new AuditSinkFileError(
+      "File sinks must write inside AUDIT_SINK_FILE_DIR"
+    );
+  }
+  return resolved;
+}
+
+async function sizeOf(file: string): Promise<number> {
+  try {
+    return (await stat(file)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+    throw error;
+  }
+}
+
+async function rotate(file: string, maxFiles: number): Promise<void> {
+  await rm(`${file}.${maxFiles}`, { force: true });
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    await rename(`${file}.${index}`, `${file}.${index + 1}`).catch(
+      (error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") throw error;
+      }
+    );
+  }
+  if (maxFiles > 0) {
+    await rename(file, `${file}.1`);
+  } else {
+    await rm(file, { force: true });
+  }
+}
+
+/**
+ * Append lines to the live file, rotating first when the batch would push
+ * it past `maxFileBytes`. A batch is never split across files.
+ */
+export async function appendNdjsonLines(
+  file: string,
+  lines: string[],
+  settings: Pick<FileSinkSettings, "maxFileBytes" | "maxFiles">
+): Promise<void> {
+  const chunk = lines.map((line) => `${line}\n`).join("");
+  const maxFileBytes = settings.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+  await mkdir(path.dirname(file), { recursive: true });
+  const size = await sizeOf(file);
+  if (size > 0 && size + Buffer.byteLength(chunk, "utf8") > maxFileBytes) {
+    await rotate(file, settings.maxFiles ?? DEFAULT_MAX_FILES);
+  }
+  await appendFile(file, chunk, "utf8");
+}
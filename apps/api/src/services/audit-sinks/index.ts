@@ -0,0 +1,7 @@
+export * from "./audit-sink-settings";
+export * from "./delivery";
+export * from "./drain";
+export * from "./file";
+export * from "./mapping";
+export * from "./signal";
+export * from "./syslog";
@@ -0,0 +1,193 @@
+import type { AuditSource, Prisma } from "@/generated/prisma/client";
+
+/**
+ * Field mapping of audit rows for SIEMs. `json` keeps Qarote's own field
+ * names, `ecs` follows the Elastic Common Schema and `cef` produces
+ * ArcSight Common Event Format lines, which Splunk and most SIEMs parse
+ * out of the box.
+ */
+
+export const AUDIT_SINK_FORMATS = ["json", "ecs", "cef"] as const;
+export type AuditSinkFormat = (typeof AUDIT_SINK_FORMATS)[number];
+
+/** The AuditLog columns a sink streams. */
+export interface AuditSinkRecord {
+  id: string;
+  timestamp: Date;
+  actorId: string | null;
+  actorEmail: string | null;
+  apiKeyId: string | null;
+  source: AuditSource;
+  action: string;
+  category: string;
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  serverId: string | null;
+  vhost: string | null;
+  workspaceId: string | null;
+  organizationId: string | null;
+  metadata: Prisma.JsonValue | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export const AUDIT_SINK_RECORD_SELECT = {
+  id: true,
+  timestamp: true,
+  actorId: true,
+  actorEmail: true,
+  apiKeyId: true,
+  source: true,
+  action: true,
+  category: true,
+  entityType: true,
+  entityId: true,
+  entityLabel: true,
+  serverId: true,
+  vhost: true,
+  workspaceId: true,
+  organizationId: true,
+  metadata: true,
+  ipAddress: true,
+  userAgent: true,
+} as const satisfies Prisma.AuditLogSelect;
+
+const ECS_VERSION = "8.11.0";
+const PRODUCT_VERSION = process.env.npm_package_version || "0.0.0";
+
+export function isDenial(record: AuditSinkRecord): boolean {
+  return record.source === "rbac_denial";
+}
+
+export function toJsonRecord(record: AuditSinkRecord): Record<string, unknown> {
+  return { ...record, timestamp: record.timestamp.toISOString() };
+}
+
+// ECS `event.category` is a closed list; actions outside these map to
+// `configuration`, which covers broker and workspace changes.
+const ECS_CATEGORY: Record<string, string> = {
+  auth: "authentication",
+  apikey: "iam",
+  org: "iam",
+};
+
+export function toEcsRecord(record: AuditSinkRecord): Record<string, unknown> {
+  const denied = isDenial(record);
+  return {
+    "@timestamp": record.timestamp.toISOString(),
+    ecs: { version: ECS_VERSION },
+    event: {
+      id: record.id,
+      kind: "event",
+      module: "qarote",
+      dataset: "qarote.audit",
+      action: record.action,
+      category: [ECS_CATEGORY[record.category] ?? "configuration"],
+      type: [denied ? "denied" : "change"],
+      outcome: denied ? "failure" : "success",
+    },
+    ...(record.actorId || record.actorEmail
+      ? {
+          user: {
+            ...(record.actorId && { id: record.actorId }),
+            ...(record.actorEmail && { email: record.actorEmail }),
+          },
+        }
+      : {}),
+    ...(record.ipAddress && {
+      source: { ip: record.ipAddress },
+      client: { ip: record.ipAddress },
+    }),
+    ...(record.userAgent && { user_agent: { original: record.userAgent } }),
+    qarote: {
+      source: record.source,
+      category: record.category,
+      workspace_id: record.workspaceId,
+      organization_id: record.organizationId,
+      api_key_id: record.apiKeyId,
+      server_id: record.serverId,
+      vhost: record.vhost,
+      entity: {
+        type: record.entityType,
+        id: record.entityId,
+        label: record.entityLabel,
+      },
+      metadata: record.metadata,
+    },
+  };
+}
+
+function cefHeader(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|");
+}
+
+function cefExtension(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/=/g, "\\=")
+    .replace(/\r?\n|\r/g, "\\n");
+}
+
+/** CEF severity: 0–10. Denials stand out; everything else is routine. */
+function cefSeverity(record: AuditSinkRecord): number {
+  if (isDenial(record)) return 7;
+  return record.category === "auth" ? 5 : 3;
+}
+
+export function toCefLine(record: AuditSinkRecord): string {
+  const extensions: [string, string | number | null][] = [
+    ["rt", record.timestamp.getTime()],
+    ["externalId", record.id],
+    ["act", record.action],
+    ["cat", record.category],
+    ["outcome", isDenial(record) ? "failure" : "success"],
+    ["suid", record.actorId],
+    ["suser", record.actorEmail],
+    ["src", record.ipAddress],
+    ["requestClientApplication", record.userAgent],
+    ["cs1Label", "workspaceId"],
+    ["cs1", record.workspaceId],
+    ["cs2Label", "entityType"],
+    ["cs2", record.entityType],
+    ["cs3Label", "entityId"],
+    ["cs3", record.entityId],
+    ["cs4Label", "source"],
+    ["cs4", record.source],
+    ["cs5Label", "vhost"],
+    ["cs5", record.vhost],
+    ["cs6Label", "serverId"],
+    ["cs6", record.serverId],
+    ["msg", record.entityLabel],
+  ];
+  const extension = extensions
+    .filter(([, value]) => value !== null && value !== "")
+    .map(([key, value]) => `${key}=${cefExtension(String(value))}`)
+    .join(" ");
+
+  return [
+    "CEF:0",
+    "Qarote",
+    "Qarote",
+    cefHeader(PRODUCT_VERSION),
+    cefHeader(record.action),
+    cefHeader(record.action),
+    String(cefSeverity(record)),
+    extension,
+  ].join("|");
+}
+
+/** One record as a single line in the sink's format, without newline. */
+export function formatAuditRecord(
+  format: AuditSinkFormat,
+  record: AuditSinkRecord
+): string {
+  switch (format) {
+    case "cef":
+      return toCefLine(record);
+    case "ecs":
+      return JSON.stringify(toEcsRecord(record));
+    case "json":
+      return JSON.stringify(toJsonRecord(record));
+  }
+}
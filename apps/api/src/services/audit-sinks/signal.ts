@@ -0,0 +1,21 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+/**
+ * Postgres channel the audit sink drain LISTENs on. Kept apart from the
+ * drain so the audit writer can wake it without loading the sinks.
+ */
+export const AUDIT_SINK_CHANNEL = "audit_log_new";
+
+/**
+ * Wake the sink drain after an audit row is written. Best-effort: the
+ * cursor, not the notification, is what guarantees delivery, and the
+ * drain's polling picks up anything a lost NOTIFY leaves behind.
+ */
+export async function signalAuditSinks(): Promise<void> {
+  try {
+    await prisma.$executeRawUnsafe(`NOTIFY ${AUDIT_SINK_CHANNEL}`);
+  } catch (error) {
+    logger.debug({ error }, "Audit sink NOTIFY failed");
+  }
+}
@@ -0,0 +1,120 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+import { type AuditSinkRecord, isDenial } from "./mapping";
+
+/**
+ * RFC5424 syslog over TCP, optionally TLS (RFC5425). Messages are framed
+ * with octet counting (RFC6587 §3.4.1), so a CEF or JSON body containing
+ * newlines cannot split an event in two on the collector.
+ */
+
+const SOCKET_TIMEOUT_MS = 10_000;
+const NILVALUE = "-";
+
+// RFC5424 severities
+const SEVERITY_WARNING = 4;
+const SEVERITY_NOTICE = 5;
+
+/** `log audit` (13) unless the sink overrides it. */
+export const DEFAULT_SYSLOG_FACILITY = 13;
+export const DEFAULT_SYSLOG_APP_NAME = "qarote";
+
+export interface SyslogSettings {
+  host: string;
+  port: number;
+  tls: boolean;
+  /** PEM bundle trusted for the collector, on top of the system roots. */
+  caCert?: string;
+  /** Off only for collectors with a self-signed certificate. */
+  rejectUnauthorized?: boolean;
+  facility?: number;
+  appName?: string;
+}
+
+/** PRINTUSASCII without space, as HOSTNAME and APP-NAME require. */
+function headerField(value: string, maxLength: number): string {
+  const cleaned = value.replace(/[^\x21-\x7e]/g, "").slice(0, maxLength);
+  return cleaned || NILVALUE;
+}
+
+/**
+ * One RFC5424 message. Denials are sent as warnings, every other event as
+ * a notice; MSGID carries the action so collectors can route on it
+ * without parsing the body.
+ */
+export function formatSyslogMessage(
+  record: AuditSinkRecord,
+  body: string,
+  settings: Pick<SyslogSettings, "facility" | "appName">,
+  hostname = os.hostname()
+): string {
+  const facility = settings.facility ?? DEFAULT_SYSLOG_FACILITY;
+  const severity = isDenial(record) ? SEVERITY_WARNING : SEVERITY_NOTICE;
+  return [
+    `<${facility * 8 + severity}>1`,
+    record.timestamp.toISOString(),
+    headerField(hostname, 255),
+    headerField(settings.appName || DEFAULT_SYSLOG_APP_NAME, 48),
+    NILVALUE,
+    headerField(record.action, 32),
+    NILVALUE,
+    body,
+  ].join(" ");
+}
+
+/** Octet-counting frame: `<byte length> <message>`. */
+export function frameSyslogMessage(message: string): string {
+  return `${Buffer.byteLength(message, "utf8")} ${message}`;
+}
+
+function connect(settings: SyslogSettings): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error) => {
+      socket.destroy();
+      reject(error);
+    };
+    const socket: net.Socket = settings.tls
+      ? tls.connect({
+          host: settings.host,
+          port: settings.port,
+          servername: net.isIP(settings.host) ? undefined : settings.host,
+          ca: settings.caCert
+            ? [...tls.rootCertificates, settings.caCert]
+            : undefined,
+          rejectUnauthorized: settings.rejectUnauthorized ?? true,
+        })
+      : net.connect({ host: settings.host, port: settings.port });
+
+    // Also bounds the write once connected: a stalled collector errors
+    // the socket instead of hanging the cycle
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () =>
+      socket.destroy(new Error(`timed out after ${SOCKET_TIMEOUT_MS}ms`))
+    );
+    socket.once("error", onError);
+    socket.once(settings.tls ? "secureConnect" : "connect", () => {
+      socket.off("error", onError);
+      resolve(socket);
+    });
+  });
+}
+
+/**
+ * Open a connection, write the framed messages and close it. A connection
+ * per batch keeps the worker stateless; at the sink's batch size the
+ * handshake is noise next to the events.
+ */
+export async function sendSyslogMessages(
+  settings: SyslogSettings,
+  messages: string[]
+): Promise<void> {
+  const socket = await connect(settings);
+  await new Promise<void>((resolve, reject) => {
+    socket.once("error", (error) => {
+      socket.destroy();
+      reject(error);
+    });
+    socket.end(messages.map(frameSyslogMessage).join(""), () => resolve());
+  });
+}
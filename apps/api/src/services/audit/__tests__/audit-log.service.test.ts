@@ -5,6 +5,8 @@
  *   - DB write is suppressed when no workspaceId
  *   - Pino mirror runs in all three cases
  *   - Errors are swallowed (best-effort)
+ *   - Persisted rows are handed to audit webhooks
+ *   - Persisted rows wake the audit sink drain
  */
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
@@ -13,6 +15,8 @@ const mockCreate = vi.fn();
 const mockLoggerInfo = vi.fn();
 const mockLoggerError = vi.fn();
 const mockGetWorkspacePlan = vi.fn();
+const mockEnqueueAuditWebhooks = vi.fn();
+const mockSignalAuditSinks = vi.fn();
 
 vi.mock("@/core/prisma", () => ({
   prisma: { auditLog: { create: mockCreate } },
@@ -31,6 +35,14 @@ vi.mock("@/services/plan/plan.service", () => ({
   getWorkspacePlan: mockGetWorkspacePlan,
 }));
 
+vi.mock("@/services/webhooks/enqueue", () => ({
+  enqueueAuditWebhooks: mockEnqueueAuditWebhooks,
+}));
+
+vi.mock("@/services/audit-sinks/signal", () => ({
+  signalAuditSinks: mockSignalAuditSinks,
+}));
+
 const { recordAuditLog } = await import("../audit-log.service");
 
 beforeEach(() => {
@@ -38,6 +50,8 @@ beforeEach(() => {
   mockLoggerInfo.mockReset();
   mockLoggerError.mockReset();
   mockGetWorkspacePlan.mockReset();
+  mockEnqueueAuditWebhooks.mockReset();
+  mockSignalAuditSinks.mockReset().mockResolvedValue(undefined);
 });
 
 const baseEntry = {
@@ -97,3 +111,53 @@ describe("recordAuditLog best-effort", () => {
     expect(mockLoggerError).toHaveBeenCalledOnce();
   });
 });
+
+describe("recordAuditLog webhook fan-out", () => {
+  it("hands the persisted row to audit webhooks", async () => {
+    const timestamp = new Date("2026-10-28T09:00:00.000Z");
+    mockGetWorkspacePlan.mockResolvedValue("ENTERPRISE");
+    mockCreate.mockResolvedValue({ id: "log_1", timestamp });
+
+    await recordAuditLog({ ...baseEntry, ipAddress: "10.0.0.1" });
+
+    expect(mockEnqueueAuditWebhooks).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "log_1",
+        workspaceId: "ws_1",
+        action: "rabbitmq.queue.purge",
+        timestamp,
+      })
+    );
+    expect(mockEnqueueAuditWebhooks.mock.calls[0][0]).not.toHaveProperty(
+      "ipAddress"
+    );
+  });
+
+  it("does not hand over rows that were not persisted", async () => {
+    mockGetWorkspacePlan.mockResolvedValue("FREE");
+
+    await recordAuditLog(baseEntry);
+
+    expect(mockEnqueueAuditWebhooks).not.toHaveBeenCalled();
+  });
+});
+
+describe("recordAuditLog sink signal", () => {
+  it("wakes the sink drain once the row is persisted", async () => {
+    mockGetWorkspacePlan.mockResolvedValue("ENTERPRISE");
+    mockCreate.mockResolvedValue({ id: "log_1", timestamp: new Date() });
+
+    await recordAuditLog(baseEntry);
+
+    expect(mockSignalAuditSinks).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not wake it when the write failed", async () => {
+    mockGetWorkspacePlan.mockResolvedValue("ENTERPRISE");
+    mockCreate.mockRejectedValue(new Error("db down"));
+
+    await recordAuditLog(baseEntry);
+
+    expect(mockSignalAuditSinks).not.toHaveBeenCalled();
+  });
+});
@@ -17,6 +17,7 @@
 import { logger } from "@/core/logger";
 import { prisma } from "@/core/prisma";
 
+import { signalAuditSinks } from "@/services/audit-sinks/signal";
 import { getOrgPlan, getWorkspacePlan } from "@/services/plan/plan.service";
 
 import { AuditSource, type Prisma, UserPlan } from "@/generated/prisma/client";
@@ -26,6 +27,8 @@ interface AuditLogEntry {
   actorId: string | null;
   /** Denormalized for readability after user deletion. */
   actorEmail?: string | null;
+  /** Machine API key that performed the action; null for human sessions. */
+  apiKeyId?: string | null;
   source?: AuditSource;
   /** Dotted notation, e.g. "rabbitmq.queue.purge". */
   action: string;
@@ -76,6 +79,7 @@ export async function recordAuditLog(entry: AuditLogEntry): Promise<void> {
       entityType: entry.entityType,
       entityId: entry.entityId ?? null,
       actorId: entry.actorId,
+      apiKeyId: entry.apiKeyId ?? null,
       workspaceId: entry.workspaceId ?? null,
       source: entry.source ?? "qarote",
     },
@@ -128,11 +132,13 @@ export async function recordAuditLog(entry: AuditLogEntry): Promise<void> {
 
   if (plan !== UserPlan.ENTERPRISE) return;
 
+  let row: { id: string; timestamp: Date };
   try {
-    await prisma.auditLog.create({
+    row = await prisma.auditLog.create({
       data: {
         actorId: entry.actorId,
         actorEmail: entry.actorEmail ?? null,
+        apiKeyId: entry.apiKeyId ?? null,
         source: entry.source ?? "qarote",
         action: entry.action,
         category: entry.category,
@@ -150,6 +156,7 @@ export async function recordAuditLog(entry: AuditLogEntry): Promise<void> {
         ipAddress: entry.ipAddress ?? null,
         userAgent: entry.userAgent ?? null,
       },
+      select: { id: true, timestamp: true },
     });
   } catch (error) {
     // Audit writes are best-effort. Log loudly — silent audit failure
@@ -158,5 +165,43 @@ export async function recordAuditLog(entry: AuditLogEntry): Promise<void> {
       { error, action: entry.action, actorId: entry.actorId },
       "audit log: write failed"
     );
+    return;
+  }
+
+  // Audit sinks and webhooks are per workspace; org-level rows stay in
+  // the table and the export.
+  if (!entry.workspaceId) return;
+
+  // Wake the SIEM sink drain. Its cursor finds the row on the next poll
+  // should the wake-up be lost.
+  void signalAuditSinks();
+
+  // Workspace webhooks subscribed to audit events get the persisted row.
+  // The IP and user agent stay out of the payload.
+  try {
+    // Loaded lazily: the outbox pulls in every channel, and nearly every
+    // module records audit entries.
+    const { enqueueAuditWebhooks } =
+      await import("@/services/webhooks/enqueue");
+    await enqueueAuditWebhooks({
+      id: row.id,
+      workspaceId: entry.workspaceId,
+      action: entry.action,
+      category: entry.category,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      entityLabel: entry.entityLabel ?? null,
+      actorEmail: entry.actorEmail ?? null,
+      source: entry.source ?? "qarote",
+      serverId: entry.serverId ?? null,
+      vhost: entry.vhost ?? null,
+      metadata: entry.metadata ?? null,
+      timestamp: row.timestamp,
+    });
+  } catch (error) {
+    logger.warn(
+      { error, action: entry.action, auditLogId: row.id },
+      "audit log: webhook fan-out failed"
+    );
   }
 }
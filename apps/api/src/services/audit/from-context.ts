@@ -31,8 +31,9 @@ interface ContextLike {
   userAgent: string | null;
   /**
    * Id of the machine API key that authenticated the request, or null for
-   * cookie sessions. Merged into the audit row's `metadata.apiKeyId` so agent
-   * actions are distinguishable from human actions in the trail. Optional so
+   * cookie sessions. Written as the row's `apiKeyId` actor and merged into
+   * `metadata.apiKeyId` so agent actions are distinguishable from human
+   * actions in the trail. Optional so
    * synthetic call sites that build a minimal ctx-like object (e.g. invitation
    * flows) need not supply it — absence simply means "not an API-key request".
    */
@@ -105,6 +106,7 @@ export async function recordFromContext(
     await recordAuditLog({
       actorId: ctx.user?.id ?? null,
       actorEmail: ctx.user?.email ?? null,
+      apiKeyId: ctx.apiKeyId ?? null,
       workspaceId:
         entry.workspaceId !== undefined ? entry.workspaceId : ctx.workspaceId,
       organizationId: entry.organizationId,
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// vi.mock is hoisted; use vi.hoisted to share refs with the factory.
+const { mockServerFindUnique, mockFindingUpdateMany, mockFindingUpsert } =
+  vi.hoisted(() => ({
+    mockServerFindUnique: vi.fn(),
+    mockFindingUpdateMany: vi.fn(),
+    mockFindingUpsert: vi.fn(),
+  }));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    rabbitMQServer: { findUnique: mockServerFindUnique },
+    configFinding: {
+      updateMany: mockFindingUpdateMany,
+      upsert: mockFindingUpsert,
+    },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  TEST_CA_PEM,
+  TEST_CLIENT_CERT_NOT_AFTER,
+  TEST_CLIENT_CERT_PEM,
+  TEST_CLIENT_KEY_PEM,
+} from "@/core/rabbitmq/__tests__/pem-fixtures";
+
+import {
+  applyBrokerTlsPatch,
+  CLIENT_CERT_EXPIRING_RULE,
+  decryptBrokerTls,
+  encryptBrokerTlsColumns,
+  syncClientCertificateFinding,
+} from "../broker-tls.service";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("applyBrokerTlsPatch", () => {
+  const stored = {
+    ca: TEST_CA_PEM,
+    cert: TEST_CLIENT_CERT_PEM,
+    key: TEST_CLIENT_KEY_PEM,
+  };
+
+  it("keeps undefined fields and clears null or blank ones", () => {
+    expect(
+      applyBrokerTlsPatch(stored, { ca: null, servername: " broker.test " })
+    ).toEqual({
+      cert: TEST_CLIENT_CERT_PEM,
+      key: TEST_CLIENT_KEY_PEM,
+      servername: "broker.test",
+    });
+    expect(applyBrokerTlsPatch(stored, { cert: "", key: "", ca: "" })).toBe(
+      undefined
+    );
+  });
+});
+
+describe("column encryption", () => {
+  it("round-trips through the encrypted columns and denormalizes notAfter", () => {
+    const tls = {
+      ca: TEST_CA_PEM,
+      cert: TEST_CLIENT_CERT_PEM,
+      key: TEST_CLIENT_KEY_PEM,
+      servername: "broker.test",
+    };
+    const columns = encryptBrokerTlsColumns(tls);
+
+    expect(columns.tlsClientKey).not.toContain("PRIVATE KEY");
+    expect(columns.tlsCaBundle).not.toContain("CERTIFICATE");
+    expect(columns.tlsServername).toBe("broker.test");
+    expect(columns.tlsClientCertNotAfter?.toISOString()).toBe(
+      TEST_CLIENT_CERT_NOT_AFTER.toISOString()
+    );
+    expect(decryptBrokerTls(columns)).toEqual(tls);
+  });
+
+  it("writes nulls when TLS is cleared", () => {
+    const columns = encryptBrokerTlsColumns(undefined);
+    expect(columns).toEqual({
+      tlsCaBundle: null,
+      tlsClientCert: null,
+      tlsClientKey: null,
+      tlsServername: null,
+      tlsClientCertNotAfter: null,
+    });
+    expect(decryptBrokerTls(columns)).toBeUndefined();
+  });
+});
+
+describe("syncClientCertificateFinding", () => {
+  const fingerprint = `srv-1|${CLIENT_CERT_EXPIRING_RULE}|cluster||prod`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function withServer(notAfter: Date | null) {
+    mockServerFindUnique.mockResolvedValue({
+      id: "srv-1",
+      name: "prod",
+      workspaceId: "ws-1",
+      tlsClientCertNotAfter: notAfter,
+    });
+  }
+
+  it.each([
+    [20, "MEDIUM"],
+    [5, "HIGH"],
+    [-2, "CRITICAL"],
+  ])(
+    "records a finding %i days before expiry as %s",
+    async (days, severity) => {
+      const now = new Date("2026-10-19T00:00:00Z");
+      withServer(new Date(now.getTime() + days * DAY));
+
+      await syncClientCertificateFinding("srv-1", now);
+
+      expect(mockFindingUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { fingerprint },
+          create: expect.objectContaining({
+            ruleKey: CLIENT_CERT_EXPIRING_RULE,
+            resourceType: "cluster",
+            resourceName: "prod",
+            severity,
+          }),
+          update: expect.objectContaining({ severity, resolvedAt: null }),
+        })
+      );
+      // Only stale fingerprints (e.g. before a rename) get resolved.
+      expect(mockFindingUpdateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          serverId: "srv-1",
+          fingerprint: { not: fingerprint },
+        }),
+        data: { resolvedAt: now },
+      });
+    }
+  );
+
+  it("resolves the finding once the certificate is renewed or removed", async () => {
+    const now = new Date("2026-10-19T00:00:00Z");
+    for (const notAfter of [new Date(now.getTime() + 90 * DAY), null]) {
+      vi.clearAllMocks();
+      withServer(notAfter);
+
+      await syncClientCertificateFinding("srv-1", now);
+
+      expect(mockFindingUpsert).not.toHaveBeenCalled();
+      expect(mockFindingUpdateMany).toHaveBeenCalledWith({
+        where: {
+          serverId: "srv-1",
+          ruleKey: CLIENT_CERT_EXPIRING_RULE,
+          resolvedAt: null,
+        },
+        data: { resolvedAt: now },
+      });
+    }
+  });
+
+  it("skips servers without a workspace", async () => {
+    mockServerFindUnique.mockResolvedValue({
+      id: "srv-1",
+      name: "prod",
+      workspaceId: null,
+      tlsClientCertNotAfter: new Date(),
+    });
+
+    await syncClientCertificateFinding("srv-1");
+
+    expect(mockFindingUpdateMany).not.toHaveBeenCalled();
+    expect(mockFindingUpsert).not.toHaveBeenCalled();
+  });
+});
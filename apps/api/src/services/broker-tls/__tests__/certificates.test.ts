@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  TEST_CA_PEM,
+  TEST_CLIENT_CERT_NOT_AFTER,
+  TEST_CLIENT_CERT_PEM,
+  TEST_CLIENT_KEY_PEM,
+  TEST_OTHER_KEY_PEM,
+} from "@/core/rabbitmq/__tests__/pem-fixtures";
+
+import {
+  clientCertificateNotAfter,
+  describeBrokerTls,
+  validateBrokerTls,
+} from "../certificates";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function codeOf(fn: () => void): string | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    return (error as { code?: string }).code;
+  }
+}
+
+describe("validateBrokerTls", () => {
+  it("accepts a CA bundle with a matching client certificate and key", () => {
+    expect(() =>
+      validateBrokerTls({
+        ca: TEST_CA_PEM,
+        cert: TEST_CLIENT_CERT_PEM,
+        key: TEST_CLIENT_KEY_PEM,
+        servername: "broker.internal",
+      })
+    ).not.toThrow();
+  });
+
+  it.each([
+    [
+      "a CA bundle without certificates",
+      { ca: "not a pem" },
+      "invalidTlsCaBundle",
+    ],
+    [
+      "a certificate without its key",
+      { cert: TEST_CLIENT_CERT_PEM },
+      "tlsClientCertKeyPairIncomplete",
+    ],
+    [
+      "a key without its certificate",
+      { key: TEST_CLIENT_KEY_PEM },
+      "tlsClientCertKeyPairIncomplete",
+    ],
+    [
+      "an unparsable client certificate",
+      { cert: "garbage", key: TEST_CLIENT_KEY_PEM },
+      "invalidTlsClientCert",
+    ],
+    [
+      "an unparsable key",
+      { cert: TEST_CLIENT_CERT_PEM, key: "garbage" },
+      "invalidTlsClientKey",
+    ],
+    [
+      "a key from another pair",
+      { cert: TEST_CLIENT_CERT_PEM, key: TEST_OTHER_KEY_PEM },
+      "tlsClientKeyMismatch",
+    ],
+    [
+      "a server name that isn't a hostname",
+      { servername: "https://broker" },
+      "invalidTlsServername",
+    ],
+  ])("rejects %s", (_label, tls, code) => {
+    expect(codeOf(() => validateBrokerTls(tls))).toBe(code);
+  });
+});
+
+describe("describeBrokerTls", () => {
+  it("summarizes certificates without exposing key material", () => {
+    const now = new Date(TEST_CLIENT_CERT_NOT_AFTER.getTime() - 10 * DAY);
+    const summary = describeBrokerTls(
+      {
+        ca: TEST_CA_PEM,
+        cert: TEST_CLIENT_CERT_PEM,
+        key: TEST_CLIENT_KEY_PEM,
+      },
+      now
+    );
+
+    expect(summary).toMatchObject({
+      caCertificates: [{ subject: "CN=Qarote Test CA" }],
+      clientCertificate: {
+        subject: "CN=qarote-monitor",
+        issuer: "CN=Qarote Test CA",
+        validTo: TEST_CLIENT_CERT_NOT_AFTER.toISOString(),
+        expiresInDays: 10,
+        expired: false,
+      },
+      hasClientKey: true,
+      servername: null,
+    });
+    expect(JSON.stringify(summary)).not.toContain("PRIVATE KEY");
+  });
+
+  it("flags an expired client certificate", () => {
+    const summary = describeBrokerTls(
+      { cert: TEST_CLIENT_CERT_PEM, key: TEST_CLIENT_KEY_PEM },
+      new Date(TEST_CLIENT_CERT_NOT_AFTER.getTime() + DAY)
+    );
+    expect(summary?.clientCertificate).toMatchObject({
+      expired: true,
+      expiresInDays: -1,
+    });
+  });
+
+  it("returns null when nothing is configured", () => {
+    expect(describeBrokerTls(undefined)).toBeNull();
+    expect(describeBrokerTls({})).toBeNull();
+  });
+});
+
+describe("clientCertificateNotAfter", () => {
+  it("reads the leaf certificate's notAfter", () => {
+    expect(
+      clientCertificateNotAfter({ cert: TEST_CLIENT_CERT_PEM })?.toISOString()
+    ).toBe(TEST_CLIENT_CERT_NOT_AFTER.toISOString());
+    expect(clientCertificateNotAfter({ ca: TEST_CA_PEM })).toBeNull();
+  });
+});
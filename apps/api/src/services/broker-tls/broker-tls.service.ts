@@ -0,0 +1,171 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import type { BrokerTlsOptions } from "@/core/rabbitmq/rabbitmq.interfaces";
+import { hasBrokerTls } from "@/core/rabbitmq/tls";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+import {
+  CLIENT_CERT_EXPIRY_CRITICAL_DAYS,
+  CLIENT_CERT_EXPIRY_WARN_DAYS,
+  clientCertificateNotAfter,
+} from "./certificates";
+
+import { AlertSeverity } from "@/generated/prisma/client";
+
+/**
+ * Storage side of per-server broker TLS: the PEM columns on
+ * `RabbitMQServer` are encrypted exactly like `username`/`password`, and
+ * the client certificate's `notAfter` is kept in clear next to them so the
+ * expiry finding below never has to decrypt anything.
+ */
+
+export const CLIENT_CERT_EXPIRING_RULE = "config.cluster.client_cert_expiring";
+
+/** Prisma `select` fragment for everything `decryptBrokerTls` reads. */
+export const BROKER_TLS_SELECT = {
+  tlsCaBundle: true,
+  tlsClientCert: true,
+  tlsClientKey: true,
+  tlsServername: true,
+} as const;
+
+export interface BrokerTlsColumns {
+  tlsCaBundle: string | null;
+  tlsClientCert: string | null;
+  tlsClientKey: string | null;
+  tlsServername: string | null;
+}
+
+/**
+ * TLS fields as accepted from the API. `undefined` keeps the stored value,
+ * `null` or an empty string clears it — the client key is never sent back
+ * to the browser, so an edit has to be able to leave it untouched.
+ */
+export interface BrokerTlsPatch {
+  ca?: string | null;
+  cert?: string | null;
+  key?: string | null;
+  servername?: string | null;
+}
+
+const TLS_FIELDS = ["ca", "cert", "key", "servername"] as const;
+
+export function decryptBrokerTls(
+  row: BrokerTlsColumns
+): BrokerTlsOptions | undefined {
+  const tls: BrokerTlsOptions = {
+    ...(row.tlsCaBundle && { ca: EncryptionService.decrypt(row.tlsCaBundle) }),
+    ...(row.tlsClientCert && {
+      cert: EncryptionService.decrypt(row.tlsClientCert),
+    }),
+    ...(row.tlsClientKey && {
+      key: EncryptionService.decrypt(row.tlsClientKey),
+    }),
+    ...(row.tlsServername && { servername: row.tlsServername }),
+  };
+  return hasBrokerTls(tls) ? tls : undefined;
+}
+
+export function applyBrokerTlsPatch(
+  current: BrokerTlsOptions | undefined,
+  patch: BrokerTlsPatch
+): BrokerTlsOptions | undefined {
+  const next: BrokerTlsOptions = { ...current };
+  for (const field of TLS_FIELDS) {
+    const value = patch[field];
+    if (value === undefined) continue;
+    const trimmed = value?.trim();
+    if (trimmed) next[field] = trimmed;
+    else delete next[field];
+  }
+  return hasBrokerTls(next) ? next : undefined;
+}
+
+/** Column values for a create/update; validate with `validateBrokerTls` first. */
+export function encryptBrokerTlsColumns(tls: BrokerTlsOptions | undefined) {
+  return {
+    tlsCaBundle: tls?.ca ? EncryptionService.encrypt(tls.ca) : null,
+    tlsClientCert: tls?.cert ? EncryptionService.encrypt(tls.cert) : null,
+    tlsClientKey: tls?.key ? EncryptionService.encrypt(tls.key) : null,
+    tlsServername: tls?.servername ?? null,
+    tlsClientCertNotAfter: clientCertificateNotAfter(tls),
+  };
+}
+
+/**
+ * Open, refresh or resolve the server's "client certificate expiring"
+ * config finding. Runs after every server write and once a day from the
+ * capability cron. A dismissed finding stays dismissed — like the config
+ * scanner, this never touches `dismissedAt`.
+ */
+export async function syncClientCertificateFinding(
+  serverId: string,
+  now = new Date()
+): Promise<void> {
+  const server = await prisma.rabbitMQServer.findUnique({
+    where: { id: serverId },
+    select: {
+      id: true,
+      name: true,
+      workspaceId: true,
+      tlsClientCertNotAfter: true,
+    },
+  });
+  if (!server?.workspaceId) return;
+
+  const notAfter = server.tlsClientCertNotAfter;
+  const expiresInDays = notAfter
+    ? Math.floor((notAfter.getTime() - now.getTime()) / (24 * 60 * 60 * 1000))
+    : null;
+  const expiring =
+    expiresInDays !== null && expiresInDays <= CLIENT_CERT_EXPIRY_WARN_DAYS;
+  const fingerprint = `${server.id}|${CLIENT_CERT_EXPIRING_RULE}|cluster||${server.name}`;
+
+  // Resolve whatever no longer applies: everything once the certificate is
+  // renewed or removed, and a stale fingerprint after a server rename.
+  await prisma.configFinding.updateMany({
+    where: {
+      serverId: server.id,
+      ruleKey: CLIENT_CERT_EXPIRING_RULE,
+      resolvedAt: null,
+      ...(expiring && { fingerprint: { not: fingerprint } }),
+    },
+    data: { resolvedAt: now },
+  });
+  if (!expiring || !notAfter) return;
+
+  const severity =
+    expiresInDays < 0
+      ? AlertSeverity.CRITICAL
+      : expiresInDays <= CLIENT_CERT_EXPIRY_CRITICAL_DAYS
+        ? AlertSeverity.HIGH
+        : AlertSeverity.MEDIUM;
+  const details = {
+    notAfter: notAfter.toISOString(),
+    expiresInDays,
+    expired: expiresInDays < 0,
+  };
+
+  await prisma.configFinding.upsert({
+    where: { fingerprint },
+    create: {
+      workspaceId: server.workspaceId,
+      serverId: server.id,
+      ruleKey: CLIENT_CERT_EXPIRING_RULE,
+      severity,
+      resourceType: "cluster",
+      resourceName: server.name,
+      vhost: null,
+      fingerprint,
+      details,
+      detectedAt: now,
+      lastSeenAt: now,
+    },
+    update: { severity, details, lastSeenAt: now, resolvedAt: null },
+  });
+  logger.info(
+    { serverId: server.id, expiresInDays },
+    "broker TLS: client certificate expiry finding recorded"
+  );
+}
@@ -0,0 +1,167 @@
+import crypto from "node:crypto";
+
+import { CodedError } from "@/core/coded-error";
+import type { BrokerTlsOptions } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+/**
+ * PEM validation and certificate summaries for per-server broker TLS.
+ *
+ * Everything here works on decrypted PEM text and never returns key
+ * material — a summary is safe to send to the browser or write to a
+ * config finding.
+ */
+
+const PEM_CERTIFICATE =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+/** Client certificates inside this window raise a config finding. */
+export const CLIENT_CERT_EXPIRY_WARN_DAYS = 30;
+export const CLIENT_CERT_EXPIRY_CRITICAL_DAYS = 7;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type BrokerTlsErrorCode =
+  | "invalidTlsCaBundle"
+  | "invalidTlsClientCert"
+  | "invalidTlsClientKey"
+  | "tlsClientKeyMismatch"
+  | "tlsClientCertKeyPairIncomplete"
+  | "invalidTlsServername";
+
+export class BrokerTlsValidationError extends CodedError<BrokerTlsErrorCode> {}
+
+export interface CertificateSummary {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  /** Whole days until `validTo`; negative once expired. */
+  expiresInDays: number;
+  expired: boolean;
+  fingerprint256: string;
+}
+
+export interface BrokerTlsSummary {
+  caCertificates: CertificateSummary[];
+  /** Leaf of the configured client chain. */
+  clientCertificate: CertificateSummary | null;
+  hasClientKey: boolean;
+  servername: string | null;
+}
+
+function parseCertificates(pem: string): crypto.X509Certificate[] {
+  return (pem.match(PEM_CERTIFICATE) ?? []).map(
+    (block) => new crypto.X509Certificate(block)
+  );
+}
+
+function summarize(
+  certificate: crypto.X509Certificate,
+  now: Date
+): CertificateSummary {
+  const validTo = new Date(certificate.validTo);
+  return {
+    subject: certificate.subject.replace(/\n/g, ", "),
+    issuer: certificate.issuer.replace(/\n/g, ", "),
+    validFrom: new Date(certificate.validFrom).toISOString(),
+    validTo: validTo.toISOString(),
+    expiresInDays: Math.floor((validTo.getTime() - now.getTime()) / MS_PER_DAY),
+    expired: validTo.getTime() <= now.getTime(),
+    fingerprint256: certificate.fingerprint256,
+  };
+}
+
+/**
+ * Reject material that would only fail later, at connect time, with an
+ * opaque OpenSSL error: unparsable PEM, a key without a certificate (or the
+ * reverse), a key that doesn't belong to the certificate, or an
+ * encrypted key we have no passphrase for.
+ */
+export function validateBrokerTls(tls: BrokerTlsOptions): void {
+  if (tls.ca) {
+    let certificates: crypto.X509Certificate[] = [];
+    try {
+      certificates = parseCertificates(tls.ca);
+    } catch {
+      // fall through to the empty check
+    }
+    if (certificates.length === 0) {
+      throw new BrokerTlsValidationError(
+        "invalidTlsCaBundle",
+        "CA bundle must contain at least one PEM certificate"
+      );
+    }
+  }
+
+  if (Boolean(tls.cert) !== Boolean(tls.key)) {
+    throw new BrokerTlsValidationError(
+      "tlsClientCertKeyPairIncomplete",
+      "A client certificate and its private key must be provided together"
+    );
+  }
+
+  if (tls.cert && tls.key) {
+    let leaf: crypto.X509Certificate | undefined;
+    try {
+      leaf = parseCertificates(tls.cert)[0];
+    } catch {
+      // fall through to the missing-leaf check
+    }
+    if (!leaf) {
+      throw new BrokerTlsValidationError(
+        "invalidTlsClientCert",
+        "Client certificate must be a PEM certificate"
+      );
+    }
+
+    let privateKey: crypto.KeyObject;
+    try {
+      privateKey = crypto.createPrivateKey(tls.key);
+    } catch {
+      throw new BrokerTlsValidationError(
+        "invalidTlsClientKey",
+        "Client key must be an unencrypted PEM private key"
+      );
+    }
+    if (!leaf.checkPrivateKey(privateKey)) {
+      throw new BrokerTlsValidationError(
+        "tlsClientKeyMismatch",
+        "Client key does not match the client certificate"
+      );
+    }
+  }
+
+  if (tls.servername && !/^[A-Za-z0-9.-]{1,253}$/.test(tls.servername)) {
+    throw new BrokerTlsValidationError(
+      "invalidTlsServername",
+      "TLS server name must be a DNS hostname"
+    );
+  }
+}
+
+/** `notAfter` of the client certificate leaf, or null when none is set. */
+export function clientCertificateNotAfter(
+  tls: BrokerTlsOptions | undefined
+): Date | null {
+  if (!tls?.cert) return null;
+  const [leaf] = parseCertificates(tls.cert);
+  return leaf ? new Date(leaf.validTo) : null;
+}
+
+export function describeBrokerTls(
+  tls: BrokerTlsOptions | undefined,
+  now = new Date()
+): BrokerTlsSummary | null {
+  if (!tls || !(tls.ca || tls.cert || tls.servername)) return null;
+  const [leaf] = tls.cert ? parseCertificates(tls.cert) : [];
+  return {
+    caCertificates: tls.ca
+      ? parseCertificates(tls.ca).map((certificate) =>
+          summarize(certificate, now)
+        )
+      : [],
+    clientCertificate: leaf ? summarize(leaf, now) : null,
+    hasClientKey: Boolean(tls.key),
+    servername: tls.servername ?? null,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Per-server broker TLS — CA bundle, client certificate/key and SNI
+ * override for brokers behind a private PKI.
+ *
+ * Validation and summaries live in `certificates.ts` (pure), storage and
+ * the expiry finding in `broker-tls.service.ts`.
+ */
+
+export type { BrokerTlsColumns, BrokerTlsPatch } from "./broker-tls.service";
+export {
+  applyBrokerTlsPatch,
+  BROKER_TLS_SELECT,
+  CLIENT_CERT_EXPIRING_RULE,
+  decryptBrokerTls,
+  encryptBrokerTlsColumns,
+  syncClientCertificateFinding,
+} from "./broker-tls.service";
+export type {
+  BrokerTlsErrorCode,
+  BrokerTlsSummary,
+  CertificateSummary,
+} from "./certificates";
+export {
+  BrokerTlsValidationError,
+  CLIENT_CERT_EXPIRY_CRITICAL_DAYS,
+  CLIENT_CERT_EXPIRY_WARN_DAYS,
+  clientCertificateNotAfter,
+  describeBrokerTls,
+  validateBrokerTls,
+} from "./certificates";
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/core/logger", () => ({
+  logger: { warn: vi.fn(), info: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  closeConnections,
+  ConnectionCloseError,
+  MAX_BULK_CONNECTIONS,
+} from "../connection-close.service";
+
+describe("closeConnections", () => {
+  it("closes every connection with the reason and reports each", async () => {
+    const client = { closeConnection: vi.fn().mockResolvedValue(undefined) };
+    const onClosed = vi.fn();
+
+    const outcome = await closeConnections(
+      client,
+      ["a", "b", "c"],
+      "leaking channels",
+      onClosed
+    );
+
+    expect(outcome).toEqual({ closed: ["a", "b", "c"], failed: [] });
+    expect(client.closeConnection).toHaveBeenCalledWith(
+      "b",
+      "leaking channels"
+    );
+    expect(onClosed).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps going past failures and treats a 404 as closed", async () => {
+    const client = {
+      closeConnection: vi.fn(async (name: string) => {
+        if (name === "gone")
+          throw new Error("RabbitMQ API error: 404 Not Found");
+        if (name === "bad") throw new Error("RabbitMQ API error: 500 boom");
+      }),
+    };
+
+    const outcome = await closeConnections(
+      client,
+      ["gone", "bad", "ok"],
+      undefined,
+      () => {}
+    );
+
+    expect(outcome.closed.sort()).toEqual(["gone", "ok"]);
+    expect(outcome.failed).toEqual([
+      { name: "bad", error: "RabbitMQ API error: 500 boom" },
+    ]);
+  });
+
+  it("refuses empty and oversized runs", async () => {
+    const client = { closeConnection: vi.fn() };
+
+    await expect(
+      closeConnections(client, [], undefined, () => {})
+    ).rejects.toMatchObject({ code: "connectionCloseNothingMatched" });
+
+    const error = await closeConnections(
+      client,
+      Array.from({ length: MAX_BULK_CONNECTIONS + 1 }, (_, i) => `c${i}`),
+      undefined,
+      () => {}
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(ConnectionCloseError);
+    expect(error.code).toBe("connectionCloseTooMany");
+    expect(client.closeConnection).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import type { RabbitMQConnection } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { resolveConnectionTarget } from "../connection-selector";
+
+function connection(
+  name: string,
+  overrides: Partial<RabbitMQConnection> = {}
+): RabbitMQConnection {
+  return {
+    name,
+    user: "app",
+    vhost: "/",
+    peer_host: "10.0.0.5",
+    client_properties: { connection_name: "orders-worker" },
+    ...overrides,
+  } as RabbitMQConnection;
+}
+
+const BROKER = [
+  connection("10.0.0.5:50001 -> 10.0.0.1:5672"),
+  connection("10.0.0.6:50002 -> 10.0.0.1:5672", {
+    peer_host: "10.0.0.6",
+    client_properties: { connection_name: "billing-api" },
+  }),
+  connection("10.0.0.7:50003 -> 10.0.0.1:5672", {
+    user: "ops",
+    peer_host: "10.0.0.7",
+    client_properties: {},
+  }),
+  connection("10.0.0.9:50004 -> 10.0.0.1:5672", {
+    user: "qarote",
+    peer_host: "10.0.0.9",
+    client_properties: { connection_name: "qarote" },
+  }),
+];
+
+describe("resolveConnectionTarget", () => {
+  it("matches a selector on user and client-provided name", () => {
+    const resolved = resolveConnectionTarget(BROKER, {
+      selector: { user: "app", clientNameRegex: "^orders" },
+    });
+    expect(resolved.matched.map((c) => c.peer_host)).toEqual(["10.0.0.5"]);
+    expect(resolved.skippedInternal).toBe(0);
+  });
+
+  it("never matches unnamed connections with a name pattern", () => {
+    const resolved = resolveConnectionTarget(BROKER, {
+      selector: { clientNameRegex: ".*" },
+    });
+    expect(resolved.matched.map((c) => c.peer_host)).toEqual([
+      "10.0.0.5",
+      "10.0.0.6",
+    ]);
+  });
+
+  it("skips Qarote's own connections and counts them", () => {
+    const resolved = resolveConnectionTarget(BROKER, {
+      selector: { clientNameRegex: "o" },
+    });
+    expect(resolved.matched).toHaveLength(1);
+    expect(resolved.skippedInternal).toBe(1);
+  });
+
+  it("reports explicit names that are gone or internal", () => {
+    const resolved = resolveConnectionTarget(BROKER, {
+      connections: [
+        "10.0.0.6:50002 -> 10.0.0.1:5672",
+        "10.0.0.9:50004 -> 10.0.0.1:5672",
+        "gone",
+        "gone",
+      ],
+    });
+    expect(resolved.matched.map((c) => c.peer_host)).toEqual(["10.0.0.6"]);
+    expect(resolved.notFound).toEqual(["gone"]);
+    expect(resolved.skippedInternal).toBe(1);
+  });
+
+  it("matches by peer host", () => {
+    const resolved = resolveConnectionTarget(BROKER, {
+      selector: { peerHost: "10.0.0.7" },
+    });
+    expect(resolved.matched.map((c) => c.user)).toEqual(["ops"]);
+  });
+});
@@ -0,0 +1,73 @@
+import { CodedError } from "@/core/coded-error";
+import { logger } from "@/core/logger";
+import type { RabbitMQApiClient } from "@/core/rabbitmq/ApiClient";
+
+/** Upper bound for one bulk close; a selector matching more is refused. */
+export const MAX_BULK_CONNECTIONS = 500;
+
+/** Closes in flight at once, so a large cleanup doesn't flood the broker. */
+const CLOSE_CONCURRENCY = 4;
+
+/** `BaseClient` reports HTTP failures as "RabbitMQ API error: <status> …" */
+const NOT_FOUND_RE = /RabbitMQ API error:\s*404/;
+
+export type ConnectionCloseErrorCode =
+  | "connectionCloseTooMany"
+  | "connectionCloseNothingMatched";
+
+export class ConnectionCloseError extends CodedError<ConnectionCloseErrorCode> {}
+
+export interface ConnectionCloseOutcome {
+  closed: string[];
+  failed: { name: string; error: string }[];
+}
+
+/**
+ * Close each named connection with the same reason. One failure does not
+ * stop the rest; a connection that disappeared in the meantime (404)
+ * counts as closed — the operator's goal is met.
+ */
+export async function closeConnections(
+  client: Pick<RabbitMQApiClient, "closeConnection">,
+  names: string[],
+  reason: string | undefined,
+  onClosed: (name: string) => void
+): Promise<ConnectionCloseOutcome> {
+  if (names.length === 0) {
+    throw new ConnectionCloseError(
+      "connectionCloseNothingMatched",
+      "No connection matched the target"
+    );
+  }
+  if (names.length > MAX_BULK_CONNECTIONS) {
+    throw new ConnectionCloseError(
+      "connectionCloseTooMany",
+      `A bulk close is limited to ${MAX_BULK_CONNECTIONS} connections`
+    );
+  }
+
+  const outcome: ConnectionCloseOutcome = { closed: [], failed: [] };
+  let next = 0;
+  const worker = async () => {
+    while (next < names.length) {
+      const name = names[next++];
+      try {
+        await client.closeConnection(name, reason);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!NOT_FOUND_RE.test(message)) {
+          logger.warn({ error, connection: name }, "Bulk close failed");
+          outcome.failed.push({ name, error: message });
+          continue;
+        }
+      }
+      outcome.closed.push(name);
+      onClosed(name);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(CLOSE_CONCURRENCY, names.length) }, worker)
+  );
+
+  return outcome;
+}
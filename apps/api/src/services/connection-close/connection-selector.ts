@@ -0,0 +1,103 @@
+/**
+ * Resolves the target of a bulk connection close — explicit connection
+ * names or a selector — against the broker's current connection list.
+ * Qarote's own connections are dropped first, so no selector reaches them.
+ */
+
+import { isQaroteInternalConnection } from "@/core/rabbitmq/internal-connections";
+import type { RabbitMQConnection } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+/** Every set criterion must hold; at least one of user / name / host. */
+export interface ConnectionSelector {
+  vhost?: string;
+  /** Broker user the connection authenticated as */
+  user?: string;
+  /** Case-insensitive, against the client-provided `connection_name` */
+  clientNameRegex?: string;
+  /** Client IP address as the broker sees it */
+  peerHost?: string;
+}
+
+export type ConnectionCloseTarget =
+  | { connections: string[] }
+  | { selector: ConnectionSelector };
+
+export interface ResolvedConnections {
+  matched: RabbitMQConnection[];
+  /** Named explicitly but no longer on the broker */
+  notFound: string[];
+  /** Qarote's own connections the target named or the selector matched */
+  skippedInternal: number;
+}
+
+export function clientConnectionName(
+  connection: RabbitMQConnection
+): string | null {
+  const name = connection.client_properties?.connection_name;
+  return typeof name === "string" && name !== "" ? name : null;
+}
+
+function matchesSelector(
+  connection: RabbitMQConnection,
+  selector: ConnectionSelector
+): boolean {
+  if (selector.vhost !== undefined && connection.vhost !== selector.vhost) {
+    return false;
+  }
+  if (selector.user !== undefined && connection.user !== selector.user) {
+    return false;
+  }
+  if (
+    selector.peerHost !== undefined &&
+    connection.peer_host !== selector.peerHost
+  ) {
+    return false;
+  }
+  // A name pattern never matches a connection that did not name itself
+  if (
+    selector.clientNameRegex !== undefined &&
+    clientConnectionName(connection) === null
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function resolveConnectionTarget(
+  brokerConnections: RabbitMQConnection[],
+  target: ConnectionCloseTarget
+): ResolvedConnections {
+  const internal = brokerConnections.filter(isQaroteInternalConnection);
+  const user = brokerConnections.filter((c) => !isQaroteInternalConnection(c));
+
+  if ("connections" in target) {
+    const byName = new Map(user.map((c) => [c.name, c]));
+    const internalNames = new Set(internal.map((c) => c.name));
+    const matched: RabbitMQConnection[] = [];
+    const notFound: string[] = [];
+    let skippedInternal = 0;
+    for (const name of new Set(target.connections)) {
+      const connection = byName.get(name);
+      if (connection) matched.push(connection);
+      else if (internalNames.has(name)) skippedInternal++;
+      else notFound.push(name);
+    }
+    return { matched, notFound, skippedInternal };
+  }
+
+  const { selector } = target;
+  const nameRegex = selector.clientNameRegex
+    ? new RegExp(selector.clientNameRegex, "i")
+    : null;
+  const select = (connections: RabbitMQConnection[]) =>
+    connections.filter(
+      (c) =>
+        (!nameRegex || nameRegex.test(clientConnectionName(c) ?? "")) &&
+        matchesSelector(c, selector)
+    );
+  return {
+    matched: select(user),
+    notFound: [],
+    skippedInternal: select(internal).length,
+  };
+}
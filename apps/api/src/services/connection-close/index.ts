@@ -0,0 +1,22 @@
+/**
+ * Closing client connections — target resolution (`connection-selector.ts`)
+ * and the bounded, best-effort close run (`connection-close.service.ts`).
+ */
+
+export type {
+  ConnectionCloseErrorCode,
+  ConnectionCloseOutcome,
+} from "./connection-close.service";
+export {
+  closeConnections,
+  ConnectionCloseError,
+  MAX_BULK_CONNECTIONS,
+} from "./connection-close.service";
+export type {
+  ConnectionCloseTarget,
+  ConnectionSelector,
+} from "./connection-selector";
+export {
+  clientConnectionName,
+  resolveConnectionTarget,
+} from "./connection-selector";
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+
+import type {
+  RabbitMQChannel,
+  RabbitMQConsumer,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { ackProgress, analyzeConsumers } from "../consumer-analysis";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const WINDOW = 5 * 60_000;
+
+function consumer(
+  tag: string,
+  channel: string,
+  overrides: Partial<RabbitMQConsumer> = {}
+): RabbitMQConsumer {
+  return {
+    consumer_tag: tag,
+    channel_details: {
+      name: channel,
+      number: 1,
+      connection_name: "conn",
+      peer_host: "10.0.0.5",
+      peer_port: 50000,
+    },
+    queue: { name: "orders", vhost: "/" },
+    ack_required: true,
+    exclusive: false,
+    prefetch_count: 10,
+    arguments: {},
+    ...overrides,
+  };
+}
+
+/** Ack counter samples, one per minute over the window, oldest first. */
+function ackSamples(counts: number[]) {
+  return counts.map((sample, i) => ({
+    sample,
+    timestamp: NOW - (counts.length - 1 - i) * 60_000,
+  }));
+}
+
+function channel(
+  name: string,
+  unacked: number,
+  acks: number[],
+  overrides: Partial<RabbitMQChannel> = {}
+): RabbitMQChannel {
+  return {
+    name,
+    consumer_count: 1,
+    prefetch_count: 0,
+    messages_unacknowledged: unacked,
+    messages_unconfirmed: 0,
+    message_stats: {
+      deliver: 100,
+      ack: acks[acks.length - 1],
+      ack_details: { rate: 0, samples: ackSamples(acks).reverse() },
+    },
+    ...overrides,
+  } as RabbitMQChannel;
+}
+
+describe("ackProgress", () => {
+  it("counts acks inside the window and finds the last one", () => {
+    const progress = ackProgress(
+      channel("c", 0, [10, 12, 12, 12, 12]).message_stats,
+      WINDOW,
+      NOW
+    );
+    expect(progress.ackedInWindow).toBe(2);
+    expect(progress.lastAckAt).toBe(NOW - 3 * 60_000);
+  });
+
+  it("treats a channel that delivered but never acked as zero acks", () => {
+    expect(ackProgress({ deliver: 5 }, WINDOW, NOW).ackedInWindow).toBe(0);
+  });
+
+  it("is unknown without samples or delivery counters", () => {
+    expect(ackProgress(undefined, WINDOW, NOW).ackedInWindow).toBeNull();
+  });
+});
+
+describe("analyzeConsumers", () => {
+  it("flags a consumer with a full prefetch and no acks as stuck", () => {
+    const [health] = analyzeConsumers(
+      [consumer("ctag-1", "ch-1")],
+      new Map([["ch-1", channel("ch-1", 10, [40, 40, 40, 40, 40, 40])]]),
+      WINDOW,
+      NOW
+    );
+
+    expect(health).toMatchObject({
+      status: "stuck",
+      prefetchUtilization: 1,
+      ackedInWindow: 0,
+      unackedAgeSeconds: 300,
+      unackedAgeIsLowerBound: true,
+    });
+  });
+
+  it("calls a full but acking consumer saturated", () => {
+    const [health] = analyzeConsumers(
+      [consumer("ctag-1", "ch-1")],
+      new Map([["ch-1", channel("ch-1", 10, [40, 50, 60, 70, 80])]]),
+      WINDOW,
+      NOW
+    );
+    expect(health.status).toBe("saturated");
+    expect(health.unackedAgeSeconds).toBe(0);
+  });
+
+  it("measures against the shared capacity of a channel", () => {
+    const [health] = analyzeConsumers(
+      [consumer("ctag-1", "ch-1")],
+      new Map([
+        ["ch-1", channel("ch-1", 10, [1, 2, 3], { consumer_count: 2 })],
+      ]),
+      WINDOW,
+      NOW
+    );
+    expect(health).toMatchObject({
+      sharedChannel: true,
+      prefetchUtilization: 0.5,
+      status: "healthy",
+    });
+  });
+
+  it("prefers the channel-wide prefetch when set", () => {
+    const [health] = analyzeConsumers(
+      [consumer("ctag-1", "ch-1", { prefetch_count: 0 })],
+      new Map([
+        ["ch-1", channel("ch-1", 4, [1, 1, 1], { global_prefetch_count: 4 })],
+      ]),
+      WINDOW,
+      NOW
+    );
+    expect(health).toMatchObject({
+      prefetchCount: null,
+      globalPrefetchCount: 4,
+      status: "stuck",
+    });
+  });
+
+  it("never calls an unlimited-prefetch consumer stuck", () => {
+    const [health] = analyzeConsumers(
+      [consumer("ctag-1", "ch-1", { prefetch_count: 0 })],
+      new Map([["ch-1", channel("ch-1", 500, [0, 0, 0])]]),
+      WINDOW,
+      NOW
+    );
+    expect(health.prefetchUtilization).toBeNull();
+    expect(health.status).toBe("healthy");
+  });
+
+  it("orders the worst consumers first", () => {
+    const result = analyzeConsumers(
+      [
+        consumer("idle", "ch-idle"),
+        consumer("auto", "ch-auto", { ack_required: false }),
+        consumer("gone", "ch-gone"),
+        consumer("stuck", "ch-stuck"),
+      ],
+      new Map([
+        ["ch-idle", channel("ch-idle", 0, [5, 5])],
+        ["ch-auto", channel("ch-auto", 0, [])],
+        ["ch-stuck", channel("ch-stuck", 10, [5, 5])],
+      ]),
+      WINDOW,
+      NOW
+    );
+    expect(result.map((c) => [c.consumerTag, c.status])).toEqual([
+      ["stuck", "stuck"],
+      ["gone", "unknown"],
+      ["idle", "idle"],
+      ["auto", "auto_ack"],
+    ]);
+  });
+});
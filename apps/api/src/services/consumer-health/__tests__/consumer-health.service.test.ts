@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockGetQueueRateSeries } = vi.hoisted(() => ({
+  mockGetQueueRateSeries: vi.fn(),
+}));
+
+vi.mock("@/stores/metrics", () => ({
+  metricsStore: { getQueueRateSeries: mockGetQueueRateSeries },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { warn: vi.fn(), info: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { getQueueConsumerHealth } from "../consumer-health.service";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function consumerOn(channel: string) {
+  return {
+    consumer_tag: `tag-${channel}`,
+    channel_details: { name: channel, connection_name: "conn" },
+    ack_required: true,
+    prefetch_count: 5,
+  };
+}
+
+function fullChannel(name: string) {
+  return {
+    name,
+    consumer_count: 1,
+    messages_unacknowledged: 5,
+    message_stats: {
+      deliver: 20,
+      ack: 15,
+      ack_details: {
+        rate: 0,
+        samples: [
+          { sample: 15, timestamp: NOW.getTime() },
+          { sample: 15, timestamp: NOW.getTime() - 240_000 },
+        ],
+      },
+    },
+  };
+}
+
+function client(consumers: unknown[], ready = 100) {
+  return {
+    getQueue: vi
+      .fn()
+      .mockResolvedValue({ messages_ready: ready, consumer_utilisation: 0 }),
+    getQueueConsumers: vi.fn().mockResolvedValue(consumers),
+    getChannelWithTimeRange: vi.fn(async (name: string) => {
+      if (name === "closed") throw new Error("RabbitMQ API error: 404");
+      return fullChannel(name);
+    }),
+  };
+}
+
+const QUERY = {
+  workspaceId: "ws-1",
+  serverId: "srv-1",
+  queueName: "orders",
+  vhost: "/",
+  windowMinutes: 5,
+  now: NOW,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockGetQueueRateSeries.mockResolvedValue([]);
+});
+
+describe("getQueueConsumerHealth", () => {
+  it("reports a starving queue when every consumer is stuck", async () => {
+    const broker = client([consumerOn("ch-1"), consumerOn("ch-2")]);
+
+    const report = await getQueueConsumerHealth(broker as never, QUERY);
+
+    expect(report).toMatchObject({ stuck: 2, starving: true });
+    expect(broker.getChannelWithTimeRange).toHaveBeenCalledWith("ch-1", {
+      age: 300,
+      increment: 15,
+    });
+  });
+
+  it("fetches each shared channel once and survives closed channels", async () => {
+    const broker = client([
+      consumerOn("ch-1"),
+      consumerOn("ch-1"),
+      consumerOn("closed"),
+    ]);
+
+    const report = await getQueueConsumerHealth(broker as never, QUERY);
+
+    expect(broker.getChannelWithTimeRange).toHaveBeenCalledTimes(2);
+    expect(report.consumers.map((c) => c.status)).toEqual([
+      "stuck",
+      "stuck",
+      "unknown",
+    ]);
+    expect(report.starving).toBe(false);
+  });
+
+  it("keeps the live analysis when the metric store fails", async () => {
+    mockGetQueueRateSeries.mockRejectedValue(new Error("db down"));
+
+    const report = await getQueueConsumerHealth(
+      client([consumerOn("ch-1")]) as never,
+      QUERY
+    );
+
+    expect(report.history).toEqual([]);
+    expect(report.consumers).toHaveLength(1);
+    expect(mockGetQueueRateSeries.mock.calls[0][0].since).toEqual(
+      new Date(NOW.getTime() - 30 * 60_000)
+    );
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Per-consumer health from the broker's consumer list and the sampled
+ * stats of each consumer's channel.
+ *
+ * The broker counts unacked deliveries and acks per channel, not per
+ * consumer. With one consumer per channel — the usual layout — the
+ * channel figures are the consumer's own; when consumers share a channel
+ * they are reported as shared and the same figures apply to each. A
+ * channel's unacked count also includes deliveries from other queues it
+ * consumes, which is exactly what fills that consumer's prefetch.
+ */
+
+import type {
+  RabbitMQChannel,
+  RabbitMQConsumer,
+  RateSample,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+export type ConsumerStatus =
+  /** Prefetch full and not a single ack over the window */
+  | "stuck"
+  /** Prefetch full but still acking — working at capacity */
+  | "saturated"
+  | "healthy"
+  /** Nothing in flight */
+  | "idle"
+  /** autoAck: the broker forgets messages on delivery, nothing to hold */
+  | "auto_ack"
+  /** Channel stats unavailable (closed meanwhile, or stats disabled) */
+  | "unknown";
+
+export interface ConsumerHealth {
+  consumerTag: string;
+  channelName: string;
+  connectionName: string | null;
+  peerHost: string | null;
+  ackRequired: boolean;
+  /** Per-consumer prefetch; null when unlimited */
+  prefetchCount: number | null;
+  /** Channel-wide prefetch shared by all its consumers; null when unset */
+  globalPrefetchCount: number | null;
+  /** Consumers on the channel, across all queues */
+  channelConsumers: number;
+  sharedChannel: boolean;
+  unacked: number | null;
+  /** unacked / prefetch capacity; null when the prefetch is unlimited */
+  prefetchUtilization: number | null;
+  /** Acks per second, as the broker last computed it */
+  ackRate: number | null;
+  /** Acks over the window; null when the broker kept no samples */
+  ackedInWindow: number | null;
+  lastAckAt: Date | null;
+  /**
+   * How long the in-flight deliveries have gone without an ack. When no
+   * ack fell inside the window this is the window length and
+   * `unackedAgeIsLowerBound` is set — the real age is at least that.
+   */
+  unackedAgeSeconds: number | null;
+  unackedAgeIsLowerBound: boolean;
+  status: ConsumerStatus;
+}
+
+export interface AckProgress {
+  ackedInWindow: number | null;
+  lastAckAt: number | null;
+  /** Oldest sample used, epoch ms */
+  windowStart: number | null;
+}
+
+/**
+ * Acks over the window from the ack counter samples, and when the counter
+ * last moved. Without samples, a channel that delivered but never acked
+ * counts as zero acks; anything else is unknown.
+ */
+export function ackProgress(
+  stats: RabbitMQChannel["message_stats"],
+  windowMs: number,
+  now: number
+): AckProgress {
+  const samples: RateSample[] = [...(stats?.ack_details?.samples ?? [])]
+    .filter((s) => s.timestamp >= now - windowMs)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (samples.length >= 2) {
+    let lastAckAt: number | null = null;
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i].sample > samples[i - 1].sample) {
+        lastAckAt = samples[i].timestamp;
+      }
+    }
+    return {
+      ackedInWindow: samples[samples.length - 1].sample - samples[0].sample,
+      lastAckAt,
+      windowStart: samples[0].timestamp,
+    };
+  }
+
+  const delivered = (stats?.deliver ?? 0) > 0 || (stats?.deliver_get ?? 0) > 0;
+  if (delivered && stats?.ack === undefined) {
+    return { ackedInWindow: 0, lastAckAt: null, windowStart: now - windowMs };
+  }
+  return { ackedInWindow: null, lastAckAt: null, windowStart: null };
+}
+
+function prefetchCapacity(
+  consumer: RabbitMQConsumer,
+  channel: RabbitMQChannel
+): number | null {
+  if (channel.global_prefetch_count && channel.global_prefetch_count > 0) {
+    return channel.global_prefetch_count;
+  }
+  if (consumer.prefetch_count > 0) {
+    // Per-consumer limit: the channel holds up to one prefetch per consumer
+    return consumer.prefetch_count * Math.max(1, channel.consumer_count);
+  }
+  return null;
+}
+
+export function analyzeConsumer(
+  consumer: RabbitMQConsumer,
+  channel: RabbitMQChannel | undefined,
+  windowMs: number,
+  now: number
+): ConsumerHealth {
+  const base = {
+    consumerTag: consumer.consumer_tag,
+    channelName: consumer.channel_details?.name ?? "",
+    connectionName: consumer.channel_details?.connection_name ?? null,
+    peerHost: consumer.channel_details?.peer_host ?? null,
+    ackRequired: consumer.ack_required,
+    prefetchCount: consumer.prefetch_count > 0 ? consumer.prefetch_count : null,
+  };
+
+  if (!channel) {
+    return {
+      ...base,
+      globalPrefetchCount: null,
+      channelConsumers: 0,
+      sharedChannel: false,
+      unacked: null,
+      prefetchUtilization: null,
+      ackRate: null,
+      ackedInWindow: null,
+      lastAckAt: null,
+      unackedAgeSeconds: null,
+      unackedAgeIsLowerBound: false,
+      status: consumer.ack_required ? "unknown" : "auto_ack",
+    };
+  }
+
+  const unacked = channel.messages_unacknowledged ?? 0;
+  const capacity = prefetchCapacity(consumer, channel);
+  const utilization = capacity ? Math.min(unacked / capacity, 1) : null;
+  const progress = ackProgress(channel.message_stats, windowMs, now);
+
+  let unackedAgeSeconds: number | null = null;
+  let unackedAgeIsLowerBound = false;
+  if (unacked > 0) {
+    if (progress.lastAckAt !== null) {
+      unackedAgeSeconds = Math.round((now - progress.lastAckAt) / 1000);
+    } else if (progress.ackedInWindow === 0 && progress.windowStart !== null) {
+      unackedAgeSeconds = Math.round((now - progress.windowStart) / 1000);
+      unackedAgeIsLowerBound = true;
+    }
+  }
+
+  let status: ConsumerStatus;
+  if (!consumer.ack_required) status = "auto_ack";
+  else if (utilization !== null && utilization >= 1) {
+    status = progress.ackedInWindow === 0 ? "stuck" : "saturated";
+  } else if (unacked === 0) status = "idle";
+  else status = "healthy";
+
+  return {
+    ...base,
+    globalPrefetchCount:
+      channel.global_prefetch_count && channel.global_prefetch_count > 0
+        ? channel.global_prefetch_count
+        : null,
+    channelConsumers: channel.consumer_count,
+    sharedChannel: channel.consumer_count > 1,
+    unacked,
+    prefetchUtilization: utilization,
+    ackRate: channel.message_stats?.ack_details?.rate ?? null,
+    ackedInWindow: progress.ackedInWindow,
+    lastAckAt:
+      progress.lastAckAt !== null ? new Date(progress.lastAckAt) : null,
+    unackedAgeSeconds,
+    unackedAgeIsLowerBound,
+    status,
+  };
+}
+
+/** Worst first, so the consumer starving the queue tops the list. */
+const STATUS_ORDER: Record<ConsumerStatus, number> = {
+  stuck: 0,
+  saturated: 1,
+  unknown: 2,
+  healthy: 3,
+  idle: 4,
+  auto_ack: 5,
+};
+
+export function analyzeConsumers(
+  consumers: RabbitMQConsumer[],
+  channels: Map<string, RabbitMQChannel>,
+  windowMs: number,
+  now: number
+): ConsumerHealth[] {
+  return consumers
+    .map((consumer) =>
+      analyzeConsumer(
+        consumer,
+        channels.get(consumer.channel_details?.name ?? ""),
+        windowMs,
+        now
+      )
+    )
+    .sort(
+      (a, b) =>
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        (b.unacked ?? 0) - (a.unacked ?? 0)
+    );
+}
@@ -0,0 +1,159 @@
+import { logger } from "@/core/logger";
+import type { RabbitMQApiClient } from "@/core/rabbitmq/ApiClient";
+import type { RabbitMQChannel } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { analyzeConsumers, type ConsumerHealth } from "./consumer-analysis";
+
+import { metricsStore } from "@/stores/metrics";
+
+export const DEFAULT_WINDOW_MINUTES = 5;
+
+/**
+ * The Management API keeps channel samples for an hour under its default
+ * retention policy, so a longer window would silently return less.
+ */
+export const MAX_WINDOW_MINUTES = 60;
+
+/** Channels inspected per request; one broker call each. */
+export const MAX_INSPECTED_CHANNELS = 50;
+
+/** Stored snapshots are bucketed at 2 minutes; shorter spans show nothing. */
+const MIN_HISTORY_MINUTES = 30;
+
+type ConsumerHealthClient = Pick<
+  RabbitMQApiClient,
+  "getQueue" | "getQueueConsumers" | "getChannelWithTimeRange"
+>;
+
+export interface ConsumerHealthQuery {
+  workspaceId: string;
+  serverId: string;
+  queueName: string;
+  vhost: string;
+  windowMinutes: number;
+  now?: Date;
+}
+
+export interface ConsumerHealthReport {
+  queueName: string;
+  vhost: string;
+  windowMinutes: number;
+  messagesReady: number;
+  /** The broker's own share of time the queue could deliver immediately */
+  consumerUtilisation: number | null;
+  consumers: ConsumerHealth[];
+  stuck: number;
+  saturated: number;
+  /**
+   * Ready messages wait while every ack-requiring consumer is at its
+   * prefetch — adding consumers or fixing the stuck one is what helps.
+   */
+  starving: boolean;
+  /** Consumers whose channel was not inspected (over the channel cap) */
+  uninspected: number;
+  /** Consumer count and consume rate from stored snapshots, oldest first */
+  history: { timestamp: Date; consumerCount: number; consumeRate: number }[];
+}
+
+/**
+ * Analyse every consumer of one queue over the last `windowMinutes`:
+ * fetch the consumers, then each distinct channel with sampled ack rates,
+ * and the stored consumer-count series for context.
+ */
+export async function getQueueConsumerHealth(
+  client: ConsumerHealthClient,
+  query: ConsumerHealthQuery
+): Promise<ConsumerHealthReport> {
+  const { queueName, vhost, windowMinutes } = query;
+  const now = query.now ?? new Date();
+  const windowMs = windowMinutes * 60_000;
+
+  const [queue, consumers] = await Promise.all([
+    client.getQueue(queueName, vhost),
+    client.getQueueConsumers(queueName, vhost),
+  ]);
+
+  const channelNames = [
+    ...new Set(consumers.map((c) => c.channel_details?.name).filter(Boolean)),
+  ] as string[];
+  const inspected = channelNames.slice(0, MAX_INSPECTED_CHANNELS);
+  // ~20 samples over the window, never finer than the broker's 5s tick
+  const increment = Math.max(5, Math.round(windowMs / 1000 / 20));
+
+  const channels = new Map<string, RabbitMQChannel>();
+  const results = await Promise.allSettled(
+    inspected.map((name) =>
+      client.getChannelWithTimeRange(name, {
+        age: windowMinutes * 60,
+        increment,
+      })
+    )
+  );
+  results.forEach((result, i) => {
+    // A channel that closed meanwhile leaves its consumers "unknown"
+    if (result.status === "fulfilled") channels.set(inspected[i], result.value);
+  });
+
+  const analyzed = analyzeConsumers(
+    consumers,
+    channels,
+    windowMs,
+    now.getTime()
+  );
+  const inspectedSet = new Set(inspected);
+  const uninspected = consumers.filter(
+    (c) => !inspectedSet.has(c.channel_details?.name ?? "")
+  ).length;
+
+  const ackConsumers = analyzed.filter((c) => c.ackRequired);
+  const messagesReady = queue.messages_ready ?? 0;
+
+  return {
+    queueName,
+    vhost,
+    windowMinutes,
+    messagesReady,
+    consumerUtilisation: queue.consumer_utilisation ?? null,
+    consumers: analyzed,
+    stuck: analyzed.filter((c) => c.status === "stuck").length,
+    saturated: analyzed.filter((c) => c.status === "saturated").length,
+    starving:
+      messagesReady > 0 &&
+      ackConsumers.length > 0 &&
+      ackConsumers.length === analyzed.length &&
+      ackConsumers.every(
+        (c) => c.status === "stuck" || c.status === "saturated"
+      ),
+    uninspected,
+    history: await loadConsumerHistory(query, now),
+  };
+}
+
+async function loadConsumerHistory(
+  query: ConsumerHealthQuery,
+  now: Date
+): Promise<ConsumerHealthReport["history"]> {
+  const { workspaceId, serverId, queueName, vhost, windowMinutes } = query;
+  const minutes = Math.max(windowMinutes, MIN_HISTORY_MINUTES);
+  try {
+    const series = await metricsStore.getQueueRateSeries({
+      workspaceId,
+      serverId,
+      queueName,
+      vhost,
+      since: new Date(now.getTime() - minutes * 60_000),
+    });
+    return series.map((s) => ({
+      timestamp: s.timestamp,
+      consumerCount: s.consumerCount,
+      consumeRate: s.consumeRate,
+    }));
+  } catch (error) {
+    // History is context; the live analysis stands without it
+    logger.warn(
+      { error, serverId, queueName },
+      "Failed to load consumer history"
+    );
+    return [];
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Consumer health — per-consumer prefetch utilization, ack progress and
+ * stuck-consumer detection (`consumer-analysis.ts`), assembled per queue
+ * from the broker and stored snapshots (`consumer-health.service.ts`).
+ */
+
+export type { ConsumerHealth, ConsumerStatus } from "./consumer-analysis";
+export { analyzeConsumers } from "./consumer-analysis";
+export type {
+  ConsumerHealthQuery,
+  ConsumerHealthReport,
+} from "./consumer-health.service";
+export {
+  DEFAULT_WINDOW_MINUTES,
+  getQueueConsumerHealth,
+  MAX_INSPECTED_CHANNELS,
+  MAX_WINDOW_MINUTES,
+} from "./consumer-health.service";
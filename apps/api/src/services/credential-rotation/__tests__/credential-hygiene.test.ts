@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import type { RabbitMQConnection } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import {
+  assessBrokerUsers,
+  isLoopbackHost,
+  remoteGuestPeers,
+} from "../credential-hygiene";
+
+const perm = (user: string, vhost = "/") => ({
+  user,
+  vhost,
+  configure: ".*",
+  write: ".*",
+  read: ".*",
+});
+
+const noGuest = { evidence: [], remotePeers: [] };
+
+describe("isLoopbackHost / remoteGuestPeers", () => {
+  it("recognises loopback addresses", () => {
+    expect(isLoopbackHost("localhost")).toBe(true);
+    expect(isLoopbackHost("127.0.0.1")).toBe(true);
+    expect(isLoopbackHost("::1")).toBe(true);
+    expect(isLoopbackHost("10.0.0.5")).toBe(false);
+  });
+
+  it("keeps guest connections from other hosts only", () => {
+    const connections = [
+      { name: "a", user: "guest", peer_host: "127.0.0.1" },
+      { name: "b", user: "guest", peer_host: "10.0.0.9" },
+      { name: "c", user: "guest", peer_host: "10.0.0.9" },
+      { name: "d", user: "app", peer_host: "10.0.0.7" },
+    ] as RabbitMQConnection[];
+
+    expect(remoteGuestPeers(connections)).toEqual(["10.0.0.9"]);
+  });
+});
+
+describe("assessBrokerUsers", () => {
+  it("reports users without permissions and unexpected administrators", () => {
+    const findings = assessBrokerUsers({
+      users: [
+        { name: "qarote", tags: "administrator" },
+        { name: "ops", tags: ["administrator"] },
+        { name: "intruder", tags: "administrator" },
+        { name: "stale", tags: "" },
+      ],
+      permissions: [perm("qarote"), perm("ops"), perm("intruder")],
+      connectionUser: "qarote",
+      expectedAdmins: ["ops"],
+      guest: noGuest,
+    });
+
+    expect(findings.map((f) => [f.kind, f.username])).toEqual([
+      ["unexpected_administrator", "intruder"],
+      ["no_permissions", "stale"],
+    ]);
+  });
+
+  it("flags a remotely usable guest, critical when the default password works", () => {
+    const users = [{ name: "guest", tags: "administrator" }];
+    const base = {
+      users,
+      permissions: [perm("guest")],
+      connectionUser: "qarote",
+      expectedAdmins: ["guest"],
+    };
+
+    const viaConnection = assessBrokerUsers({
+      ...base,
+      guest: { evidence: ["remote_connection"], remotePeers: ["10.0.0.9"] },
+    });
+    expect(viaConnection).toEqual([
+      expect.objectContaining({
+        kind: "guest_remote",
+        severity: "warning",
+        remotePeers: ["10.0.0.9"],
+      }),
+    ]);
+
+    const viaLogin = assessBrokerUsers({
+      ...base,
+      guest: { evidence: ["default_password"], remotePeers: [] },
+    });
+    expect(viaLogin[0]).toMatchObject({
+      kind: "guest_remote",
+      severity: "critical",
+    });
+
+    expect(assessBrokerUsers({ ...base, guest: noGuest })).toEqual([]);
+  });
+
+  it("sorts critical findings first", () => {
+    const findings = assessBrokerUsers({
+      users: [
+        { name: "aaa", tags: "" },
+        { name: "guest", tags: "" },
+      ],
+      permissions: [perm("guest")],
+      connectionUser: "qarote",
+      expectedAdmins: [],
+      guest: { evidence: ["default_password"], remotePeers: [] },
+    });
+
+    expect(findings.map((f) => f.severity)).toEqual(["critical", "warning"]);
+  });
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockFindUniqueOrThrow,
+  mockUpdateMany,
+  mockUpdate,
+  mockGetUser,
+  mockUpdateUser,
+  mockWhoami,
+  mockAsUpdateUser,
+} = vi.hoisted(() => ({
+  mockFindUniqueOrThrow: vi.fn(),
+  mockUpdateMany: vi.fn(),
+  mockUpdate: vi.fn(),
+  mockGetUser: vi.fn(),
+  mockUpdateUser: vi.fn(),
+  mockWhoami: vi.fn(),
+  mockAsUpdateUser: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    rabbitMQServer: {
+      findUniqueOrThrow: mockFindUniqueOrThrow,
+      updateMany: mockUpdateMany,
+      update: mockUpdate,
+    },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("@/services/encryption.service", () => ({
+  EncryptionService: {
+    decrypt: (value: string) => value.replace(/^enc:/, ""),
+    encrypt: (value: string) => `enc:${value}`,
+  },
+}));
+
+vi.mock("@/core/rabbitmq/server-client", () => ({
+  createRabbitMQClientFromServer: () => ({
+    getUser: mockGetUser,
+    updateUser: mockUpdateUser,
+  }),
+  createRabbitMQClientAs: (
+    _server: unknown,
+    credentials: { username: string; password: string }
+  ) => ({
+    whoami: () => mockWhoami(credentials),
+    updateUser: mockAsUpdateUser,
+  }),
+}));
+
+import {
+  generateBrokerPassword,
+  nextRotationAt,
+  rotateServerPassword,
+} from "../credential-rotation.service";
+
+const server = {
+  id: "srv-1",
+  host: "rabbit.internal",
+  username: "enc:qarote",
+  password: "enc:old-secret",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  passwordRotationDays: 30,
+  passwordRotatedAt: null,
+};
+
+const previousUser = {
+  name: "qarote",
+  password_hash: "old-hash",
+  hashing_algorithm: "rabbit_password_hashing_sha256",
+  tags: ["administrator"],
+};
+
+describe("rotateServerPassword", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFindUniqueOrThrow.mockResolvedValue(server);
+    mockGetUser.mockResolvedValue(previousUser);
+    mockUpdateUser.mockResolvedValue(undefined);
+    mockUpdate.mockResolvedValue({});
+    mockWhoami.mockImplementation(async ({ username }) => ({
+      name: username,
+      tags: [],
+    }));
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("sets, verifies, then swaps the stored password", async () => {
+    const result = await rotateServerPassword("srv-1");
+
+    const [, payload] = mockUpdateUser.mock.calls[0];
+    expect(payload.tags).toBe("administrator");
+    expect(payload.password).toHaveLength(32);
+    expect(mockWhoami).toHaveBeenCalledWith({
+      username: "qarote",
+      password: payload.password,
+    });
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: "srv-1", password: "enc:old-secret" },
+      data: expect.objectContaining({
+        password: `enc:${payload.password}`,
+        passwordRotationError: null,
+      }),
+    });
+    expect(result.username).toBe("qarote");
+  });
+
+  it("restores the previous hash when the new password is refused", async () => {
+    vi.useFakeTimers();
+    mockWhoami.mockRejectedValue(new Error("RabbitMQ API error: 401"));
+
+    const pending = rotateServerPassword("srv-1").catch((e) => e);
+    await vi.runAllTimersAsync();
+    const error = await pending;
+    vi.useRealTimers();
+
+    expect(error.code).toBe("passwordRotationVerifyFailed");
+    expect(mockUpdateUser).toHaveBeenLastCalledWith("qarote", {
+      password_hash: "old-hash",
+      hashing_algorithm: "rabbit_password_hashing_sha256",
+      tags: "administrator",
+    });
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: "srv-1" },
+      data: { passwordRotationError: error.message },
+    });
+  });
+
+  it("rolls the broker back when the server row changed meanwhile", async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+    // The old password no longer works once the broker has the new one
+    mockUpdateUser
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("RabbitMQ API error: 401"));
+
+    await expect(rotateServerPassword("srv-1")).rejects.toMatchObject({
+      code: "passwordRotationConflict",
+    });
+    expect(mockAsUpdateUser).toHaveBeenCalledWith(
+      "qarote",
+      expect.objectContaining({ password_hash: "old-hash" })
+    );
+  });
+
+  it("reports a connection user that cannot manage users", async () => {
+    mockGetUser.mockRejectedValue(
+      new Error("RabbitMQ API error: 401 Unauthorized")
+    );
+
+    await expect(rotateServerPassword("srv-1")).rejects.toMatchObject({
+      code: "passwordRotationNotPermitted",
+    });
+    expect(mockUpdateUser).not.toHaveBeenCalled();
+  });
+});
+
+describe("nextRotationAt / generateBrokerPassword", () => {
+  it("counts from the last rotation, or from creation", () => {
+    expect(nextRotationAt(server)?.toISOString()).toBe(
+      "2026-01-31T00:00:00.000Z"
+    );
+    expect(
+      nextRotationAt({
+        ...server,
+        passwordRotatedAt: new Date("2026-03-01T00:00:00Z"),
+      })?.toISOString()
+    ).toBe("2026-03-31T00:00:00.000Z");
+    expect(nextRotationAt({ ...server, passwordRotationDays: null })).toBe(
+      null
+    );
+  });
+
+  it("generates distinct URL-safe passwords", () => {
+    const a = generateBrokerPassword();
+    expect(a).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(generateBrokerPassword()).not.toBe(a);
+  });
+});
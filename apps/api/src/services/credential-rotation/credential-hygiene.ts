@@ -0,0 +1,122 @@
+import type {
+  RabbitMQConnection,
+  RabbitMQUser,
+  RabbitMQUserPermission,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+import { normalizeTags } from "@/core/utils";
+
+export type CredentialFindingKind =
+  | "no_permissions"
+  | "guest_remote"
+  | "unexpected_administrator";
+
+export type CredentialFindingSeverity = "critical" | "warning";
+
+export interface CredentialFinding {
+  kind: CredentialFindingKind;
+  severity: CredentialFindingSeverity;
+  username: string;
+  tags: string[];
+  /** guest_remote: how we know — a remote client is connected as guest, and/or Qarote logged in with guest/guest */
+  evidence?: GuestEvidence[];
+  /** guest_remote: peers connected as guest from outside the broker host */
+  remotePeers?: string[];
+}
+
+export type GuestEvidence = "remote_connection" | "default_password";
+
+export interface GuestExposure {
+  evidence: GuestEvidence[];
+  remotePeers: string[];
+}
+
+export interface HygieneInput {
+  users: RabbitMQUser[];
+  permissions: RabbitMQUserPermission[];
+  /** The user Qarote connects as; always an expected administrator */
+  connectionUser: string;
+  expectedAdmins: string[];
+  guest: GuestExposure;
+}
+
+const GUEST = "guest";
+
+/**
+ * `loopback_users` only restricts guest to connections from the broker
+ * host, so a guest login from a loopback address proves nothing.
+ */
+export function isLoopbackHost(host: string | undefined | null): boolean {
+  if (!host) return false;
+  const value = host.toLowerCase().replace(/^\[|\]$/g, "");
+  return (
+    value === "localhost" ||
+    value === "::1" ||
+    value.startsWith("127.") ||
+    value.startsWith("::ffff:127.")
+  );
+}
+
+/** Peers connected as guest from somewhere other than the broker host. */
+export function remoteGuestPeers(connections: RabbitMQConnection[]): string[] {
+  const peers = connections
+    .filter((c) => c.user === GUEST && !isLoopbackHost(c.peer_host))
+    .map((c) => c.peer_host ?? c.name);
+  return [...new Set(peers)].sort();
+}
+
+/**
+ * Broker users worth a second look: users that can't touch any vhost
+ * (usually left over), a `guest` user reachable from outside the broker
+ * host, and administrators nobody listed as expected. Critical findings
+ * come first.
+ */
+export function assessBrokerUsers(input: HygieneInput): CredentialFinding[] {
+  const withPermissions = new Set(input.permissions.map((p) => p.user));
+  const expectedAdmins = new Set([
+    input.connectionUser,
+    ...input.expectedAdmins,
+  ]);
+  const findings: CredentialFinding[] = [];
+
+  for (const user of input.users) {
+    const tags = normalizeTags(user.tags);
+
+    if (user.name === GUEST && input.guest.evidence.length > 0) {
+      findings.push({
+        kind: "guest_remote",
+        severity: input.guest.evidence.includes("default_password")
+          ? "critical"
+          : "warning",
+        username: user.name,
+        tags,
+        evidence: input.guest.evidence,
+        remotePeers: input.guest.remotePeers,
+      });
+    }
+
+    if (tags.includes("administrator") && !expectedAdmins.has(user.name)) {
+      findings.push({
+        kind: "unexpected_administrator",
+        severity: "warning",
+        username: user.name,
+        tags,
+      });
+    }
+
+    if (!withPermissions.has(user.name)) {
+      findings.push({
+        kind: "no_permissions",
+        severity: "warning",
+        username: user.name,
+        tags,
+      });
+    }
+  }
+
+  return findings.sort(
+    (a, b) =>
+      (a.severity === "critical" ? 0 : 1) -
+        (b.severity === "critical" ? 0 : 1) ||
+      a.username.localeCompare(b.username)
+  );
+}
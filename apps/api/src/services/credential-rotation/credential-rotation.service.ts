@@ -0,0 +1,365 @@
+import { randomBytes } from "node:crypto";
+
+import { CodedError } from "@/core/coded-error";
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import type { RabbitMQUser } from "@/core/rabbitmq/rabbitmq.interfaces";
+import {
+  createRabbitMQClientAs,
+  createRabbitMQClientFromServer,
+} from "@/core/rabbitmq/server-client";
+import { normalizeTags } from "@/core/utils";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+import {
+  assessBrokerUsers,
+  type CredentialFinding,
+  type GuestEvidence,
+  isLoopbackHost,
+  remoteGuestPeers,
+} from "./credential-hygiene";
+
+import type { RabbitMQServer } from "@/generated/prisma/client";
+
+/** Bounds for the rotation cadence, in days. */
+export const MIN_ROTATION_DAYS = 1;
+export const MAX_ROTATION_DAYS = 365;
+
+/** The new password can take a moment to reach every cluster node. */
+const VERIFY_ATTEMPTS = 3;
+const VERIFY_DELAY_MS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `BaseClient` reports HTTP failures as "RabbitMQ API error: <status> …" */
+const FORBIDDEN_RE = /RabbitMQ API error:\s*(401|403)/;
+
+export type CredentialRotationErrorCode =
+  | "passwordRotationNotPermitted"
+  | "passwordRotationVerifyFailed"
+  | "passwordRotationLockedOut"
+  | "passwordRotationConflict"
+  | "passwordRotationExternalSecret";
+
+export class CredentialRotationError extends CodedError<CredentialRotationErrorCode> {}
+
+export interface PasswordRotationResult {
+  username: string;
+  rotatedAt: Date;
+}
+
+export interface RotationStatus {
+  connectionUser: string;
+  rotationDays: number | null;
+  rotatedAt: Date | null;
+  /** Null when rotation is on demand only */
+  nextRotationAt: Date | null;
+  lastError: string | null;
+  expectedAdmins: string[];
+  /** The password comes from an external secret source and cannot be rotated here */
+  externalSecret: boolean;
+}
+
+export interface CredentialHygieneReport {
+  findings: CredentialFinding[];
+  rotation: RotationStatus;
+  /** False when Qarote connects from the broker host, where a guest login proves nothing */
+  guestProbed: boolean;
+}
+
+/** 32 URL-safe characters: no quoting trouble in configs or URIs. */
+export function generateBrokerPassword(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function nextRotationAt(
+  server: Pick<
+    RabbitMQServer,
+    "passwordRotationDays" | "passwordRotatedAt" | "createdAt"
+  >
+): Date | null {
+  if (!server.passwordRotationDays) return null;
+  const from = server.passwordRotatedAt ?? server.createdAt;
+  return new Date(from.getTime() + server.passwordRotationDays * DAY_MS);
+}
+
+export function rotationStatus(server: RabbitMQServer): RotationStatus {
+  return {
+    connectionUser: EncryptionService.decrypt(server.username),
+    rotationDays: server.passwordRotationDays,
+    rotatedAt: server.passwordRotatedAt,
+    nextRotationAt: nextRotationAt(server),
+    lastError: server.passwordRotationError,
+    expectedAdmins: server.expectedBrokerAdmins,
+    externalSecret: !!server.passwordRef,
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function verifyLogin(
+  server: RabbitMQServer,
+  username: string,
+  password: string
+): Promise<boolean> {
+  const client = createRabbitMQClientAs(server, { username, password });
+  for (let attempt = 1; attempt <= VERIFY_ATTEMPTS; attempt++) {
+    try {
+      const me = await client.whoami();
+      if (me.name === username) return true;
+    } catch (error) {
+      logger.debug(
+        { error, serverId: server.id, attempt },
+        "Rotated password not accepted yet"
+      );
+    }
+    if (attempt < VERIFY_ATTEMPTS) await sleep(VERIFY_DELAY_MS);
+  }
+  return false;
+}
+
+/**
+ * Put the previous password hash back. Tried with the old password first
+ * (the usual case: an external auth backend ignored the change), then the
+ * new one. False when neither is accepted any more.
+ */
+async function restorePassword(
+  server: RabbitMQServer,
+  username: string,
+  previous: RabbitMQUser,
+  newPassword: string
+): Promise<boolean> {
+  const payload = {
+    password_hash: previous.password_hash ?? "",
+    hashing_algorithm: previous.hashing_algorithm,
+    tags: normalizeTags(previous.tags).join(","),
+  };
+  const clients = [
+    createRabbitMQClientFromServer(server),
+    createRabbitMQClientAs(server, { username, password: newPassword }),
+  ];
+  for (const client of clients) {
+    try {
+      await client.updateUser(username, payload);
+      return true;
+    } catch (error) {
+      logger.debug(
+        { error, serverId: server.id },
+        "Could not restore the previous broker password with this login"
+      );
+    }
+  }
+  return false;
+}
+
+async function rollBack(
+  server: RabbitMQServer,
+  username: string,
+  previous: RabbitMQUser,
+  newPassword: string,
+  code: Exclude<CredentialRotationErrorCode, "passwordRotationLockedOut">,
+  message: string
+): Promise<never> {
+  if (await restorePassword(server, username, previous, newPassword)) {
+    throw new CredentialRotationError(code, message);
+  }
+  throw new CredentialRotationError(
+    "passwordRotationLockedOut",
+    `${message}; the previous password could not be restored`
+  );
+}
+
+async function rotate(server: RabbitMQServer): Promise<PasswordRotationResult> {
+  // Qarote cannot write the new password back to someone else's store
+  if (server.passwordRef) {
+    throw new CredentialRotationError(
+      "passwordRotationExternalSecret",
+      "The password is read from an external secret source"
+    );
+  }
+  const username = EncryptionService.decrypt(server.username);
+  const client = createRabbitMQClientFromServer(server);
+
+  let previous: RabbitMQUser;
+  try {
+    previous = await client.getUser(username);
+  } catch (error) {
+    if (error instanceof Error && FORBIDDEN_RE.test(error.message)) {
+      throw new CredentialRotationError(
+        "passwordRotationNotPermitted",
+        `User ${username} cannot manage broker users`
+      );
+    }
+    throw error;
+  }
+
+  const password = generateBrokerPassword();
+  try {
+    // PUT /users/{name} replaces the user, so the tags go along
+    await client.updateUser(username, {
+      password,
+      tags: normalizeTags(previous.tags).join(","),
+    });
+  } catch (error) {
+    if (error instanceof Error && FORBIDDEN_RE.test(error.message)) {
+      throw new CredentialRotationError(
+        "passwordRotationNotPermitted",
+        `User ${username} cannot change its password`
+      );
+    }
+    throw error;
+  }
+
+  // From here until the swap below commits, anything reading the stored
+  // password fails to authenticate. Open AMQP connections are unaffected.
+  if (!(await verifyLogin(server, username, password))) {
+    return rollBack(
+      server,
+      username,
+      previous,
+      password,
+      "passwordRotationVerifyFailed",
+      "The broker did not accept the new password"
+    );
+  }
+
+  const rotatedAt = new Date();
+  let swapped: number;
+  try {
+    // Compare-and-swap: an edit of the server's credentials in the
+    // meantime wins, and the broker goes back to what it had
+    ({ count: swapped } = await prisma.rabbitMQServer.updateMany({
+      where: { id: server.id, password: server.password },
+      data: {
+        password: EncryptionService.encrypt(password),
+        passwordRotatedAt: rotatedAt,
+        passwordRotationError: null,
+      },
+    }));
+  } catch (error) {
+    logger.error(
+      { error, serverId: server.id },
+      "Failed to store the rotated broker password"
+    );
+    swapped = 0;
+  }
+  if (swapped === 0) {
+    return rollBack(
+      server,
+      username,
+      previous,
+      password,
+      "passwordRotationConflict",
+      "The server's stored credentials could not be updated"
+    );
+  }
+
+  return { username, rotatedAt };
+}
+
+/**
+ * Rotate the broker password Qarote connects to a server with: generate a
+ * password, set it on the broker, log in with it, then swap the encrypted
+ * copy on the server row. A failure after the broker change puts the old
+ * password hash back. The failure is also kept on the row so a scheduled
+ * rotation that failed shows up in the UI.
+ */
+export async function rotateServerPassword(
+  serverId: string
+): Promise<PasswordRotationResult> {
+  const server = await prisma.rabbitMQServer.findUniqueOrThrow({
+    where: { id: serverId },
+  });
+
+  try {
+    const result = await rotate(server);
+    logger.info(
+      { serverId, username: result.username },
+      "Broker password rotated"
+    );
+    return result;
+  } catch (error) {
+    await prisma.rabbitMQServer
+      .update({
+        where: { id: serverId },
+        data: {
+          passwordRotationError:
+            error instanceof Error ? error.message : String(error),
+        },
+      })
+      .catch((updateError) =>
+        logger.warn(
+          { error: updateError, serverId },
+          "Failed to record the rotation failure"
+        )
+      );
+    throw error;
+  }
+}
+
+/**
+ * Whether `guest` can be used from outside the broker host: a client
+ * connected as guest from a remote peer, or Qarote — itself remote —
+ * logging in with guest/guest.
+ */
+async function probeGuest(
+  server: RabbitMQServer,
+  users: RabbitMQUser[],
+  client: ReturnType<typeof createRabbitMQClientFromServer>
+): Promise<{ evidence: GuestEvidence[]; remotePeers: string[] }> {
+  if (!users.some((u) => u.name === "guest")) {
+    return { evidence: [], remotePeers: [] };
+  }
+
+  const evidence: GuestEvidence[] = [];
+  const remotePeers = remoteGuestPeers(
+    await client.getConnections().catch(() => [])
+  );
+  if (remotePeers.length > 0) evidence.push("remote_connection");
+
+  if (
+    !isLoopbackHost(server.host) &&
+    (await createRabbitMQClientAs(server, {
+      username: "guest",
+      password: "guest",
+    })
+      .whoami()
+      .then(
+        () => true,
+        () => false
+      ))
+  ) {
+    evidence.push("default_password");
+  }
+
+  return { evidence, remotePeers };
+}
+
+/**
+ * Broker users that need attention, plus where the connection password's
+ * rotation stands.
+ */
+export async function getCredentialHygiene(
+  server: RabbitMQServer
+): Promise<CredentialHygieneReport> {
+  const client = createRabbitMQClientFromServer(server);
+  const [users, permissions] = await Promise.all([
+    client.getUsers(),
+    client.getPermissions(),
+  ]);
+  const guest = await probeGuest(server, users, client);
+  const rotation = rotationStatus(server);
+
+  return {
+    findings: assessBrokerUsers({
+      users,
+      permissions,
+      connectionUser: rotation.connectionUser,
+      expectedAdmins: server.expectedBrokerAdmins,
+      guest,
+    }),
+    rotation,
+    guestProbed: !isLoopbackHost(server.host),
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Broker credential hygiene — rotating the password Qarote connects with
+ * (`credential-rotation.service.ts`) and reviewing the broker's users
+ * (`credential-hygiene.ts`).
+ */
+
+export type {
+  CredentialFinding,
+  CredentialFindingKind,
+  CredentialFindingSeverity,
+  GuestEvidence,
+} from "./credential-hygiene";
+export { assessBrokerUsers } from "./credential-hygiene";
+export type {
+  CredentialHygieneReport,
+  CredentialRotationErrorCode,
+  PasswordRotationResult,
+  RotationStatus,
+} from "./credential-rotation.service";
+export {
+  CredentialRotationError,
+  generateBrokerPassword,
+  getCredentialHygiene,
+  MAX_ROTATION_DAYS,
+  MIN_ROTATION_DAYS,
+  nextRotationAt,
+  rotateServerPassword,
+  rotationStatus,
+} from "./credential-rotation.service";
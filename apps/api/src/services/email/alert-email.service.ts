@@ -0,0 +1,50 @@
+/**
+ * Alert Email Service
+ * Sends one alert's trigger or resolve to a recipient routed by the
+ * workspace's notification settings (see services/alert-channels)
+ */
+
+import type {
+  AlertChannelEvent,
+  AlertNotificationPayload,
+} from "@/services/alert-channels/alert-payload";
+
+import { CoreEmailService, type EmailResult } from "./core-email.service";
+import AlertEmail from "./templates/alert-email";
+
+import { tEmail } from "@/i18n";
+
+interface SendAlertEmailParams {
+  to: string;
+  event: AlertChannelEvent;
+  alert: AlertNotificationPayload;
+  locale?: string;
+}
+
+export class AlertEmailService {
+  /**
+   * Send an alert trigger or resolve
+   */
+  static async sendAlertEmail(
+    params: SendAlertEmailParams
+  ): Promise<EmailResult> {
+    const { to, event, alert, locale = "en" } = params;
+    const { frontendUrl } = CoreEmailService.getConfig();
+
+    const template = AlertEmail({ event, alert, frontendUrl, locale });
+
+    return CoreEmailService.sendEmail({
+      to,
+      subject: tEmail(
+        locale,
+        event === "trigger"
+          ? "subjects.alertTriggered"
+          : "subjects.alertResolved",
+        { severity: alert.severity, title: alert.title }
+      ),
+      template,
+      emailType: event === "trigger" ? "alert-triggered" : "alert-resolved",
+      context: { alertId: alert.alertId, severity: alert.severity },
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from "@react-email/components";
+import type { JSX } from "react";
+
+import {
+  type AlertChannelEvent,
+  alertFacts,
+  type AlertNotificationPayload,
+} from "@/services/alert-channels/alert-payload";
+
+import { EmailFooter } from "../shared/email-footer";
+import { EmailHeader } from "../shared/email-header";
+import {
+  baseStyles,
+  buttonStyles,
+  colorVariants,
+  contentStyles,
+  layoutStyles,
+  sectionStyles,
+  textStyles,
+} from "../shared/styles";
+
+import { tEmail } from "@/i18n";
+
+interface AlertEmailProps {
+  event: AlertChannelEvent;
+  alert: AlertNotificationPayload;
+  frontendUrl: string;
+  locale?: string;
+}
+
+export default function AlertEmail({
+  event,
+  alert,
+  frontendUrl,
+  locale = "en",
+}: AlertEmailProps): JSX.Element {
+  const resolved = event === "resolve";
+  const params = { severity: alert.severity, title: alert.title };
+
+  return (
+    <Html>
+      <Head />
+      <Preview>
+        {resolved
+          ? tEmail(locale, "alertChannel.previewResolved", params)
+          : tEmail(locale, "alertChannel.previewTriggered", params)}
+      </Preview>
+      <Body style={baseStyles.main}>
+        <Container style={baseStyles.container}>
+          <EmailHeader frontendUrl={frontendUrl} />
+
+          <Section style={contentStyles.contentPadded}>
+            <Text style={resolved ? styles.resolvedLabel : styles.firedLabel}>
+              {resolved
+                ? tEmail(locale, "alertChannel.resolved")
+                : tEmail(locale, "alertChannel.triggered")}
+            </Text>
+            <Text style={contentStyles.title}>{alert.title}</Text>
+
+            {!resolved && (
+              <Text style={contentStyles.paragraph}>{alert.description}</Text>
+            )}
+
+            <Section
+              style={
+                resolved ? sectionStyles.successSection : sectionStyles.section
+              }
+            >
+              {alertFacts(event, alert).map(({ field, value }) => (
+                <Section key={field} style={layoutStyles.detailRow}>
+                  <Text style={layoutStyles.detailLabel}>
+                    {tEmail(locale, `alertChannel.fields.${field}`)}
+                  </Text>
+                  <Text style={layoutStyles.detailValue}>{value}</Text>
+                </Section>
+              ))}
+            </Section>
+
+            <Section style={buttonStyles.buttonSection}>
+              <Button style={buttonStyles.primaryButton} href={alert.url}>
+                {tEmail(locale, "alertChannel.viewAlert")}
+              </Button>
+            </Section>
+
+            <Text style={styles.notice}>
+              {tEmail(locale, "alertChannel.automatedNotice")}
+            </Text>
+
+            <EmailFooter locale={locale} frontendUrl={frontendUrl} />
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+const styles = {
+  firedLabel: {
+    ...textStyles.metric,
+    color: colorVariants.error.primary,
+    fontSize: "13px",
+    margin: "0 0 4px",
+  },
+  resolvedLabel: {
+    ...textStyles.metric,
+    color: colorVariants.success.primary,
+    fontSize: "13px",
+    margin: "0 0 4px",
+  },
+  notice: {
+    fontSize: "13px",
+    color: colorVariants.neutral.primary,
+  },
+} as const;
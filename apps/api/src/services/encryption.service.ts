@@ -6,40 +6,124 @@ import { authConfig } from "@/config";
 
 const ALGORITHM = "aes-256-cbc";
 
+/**
+ * Ciphertexts written under key version N > 1 carry a `vN:` prefix; the
+ * unprefixed `iv:data` form predates key versioning and is version 1. A
+ * secret therefore always names the key that reads it, whichever row or
+ * column it sits in.
+ */
+const VERSION_PREFIX = /^v(\d+):/;
+
+function deriveKey(secret: string): Buffer {
+  return crypto.scryptSync(secret, "salt", 32);
+}
+
+/** `ENCRYPTION_PREVIOUS_KEYS` is `version:key` pairs, comma-separated. */
+export function parsePreviousKeys(
+  raw: string | undefined
+): Map<number, string> {
+  const keys = new Map<number, string>();
+  for (const entry of (raw ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const separator = trimmed.indexOf(":");
+    const version = Number(trimmed.slice(0, separator));
+    const secret = trimmed.slice(separator + 1);
+    if (separator < 1 || !Number.isInteger(version) || version < 1 || !secret) {
+      throw new Error(
+        "ENCRYPTION_PREVIOUS_KEYS must be comma-separated `version:key` pairs"
+      );
+    }
+    keys.set(version, secret);
+  }
+  return keys;
+}
+
 export class EncryptionService {
-  private static key = crypto.scryptSync(authConfig.encryptionKey, "salt", 32);
+  /** Version new ciphertexts are written under. */
+  static readonly keyVersion = authConfig.encryptionKeyVersion;
+
+  private static keys = (() => {
+    const keys = new Map<number, Buffer>();
+    for (const [version, secret] of parsePreviousKeys(
+      authConfig.previousEncryptionKeys
+    )) {
+      keys.set(version, deriveKey(secret));
+    }
+    keys.set(
+      authConfig.encryptionKeyVersion,
+      deriveKey(authConfig.encryptionKey)
+    );
+    return keys;
+  })();
+
+  private static keyFor(version: number): Buffer {
+    const key = this.keys.get(version);
+    if (!key) {
+      throw new Error(
+        `No encryption key configured for version ${version} (set it in ENCRYPTION_PREVIOUS_KEYS)`
+      );
+    }
+    return key;
+  }
 
   static encrypt(text: string): string {
     if (!text) return text;
 
     const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const cipher = crypto.createCipheriv(
+      ALGORITHM,
+      this.keyFor(this.keyVersion),
+      iv
+    );
 
     let encrypted = cipher.update(text, "utf8", "hex");
     encrypted += cipher.final("hex");
 
     // Combine IV and encrypted data
-    return iv.toString("hex") + ":" + encrypted;
+    const prefix = this.keyVersion > 1 ? `v${this.keyVersion}:` : "";
+    return prefix + iv.toString("hex") + ":" + encrypted;
   }
 
   static decrypt(encryptedText: string): string {
     if (!encryptedText || !encryptedText.includes(":")) return encryptedText;
 
+    const version = this.keyVersionOf(encryptedText) ?? 1;
+    const key = this.keyFor(version);
     try {
-      const [ivHex, encrypted] = encryptedText.split(":");
+      const [ivHex, encrypted] = encryptedText
+        .replace(VERSION_PREFIX, "")
+        .split(":");
       const iv = Buffer.from(ivHex, "hex");
-      const decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv);
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
 
       let decrypted = decipher.update(encrypted, "hex", "utf8");
       decrypted += decipher.final("utf8");
 
       return decrypted;
     } catch (error) {
-      logger.error({ error }, "Decryption failed");
+      logger.error({ error, keyVersion: version }, "Decryption failed");
       throw new Error("Failed to decrypt sensitive data", { cause: error });
     }
   }
 
+  /**
+   * Key version a ciphertext was written under; null for values that are
+   * not ciphertexts (empty, or plain text stored before encryption).
+   */
+  static keyVersionOf(value: string): number | null {
+    if (!value || !value.includes(":")) return null;
+    const match = VERSION_PREFIX.exec(value);
+    return match ? Number(match[1]) : 1;
+  }
+
+  /** Re-encrypt a ciphertext under the current key; a no-op when it already is. */
+  static reencrypt(value: string): string {
+    const version = this.keyVersionOf(value);
+    if (version === null || version === this.keyVersion) return value;
+    return this.encrypt(this.decrypt(value));
+  }
+
   // Hash passwords (one-way)
   static hashPassword(password: string): string {
     return crypto.createHash("sha256").update(password).digest("hex");
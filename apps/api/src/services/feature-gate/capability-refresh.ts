@@ -17,8 +17,10 @@ import { RabbitMQClient } from "@/core/rabbitmq";
 import type { RabbitMQApiClient } from "@/core/rabbitmq/ApiClient";
 import { detectServerCapabilities } from "@/core/rabbitmq/capabilities";
 
+import { BROKER_TLS_SELECT, decryptBrokerTls } from "@/services/broker-tls";
 import { EncryptionService } from "@/services/encryption.service";
 import { trackEvent } from "@/services/posthog";
+import { serverPassword } from "@/services/secret-source";
 
 import type { CapabilitySnapshot } from "./capability-snapshot";
 import {
@@ -177,8 +179,10 @@ async function buildClientFromServerId(
       amqpPort: true,
       username: true,
       password: true,
+      passwordRef: true,
       vhost: true,
       useHttps: true,
+      ...BROKER_TLS_SELECT,
     },
   });
   if (!server) {
@@ -192,9 +196,10 @@ async function buildClientFromServerId(
       port: server.port,
       amqpPort: server.amqpPort,
       username: EncryptionService.decrypt(server.username),
-      password: EncryptionService.decrypt(server.password),
+      password: serverPassword(server),
       vhost: server.vhost,
       useHttps: server.useHttps,
+      tls: decryptBrokerTls(server),
     });
   } catch (error) {
     logger.error(
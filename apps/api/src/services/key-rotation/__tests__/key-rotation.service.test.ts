@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// vi.mock is hoisted; use vi.hoisted to share refs with the factory.
+const {
+  mockServerFindMany,
+  mockServerUpdateMany,
+  mockLlmFindMany,
+  mockLlmUpdateMany,
+  mockPagerDutyFindMany,
+  mockPagerDutyUpdateMany,
+} = vi.hoisted(() => ({
+  mockServerFindMany: vi.fn(),
+  mockServerUpdateMany: vi.fn(),
+  mockLlmFindMany: vi.fn(),
+  mockLlmUpdateMany: vi.fn(),
+  mockPagerDutyFindMany: vi.fn(),
+  mockPagerDutyUpdateMany: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    rabbitMQServer: {
+      findMany: mockServerFindMany,
+      updateMany: mockServerUpdateMany,
+    },
+    workspaceLlmConfig: {
+      findMany: mockLlmFindMany,
+      updateMany: mockLlmUpdateMany,
+    },
+    pagerDutyConfig: {
+      findMany: mockPagerDutyFindMany,
+      updateMany: mockPagerDutyUpdateMany,
+    },
+    opsgenieConfig: { findMany: vi.fn().mockResolvedValue([]) },
+    teamsConfig: { findMany: vi.fn().mockResolvedValue([]) },
+    webhook: { findMany: vi.fn().mockResolvedValue([]) },
+    auditSink: { findMany: vi.fn().mockResolvedValue([]) },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("@/services/encryption.service", () => ({
+  EncryptionService: {
+    keyVersion: 2,
+    reencrypt: (value: string) => {
+      if (value.startsWith("v9:")) {
+        throw new Error("No encryption key configured for version 9");
+      }
+      return value.replace(/^v1:/, "v2:");
+    },
+  },
+}));
+
+import { rotateEncryptionKeys } from "../key-rotation.service";
+
+function serverRow(id: string, password = `v1:${id}-password`) {
+  return {
+    id,
+    username: `v1:${id}-user`,
+    password,
+    tlsCaBundle: null,
+    tlsClientCert: null,
+    tlsClientKey: null,
+  };
+}
+
+describe("rotateEncryptionKeys", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLlmFindMany.mockResolvedValue([]);
+    mockPagerDutyFindMany.mockResolvedValue([]);
+    mockServerUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("walks the rows in batches and swaps each one under its old ciphertexts", async () => {
+    mockServerFindMany
+      .mockResolvedValueOnce([serverRow("a"), serverRow("b")])
+      .mockResolvedValueOnce([serverRow("c")])
+      .mockResolvedValueOnce([]);
+
+    const [servers] = await rotateEncryptionKeys({ batchSize: 2 });
+
+    expect(servers).toEqual({
+      table: "RabbitMQServer",
+      rotated: 3,
+      conflicts: 0,
+      failures: [],
+    });
+    expect(mockServerFindMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        where: { encryptionKeyVersion: { not: 2 }, id: { gt: "b" } },
+        take: 2,
+      })
+    );
+    expect(mockServerUpdateMany).toHaveBeenCalledWith({
+      where: serverRow("a"),
+      data: {
+        username: "v2:a-user",
+        password: "v2:a-password",
+        tlsCaBundle: null,
+        tlsClientCert: null,
+        tlsClientKey: null,
+        encryptionKeyVersion: 2,
+      },
+    });
+  });
+
+  it("counts rows edited meanwhile and rows it cannot decrypt, then carries on", async () => {
+    mockServerFindMany
+      .mockResolvedValueOnce([
+        serverRow("a"),
+        serverRow("b", "v9:lost"),
+        serverRow("c"),
+      ])
+      .mockResolvedValueOnce([]);
+    mockServerUpdateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    const [servers] = await rotateEncryptionKeys({ batchSize: 10 });
+
+    expect(servers.rotated).toBe(1);
+    expect(servers.conflicts).toBe(1);
+    expect(servers.failures).toEqual([
+      { id: "b", error: "No encryption key configured for version 9" },
+    ]);
+  });
+
+  it("rotates the LLM API keys by workspace", async () => {
+    mockServerFindMany.mockResolvedValue([]);
+    mockLlmFindMany
+      .mockResolvedValueOnce([{ workspaceId: "ws-1", apiKeyEnc: "v1:key" }])
+      .mockResolvedValueOnce([]);
+    mockLlmUpdateMany.mockResolvedValue({ count: 1 });
+
+    const [, llm] = await rotateEncryptionKeys({ batchSize: 10 });
+
+    expect(llm.rotated).toBe(1);
+    expect(mockLlmUpdateMany).toHaveBeenCalledWith({
+      where: { workspaceId: "ws-1", apiKeyEnc: "v1:key" },
+      data: { apiKeyEnc: "v2:key", encryptionKeyVersion: 2 },
+    });
+  });
+
+  it("rotates the alert channel secrets", async () => {
+    mockServerFindMany.mockResolvedValue([]);
+    mockPagerDutyFindMany
+      .mockResolvedValueOnce([{ id: "pd-1", routingKey: "v1:routing" }])
+      .mockResolvedValueOnce([]);
+    mockPagerDutyUpdateMany.mockResolvedValue({ count: 1 });
+
+    const results = await rotateEncryptionKeys({ batchSize: 10 });
+
+    expect(results.map((r) => r.table)).toEqual([
+      "RabbitMQServer",
+      "WorkspaceLlmConfig",
+      "PagerDutyConfig",
+      "OpsgenieConfig",
+      "TeamsConfig",
+      "Webhook",
+      "AuditSink",
+    ]);
+    expect(mockPagerDutyUpdateMany).toHaveBeenCalledWith({
+      where: { id: "pd-1", routingKey: "v1:routing" },
+      data: { routingKey: "v2:routing", encryptionKeyVersion: 2 },
+    });
+  });
+
+  it("writes nothing in a dry run", async () => {
+    mockServerFindMany
+      .mockResolvedValueOnce([serverRow("a")])
+      .mockResolvedValueOnce([]);
+
+    const [servers] = await rotateEncryptionKeys({
+      batchSize: 10,
+      dryRun: true,
+    });
+
+    expect(servers.rotated).toBe(1);
+    expect(mockServerUpdateMany).not.toHaveBeenCalled();
+  });
+});
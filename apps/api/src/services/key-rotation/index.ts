@@ -0,0 +1,11 @@
+/**
+ * Re-encryption of every encrypted column under the current key — the
+ * service behind `qarote rotate-encryption-key`.
+ */
+
+export type {
+  KeyRotationFailure,
+  KeyRotationOptions,
+  TableRotationResult,
+} from "./key-rotation.service";
+export { rotateEncryptionKeys } from "./key-rotation.service";
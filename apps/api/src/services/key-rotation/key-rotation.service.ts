@@ -0,0 +1,323 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-encrypts every encrypted column under the current `ENCRYPTION_KEY`
+ * once an operator has bumped `ENCRYPTION_KEY_VERSION` and moved the old
+ * key to `ENCRYPTION_PREVIOUS_KEYS`. Backs `qarote rotate-encryption-key`.
+ *
+ * Each table tracks the key version of its rows in `encryptionKeyVersion`.
+ * A run walks the rows below the current version in id order, a batch at a
+ * time, and swaps each row with a compare-and-swap on its old ciphertexts —
+ * a row edited meanwhile is left for the next run rather than overwritten.
+ * The version column is the resume point: an interrupted run is simply
+ * started again.
+ */
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+type SecretValues = Record<string, string | null>;
+
+interface EncryptedRow<V extends SecretValues> {
+  id: string;
+  values: V;
+}
+
+interface EncryptedTable<V extends SecretValues> {
+  name: string;
+  /** Rows not on `version`, after `after` in id order. */
+  findBatch(
+    version: number,
+    after: string | null,
+    take: number
+  ): Promise<EncryptedRow<V>[]>;
+  /** Compare-and-swap: false when the row changed since it was read. */
+  swap(row: EncryptedRow<V>, next: V, version: number): Promise<boolean>;
+}
+
+const serverTable: EncryptedTable<{
+  username: string;
+  password: string;
+  tlsCaBundle: string | null;
+  tlsClientCert: string | null;
+  tlsClientKey: string | null;
+}> = {
+  name: "RabbitMQServer",
+  async findBatch(version, after, take) {
+    const rows = await prisma.rabbitMQServer.findMany({
+      where: {
+        encryptionKeyVersion: { not: version },
+        ...(after && { id: { gt: after } }),
+      },
+      orderBy: { id: "asc" },
+      take,
+      select: {
+        id: true,
+        username: true,
+        password: true,
+        tlsCaBundle: true,
+        tlsClientCert: true,
+        tlsClientKey: true,
+      },
+    });
+    return rows.map(({ id, ...values }) => ({ id, values }));
+  },
+  async swap(row, next, version) {
+    const { count } = await prisma.rabbitMQServer.updateMany({
+      where: { id: row.id, ...row.values },
+      data: { ...next, encryptionKeyVersion: version },
+    });
+    return count === 1;
+  },
+};
+
+const llmConfigTable: EncryptedTable<{ apiKeyEnc: string | null }> = {
+  name: "WorkspaceLlmConfig",
+  async findBatch(version, after, take) {
+    const rows = await prisma.workspaceLlmConfig.findMany({
+      where: {
+        encryptionKeyVersion: { not: version },
+        ...(after && { workspaceId: { gt: after } }),
+      },
+      orderBy: { workspaceId: "asc" },
+      take,
+      select: { workspaceId: true, apiKeyEnc: true },
+    });
+    return rows.map(({ workspaceId, apiKeyEnc }) => ({
+      id: workspaceId,
+      values: { apiKeyEnc },
+    }));
+  },
+  async swap(row, next, version) {
+    const { count } = await prisma.workspaceLlmConfig.updateMany({
+      where: { workspaceId: row.id, ...row.values },
+      data: { ...next, encryptionKeyVersion: version },
+    });
+    return count === 1;
+  },
+};
+
+/**
+ * Alert channel configs keep one encrypted column each; the helper only
+ * needs the queries, which stay typed per model at the call site.
+ */
+function channelConfigTable<C extends string>(
+  name: string,
+  column: C,
+  queries: {
+    findMany(
+      where: { encryptionKeyVersion: { not: number }; id?: { gt: string } },
+      take: number
+    ): Promise<({ id: string } & Record<C, string>)[]>;
+    updateMany(
+      where: { id: string } & Record<C, string>,
+      data: Record<C, string> & { encryptionKeyVersion: number }
+    ): Promise<{ count: number }>;
+  }
+): EncryptedTable<Record<C, string>> {
+  return {
+    name,
+    async findBatch(version, after, take) {
+      const rows = await queries.findMany(
+        {
+          encryptionKeyVersion: { not: version },
+          ...(after && { id: { gt: after } }),
+        },
+        take
+      );
+      return rows.map((row) => {
+        const values = {} as Record<C, string>;
+        values[column] = row[column];
+        return { id: row.id, values };
+      });
+    },
+    async swap(row, next, version) {
+      const { count } = await queries.updateMany(
+        { id: row.id, ...row.values },
+        { ...next, encryptionKeyVersion: version }
+      );
+      return count === 1;
+    },
+  };
+}
+
+const pagerDutyTable = channelConfigTable("PagerDutyConfig", "routingKey", {
+  findMany: (where, take) =>
+    prisma.pagerDutyConfig.findMany({
+      where,
+      orderBy: { id: "asc" },
+      take,
+      select: { id: true, routingKey: true },
+    }),
+  updateMany: (where, data) =>
+    prisma.pagerDutyConfig.updateMany({ where, data }),
+});
+
+const opsgenieTable = channelConfigTable("OpsgenieConfig", "apiKey", {
+  findMany: (where, take) =>
+    prisma.opsgenieConfig.findMany({
+      where,
+      orderBy: { id: "asc" },
+      take,
+      select: { id: true, apiKey: true },
+    }),
+  updateMany: (where, data) =>
+    prisma.opsgenieConfig.updateMany({ where, data }),
+});
+
+const teamsTable = channelConfigTable("TeamsConfig", "webhookUrl", {
+  findMany: (where, take) =>
+    prisma.teamsConfig.findMany({
+      where,
+      orderBy: { id: "asc" },
+      take,
+      select: { id: true, webhookUrl: true },
+    }),
+  updateMany: (where, data) => prisma.teamsConfig.updateMany({ where, data }),
+});
+
+const webhookTable: EncryptedTable<{
+  secret: string | null;
+  previousSecret: string | null;
+}> = {
+  name: "Webhook",
+  async findBatch(version, after, take) {
+    const rows = await prisma.webhook.findMany({
+      where: {
+        encryptionKeyVersion: { not: version },
+        ...(after && { id: { gt: after } }),
+      },
+      orderBy: { id: "asc" },
+      take,
+      select: { id: true, secret: true, previousSecret: true },
+    });
+    return rows.map(({ id, ...values }) => ({ id, values }));
+  },
+  async swap(row, next, version) {
+    const { count } = await prisma.webhook.updateMany({
+      where: { id: row.id, ...row.values },
+      data: { ...next, encryptionKeyVersion: version },
+    });
+    return count === 1;
+  },
+};
+
+const auditSinkTable: EncryptedTable<{ secret: string | null }> = {
+  name: "AuditSink",
+  async findBatch(version, after, take) {
+    const rows = await prisma.auditSink.findMany({
+      where: {
+        encryptionKeyVersion: { not: version },
+        ...(after && { id: { gt: after } }),
+      },
+      orderBy: { id: "asc" },
+      take,
+      select: { id: true, secret: true },
+    });
+    return rows.map(({ id, ...values }) => ({ id, values }));
+  },
+  async swap(row, next, version) {
+    const { count } = await prisma.auditSink.updateMany({
+      where: { id: row.id, ...row.values },
+      data: { ...next, encryptionKeyVersion: version },
+    });
+    return count === 1;
+  },
+};
+
+export interface KeyRotationFailure {
+  id: string;
+  error: string;
+}
+
+export interface TableRotationResult {
+  table: string;
+  /** Rows re-encrypted (or, in a dry run, that would be). */
+  rotated: number;
+  /** Rows that changed while being rotated; the next run picks them up. */
+  conflicts: number;
+  failures: KeyRotationFailure[];
+}
+
+export interface KeyRotationOptions {
+  batchSize: number;
+  /** Decrypt every pending secret but write nothing. */
+  dryRun?: boolean;
+  onBatch?: (progress: TableRotationResult) => void;
+}
+
+function reencryptValues<V extends SecretValues>(values: V): V {
+  const next: SecretValues = {};
+  for (const [column, value] of Object.entries(values)) {
+    next[column] = value ? EncryptionService.reencrypt(value) : value;
+  }
+  return next as V;
+}
+
+async function rotateTable<V extends SecretValues>(
+  table: EncryptedTable<V>,
+  options: KeyRotationOptions
+): Promise<TableRotationResult> {
+  const version = EncryptionService.keyVersion;
+  const result: TableRotationResult = {
+    table: table.name,
+    rotated: 0,
+    conflicts: 0,
+    failures: [],
+  };
+
+  let after: string | null = null;
+  for (;;) {
+    const rows = await table.findBatch(version, after, options.batchSize);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      try {
+        const next = reencryptValues(row.values);
+        if (options.dryRun || (await table.swap(row, next, version))) {
+          result.rotated++;
+        } else {
+          result.conflicts++;
+        }
+      } catch (error) {
+        result.failures.push({
+          id: row.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    after = rows[rows.length - 1].id;
+    options.onBatch?.({ ...result });
+  }
+
+  logger.info(
+    {
+      table: table.name,
+      keyVersion: version,
+      rotated: result.rotated,
+      conflicts: result.conflicts,
+      failed: result.failures.length,
+      dryRun: !!options.dryRun,
+    },
+    "Encryption key rotation finished for table"
+  );
+  return result;
+}
+
+/** Re-encrypt every table's secrets under the current key version. */
+export async function rotateEncryptionKeys(
+  options: KeyRotationOptions
+): Promise<TableRotationResult[]> {
+  return [
+    await rotateTable(serverTable, options),
+    await rotateTable(llmConfigTable, options),
+    await rotateTable(pagerDutyTable, options),
+    await rotateTable(opsgenieTable, options),
+    await rotateTable(teamsTable, options),
+    await rotateTable(webhookTable, options),
+    await rotateTable(auditSinkTable, options),
+  ];
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { renderOpenMetrics } from "../openmetrics";
+
+describe("renderOpenMetrics", () => {
+  it("emits metadata, labelled samples and the EOF terminator", () => {
+    const text = renderOpenMetrics([
+      {
+        name: "qarote_queue_messages",
+        type: "gauge",
+        help: "Messages in the queue.",
+        samples: [
+          { labels: { vhost: "/", queue: "orders" }, value: 42n },
+          { labels: { vhost: "/", queue: "audit" }, value: 0 },
+        ],
+      },
+    ]);
+
+    expect(text).toBe(
+      [
+        "# TYPE qarote_queue_messages gauge",
+        "# HELP qarote_queue_messages Messages in the queue.",
+        'qarote_queue_messages{vhost="/",queue="orders"} 42',
+        'qarote_queue_messages{vhost="/",queue="audit"} 0',
+        "# EOF",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("suffixes counter samples with _total and emits the unit line", () => {
+    const text = renderOpenMetrics([
+      {
+        name: "process_cpu_user_seconds",
+        type: "counter",
+        unit: "seconds",
+        help: "User CPU time.",
+        samples: [{ value: 1.5 }],
+      },
+    ]);
+
+    expect(text).toContain("# TYPE process_cpu_user_seconds counter");
+    expect(text).toContain("# UNIT process_cpu_user_seconds seconds");
+    expect(text).toContain("process_cpu_user_seconds_total 1.5");
+  });
+
+  it("escapes quotes, backslashes and newlines in label values", () => {
+    const text = renderOpenMetrics([
+      {
+        name: "m",
+        type: "gauge",
+        help: "line one\nline two",
+        samples: [{ labels: { queue: 'a"b\\c\nd' }, value: 1 }],
+      },
+    ]);
+
+    expect(text).toContain("# HELP m line one\\nline two");
+    expect(text).toContain('m{queue="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it("keeps metadata for families without samples", () => {
+    const text = renderOpenMetrics([
+      { name: "qarote_incidents_open", type: "gauge", help: "h", samples: [] },
+    ]);
+
+    expect(text).toBe(
+      "# TYPE qarote_incidents_open gauge\n# HELP qarote_incidents_open h\n# EOF\n"
+    );
+  });
+
+  it("renders non-finite values in OpenMetrics spelling", () => {
+    const text = renderOpenMetrics([
+      {
+        name: "m",
+        type: "gauge",
+        help: "h",
+        samples: [
+          { labels: { k: "a" }, value: NaN },
+          { labels: { k: "b" }, value: Infinity },
+        ],
+      },
+    ]);
+
+    expect(text).toContain('m{k="a"} NaN');
+    expect(text).toContain('m{k="b"} +Inf');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * The `/metrics` collector is the only thing standing between a workspace
+ * API key and broker data, so these tests pin the tenancy boundary (every
+ * workspace-owned query is filtered by the key's workspace, the shared
+ * outbox only shows up on self-hosted instances) and that one failing
+ * server degrades the scrape instead of failing it.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockServerFindMany,
+  mockIncidentGroupBy,
+  mockOutboxGroupBy,
+  mockOutboxFindFirst,
+  mockGetQueueRateSeries,
+  mockIsSelfHostedMode,
+} = vi.hoisted(() => ({
+  mockServerFindMany: vi.fn(),
+  mockIncidentGroupBy: vi.fn(),
+  mockOutboxGroupBy: vi.fn(),
+  mockOutboxFindFirst: vi.fn(),
+  mockGetQueueRateSeries: vi.fn(),
+  mockIsSelfHostedMode: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    rabbitMQServer: { findMany: mockServerFindMany },
+    incidentDiagnosisRecord: { groupBy: mockIncidentGroupBy },
+    notificationOutbox: {
+      groupBy: mockOutboxGroupBy,
+      findFirst: mockOutboxFindFirst,
+    },
+  },
+}));
+
+vi.mock("@/config/deployment", () => ({
+  isSelfHostedMode: mockIsSelfHostedMode,
+}));
+
+vi.mock("@/stores/metrics", () => ({
+  metricsStore: { getQueueRateSeries: mockGetQueueRateSeries },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { collectWorkspaceMetrics } from "../workspace-metrics";
+
+const NOW = new Date("2026-10-01T12:00:00Z");
+
+function sample(
+  queueName: string,
+  minutesAgo: number,
+  messages: bigint
+): Record<string, unknown> {
+  return {
+    queueName,
+    vhost: "/",
+    timestamp: new Date(NOW.getTime() - minutesAgo * 60_000),
+    publishRate: 2.5,
+    consumeRate: 1,
+    messages,
+    messagesReady: messages,
+    messagesUnack: 0n,
+    consumerCount: 1,
+  };
+}
+
+function family(families: { name: string }[], name: string) {
+  const found = families.find((f) => f.name === name);
+  if (!found) throw new Error(`missing family ${name}`);
+  return found as {
+    name: string;
+    samples: { labels?: object; value: unknown }[];
+  };
+}
+
+describe("collectWorkspaceMetrics", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockServerFindMany.mockResolvedValue([
+      {
+        id: "srv-1",
+        name: "prod",
+        lastPolledAt: new Date(NOW.getTime() - 30_000),
+      },
+      { id: "srv-2", name: "staging", lastPolledAt: null },
+    ]);
+    mockIncidentGroupBy.mockResolvedValue([
+      { serverId: "srv-1", severity: "CRITICAL", _count: { _all: 2 } },
+    ]);
+    mockOutboxGroupBy.mockResolvedValue([
+      { channel: "slack", status: "FAILED", _count: { _all: 3 } },
+    ]);
+    mockOutboxFindFirst.mockResolvedValue({
+      createdAt: new Date(NOW.getTime() - 120_000),
+    });
+    mockGetQueueRateSeries.mockResolvedValue([]);
+    mockIsSelfHostedMode.mockReturnValue(true);
+  });
+
+  it("scopes server, incident and queue queries to the key's workspace", async () => {
+    await collectWorkspaceMetrics("ws-1", NOW);
+
+    expect(mockServerFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { workspaceId: "ws-1" } })
+    );
+    expect(mockIncidentGroupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { workspaceId: "ws-1", resolvedAt: null },
+      })
+    );
+    for (const [query] of mockGetQueueRateSeries.mock.calls) {
+      expect(query.workspaceId).toBe("ws-1");
+    }
+    expect(mockGetQueueRateSeries).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports only the latest bucket per queue", async () => {
+    mockGetQueueRateSeries.mockImplementation(async ({ serverId }) =>
+      serverId === "srv-1"
+        ? [sample("orders", 4, 10n), sample("orders", 2, 25n)]
+        : []
+    );
+
+    const families = await collectWorkspaceMetrics("ws-1", NOW);
+
+    expect(family(families, "qarote_queue_messages").samples).toEqual([
+      {
+        labels: {
+          server_id: "srv-1",
+          server: "prod",
+          vhost: "/",
+          queue: "orders",
+        },
+        value: 25n,
+      },
+    ]);
+  });
+
+  it("derives poll lag from lastPolledAt and skips never-polled servers", async () => {
+    const families = await collectWorkspaceMetrics("ws-1", NOW);
+
+    expect(family(families, "qarote_server_poll_lag_seconds").samples).toEqual([
+      { labels: { server_id: "srv-1", server: "prod" }, value: 30 },
+    ]);
+  });
+
+  it("maps incident and outbox counts", async () => {
+    const families = await collectWorkspaceMetrics("ws-1", NOW);
+
+    expect(family(families, "qarote_incidents_open").samples).toEqual([
+      {
+        labels: { server_id: "srv-1", server: "prod", severity: "CRITICAL" },
+        value: 2,
+      },
+    ]);
+    expect(family(families, "qarote_notification_outbox_rows").samples).toEqual(
+      [{ labels: { channel: "slack", status: "FAILED" }, value: 3 }]
+    );
+    expect(
+      family(families, "qarote_notification_outbox_oldest_pending_age_seconds")
+        .samples
+    ).toEqual([{ value: 120 }]);
+  });
+
+  it("leaves the instance-wide outbox out of cloud scrapes", async () => {
+    mockIsSelfHostedMode.mockReturnValue(false);
+
+    const families = await collectWorkspaceMetrics("ws-1", NOW);
+
+    expect(mockOutboxGroupBy).not.toHaveBeenCalled();
+    expect(mockOutboxFindFirst).not.toHaveBeenCalled();
+    expect(
+      families.some((f) => f.name.startsWith("qarote_notification_outbox"))
+    ).toBe(false);
+  });
+
+  it("degrades to a collector failure when one server's series query throws", async () => {
+    mockGetQueueRateSeries.mockImplementation(async ({ serverId }) => {
+      if (serverId === "srv-2") throw new Error("timescale down");
+      return [sample("orders", 2, 5n)];
+    });
+
+    const families = await collectWorkspaceMetrics("ws-1", NOW);
+
+    expect(family(families, "qarote_queue_messages").samples).toHaveLength(1);
+    expect(family(families, "qarote_scrape_collector_success").samples).toEqual(
+      [{ labels: { collector: "queues" }, value: 0 }]
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Minimal OpenMetrics 1.0 text encoder for the `/metrics` scrape endpoint.
+ *
+ * Only the subset we emit: gauge and counter families with labelled samples.
+ * Kept dependency-free and pure so the exposition format is unit-testable
+ * without a database.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+export type MetricType = "gauge" | "counter";
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number | bigint;
+}
+
+export interface MetricFamily {
+  /** Family name. Counters are named without `_total`; it is appended here. */
+  name: string;
+  type: MetricType;
+  help: string;
+  /** Optional OpenMetrics unit; the family name must end with `_<unit>`. */
+  unit?: string;
+  samples: MetricSample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number | bigint): string {
+  if (typeof value === "bigint") return value.toString();
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function formatLabels(labels: MetricLabels | undefined): string {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+/**
+ * Render metric families to OpenMetrics text, terminated by `# EOF`. Families
+ * with no samples still emit their metadata so dashboards can tell "zero
+ * series" apart from "metric missing".
+ */
+export function renderOpenMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.unit) lines.push(`# UNIT ${family.name} ${family.unit}`);
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+
+    const sampleName =
+      family.type === "counter" ? `${family.name}_total` : family.name;
+    for (const sample of family.samples) {
+      lines.push(
+        `${sampleName}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+      );
+    }
+  }
+
+  lines.push("# EOF");
+  return `${lines.join("\n")}\n`;
+}
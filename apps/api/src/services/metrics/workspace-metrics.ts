@@ -0,0 +1,314 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { metricsConfig } from "@/config";
+import { isSelfHostedMode } from "@/config/deployment";
+
+import type { MetricFamily, MetricSample } from "./openmetrics";
+
+import { metricsStore, type QueueRateSample } from "@/stores/metrics";
+
+/**
+ * How far back to look for the latest queue sample. Wide enough that the
+ * raw rate buckets (which need >= 2 polls each) always have a closed bucket,
+ * without scanning more of the hypertable than a scrape needs.
+ */
+const QUEUE_LOOKBACK_MS = Math.max(
+  10 * 60 * 1000,
+  metricsConfig.pollIntervalMs * 4
+);
+
+/** Outbox statuses that represent work not yet delivered. */
+const OUTBOX_BACKLOG_STATUSES = ["PENDING", "FAILED"];
+
+type ServerRow = { id: string; name: string; lastPolledAt: Date | null };
+
+function serverLabels(server: ServerRow) {
+  return { server_id: server.id, server: server.name };
+}
+
+/** Latest bucket per (vhost, queue) — the series is ordered by time. */
+function latestPerQueue(samples: QueueRateSample[]): QueueRateSample[] {
+  const latest = new Map<string, QueueRateSample>();
+  for (const sample of samples) {
+    latest.set(`${sample.vhost}\u0000${sample.queueName}`, sample);
+  }
+  return [...latest.values()];
+}
+
+async function collectQueueFamilies(
+  workspaceId: string,
+  servers: ServerRow[],
+  now: Date
+): Promise<{ families: MetricFamily[]; failedServers: number }> {
+  const depth: MetricSample[] = [];
+  const ready: MetricSample[] = [];
+  const unacked: MetricSample[] = [];
+  const consumers: MetricSample[] = [];
+  const publishRate: MetricSample[] = [];
+  const deliverRate: MetricSample[] = [];
+  let failedServers = 0;
+
+  const since = new Date(now.getTime() - QUEUE_LOOKBACK_MS);
+  const perServer = await Promise.all(
+    servers.map(async (server) => {
+      try {
+        const series = await metricsStore.getQueueRateSeries({
+          workspaceId,
+          serverId: server.id,
+          since,
+        });
+        return { server, samples: latestPerQueue(series) };
+      } catch (error) {
+        logger.warn(
+          { err: error, serverId: server.id },
+          "Metrics exposition: queue series query failed"
+        );
+        failedServers += 1;
+        return { server, samples: [] };
+      }
+    })
+  );
+
+  for (const { server, samples } of perServer) {
+    for (const sample of samples) {
+      const labels = {
+        ...serverLabels(server),
+        vhost: sample.vhost,
+        queue: sample.queueName,
+      };
+      depth.push({ labels, value: sample.messages });
+      ready.push({ labels, value: sample.messagesReady });
+      unacked.push({ labels, value: sample.messagesUnack });
+      consumers.push({ labels, value: sample.consumerCount });
+      publishRate.push({ labels, value: sample.publishRate });
+      deliverRate.push({ labels, value: sample.consumeRate });
+    }
+  }
+
+  return {
+    failedServers,
+    families: [
+      {
+        name: "qarote_queue_messages",
+        type: "gauge",
+        help: "Messages in the queue (ready + unacknowledged) at the latest poll.",
+        samples: depth,
+      },
+      {
+        name: "qarote_queue_messages_ready",
+        type: "gauge",
+        help: "Messages ready for delivery at the latest poll.",
+        samples: ready,
+      },
+      {
+        name: "qarote_queue_messages_unacked",
+        type: "gauge",
+        help: "Messages delivered but not yet acknowledged at the latest poll.",
+        samples: unacked,
+      },
+      {
+        name: "qarote_queue_consumers",
+        type: "gauge",
+        help: "Consumers attached to the queue at the latest poll.",
+        samples: consumers,
+      },
+      {
+        name: "qarote_queue_publish_rate",
+        type: "gauge",
+        help: "Publish rate in messages per second over the latest bucket.",
+        samples: publishRate,
+      },
+      {
+        name: "qarote_queue_deliver_rate",
+        type: "gauge",
+        help: "Deliver rate in messages per second over the latest bucket.",
+        samples: deliverRate,
+      },
+    ],
+  };
+}
+
+async function collectIncidentFamily(
+  workspaceId: string,
+  servers: ServerRow[]
+): Promise<MetricFamily> {
+  const rows = await prisma.incidentDiagnosisRecord.groupBy({
+    by: ["serverId", "severity"],
+    where: { workspaceId, resolvedAt: null },
+    _count: { _all: true },
+  });
+  const byId = new Map(servers.map((s) => [s.id, s]));
+
+  return {
+    name: "qarote_incidents_open",
+    type: "gauge",
+    help: "Unresolved incident diagnoses by server and severity.",
+    samples: rows.flatMap((row) => {
+      const server = byId.get(row.serverId);
+      if (!server) return [];
+      return [
+        {
+          labels: { ...serverLabels(server), severity: row.severity },
+          value: row._count._all,
+        },
+      ];
+    }),
+  };
+}
+
+/** Backlog of the notification outbox. Its rows carry no workspace. */
+async function collectOutboxFamilies(now: Date): Promise<MetricFamily[]> {
+  const [rows, oldestPending] = await Promise.all([
+    prisma.notificationOutbox.groupBy({
+      by: ["channel", "status"],
+      where: { status: { in: OUTBOX_BACKLOG_STATUSES } },
+      _count: { _all: true },
+    }),
+    prisma.notificationOutbox.findFirst({
+      where: { status: "PENDING" },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  return [
+    {
+      name: "qarote_notification_outbox_rows",
+      type: "gauge",
+      help: "Undelivered notification outbox rows by channel and status (PENDING backlog, FAILED after exhausting retries).",
+      samples: rows.map((row) => ({
+        labels: { channel: row.channel, status: row.status },
+        value: row._count._all,
+      })),
+    },
+    {
+      name: "qarote_notification_outbox_oldest_pending_age_seconds",
+      type: "gauge",
+      unit: "seconds",
+      help: "Age of the oldest PENDING outbox row; 0 when the backlog is empty.",
+      samples: [
+        {
+          value: oldestPending
+            ? (now.getTime() - oldestPending.createdAt.getTime()) / 1000
+            : 0,
+        },
+      ],
+    },
+  ];
+}
+
+function collectPollingFamily(servers: ServerRow[], now: Date): MetricFamily {
+  return {
+    name: "qarote_server_poll_lag_seconds",
+    type: "gauge",
+    unit: "seconds",
+    help: "Seconds since the server's queue metrics were last captured. Absent for servers that were never polled.",
+    samples: servers.flatMap((server) =>
+      server.lastPolledAt
+        ? [
+            {
+              labels: serverLabels(server),
+              value: (now.getTime() - server.lastPolledAt.getTime()) / 1000,
+            },
+          ]
+        : []
+    ),
+  };
+}
+
+function collectProcessFamilies(): MetricFamily[] {
+  const cpu = process.cpuUsage();
+  const memory = process.memoryUsage();
+
+  return [
+    {
+      name: "process_cpu_user_seconds",
+      type: "counter",
+      unit: "seconds",
+      help: "User CPU time spent by the API process.",
+      samples: [{ value: cpu.user / 1e6 }],
+    },
+    {
+      name: "process_cpu_system_seconds",
+      type: "counter",
+      unit: "seconds",
+      help: "System CPU time spent by the API process.",
+      samples: [{ value: cpu.system / 1e6 }],
+    },
+    {
+      name: "process_resident_memory_bytes",
+      type: "gauge",
+      unit: "bytes",
+      help: "Resident set size of the API process.",
+      samples: [{ value: memory.rss }],
+    },
+    {
+      name: "process_start_time_seconds",
+      type: "gauge",
+      unit: "seconds",
+      help: "Start time of the API process since the Unix epoch.",
+      samples: [{ value: Math.round(Date.now() / 1000 - process.uptime()) }],
+    },
+    {
+      name: "nodejs_heap_size_used_bytes",
+      type: "gauge",
+      unit: "bytes",
+      help: "V8 heap in use.",
+      samples: [{ value: memory.heapUsed }],
+    },
+    {
+      name: "nodejs_heap_size_total_bytes",
+      type: "gauge",
+      unit: "bytes",
+      help: "V8 heap allocated.",
+      samples: [{ value: memory.heapTotal }],
+    },
+  ];
+}
+
+/**
+ * Build every metric family for one workspace's `/metrics` scrape.
+ *
+ * Queue data comes from the MetricsStore (what the poller already captured),
+ * never from the brokers directly, so a scrape costs the brokers nothing. A
+ * failing per-server queue query drops that server's series and flips
+ * `qarote_scrape_collector_success{collector="queues"}` to 0 instead of
+ * failing the whole scrape.
+ */
+export async function collectWorkspaceMetrics(
+  workspaceId: string,
+  now: Date = new Date()
+): Promise<MetricFamily[]> {
+  const servers = await prisma.rabbitMQServer.findMany({
+    where: { workspaceId },
+    select: { id: true, name: true, lastPolledAt: true },
+    orderBy: { name: "asc" },
+  });
+
+  const [queues, incidents, outbox] = await Promise.all([
+    collectQueueFamilies(workspaceId, servers, now),
+    collectIncidentFamily(workspaceId, servers),
+    // A cloud workspace's key must not see other tenants' deliveries.
+    isSelfHostedMode() ? collectOutboxFamilies(now) : [],
+  ]);
+
+  return [
+    ...queues.families,
+    incidents,
+    ...outbox,
+    collectPollingFamily(servers, now),
+    {
+      name: "qarote_scrape_collector_success",
+      type: "gauge",
+      help: "Whether each collector returned data for every server (1) or not (0).",
+      samples: [
+        {
+          labels: { collector: "queues" },
+          value: queues.failedServers === 0 ? 1 : 0,
+        },
+      ],
+    },
+    ...collectProcessFamilies(),
+  ];
+}
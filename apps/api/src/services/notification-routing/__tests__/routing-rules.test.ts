@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  matchesRoutingRule,
+  passesWorkspaceFilters,
+  planEscalation,
+  quietHoursEnd,
+  type RoutableAlert,
+  type RoutingRuleMatchFields,
+  selectRoutingRules,
+} from "../routing-rules";
+
+const queueAlert: RoutableAlert = {
+  severity: "CRITICAL",
+  vhost: "/orders",
+  category: "queue",
+  sourceType: "queue",
+  sourceName: "orders.created.dlq",
+  environment: "Prod",
+};
+
+const anyAlert: RoutingRuleMatchFields = {
+  severities: null,
+  environments: null,
+  vhosts: null,
+  queuePattern: null,
+  categories: null,
+};
+
+describe("matchesRoutingRule", () => {
+  it("matches every alert when no field is set", () => {
+    expect(matchesRoutingRule(anyAlert, queueAlert)).toBe(true);
+  });
+
+  it("requires every set field to match", () => {
+    const rule = {
+      ...anyAlert,
+      severities: ["CRITICAL", "HIGH"],
+      environments: ["prod"],
+      vhosts: ["/orders"],
+      categories: ["queue"],
+      queuePattern: "\\.dlq$",
+    };
+    expect(matchesRoutingRule(rule, queueAlert)).toBe(true);
+    expect(matchesRoutingRule(rule, { ...queueAlert, severity: "LOW" })).toBe(
+      false
+    );
+    expect(
+      matchesRoutingRule(rule, { ...queueAlert, sourceName: "orders.created" })
+    ).toBe(false);
+  });
+
+  it("compares environments case-insensitively and needs one to be set", () => {
+    const rule = { ...anyAlert, environments: ["PROD"] };
+    expect(matchesRoutingRule(rule, queueAlert)).toBe(true);
+    expect(matchesRoutingRule(rule, { ...queueAlert, environment: null })).toBe(
+      false
+    );
+  });
+
+  it("only tests the queue pattern against queue alerts", () => {
+    const rule = { ...anyAlert, queuePattern: "node" };
+    expect(
+      matchesRoutingRule(rule, {
+        ...queueAlert,
+        sourceType: "node",
+        sourceName: "rabbit@node-1",
+      })
+    ).toBe(false);
+  });
+
+  it("matches nothing with a pattern that does not compile", () => {
+    expect(
+      matchesRoutingRule({ ...anyAlert, queuePattern: "(" }, queueAlert)
+    ).toBe(false);
+  });
+});
+
+describe("selectRoutingRules", () => {
+  const rule = (id: string, fields: Partial<RoutingRuleMatchFields> = {}) => ({
+    id,
+    ...anyAlert,
+    ...fields,
+    continueMatching: false,
+  });
+
+  it("stops at the first matching rule", () => {
+    const rules = [
+      rule("low", { severities: ["LOW"] }),
+      rule("critical", { severities: ["CRITICAL"] }),
+      rule("catch-all"),
+    ];
+    expect(selectRoutingRules(rules, queueAlert).map((r) => r.id)).toEqual([
+      "critical",
+    ]);
+  });
+
+  it("carries on past a rule with continueMatching", () => {
+    const rules = [
+      { ...rule("audit"), continueMatching: true },
+      rule("critical", { severities: ["CRITICAL"] }),
+      rule("catch-all"),
+    ];
+    expect(selectRoutingRules(rules, queueAlert).map((r) => r.id)).toEqual([
+      "audit",
+      "critical",
+    ]);
+  });
+});
+
+describe("passesWorkspaceFilters", () => {
+  const alert = { severity: "CRITICAL" as const, serverId: "server-1" };
+
+  it("lets everything through when no filter is set", () => {
+    for (const empty of [null, []]) {
+      expect(
+        passesWorkspaceFilters(
+          { notificationSeverities: empty, notificationServerIds: empty },
+          alert
+        )
+      ).toBe(true);
+    }
+  });
+
+  it("filters on severities and servers", () => {
+    expect(
+      passesWorkspaceFilters(
+        { notificationSeverities: ["HIGH"], notificationServerIds: null },
+        alert
+      )
+    ).toBe(false);
+    expect(
+      passesWorkspaceFilters(
+        {
+          notificationSeverities: ["CRITICAL"],
+          notificationServerIds: ["server-2"],
+        },
+        alert
+      )
+    ).toBe(false);
+  });
+
+  it("does not apply the server filter to alerts without a server", () => {
+    expect(
+      passesWorkspaceFilters(
+        { notificationSeverities: null, notificationServerIds: ["server-2"] },
+        { ...alert, serverId: null }
+      )
+    ).toBe(true);
+  });
+});
+
+describe("quietHoursEnd", () => {
+  const night = { start: "22:00", end: "07:00", timezone: "UTC" };
+
+  it("returns the end of a window that wraps past midnight", () => {
+    expect(quietHoursEnd(new Date("2026-10-19T23:30:00Z"), night)).toEqual(
+      new Date("2026-10-20T07:00:00Z")
+    );
+    expect(quietHoursEnd(new Date("2026-10-20T03:10:20Z"), night)).toEqual(
+      new Date("2026-10-20T07:00:00Z")
+    );
+  });
+
+  it("returns null outside the window", () => {
+    expect(quietHoursEnd(new Date("2026-10-19T07:00:00Z"), night)).toBeNull();
+    expect(quietHoursEnd(new Date("2026-10-19T12:00:00Z"), night)).toBeNull();
+  });
+
+  it("reads the window in the rule's time zone", () => {
+    // 20:30 UTC is 22:30 in Paris (CEST) — inside 22:00-07:00 local
+    const end = quietHoursEnd(new Date("2026-10-19T20:30:00Z"), {
+      ...night,
+      timezone: "Europe/Paris",
+    });
+    expect(end).toEqual(new Date("2026-10-20T05:00:00Z"));
+  });
+});
+
+describe("planEscalation", () => {
+  const teamA = [{ channel: "pagerduty" as const, configId: "pd-a" }];
+  const teamB = [{ channel: "opsgenie" as const, configId: "og-b" }];
+
+  it("counts each delay from the previous step", () => {
+    const firedAt = new Date("2026-10-19T10:00:00Z");
+    const plan = planEscalation(
+      [
+        { delayMinutes: 0, targets: teamA },
+        { delayMinutes: 15, targets: teamB },
+        { delayMinutes: 30, targets: teamA },
+      ],
+      firedAt,
+      null
+    );
+    expect(plan.map((step) => step.dueAt.toISOString())).toEqual([
+      "2026-10-19T10:00:00.000Z",
+      "2026-10-19T10:15:00.000Z",
+      "2026-10-19T10:45:00.000Z",
+    ]);
+  });
+
+  it("holds a step that falls in quiet hours and shifts the rest", () => {
+    const plan = planEscalation(
+      [
+        { delayMinutes: 0, targets: teamA },
+        { delayMinutes: 15, targets: teamB },
+      ],
+      new Date("2026-10-19T21:50:00Z"),
+      { start: "22:00", end: "07:00", timezone: "UTC" }
+    );
+    expect(plan).toEqual([
+      { step: 0, dueAt: new Date("2026-10-19T21:50:00Z"), targets: teamA },
+      { step: 1, dueAt: new Date("2026-10-20T07:00:00Z"), targets: teamB },
+    ]);
+  });
+});
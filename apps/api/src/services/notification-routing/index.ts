@@ -0,0 +1,2 @@
+export * from "./routing-configs";
+export * from "./routing-rules";
@@ -0,0 +1,436 @@
+import { CodedError } from "@/core/coded-error";
+import { prisma } from "@/core/prisma";
+
+import {
+  type EscalationStep,
+  escalationStepsOf,
+  type EscalationTarget,
+  type QuietHours,
+  quietHoursOf,
+} from "./routing-rules";
+
+import {
+  AlertSeverity,
+  type NotificationRoutingRule,
+  Prisma,
+} from "@/generated/prisma/client";
+
+/**
+ * Routing rules and escalation policies of a workspace. Rules are kept in
+ * `position` order; a policy cannot be deleted while a rule points at it.
+ * Policy targets are checked against the workspace's channel configs,
+ * webhooks and member addresses when saved — one removed later is skipped
+ * at enqueue time.
+ */
+
+export type NotificationRoutingErrorCode =
+  | "routingRuleNotFound"
+  | "routingRuleOrderMismatch"
+  | "escalationPolicyNotFound"
+  | "escalationPolicyInUse"
+  | "escalationTargetNotFound";
+
+export class NotificationRoutingError extends CodedError<NotificationRoutingErrorCode> {}
+
+interface RoutingRuleFields {
+  name: string;
+  enabled: boolean;
+  /** Null match fields match every alert. */
+  severities: AlertSeverity[] | null;
+  environments: string[] | null;
+  vhosts: string[] | null;
+  queuePattern: string | null;
+  categories: string[] | null;
+  escalationPolicyId: string;
+  continueMatching: boolean;
+  quietHours: QuietHours | null;
+}
+
+export type RoutingRuleInput = RoutingRuleFields;
+
+/** Omitted fields are kept. */
+export type RoutingRuleUpdate = { id: string } & Partial<RoutingRuleFields>;
+
+export interface RoutingRuleSummary extends RoutingRuleFields {
+  id: string;
+  position: number;
+  escalationPolicyName: string;
+  createdAt: string;
+}
+
+/** Something a policy step can notify. */
+export interface RoutingTargetSummary extends EscalationTarget {
+  /** Config name, URL, or the address for email. */
+  name: string;
+  enabled: boolean;
+}
+
+export interface EscalationPolicyInput {
+  name: string;
+  description: string | null;
+  steps: EscalationStep[];
+}
+
+export type EscalationPolicyUpdate = {
+  id: string;
+} & Partial<EscalationPolicyInput>;
+
+export interface EscalationPolicySummary extends EscalationPolicyInput {
+  id: string;
+  /** Rules routing to this policy. */
+  ruleCount: number;
+  createdAt: string;
+}
+
+function listOf<T extends string>(value: Prisma.JsonValue | null): T[] | null {
+  return Array.isArray(value) ? (value as T[]) : null;
+}
+
+function listData(
+  list: string[] | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+  if (list === undefined) return undefined;
+  return list === null || list.length === 0 ? Prisma.DbNull : list;
+}
+
+function quietHoursData(quietHours: QuietHours | null | undefined) {
+  if (quietHours === undefined) return {};
+  return {
+    quietHoursStart: quietHours?.start ?? null,
+    quietHoursEnd: quietHours?.end ?? null,
+    quietHoursTimezone: quietHours?.timezone ?? null,
+  };
+}
+
+function ruleData(input: Partial<RoutingRuleFields>) {
+  return {
+    name: input.name,
+    enabled: input.enabled,
+    severities: listData(input.severities),
+    environments: listData(input.environments),
+    vhosts: listData(input.vhosts),
+    queuePattern: input.queuePattern,
+    categories: listData(input.categories),
+    escalationPolicyId: input.escalationPolicyId,
+    continueMatching: input.continueMatching,
+    ...quietHoursData(input.quietHours),
+  };
+}
+
+function toRuleSummary(
+  rule: NotificationRoutingRule & { escalationPolicy: { name: string } }
+): RoutingRuleSummary {
+  return {
+    id: rule.id,
+    name: rule.name,
+    position: rule.position,
+    enabled: rule.enabled,
+    severities: listOf<AlertSeverity>(rule.severities),
+    environments: listOf(rule.environments),
+    vhosts: listOf(rule.vhosts),
+    queuePattern: rule.queuePattern,
+    categories: listOf(rule.categories),
+    escalationPolicyId: rule.escalationPolicyId,
+    escalationPolicyName: rule.escalationPolicy.name,
+    continueMatching: rule.continueMatching,
+    quietHours: quietHoursOf(rule),
+    createdAt: rule.createdAt.toISOString(),
+  };
+}
+
+async function assertPolicyInWorkspace(
+  workspaceId: string,
+  escalationPolicyId: string
+): Promise<void> {
+  const policy = await prisma.escalationPolicy.findFirst({
+    where: { id: escalationPolicyId, workspaceId },
+    select: { id: true },
+  });
+  if (!policy) {
+    throw new NotificationRoutingError(
+      "escalationPolicyNotFound",
+      `Escalation policy ${escalationPolicyId} not found`
+    );
+  }
+}
+
+function configTarget(row: { id: string; name: string; enabled: boolean }) {
+  return { configId: row.id, name: row.name, enabled: row.enabled };
+}
+
+/**
+ * Every target a policy step can pick in the workspace: incident and Slack
+ * configs, webhooks, and the addresses of the contact email and members.
+ */
+export async function listRoutingTargets(
+  workspaceId: string
+): Promise<RoutingTargetSummary[]> {
+  const args = {
+    where: { workspaceId },
+    orderBy: { createdAt: "asc" as const },
+    select: { id: true, name: true, enabled: true },
+  };
+  const [pagerduty, opsgenie, teams, slack, webhooks, workspace, members] =
+    await Promise.all([
+      prisma.pagerDutyConfig.findMany(args),
+      prisma.opsgenieConfig.findMany(args),
+      prisma.teamsConfig.findMany(args),
+      prisma.slackConfig.findMany({
+        where: { workspaceId },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, webhookUrl: true, enabled: true },
+      }),
+      prisma.webhook.findMany({
+        where: { workspaceId },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, url: true, enabled: true },
+      }),
+      prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { contactEmail: true, emailNotificationsEnabled: true },
+      }),
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        orderBy: { createdAt: "asc" },
+        select: { user: { select: { email: true } } },
+      }),
+    ]);
+
+  const emailEnabled = workspace?.emailNotificationsEnabled ?? false;
+  const addresses = [
+    ...(workspace?.contactEmail ? [workspace.contactEmail] : []),
+    ...members.map((member) => member.user.email),
+  ];
+  return [
+    ...pagerduty.map((c) => ({
+      channel: "pagerduty" as const,
+      ...configTarget(c),
+    })),
+    ...opsgenie.map((c) => ({
+      channel: "opsgenie" as const,
+      ...configTarget(c),
+    })),
+    ...teams.map((c) => ({ channel: "teams" as const, ...configTarget(c) })),
+    ...slack.map((c) => ({
+      channel: "slack" as const,
+      configId: c.id,
+      name: c.webhookUrl,
+      enabled: c.enabled,
+    })),
+    ...webhooks.map((webhook) => ({
+      channel: "webhook" as const,
+      configId: webhook.id,
+      name: webhook.url,
+      enabled: webhook.enabled,
+    })),
+    ...[...new Set(addresses)].map((address) => ({
+      channel: "email" as const,
+      configId: address,
+      name: address,
+      enabled: emailEnabled,
+    })),
+  ];
+}
+
+/** Every step target must be one of {@link listRoutingTargets}. */
+async function assertTargetsInWorkspace(
+  workspaceId: string,
+  steps: EscalationStep[]
+): Promise<void> {
+  const known = new Set(
+    (await listRoutingTargets(workspaceId)).map(
+      (target) => `${target.channel}:${target.configId}`
+    )
+  );
+  const missing = steps
+    .flatMap((step) => step.targets)
+    .filter((target) => !known.has(`${target.channel}:${target.configId}`));
+  if (missing.length > 0) {
+    throw new NotificationRoutingError(
+      "escalationTargetNotFound",
+      `Unknown target(s): ${missing
+        .map((target) => `${target.channel} ${target.configId}`)
+        .join(", ")}`
+    );
+  }
+}
+
+export async function listRoutingRules(
+  workspaceId: string
+): Promise<RoutingRuleSummary[]> {
+  const rules = await prisma.notificationRoutingRule.findMany({
+    where: { workspaceId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    include: { escalationPolicy: { select: { name: true } } },
+  });
+  return rules.map(toRuleSummary);
+}
+
+/** New rules go to the end of the list. */
+export async function createRoutingRule(
+  workspaceId: string,
+  input: RoutingRuleInput
+): Promise<{ id: string }> {
+  await assertPolicyInWorkspace(workspaceId, input.escalationPolicyId);
+  const last = await prisma.notificationRoutingRule.aggregate({
+    where: { workspaceId },
+    _max: { position: true },
+  });
+  return prisma.notificationRoutingRule.create({
+    data: {
+      ...ruleData(input),
+      name: input.name,
+      escalationPolicyId: input.escalationPolicyId,
+      workspaceId,
+      position: (last._max.position ?? -1) + 1,
+    },
+    select: { id: true },
+  });
+}
+
+export async function updateRoutingRule(
+  workspaceId: string,
+  input: RoutingRuleUpdate
+): Promise<void> {
+  if (input.escalationPolicyId) {
+    await assertPolicyInWorkspace(workspaceId, input.escalationPolicyId);
+  }
+  const { count } = await prisma.notificationRoutingRule.updateMany({
+    where: { id: input.id, workspaceId },
+    data: ruleData(input),
+  });
+  if (count !== 1) {
+    throw new NotificationRoutingError(
+      "routingRuleNotFound",
+      `Routing rule ${input.id} not found`
+    );
+  }
+}
+
+export async function deleteRoutingRule(
+  workspaceId: string,
+  id: string
+): Promise<void> {
+  const { count } = await prisma.notificationRoutingRule.deleteMany({
+    where: { id, workspaceId },
+  });
+  if (count !== 1) {
+    throw new NotificationRoutingError(
+      "routingRuleNotFound",
+      `Routing rule ${id} not found`
+    );
+  }
+}
+
+/**
+ * Rewrite the evaluation order. `ruleIds` must list every rule of the
+ * workspace exactly once, so a stale client cannot drop a rule from the
+ * order.
+ */
+export async function reorderRoutingRules(
+  workspaceId: string,
+  ruleIds: string[]
+): Promise<void> {
+  const existing = await prisma.notificationRoutingRule.findMany({
+    where: { workspaceId },
+    select: { id: true },
+  });
+  const known = new Set(existing.map((rule) => rule.id));
+  if (
+    ruleIds.length !== known.size ||
+    new Set(ruleIds).size !== ruleIds.length ||
+    ruleIds.some((id) => !known.has(id))
+  ) {
+    throw new NotificationRoutingError(
+      "routingRuleOrderMismatch",
+      "Rule order does not match the workspace's rules"
+    );
+  }
+  await prisma.$transaction(
+    ruleIds.map((id, position) =>
+      prisma.notificationRoutingRule.update({
+        where: { id },
+        data: { position },
+      })
+    )
+  );
+}
+
+export async function listEscalationPolicies(
+  workspaceId: string
+): Promise<EscalationPolicySummary[]> {
+  const policies = await prisma.escalationPolicy.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: "asc" },
+    include: { _count: { select: { rules: true } } },
+  });
+  return policies.map((policy) => ({
+    id: policy.id,
+    name: policy.name,
+    description: policy.description,
+    steps: escalationStepsOf(policy.steps),
+    ruleCount: policy._count.rules,
+    createdAt: policy.createdAt.toISOString(),
+  }));
+}
+
+export async function createEscalationPolicy(
+  workspaceId: string,
+  input: EscalationPolicyInput
+): Promise<{ id: string }> {
+  await assertTargetsInWorkspace(workspaceId, input.steps);
+  return prisma.escalationPolicy.create({
+    data: {
+      workspaceId,
+      name: input.name,
+      description: input.description,
+      steps: input.steps as unknown as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  });
+}
+
+export async function updateEscalationPolicy(
+  workspaceId: string,
+  input: EscalationPolicyUpdate
+): Promise<void> {
+  if (input.steps) await assertTargetsInWorkspace(workspaceId, input.steps);
+  const { count } = await prisma.escalationPolicy.updateMany({
+    where: { id: input.id, workspaceId },
+    data: {
+      name: input.name,
+      description: input.description,
+      steps: input.steps as unknown as Prisma.InputJsonValue | undefined,
+    },
+  });
+  if (count !== 1) {
+    throw new NotificationRoutingError(
+      "escalationPolicyNotFound",
+      `Escalation policy ${input.id} not found`
+    );
+  }
+}
+
+export async function deleteEscalationPolicy(
+  workspaceId: string,
+  id: string
+): Promise<void> {
+  const inUse = await prisma.notificationRoutingRule.count({
+    where: { workspaceId, escalationPolicyId: id },
+  });
+  if (inUse > 0) {
+    throw new NotificationRoutingError(
+      "escalationPolicyInUse",
+      `Escalation policy ${id} is used by ${inUse} routing rule(s)`
+    );
+  }
+  const { count } = await prisma.escalationPolicy.deleteMany({
+    where: { id, workspaceId },
+  });
+  if (count !== 1) {
+    throw new NotificationRoutingError(
+      "escalationPolicyNotFound",
+      `Escalation policy ${id} not found`
+    );
+  }
+}
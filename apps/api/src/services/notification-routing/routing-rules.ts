@@ -0,0 +1,234 @@
+import type {
+  AlertDeliveryChannel,
+  AlertRecord,
+} from "@/services/alert-channels/alert-payload";
+
+import type {
+  NotificationRoutingRule,
+  Prisma,
+  Workspace,
+} from "@/generated/prisma/client";
+
+/**
+ * Pure side of notification routing: which rules an alert matches and
+ * when each escalation step is due. The enqueue path feeds it the rules
+ * and policies it loaded; nothing here touches the database.
+ */
+
+/** Every channel an alert can be routed to. */
+export const ROUTING_CHANNELS = [
+  "pagerduty",
+  "opsgenie",
+  "teams",
+  "slack",
+  "email",
+  "webhook",
+] as const satisfies readonly (AlertDeliveryChannel | "webhook")[];
+
+export type RoutingChannel = (typeof ROUTING_CHANNELS)[number];
+
+export interface EscalationTarget {
+  channel: RoutingChannel;
+  /** Config or webhook id; the recipient address for email. */
+  configId: string;
+}
+
+export interface EscalationStep {
+  /** Minutes after the previous step (the first: after the alert fired). */
+  delayMinutes: number;
+  targets: EscalationTarget[];
+}
+
+/** "HH:MM" window in an IANA time zone; may wrap past midnight. */
+export interface QuietHours {
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export type RoutingRuleMatchFields = Pick<
+  NotificationRoutingRule,
+  "severities" | "environments" | "vhosts" | "queuePattern" | "categories"
+>;
+
+export type WorkspaceNotificationFilters = Pick<
+  Workspace,
+  "notificationSeverities" | "notificationServerIds"
+>;
+
+export type RoutableAlert = Pick<
+  AlertRecord,
+  "severity" | "vhost" | "category" | "sourceType" | "sourceName"
+> & {
+  /** `RabbitMQServer.environment` of the alert's server. */
+  environment: string | null;
+};
+
+export interface PlannedStep {
+  step: number;
+  dueAt: Date;
+  targets: EscalationTarget[];
+}
+
+function listOf(value: Prisma.JsonValue | null): string[] | null {
+  return Array.isArray(value) && value.length > 0
+    ? value.filter((item): item is string => typeof item === "string")
+    : null;
+}
+
+function matchesList(
+  list: Prisma.JsonValue | null,
+  value: string | null,
+  caseInsensitive = false
+): boolean {
+  const values = listOf(list);
+  if (!values) return true;
+  if (value === null) return false;
+  return caseInsensitive
+    ? values.some((item) => item.toLowerCase() === value.toLowerCase())
+    : values.includes(value);
+}
+
+/**
+ * Queue pattern: tested against the queue name of queue alerts only, so a
+ * rule with a pattern never matches node or connection alerts. A pattern
+ * that no longer compiles matches nothing.
+ */
+function matchesQueuePattern(
+  pattern: string | null,
+  alert: RoutableAlert
+): boolean {
+  if (!pattern) return true;
+  if (alert.sourceType !== "queue" || !alert.sourceName) return false;
+  try {
+    return new RegExp(pattern).test(alert.sourceName);
+  } catch {
+    return false;
+  }
+}
+
+/** Null (or empty) match fields match every alert. */
+export function matchesRoutingRule(
+  rule: RoutingRuleMatchFields,
+  alert: RoutableAlert
+): boolean {
+  return (
+    matchesList(rule.severities, alert.severity) &&
+    matchesList(rule.environments, alert.environment, true) &&
+    matchesList(rule.vhosts, alert.vhost) &&
+    matchesList(rule.categories, alert.category) &&
+    matchesQueuePattern(rule.queuePattern, alert)
+  );
+}
+
+/**
+ * The workspace's notification settings filter email, Slack and webhook
+ * targets before any rule runs. Empty lists let everything through; an
+ * alert without a server passes the server filter.
+ */
+export function passesWorkspaceFilters(
+  filters: WorkspaceNotificationFilters,
+  alert: Pick<AlertRecord, "severity" | "serverId">
+): boolean {
+  return (
+    matchesList(filters.notificationSeverities, alert.severity) &&
+    (alert.serverId === null ||
+      matchesList(filters.notificationServerIds, alert.serverId))
+  );
+}
+
+/**
+ * Rules the alert is routed by, in order. The first match wins; a rule
+ * with `continueMatching` lets the evaluation carry on to later rules.
+ */
+export function selectRoutingRules<
+  R extends RoutingRuleMatchFields & { continueMatching: boolean },
+>(rules: R[], alert: RoutableAlert): R[] {
+  const matched: R[] = [];
+  for (const rule of rules) {
+    if (!matchesRoutingRule(rule, alert)) continue;
+    matched.push(rule);
+    if (!rule.continueMatching) break;
+  }
+  return matched;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Seconds since local midnight of `at` in `timezone`. */
+function localSecondsOfDay(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 3600 + part("minute") * 60 + part("second");
+}
+
+/**
+ * When `at` falls inside the quiet hours, the instant they end; otherwise
+ * null. `start === end` is an empty window.
+ */
+export function quietHoursEnd(at: Date, quietHours: QuietHours): Date | null {
+  const start = minutesOf(quietHours.start) * 60;
+  const end = minutesOf(quietHours.end) * 60;
+  if (start === end) return null;
+
+  const now = localSecondsOfDay(at, quietHours.timezone);
+  const inside =
+    start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inside) return null;
+
+  const secondsLeft = (end - now + 86_400) % 86_400;
+  const endsAt = new Date(at.getTime() + secondsLeft * 1_000);
+  endsAt.setUTCMilliseconds(0);
+  return endsAt;
+}
+
+/**
+ * Due time of every step of a policy, starting at `firedAt`. A step that
+ * would fall inside the rule's quiet hours waits for their end, and the
+ * steps after it count their delay from there.
+ */
+export function planEscalation(
+  steps: EscalationStep[],
+  firedAt: Date,
+  quietHours: QuietHours | null
+): PlannedStep[] {
+  const planned: PlannedStep[] = [];
+  let previous = firedAt;
+  steps.forEach((step, index) => {
+    let dueAt = new Date(previous.getTime() + step.delayMinutes * 60_000);
+    const quietEnd = quietHours ? quietHoursEnd(dueAt, quietHours) : null;
+    if (quietEnd) dueAt = quietEnd;
+    planned.push({ step: index, dueAt, targets: step.targets });
+    previous = dueAt;
+  });
+  return planned;
+}
+
+export function quietHoursOf(
+  rule: Pick<
+    NotificationRoutingRule,
+    "quietHoursStart" | "quietHoursEnd" | "quietHoursTimezone"
+  >
+): QuietHours | null {
+  if (!rule.quietHoursStart || !rule.quietHoursEnd) return null;
+  return {
+    start: rule.quietHoursStart,
+    end: rule.quietHoursEnd,
+    timezone: rule.quietHoursTimezone ?? "UTC",
+  };
+}
+
+/** `EscalationPolicy.steps` column, tolerant of hand-edited rows. */
+export function escalationStepsOf(value: Prisma.JsonValue): EscalationStep[] {
+  return Array.isArray(value) ? (value as unknown as EscalationStep[]) : [];
+}
@@ -11,6 +11,9 @@
  *  - drain transitions to FAILED after MAX_ATTEMPTS
  *  - dispatcher rehydrates Date fields from ISO-string payloads
  *  - drain pulls rows fairly per channel (no head-of-line blocking)
+ *  - permanent failures skip retries; Retry-After survives the breaker
+ *  - every attempt lands in the row's history; breaker states are published
+ *  - webhook attempts keep the receiver's status code and answer
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
@@ -19,6 +22,7 @@ const createMock = vi.fn();
 const findManyMock = vi.fn();
 const updateMock = vi.fn();
 const digestLogUpdateMock = vi.fn();
+const systemSettingUpsertMock = vi.fn();
 
 const executeRawMock = vi.fn().mockResolvedValue(0);
 
@@ -32,6 +36,9 @@ vi.mock("@/core/prisma", () => ({
     digestLog: {
       update: (...args: unknown[]) => digestLogUpdateMock(...args),
     },
+    systemSetting: {
+      upsert: (...args: unknown[]) => systemSettingUpsertMock(...args),
+    },
     $executeRawUnsafe: (...args: unknown[]) => executeRawMock(...args),
   },
 }));
@@ -106,6 +113,16 @@ vi.mock("@/ee/services/digest/digest-slack.service", () => ({
   },
 }));
 
+const dispatchAlertChannel = vi.fn();
+vi.mock("@/services/alert-channels/dispatch", () => ({
+  dispatchAlertChannel: (...args: unknown[]) => dispatchAlertChannel(...args),
+}));
+
+const dispatchWebhook = vi.fn();
+vi.mock("@/services/webhooks/delivery", () => ({
+  dispatchWebhook: (...args: unknown[]) => dispatchWebhook(...args),
+}));
+
 vi.mock("@/services/sentry", () => ({
   Sentry: {
     captureException: vi.fn(),
@@ -123,7 +140,9 @@ vi.mock("@/services/sentry", () => ({
 import {
   drainNotificationOutbox,
   enqueueNotification,
+  publishBreakerStates,
 } from "@/services/notification/notification-outbox.service";
+import { Sentry } from "@/services/sentry";
 
 function makeP2002() {
   const err = new Error("Unique constraint failed") as Error & {
@@ -175,6 +194,27 @@ describe("enqueueNotification", () => {
     expect(createMock).toHaveBeenCalledTimes(1);
   });
 
+  it("holds a row enqueued with notBefore until then", async () => {
+    createMock.mockResolvedValue({});
+    const notBefore = new Date("2026-10-20T09:15:00.000Z");
+    await enqueueNotification({
+      channel: "email",
+      template: "upgrade_confirmation",
+      target: "alice@example.com",
+      idempotencyKey: "email:k-later",
+      payload: {
+        userName: "Alice",
+        workspaceName: "ws",
+        plan: "DEVELOPER",
+        billingInterval: "monthly",
+      },
+      notBefore,
+    });
+    expect(createMock).toHaveBeenCalledWith({
+      data: expect.objectContaining({ nextAttemptAt: notBefore }),
+    });
+  });
+
   it("issues a NOTIFY on the outbox channel after a successful enqueue", async () => {
     createMock.mockResolvedValue({});
     await enqueueNotification({
@@ -294,11 +334,16 @@ describe("drainNotificationOutbox", () => {
 
     const stats = await drainNotificationOutbox();
 
-    expect(stats).toEqual({ sent: 1, failed: 0, retrying: 0 });
+    expect(stats).toEqual({ sent: 1, failed: 0, retrying: 0, cancelled: 0 });
     expect(updateMock).toHaveBeenCalledWith(
       expect.objectContaining({
         where: { id: "row1" },
-        data: expect.objectContaining({ status: "SENT" }),
+        data: expect.objectContaining({
+          status: "SENT",
+          history: {
+            create: { outcome: "SENT", durationMs: expect.any(Number) },
+          },
+        }),
       })
     );
   });
@@ -354,13 +399,21 @@ describe("drainNotificationOutbox", () => {
 
     const stats = await drainNotificationOutbox();
 
-    expect(stats).toEqual({ sent: 0, failed: 0, retrying: 1 });
+    expect(stats).toEqual({ sent: 0, failed: 0, retrying: 1, cancelled: 0 });
     const updateArg = updateMock.mock.calls[0][0] as {
-      data: { attempts: number; status: string; nextAttemptAt: Date };
+      data: {
+        attempts: number;
+        status: string;
+        nextAttemptAt: Date;
+        history: { create: { outcome: string; detail: string } };
+      };
     };
     expect(updateArg.data.attempts).toBe(3);
     expect(updateArg.data.status).toBe("PENDING");
     expect(updateArg.data.nextAttemptAt).toBeInstanceOf(Date);
+    expect(updateArg.data.history.create).toEqual(
+      expect.objectContaining({ outcome: "RETRY", detail: "smtp 500" })
+    );
   });
 
   it("transitions to FAILED after MAX_ATTEMPTS (10)", async () => {
@@ -384,7 +437,7 @@ describe("drainNotificationOutbox", () => {
 
     const stats = await drainNotificationOutbox();
 
-    expect(stats).toEqual({ sent: 0, failed: 1, retrying: 0 });
+    expect(stats).toEqual({ sent: 0, failed: 1, retrying: 0, cancelled: 0 });
     const updateArg = updateMock.mock.calls[0][0] as {
       data: { status: string };
     };
@@ -394,16 +447,166 @@ describe("drainNotificationOutbox", () => {
   it("queries each channel separately for fairness", async () => {
     rowsByChannel([]);
     await drainNotificationOutbox();
-    // 3 channels = 3 findMany calls (one per channel)
-    expect(findManyMock).toHaveBeenCalledTimes(3);
+    // 6 channels = 6 findMany calls (one per channel)
+    expect(findManyMock).toHaveBeenCalledTimes(6);
     const channelsQueried = findManyMock.mock.calls.map(
       (c) => (c[0] as { where: { channel: string } }).where.channel
     );
     expect(new Set(channelsQueried)).toEqual(
-      new Set(["email", "slack", "webhook"])
+      new Set(["email", "slack", "webhook", "pagerduty", "opsgenie", "teams"])
     );
   });
 
+  const alertRow = (overrides: Partial<OutboxRow> = {}): OutboxRow => ({
+    id: "alert-row",
+    channel: "pagerduty",
+    template: "alert_trigger",
+    target: "pd-config-1",
+    payload: { alertId: "alert-1", dedupKey: "qarote-abc" },
+    attempts: 0,
+    ...overrides,
+  });
+
+  it("dispatches alert channel rows with the config id as target", async () => {
+    rowsByChannel([alertRow()]);
+    dispatchAlertChannel.mockResolvedValue({ success: true });
+    updateMock.mockResolvedValue({});
+
+    const stats = await drainNotificationOutbox();
+
+    expect(stats).toEqual({ sent: 1, failed: 0, retrying: 0, cancelled: 0 });
+    expect(dispatchAlertChannel).toHaveBeenCalledWith(
+      "pagerduty",
+      "alert_trigger",
+      "pd-config-1",
+      expect.objectContaining({ dedupKey: "qarote-abc" })
+    );
+  });
+
+  it("dispatches webhook rows and keeps the receiver's answer in the history", async () => {
+    rowsByChannel([
+      alertRow({
+        channel: "webhook",
+        template: "alert.triggered",
+        target: "wh-1",
+        payload: { id: "alert:alert-1:trigger", type: "alert.triggered" },
+      }),
+    ]);
+    dispatchWebhook.mockResolvedValue({
+      success: false,
+      error: "HTTP 503: busy",
+      statusCode: 503,
+      responseSnippet: "busy",
+    });
+    updateMock.mockResolvedValue({});
+
+    await drainNotificationOutbox();
+
+    expect(dispatchWebhook).toHaveBeenCalledWith(
+      "wh-1",
+      expect.objectContaining({ id: "alert:alert-1:trigger" })
+    );
+    const updateArg = updateMock.mock.calls[0][0] as {
+      data: { history: { create: Record<string, unknown> } };
+    };
+    expect(updateArg.data.history.create).toEqual(
+      expect.objectContaining({
+        outcome: "RETRY",
+        statusCode: 503,
+        responseSnippet: "busy",
+      })
+    );
+  });
+
+  it("fails a permanent failure on the first attempt without paging Sentry", async () => {
+    rowsByChannel([alertRow({ channel: "opsgenie", target: "og-1" })]);
+    dispatchAlertChannel.mockResolvedValue({
+      success: false,
+      error: "HTTP 422",
+      permanent: true,
+    });
+    updateMock.mockResolvedValue({});
+
+    const stats = await drainNotificationOutbox();
+
+    expect(stats).toEqual({ sent: 0, failed: 1, retrying: 0, cancelled: 0 });
+    const updateArg = updateMock.mock.calls[0][0] as {
+      data: { attempts: number; status: string };
+    };
+    expect(updateArg.data).toEqual(
+      expect.objectContaining({ attempts: 1, status: "FAILED" })
+    );
+    expect(Sentry.captureException).not.toHaveBeenCalled();
+  });
+
+  it("honours Retry-After from a failed send that went through the breaker", async () => {
+    rowsByChannel([alertRow({ channel: "teams", target: "teams-1" })]);
+    dispatchAlertChannel.mockResolvedValue({
+      success: false,
+      error: "HTTP 429",
+      retryAfterMs: 120_000,
+    });
+    updateMock.mockResolvedValue({});
+    const before = Date.now();
+
+    const stats = await drainNotificationOutbox();
+
+    expect(stats).toEqual({ sent: 0, failed: 0, retrying: 1, cancelled: 0 });
+    const updateArg = updateMock.mock.calls[0][0] as {
+      data: { status: string; nextAttemptAt: Date; lastError: string };
+    };
+    expect(updateArg.data.status).toBe("PENDING");
+    expect(updateArg.data.lastError).toBe("HTTP 429");
+    expect(updateArg.data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+      before + 120_000
+    );
+  });
+
+  it("cancels a row its dispatcher no longer wants, without spending an attempt", async () => {
+    rowsByChannel([alertRow()]);
+    dispatchAlertChannel.mockResolvedValue({
+      success: false,
+      cancelled: "alert acknowledged — escalation stopped",
+    });
+    updateMock.mockResolvedValue({});
+
+    const stats = await drainNotificationOutbox();
+
+    expect(stats).toEqual({ sent: 0, failed: 0, retrying: 0, cancelled: 1 });
+    expect(updateMock).toHaveBeenCalledWith({
+      where: { id: "alert-row" },
+      data: {
+        status: "CANCELLED",
+        lastError: "alert acknowledged — escalation stopped",
+        history: {
+          create: {
+            outcome: "CANCELLED",
+            detail: "alert acknowledged — escalation stopped",
+            durationMs: expect.any(Number),
+          },
+        },
+      },
+    });
+  });
+
+  it("puts a deferred row back until the given time", async () => {
+    rowsByChannel([alertRow()]);
+    const snoozedUntil = new Date(Date.now() + 30 * 60_000);
+    dispatchAlertChannel.mockResolvedValue({
+      success: false,
+      deferUntil: snoozedUntil,
+    });
+    updateMock.mockResolvedValue({});
+
+    const stats = await drainNotificationOutbox();
+
+    expect(stats).toEqual({ sent: 0, failed: 0, retrying: 1, cancelled: 0 });
+    expect(updateMock).toHaveBeenCalledWith({
+      where: { id: "alert-row" },
+      data: { nextAttemptAt: snoozedUntil },
+    });
+  });
+
   it("only fetches PENDING rows where nextAttemptAt is in the past", async () => {
     rowsByChannel([]);
     await drainNotificationOutbox();
@@ -590,3 +793,43 @@ describe("drainNotificationOutbox", () => {
     expect(digestLogUpdateMock).not.toHaveBeenCalled();
   });
 });
+
+describe("publishBreakerStates", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("writes every channel's breaker state for the outbox console", async () => {
+    systemSettingUpsertMock.mockResolvedValue({});
+
+    await publishBreakerStates();
+
+    const arg = systemSettingUpsertMock.mock.calls[0][0] as {
+      where: { key: string };
+      update: { value: string };
+    };
+    expect(arg.where.key).toBe("notification_outbox_breakers");
+    const snapshot = JSON.parse(arg.update.value) as Record<
+      string,
+      { state: string; since: string }
+    >;
+    expect(Object.keys(snapshot).sort()).toEqual([
+      "email",
+      "opsgenie",
+      "pagerduty",
+      "slack",
+      "teams",
+      "webhook",
+    ]);
+    expect(snapshot.slack).toEqual({
+      state: "closed",
+      since: expect.any(String),
+    });
+  });
+
+  it("never throws when the write fails", async () => {
+    systemSettingUpsertMock.mockRejectedValue(new Error("db down"));
+
+    await expect(publishBreakerStates()).resolves.toBeUndefined();
+  });
+});
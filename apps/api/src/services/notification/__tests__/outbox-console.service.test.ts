@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  outboxFindUnique,
+  outboxUpdate,
+  outboxDeleteMany,
+  systemSettingFindUnique,
+  alertFindUnique,
+  executeRaw,
+  transaction,
+  loadChannelTarget,
+} = vi.hoisted(() => ({
+  outboxFindUnique: vi.fn(),
+  outboxUpdate: vi.fn(),
+  outboxDeleteMany: vi.fn(),
+  systemSettingFindUnique: vi.fn(),
+  alertFindUnique: vi.fn(),
+  executeRaw: vi.fn(),
+  transaction: vi.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  loadChannelTarget: vi.fn(),
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}));
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    notificationOutbox: {
+      findUnique: outboxFindUnique,
+      update: outboxUpdate,
+      deleteMany: outboxDeleteMany,
+      groupBy: vi.fn().mockResolvedValue([]),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    systemSetting: { findUnique: systemSettingFindUnique },
+    alert: { findUnique: alertFindUnique },
+    $executeRawUnsafe: executeRaw,
+    $transaction: transaction,
+  },
+}));
+vi.mock("@/services/alert-channels/dispatch", () => ({ loadChannelTarget }));
+vi.mock("../notification-outbox.service", () => ({
+  MAX_ATTEMPTS: 10,
+  NOTIFICATION_CHANNELS: ["email", "pagerduty"],
+  NOTIFICATION_OUTBOX_CHANNEL: "notification_outbox_new",
+  OUTBOX_BREAKER_STATE_KEY: "notification_outbox_breakers",
+}));
+
+import {
+  getOutboxOverview,
+  OutboxConsoleError,
+  purgeOutboxRows,
+  replayOutboxRow,
+} from "../outbox-console.service";
+
+const now = new Date("2026-10-27T09:00:00Z");
+
+function storedRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "row-1",
+    channel: "email",
+    template: "verification",
+    target: "old@example.com",
+    status: "FAILED",
+    attempts: 10,
+    lastError: "smtp timeout",
+    payload: {},
+    createdAt: now,
+    sentAt: null,
+    nextAttemptAt: now,
+    ...overrides,
+  };
+}
+
+describe("replayOutboxRow", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    outboxUpdate.mockImplementation(({ data }) =>
+      Promise.resolve(storedRow({ ...data, history: undefined }))
+    );
+  });
+
+  it("requeues a FAILED row with fresh attempts and wakes the drain", async () => {
+    outboxFindUnique.mockResolvedValue(storedRow());
+
+    const row = await replayOutboxRow("row-1");
+
+    expect(row.status).toBe("PENDING");
+    expect(outboxUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: "PENDING",
+          attempts: 0,
+          lastError: null,
+          history: { create: { outcome: "REPLAYED", detail: null } },
+        }),
+      })
+    );
+    expect(outboxUpdate.mock.calls[0][0].data.target).toBeUndefined();
+    expect(executeRaw).toHaveBeenCalledWith("NOTIFY notification_outbox_new");
+  });
+
+  it("refuses rows that did not fail", async () => {
+    outboxFindUnique.mockResolvedValue(storedRow({ status: "PENDING" }));
+
+    await expect(replayOutboxRow("row-1")).rejects.toMatchObject({
+      code: "rowNotFailed",
+    });
+    expect(outboxUpdate).not.toHaveBeenCalled();
+  });
+
+  it("reports a missing row", async () => {
+    outboxFindUnique.mockResolvedValue(null);
+
+    await expect(replayOutboxRow("row-1")).rejects.toBeInstanceOf(
+      OutboxConsoleError
+    );
+  });
+
+  it("re-targets an email row to a new address", async () => {
+    outboxFindUnique.mockResolvedValue(storedRow());
+
+    const row = await replayOutboxRow("row-1", { target: "new@example.com" });
+
+    expect(row.target).toBe("new@example.com");
+    expect(outboxUpdate.mock.calls[0][0].data.history.create.detail).toBe(
+      "retargeted from old@example.com to new@example.com"
+    );
+  });
+
+  it("rejects an email target that is not an address", async () => {
+    outboxFindUnique.mockResolvedValue(storedRow());
+
+    await expect(
+      replayOutboxRow("row-1", { target: "not-an-address" })
+    ).rejects.toMatchObject({ code: "targetInvalid" });
+  });
+
+  it("only re-targets an alert row to a config of the alert's workspace", async () => {
+    outboxFindUnique.mockResolvedValue(
+      storedRow({
+        channel: "pagerduty",
+        target: "pd-1",
+        payload: { alertId: "alert-1" },
+      })
+    );
+    alertFindUnique.mockResolvedValue({ workspaceId: "ws-1" });
+    loadChannelTarget.mockResolvedValue(null);
+
+    await expect(
+      replayOutboxRow("row-1", { target: "pd-other" })
+    ).rejects.toMatchObject({ code: "targetInvalid" });
+    expect(loadChannelTarget).toHaveBeenCalledWith(
+      "pagerduty",
+      "pd-other",
+      "ws-1"
+    );
+  });
+});
+
+describe("purgeOutboxRows", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("deletes the matching finished rows, narrowed to the selection", async () => {
+    outboxDeleteMany.mockResolvedValue({ count: 2 });
+
+    const deleted = await purgeOutboxRows({
+      status: "FAILED",
+      channel: "email",
+      ids: ["row-1", "row-2"],
+    });
+
+    expect(deleted).toBe(2);
+    expect(outboxDeleteMany).toHaveBeenCalledWith({
+      where: {
+        status: "FAILED",
+        channel: "email",
+        id: { in: ["row-1", "row-2"] },
+      },
+    });
+  });
+});
+
+describe("getOutboxOverview", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("reports the published breaker states, closed when unknown", async () => {
+    systemSettingFindUnique.mockResolvedValue({
+      value: JSON.stringify({
+        email: { state: "open", since: "2026-10-27T08:59:00.000Z" },
+      }),
+      updatedAt: now,
+    });
+
+    const overview = await getOutboxOverview();
+
+    expect(overview.breakers).toEqual([
+      { channel: "email", state: "open", since: "2026-10-27T08:59:00.000Z" },
+      { channel: "pagerduty", state: "closed", since: null },
+    ]);
+    expect(overview.breakersReportedAt).toBe(now.toISOString());
+  });
+});
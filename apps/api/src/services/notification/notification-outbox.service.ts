@@ -2,9 +2,10 @@
  * Notification Outbox Service
  *
  * Closes dual-write hazards on every cross-channel transactional notification
- * (email, Slack, user webhooks). The handler writes the outbox row inside
- * the same transaction as the surrounding business state (subscription,
- * license, alert); a singleton drain delivers asynchronously per channel.
+ * (email, Slack, user webhooks, PagerDuty / Opsgenie / Teams alerts). The
+ * handler writes the outbox row inside the same transaction as the
+ * surrounding business state (subscription, license, alert); a singleton
+ * drain delivers asynchronously per channel.
  *
  * Idempotency: every enqueue carries an `idempotencyKey` prefixed by
  * `<channel>:` so the same business event can fan out to multiple channels
@@ -14,13 +15,25 @@
  * Retry: failed sends bump `attempts`, set `nextAttemptAt` with channel-
  * appropriate backoff (email tolerates long, webhook short, Slack respects
  * Retry-After). After MAX_ATTEMPTS the row transitions to FAILED — a loud
- * error log is the trigger for ops alerting.
+ * error log is the trigger for ops alerting. A dispatcher that reports a
+ * `permanent` failure (rejected payload, deleted config) skips the retries
+ * and fails the row on the spot.
+ *
+ * Rows enqueued with `notBefore` (escalation steps) wait until then. A
+ * dispatcher may also report that a row is no longer wanted — `cancelled`
+ * ends it as CANCELLED — or not wanted yet — `deferUntil` puts it back
+ * without spending an attempt.
+ *
+ * Every attempt appends a NotificationOutboxAttempt, and the breakers
+ * publish their state to a SystemSetting row, so the outbox console (API
+ * process) can explain a FAILED row the drain worker gave up on.
  */
 
 import {
   BrokenCircuitError,
   circuitBreaker,
   CircuitBreakerPolicy,
+  CircuitState,
   ConsecutiveBreaker,
   handleAll,
 } from "cockatiel";
@@ -28,17 +41,28 @@ import {
 import { logger } from "@/core/logger";
 import { prisma } from "@/core/prisma";
 
+import type {
+  AlertChannelTemplate,
+  AlertDeliveryChannel,
+  AlertNotificationPayload,
+} from "@/services/alert-channels/alert-payload";
+import { dispatchAlertChannel } from "@/services/alert-channels/dispatch";
 import { AuthEmailService } from "@/services/email/auth-email.service";
 import { BillingEmailService } from "@/services/email/billing-email.service";
 import { LicenseEmailService } from "@/services/email/license-email.service";
 import { passwordResetEmailService } from "@/services/email/password-reset-email.service";
 import { Sentry, trackMetricCount } from "@/services/sentry";
+import { dispatchWebhook } from "@/services/webhooks/delivery";
+import type {
+  WebhookEventType,
+  WebhookPayload,
+} from "@/services/webhooks/payload";
 
 import { ghcrConfig } from "@/config";
 
 import { Prisma, UserPlan } from "@/generated/prisma/client";
 
-const MAX_ATTEMPTS = 10;
+export const MAX_ATTEMPTS = 10;
 
 /**
  * Per-channel backoff. Email tolerates long delays (SMTP queue is the
@@ -50,9 +74,19 @@ const BACKOFF_PROFILES = {
   email: { baseMs: 60_000, capMs: 60 * 60_000 }, // 1m → 1h
   webhook: { baseMs: 5_000, capMs: 10 * 60_000 }, // 5s → 10m
   slack: { baseMs: 5_000, capMs: 10 * 60_000 }, // 5s → 10m (Retry-After overrides)
+  // Paging channels: an incident that arrives late is worth little, so
+  // retry fast and give up within the hour. PagerDuty and Opsgenie send
+  // Retry-After on 429, which overrides the profile.
+  pagerduty: { baseMs: 2_000, capMs: 5 * 60_000 }, // 2s → 5m
+  opsgenie: { baseMs: 2_000, capMs: 5 * 60_000 }, // 2s → 5m
+  teams: { baseMs: 5_000, capMs: 10 * 60_000 }, // 5s → 10m
 } as const;
 
-type NotificationChannel = keyof typeof BACKOFF_PROFILES;
+export type NotificationChannel = keyof typeof BACKOFF_PROFILES;
+
+export const NOTIFICATION_CHANNELS = Object.keys(
+  BACKOFF_PROFILES
+) as NotificationChannel[];
 
 /**
  * Per-channel circuit breakers wrapped around the dispatcher. When a
@@ -77,16 +111,85 @@ const channelBreakers: Record<NotificationChannel, CircuitBreakerPolicy> = {
   email: makeBreaker(),
   slack: makeBreaker(),
   webhook: makeBreaker(),
+  pagerduty: makeBreaker(),
+  opsgenie: makeBreaker(),
+  teams: makeBreaker(),
+};
+
+/** SystemSetting key holding the drain worker's breaker snapshot. */
+export const OUTBOX_BREAKER_STATE_KEY = "notification_outbox_breakers";
+
+export type BreakerState = "closed" | "open" | "half_open" | "isolated";
+
+export type BreakerStateSnapshot = Record<
+  NotificationChannel,
+  { state: BreakerState; since: string }
+>;
+
+const BREAKER_STATE_NAMES: Record<CircuitState, BreakerState> = {
+  [CircuitState.Closed]: "closed",
+  [CircuitState.Open]: "open",
+  [CircuitState.HalfOpen]: "half_open",
+  [CircuitState.Isolated]: "isolated",
 };
 
+const breakerSince = Object.fromEntries(
+  NOTIFICATION_CHANNELS.map((channel) => [channel, new Date()])
+) as Record<NotificationChannel, Date>;
+
+for (const channel of NOTIFICATION_CHANNELS) {
+  channelBreakers[channel].onStateChange(() => {
+    breakerSince[channel] = new Date();
+    void publishBreakerStates();
+  });
+}
+
+/**
+ * Write the breakers' current state for the outbox console. The breakers
+ * live in the drain worker, so the API can only see them through the
+ * database. Called on every state change and once when the drain starts,
+ * so a restarted worker overwrites the previous process's snapshot.
+ * Best-effort: a failed write is logged and the drain carries on.
+ */
+export async function publishBreakerStates(): Promise<void> {
+  const snapshot = Object.fromEntries(
+    NOTIFICATION_CHANNELS.map((channel) => [
+      channel,
+      {
+        state: BREAKER_STATE_NAMES[channelBreakers[channel].state],
+        since: breakerSince[channel].toISOString(),
+      },
+    ])
+  ) as BreakerStateSnapshot;
+  const value = JSON.stringify(snapshot);
+  try {
+    await prisma.systemSetting.upsert({
+      where: { key: OUTBOX_BREAKER_STATE_KEY },
+      update: { value },
+      create: { key: OUTBOX_BREAKER_STATE_KEY, value },
+    });
+  } catch (error) {
+    logger.warn(
+      { error },
+      "NotificationOutbox: failed to publish circuit breaker state"
+    );
+  }
+}
+
 /**
  * Discriminated union of every notification kind the system can enqueue.
  * `payload` mirrors the underlying delivery method's params minus the
  * target (kept on the row's `target` column). Date fields pass through
  * JSON.stringify as ISO strings and are re-hydrated by the dispatcher.
  *
- * To add a Slack or webhook variant: add a new `{ channel: "slack" | ... }`
- * arm here and a matching `case` in `dispatchNotification`.
+ * To add a Slack variant: add a new `{ channel: "slack" | ... }` arm here
+ * and a matching `case` in `dispatchNotification`.
+ *
+ * Alerts share one arm across channels: the target is the channel config
+ * id (the recipient address for email) and the payload the alert snapshot
+ * (see services/alert-channels). Webhooks
+ * likewise: the target is the webhook id, the template the event type and
+ * the payload the versioned body (see services/webhooks).
  */
 type OutboxJob =
   | {
@@ -262,7 +365,15 @@ type OutboxJob =
         locale?: string;
       };
     }
+  | {
+      channel: AlertDeliveryChannel;
+      template: AlertChannelTemplate;
+      payload: AlertNotificationPayload;
     }
+  | {
+      channel: "webhook";
+      template: WebhookEventType;
+      payload: WebhookPayload;
     };
 
 type EnqueueArgs = OutboxJob & {
@@ -273,15 +384,41 @@ type EnqueueArgs = OutboxJob & {
    * fanning out the same business event across channels does not collide.
    */
   idempotencyKey: string;
+  /** Hold the row until then (first attempt no earlier than this). */
+  notBefore?: Date;
 };
 
 interface NotificationSendResult {
   success: boolean;
   error?: string | null;
   retryAfterMs?: number;
+  /** Retrying cannot succeed — fail the row now. */
+  permanent?: boolean;
+  /** The notification is no longer wanted; the reason ends the row. */
+  cancelled?: string;
+  /** Not wanted yet — try again then, without spending an attempt. */
+  deferUntil?: Date;
+  /** HTTP status and response start, kept in the attempt history. */
+  statusCode?: number;
+  responseSnippet?: string;
 }
 
-type DrainStats = { sent: number; failed: number; retrying: number };
+/**
+ * Carries a failed send through the breaker so Retry-After and the
+ * permanent flag survive the throw.
+ */
+class SendFailedError extends Error {
+  constructor(readonly result: NotificationSendResult) {
+    super(result.error ?? "send failed");
+  }
+}
+
+type DrainStats = {
+  sent: number;
+  failed: number;
+  retrying: number;
+  cancelled: number;
+};
 
 type OutboxDbClient = Pick<
   Prisma.TransactionClient,
@@ -333,6 +470,7 @@ export async function enqueueNotification(
         target: args.target,
         payload: normalizedPayload,
         idempotencyKey: args.idempotencyKey,
+        ...(args.notBefore && { nextAttemptAt: args.notBefore }),
       },
     });
     // Wake the drain immediately. NOTIFY is delivered post-COMMIT so the
@@ -369,7 +507,7 @@ export async function enqueueNotification(
  */
 export async function drainNotificationOutbox(limit = 50): Promise<DrainStats> {
   const now = new Date();
-  const channels = Object.keys(BACKOFF_PROFILES) as NotificationChannel[];
+  const channels = NOTIFICATION_CHANNELS;
   const perChannelLimit = Math.max(1, Math.ceil(limit / channels.length));
   const rowGroups = await Promise.all(
     channels.map((channel) =>
@@ -404,12 +542,10 @@ export async function drainNotificationOutbox(limit = 50): Promise<DrainStats> {
     }
   }
 
-  const stats: DrainStats = { sent: 0, failed: 0, retrying: 0 };
+  const stats: DrainStats = { sent: 0, failed: 0, retrying: 0, cancelled: 0 };
   for (const row of rows) {
     const result = await processOutboxRow(row);
-    if (result === "sent") stats.sent++;
-    else if (result === "failed") stats.failed++;
-    else stats.retrying++;
+    stats[result]++;
   }
   return stats;
 }
@@ -421,9 +557,10 @@ async function processOutboxRow(row: {
   target: string;
   payload: unknown;
   attempts: number;
-}): Promise<"sent" | "failed" | "retrying"> {
+}): Promise<keyof DrainStats> {
   const channel = row.channel as NotificationChannel;
   const breaker = channelBreakers[channel];
+  const startedAt = Date.now();
 
   let result: NotificationSendResult;
   try {
@@ -439,9 +576,17 @@ async function processOutboxRow(row: {
           row.payload as OutboxJob["payload"]
         );
         // Cockatiel only counts thrown errors as failures. Translate a
-        // success=false result into a throw so the breaker observes it.
-        if (!dispatchResult.success) {
-          throw new Error(dispatchResult.error ?? "send failed");
+        // success=false result into a throw so the breaker observes it —
+        // except permanent failures, which say nothing about the
+        // downstream's health, and cancelled / deferred rows, which were
+        // never sent.
+        if (
+          !dispatchResult.success &&
+          !dispatchResult.permanent &&
+          !dispatchResult.cancelled &&
+          !dispatchResult.deferUntil
+        ) {
+          throw new SendFailedError(dispatchResult);
         }
         return dispatchResult;
       });
@@ -454,7 +599,9 @@ async function processOutboxRow(row: {
       );
     }
   } catch (error) {
-    if (error instanceof BrokenCircuitError) {
+    if (error instanceof SendFailedError) {
+      result = error.result;
+    } else if (error instanceof BrokenCircuitError) {
       result = {
         success: false,
         error: `circuit_open:${channel}`,
@@ -467,16 +614,66 @@ async function processOutboxRow(row: {
     }
   }
 
+  const durationMs = Date.now() - startedAt;
+
   if (result.success) {
     await prisma.notificationOutbox.update({
       where: { id: row.id },
-      data: { status: "SENT", sentAt: new Date(), lastError: null },
+      data: {
+        status: "SENT",
+        sentAt: new Date(),
+        lastError: null,
+        history: {
+          create: {
+            outcome: "SENT",
+            durationMs,
+            statusCode: result.statusCode,
+            responseSnippet: result.responseSnippet,
+          },
+        },
+      },
     });
     return "sent";
   }
 
+  if (result.cancelled) {
+    await prisma.notificationOutbox.update({
+      where: { id: row.id },
+      data: {
+        status: "CANCELLED",
+        lastError: result.cancelled,
+        history: {
+          create: {
+            outcome: "CANCELLED",
+            detail: result.cancelled,
+            durationMs,
+          },
+        },
+      },
+    });
+    logger.info(
+      {
+        outboxId: row.id,
+        channel: row.channel,
+        template: row.template,
+        reason: result.cancelled,
+      },
+      "NotificationOutbox: row cancelled by its dispatcher"
+    );
+    return "cancelled";
+  }
+
+  if (result.deferUntil) {
+    await prisma.notificationOutbox.update({
+      where: { id: row.id },
+      data: { nextAttemptAt: result.deferUntil },
+    });
+    return "retrying";
+  }
+
   const attempts = row.attempts + 1;
   const exhausted = attempts >= MAX_ATTEMPTS;
+  const permanent = result.permanent === true;
   // Strip token-shaped strings from error messages before persisting — email SDK
   // errors can include request body excerpts that contain credentials.
   if (result.error) {
@@ -506,9 +703,18 @@ async function processOutboxRow(row: {
     where: { id: row.id },
     data: {
       attempts,
-      status: exhausted ? "FAILED" : "PENDING",
+      status: exhausted || permanent ? "FAILED" : "PENDING",
       nextAttemptAt: new Date(Date.now() + backoffMs + jitter),
       lastError: result.error ?? null,
+      history: {
+        create: {
+          outcome: exhausted || permanent ? "FAILED" : "RETRY",
+          detail: result.error ?? null,
+          durationMs,
+          statusCode: result.statusCode,
+          responseSnippet: result.responseSnippet,
+        },
+      },
     },
   });
   if (exhausted) {
@@ -554,6 +760,28 @@ async function processOutboxRow(row: {
     });
     return "failed";
   }
+  if (permanent) {
+    // Not an outage: the downstream rejected the request for good or the
+    // target is gone. Warn and count, but don't page on it.
+    logger.warn(
+      {
+        outboxId: row.id,
+        channel: row.channel,
+        template: row.template,
+        attempts,
+        error: result.error,
+      },
+      "NotificationOutbox: permanent send failure — FAILED without retry"
+    );
+    trackMetricCount("notification_outbox.failed", 1, {
+      tags: {
+        channel: row.channel,
+        template: row.template,
+        permanent: "true",
+      },
+    });
+    return "failed";
+  }
   logger.warn(
     {
       outboxId: row.id,
@@ -568,7 +796,6 @@ async function processOutboxRow(row: {
   return "retrying";
 }
 
-
 async function dispatchNotification(
   channel: NotificationChannel,
   template: string,
@@ -581,37 +808,56 @@ async function dispatchNotification(
     case "slack":
       return dispatchSlack(template, target, payload);
     case "webhook":
-      // No webhook templates yet — kept so adding one is a local change.
-      // Log the unexpected attempt so a future enqueue that targets this
-      // channel without a dispatcher surfaces in logs (template + target
-      // included for triage).
-      logger.warn(
-        { channel: "webhook", template, target },
-        "NotificationOutbox: webhook dispatch attempted with no implementation"
+      return dispatchWebhook(target, payload as WebhookPayload);
+    case "pagerduty":
+    case "opsgenie":
+    case "teams":
+      return dispatchAlertChannel(
+        channel,
+        template,
+        target,
+        payload as AlertNotificationPayload
       );
-      return {
-        success: false,
-        error: `no dispatcher implemented for channel "${channel}"`,
-      };
   }
 }
 
 async function dispatchSlack(
   template: string,
-  _target: string,
-  _payload: OutboxJob["payload"]
+  target: string,
+  payload: OutboxJob["payload"]
 ): Promise<NotificationSendResult> {
-  logger.error({ template }, "NotificationOutbox: unknown slack template — cannot dispatch");
-  return { success: false, error: `unknown slack template: ${template}` };
+  switch (template) {
+    case "alert_trigger":
+    case "alert_resolve":
+      return dispatchAlertChannel(
+        "slack",
+        template,
+        target,
+        payload as AlertNotificationPayload
+      );
+    default:
+      logger.error(
+        { template },
+        "NotificationOutbox: unknown slack template — cannot dispatch"
+      );
+      return { success: false, error: `unknown slack template: ${template}` };
+  }
 }
 
-
 async function dispatchEmail(
   template: string,
   target: string,
   payload: OutboxJob["payload"]
 ): Promise<NotificationSendResult> {
   switch (template) {
+    case "alert_trigger":
+    case "alert_resolve":
+      return dispatchAlertChannel(
+        "email",
+        template,
+        target,
+        payload as AlertNotificationPayload
+      );
     case "upgrade_confirmation": {
       const p = payload as Extract<
         OutboxJob,
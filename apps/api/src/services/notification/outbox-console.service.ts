@@ -0,0 +1,378 @@
+/**
+ * Outbox console — the operator's view into NotificationOutbox.
+ *
+ * Rows that exhaust their retries end FAILED with nothing but a log line;
+ * this lists them (and every other row) with their attempt history, lets
+ * the platform admin replay a FAILED row — optionally to a new target —
+ * and purges finished rows in bulk. Instance-wide: the outbox carries
+ * every tenant's mail, so callers gate it to the platform administrator.
+ *
+ * Payloads are never returned — they hold reset, verification and
+ * invitation tokens.
+ */
+
+import { z } from "zod/v4";
+
+import { CodedError } from "@/core/coded-error";
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import {
+  ALERT_CHANNELS,
+  type AlertChannel,
+  type AlertNotificationPayload,
+} from "@/services/alert-channels/alert-payload";
+import { loadChannelTarget } from "@/services/alert-channels/dispatch";
+
+import {
+  type BreakerState,
+  type BreakerStateSnapshot,
+  MAX_ATTEMPTS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_OUTBOX_CHANNEL,
+  type NotificationChannel,
+  OUTBOX_BREAKER_STATE_KEY,
+} from "./notification-outbox.service";
+
+import type { Prisma } from "@/generated/prisma/client";
+
+export const OUTBOX_STATUSES = [
+  "PENDING",
+  "SENT",
+  "FAILED",
+  "CANCELLED",
+] as const;
+
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+/** Statuses the drain will not touch again — the only ones purge removes. */
+export const PURGEABLE_OUTBOX_STATUSES = [
+  "SENT",
+  "FAILED",
+  "CANCELLED",
+] as const satisfies readonly OutboxStatus[];
+
+export type PurgeableOutboxStatus = (typeof PURGEABLE_OUTBOX_STATUSES)[number];
+
+/** Attempts shown per row; older ones stay in the table. */
+const HISTORY_LIMIT = 50;
+
+export type OutboxConsoleErrorCode =
+  | "rowNotFound"
+  | "rowNotFailed"
+  | "targetInvalid";
+
+export class OutboxConsoleError extends CodedError<OutboxConsoleErrorCode> {}
+
+export interface OutboxRowFilter {
+  channel?: NotificationChannel;
+  status?: OutboxStatus;
+  template?: string;
+}
+
+export interface OutboxRowSummary {
+  id: string;
+  channel: string;
+  template: string;
+  target: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  nextAttemptAt: string;
+}
+
+export interface OutboxAttemptSummary {
+  id: string;
+  outcome: string;
+  detail: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+export interface OutboxRowDetail extends OutboxRowSummary {
+  idempotencyKey: string;
+  history: OutboxAttemptSummary[];
+}
+
+export interface OutboxOverview {
+  maxAttempts: number;
+  counts: { channel: string; status: string; count: number }[];
+  templates: string[];
+  breakers: {
+    channel: NotificationChannel;
+    state: BreakerState;
+    since: string | null;
+  }[];
+  /** When the drain worker last wrote its breaker states; null if never. */
+  breakersReportedAt: string | null;
+}
+
+const summarySelect = {
+  id: true,
+  channel: true,
+  template: true,
+  target: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  createdAt: true,
+  sentAt: true,
+  nextAttemptAt: true,
+} satisfies Prisma.NotificationOutboxSelect;
+
+type SummaryRow = Prisma.NotificationOutboxGetPayload<{
+  select: typeof summarySelect;
+}>;
+
+function toSummary(row: SummaryRow): OutboxRowSummary {
+  return {
+    id: row.id,
+    channel: row.channel,
+    template: row.template,
+    target: row.target,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.lastError,
+    createdAt: row.createdAt.toISOString(),
+    sentAt: row.sentAt?.toISOString() ?? null,
+    nextAttemptAt: row.nextAttemptAt.toISOString(),
+  };
+}
+
+function whereOf(filter: OutboxRowFilter): Prisma.NotificationOutboxWhereInput {
+  return {
+    ...(filter.channel && { channel: filter.channel }),
+    ...(filter.status && { status: filter.status }),
+    ...(filter.template && { template: filter.template }),
+  };
+}
+
+/** Newest first, paged by row id. */
+export async function listOutboxRows(
+  filter: OutboxRowFilter & { cursor?: string; limit: number }
+): Promise<{ items: OutboxRowSummary[]; nextCursor: string | null }> {
+  const rows = await prisma.notificationOutbox.findMany({
+    where: whereOf(filter),
+    select: summarySelect,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    cursor: filter.cursor ? { id: filter.cursor } : undefined,
+    skip: filter.cursor ? 1 : 0,
+    take: filter.limit + 1,
+  });
+  const hasMore = rows.length > filter.limit;
+  const items = hasMore ? rows.slice(0, filter.limit) : rows;
+  return {
+    items: items.map(toSummary),
+    nextCursor: hasMore ? (items[items.length - 1]?.id ?? null) : null,
+  };
+}
+
+export async function getOutboxRow(id: string): Promise<OutboxRowDetail> {
+  const row = await prisma.notificationOutbox.findUnique({
+    where: { id },
+    select: {
+      ...summarySelect,
+      idempotencyKey: true,
+      history: {
+        orderBy: { createdAt: "desc" },
+        take: HISTORY_LIMIT,
+      },
+    },
+  });
+  if (!row) {
+    throw new OutboxConsoleError("rowNotFound", `Outbox row ${id} not found`);
+  }
+  return {
+    ...toSummary(row),
+    idempotencyKey: row.idempotencyKey,
+    history: row.history.map((attempt) => ({
+      id: attempt.id,
+      outcome: attempt.outcome,
+      detail: attempt.detail,
+      durationMs: attempt.durationMs,
+      createdAt: attempt.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Read the breaker snapshot the drain worker publishes. Channels missing
+ * from it (no snapshot yet, or a channel added since) read as closed —
+ * the state every breaker starts in.
+ */
+async function readBreakerStates(): Promise<
+  Pick<OutboxOverview, "breakers" | "breakersReportedAt">
+> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: OUTBOX_BREAKER_STATE_KEY },
+  });
+  let snapshot: Partial<BreakerStateSnapshot> = {};
+  if (setting) {
+    try {
+      snapshot = JSON.parse(setting.value) as Partial<BreakerStateSnapshot>;
+    } catch (error) {
+      logger.warn(
+        { error },
+        "Malformed outbox breaker snapshot, reporting all breakers closed"
+      );
+    }
+  }
+  return {
+    breakers: NOTIFICATION_CHANNELS.map((channel) => ({
+      channel,
+      state: snapshot[channel]?.state ?? "closed",
+      since: snapshot[channel]?.since ?? null,
+    })),
+    breakersReportedAt: setting?.updatedAt.toISOString() ?? null,
+  };
+}
+
+/** Row counts per channel and status, the known templates, and breakers. */
+export async function getOutboxOverview(): Promise<OutboxOverview> {
+  const [groups, templates, breakers] = await Promise.all([
+    prisma.notificationOutbox.groupBy({
+      by: ["channel", "status"],
+      _count: { _all: true },
+    }),
+    prisma.notificationOutbox.findMany({
+      distinct: ["template"],
+      select: { template: true },
+      orderBy: { template: "asc" },
+    }),
+    readBreakerStates(),
+  ]);
+  return {
+    maxAttempts: MAX_ATTEMPTS,
+    counts: groups.map((group) => ({
+      channel: group.channel,
+      status: group.status,
+      count: group._count._all,
+    })),
+    templates: templates.map((row) => row.template),
+    ...breakers,
+  };
+}
+
+/**
+ * Check a new target before a row is sent there: an address for email,
+ * and for alert channels a config of the same kind in the alert's own
+ * workspace — never another tenant's.
+ */
+async function assertValidTarget(
+  row: { channel: string; payload: Prisma.JsonValue },
+  target: string
+): Promise<void> {
+  if (row.channel === "email") {
+    if (!z.email().safeParse(target).success) {
+      throw new OutboxConsoleError(
+        "targetInvalid",
+        `"${target}" is not an email address`
+      );
+    }
+    return;
+  }
+  if ((ALERT_CHANNELS as readonly string[]).includes(row.channel)) {
+    const { alertId } = row.payload as AlertNotificationPayload;
+    const alert = await prisma.alert.findUnique({
+      where: { id: alertId },
+      select: { workspaceId: true },
+    });
+    const config =
+      alert &&
+      (await loadChannelTarget(
+        row.channel as AlertChannel,
+        target,
+        alert.workspaceId
+      ));
+    if (!config) {
+      throw new OutboxConsoleError(
+        "targetInvalid",
+        `No ${row.channel} channel ${target} in the alert's workspace`
+      );
+    }
+    return;
+  }
+  // Slack and webhook rows carry no target format we could check.
+}
+
+/**
+ * Put a FAILED row back in the queue with a fresh set of attempts,
+ * optionally sending it to `target` instead. The row keeps its id and
+ * idempotency key; a REPLAYED entry in its history marks the restart.
+ */
+export async function replayOutboxRow(
+  id: string,
+  options: { target?: string } = {}
+): Promise<OutboxRowSummary> {
+  const row = await prisma.notificationOutbox.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      channel: true,
+      status: true,
+      target: true,
+      payload: true,
+    },
+  });
+  if (!row) {
+    throw new OutboxConsoleError("rowNotFound", `Outbox row ${id} not found`);
+  }
+  if (row.status !== "FAILED") {
+    throw new OutboxConsoleError(
+      "rowNotFailed",
+      `Outbox row ${id} is ${row.status}; only FAILED rows can be replayed`
+    );
+  }
+  const retarget =
+    options.target !== undefined && options.target !== row.target;
+  if (retarget) {
+    await assertValidTarget(row, options.target!);
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.notificationOutbox.update({
+      where: { id },
+      data: {
+        status: "PENDING",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+        ...(retarget && { target: options.target }),
+        history: {
+          create: {
+            outcome: "REPLAYED",
+            detail: retarget
+              ? `retargeted from ${row.target} to ${options.target}`
+              : null,
+          },
+        },
+      },
+      select: summarySelect,
+    }),
+    // Wake the drain worker instead of waiting for its next poll.
+    prisma.$executeRawUnsafe(`NOTIFY ${NOTIFICATION_OUTBOX_CHANNEL}`),
+  ]);
+  return toSummary(updated);
+}
+
+/**
+ * Delete finished rows matching the filter (and, when given, only the
+ * listed ids). PENDING rows are never purged — that would drop mail the
+ * drain is still going to send.
+ */
+export async function purgeOutboxRows(
+  filter: Omit<OutboxRowFilter, "status"> & {
+    status: PurgeableOutboxStatus;
+    ids?: string[];
+  }
+): Promise<number> {
+  const { count } = await prisma.notificationOutbox.deleteMany({
+    where: {
+      ...whereOf(filter),
+      ...(filter.ids && { id: { in: filter.ids } }),
+    },
+  });
+  return count;
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockCreate, mockUpdate, mockItemUpdate } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockUpdate: vi.fn(),
+  mockItemUpdate: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    queueBulkOperation: { create: mockCreate, update: mockUpdate },
+    queueBulkOperationItem: { update: mockItemUpdate },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  BULK_STALE_AFTER_MS,
+  MAX_BULK_QUEUES,
+  runBulkOperation,
+  serializeBulkOperation,
+} from "../queue-bulk.service";
+
+import { Prisma, type QueueBulkOperation } from "@/generated/prisma/client";
+
+const OPERATION_ID = "5d0c8a52-51b1-4a53-9f0f-8f3f6f0d2a11";
+
+function params(overrides: Partial<Parameters<typeof runBulkOperation>[0]>) {
+  return {
+    id: OPERATION_ID,
+    workspaceId: "ws-1",
+    serverId: "srv-1",
+    action: "PURGE" as const,
+    selector: null,
+    options: null,
+    requestedById: "user-1",
+    queues: [
+      { name: "test.a", vhost: "/" },
+      { name: "test.b", vhost: "/" },
+      { name: "test.c", vhost: "/" },
+    ],
+    perform: vi.fn().mockResolvedValue(undefined),
+    onSucceeded: vi.fn(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockCreate.mockResolvedValue({});
+  mockItemUpdate.mockResolvedValue({});
+  mockUpdate.mockResolvedValue({ id: OPERATION_ID, items: [] });
+});
+
+describe("runBulkOperation", () => {
+  it("records the run and one item per queue before acting", async () => {
+    const run = params({});
+
+    await runBulkOperation(run);
+
+    const { data } = mockCreate.mock.calls[0][0];
+    expect(data).toMatchObject({ id: OPERATION_ID, total: 3 });
+    expect(data.items.createMany.data).toEqual([
+      { position: 0, vhost: "/", queueName: "test.a" },
+      { position: 1, vhost: "/", queueName: "test.b" },
+      { position: 2, vhost: "/", queueName: "test.c" },
+    ]);
+    expect(run.perform).toHaveBeenCalledTimes(3);
+  });
+
+  it("settles failures per item and only audits successes", async () => {
+    const run = params({
+      perform: vi.fn(async (queue: { name: string }) => {
+        if (queue.name === "test.b") throw new Error("RabbitMQ API error: 404");
+      }),
+    });
+
+    await runBulkOperation(run);
+
+    expect(mockItemUpdate).toHaveBeenCalledWith({
+      where: {
+        operationId_position: { operationId: OPERATION_ID, position: 1 },
+      },
+      data: expect.objectContaining({
+        status: "FAILED",
+        error: "RabbitMQ API error: 404",
+      }),
+    });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: OPERATION_ID },
+      data: { failed: { increment: 1 } },
+    });
+    expect(run.onSucceeded).toHaveBeenCalledTimes(2);
+    expect(run.onSucceeded).not.toHaveBeenCalledWith({
+      name: "test.b",
+      vhost: "/",
+    });
+    expect(mockUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "COMPLETED" }),
+      })
+    );
+  });
+
+  it("refuses an empty or oversized target", async () => {
+    await expect(
+      runBulkOperation(params({ queues: [] }))
+    ).rejects.toMatchObject({ code: "bulkNothingMatched" });
+    const tooMany = Array.from({ length: MAX_BULK_QUEUES + 1 }, (_, i) => ({
+      name: `q${i}`,
+      vhost: "/",
+    }));
+    await expect(
+      runBulkOperation(params({ queues: tooMany }))
+    ).rejects.toMatchObject({ code: "bulkTooManyQueues" });
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("maps a reused operation id to bulkOperationExists", async () => {
+    mockCreate.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("duplicate", {
+        code: "P2002",
+        clientVersion: "test",
+      })
+    );
+    const run = params({});
+
+    await expect(runBulkOperation(run)).rejects.toMatchObject({
+      code: "bulkOperationExists",
+    });
+    expect(run.perform).not.toHaveBeenCalled();
+  });
+});
+
+describe("serializeBulkOperation", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  const operation = {
+    id: OPERATION_ID,
+    serverId: "srv-1",
+    action: "DELETE",
+    status: "RUNNING",
+    total: 3,
+    succeeded: 1,
+    failed: 0,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+  } as unknown as QueueBulkOperation;
+
+  it("flags a run that stopped making progress as interrupted", () => {
+    expect(serializeBulkOperation(operation, now).interrupted).toBe(false);
+    const later = new Date(now.getTime() + BULK_STALE_AFTER_MS + 1);
+    expect(serializeBulkOperation(operation, later).interrupted).toBe(true);
+  });
+});
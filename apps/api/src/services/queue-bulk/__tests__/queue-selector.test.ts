@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  matchesSelector,
+  parseIdleSince,
+  resolveBulkTarget,
+} from "../queue-selector";
+
+const queues = [
+  {
+    name: "test.orders",
+    vhost: "/",
+    messages: 0,
+    consumers: 0,
+    idle_since: "2026-10-01 08:00:00",
+  },
+  { name: "test.billing", vhost: "/", messages: 12, consumers: 0 },
+  {
+    name: "test.audit",
+    vhost: "staging",
+    messages: 0,
+    consumers: 1,
+    idle_since: "2026-10-18T08:00:00.000+00:00",
+  },
+  { name: "orders", vhost: "/", messages: 0, consumers: 2 },
+  { name: "qarote.trace.v2.srv-1./", vhost: "/", messages: 0, consumers: 1 },
+];
+
+describe("parseIdleSince", () => {
+  it("reads the zone-less broker format as UTC", () => {
+    expect(parseIdleSince("2026-10-01 08:00:00")?.toISOString()).toBe(
+      "2026-10-01T08:00:00.000Z"
+    );
+  });
+
+  it("reads ISO-8601 with an offset", () => {
+    expect(parseIdleSince("2026-10-18T10:00:00.000+02:00")?.toISOString()).toBe(
+      "2026-10-18T08:00:00.000Z"
+    );
+  });
+
+  it("returns null for an active queue or garbage", () => {
+    expect(parseIdleSince(undefined)).toBeNull();
+    expect(parseIdleSince("not a date")).toBeNull();
+  });
+});
+
+describe("matchesSelector", () => {
+  it("never treats unknown counts as zero", () => {
+    expect(
+      matchesSelector({ name: "q", vhost: "/" }, { emptyOnly: true })
+    ).toBe(false);
+  });
+
+  it("matches queues idle since the cutoff or earlier", () => {
+    const cutoff = new Date("2026-10-10T00:00:00Z");
+    expect(matchesSelector(queues[0], { idleSince: cutoff })).toBe(true);
+    expect(matchesSelector(queues[2], { idleSince: cutoff })).toBe(false);
+    expect(matchesSelector(queues[1], { idleSince: cutoff })).toBe(false);
+  });
+});
+
+describe("resolveBulkTarget", () => {
+  it("combines every selector criterion", () => {
+    const { matched } = resolveBulkTarget(queues, {
+      selector: {
+        nameRegex: "^test\\.",
+        emptyOnly: true,
+        withoutConsumers: true,
+      },
+    });
+    expect(matched.map((q) => q.name)).toEqual(["test.orders"]);
+  });
+
+  it("matches the name pattern case-insensitively, like the list filter", () => {
+    const { matched } = resolveBulkTarget(
+      [
+        { name: "legacy.v1", vhost: "/" },
+        { name: "current.v2", vhost: "/" },
+      ],
+      { selector: { nameRegex: "^LEGACY\\." } }
+    );
+    expect(matched.map((q) => q.name)).toEqual(["legacy.v1"]);
+  });
+
+  it("never selects Qarote's internal queues", () => {
+    const result = resolveBulkTarget(queues, {
+      selector: { vhost: "/", withoutConsumers: false },
+    });
+    expect(result.matched.map((q) => q.name)).not.toContain(
+      "qarote.trace.v2.srv-1./"
+    );
+    expect(result.skippedInternal).toBe(1);
+  });
+
+  it("resolves an explicit list, reporting missing and internal names", () => {
+    const result = resolveBulkTarget(queues, {
+      queues: [
+        { name: "orders", vhost: "/" },
+        { name: "orders", vhost: "/" },
+        { name: "orders", vhost: "staging" },
+        { name: "qarote.trace.v2.srv-1./", vhost: "/" },
+      ],
+    });
+    expect(result.matched.map((q) => q.name)).toEqual(["orders"]);
+    expect(result.notFound).toEqual([{ name: "orders", vhost: "staging" }]);
+    expect(result.skippedInternal).toBe(1);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Bulk queue operations — target resolution (`queue-selector.ts`) and the
+ * recorded, progress-streaming run (`queue-bulk.service.ts`).
+ */
+
+export type { QueueBulkErrorCode } from "./queue-bulk.service";
+export {
+  BULK_STALE_AFTER_MS,
+  getBulkItems,
+  getBulkOperation,
+  getSettledBulkItems,
+  isInterruptedRun,
+  MAX_BULK_QUEUES,
+  QueueBulkError,
+  runBulkOperation,
+  serializeBulkItem,
+  serializeBulkOperation,
+} from "./queue-bulk.service";
+export type {
+  BulkQueueTarget,
+  QueueRef,
+  QueueSelector,
+} from "./queue-selector";
+export {
+  matchesSelector,
+  parseIdleSince,
+  resolveBulkTarget,
+} from "./queue-selector";
@@ -0,0 +1,257 @@
+/**
+ * Queue Bulk Service
+ *
+ * Runs one action over many queues and records every step: the run row
+ * and one item per queue are written up front, each item is settled as it
+ * finishes, and the run's counters move with it. The executing request
+ * holds the run; progress is read back from Postgres, so a subscriber on
+ * any API replica sees the same thing.
+ *
+ * The action itself is a callback — the router supplies the broker call
+ * and the audit entry, the same ones the single-queue procedures use.
+ */
+
+import { CodedError } from "@/core/coded-error";
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import type { QueueRef, QueueSelector } from "./queue-selector";
+
+import {
+  Prisma,
+  type QueueBulkAction,
+  QueueBulkItemStatus,
+  type QueueBulkOperation,
+  type QueueBulkOperationItem,
+  QueueBulkOperationStatus,
+} from "@/generated/prisma/client";
+
+/** Upper bound on queues per run — bigger sets are split by the caller. */
+export const MAX_BULK_QUEUES = 1000;
+
+/** Broker calls in flight at once; keeps a 300-queue cleanup off the broker's back. */
+const BULK_CONCURRENCY = 4;
+
+/**
+ * A run still `RUNNING` with no progress for this long lost its process
+ * (crash, deploy) — reported as interrupted instead of streaming forever.
+ */
+export const BULK_STALE_AFTER_MS = 2 * 60_000;
+
+export type QueueBulkErrorCode =
+  | "bulkOperationExists"
+  | "bulkTooManyQueues"
+  | "bulkNothingMatched";
+
+export class QueueBulkError extends CodedError<QueueBulkErrorCode> {}
+
+export interface BulkRunParams {
+  id: string;
+  workspaceId: string;
+  serverId: string;
+  action: QueueBulkAction;
+  selector: QueueSelector | null;
+  options: Prisma.InputJsonObject | null;
+  requestedById: string | null;
+  queues: QueueRef[];
+  /** Applies the action to one queue; a throw marks the item failed. */
+  perform: (queue: QueueRef) => Promise<void>;
+  /** Called once per queue the action succeeded on (the audit entry). */
+  onSucceeded: (queue: QueueRef) => void;
+}
+
+type OperationWithItems = QueueBulkOperation & {
+  items: QueueBulkOperationItem[];
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function runBulkOperation(
+  params: BulkRunParams
+): Promise<OperationWithItems> {
+  const { id, queues } = params;
+  if (queues.length === 0) {
+    throw new QueueBulkError("bulkNothingMatched", "No queues matched");
+  }
+  if (queues.length > MAX_BULK_QUEUES) {
+    throw new QueueBulkError(
+      "bulkTooManyQueues",
+      `A bulk operation is limited to ${MAX_BULK_QUEUES} queues`
+    );
+  }
+
+  try {
+    await prisma.queueBulkOperation.create({
+      data: {
+        id,
+        workspaceId: params.workspaceId,
+        serverId: params.serverId,
+        action: params.action,
+        selector: params.selector
+          ? {
+              ...params.selector,
+              idleSince: params.selector.idleSince?.toISOString(),
+            }
+          : Prisma.DbNull,
+        options: params.options ?? Prisma.DbNull,
+        total: queues.length,
+        requestedById: params.requestedById,
+        items: {
+          createMany: {
+            data: queues.map((queue, position) => ({
+              position,
+              vhost: queue.vhost,
+              queueName: queue.name,
+            })),
+          },
+        },
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new QueueBulkError(
+        "bulkOperationExists",
+        `Bulk operation ${id} already exists`
+      );
+    }
+    throw error;
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < queues.length) {
+      const position = next++;
+      await settleItem(params, position);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(BULK_CONCURRENCY, queues.length) }, worker)
+  );
+
+  return prisma.queueBulkOperation.update({
+    where: { id },
+    data: {
+      status: QueueBulkOperationStatus.COMPLETED,
+      finishedAt: new Date(),
+    },
+    include: { items: { orderBy: { position: "asc" } } },
+  });
+}
+
+async function settleItem(
+  params: BulkRunParams,
+  position: number
+): Promise<void> {
+  const queue = params.queues[position];
+  let error: string | null = null;
+  try {
+    await params.perform(queue);
+  } catch (err) {
+    error = errorMessage(err);
+    logger.warn(
+      { err, operationId: params.id, queue: queue.name, vhost: queue.vhost },
+      `Bulk ${params.action.toLowerCase()} failed for a queue`
+    );
+  }
+
+  await prisma.queueBulkOperationItem.update({
+    where: { operationId_position: { operationId: params.id, position } },
+    data: {
+      status: error
+        ? QueueBulkItemStatus.FAILED
+        : QueueBulkItemStatus.SUCCEEDED,
+      error,
+      finishedAt: new Date(),
+    },
+  });
+  await prisma.queueBulkOperation.update({
+    where: { id: params.id },
+    data: error
+      ? { failed: { increment: 1 } }
+      : { succeeded: { increment: 1 } },
+  });
+
+  if (!error) params.onSucceeded(queue);
+}
+
+export function getBulkOperation(
+  id: string,
+  serverId: string,
+  workspaceId: string
+): Promise<QueueBulkOperation | null> {
+  return prisma.queueBulkOperation.findFirst({
+    where: { id, serverId, workspaceId },
+  });
+}
+
+/** Items settled at or after `since`, oldest first. */
+export function getSettledBulkItems(
+  operationId: string,
+  since: Date | null
+): Promise<QueueBulkOperationItem[]> {
+  return prisma.queueBulkOperationItem.findMany({
+    where: {
+      operationId,
+      status: { not: QueueBulkItemStatus.PENDING },
+      ...(since && { finishedAt: { gte: since } }),
+    },
+    orderBy: [{ finishedAt: "asc" }, { position: "asc" }],
+  });
+}
+
+export function getBulkItems(
+  operationId: string
+): Promise<QueueBulkOperationItem[]> {
+  return prisma.queueBulkOperationItem.findMany({
+    where: { operationId },
+    orderBy: { position: "asc" },
+  });
+}
+
+/**
+ * Still `RUNNING` with no progress for `staleAfterMs`: the process
+ * executing the run went away. Shared with the vhost clone runs.
+ */
+export function isInterruptedRun(
+  run: { status: string; updatedAt: Date },
+  staleAfterMs: number,
+  now: Date
+): boolean {
+  return (
+    run.status === "RUNNING" &&
+    now.getTime() - run.updatedAt.getTime() > staleAfterMs
+  );
+}
+
+export function serializeBulkOperation(
+  operation: QueueBulkOperation,
+  now = new Date()
+) {
+  return {
+    id: operation.id,
+    serverId: operation.serverId,
+    action: operation.action,
+    status: operation.status,
+    interrupted: isInterruptedRun(operation, BULK_STALE_AFTER_MS, now),
+    total: operation.total,
+    succeeded: operation.succeeded,
+    failed: operation.failed,
+    createdAt: operation.createdAt.toISOString(),
+    finishedAt: operation.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export function serializeBulkItem(item: QueueBulkOperationItem) {
+  return {
+    position: item.position,
+    queueName: item.queueName,
+    vhost: item.vhost,
+    status: item.status,
+    error: item.error,
+  };
+}
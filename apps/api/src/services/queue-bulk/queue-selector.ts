@@ -0,0 +1,122 @@
+/**
+ * Resolves the target of a bulk queue operation — an explicit list or a
+ * selector — against the broker's current queue list. Qarote's own queues
+ * are dropped before anything else, so no selector can reach them.
+ */
+
+import { isQaroteInternalQueue } from "@/core/rabbitmq/internal-queues";
+
+/** Every set criterion must hold; at least one is required. */
+export interface QueueSelector {
+  vhost?: string;
+  /** Case-insensitive, like the list pages' regex filter; must compile. */
+  nameRegex?: string;
+  /** `messages == 0` */
+  emptyOnly?: boolean;
+  /** `consumers == 0` */
+  withoutConsumers?: boolean;
+  /** Idle (no publish / deliver activity) since this time or earlier. */
+  idleSince?: Date;
+}
+
+export interface QueueRef {
+  name: string;
+  vhost: string;
+}
+
+export type BulkQueueTarget =
+  | { queues: QueueRef[] }
+  | { selector: QueueSelector };
+
+/** The broker fields selection looks at. */
+export interface SelectableQueue {
+  name: string;
+  vhost: string;
+  messages?: number;
+  consumers?: number;
+  idle_since?: string;
+}
+
+export interface ResolvedTarget<Q extends SelectableQueue> {
+  matched: Q[];
+  /** Listed explicitly but not on the broker. */
+  notFound: QueueRef[];
+  /** Qarote-internal queues the target named or the selector matched. */
+  skippedInternal: number;
+}
+
+/**
+ * `idle_since` arrives as "2026-10-19 12:00:00" (UTC, no zone) on older
+ * brokers and as ISO-8601 on newer ones. Absent when the queue is active.
+ */
+export function parseIdleSince(value: string | undefined): Date | null {
+  if (!value) return null;
+  const iso = value.includes("T") ? value : value.replace(" ", "T");
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(iso);
+  const parsed = new Date(hasZone ? iso : `${iso}Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function matchesSelector(
+  queue: SelectableQueue,
+  selector: QueueSelector
+): boolean {
+  if (selector.vhost !== undefined && queue.vhost !== selector.vhost) {
+    return false;
+  }
+  // Unknown counts (stats not yet collected) never match a "== 0" test
+  if (selector.emptyOnly && queue.messages !== 0) return false;
+  if (selector.withoutConsumers && queue.consumers !== 0) return false;
+  if (selector.idleSince) {
+    const idleSince = parseIdleSince(queue.idle_since);
+    if (!idleSince || idleSince.getTime() > selector.idleSince.getTime()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function resolveBulkTarget<Q extends SelectableQueue>(
+  brokerQueues: Q[],
+  target: BulkQueueTarget
+): ResolvedTarget<Q> {
+  const userQueues = brokerQueues.filter((q) => !isQaroteInternalQueue(q.name));
+
+  if ("queues" in target) {
+    const byKey = new Map(userQueues.map((q) => [`${q.vhost}|${q.name}`, q]));
+    const seen = new Set<string>();
+    const matched: Q[] = [];
+    const notFound: QueueRef[] = [];
+    let skippedInternal = 0;
+    for (const ref of target.queues) {
+      const key = `${ref.vhost}|${ref.name}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (isQaroteInternalQueue(ref.name)) {
+        skippedInternal++;
+        continue;
+      }
+      const queue = byKey.get(key);
+      if (queue) matched.push(queue);
+      else notFound.push(ref);
+    }
+    return { matched, notFound, skippedInternal };
+  }
+
+  const { selector } = target;
+  const nameRegex = selector.nameRegex
+    ? new RegExp(selector.nameRegex, "i")
+    : null;
+  const select = (queues: Q[]) =>
+    queues.filter(
+      (q) =>
+        (!nameRegex || nameRegex.test(q.name)) && matchesSelector(q, selector)
+    );
+  return {
+    matched: select(userQueues),
+    notFound: [],
+    skippedInternal: select(
+      brokerQueues.filter((q) => isQaroteInternalQueue(q.name))
+    ).length,
+  };
+}
@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockFindMany,
+  mockUpdateMany,
+  mockRecordAuditLog,
+  mockConnect,
+  mockPauseQueue,
+  mockCancelConsumer,
+  mockDisconnect,
+} = vi.hoisted(() => ({
+  mockFindMany: vi.fn(),
+  mockUpdateMany: vi.fn(),
+  mockRecordAuditLog: vi.fn(),
+  mockConnect: vi.fn(),
+  mockPauseQueue: vi.fn(),
+  mockCancelConsumer: vi.fn(),
+  mockDisconnect: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    queuePause: { findMany: mockFindMany, updateMany: mockUpdateMany },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("@/services/audit", () => ({ recordAuditLog: mockRecordAuditLog }));
+
+vi.mock("@/services/encryption.service", () => ({
+  EncryptionService: { decrypt: (value: string) => value },
+}));
+
+vi.mock("@/services/broker-tls", () => ({
+  BROKER_TLS_SELECT: {},
+  decryptBrokerTls: () => undefined,
+}));
+
+vi.mock("@/core/rabbitmq/AmqpClient", () => ({
+  RabbitMQAmqpClient: class {
+    private connected = false;
+    async connect() {
+      await mockConnect();
+      this.connected = true;
+    }
+    isConnectionActive() {
+      return this.connected;
+    }
+    pauseQueue = mockPauseQueue;
+    cancelConsumer = mockCancelConsumer;
+    async disconnect() {
+      this.connected = false;
+      await mockDisconnect();
+    }
+  },
+}));
+
+import { QueuePauseReconciler } from "../queue-pause.reconciler";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const SERVER = {
+  id: "srv-1",
+  name: "prod",
+  host: "rabbit.internal",
+  port: 15672,
+  amqpPort: 5672,
+  username: "qarote",
+  password: "secret",
+  useHttps: false,
+  workspaceId: "ws-1",
+};
+
+function pausedRow(id: string, queueName: string, pausedUntil?: Date) {
+  return {
+    id,
+    serverId: SERVER.id,
+    vhost: "/",
+    queueName,
+    status: "PAUSED",
+    reason: "deploy",
+    pausedById: "user-1",
+    pausedUntil: pausedUntil ?? null,
+    server: SERVER,
+  };
+}
+
+/** findMany is called for expired rows first, then for desired rows. */
+function queueCycle(expired: unknown[], desired: unknown[]) {
+  mockFindMany.mockResolvedValueOnce(expired).mockResolvedValueOnce(desired);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockUpdateMany.mockResolvedValue({ count: 1 });
+  mockPauseQueue.mockImplementation(async (_queue: string, tag: string) => tag);
+});
+
+describe("QueuePauseReconciler", () => {
+  it("re-applies every persisted pause on its first cycle", async () => {
+    const reconciler = new QueuePauseReconciler();
+    queueCycle([], [pausedRow("p-1", "orders"), pausedRow("p-2", "billing")]);
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats).toMatchObject({ applied: 2, failed: 0 });
+    // One connection per (server, vhost)
+    expect(mockConnect).toHaveBeenCalledTimes(1);
+    expect(mockPauseQueue).toHaveBeenCalledWith(
+      "orders",
+      "qarote-pause-p-1",
+      expect.any(Function)
+    );
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: "p-1", status: "PAUSED" },
+      data: expect.objectContaining({
+        consumerTag: "qarote-pause-p-1",
+        lastError: null,
+      }),
+    });
+  });
+
+  it("leaves a held pause alone on the next cycle", async () => {
+    const reconciler = new QueuePauseReconciler();
+    queueCycle([], [pausedRow("p-1", "orders")]);
+    await reconciler.reconcile(NOW);
+    queueCycle([], [pausedRow("p-1", "orders")]);
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats.applied).toBe(0);
+    expect(mockPauseQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-attaches a consumer the broker cancelled", async () => {
+    const reconciler = new QueuePauseReconciler();
+    queueCycle([], [pausedRow("p-1", "orders")]);
+    await reconciler.reconcile(NOW);
+    const onCancelled = mockPauseQueue.mock.calls[0][2] as () => void;
+    onCancelled();
+    queueCycle([], [pausedRow("p-1", "orders")]);
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats.applied).toBe(1);
+    expect(mockPauseQueue).toHaveBeenCalledTimes(2);
+  });
+
+  it("cancels the consumer and closes the connection once resumed", async () => {
+    const reconciler = new QueuePauseReconciler();
+    queueCycle([], [pausedRow("p-1", "orders")]);
+    await reconciler.reconcile(NOW);
+    queueCycle([], []);
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats.released).toBe(1);
+    expect(mockCancelConsumer).toHaveBeenCalledWith("qarote-pause-p-1");
+    expect(mockDisconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("resumes expired schedules and audits them as system actions", async () => {
+    const reconciler = new QueuePauseReconciler();
+    const until = new Date(NOW.getTime() - 1_000);
+    queueCycle([pausedRow("p-1", "orders", until)], []);
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats.expired).toBe(1);
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: "p-1", status: "PAUSED", pausedUntil: until },
+      data: expect.objectContaining({
+        status: "RESUMED",
+        resumeTrigger: "SCHEDULED",
+      }),
+    });
+    expect(mockRecordAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: null,
+        action: "rabbitmq.queue.resumed",
+        workspaceId: "ws-1",
+        metadata: expect.objectContaining({ trigger: "scheduled" }),
+      })
+    );
+  });
+
+  it("skips the audit when a re-pause moved the schedule first", async () => {
+    const reconciler = new QueuePauseReconciler();
+    queueCycle([pausedRow("p-1", "orders", new Date(NOW.getTime() - 1))], []);
+    mockUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats.expired).toBe(0);
+    expect(mockRecordAuditLog).not.toHaveBeenCalled();
+  });
+
+  it("records the broker error when a pause cannot be applied", async () => {
+    const reconciler = new QueuePauseReconciler();
+    mockPauseQueue.mockRejectedValueOnce(new Error("NOT_FOUND - no queue"));
+    queueCycle([], [pausedRow("p-1", "orders")]);
+
+    const stats = await reconciler.reconcile(NOW);
+
+    expect(stats.failed).toBe(1);
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: "p-1", status: "PAUSED" },
+      data: {
+        consumerTag: null,
+        appliedAt: null,
+        lastError: "NOT_FOUND - no queue",
+      },
+    });
+  });
+});
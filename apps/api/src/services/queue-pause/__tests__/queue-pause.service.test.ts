@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockFindUnique, mockUpsert, mockUpdateMany, mockExecuteRaw } =
+  vi.hoisted(() => ({
+    mockFindUnique: vi.fn(),
+    mockUpsert: vi.fn(),
+    mockUpdateMany: vi.fn(),
+    mockExecuteRaw: vi.fn(),
+  }));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    queuePause: {
+      findUnique: mockFindUnique,
+      findUniqueOrThrow: mockFindUnique,
+      upsert: mockUpsert,
+      updateMany: mockUpdateMany,
+    },
+    $executeRawUnsafe: mockExecuteRaw,
+  },
+}));
+
+import {
+  assessPauseDrift,
+  PAUSE_DRIFT_GRACE_MS,
+  QueuePauseError,
+  requestQueuePause,
+  requestQueueResume,
+  serializeQueuePause,
+} from "../queue-pause.service";
+
+import type { QueuePause } from "@/generated/prisma/client";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const REF = { serverId: "srv-1", vhost: "/", queueName: "orders" };
+const ACTOR = { id: "user-1", email: "ops@example.com" };
+
+function pause(overrides: Partial<QueuePause> = {}): QueuePause {
+  return {
+    id: "p-1",
+    ...REF,
+    status: "PAUSED",
+    reason: "deploy",
+    pausedById: "user-1",
+    pausedByEmail: "ops@example.com",
+    pausedAt: new Date(NOW.getTime() - 10 * 60_000),
+    pausedUntil: null,
+    resumedById: null,
+    resumedAt: null,
+    resumeTrigger: null,
+    consumerTag: "qarote-pause-p-1",
+    appliedAt: new Date(NOW.getTime() - 9 * 60_000),
+    lastError: null,
+    createdAt: new Date(NOW.getTime() - 10 * 60_000),
+    updatedAt: new Date(NOW.getTime() - 9 * 60_000),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockUpsert.mockImplementation(async () => pause());
+});
+
+describe("requestQueuePause", () => {
+  it("rejects a pausedUntil that is not in the future", async () => {
+    await expect(
+      requestQueuePause(REF, ACTOR, { pausedUntil: NOW }, NOW)
+    ).rejects.toMatchObject({ code: "pauseUntilInPast" });
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it("resets the resume fields when re-pausing a resumed queue", async () => {
+    mockFindUnique.mockResolvedValue(
+      pause({ status: "RESUMED", resumedAt: NOW, resumeTrigger: "MANUAL" })
+    );
+
+    await requestQueuePause(REF, ACTOR, { reason: "deploy" }, NOW);
+
+    const { update } = mockUpsert.mock.calls[0][0];
+    expect(update).toMatchObject({
+      status: "PAUSED",
+      pausedAt: NOW,
+      resumedAt: null,
+      resumeTrigger: null,
+      consumerTag: null,
+      pausedByEmail: "ops@example.com",
+    });
+    expect(mockExecuteRaw).toHaveBeenCalledWith("NOTIFY queue_pause_changed");
+  });
+
+  it("keeps pausedAt and the held consumer when already paused", async () => {
+    mockFindUnique.mockResolvedValue(pause());
+    const until = new Date(NOW.getTime() + 3_600_000);
+
+    await requestQueuePause(REF, ACTOR, { pausedUntil: until }, NOW);
+
+    const { update } = mockUpsert.mock.calls[0][0];
+    expect(update).toEqual({
+      reason: null,
+      pausedUntil: until,
+      pausedById: "user-1",
+      pausedByEmail: "ops@example.com",
+    });
+  });
+});
+
+describe("requestQueueResume", () => {
+  it("throws queueNotPaused when no paused row matched", async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+
+    const error = await requestQueueResume(REF, ACTOR, NOW).catch((e) => e);
+
+    expect(error).toBeInstanceOf(QueuePauseError);
+    expect(error.code).toBe("queueNotPaused");
+    expect(mockExecuteRaw).not.toHaveBeenCalled();
+  });
+
+  it("marks the row resumed manually and wakes the worker", async () => {
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    mockFindUnique.mockResolvedValue(pause({ status: "RESUMED" }));
+
+    await requestQueueResume(REF, ACTOR, NOW);
+
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { ...REF, status: "PAUSED" },
+      data: {
+        status: "RESUMED",
+        resumedAt: NOW,
+        resumedById: "user-1",
+        resumeTrigger: "MANUAL",
+      },
+    });
+    expect(mockExecuteRaw).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("assessPauseDrift", () => {
+  it("agrees when a paused queue has its blocking consumer", () => {
+    expect(assessPauseDrift(pause(), 1, NOW)).toBeNull();
+  });
+
+  it("flags a settled pause with no consumer on the broker", () => {
+    expect(assessPauseDrift(pause(), 0, NOW)).toEqual({
+      kind: "consumer_missing",
+      brokerPauseConsumers: 0,
+    });
+  });
+
+  it("gives a fresh pause the grace window", () => {
+    const fresh = pause({
+      pausedAt: new Date(NOW.getTime() - PAUSE_DRIFT_GRACE_MS / 2),
+      appliedAt: null,
+    });
+    expect(assessPauseDrift(fresh, 0, NOW)).toBeNull();
+  });
+
+  it("flags a schedule that passed without a resume", () => {
+    const overdue = pause({
+      pausedUntil: new Date(NOW.getTime() - 2 * PAUSE_DRIFT_GRACE_MS),
+    });
+    expect(assessPauseDrift(overdue, 1, NOW)?.kind).toBe("resume_overdue");
+  });
+
+  it("flags a blocking consumer left behind after a resume", () => {
+    const resumed = pause({
+      status: "RESUMED",
+      resumedAt: new Date(NOW.getTime() - 5 * 60_000),
+    });
+    expect(assessPauseDrift(resumed, 1, NOW)?.kind).toBe("orphan_consumer");
+    expect(assessPauseDrift(null, 1, NOW)?.kind).toBe("orphan_consumer");
+  });
+});
+
+describe("serializeQueuePause", () => {
+  it("reports applied only once the worker holds the consumer", () => {
+    expect(serializeQueuePause(pause()).applied).toBe(true);
+    expect(serializeQueuePause(pause({ appliedAt: null })).applied).toBe(false);
+    expect(serializeQueuePause(pause()).pausedBy).toEqual({
+      id: "user-1",
+      email: "ops@example.com",
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Restart-safe queue pause — desired state in `QueuePause`, blocking
+ * consumers owned by the queue-pause worker.
+ *
+ * Procedures and MCP tools use `queue-pause.service.ts`; only the worker
+ * runs `QueuePauseReconciler`.
+ */
+
+export type {
+  PauseActor,
+  PauseDrift,
+  PauseDriftKind,
+  QueuePauseErrorCode,
+  QueueRef,
+} from "./queue-pause.service";
+export {
+  assessPauseDrift,
+  getQueuePause,
+  PAUSE_CONSUMER_TAG_PREFIX,
+  PAUSE_DRIFT_GRACE_MS,
+  pauseConsumerTag,
+  QUEUE_PAUSE_CHANNEL,
+  QueuePauseError,
+  requestQueuePause,
+  requestQueueResume,
+  serializeQueuePause,
+} from "./queue-pause.service";
@@ -0,0 +1,281 @@
+/**
+ * Queue Pause Reconciler
+ *
+ * Worker side of the restart-safe pause. Holds one AMQP connection per
+ * (server, vhost) with a paused queue and converges the blocking consumers
+ * on it towards the `QueuePause` rows:
+ *
+ *   1. `PAUSED` rows whose `pausedUntil` has passed are resumed (audited as
+ *      a scheduled resume, no actor).
+ *   2. Consumers for rows no longer `PAUSED` — or deleted with their
+ *      server — are cancelled, redelivering the held messages.
+ *   3. Every remaining `PAUSED` row without a live consumer gets one. On a
+ *      fresh process that is every row: startup reconcile is just the first
+ *      cycle.
+ *
+ * Only one reconciler may run at a time (the worker's advisory lock) — two
+ * would both attach consumers and split the held messages between them.
+ * The consumers die with the process, so a queue is unpaused for the
+ * handover between two workers; the next worker re-applies it within its
+ * first cycle.
+ */
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import { RabbitMQAmqpClient } from "@/core/rabbitmq/AmqpClient";
+import { amqpConnectionConfig } from "@/core/rabbitmq/AmqpFactory";
+
+import { recordAuditLog } from "@/services/audit";
+import {
+  BROKER_TLS_SELECT,
+  type BrokerTlsColumns,
+  decryptBrokerTls,
+} from "@/services/broker-tls";
+import { EncryptionService } from "@/services/encryption.service";
+import { serverPassword } from "@/services/secret-source";
+
+import { pauseConsumerTag } from "./queue-pause.service";
+
+import {
+  QueuePauseStatus,
+  QueueResumeTrigger,
+} from "@/generated/prisma/client";
+
+const SERVER_SELECT = {
+  id: true,
+  name: true,
+  host: true,
+  port: true,
+  amqpPort: true,
+  username: true,
+  password: true,
+  passwordRef: true,
+  useHttps: true,
+  workspaceId: true,
+  ...BROKER_TLS_SELECT,
+} as const;
+
+interface HeldPause {
+  consumerTag: string;
+  connectionKey: string;
+  /** Set when the broker cancels the consumer under us. */
+  lost: boolean;
+}
+
+export interface ReconcileStats {
+  applied: number;
+  released: number;
+  expired: number;
+  failed: number;
+}
+
+const connectionKey = (serverId: string, vhost: string) =>
+  `${serverId}|${vhost}`;
+
+export class QueuePauseReconciler {
+  private connections = new Map<string, RabbitMQAmqpClient>();
+  private held = new Map<string, HeldPause>();
+
+  async reconcile(now = new Date()): Promise<ReconcileStats> {
+    const stats: ReconcileStats = {
+      applied: 0,
+      released: 0,
+      expired: 0,
+      failed: 0,
+    };
+
+    stats.expired = await this.resumeExpired(now);
+
+    const desired = await prisma.queuePause.findMany({
+      where: { status: QueuePauseStatus.PAUSED },
+      include: { server: { select: SERVER_SELECT } },
+    });
+    const desiredIds = new Set(desired.map((pause) => pause.id));
+
+    for (const [pauseId, held] of this.held) {
+      if (desiredIds.has(pauseId)) continue;
+      await this.release(pauseId, held);
+      stats.released++;
+    }
+
+    for (const pause of desired) {
+      const key = connectionKey(pause.serverId, pause.vhost);
+      const held = this.held.get(pause.id);
+      const client = this.connections.get(key);
+      if (held && !held.lost && client?.isConnectionActive()) continue;
+
+      try {
+        const live = await this.connectionFor(pause.server, pause.vhost);
+        const consumerTag = pauseConsumerTag(pause.id);
+        const entry: HeldPause = {
+          consumerTag,
+          connectionKey: key,
+          lost: false,
+        };
+        await live.pauseQueue(pause.queueName, consumerTag, () => {
+          entry.lost = true;
+          logger.warn(
+            { pauseId: pause.id, queueName: pause.queueName },
+            "queue-pause: broker cancelled a pause consumer — re-applying next cycle"
+          );
+        });
+        this.held.set(pause.id, entry);
+
+        await prisma.queuePause.updateMany({
+          where: { id: pause.id, status: QueuePauseStatus.PAUSED },
+          data: { consumerTag, appliedAt: new Date(), lastError: null },
+        });
+        stats.applied++;
+      } catch (error) {
+        this.held.delete(pause.id);
+        stats.failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(
+          { error, pauseId: pause.id, serverId: pause.serverId },
+          `queue-pause: failed to apply pause on ${pause.queueName}`
+        );
+        await prisma.queuePause.updateMany({
+          where: { id: pause.id, status: QueuePauseStatus.PAUSED },
+          data: { consumerTag: null, appliedAt: null, lastError: message },
+        });
+      }
+    }
+
+    await this.closeIdleConnections();
+    return stats;
+  }
+
+  /** Drop every connection — the broker cancels the consumers with it. */
+  async shutdown(): Promise<void> {
+    const clients = [...this.connections.values()];
+    this.connections.clear();
+    this.held.clear();
+    await Promise.allSettled(clients.map((client) => client.disconnect()));
+  }
+
+  private async resumeExpired(now: Date): Promise<number> {
+    const expired = await prisma.queuePause.findMany({
+      where: { status: QueuePauseStatus.PAUSED, pausedUntil: { lte: now } },
+      include: { server: { select: { workspaceId: true } } },
+    });
+
+    let resumed = 0;
+    for (const pause of expired) {
+      // Guarded on the schedule we read: a concurrent re-pause that moved
+      // pausedUntil forward must win.
+      const { count } = await prisma.queuePause.updateMany({
+        where: {
+          id: pause.id,
+          status: QueuePauseStatus.PAUSED,
+          pausedUntil: pause.pausedUntil,
+        },
+        data: {
+          status: QueuePauseStatus.RESUMED,
+          resumedAt: now,
+          resumedById: null,
+          resumeTrigger: QueueResumeTrigger.SCHEDULED,
+        },
+      });
+      if (count === 0) continue;
+      resumed++;
+
+      await recordAuditLog({
+        actorId: null,
+        action: "rabbitmq.queue.resumed",
+        category: "rabbitmq",
+        entityType: "queue",
+        entityId: pause.queueName,
+        entityLabel: `${pause.queueName}@${pause.vhost}`,
+        serverId: pause.serverId,
+        vhost: pause.vhost,
+        workspaceId: pause.server.workspaceId,
+        metadata: {
+          trigger: "scheduled",
+          pausedUntil: pause.pausedUntil?.toISOString() ?? null,
+          pausedById: pause.pausedById,
+          reason: pause.reason,
+        },
+      });
+    }
+    return resumed;
+  }
+
+  private async release(pauseId: string, held: HeldPause): Promise<void> {
+    this.held.delete(pauseId);
+    const client = this.connections.get(held.connectionKey);
+    if (client?.isConnectionActive() && !held.lost) {
+      try {
+        await client.cancelConsumer(held.consumerTag);
+      } catch (error) {
+        logger.warn(
+          { error, pauseId, consumerTag: held.consumerTag },
+          "queue-pause: failed to cancel pause consumer"
+        );
+      }
+    }
+    // The row may be gone with its server — updateMany tolerates that.
+    await prisma.queuePause.updateMany({
+      where: { id: pauseId, status: QueuePauseStatus.RESUMED },
+      data: { consumerTag: null, appliedAt: null },
+    });
+  }
+
+  private async connectionFor(
+    server: BrokerTlsColumns & {
+      id: string;
+      name: string;
+      host: string;
+      port: number;
+      amqpPort: number;
+      username: string;
+      password: string;
+      passwordRef: string | null;
+      useHttps: boolean;
+    },
+    vhost: string
+  ): Promise<RabbitMQAmqpClient> {
+    const key = connectionKey(server.id, vhost);
+    const existing = this.connections.get(key);
+    if (existing?.isConnectionActive()) return existing;
+
+    if (existing) {
+      // Its consumers died with the connection
+      this.connections.delete(key);
+      for (const [pauseId, held] of this.held) {
+        if (held.connectionKey === key) this.held.delete(pauseId);
+      }
+      await existing.disconnect().catch(() => {});
+    }
+
+    const client = new RabbitMQAmqpClient(
+      amqpConnectionConfig({
+        id: server.id,
+        name: server.name,
+        host: server.host,
+        port: server.port,
+        amqpPort: server.amqpPort,
+        username: EncryptionService.decrypt(server.username),
+        password: serverPassword(server),
+        vhost,
+        useHttps: server.useHttps,
+        tls: decryptBrokerTls(server),
+      })
+    );
+    await client.connect();
+    this.connections.set(key, client);
+    return client;
+  }
+
+  private async closeIdleConnections(): Promise<void> {
+    const inUse = new Set(
+      [...this.held.values()].map((held) => held.connectionKey)
+    );
+    for (const [key, client] of this.connections) {
+      if (inUse.has(key)) continue;
+      this.connections.delete(key);
+      await client.disconnect().catch((error: unknown) => {
+        logger.warn({ error, key }, "queue-pause: error closing connection");
+      });
+    }
+  }
+}
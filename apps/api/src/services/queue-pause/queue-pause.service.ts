@@ -0,0 +1,217 @@
+/**
+ * Queue Pause Service
+ *
+ * API side of the restart-safe pause: procedures record the desired state
+ * in `QueuePause` and wake the queue-pause worker, which owns the blocking
+ * consumers (`queue-pause.reconciler.ts`). Nothing here touches AMQP — a
+ * pause requested on one replica and resumed on another converges on the
+ * same row, and the worker re-applies every `PAUSED` row after a restart.
+ *
+ * Drift is the gap between that row and the broker: a pause the row says
+ * is active with no blocking consumer on the queue, a blocking consumer the
+ * row says should be gone, or a schedule nobody acted on.
+ */
+
+import { CodedError } from "@/core/coded-error";
+import { prisma } from "@/core/prisma";
+
+import {
+  type QueuePause,
+  QueuePauseStatus,
+  QueueResumeTrigger,
+} from "@/generated/prisma/client";
+
+/**
+ * LISTEN/NOTIFY channel the worker wakes on. Best-effort like the outbox
+ * channel: the worker's polling interval covers a dropped LISTEN.
+ */
+export const QUEUE_PAUSE_CHANNEL = "queue_pause_changed";
+
+/** Every blocking consumer Qarote attaches carries this tag prefix. */
+export const PAUSE_CONSUMER_TAG_PREFIX = "qarote-pause-";
+
+/**
+ * How long a just-written row may disagree with the broker before it
+ * counts as drift — covers the worker picking the change up.
+ */
+export const PAUSE_DRIFT_GRACE_MS = 60_000;
+
+export type QueuePauseErrorCode = "queueNotPaused" | "pauseUntilInPast";
+
+export class QueuePauseError extends CodedError<QueuePauseErrorCode> {}
+
+export interface QueueRef {
+  serverId: string;
+  vhost: string;
+  queueName: string;
+}
+
+export interface PauseActor {
+  id: string | null;
+  email: string | null;
+}
+
+export type PauseDriftKind =
+  | "consumer_missing"
+  | "orphan_consumer"
+  | "resume_overdue";
+
+export interface PauseDrift {
+  kind: PauseDriftKind;
+  /** Blocking consumers currently attached on the broker. */
+  brokerPauseConsumers: number;
+}
+
+/** Stable per row, so a re-applied pause reuses the same tag. */
+export function pauseConsumerTag(pauseId: string): string {
+  return `${PAUSE_CONSUMER_TAG_PREFIX}${pauseId}`;
+}
+
+async function notifyWorker(): Promise<void> {
+  await prisma.$executeRawUnsafe(`NOTIFY ${QUEUE_PAUSE_CHANNEL}`);
+}
+
+export function getQueuePause(ref: QueueRef): Promise<QueuePause | null> {
+  return prisma.queuePause.findUnique({
+    where: { serverId_vhost_queueName: ref },
+  });
+}
+
+/**
+ * Record a pause. Pausing an already-paused queue updates its reason and
+ * schedule but keeps `pausedAt` and the consumer the worker already holds.
+ */
+export async function requestQueuePause(
+  ref: QueueRef,
+  actor: PauseActor,
+  options: { reason?: string | null; pausedUntil?: Date | null },
+  now = new Date()
+): Promise<QueuePause> {
+  const pausedUntil = options.pausedUntil ?? null;
+  if (pausedUntil && pausedUntil.getTime() <= now.getTime()) {
+    throw new QueuePauseError(
+      "pauseUntilInPast",
+      "Pause end time must be in the future"
+    );
+  }
+
+  const existing = await getQueuePause(ref);
+  const alreadyPaused = existing?.status === QueuePauseStatus.PAUSED;
+  const details = {
+    reason: options.reason || null,
+    pausedUntil,
+    pausedById: actor.id,
+    pausedByEmail: actor.email,
+  };
+
+  const pause = await prisma.queuePause.upsert({
+    where: { serverId_vhost_queueName: ref },
+    create: {
+      ...ref,
+      ...details,
+      status: QueuePauseStatus.PAUSED,
+      pausedAt: now,
+    },
+    update: alreadyPaused
+      ? details
+      : {
+          ...details,
+          status: QueuePauseStatus.PAUSED,
+          pausedAt: now,
+          resumedAt: null,
+          resumedById: null,
+          resumeTrigger: null,
+          consumerTag: null,
+          appliedAt: null,
+          lastError: null,
+        },
+  });
+
+  await notifyWorker();
+  return pause;
+}
+
+/** Record a manual resume; the worker cancels the consumer. */
+export async function requestQueueResume(
+  ref: QueueRef,
+  actor: PauseActor,
+  now = new Date()
+): Promise<QueuePause> {
+  const { count } = await prisma.queuePause.updateMany({
+    where: { ...ref, status: QueuePauseStatus.PAUSED },
+    data: {
+      status: QueuePauseStatus.RESUMED,
+      resumedAt: now,
+      resumedById: actor.id,
+      resumeTrigger: QueueResumeTrigger.MANUAL,
+    },
+  });
+  if (count === 0) {
+    throw new QueuePauseError(
+      "queueNotPaused",
+      `Queue "${ref.queueName}" is not currently paused`
+    );
+  }
+
+  await notifyWorker();
+  return prisma.queuePause.findUniqueOrThrow({
+    where: { serverId_vhost_queueName: ref },
+  });
+}
+
+/**
+ * Compare the recorded state with the blocking consumers the broker
+ * reports. Returns null when they agree, or when a change is still inside
+ * the grace window and the worker simply hasn't caught up yet.
+ */
+export function assessPauseDrift(
+  pause: QueuePause | null,
+  brokerPauseConsumers: number,
+  now = new Date()
+): PauseDrift | null {
+  const settled = (since: Date | null | undefined) =>
+    !since || now.getTime() - since.getTime() > PAUSE_DRIFT_GRACE_MS;
+  const drift = (kind: PauseDriftKind): PauseDrift => ({
+    kind,
+    brokerPauseConsumers,
+  });
+
+  if (pause?.status === QueuePauseStatus.PAUSED) {
+    if (pause.pausedUntil && settled(pause.pausedUntil)) {
+      return drift("resume_overdue");
+    }
+    // Keyed on pausedAt, not updatedAt: the worker touches the row on every
+    // failed attempt, which would otherwise keep the grace window open.
+    if (brokerPauseConsumers === 0 && settled(pause.pausedAt)) {
+      return drift("consumer_missing");
+    }
+    return null;
+  }
+
+  if (brokerPauseConsumers > 0 && settled(pause?.resumedAt)) {
+    return drift("orphan_consumer");
+  }
+  return null;
+}
+
+/** Wire shape shared by the pause procedures and MCP tools. */
+export function serializeQueuePause(pause: QueuePause) {
+  return {
+    queueName: pause.queueName,
+    vhost: pause.vhost,
+    isPaused: pause.status === QueuePauseStatus.PAUSED,
+    /** True once the worker holds the blocking consumer. */
+    applied:
+      pause.status === QueuePauseStatus.PAUSED && pause.appliedAt !== null,
+    reason: pause.reason,
+    pausedBy: pause.pausedById
+      ? { id: pause.pausedById, email: pause.pausedByEmail }
+      : null,
+    pausedAt: pause.pausedAt.toISOString(),
+    pausedUntil: pause.pausedUntil?.toISOString() ?? null,
+    resumedAt: pause.resumedAt?.toISOString() ?? null,
+    resumeTrigger: pause.resumeTrigger,
+    appliedAt: pause.appliedAt?.toISOString() ?? null,
+    lastError: pause.lastError,
+  };
+}
@@ -0,0 +1,283 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockTemplate, mockVersion, mockTemplatedQueue, mockTransaction } =
+  vi.hoisted(() => ({
+    mockTemplate: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+    mockVersion: { create: vi.fn() },
+    mockTemplatedQueue: { findMany: vi.fn() },
+    mockTransaction: vi.fn(),
+  }));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    queueTemplate: mockTemplate,
+    queueTemplateVersion: mockVersion,
+    templatedQueue: mockTemplatedQueue,
+    $transaction: mockTransaction,
+  },
+}));
+
+import {
+  checkTemplateDrift,
+  createQueueTemplate,
+  declareFromTemplate,
+  getDeclarableVersion,
+  publishQueueTemplateVersion,
+  QueueTemplateError,
+  type TemplateBrokerClient,
+} from "../queue-template.service";
+import type { QueueTemplateSpec } from "../template-spec";
+
+import { Prisma, type QueueTemplateVersion } from "@/generated/prisma/client";
+
+const SPEC: QueueTemplateSpec = {
+  queueType: "quorum",
+  durable: true,
+  autoDelete: false,
+  arguments: { "x-delivery-limit": 5 },
+  deadLetter: {
+    exchange: "dlx",
+    exchangeType: "direct",
+    queue: "{queue}.dlq",
+    routingKey: "{queue}",
+  },
+  policy: { definition: { "max-length": 1000 }, priority: 1 },
+};
+
+function version(
+  overrides: Partial<QueueTemplateVersion> = {}
+): QueueTemplateVersion {
+  return {
+    id: "ver-1",
+    templateId: "tpl-1",
+    version: 1,
+    queueType: SPEC.queueType,
+    durable: SPEC.durable,
+    autoDelete: SPEC.autoDelete,
+    arguments: SPEC.arguments,
+    deadLetter: { ...SPEC.deadLetter! },
+    policy: { ...SPEC.policy! },
+    createdById: "user-1",
+    createdAt: new Date("2026-10-01T00:00:00Z"),
+    ...overrides,
+  } as QueueTemplateVersion;
+}
+
+function brokerClient(): TemplateBrokerClient {
+  return {
+    createExchange: vi.fn().mockResolvedValue(undefined),
+    createQueue: vi.fn().mockResolvedValue({ created: true }),
+    createBinding: vi.fn().mockResolvedValue(undefined),
+    createOrUpdatePolicy: vi.fn().mockResolvedValue(undefined),
+    getQueues: vi.fn().mockResolvedValue([]),
+    getExchanges: vi.fn().mockResolvedValue([]),
+    getBindings: vi.fn().mockResolvedValue([]),
+    getPolicies: vi.fn().mockResolvedValue([]),
+  } as unknown as TemplateBrokerClient;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockTransaction.mockImplementation((fn) =>
+    fn({ queueTemplate: mockTemplate, queueTemplateVersion: mockVersion })
+  );
+});
+
+describe("createQueueTemplate", () => {
+  it("rejects arguments the template derives itself", async () => {
+    await expect(
+      createQueueTemplate(
+        "ws-1",
+        {
+          name: "orders",
+          spec: { ...SPEC, arguments: { "x-queue-type": "classic" } },
+        },
+        "user-1"
+      )
+    ).rejects.toMatchObject({ code: "templateReservedArgument" });
+    expect(mockTemplate.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects dead-lettering on streams", async () => {
+    await expect(
+      createQueueTemplate(
+        "ws-1",
+        { name: "events", spec: { ...SPEC, queueType: "stream" } },
+        "user-1"
+      )
+    ).rejects.toMatchObject({ code: "templateStreamDeadLetter" });
+  });
+
+  it("maps a duplicate name to templateNameTaken", async () => {
+    mockTemplate.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError("Unique constraint", {
+        code: "P2002",
+        clientVersion: "test",
+      })
+    );
+
+    const error = await createQueueTemplate(
+      "ws-1",
+      { name: "orders", spec: SPEC },
+      "user-1"
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(QueueTemplateError);
+    expect(error.code).toBe("templateNameTaken");
+  });
+
+  it("stores absent dead-letter and policy as database NULL", async () => {
+    mockTemplate.create.mockResolvedValue({});
+
+    await createQueueTemplate(
+      "ws-1",
+      { name: "plain", spec: { ...SPEC, deadLetter: null, policy: null } },
+      "user-1"
+    );
+
+    const data = mockTemplate.create.mock.calls[0][0].data;
+    expect(data.versions.create).toMatchObject({
+      version: 1,
+      deadLetter: Prisma.DbNull,
+      policy: Prisma.DbNull,
+    });
+  });
+});
+
+describe("publishQueueTemplateVersion", () => {
+  it("creates the next version number", async () => {
+    mockTemplate.findFirst.mockResolvedValue({
+      id: "tpl-1",
+      archivedAt: null,
+      versions: [version()],
+    });
+    mockTemplate.update.mockResolvedValue({ latestVersion: 2 });
+    mockTemplate.findUniqueOrThrow.mockResolvedValue({ id: "tpl-1" });
+
+    await publishQueueTemplateVersion("tpl-1", "ws-1", { spec: SPEC }, "u");
+
+    expect(mockTemplate.update).toHaveBeenCalledWith({
+      where: { id: "tpl-1" },
+      data: { latestVersion: { increment: 1 } },
+    });
+    expect(mockVersion.create.mock.calls[0][0].data).toMatchObject({
+      templateId: "tpl-1",
+      version: 2,
+    });
+  });
+
+  it("refuses archived templates", async () => {
+    mockTemplate.findFirst.mockResolvedValue({
+      id: "tpl-1",
+      archivedAt: new Date(),
+      versions: [version()],
+    });
+
+    await expect(
+      publishQueueTemplateVersion("tpl-1", "ws-1", { spec: SPEC }, "u")
+    ).rejects.toMatchObject({ code: "templateArchived" });
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("getDeclarableVersion", () => {
+  it("is scoped to the workspace", async () => {
+    mockTemplate.findFirst.mockResolvedValue(null);
+
+    await expect(getDeclarableVersion("tpl-1", "ws-2")).rejects.toMatchObject({
+      code: "templateNotFound",
+    });
+    expect(mockTemplate.findFirst.mock.calls[0][0].where).toEqual({
+      id: "tpl-1",
+      workspaceId: "ws-2",
+    });
+  });
+});
+
+describe("declareFromTemplate", () => {
+  it("declares the dead-letter topology before the queue, then the policy", async () => {
+    const client = brokerClient();
+    const order: string[] = [];
+    for (const method of [
+      "createExchange",
+      "createQueue",
+      "createBinding",
+      "createOrUpdatePolicy",
+    ] as const) {
+      vi.mocked(client[method]).mockImplementation(async (...args) => {
+        order.push(`${method}:${String(args[0])}`);
+        return undefined as never;
+      });
+    }
+
+    await declareFromTemplate(client, version(), {
+      name: "orders",
+      vhost: "/",
+    });
+
+    expect(order).toEqual([
+      "createExchange:dlx",
+      "createQueue:orders.dlq",
+      "createBinding:/",
+      "createQueue:orders",
+      "createOrUpdatePolicy:/",
+    ]);
+    expect(client.createQueue).toHaveBeenLastCalledWith("orders", "/", {
+      durable: true,
+      autoDelete: false,
+      arguments: {
+        "x-delivery-limit": 5,
+        "x-queue-type": "quorum",
+        "x-dead-letter-exchange": "dlx",
+        "x-dead-letter-routing-key": "orders",
+      },
+    });
+  });
+});
+
+describe("checkTemplateDrift", () => {
+  it("skips the broker when nothing on the server is templated", async () => {
+    mockTemplatedQueue.findMany.mockResolvedValue([]);
+    const client = brokerClient();
+
+    expect(await checkTemplateDrift(client, "srv-1", "ws-1")).toEqual([]);
+    expect(client.getQueues).not.toHaveBeenCalled();
+  });
+
+  it("measures against the recorded version, not the latest", async () => {
+    mockTemplatedQueue.findMany.mockResolvedValue([
+      {
+        queueName: "orders",
+        vhost: "/",
+        templateVersion: {
+          ...version({ deadLetter: null, policy: null }),
+          template: { id: "tpl-1", name: "orders", latestVersion: 3 },
+        },
+      },
+    ]);
+    const client = brokerClient();
+    vi.mocked(client.getQueues).mockResolvedValue([
+      {
+        name: "orders",
+        vhost: "/",
+        type: "quorum",
+        durable: true,
+        auto_delete: false,
+        arguments: { "x-delivery-limit": 5 },
+      },
+    ] as never);
+
+    const [report] = await checkTemplateDrift(client, "srv-1", "ws-1");
+
+    expect(report).toMatchObject({
+      queueName: "orders",
+      version: 1,
+      latestVersion: 3,
+      drift: [],
+    });
+  });
+});
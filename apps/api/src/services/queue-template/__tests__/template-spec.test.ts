@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  assessTemplateDrift,
+  planTemplateDeclaration,
+  type QueueTemplateSpec,
+  type VhostSnapshot,
+} from "../template-spec";
+
+const SPEC: QueueTemplateSpec = {
+  queueType: "quorum",
+  durable: true,
+  autoDelete: false,
+  arguments: { "x-delivery-limit": 5, "x-message-ttl": 60000 },
+  deadLetter: {
+    exchange: "dlx",
+    exchangeType: "direct",
+    queue: "{queue}.dlq",
+    routingKey: "{queue}",
+  },
+  policy: { definition: { "max-length": 10000 }, priority: 5 },
+};
+
+type QueueState =
+  VhostSnapshot["queues"] extends Map<string, infer Q> ? Q : never;
+
+/** A vhost where `orders` was declared exactly as `SPEC` says. */
+function compliantSnapshot(): VhostSnapshot {
+  return {
+    queues: new Map<string, QueueState>([
+      [
+        "orders",
+        {
+          type: "quorum",
+          durable: true,
+          auto_delete: false,
+          arguments: {
+            "x-queue-type": "quorum",
+            "x-delivery-limit": 5,
+            "x-message-ttl": 60000,
+            "x-dead-letter-exchange": "dlx",
+            "x-dead-letter-routing-key": "orders",
+          },
+          policy: "qarote-template.orders",
+        },
+      ],
+      [
+        "orders.dlq",
+        {
+          type: "quorum",
+          durable: true,
+          auto_delete: false,
+          arguments: { "x-queue-type": "quorum" },
+          policy: null,
+        },
+      ],
+    ]),
+    exchanges: new Set(["dlx"]),
+    bindings: [
+      {
+        source: "dlx",
+        destination: "orders.dlq",
+        destination_type: "queue",
+        routing_key: "orders",
+      },
+    ],
+    policies: new Map([
+      [
+        "qarote-template.orders",
+        {
+          pattern: "^orders$",
+          definition: { "max-length": 10000 },
+          priority: 5,
+        },
+      ],
+    ]),
+  };
+}
+
+describe("planTemplateDeclaration", () => {
+  it("expands the queue placeholder and derives the dead-letter arguments", () => {
+    const plan = planTemplateDeclaration(SPEC, "orders");
+
+    expect(plan.deadLetter).toEqual({
+      exchange: "dlx",
+      exchangeType: "direct",
+      queue: "orders.dlq",
+      queueArguments: { "x-queue-type": "quorum" },
+      routingKey: "orders",
+    });
+    expect(plan.queue.arguments).toEqual({
+      "x-delivery-limit": 5,
+      "x-message-ttl": 60000,
+      "x-queue-type": "quorum",
+      "x-dead-letter-exchange": "dlx",
+      "x-dead-letter-routing-key": "orders",
+    });
+  });
+
+  it("keeps a classic source's dead-letter queue classic", () => {
+    const plan = planTemplateDeclaration(
+      { ...SPEC, queueType: "classic" },
+      "orders"
+    );
+    expect(plan.deadLetter?.queueArguments).toEqual({
+      "x-queue-type": "classic",
+    });
+  });
+
+  it("scopes the policy to exactly the declared queue", () => {
+    const plan = planTemplateDeclaration(SPEC, "billing.v2");
+    expect(plan.policy).toEqual({
+      name: "qarote-template.billing.v2",
+      pattern: "^billing\\.v2$",
+      definition: { "max-length": 10000 },
+      priority: 5,
+    });
+  });
+
+  it("declares nothing extra without dead-letter topology or policy", () => {
+    const plan = planTemplateDeclaration(
+      { ...SPEC, deadLetter: null, policy: null },
+      "orders"
+    );
+    expect(plan.deadLetter).toBeNull();
+    expect(plan.policy).toBeNull();
+    expect(plan.queue.arguments).not.toHaveProperty("x-dead-letter-exchange");
+  });
+});
+
+describe("assessTemplateDrift", () => {
+  const plan = planTemplateDeclaration(SPEC, "orders");
+
+  it("reports nothing for a compliant queue", () => {
+    expect(assessTemplateDrift(plan, compliantSnapshot())).toEqual([]);
+  });
+
+  it("does not require the broker to echo x-queue-type", () => {
+    const snapshot = compliantSnapshot();
+    const queue = snapshot.queues.get("orders")!;
+    const { "x-queue-type": _type, ...rest } = queue.arguments;
+    snapshot.queues.set("orders", { ...queue, arguments: rest });
+
+    expect(assessTemplateDrift(plan, snapshot)).toEqual([]);
+  });
+
+  it("reports a missing queue and nothing else", () => {
+    const snapshot = compliantSnapshot();
+    snapshot.queues.delete("orders");
+
+    expect(assessTemplateDrift(plan, snapshot)).toEqual([
+      { kind: "queue_missing", subject: "orders" },
+    ]);
+  });
+
+  it("reports argument and type differences", () => {
+    const snapshot = compliantSnapshot();
+    const queue = snapshot.queues.get("orders")!;
+    snapshot.queues.set("orders", {
+      ...queue,
+      type: "classic",
+      arguments: {
+        "x-delivery-limit": 20,
+        "x-dead-letter-exchange": "dlx",
+        "x-dead-letter-routing-key": "orders",
+        "x-max-length": 5,
+      },
+    });
+
+    expect(assessTemplateDrift(plan, snapshot)).toEqual([
+      { kind: "queue_type", expected: "quorum", actual: "classic" },
+      {
+        kind: "argument_mismatch",
+        subject: "x-delivery-limit",
+        expected: 5,
+        actual: 20,
+      },
+      {
+        kind: "argument_missing",
+        subject: "x-message-ttl",
+        expected: 60000,
+      },
+      { kind: "argument_unexpected", subject: "x-max-length", actual: 5 },
+    ]);
+  });
+
+  it("reports missing dead-letter topology", () => {
+    const snapshot = compliantSnapshot();
+    snapshot.exchanges.clear();
+    snapshot.bindings = [];
+
+    expect(assessTemplateDrift(plan, snapshot)).toEqual([
+      { kind: "dead_letter_exchange_missing", subject: "dlx" },
+      {
+        kind: "dead_letter_binding_missing",
+        subject: "orders.dlq",
+        expected: "orders",
+      },
+    ]);
+  });
+
+  it("reports an edited policy and one shadowed by another policy", () => {
+    const edited = compliantSnapshot();
+    edited.policies.set("qarote-template.orders", {
+      pattern: "^orders$",
+      definition: { "max-length": 500 },
+      priority: 5,
+    });
+    expect(assessTemplateDrift(plan, edited)).toEqual([
+      {
+        kind: "policy_mismatch",
+        subject: "qarote-template.orders",
+        expected: { "max-length": 10000 },
+        actual: { "max-length": 500 },
+      },
+    ]);
+
+    const shadowed = compliantSnapshot();
+    const queue = shadowed.queues.get("orders")!;
+    shadowed.queues.set("orders", { ...queue, policy: "ops-override" });
+    expect(assessTemplateDrift(plan, shadowed)).toEqual([
+      {
+        kind: "policy_not_applied",
+        subject: "qarote-template.orders",
+        actual: "ops-override",
+      },
+    ]);
+  });
+});
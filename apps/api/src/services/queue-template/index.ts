@@ -0,0 +1,41 @@
+/**
+ * Versioned queue templates — declaration conventions stored per workspace,
+ * applied by `createQueue` and checked for drift against the broker.
+ */
+
+export type {
+  QueueTemplateErrorCode,
+  QueueTemplateWithLatest,
+  TemplateBrokerClient,
+  TemplateDriftReport,
+} from "./queue-template.service";
+export {
+  archiveQueueTemplate,
+  checkTemplateDrift,
+  createQueueTemplate,
+  declareFromTemplate,
+  getDeclarableVersion,
+  getQueueTemplate,
+  listQueueTemplates,
+  publishQueueTemplateVersion,
+  QueueTemplateError,
+  recordTemplatedQueue,
+  serializeQueueTemplate,
+  serializeQueueTemplateVersion,
+  versionSpec,
+} from "./queue-template.service";
+export type {
+  DeadLetterSpec,
+  PolicySpec,
+  QueueTemplateSpec,
+  TemplateDeclaration,
+  TemplateDrift,
+  TemplateDriftKind,
+  TemplateQueueType,
+} from "./template-spec";
+export {
+  assessTemplateDrift,
+  planTemplateDeclaration,
+  QUEUE_NAME_PLACEHOLDER,
+  TEMPLATE_POLICY_PREFIX,
+} from "./template-spec";
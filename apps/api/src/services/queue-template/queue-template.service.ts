@@ -0,0 +1,412 @@
+/**
+ * Queue Template Service
+ *
+ * Workspace-level queue conventions. A template is a name plus append-only
+ * versions; `createQueue` declares from the latest version and records
+ * which version it used in `TemplatedQueue`, so drift is always measured
+ * against what the queue was actually declared with — not whatever the
+ * template says today.
+ */
+
+import { CodedError } from "@/core/coded-error";
+import { prisma } from "@/core/prisma";
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+
+import {
+  assessTemplateDrift,
+  type DeadLetterSpec,
+  planTemplateDeclaration,
+  type PolicySpec,
+  type QueueTemplateSpec,
+  RESERVED_TEMPLATE_ARGUMENTS,
+  type TemplateDeclaration,
+  type TemplateDrift,
+  type TemplateQueueType,
+  type VhostSnapshot,
+} from "./template-spec";
+
+import {
+  Prisma,
+  type QueueTemplate,
+  type QueueTemplateVersion,
+} from "@/generated/prisma/client";
+
+export type QueueTemplateErrorCode =
+  | "templateNotFound"
+  | "templateArchived"
+  | "templateNameTaken"
+  | "templateReservedArgument"
+  | "templateStreamDeadLetter";
+
+export class QueueTemplateError extends CodedError<QueueTemplateErrorCode> {}
+
+/** The broker calls declaration and the drift check need. */
+export type TemplateBrokerClient = Pick<
+  RabbitMQClient,
+  | "createExchange"
+  | "createQueue"
+  | "createBinding"
+  | "createOrUpdatePolicy"
+  | "getQueues"
+  | "getExchanges"
+  | "getBindings"
+  | "getPolicies"
+>;
+
+export type QueueTemplateWithLatest = QueueTemplate & {
+  versions: QueueTemplateVersion[];
+};
+
+export function versionSpec(version: QueueTemplateVersion): QueueTemplateSpec {
+  return {
+    queueType: version.queueType as TemplateQueueType,
+    durable: version.durable,
+    autoDelete: version.autoDelete,
+    arguments: version.arguments as QueueTemplateSpec["arguments"],
+    deadLetter: (version.deadLetter as DeadLetterSpec | null) ?? null,
+    policy: (version.policy as PolicySpec | null) ?? null,
+  };
+}
+
+function validateSpec(spec: QueueTemplateSpec): void {
+  const reserved = RESERVED_TEMPLATE_ARGUMENTS.find(
+    (key) => key in spec.arguments
+  );
+  if (reserved) {
+    throw new QueueTemplateError(
+      "templateReservedArgument",
+      `"${reserved}" is derived from the template and cannot be set as an argument`
+    );
+  }
+  if (spec.queueType === "stream" && spec.deadLetter) {
+    throw new QueueTemplateError(
+      "templateStreamDeadLetter",
+      "Stream queues do not dead-letter"
+    );
+  }
+}
+
+function versionData(spec: QueueTemplateSpec, createdById: string | null) {
+  return {
+    queueType: spec.queueType,
+    durable: spec.durable,
+    autoDelete: spec.autoDelete,
+    arguments: spec.arguments,
+    deadLetter: spec.deadLetter
+      ? { ...spec.deadLetter }
+      : (Prisma.DbNull as typeof Prisma.DbNull),
+    policy: spec.policy
+      ? {
+          definition: spec.policy.definition as Prisma.InputJsonObject,
+          priority: spec.policy.priority,
+        }
+      : (Prisma.DbNull as typeof Prisma.DbNull),
+    createdById,
+  };
+}
+
+/** Templates with only their latest version attached. */
+export function listQueueTemplates(
+  workspaceId: string,
+  options: { includeArchived?: boolean } = {}
+): Promise<QueueTemplateWithLatest[]> {
+  return prisma.queueTemplate.findMany({
+    where: {
+      workspaceId,
+      ...(!options.includeArchived && { archivedAt: null }),
+    },
+    include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+    orderBy: { name: "asc" },
+  });
+}
+
+/** A template with every version, newest first. */
+export async function getQueueTemplate(
+  id: string,
+  workspaceId: string
+): Promise<QueueTemplateWithLatest> {
+  const template = await prisma.queueTemplate.findFirst({
+    where: { id, workspaceId },
+    include: { versions: { orderBy: { version: "desc" } } },
+  });
+  if (!template) {
+    throw new QueueTemplateError("templateNotFound", "Template not found");
+  }
+  return template;
+}
+
+export async function createQueueTemplate(
+  workspaceId: string,
+  input: { name: string; description?: string; spec: QueueTemplateSpec },
+  createdById: string | null
+): Promise<QueueTemplateWithLatest> {
+  validateSpec(input.spec);
+  try {
+    return await prisma.queueTemplate.create({
+      data: {
+        workspaceId,
+        name: input.name,
+        description: input.description ?? null,
+        createdById,
+        versions: {
+          create: { version: 1, ...versionData(input.spec, createdById) },
+        },
+      },
+      include: { versions: true },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new QueueTemplateError(
+        "templateNameTaken",
+        `A template named "${input.name}" already exists`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Publish a new version. Queues already declared keep their version;
+ * only queues declared from now on pick this one up.
+ */
+export async function publishQueueTemplateVersion(
+  id: string,
+  workspaceId: string,
+  input: { description?: string; spec: QueueTemplateSpec },
+  createdById: string | null
+): Promise<QueueTemplateWithLatest> {
+  validateSpec(input.spec);
+  const current = await getQueueTemplate(id, workspaceId);
+  if (current.archivedAt) {
+    throw new QueueTemplateError("templateArchived", "Template is archived");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // The increment serializes concurrent publishes on the row lock; the
+    // (templateId, version) unique index backs it up.
+    const { latestVersion } = await tx.queueTemplate.update({
+      where: { id },
+      data: {
+        latestVersion: { increment: 1 },
+        ...(input.description !== undefined && {
+          description: input.description,
+        }),
+      },
+    });
+    await tx.queueTemplateVersion.create({
+      data: {
+        templateId: id,
+        version: latestVersion,
+        ...versionData(input.spec, createdById),
+      },
+    });
+    return tx.queueTemplate.findUniqueOrThrow({
+      where: { id },
+      include: { versions: { orderBy: { version: "desc" } } },
+    });
+  });
+}
+
+export async function archiveQueueTemplate(
+  id: string,
+  workspaceId: string
+): Promise<QueueTemplate> {
+  await getQueueTemplate(id, workspaceId);
+  return prisma.queueTemplate.update({
+    where: { id },
+    data: { archivedAt: new Date() },
+  });
+}
+
+/** The version `createQueue` declares from: the latest, never archived. */
+export async function getDeclarableVersion(
+  templateId: string,
+  workspaceId: string
+): Promise<{ template: QueueTemplate; version: QueueTemplateVersion }> {
+  const template = await prisma.queueTemplate.findFirst({
+    where: { id: templateId, workspaceId },
+    include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+  });
+  if (!template || template.versions.length === 0) {
+    throw new QueueTemplateError("templateNotFound", "Template not found");
+  }
+  if (template.archivedAt) {
+    throw new QueueTemplateError("templateArchived", "Template is archived");
+  }
+  const [version] = template.versions;
+  return { template, version };
+}
+
+/**
+ * Declare the dead-letter topology, the queue and its policy. Every call
+ * is an idempotent PUT / POST, so re-running after a partial failure
+ * converges rather than duplicating anything.
+ */
+export async function declareFromTemplate(
+  client: TemplateBrokerClient,
+  version: QueueTemplateVersion,
+  target: { name: string; vhost: string }
+): Promise<TemplateDeclaration> {
+  const plan = planTemplateDeclaration(versionSpec(version), target.name);
+  const { vhost } = target;
+
+  if (plan.deadLetter) {
+    const dl = plan.deadLetter;
+    await client.createExchange(dl.exchange, dl.exchangeType, vhost, {
+      durable: true,
+    });
+    await client.createQueue(dl.queue, vhost, {
+      durable: true,
+      arguments: dl.queueArguments,
+    });
+    await client.createBinding(
+      vhost,
+      dl.exchange,
+      "queue",
+      dl.queue,
+      dl.routingKey
+    );
+  }
+
+  await client.createQueue(plan.queue.name, vhost, {
+    durable: plan.queue.durable,
+    autoDelete: plan.queue.autoDelete,
+    arguments: plan.queue.arguments,
+  });
+
+  if (plan.policy) {
+    await client.createOrUpdatePolicy(vhost, plan.policy.name, {
+      pattern: plan.policy.pattern,
+      "apply-to": "queues",
+      definition: plan.policy.definition,
+      priority: plan.policy.priority,
+    });
+  }
+
+  return plan;
+}
+
+export function recordTemplatedQueue(data: {
+  serverId: string;
+  vhost: string;
+  queueName: string;
+  templateVersionId: string;
+  createdById: string | null;
+}): Promise<unknown> {
+  const { serverId, vhost, queueName } = data;
+  return prisma.templatedQueue.upsert({
+    where: { serverId_vhost_queueName: { serverId, vhost, queueName } },
+    create: data,
+    update: {
+      templateVersionId: data.templateVersionId,
+      createdById: data.createdById,
+    },
+  });
+}
+
+export interface TemplateDriftReport {
+  queueName: string;
+  vhost: string;
+  templateId: string;
+  templateName: string;
+  version: number;
+  latestVersion: number;
+  drift: TemplateDrift[];
+}
+
+async function snapshotBroker(
+  client: TemplateBrokerClient
+): Promise<(vhost: string) => VhostSnapshot> {
+  const [queues, exchanges, bindings, policies] = await Promise.all([
+    client.getQueues(),
+    client.getExchanges(),
+    client.getBindings(),
+    client.getPolicies(),
+  ]);
+  const byVhost = new Map<string, VhostSnapshot>();
+  const get = (vhost: string) => {
+    let snapshot = byVhost.get(vhost);
+    if (!snapshot) {
+      snapshot = {
+        queues: new Map(),
+        exchanges: new Set(),
+        bindings: [],
+        policies: new Map(),
+      };
+      byVhost.set(vhost, snapshot);
+    }
+    return snapshot;
+  };
+  for (const q of queues) get(q.vhost).queues.set(q.name, q);
+  for (const e of exchanges) get(e.vhost).exchanges.add(e.name);
+  for (const b of bindings) get(b.vhost).bindings.push(b);
+  for (const p of policies) get(p.vhost).policies.set(p.name, p);
+  return get;
+}
+
+/**
+ * Compare every queue on the server that was declared from a template
+ * against the version it was declared with. Queues that match are
+ * reported too (empty `drift`), so the UI can show coverage.
+ */
+export async function checkTemplateDrift(
+  client: TemplateBrokerClient,
+  serverId: string,
+  workspaceId: string,
+  options: { templateId?: string } = {}
+): Promise<TemplateDriftReport[]> {
+  const rows = await prisma.templatedQueue.findMany({
+    where: {
+      serverId,
+      templateVersion: {
+        template: {
+          workspaceId,
+          ...(options.templateId && { id: options.templateId }),
+        },
+      },
+    },
+    include: { templateVersion: { include: { template: true } } },
+    orderBy: [{ vhost: "asc" }, { queueName: "asc" }],
+  });
+  if (rows.length === 0) return [];
+
+  const snapshotFor = await snapshotBroker(client);
+  return rows.map((row) => {
+    const { templateVersion: version } = row;
+    const plan = planTemplateDeclaration(versionSpec(version), row.queueName);
+    return {
+      queueName: row.queueName,
+      vhost: row.vhost,
+      templateId: version.template.id,
+      templateName: version.template.name,
+      version: version.version,
+      latestVersion: version.template.latestVersion,
+      drift: assessTemplateDrift(plan, snapshotFor(row.vhost)),
+    };
+  });
+}
+
+export function serializeQueueTemplateVersion(version: QueueTemplateVersion) {
+  return {
+    id: version.id,
+    version: version.version,
+    ...versionSpec(version),
+    createdAt: version.createdAt.toISOString(),
+  };
+}
+
+export function serializeQueueTemplate(template: QueueTemplateWithLatest) {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    latestVersion: template.latestVersion,
+    archived: template.archivedAt !== null,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+    versions: template.versions.map(serializeQueueTemplateVersion),
+  };
+}
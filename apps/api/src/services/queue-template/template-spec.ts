@@ -0,0 +1,273 @@
+/**
+ * What a queue template declares, and how a queue on the broker compares to
+ * it. Pure — the service feeds it template versions and broker snapshots.
+ */
+
+import type {
+  RabbitMQBinding,
+  RabbitMQPolicy,
+  RabbitMQQueue,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+export type TemplateQueueType = "classic" | "quorum" | "stream";
+
+/** `{queue}` in any field stands for the declared queue's name. */
+export const QUEUE_NAME_PLACEHOLDER = "{queue}";
+
+/** Per-queue policies created from a template are named `<prefix><queue>`. */
+export const TEMPLATE_POLICY_PREFIX = "qarote-template.";
+
+export interface DeadLetterSpec {
+  exchange: string;
+  exchangeType: "direct" | "fanout" | "topic";
+  queue: string;
+  routingKey: string;
+}
+
+export interface PolicySpec {
+  definition: Record<string, unknown>;
+  priority: number;
+}
+
+export interface QueueTemplateSpec {
+  queueType: TemplateQueueType;
+  durable: boolean;
+  autoDelete: boolean;
+  arguments: Record<string, string | number | boolean>;
+  deadLetter: DeadLetterSpec | null;
+  policy: PolicySpec | null;
+}
+
+/** Keys the template derives itself; not allowed in `arguments`. */
+export const RESERVED_TEMPLATE_ARGUMENTS = [
+  "x-queue-type",
+  "x-dead-letter-exchange",
+  "x-dead-letter-routing-key",
+] as const;
+
+/** Everything `createQueue` declares for one queue, in declaration order. */
+export interface TemplateDeclaration {
+  deadLetter: {
+    exchange: string;
+    exchangeType: DeadLetterSpec["exchangeType"];
+    queue: string;
+    queueArguments: Record<string, unknown>;
+    routingKey: string;
+  } | null;
+  queue: {
+    name: string;
+    type: TemplateQueueType;
+    durable: boolean;
+    autoDelete: boolean;
+    arguments: Record<string, unknown>;
+  };
+  policy: {
+    name: string;
+    pattern: string;
+    definition: Record<string, unknown>;
+    priority: number;
+  } | null;
+}
+
+function expand(value: string, queueName: string): string {
+  return value.replaceAll(QUEUE_NAME_PLACEHOLDER, queueName);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function planTemplateDeclaration(
+  spec: QueueTemplateSpec,
+  queueName: string
+): TemplateDeclaration {
+  const deadLetter = spec.deadLetter
+    ? {
+        exchange: expand(spec.deadLetter.exchange, queueName),
+        exchangeType: spec.deadLetter.exchangeType,
+        queue: expand(spec.deadLetter.queue, queueName),
+        // Quorum sources dead-letter into a quorum DLQ; classic stays classic
+        queueArguments: {
+          "x-queue-type": spec.queueType === "quorum" ? "quorum" : "classic",
+        },
+        routingKey: expand(spec.deadLetter.routingKey, queueName),
+      }
+    : null;
+
+  return {
+    deadLetter,
+    queue: {
+      name: queueName,
+      type: spec.queueType,
+      durable: spec.durable,
+      autoDelete: spec.autoDelete,
+      arguments: {
+        ...spec.arguments,
+        "x-queue-type": spec.queueType,
+        ...(deadLetter && {
+          "x-dead-letter-exchange": deadLetter.exchange,
+          "x-dead-letter-routing-key": deadLetter.routingKey,
+        }),
+      },
+    },
+    policy: spec.policy
+      ? {
+          name: `${TEMPLATE_POLICY_PREFIX}${queueName}`,
+          pattern: `^${escapeRegExp(queueName)}$`,
+          definition: spec.policy.definition,
+          priority: spec.policy.priority,
+        }
+      : null,
+  };
+}
+
+export type TemplateDriftKind =
+  | "queue_missing"
+  | "queue_type"
+  | "durable"
+  | "auto_delete"
+  | "argument_mismatch"
+  | "argument_missing"
+  | "argument_unexpected"
+  | "dead_letter_exchange_missing"
+  | "dead_letter_queue_missing"
+  | "dead_letter_binding_missing"
+  | "policy_missing"
+  | "policy_mismatch"
+  | "policy_not_applied";
+
+export interface TemplateDrift {
+  kind: TemplateDriftKind;
+  /** Argument key, exchange / queue / policy name the drift is about. */
+  subject?: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/** The broker state of one vhost, as far as drift is concerned. */
+export interface VhostSnapshot {
+  queues: Map<
+    string,
+    Pick<
+      RabbitMQQueue,
+      "type" | "durable" | "auto_delete" | "arguments" | "policy"
+    >
+  >;
+  exchanges: Set<string>;
+  bindings: Pick<
+    RabbitMQBinding,
+    "source" | "destination" | "destination_type" | "routing_key"
+  >[];
+  policies: Map<
+    string,
+    Pick<RabbitMQPolicy, "pattern" | "definition" | "priority">
+  >;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Differences between a declared queue and its template version. */
+export function assessTemplateDrift(
+  plan: TemplateDeclaration,
+  snapshot: VhostSnapshot
+): TemplateDrift[] {
+  const queue = snapshot.queues.get(plan.queue.name);
+  if (!queue) return [{ kind: "queue_missing", subject: plan.queue.name }];
+
+  const drift: TemplateDrift[] = [];
+  if (queue.type !== plan.queue.type) {
+    drift.push({
+      kind: "queue_type",
+      expected: plan.queue.type,
+      actual: queue.type,
+    });
+  }
+  if (queue.durable !== plan.queue.durable) {
+    drift.push({
+      kind: "durable",
+      expected: plan.queue.durable,
+      actual: queue.durable,
+    });
+  }
+  if (queue.auto_delete !== plan.queue.autoDelete) {
+    drift.push({
+      kind: "auto_delete",
+      expected: plan.queue.autoDelete,
+      actual: queue.auto_delete,
+    });
+  }
+
+  // The queue type is compared through `type` above — brokers differ on
+  // whether `x-queue-type` is echoed back in `arguments`.
+  const actualArgs = queue.arguments ?? {};
+  for (const [key, expected] of Object.entries(plan.queue.arguments)) {
+    if (key === "x-queue-type") continue;
+    if (!(key in actualArgs)) {
+      drift.push({ kind: "argument_missing", subject: key, expected });
+    } else if (!sameValue(actualArgs[key], expected)) {
+      drift.push({
+        kind: "argument_mismatch",
+        subject: key,
+        expected,
+        actual: actualArgs[key],
+      });
+    }
+  }
+  for (const [key, actual] of Object.entries(actualArgs)) {
+    if (key === "x-queue-type" || key in plan.queue.arguments) continue;
+    drift.push({ kind: "argument_unexpected", subject: key, actual });
+  }
+
+  if (plan.deadLetter) {
+    const { exchange, queue: dlq, routingKey } = plan.deadLetter;
+    if (!snapshot.exchanges.has(exchange)) {
+      drift.push({ kind: "dead_letter_exchange_missing", subject: exchange });
+    }
+    if (!snapshot.queues.has(dlq)) {
+      drift.push({ kind: "dead_letter_queue_missing", subject: dlq });
+    } else if (
+      !snapshot.bindings.some(
+        (b) =>
+          b.source === exchange &&
+          b.destination === dlq &&
+          b.destination_type === "queue" &&
+          b.routing_key === routingKey
+      )
+    ) {
+      drift.push({
+        kind: "dead_letter_binding_missing",
+        subject: dlq,
+        expected: routingKey,
+      });
+    }
+  }
+
+  if (plan.policy) {
+    const policy = snapshot.policies.get(plan.policy.name);
+    if (!policy) {
+      drift.push({ kind: "policy_missing", subject: plan.policy.name });
+    } else if (
+      policy.pattern !== plan.policy.pattern ||
+      policy.priority !== plan.policy.priority ||
+      !sameValue(policy.definition, plan.policy.definition)
+    ) {
+      drift.push({
+        kind: "policy_mismatch",
+        subject: plan.policy.name,
+        expected: plan.policy.definition,
+        actual: policy.definition,
+      });
+    } else if (queue.policy && queue.policy !== plan.policy.name) {
+      // A higher-priority policy matches the queue and wins
+      drift.push({
+        kind: "policy_not_applied",
+        subject: plan.policy.name,
+        actual: queue.policy,
+      });
+    }
+  }
+
+  return drift;
+}
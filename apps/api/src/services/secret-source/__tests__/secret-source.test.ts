@@ -0,0 +1,85 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+
+import { parseSecretRef, resolveSecretRef } from "../secret-source";
+
+let root: string;
+let secretsDir: string;
+
+beforeAll(() => {
+  root = mkdtempSync(path.join(tmpdir(), "qarote-secrets-"));
+  secretsDir = path.join(root, "secrets");
+  mkdirSync(secretsDir);
+  writeFileSync(path.join(secretsDir, "prod-broker"), "from-file\n");
+  writeFileSync(path.join(root, "outside"), "not-yours");
+  symlinkSync(path.join(root, "outside"), path.join(secretsDir, "escape"));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  delete process.env.QAROTE_SECRET_PROD;
+});
+
+describe("env references", () => {
+  it("reads QAROTE_SECRET_* variables", () => {
+    process.env.QAROTE_SECRET_PROD = "from-env";
+    expect(resolveSecretRef("env:QAROTE_SECRET_PROD")).toBe("from-env");
+  });
+
+  it("refuses any other variable", () => {
+    expect(() => parseSecretRef("env:ENCRYPTION_KEY")).toThrow(
+      expect.objectContaining({ code: "secretRefInvalid" })
+    );
+  });
+
+  it("reports an unset variable", () => {
+    expect(() => resolveSecretRef("env:QAROTE_SECRET_PROD")).toThrow(
+      expect.objectContaining({ code: "secretRefUnavailable" })
+    );
+  });
+});
+
+describe("file references", () => {
+  it("reads a file under SECRET_FILES_DIR without its trailing newline", () => {
+    expect(resolveSecretRef("file:prod-broker", secretsDir)).toBe("from-file");
+    expect(
+      resolveSecretRef(
+        `file:${path.join(secretsDir, "prod-broker")}`,
+        secretsDir
+      )
+    ).toBe("from-file");
+  });
+
+  it("refuses paths outside the directory", () => {
+    expect(() => parseSecretRef("file:../outside", secretsDir)).toThrow(
+      expect.objectContaining({ code: "secretRefInvalid" })
+    );
+    expect(() => parseSecretRef("file:/etc/passwd", secretsDir)).toThrow(
+      expect.objectContaining({ code: "secretRefInvalid" })
+    );
+  });
+
+  it("refuses symlinks leading out of the directory", () => {
+    expect(() => resolveSecretRef("file:escape", secretsDir)).toThrow(
+      expect.objectContaining({ code: "secretRefUnavailable" })
+    );
+  });
+
+  it("is disabled without SECRET_FILES_DIR", () => {
+    expect(() => parseSecretRef("file:prod-broker", undefined)).toThrow(
+      expect.objectContaining({ code: "secretRefInvalid" })
+    );
+  });
+});
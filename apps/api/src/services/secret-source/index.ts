@@ -0,0 +1,13 @@
+/**
+ * External broker password sources (`env:` / `file:` references) — see
+ * `secret-source.ts`.
+ */
+
+export type { SecretRef, SecretSourceErrorCode } from "./secret-source";
+export {
+  parseSecretRef,
+  resolveSecretRef,
+  SECRET_ENV_PREFIX,
+  SecretSourceError,
+  serverPassword,
+} from "./secret-source";
@@ -0,0 +1,137 @@
+import { readFileSync, realpathSync } from "node:fs";
+import path from "node:path";
+
+import { CodedError } from "@/core/coded-error";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+import { authConfig } from "@/config";
+
+/**
+ * External sources for a server's broker password, so self-hosters can
+ * keep it in their own secret store instead of Qarote's database:
+ *
+ * - `env:QAROTE_SECRET_<NAME>` — an environment variable of the API and
+ *   worker processes.
+ * - `file:<path>` — a file under `SECRET_FILES_DIR`, e.g. a Docker or
+ *   Kubernetes secret mounted at /run/secrets. Trailing newlines are
+ *   dropped.
+ *
+ * The reference is read every time a client is built, so a rotated secret
+ * is picked up without touching Qarote. Both sources are fenced — a
+ * workspace admin must not be able to point a server at `ENCRYPTION_KEY`
+ * or /etc/shadow and have it sent to a broker they control.
+ */
+
+export const SECRET_ENV_PREFIX = "QAROTE_SECRET_";
+
+const ENV_NAME_RE = /^QAROTE_SECRET_[A-Z0-9_]+$/;
+
+export type SecretRef =
+  | { kind: "env"; name: string }
+  | { kind: "file"; path: string };
+
+export type SecretSourceErrorCode = "secretRefInvalid" | "secretRefUnavailable";
+
+export class SecretSourceError extends CodedError<SecretSourceErrorCode> {}
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return (
+    relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+  );
+}
+
+/** Parse and fence a reference, without reading it. */
+export function parseSecretRef(
+  ref: string,
+  secretFilesDir = authConfig.secretFilesDir
+): SecretRef {
+  if (ref.startsWith("env:")) {
+    const name = ref.slice("env:".length);
+    if (!ENV_NAME_RE.test(name)) {
+      throw new SecretSourceError(
+        "secretRefInvalid",
+        `Environment references must name a ${SECRET_ENV_PREFIX}* variable`
+      );
+    }
+    return { kind: "env", name };
+  }
+
+  if (ref.startsWith("file:")) {
+    if (!secretFilesDir) {
+      throw new SecretSourceError(
+        "secretRefInvalid",
+        "File references need SECRET_FILES_DIR to be set"
+      );
+    }
+    const dir = path.resolve(secretFilesDir);
+    const resolved = path.resolve(dir, ref.slice("file:".length));
+    if (!isWithin(dir, resolved)) {
+      throw new SecretSourceError(
+        "secretRefInvalid",
+        "File references must point inside SECRET_FILES_DIR"
+      );
+    }
+    return { kind: "file", path: resolved };
+  }
+
+  throw new SecretSourceError(
+    "secretRefInvalid",
+    "Secret references start with env: or file:"
+  );
+}
+
+/** Read the secret a reference points at. */
+export function resolveSecretRef(
+  ref: string,
+  secretFilesDir = authConfig.secretFilesDir
+): string {
+  const parsed = parseSecretRef(ref, secretFilesDir);
+
+  if (parsed.kind === "env") {
+    const value = process.env[parsed.name];
+    if (!value) {
+      throw new SecretSourceError(
+        "secretRefUnavailable",
+        `Environment variable ${parsed.name} is not set`
+      );
+    }
+    return value;
+  }
+
+  let value: string;
+  try {
+    // Symlinks are fine (Kubernetes mounts are made of them) as long as
+    // they end up inside the directory too
+    const real = realpathSync(parsed.path);
+    if (!isWithin(realpathSync(path.resolve(secretFilesDir!)), real)) {
+      throw new Error("resolves outside SECRET_FILES_DIR");
+    }
+    value = readFileSync(real, "utf8").replace(/[\r\n]+$/, "");
+  } catch (error) {
+    throw new SecretSourceError(
+      "secretRefUnavailable",
+      `Secret file ${parsed.path} cannot be read: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  if (!value) {
+    throw new SecretSourceError(
+      "secretRefUnavailable",
+      `Secret file ${parsed.path} is empty`
+    );
+  }
+  return value;
+}
+
+/** The broker password of a server row, wherever it is kept. */
+export function serverPassword(server: {
+  password: string;
+  passwordRef: string | null;
+}): string {
+  return server.passwordRef
+    ? resolveSecretRef(server.passwordRef)
+    : EncryptionService.decrypt(server.password);
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildClonePlan,
+  type CloneSourceData,
+  flattenVHostLimits,
+} from "../clone-plan";
+
+const source: CloneSourceData = {
+  definitions: {
+    queues: [
+      {
+        name: "prod.orders",
+        vhost: "prod",
+        durable: true,
+        arguments: { "x-dead-letter-exchange": "prod.dlx" },
+      },
+      { name: "qarote.trace.v2.srv.prod", vhost: "prod", durable: true },
+    ],
+    exchanges: [
+      { name: "prod.events", vhost: "prod", type: "topic" },
+      { name: "prod.dlx", vhost: "prod", type: "fanout" },
+      { name: "amq.topic", vhost: "prod", type: "topic" },
+    ],
+    bindings: [
+      {
+        source: "prod.events",
+        vhost: "prod",
+        destination: "prod.orders",
+        destination_type: "queue",
+        routing_key: "orders.#",
+      },
+      {
+        source: "amq.topic",
+        vhost: "prod",
+        destination: "qarote.trace.v2.srv.prod",
+        destination_type: "queue",
+        routing_key: "#",
+      },
+    ],
+    policies: [
+      {
+        name: "dlx",
+        vhost: "prod",
+        pattern: "^prod\\.",
+        definition: { "dead-letter-exchange": "prod.dlx" },
+      },
+    ],
+  },
+  permissions: [
+    { user: "app", vhost: "prod", configure: "", write: ".*", read: ".*" },
+  ],
+  topicPermissions: [
+    {
+      user: "app",
+      vhost: "prod",
+      exchange: "prod.events",
+      write: "^orders",
+      read: ".*",
+    },
+  ],
+  limits: { "max-queues": 100 },
+};
+
+const toStaging = {
+  appliesTo: "all" as const,
+  match: "^prod\\.",
+  replace: "staging.",
+};
+
+describe("buildClonePlan", () => {
+  it("renames queues, exchanges and every reference to them", () => {
+    const plan = buildClonePlan(source, {
+      renameRules: [toStaging],
+      excludeUsers: false,
+    });
+
+    expect(plan.queues).toEqual([
+      {
+        name: "staging.orders",
+        durable: true,
+        arguments: { "x-dead-letter-exchange": "staging.dlx" },
+      },
+    ]);
+    expect(plan.exchanges.map((e) => e.name)).toEqual([
+      "staging.events",
+      "staging.dlx",
+    ]);
+    expect(plan.bindings).toEqual([
+      {
+        source: "staging.events",
+        destination: "staging.orders",
+        destination_type: "queue",
+        routing_key: "orders.#",
+      },
+    ]);
+    expect(plan.policies[0].definition).toEqual({
+      "dead-letter-exchange": "staging.dlx",
+    });
+    expect(plan.topicPermissions[0].exchange).toBe("staging.events");
+    expect(plan.renamed).toHaveLength(3);
+    expect(plan.warnings).toEqual([
+      { code: "policyPatternsUnchanged", count: 1 },
+    ]);
+  });
+
+  it("skips Qarote's queues and the broker's own exchanges", () => {
+    const plan = buildClonePlan(source, {
+      renameRules: [],
+      excludeUsers: false,
+    });
+
+    expect(plan.skipped).toEqual([
+      {
+        kind: "queue",
+        name: "qarote.trace.v2.srv.prod",
+        reason: "internal",
+      },
+      { kind: "exchange", name: "amq.topic", reason: "builtin_exchange" },
+      {
+        kind: "binding",
+        name: "amq.topic → qarote.trace.v2.srv.prod",
+        reason: "internal",
+      },
+    ]);
+    expect(plan.renamed).toEqual([]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("leaves users and permissions out when asked to", () => {
+    const withUsers = buildClonePlan(source, {
+      renameRules: [],
+      excludeUsers: false,
+    });
+    expect(withUsers.users).toEqual(["app"]);
+
+    const without = buildClonePlan(source, {
+      renameRules: [],
+      excludeUsers: true,
+    });
+    expect(without.users).toEqual([]);
+    expect(without.permissions).toEqual([]);
+    expect(without.topicPermissions).toEqual([]);
+  });
+
+  it("refuses rules that map two queues to one name", () => {
+    expect(() =>
+      buildClonePlan(
+        {
+          ...source,
+          definitions: {
+            queues: [{ name: "prod.a" }, { name: "staging.a" }],
+          },
+        },
+        { renameRules: [toStaging], excludeUsers: false }
+      )
+    ).toThrowError(
+      expect.objectContaining({ code: "vhostCloneRenameCollision" })
+    );
+  });
+});
+
+describe("flattenVHostLimits", () => {
+  it("reads both the array and the flat object form", () => {
+    expect(
+      flattenVHostLimits([{ vhost: "prod", value: { "max-queues": 10 } }])
+    ).toEqual({ "max-queues": 10 });
+    expect(flattenVHostLimits({ max_connections: 5 })).toEqual({
+      "max-connections": 5,
+    });
+    expect(flattenVHostLimits([])).toEqual({});
+  });
+});
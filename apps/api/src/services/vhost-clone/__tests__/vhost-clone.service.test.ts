@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { mockCreate, mockUpdate } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockUpdate: vi.fn(),
+}));
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    vHostCloneOperation: { create: mockCreate, update: mockUpdate },
+  },
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+
+import type { CloneStep } from "../vhost-clone.service";
+import { runVHostClone } from "../vhost-clone.service";
+
+const OPERATION_ID = "0f7a3c1e-8b2d-4e6f-9a0b-1c2d3e4f5a6b";
+
+function fakeClient(overrides: Record<string, unknown> = {}) {
+  return {
+    getVHosts: vi.fn().mockResolvedValue([{ name: "prod" }]),
+    getDefinitions: vi.fn().mockResolvedValue({
+      queues: [{ name: "orders", durable: true }],
+      exchanges: [{ name: "events", type: "topic" }],
+      bindings: [],
+      policies: [],
+    }),
+    getVHostPermissions: vi
+      .fn()
+      .mockResolvedValue([
+        { user: "app", vhost: "prod", configure: "", write: ".*", read: ".*" },
+      ]),
+    getVHostTopicPermissions: vi.fn().mockResolvedValue([]),
+    getVHostLimits: vi.fn().mockResolvedValue([]),
+    getUsers: vi.fn().mockResolvedValue([]),
+    getUser: vi.fn().mockResolvedValue({
+      name: "app",
+      password_hash: "hash",
+      hashing_algorithm: "rabbit_password_hashing_sha256",
+      tags: [],
+    }),
+    createVHost: vi.fn().mockResolvedValue(undefined),
+    setVHostLimit: vi.fn().mockResolvedValue(undefined),
+    uploadDefinitions: vi.fn().mockResolvedValue(undefined),
+    setUserPermissions: vi.fn().mockResolvedValue(undefined),
+    setUserTopicPermissions: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  } as unknown as RabbitMQClient;
+}
+
+/** Step list as last written to the run row. */
+function lastSteps(): CloneStep[] {
+  const calls = mockUpdate.mock.calls.filter(([arg]) => arg.data.steps);
+  return calls.at(-1)?.[0].data.steps;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockCreate.mockResolvedValue({});
+  mockUpdate.mockImplementation(async ({ data }) => ({
+    id: OPERATION_ID,
+    ...data,
+  }));
+});
+
+describe("runVHostClone", () => {
+  it("copies a vhost to another server, creating its missing users", async () => {
+    const source = fakeClient();
+    const target = fakeClient({ getVHosts: vi.fn().mockResolvedValue([]) });
+
+    const operation = await runVHostClone({
+      id: OPERATION_ID,
+      workspaceId: "ws-1",
+      requestedById: "user-1",
+      source: { serverId: "srv-prod", client: source, vhost: "prod" },
+      target: { serverId: "srv-staging", client: target, vhost: "staging" },
+      options: { renameRules: [], excludeUsers: false },
+    });
+
+    expect(target.createVHost).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "staging" })
+    );
+    expect(target.uploadDefinitions).toHaveBeenCalledWith(
+      { queues: [{ name: "orders", durable: true }] },
+      "staging"
+    );
+    expect(target.uploadDefinitions).toHaveBeenCalledWith({
+      users: [
+        {
+          name: "app",
+          password_hash: "hash",
+          hashing_algorithm: "rabbit_password_hashing_sha256",
+          tags: [],
+        },
+      ],
+    });
+    expect(target.setUserPermissions).toHaveBeenCalledWith("staging", "app", {
+      user: "app",
+      configure: "",
+      write: ".*",
+      read: ".*",
+    });
+    expect(operation.status).toBe("COMPLETED");
+    expect(lastSteps().every((s) => s.status === "succeeded")).toBe(true);
+  });
+
+  it("stops at the first failed step and records it", async () => {
+    const client = fakeClient({
+      uploadDefinitions: vi
+        .fn()
+        .mockRejectedValue(new Error("RabbitMQ API error: 400")),
+    });
+
+    const operation = await runVHostClone({
+      id: OPERATION_ID,
+      workspaceId: "ws-1",
+      requestedById: "user-1",
+      source: { serverId: "srv-1", client, vhost: "prod" },
+      target: { serverId: "srv-1", client, vhost: "prod-copy" },
+      options: { renameRules: [], excludeUsers: false },
+    });
+
+    expect(operation.status).toBe("FAILED");
+    expect(operation.error).toBe("RabbitMQ API error: 400");
+    expect(lastSteps().map((s) => [s.step, s.status])).toEqual([
+      ["vhost", "succeeded"],
+      ["limits", "succeeded"],
+      ["policies", "succeeded"],
+      ["exchanges", "failed"],
+      ["queues", "pending"],
+      ["bindings", "pending"],
+      ["users", "skipped"],
+      ["permissions", "pending"],
+    ]);
+  });
+
+  it("refuses a target vhost that already exists", async () => {
+    const client = fakeClient();
+
+    await expect(
+      runVHostClone({
+        id: OPERATION_ID,
+        workspaceId: "ws-1",
+        requestedById: "user-1",
+        source: { serverId: "srv-1", client, vhost: "prod" },
+        target: { serverId: "srv-1", client, vhost: "prod" },
+        options: { renameRules: [], excludeUsers: false },
+      })
+    ).rejects.toMatchObject({ code: "vhostCloneTargetExists" });
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,330 @@
+import { CodedError } from "@/core/coded-error";
+import type {
+  BindingDefinition,
+  DefinitionsDocument,
+  ExchangeDefinition,
+  PolicyDefinition,
+  QueueDefinition,
+} from "@/core/rabbitmq/definitions-diff";
+import { isQaroteInternalQueue } from "@/core/rabbitmq/internal-queues";
+import type {
+  VHostPermissions,
+  VHostTopicPermissions,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+/**
+ * What a `vhost.clone` will write to the target vhost, computed from the
+ * source vhost's export before anything is touched — the preview shows it
+ * and the run executes exactly it.
+ *
+ * Rename rules rewrite queue and exchange names and every reference to
+ * them the broker resolves by name: binding ends, dead-letter and
+ * alternate exchanges (queue/exchange arguments and policy definitions)
+ * and topic-permission exchanges. Policy patterns are regexes and are
+ * left alone; a warning says so when a rule renamed anything.
+ */
+
+export type RenameScope = "queues" | "exchanges" | "all";
+
+export interface RenameRule {
+  appliesTo: RenameScope;
+  /** JavaScript regex, applied with `String.replace` (so `$1` works). */
+  match: string;
+  replace: string;
+}
+
+export interface CloneOptions {
+  renameRules: RenameRule[];
+  /** Copy no users and no user permissions — topology and limits only. */
+  excludeUsers: boolean;
+}
+
+export interface CloneSourceData {
+  definitions: DefinitionsDocument;
+  permissions: VHostPermissions[];
+  topicPermissions: VHostTopicPermissions[];
+  limits: Record<string, number>;
+}
+
+export type RenamedKind = "queue" | "exchange";
+
+export interface RenamedItem {
+  kind: RenamedKind;
+  from: string;
+  to: string;
+}
+
+export interface SkippedItem {
+  kind: "queue" | "exchange" | "binding";
+  name: string;
+  reason: "internal" | "builtin_exchange";
+}
+
+export type CloneWarningCode =
+  | "policyPatternsUnchanged"
+  | "parametersNotCopied";
+
+export interface CloneWarning {
+  code: CloneWarningCode;
+  count: number;
+}
+
+export interface PermissionGrant {
+  user: string;
+  configure: string;
+  write: string;
+  read: string;
+}
+
+export interface TopicPermissionGrant {
+  user: string;
+  exchange: string;
+  write: string;
+  read: string;
+}
+
+export interface ClonePlan {
+  policies: PolicyDefinition[];
+  exchanges: ExchangeDefinition[];
+  queues: QueueDefinition[];
+  bindings: BindingDefinition[];
+  limits: Record<string, number>;
+  /** Users holding permissions on the source vhost, sorted. */
+  users: string[];
+  permissions: PermissionGrant[];
+  topicPermissions: TopicPermissionGrant[];
+  renamed: RenamedItem[];
+  skipped: SkippedItem[];
+  warnings: CloneWarning[];
+}
+
+export type VHostCloneErrorCode =
+  | "vhostCloneTargetExists"
+  | "vhostCloneSourceNotFound"
+  | "vhostCloneRenameCollision"
+  | "vhostCloneExists";
+
+export class VHostCloneError extends CodedError<VHostCloneErrorCode> {}
+
+/** Exchanges every vhost gets from the broker; never copied or renamed. */
+export function isBuiltinExchange(name: string): boolean {
+  return name === "" || name.startsWith("amq.");
+}
+
+/** Queue arguments that name an exchange. */
+const QUEUE_EXCHANGE_ARGS = ["x-dead-letter-exchange"];
+/** Exchange arguments that name an exchange. */
+const EXCHANGE_EXCHANGE_ARGS = ["alternate-exchange"];
+/** Policy definition keys that name an exchange. */
+const POLICY_EXCHANGE_KEYS = ["dead-letter-exchange", "alternate-exchange"];
+
+type Renamer = (name: string) => string;
+
+function compileRenamer(rules: RenameRule[], kind: RenamedKind): Renamer {
+  const scope = kind === "queue" ? "queues" : "exchanges";
+  const compiled = rules
+    .filter((rule) => rule.appliesTo === "all" || rule.appliesTo === scope)
+    .map((rule) => ({ re: new RegExp(rule.match), replace: rule.replace }));
+  return (name) => {
+    if (kind === "exchange" && isBuiltinExchange(name)) return name;
+    return compiled.reduce(
+      (acc, { re, replace }) => acc.replace(re, replace),
+      name
+    );
+  };
+}
+
+function renameArgs(
+  args: Record<string, unknown> | undefined,
+  keys: string[],
+  renameExchange: Renamer
+): Record<string, unknown> | undefined {
+  if (!args) return args;
+  const next = { ...args };
+  for (const key of keys) {
+    if (typeof next[key] === "string") {
+      next[key] = renameExchange(next[key]);
+    }
+  }
+  return next;
+}
+
+/** Strip the source vhost so the item lands in whatever vhost it is uploaded to. */
+function withoutVhost<T extends { vhost?: string }>(item: T): T {
+  const { vhost: _vhost, ...rest } = item;
+  return rest as T;
+}
+
+/**
+ * Broker limit payloads come back as `[{ vhost, value: { "max-queues": n } }]`
+ * on current releases and as a flat object on some older ones.
+ */
+export function flattenVHostLimits(raw: unknown): Record<string, number> {
+  const entries: [string, unknown][] = Array.isArray(raw)
+    ? raw.flatMap((row) =>
+        row && typeof row === "object" && "value" in row
+          ? Object.entries((row as { value: object }).value ?? {})
+          : []
+      )
+    : raw && typeof raw === "object"
+      ? Object.entries(raw)
+      : [];
+
+  const limits: Record<string, number> = {};
+  for (const [key, value] of entries) {
+    if (typeof value === "number") limits[key.replace(/_/g, "-")] = value;
+  }
+  return limits;
+}
+
+/** Records `to ← from`, refusing a second item landing on the same name. */
+function claimName(
+  claimed: Map<string, string>,
+  kind: RenamedKind,
+  from: string,
+  to: string
+) {
+  const clash = claimed.get(to);
+  if (clash !== undefined) {
+    throw new VHostCloneError(
+      "vhostCloneRenameCollision",
+      `Rename rules map ${kind}s "${clash}" and "${from}" to "${to}"`
+    );
+  }
+  claimed.set(to, from);
+}
+
+export function buildClonePlan(
+  source: CloneSourceData,
+  options: CloneOptions
+): ClonePlan {
+  const renameQueue = compileRenamer(options.renameRules, "queue");
+  const renameExchange = compileRenamer(options.renameRules, "exchange");
+  const renamed: RenamedItem[] = [];
+  const skipped: SkippedItem[] = [];
+  const warnings: CloneWarning[] = [];
+
+  const queues: QueueDefinition[] = [];
+  const queueNames = new Map<string, string>();
+  for (const queue of source.definitions.queues ?? []) {
+    if (isQaroteInternalQueue(queue.name)) {
+      skipped.push({ kind: "queue", name: queue.name, reason: "internal" });
+      continue;
+    }
+    const name = renameQueue(queue.name);
+    claimName(queueNames, "queue", queue.name, name);
+    if (name !== queue.name) {
+      renamed.push({ kind: "queue", from: queue.name, to: name });
+    }
+    queues.push({
+      ...withoutVhost(queue),
+      name,
+      arguments: renameArgs(
+        queue.arguments,
+        QUEUE_EXCHANGE_ARGS,
+        renameExchange
+      ),
+    });
+  }
+
+  const exchanges: ExchangeDefinition[] = [];
+  const exchangeNames = new Map<string, string>();
+  for (const exchange of source.definitions.exchanges ?? []) {
+    if (isBuiltinExchange(exchange.name)) {
+      skipped.push({
+        kind: "exchange",
+        name: exchange.name,
+        reason: "builtin_exchange",
+      });
+      continue;
+    }
+    const name = renameExchange(exchange.name);
+    claimName(exchangeNames, "exchange", exchange.name, name);
+    if (name !== exchange.name) {
+      renamed.push({ kind: "exchange", from: exchange.name, to: name });
+    }
+    exchanges.push({
+      ...withoutVhost(exchange),
+      name,
+      arguments: renameArgs(
+        exchange.arguments,
+        EXCHANGE_EXCHANGE_ARGS,
+        renameExchange
+      ),
+    });
+  }
+
+  const bindings: BindingDefinition[] = [];
+  for (const binding of source.definitions.bindings ?? []) {
+    if (
+      binding.destination_type === "queue" &&
+      isQaroteInternalQueue(binding.destination)
+    ) {
+      skipped.push({
+        kind: "binding",
+        name: `${binding.source} → ${binding.destination}`,
+        reason: "internal",
+      });
+      continue;
+    }
+    bindings.push({
+      ...withoutVhost(binding),
+      source: renameExchange(binding.source),
+      destination:
+        binding.destination_type === "queue"
+          ? renameQueue(binding.destination)
+          : renameExchange(binding.destination),
+    });
+  }
+
+  const policies = (source.definitions.policies ?? []).map((policy) => ({
+    ...withoutVhost(policy),
+    definition: renameArgs(
+      policy.definition,
+      POLICY_EXCHANGE_KEYS,
+      renameExchange
+    ) as Record<string, unknown>,
+  }));
+  if (renamed.length > 0 && policies.length > 0) {
+    warnings.push({ code: "policyPatternsUnchanged", count: policies.length });
+  }
+
+  const parameters = source.definitions.parameters;
+  if (Array.isArray(parameters) && parameters.length > 0) {
+    warnings.push({ code: "parametersNotCopied", count: parameters.length });
+  }
+
+  const permissions = options.excludeUsers
+    ? []
+    : source.permissions.map(({ user, configure, write, read }) => ({
+        user,
+        configure,
+        write,
+        read,
+      }));
+  const topicPermissions = options.excludeUsers
+    ? []
+    : source.topicPermissions.map(({ user, exchange, write, read }) => ({
+        user,
+        exchange: renameExchange(exchange),
+        write,
+        read,
+      }));
+  const users = [
+    ...new Set([...permissions, ...topicPermissions].map((p) => p.user)),
+  ].sort();
+
+  return {
+    policies,
+    exchanges,
+    queues,
+    bindings,
+    limits: source.limits,
+    users,
+    permissions,
+    topicPermissions,
+    renamed,
+    skipped,
+    warnings,
+  };
+}
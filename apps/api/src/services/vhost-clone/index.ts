@@ -0,0 +1,35 @@
+/**
+ * vhost.clone — the plan computed from the source export
+ * (`clone-plan.ts`) and the recorded, progress-streaming run
+ * (`vhost-clone.service.ts`).
+ */
+
+export type {
+  CloneOptions,
+  ClonePlan,
+  CloneWarningCode,
+  RenameRule,
+  VHostCloneErrorCode,
+} from "./clone-plan";
+export {
+  buildClonePlan,
+  flattenVHostLimits,
+  isBuiltinExchange,
+  VHostCloneError,
+} from "./clone-plan";
+export type {
+  CloneEndpoint,
+  CloneReport,
+  CloneStep,
+  CloneStepName,
+} from "./vhost-clone.service";
+export {
+  assertTargetVhostFree,
+  CLONE_STALE_AFTER_MS,
+  CLONE_STEPS,
+  getCloneOperation,
+  loadCloneSource,
+  planSteps,
+  runVHostClone,
+  serializeCloneOperation,
+} from "./vhost-clone.service";
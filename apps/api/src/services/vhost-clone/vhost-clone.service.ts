@@ -0,0 +1,369 @@
+/**
+ * VHost Clone Service
+ *
+ * Copies one vhost to a new vhost on the same or another server. The plan
+ * (`clone-plan.ts`) is computed from the source's export up front; the run
+ * then executes it as a fixed sequence of steps, recording each step's
+ * progress on a `VHostCloneOperation` row so a subscriber on any API
+ * replica sees the same thing.
+ *
+ * A failed step ends the run — the target vhost is left as far as it got
+ * rather than rolled back, and the report says exactly how far that was.
+ */
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+import type {
+  RabbitMQQueueType,
+  RabbitMQVHost,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { isInterruptedRun } from "@/services/queue-bulk";
+
+import { DefinitionsDocumentSchema } from "@/schemas/rabbitmq";
+
+import {
+  buildClonePlan,
+  type CloneOptions,
+  type ClonePlan,
+  type CloneSourceData,
+  flattenVHostLimits,
+  VHostCloneError,
+} from "./clone-plan";
+
+import {
+  Prisma,
+  type VHostCloneOperation,
+  VHostCloneStatus,
+} from "@/generated/prisma/client";
+
+export const CLONE_STEPS = [
+  "vhost",
+  "limits",
+  "policies",
+  "exchanges",
+  "queues",
+  "bindings",
+  "users",
+  "permissions",
+] as const;
+
+export type CloneStepName = (typeof CLONE_STEPS)[number];
+
+export type CloneStepStatus =
+  | "pending"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "skipped";
+
+export interface CloneStep {
+  step: CloneStepName;
+  status: CloneStepStatus;
+  /** Items written by the step (or that it would write, while pending). */
+  count: number;
+  error: string | null;
+}
+
+/**
+ * A run still `RUNNING` with no progress for this long lost its process
+ * (crash, deploy). Generous: one step uploads a whole kind in one request.
+ */
+export const CLONE_STALE_AFTER_MS = 5 * 60_000;
+
+export interface CloneEndpoint {
+  serverId: string;
+  client: RabbitMQClient;
+  vhost: string;
+}
+
+export interface CloneRunParams {
+  id: string;
+  workspaceId: string;
+  requestedById: string | null;
+  source: CloneEndpoint;
+  target: CloneEndpoint;
+  options: CloneOptions;
+}
+
+export interface CloneReport {
+  renamed: ClonePlan["renamed"];
+  skipped: ClonePlan["skipped"];
+  warnings: ClonePlan["warnings"];
+  /** Users created on the target server from the source's definitions. */
+  usersCreated: string[];
+  /** Users that already existed on the target server and were left as they are. */
+  usersExisting: string[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Read everything a clone copies from the source vhost. */
+export async function loadCloneSource(
+  client: RabbitMQClient,
+  vhost: string
+): Promise<CloneSourceData & { vhost: RabbitMQVHost }> {
+  const record = (await client.getVHosts()).find((v) => v.name === vhost);
+  if (!record) {
+    throw new VHostCloneError(
+      "vhostCloneSourceNotFound",
+      `Source vhost "${vhost}" not found`
+    );
+  }
+
+  const [definitions, permissions, topicPermissions, limits] =
+    await Promise.all([
+      client.getDefinitions(vhost),
+      client.getVHostPermissions(vhost),
+      client.getVHostTopicPermissions(vhost).catch(() => []),
+      client.getVHostLimits(vhost).catch(() => ({})),
+    ]);
+
+  const parsed = DefinitionsDocumentSchema.safeParse(definitions);
+  return {
+    vhost: record,
+    // An empty vhost exports no sections at all, which the schema refuses
+    definitions: parsed.success ? parsed.data : {},
+    permissions,
+    topicPermissions,
+    limits: flattenVHostLimits(limits),
+  };
+}
+
+/** Refuse a target vhost that already exists — a clone never merges. */
+export async function assertTargetVhostFree(
+  target: CloneEndpoint
+): Promise<void> {
+  const vhosts = await target.client.getVHosts();
+  if (vhosts.some((v) => v.name === target.vhost)) {
+    throw new VHostCloneError(
+      "vhostCloneTargetExists",
+      `Vhost "${target.vhost}" already exists on the target server`
+    );
+  }
+}
+
+/** The steps a plan will run, with their expected item counts. */
+export function planSteps(
+  plan: ClonePlan,
+  options: CloneOptions,
+  sameServer: boolean
+): CloneStep[] {
+  const counts: Record<CloneStepName, number> = {
+    vhost: 1,
+    limits: Object.keys(plan.limits).length,
+    policies: plan.policies.length,
+    exchanges: plan.exchanges.length,
+    queues: plan.queues.length,
+    bindings: plan.bindings.length,
+    users: sameServer ? 0 : plan.users.length,
+    permissions: plan.permissions.length + plan.topicPermissions.length,
+  };
+  const skipped = (step: CloneStepName) =>
+    (options.excludeUsers && (step === "users" || step === "permissions")) ||
+    (sameServer && step === "users");
+
+  return CLONE_STEPS.map((step) => ({
+    step,
+    status: skipped(step) ? "skipped" : "pending",
+    count: skipped(step) ? 0 : counts[step],
+    error: null,
+  }));
+}
+
+export async function runVHostClone(
+  params: CloneRunParams
+): Promise<VHostCloneOperation> {
+  const { id, source, target, options } = params;
+  const sameServer = source.serverId === target.serverId;
+
+  await assertTargetVhostFree(target);
+  const sourceData = await loadCloneSource(source.client, source.vhost);
+  const sourceVhost = sourceData.vhost;
+  const plan = buildClonePlan(sourceData, options);
+  const steps = planSteps(plan, options, sameServer);
+
+  try {
+    await prisma.vHostCloneOperation.create({
+      data: {
+        id,
+        workspaceId: params.workspaceId,
+        sourceServerId: source.serverId,
+        sourceVhost: source.vhost,
+        targetServerId: target.serverId,
+        targetVhost: target.vhost,
+        options: options as unknown as Prisma.InputJsonObject,
+        steps: steps as unknown as Prisma.InputJsonArray,
+        requestedById: params.requestedById,
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new VHostCloneError(
+        "vhostCloneExists",
+        `Clone operation ${id} already exists`
+      );
+    }
+    throw error;
+  }
+
+  const report: CloneReport = {
+    renamed: plan.renamed,
+    skipped: plan.skipped,
+    warnings: plan.warnings,
+    usersCreated: [],
+    usersExisting: [],
+  };
+
+  const perform: Record<CloneStepName, () => Promise<number>> = {
+    vhost: async () => {
+      await target.client.createVHost({
+        name: target.vhost,
+        description:
+          sourceVhost.description ?? sourceVhost.metadata?.description,
+        tags: sourceVhost.tags ?? sourceVhost.metadata?.tags,
+        default_queue_type: sourceVhost.default_queue_type as
+          | RabbitMQQueueType
+          | undefined,
+        tracing: sourceVhost.tracing,
+      });
+      return 1;
+    },
+    limits: async () => {
+      const entries = Object.entries(plan.limits);
+      for (const [limitType, value] of entries) {
+        await target.client.setVHostLimit(target.vhost, limitType, { value });
+      }
+      return entries.length;
+    },
+    policies: () => upload(target, "policies", plan.policies),
+    exchanges: () => upload(target, "exchanges", plan.exchanges),
+    queues: () => upload(target, "queues", plan.queues),
+    bindings: () => upload(target, "bindings", plan.bindings),
+    users: async () => {
+      const existing = new Set(
+        (await target.client.getUsers()).map((u) => u.name)
+      );
+      const missing = plan.users.filter((name) => !existing.has(name));
+      report.usersExisting = plan.users.filter((name) => existing.has(name));
+      if (missing.length === 0) return 0;
+
+      // Copy the password hash, so the users log in with the same passwords
+      const users = await Promise.all(
+        missing.map((name) => source.client.getUser(name))
+      );
+      await target.client.uploadDefinitions({
+        users: users.map((user) => ({
+          name: user.name,
+          password_hash: user.password_hash,
+          hashing_algorithm: user.hashing_algorithm,
+          tags: user.tags,
+        })),
+      });
+      report.usersCreated = missing;
+      return missing.length;
+    },
+    permissions: async () => {
+      for (const grant of plan.permissions) {
+        await target.client.setUserPermissions(target.vhost, grant.user, {
+          user: grant.user,
+          configure: grant.configure,
+          write: grant.write,
+          read: grant.read,
+        });
+      }
+      for (const grant of plan.topicPermissions) {
+        await target.client.setUserTopicPermissions(
+          target.vhost,
+          grant.user,
+          grant.exchange,
+          grant.write,
+          grant.read
+        );
+      }
+      return plan.permissions.length + plan.topicPermissions.length;
+    },
+  };
+
+  let failure: string | null = null;
+  for (const step of steps) {
+    if (step.status === "skipped") continue;
+
+    step.status = "running";
+    await saveSteps(id, steps);
+    try {
+      step.count = await perform[step.step]();
+      step.status = "succeeded";
+    } catch (error) {
+      failure = errorMessage(error);
+      step.status = "failed";
+      step.error = failure;
+      logger.warn(
+        { error, operationId: id, step: step.step },
+        "VHost clone step failed"
+      );
+    }
+    await saveSteps(id, steps);
+    if (failure) break;
+  }
+
+  return prisma.vHostCloneOperation.update({
+    where: { id },
+    data: {
+      status: failure ? VHostCloneStatus.FAILED : VHostCloneStatus.COMPLETED,
+      report: report as unknown as Prisma.InputJsonObject,
+      error: failure,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+async function upload(
+  target: CloneEndpoint,
+  kind: "policies" | "exchanges" | "queues" | "bindings",
+  items: unknown[]
+): Promise<number> {
+  if (items.length === 0) return 0;
+  await target.client.uploadDefinitions({ [kind]: items }, target.vhost);
+  return items.length;
+}
+
+async function saveSteps(id: string, steps: CloneStep[]): Promise<void> {
+  await prisma.vHostCloneOperation.update({
+    where: { id },
+    data: { steps: steps as unknown as Prisma.InputJsonArray },
+  });
+}
+
+export function getCloneOperation(
+  id: string,
+  workspaceId: string
+): Promise<VHostCloneOperation | null> {
+  return prisma.vHostCloneOperation.findFirst({ where: { id, workspaceId } });
+}
+
+export function serializeCloneOperation(
+  operation: VHostCloneOperation,
+  now = new Date()
+) {
+  return {
+    id: operation.id,
+    sourceServerId: operation.sourceServerId,
+    sourceVhost: operation.sourceVhost,
+    targetServerId: operation.targetServerId,
+    targetVhost: operation.targetVhost,
+    status: operation.status,
+    interrupted: isInterruptedRun(operation, CLONE_STALE_AFTER_MS, now),
+    steps: operation.steps as unknown as CloneStep[],
+    report: operation.report as unknown as CloneReport | null,
+    error: operation.error,
+    createdAt: operation.createdAt.toISOString(),
+    finishedAt: operation.finishedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/config", () => ({
+  appConfig: { baseUrl: "https://app.example.com" },
+}));
+
+import { toAlertNotificationPayload } from "@/services/alert-channels/alert-payload";
+
+import {
+  buildWebhookPayload,
+  subscribesTo,
+  webhookPayloadJsonSchema,
+  WebhookPayloadV1Schema,
+} from "../payload";
+
+const createdAt = new Date("2026-10-28T09:00:00.000Z");
+
+describe("buildWebhookPayload", () => {
+  it("shapes an alert for v1 without the internal routing detail", () => {
+    const alert = {
+      ...toAlertNotificationPayload({
+        id: "alert-1",
+        workspaceId: "ws-1",
+        fingerprint: "fp-1",
+        title: "Queue backlog",
+        description: "orders has 10k ready messages",
+        severity: "HIGH",
+        serverId: "server-1",
+        serverName: "prod",
+        vhost: "/",
+        category: "queue",
+        sourceType: "queue",
+        sourceName: "orders",
+        value: 10_000,
+        threshold: 5_000,
+        createdAt,
+        firstSeenAt: null,
+        resolvedAt: null,
+      }),
+      routing: { ruleId: "rule-1", step: 1 },
+    };
+
+    const payload = buildWebhookPayload(
+      {
+        id: "alert:alert-1:trigger",
+        type: "alert.triggered",
+        workspaceId: "ws-1",
+        alert,
+      },
+      "v1",
+      createdAt
+    );
+
+    expect(payload).toMatchObject({
+      id: "alert:alert-1:trigger",
+      type: "alert.triggered",
+      version: "v1",
+      createdAt: createdAt.toISOString(),
+      data: { alertId: "alert-1", severity: "HIGH" },
+    });
+    expect(payload.data).not.toHaveProperty("routing");
+    expect(WebhookPayloadV1Schema.safeParse(payload).success).toBe(true);
+  });
+
+  it("produces config finding and audit payloads that match the schema", () => {
+    const finding = buildWebhookPayload(
+      {
+        id: "config_finding:f-1:detected:1",
+        type: "config_finding.detected",
+        workspaceId: "ws-1",
+        finding: {
+          id: "f-1",
+          workspaceId: "ws-1",
+          serverId: "server-1",
+          ruleKey: "queue.no_dlx",
+          severity: "MEDIUM",
+          resourceType: "queue",
+          resourceName: "orders",
+          vhost: "/",
+          detectedAt: createdAt,
+          resolvedAt: null,
+        },
+      },
+      "v1",
+      createdAt
+    );
+    const audit = buildWebhookPayload(
+      {
+        id: "audit:log-1",
+        type: "audit.recorded",
+        workspaceId: "ws-1",
+        audit: {
+          id: "log-1",
+          workspaceId: "ws-1",
+          action: "rabbitmq.queue.purge",
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: "orders",
+          entityLabel: null,
+          actorEmail: "ops@example.com",
+          source: "qarote",
+          serverId: null,
+          vhost: "/",
+          metadata: { purged: 12 },
+          timestamp: createdAt,
+        },
+      },
+      "v1",
+      createdAt
+    );
+
+    expect(WebhookPayloadV1Schema.safeParse(finding).success).toBe(true);
+    expect(WebhookPayloadV1Schema.safeParse(audit).success).toBe(true);
+  });
+});
+
+describe("webhookPayloadJsonSchema", () => {
+  it("publishes one branch per event type", () => {
+    const schema = webhookPayloadJsonSchema("v1") as {
+      oneOf?: { properties: { type: { const: string } } }[];
+      anyOf?: { properties: { type: { const: string } } }[];
+    };
+    const branches = schema.oneOf ?? schema.anyOf ?? [];
+
+    expect(branches.map((b) => b.properties.type.const).sort()).toEqual([
+      "alert.resolved",
+      "alert.triggered",
+      "audit.recorded",
+      "config_finding.detected",
+      "config_finding.resolved",
+      "webhook.test",
+    ]);
+  });
+});
+
+describe("subscribesTo", () => {
+  it("matches event groups and always lets test events through", () => {
+    expect(subscribesTo(["alerts"], "alert.resolved")).toBe(true);
+    expect(subscribesTo(["alerts"], "audit.recorded")).toBe(false);
+    expect(subscribesTo(["audit"], "webhook.test")).toBe(true);
+  });
+});
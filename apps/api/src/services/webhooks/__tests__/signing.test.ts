@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  generateWebhookSecret,
+  signWebhookBody,
+  verifyWebhookSignature,
+} from "../signing";
+
+const body = JSON.stringify({ id: "evt-1", type: "webhook.test" });
+const now = 1_800_000_000;
+
+describe("webhook signatures", () => {
+  it("round-trips through the receiver-side check", () => {
+    const secret = generateWebhookSecret();
+    const header = signWebhookBody(body, [secret], now);
+
+    expect(header).toMatch(/^t=1800000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, secret, { now })).toBe(true);
+  });
+
+  it("rejects a tampered body or a different secret", () => {
+    const secret = generateWebhookSecret();
+    const header = signWebhookBody(body, [secret], now);
+
+    expect(verifyWebhookSignature(`${body} `, header, secret, { now })).toBe(
+      false
+    );
+    expect(
+      verifyWebhookSignature(body, header, generateWebhookSecret(), { now })
+    ).toBe(false);
+  });
+
+  it("rejects a replay outside the tolerance window", () => {
+    const secret = generateWebhookSecret();
+    const header = signWebhookBody(body, [secret], now);
+
+    expect(
+      verifyWebhookSignature(body, header, secret, { now: now + 301 })
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature(body, header, secret, {
+        now: now + 301,
+        toleranceSeconds: 600,
+      })
+    ).toBe(true);
+  });
+
+  it("carries one signature per secret during a rotation", () => {
+    const current = generateWebhookSecret();
+    const previous = generateWebhookSecret();
+    const header = signWebhookBody(body, [current, previous], now);
+
+    expect(header.split(",")).toHaveLength(3);
+    expect(verifyWebhookSignature(body, header, current, { now })).toBe(true);
+    expect(verifyWebhookSignature(body, header, previous, { now })).toBe(true);
+  });
+});
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { webhookFindFirst, webhookUpdateMany, attemptFindMany } = vi.hoisted(
+  () => ({
+    webhookFindFirst: vi.fn(),
+    webhookUpdateMany: vi.fn(),
+    attemptFindMany: vi.fn(),
+  })
+);
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    webhook: { findFirst: webhookFindFirst, updateMany: webhookUpdateMany },
+    notificationOutboxAttempt: { findMany: attemptFindMany },
+  },
+}));
+vi.mock("@/config", () => ({
+  appConfig: { baseUrl: "https://app.example.com" },
+}));
+vi.mock("@/services/encryption.service", () => ({
+  EncryptionService: {
+    encrypt: (value: string) => `enc:${value}`,
+    reencrypt: (value: string) => value,
+    decrypt: (value: string) => value.replace(/^enc:/, ""),
+    keyVersion: 2,
+  },
+}));
+
+import { verifyWebhookSignature } from "../signing";
+import {
+  listWebhookDeliveries,
+  rotateWebhookSecret,
+  sendWebhookTest,
+} from "../webhook-settings";
+
+describe("rotateWebhookSecret", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    webhookUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("keeps the old secret for the overlap window", async () => {
+    webhookFindFirst.mockResolvedValue({ secret: "enc:old" });
+    const before = Date.now();
+
+    const rotated = await rotateWebhookSecret("ws-1", "wh-1", 24);
+
+    expect(rotated?.secret).toMatch(/^whsec_/);
+    expect(
+      new Date(rotated!.previousSecretExpiresAt!).getTime()
+    ).toBeGreaterThanOrEqual(before + 24 * 60 * 60_000);
+    expect(webhookUpdateMany).toHaveBeenCalledWith({
+      where: { id: "wh-1", workspaceId: "ws-1", secret: "enc:old" },
+      data: expect.objectContaining({
+        secret: `enc:${rotated!.secret}`,
+        previousSecret: "enc:old",
+        encryptionKeyVersion: 2,
+      }),
+    });
+  });
+
+  it("retires the old secret at once without an overlap", async () => {
+    webhookFindFirst.mockResolvedValue({ secret: "enc:old" });
+
+    const rotated = await rotateWebhookSecret("ws-1", "wh-1", 0);
+
+    expect(rotated?.previousSecretExpiresAt).toBeNull();
+    expect(webhookUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          previousSecret: null,
+          previousSecretExpiresAt: null,
+        }),
+      })
+    );
+  });
+
+  it("returns null for another workspace's webhook or a lost race", async () => {
+    webhookFindFirst.mockResolvedValue(null);
+    await expect(rotateWebhookSecret("ws-1", "wh-1", 24)).resolves.toBeNull();
+
+    webhookFindFirst.mockResolvedValue({ secret: "enc:old" });
+    webhookUpdateMany.mockResolvedValue({ count: 0 });
+    await expect(rotateWebhookSecret("ws-1", "wh-1", 24)).resolves.toBeNull();
+  });
+});
+
+describe("listWebhookDeliveries", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    webhookFindFirst.mockResolvedValue({ id: "wh-1" });
+  });
+
+  function attempt(id: string) {
+    return {
+      id,
+      outcome: "RETRY",
+      detail: "HTTP 502: bad gateway",
+      durationMs: 120,
+      statusCode: 502,
+      responseSnippet: "bad gateway",
+      createdAt: new Date("2026-10-28T09:00:00.000Z"),
+      outbox: {
+        id: "row-1",
+        template: "alert.triggered",
+        payload: { id: "alert:alert-1:trigger" },
+      },
+    };
+  }
+
+  it("maps outbox attempts and pages with the last attempt id", async () => {
+    attemptFindMany.mockResolvedValue([attempt("a-3"), attempt("a-2")]);
+
+    const page = await listWebhookDeliveries("ws-1", "wh-1", { limit: 1 });
+
+    expect(attemptFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { outbox: { channel: "webhook", target: "wh-1" } },
+        take: 2,
+      })
+    );
+    expect(page).toEqual({
+      items: [
+        {
+          id: "a-3",
+          outboxId: "row-1",
+          eventId: "alert:alert-1:trigger",
+          eventType: "alert.triggered",
+          outcome: "RETRY",
+          statusCode: 502,
+          durationMs: 120,
+          responseSnippet: "bad gateway",
+          error: "HTTP 502: bad gateway",
+          createdAt: "2026-10-28T09:00:00.000Z",
+        },
+      ],
+      nextCursor: "a-3",
+    });
+  });
+
+  it("returns null when the webhook is not in the workspace", async () => {
+    webhookFindFirst.mockResolvedValue(null);
+    await expect(
+      listWebhookDeliveries("ws-1", "wh-1", { limit: 25 })
+    ).resolves.toBeNull();
+    expect(attemptFindMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("sendWebhookTest", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it("sends a signed test event and reports the answer", async () => {
+    webhookFindFirst.mockResolvedValue({
+      url: "https://hooks.example.com/qarote",
+      version: "v1",
+      secret: "enc:whsec_current",
+      previousSecret: "enc:whsec_previous",
+      previousSecretExpiresAt: new Date(Date.now() + 60_000),
+    });
+    fetchMock.mockResolvedValue(new Response("ok", { status: 200 }));
+
+    const result = await sendWebhookTest("ws-1", "wh-1");
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        success: true,
+        statusCode: 200,
+        responseSnippet: "ok",
+        error: null,
+      })
+    );
+    const [, init] = fetchMock.mock.calls[0];
+    const body = init.body as string;
+    expect(JSON.parse(body)).toMatchObject({
+      type: "webhook.test",
+      version: "v1",
+      workspaceId: "ws-1",
+      data: { webhookId: "wh-1" },
+    });
+    expect(init.headers["X-Qarote-Event"]).toBe("webhook.test");
+    for (const secret of ["whsec_current", "whsec_previous"]) {
+      expect(
+        verifyWebhookSignature(body, init.headers["X-Qarote-Signature"], secret)
+      ).toBe(true);
+    }
+  });
+
+  it("reports a rejected delivery as a result", async () => {
+    webhookFindFirst.mockResolvedValue({
+      url: "https://hooks.example.com/qarote",
+      version: "v1",
+      secret: null,
+      previousSecret: null,
+      previousSecretExpiresAt: null,
+    });
+    fetchMock.mockResolvedValue(new Response("nope", { status: 401 }));
+
+    const result = await sendWebhookTest("ws-1", "wh-1");
+
+    expect(result).toEqual(
+      expect.objectContaining({ success: false, statusCode: 401 })
+    );
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty(
+      "X-Qarote-Signature"
+    );
+  });
+});
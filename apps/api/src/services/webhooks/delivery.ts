@@ -0,0 +1,114 @@
+import { prisma } from "@/core/prisma";
+
+import {
+  type HttpSendResult,
+  postJsonBody,
+} from "@/services/alert-channels/http";
+import { triggerGate } from "@/services/alert-channels/trigger-gate";
+import { EncryptionService } from "@/services/encryption.service";
+
+import type { WebhookPayload } from "./payload";
+import { SIGNATURE_HEADER, signWebhookBody } from "./signing";
+
+/** What a delivery needs from the webhook row; secrets still encrypted. */
+export interface WebhookSendTarget {
+  url: string;
+  secret: string | null;
+  previousSecret: string | null;
+  previousSecretExpiresAt: Date | null;
+}
+
+export interface WebhookSendResult extends HttpSendResult {
+  durationMs: number;
+}
+
+/**
+ * Secrets a delivery is signed with: the current one, and the one it
+ * replaced until the rotation's overlap window closes.
+ */
+export function signingSecrets(
+  webhook: Omit<WebhookSendTarget, "url">,
+  now = new Date()
+): string[] {
+  const secrets: string[] = [];
+  if (webhook.secret) secrets.push(EncryptionService.decrypt(webhook.secret));
+  if (
+    webhook.previousSecret &&
+    webhook.previousSecretExpiresAt &&
+    webhook.previousSecretExpiresAt > now
+  ) {
+    secrets.push(EncryptionService.decrypt(webhook.previousSecret));
+  }
+  return secrets;
+}
+
+/**
+ * POST a payload to a webhook, signed when it has a secret. The signature
+ * timestamp is taken per attempt, so a retry hours later still passes the
+ * receiver's replay window.
+ */
+export async function sendWebhook(
+  webhook: WebhookSendTarget,
+  payload: WebhookPayload
+): Promise<WebhookSendResult> {
+  const body = JSON.stringify(payload);
+  const secrets = signingSecrets(webhook);
+  const headers: Record<string, string> = {
+    "User-Agent": "Qarote-Webhooks/1.0",
+    "X-Qarote-Event": payload.type,
+    "X-Qarote-Delivery": payload.id,
+    "X-Qarote-Payload-Version": payload.version,
+    ...(secrets.length > 0 && {
+      [SIGNATURE_HEADER]: signWebhookBody(body, secrets),
+    }),
+  };
+
+  const startedAt = Date.now();
+  const result = await postJsonBody(webhook.url, body, headers);
+  return { ...result, durationMs: Date.now() - startedAt };
+}
+
+/**
+ * Outbox dispatcher of the webhook channel. The row's target is the
+ * webhook id and its payload the versioned body; a webhook deleted or
+ * disabled since the enqueue drops the row. Alert triggers are routed
+ * like the other alert channels, so they pass the same trigger gate.
+ */
+export async function dispatchWebhook(
+  webhookId: string,
+  payload: WebhookPayload
+): Promise<HttpSendResult> {
+  if (payload.type === "alert.triggered") {
+    const gated = await triggerGate({ alertId: payload.data.alertId });
+    if (gated) return gated;
+  }
+  const webhook = await prisma.webhook.findUnique({
+    where: { id: webhookId },
+    select: {
+      url: true,
+      enabled: true,
+      secret: true,
+      previousSecret: true,
+      previousSecretExpiresAt: true,
+    },
+  });
+  if (!webhook) {
+    return {
+      success: false,
+      error: `webhook ${webhookId} was removed`,
+      permanent: true,
+    };
+  }
+  if (!webhook.enabled) {
+    return {
+      success: false,
+      error: `webhook ${webhookId} is disabled`,
+      permanent: true,
+    };
+  }
+  const { durationMs: _durationMs, ...result } = await sendWebhook(
+    webhook,
+    payload
+  );
+  return result;
+}
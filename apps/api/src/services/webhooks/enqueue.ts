@@ -0,0 +1,103 @@
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { enqueueNotification } from "@/services/notification/notification-outbox.service";
+
+import {
+  type AuditRecord,
+  buildWebhookPayload,
+  type ConfigFindingRecord,
+  isWebhookPayloadVersion,
+  subscribesTo,
+  type WebhookEvent,
+} from "./payload";
+
+import type { Prisma } from "@/generated/prisma/client";
+
+type WebhookDbClient = Pick<
+  Prisma.TransactionClient,
+  "webhook" | "notificationOutbox" | "$executeRawUnsafe"
+>;
+
+/**
+ * Queue an event for every enabled webhook of its workspace subscribed to
+ * it, shaped for the payload version each webhook is pinned to. The
+ * idempotency key is per event and webhook, so re-emitting an event never
+ * double-delivers.
+ *
+ * @returns the number of rows enqueued
+ */
+export async function enqueueWebhookEvent(
+  event: WebhookEvent,
+  client: WebhookDbClient = prisma
+): Promise<number> {
+  const webhooks = await client.webhook.findMany({
+    where: { workspaceId: event.workspaceId, enabled: true },
+    select: { id: true, version: true, events: true },
+  });
+
+  const now = new Date();
+  let enqueued = 0;
+  for (const webhook of webhooks) {
+    if (!subscribesTo(webhook.events, event.type)) continue;
+    if (!isWebhookPayloadVersion(webhook.version)) {
+      logger.warn(
+        { webhookId: webhook.id, version: webhook.version },
+        "Webhook pinned to an unknown payload version — event skipped"
+      );
+      continue;
+    }
+    const created = await enqueueNotification(
+      {
+        channel: "webhook",
+        template: event.type,
+        target: webhook.id,
+        payload: buildWebhookPayload(event, webhook.version, now),
+        idempotencyKey: `webhook:${event.id}:${webhook.id}`,
+      },
+      client
+    );
+    if (created) enqueued++;
+  }
+  return enqueued;
+}
+
+/**
+ * Config finding detected or resolved by a scan. A finding that resolves
+ * and comes back is a new event, so the key carries the timestamp.
+ */
+export function enqueueConfigFindingWebhooks(
+  finding: ConfigFindingRecord,
+  event: "detected" | "resolved",
+  client: WebhookDbClient = prisma
+): Promise<number> {
+  const at = event === "detected" ? finding.detectedAt : finding.resolvedAt;
+  return enqueueWebhookEvent(
+    {
+      id: `config_finding:${finding.id}:${event}:${at?.getTime() ?? ""}`,
+      type:
+        event === "detected"
+          ? "config_finding.detected"
+          : "config_finding.resolved",
+      workspaceId: finding.workspaceId,
+      finding,
+    },
+    client
+  );
+}
+
+/** Audit row written for a workspace. */
+export function enqueueAuditWebhooks(
+  audit: AuditRecord,
+  client: WebhookDbClient = prisma
+): Promise<number> {
+  return enqueueWebhookEvent(
+    {
+      id: `audit:${audit.id}`,
+      type: "audit.recorded",
+      workspaceId: audit.workspaceId,
+      audit,
+    },
+    client
+  );
+}
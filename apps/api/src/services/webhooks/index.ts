@@ -0,0 +1,5 @@
+export * from "./delivery";
+export * from "./enqueue";
+export * from "./payload";
+export * from "./signing";
+export * from "./webhook-settings";
@@ -0,0 +1,305 @@
+/**
+ * Versioned webhook payloads.
+ *
+ * Every delivery is an envelope — id, type, version, timestamp, workspace —
+ * around a `data` object whose shape depends on the event type. A webhook
+ * pins the payload version it receives (`Webhook.version`), so a future v2
+ * can change shapes without breaking consumers still on v1. The JSON
+ * schema of each version is served at `/api/v1/webhook-schemas/{version}`
+ * for consumers to validate against.
+ *
+ * Versions are frozen once published: add a new one instead of editing.
+ */
+
+import { z } from "zod";
+
+import type { AlertNotificationPayload } from "@/services/alert-channels/alert-payload";
+
+import type { AlertSeverity } from "@/generated/prisma/client";
+
+/** Event groups a webhook can subscribe to (`Webhook.events`). */
+export const WEBHOOK_EVENT_GROUPS = [
+  "alerts",
+  "audit",
+  "config_findings",
+] as const;
+
+export type WebhookEventGroup = (typeof WEBHOOK_EVENT_GROUPS)[number];
+
+/** Event types and the group they belong to; test events go to everyone. */
+export const WEBHOOK_EVENT_TYPES = {
+  "alert.triggered": "alerts",
+  "alert.resolved": "alerts",
+  "audit.recorded": "audit",
+  "config_finding.detected": "config_findings",
+  "config_finding.resolved": "config_findings",
+  "webhook.test": null,
+} as const satisfies Record<string, WebhookEventGroup | null>;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES;
+
+export const WEBHOOK_PAYLOAD_VERSIONS = ["v1"] as const;
+
+export type WebhookPayloadVersion = (typeof WEBHOOK_PAYLOAD_VERSIONS)[number];
+
+export function isWebhookPayloadVersion(
+  version: string
+): version is WebhookPayloadVersion {
+  return (WEBHOOK_PAYLOAD_VERSIONS as readonly string[]).includes(version);
+}
+
+const SeveritySchema = z.enum(["CRITICAL", "HIGH", "MEDIUM", "LOW", "INFO"]);
+
+const AlertDataV1 = z
+  .object({
+    alertId: z.string(),
+    dedupKey: z
+      .string()
+      .describe("Stable across the trigger and resolve of one condition"),
+    title: z.string(),
+    description: z.string(),
+    severity: SeveritySchema,
+    serverId: z.string().nullable(),
+    serverName: z.string().nullable(),
+    vhost: z.string().nullable(),
+    category: z.string().nullable(),
+    sourceType: z.string().nullable(),
+    sourceName: z.string().nullable(),
+    value: z.number().nullable(),
+    threshold: z.number().nullable(),
+    firedAt: z.iso.datetime(),
+    resolvedAt: z.iso.datetime().nullable(),
+    url: z.url(),
+  })
+  .meta({ id: "AlertData" });
+
+const AuditDataV1 = z
+  .object({
+    auditLogId: z.string(),
+    action: z.string().describe('Dotted notation, e.g. "rabbitmq.queue.purge"'),
+    category: z.string(),
+    entityType: z.string(),
+    entityId: z.string().nullable(),
+    entityLabel: z.string().nullable(),
+    actorEmail: z.string().nullable(),
+    source: z.string(),
+    serverId: z.string().nullable(),
+    vhost: z.string().nullable(),
+    metadata: z.unknown().nullable(),
+    recordedAt: z.iso.datetime(),
+  })
+  .meta({ id: "AuditData" });
+
+const ConfigFindingDataV1 = z
+  .object({
+    findingId: z.string(),
+    serverId: z.string(),
+    ruleKey: z.string(),
+    severity: SeveritySchema,
+    resourceType: z.string(),
+    resourceName: z.string(),
+    vhost: z.string().nullable(),
+    detectedAt: z.iso.datetime(),
+    resolvedAt: z.iso.datetime().nullable(),
+  })
+  .meta({ id: "ConfigFindingData" });
+
+const TestDataV1 = z
+  .object({ message: z.string(), webhookId: z.string() })
+  .meta({ id: "TestData" });
+
+function envelopeV1<T extends WebhookEventType, D extends z.ZodType>(
+  type: T,
+  data: D
+) {
+  return z.object({
+    id: z
+      .string()
+      .describe(
+        "Event id. Retries of one event keep it — use it to deduplicate"
+      ),
+    type: z.literal(type),
+    version: z.literal("v1"),
+    createdAt: z.iso.datetime(),
+    workspaceId: z.string(),
+    data,
+  });
+}
+
+export const WebhookPayloadV1Schema = z
+  .discriminatedUnion("type", [
+    envelopeV1("alert.triggered", AlertDataV1),
+    envelopeV1("alert.resolved", AlertDataV1),
+    envelopeV1("audit.recorded", AuditDataV1),
+    envelopeV1("config_finding.detected", ConfigFindingDataV1),
+    envelopeV1("config_finding.resolved", ConfigFindingDataV1),
+    envelopeV1("webhook.test", TestDataV1),
+  ])
+  .meta({
+    title: "Qarote webhook payload v1",
+    description:
+      "Body of every webhook delivery on payload version v1. Verify the X-Qarote-Signature header before trusting it.",
+  });
+
+export type WebhookPayloadV1 = z.infer<typeof WebhookPayloadV1Schema>;
+
+/** Payload of any published version, as stored on the outbox row. */
+export type WebhookPayload = WebhookPayloadV1;
+
+const PAYLOAD_SCHEMAS = {
+  v1: WebhookPayloadV1Schema,
+} satisfies Record<WebhookPayloadVersion, z.ZodType>;
+
+/** JSON Schema (2020-12) of a payload version, as published to consumers. */
+export function webhookPayloadJsonSchema(
+  version: WebhookPayloadVersion
+): Record<string, unknown> {
+  return z.toJSONSchema(PAYLOAD_SCHEMAS[version], {
+    io: "output",
+    unrepresentable: "any",
+  }) as Record<string, unknown>;
+}
+
+/** Source record of a config finding event. */
+export interface ConfigFindingRecord {
+  id: string;
+  workspaceId: string;
+  serverId: string;
+  ruleKey: string;
+  severity: AlertSeverity;
+  resourceType: string;
+  resourceName: string;
+  vhost: string | null;
+  detectedAt: Date;
+  resolvedAt: Date | null;
+}
+
+/** Source record of an audit event. */
+export interface AuditRecord {
+  id: string;
+  workspaceId: string;
+  action: string;
+  category: string;
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  actorEmail: string | null;
+  source: string;
+  serverId: string | null;
+  vhost: string | null;
+  metadata: unknown;
+  timestamp: Date;
+}
+
+/**
+ * The event a webhook delivery carries, before it is shaped for a payload
+ * version. `id` is stable per source event.
+ */
+export type WebhookEvent =
+  | {
+      id: string;
+      type: "alert.triggered" | "alert.resolved";
+      workspaceId: string;
+      alert: AlertNotificationPayload;
+    }
+  | {
+      id: string;
+      type: "audit.recorded";
+      workspaceId: string;
+      audit: AuditRecord;
+    }
+  | {
+      id: string;
+      type: "config_finding.detected" | "config_finding.resolved";
+      workspaceId: string;
+      finding: ConfigFindingRecord;
+    }
+  | {
+      id: string;
+      type: "webhook.test";
+      workspaceId: string;
+      webhookId: string;
+    };
+
+function toV1(event: WebhookEvent, createdAt: Date): WebhookPayloadV1 {
+  const base = {
+    id: event.id,
+    version: "v1" as const,
+    createdAt: createdAt.toISOString(),
+    workspaceId: event.workspaceId,
+  };
+  switch (event.type) {
+    case "alert.triggered":
+    case "alert.resolved": {
+      // Routing is an internal escalation detail, not part of the contract
+      const { routing: _routing, ...alert } = event.alert;
+      return { ...base, type: event.type, data: alert };
+    }
+    case "audit.recorded":
+      return {
+        ...base,
+        type: event.type,
+        data: {
+          auditLogId: event.audit.id,
+          action: event.audit.action,
+          category: event.audit.category,
+          entityType: event.audit.entityType,
+          entityId: event.audit.entityId,
+          entityLabel: event.audit.entityLabel,
+          actorEmail: event.audit.actorEmail,
+          source: event.audit.source,
+          serverId: event.audit.serverId,
+          vhost: event.audit.vhost,
+          metadata: event.audit.metadata ?? null,
+          recordedAt: event.audit.timestamp.toISOString(),
+        },
+      };
+    case "config_finding.detected":
+    case "config_finding.resolved":
+      return {
+        ...base,
+        type: event.type,
+        data: {
+          findingId: event.finding.id,
+          serverId: event.finding.serverId,
+          ruleKey: event.finding.ruleKey,
+          severity: event.finding.severity,
+          resourceType: event.finding.resourceType,
+          resourceName: event.finding.resourceName,
+          vhost: event.finding.vhost,
+          detectedAt: event.finding.detectedAt.toISOString(),
+          resolvedAt: event.finding.resolvedAt?.toISOString() ?? null,
+        },
+      };
+    case "webhook.test":
+      return {
+        ...base,
+        type: event.type,
+        data: {
+          message: "Test event from Qarote. No action is needed.",
+          webhookId: event.webhookId,
+        },
+      };
+  }
+}
+
+/** Shape an event for the payload version a webhook is pinned to. */
+export function buildWebhookPayload(
+  event: WebhookEvent,
+  version: WebhookPayloadVersion,
+  createdAt = new Date()
+): WebhookPayload {
+  switch (version) {
+    case "v1":
+      return toV1(event, createdAt);
+  }
+}
+
+/** Whether a webhook subscribed to these groups receives the event type. */
+export function subscribesTo(
+  events: readonly string[],
+  type: WebhookEventType
+): boolean {
+  const group = WEBHOOK_EVENT_TYPES[type];
+  return group === null || events.includes(group);
+}
@@ -0,0 +1,78 @@
+/**
+ * Webhook request signing.
+ *
+ * `X-Qarote-Signature: t=<unix seconds>,v1=<hex>[,v1=<hex>]` — each `v1`
+ * is the HMAC-SHA256 of `<t>.<raw body>` under one signing secret. The
+ * timestamp is part of the signed string, so a captured request cannot be
+ * replayed outside the receiver's tolerance window. During a key rotation
+ * the request carries one signature per live secret; a receiver accepts it
+ * when any of them matches the secret it knows.
+ */
+
+import crypto from "node:crypto";
+
+export const SIGNATURE_HEADER = "X-Qarote-Signature";
+
+/** Receivers should reject requests whose timestamp is further off than this. */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const SECRET_PREFIX = "whsec_";
+
+/** A new random signing secret, shown to the user once. */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + crypto.randomBytes(32).toString("base64url");
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/** Signature header value for a body, one `v1` per secret. */
+export function signWebhookBody(
+  body: string,
+  secrets: string[],
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return [
+    `t=${timestamp}`,
+    ...secrets.map((secret) => `v1=${hmac(secret, timestamp, body)}`),
+  ].join(",");
+}
+
+/**
+ * Check a signature header the way a receiver should: the timestamp within
+ * tolerance and at least one `v1` matching. Exported for the docs example
+ * and the round-trip tests.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): boolean {
+  const tolerance =
+    options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") timestamp = Number(value);
+    else if (key === "v1" && value) signatures.push(value);
+  }
+  if (timestamp === null || !Number.isInteger(timestamp)) return false;
+  if (Math.abs(now - timestamp) > tolerance) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), "hex");
+  return signatures.some((signature) => {
+    const given = Buffer.from(signature, "hex");
+    return (
+      given.length === expected.length &&
+      crypto.timingSafeEqual(given, expected)
+    );
+  });
+}
@@ -0,0 +1,241 @@
+import crypto from "node:crypto";
+
+import { prisma } from "@/core/prisma";
+
+import { EncryptionService } from "@/services/encryption.service";
+
+import { sendWebhook } from "./delivery";
+import {
+  buildWebhookPayload,
+  isWebhookPayloadVersion,
+  type WebhookEventGroup,
+  type WebhookPayloadVersion,
+} from "./payload";
+import { generateWebhookSecret } from "./signing";
+
+/**
+ * Signing, subscriptions and delivery history of a workspace's webhooks.
+ * Creating and editing the URL stays with the webhook integration; this is
+ * what the settings page needs on top. Every function scopes the webhook
+ * to the caller's workspace and returns null when it is not there.
+ */
+
+export interface WebhookSummary {
+  id: string;
+  url: string;
+  enabled: boolean;
+  version: string;
+  events: string[];
+  signed: boolean;
+  /** While set, deliveries are also signed with the rotated-out secret. */
+  previousSecretExpiresAt: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  outboxId: string;
+  eventId: string | null;
+  eventType: string;
+  /** SENT, RETRY, FAILED, CANCELLED or REPLAYED */
+  outcome: string;
+  statusCode: number | null;
+  durationMs: number | null;
+  responseSnippet: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface WebhookTestResult {
+  success: boolean;
+  statusCode: number | null;
+  durationMs: number;
+  responseSnippet: string | null;
+  error: string | null;
+}
+
+export async function listWebhooks(
+  workspaceId: string
+): Promise<WebhookSummary[]> {
+  const webhooks = await prisma.webhook.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      url: true,
+      enabled: true,
+      version: true,
+      events: true,
+      secret: true,
+      previousSecretExpiresAt: true,
+      createdAt: true,
+    },
+  });
+  const now = new Date();
+  return webhooks.map((webhook) => ({
+    id: webhook.id,
+    url: webhook.url,
+    enabled: webhook.enabled,
+    version: webhook.version,
+    events: webhook.events,
+    signed: !!webhook.secret,
+    previousSecretExpiresAt:
+      webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > now
+        ? webhook.previousSecretExpiresAt.toISOString()
+        : null,
+    createdAt: webhook.createdAt.toISOString(),
+  }));
+}
+
+export async function updateWebhookSubscriptions(
+  workspaceId: string,
+  id: string,
+  input: { events: WebhookEventGroup[]; version: WebhookPayloadVersion }
+): Promise<boolean> {
+  const { count } = await prisma.webhook.updateMany({
+    where: { id, workspaceId },
+    data: { events: [...new Set(input.events)], version: input.version },
+  });
+  return count === 1;
+}
+
+/**
+ * Replace the signing secret. For `overlapHours` deliveries carry a
+ * signature for the old secret as well, so receivers can switch over
+ * without dropping events; an overlap of 0 retires it at once.
+ *
+ * @returns the new secret — the only time it is readable
+ */
+export async function rotateWebhookSecret(
+  workspaceId: string,
+  id: string,
+  overlapHours: number
+): Promise<{ secret: string; previousSecretExpiresAt: string | null } | null> {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id, workspaceId },
+    select: { secret: true },
+  });
+  if (!webhook) return null;
+
+  const secret = generateWebhookSecret();
+  const expiresAt =
+    webhook.secret && overlapHours > 0
+      ? new Date(Date.now() + overlapHours * 60 * 60_000)
+      : null;
+  // Compare-and-swap on the old secret: two concurrent rotations must not
+  // both believe their secret is the live one.
+  const { count } = await prisma.webhook.updateMany({
+    where: { id, workspaceId, secret: webhook.secret },
+    data: {
+      secret: EncryptionService.encrypt(secret),
+      previousSecret:
+        expiresAt && webhook.secret
+          ? EncryptionService.reencrypt(webhook.secret)
+          : null,
+      previousSecretExpiresAt: expiresAt,
+      encryptionKeyVersion: EncryptionService.keyVersion,
+    },
+  });
+  if (count !== 1) return null;
+
+  return { secret, previousSecretExpiresAt: expiresAt?.toISOString() ?? null };
+}
+
+/**
+ * Delivery log of a webhook: its outbox attempts, newest first, with the
+ * receiver's status code, the latency and the start of its answer.
+ */
+export async function listWebhookDeliveries(
+  workspaceId: string,
+  id: string,
+  page: { cursor?: string; limit: number }
+): Promise<{ items: WebhookDelivery[]; nextCursor: string | null } | null> {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id, workspaceId },
+    select: { id: true },
+  });
+  if (!webhook) return null;
+
+  const attempts = await prisma.notificationOutboxAttempt.findMany({
+    where: { outbox: { channel: "webhook", target: id } },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: page.limit + 1,
+    ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+    select: {
+      id: true,
+      outcome: true,
+      detail: true,
+      durationMs: true,
+      statusCode: true,
+      responseSnippet: true,
+      createdAt: true,
+      outbox: { select: { id: true, template: true, payload: true } },
+    },
+  });
+
+  const hasMore = attempts.length > page.limit;
+  const items = attempts.slice(0, page.limit).map((attempt) => {
+    const payload = attempt.outbox.payload as { id?: unknown } | null;
+    return {
+      id: attempt.id,
+      outboxId: attempt.outbox.id,
+      eventId: typeof payload?.id === "string" ? payload.id : null,
+      eventType: attempt.outbox.template,
+      outcome: attempt.outcome,
+      statusCode: attempt.statusCode,
+      durationMs: attempt.durationMs,
+      responseSnippet: attempt.responseSnippet,
+      error: attempt.detail,
+      createdAt: attempt.createdAt.toISOString(),
+    };
+  });
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  };
+}
+
+/**
+ * Send a `webhook.test` event straight to the URL, bypassing the outbox so
+ * the receiver's answer comes back to the caller. Signed like any real
+ * delivery, so it exercises the receiver's verification too.
+ */
+export async function sendWebhookTest(
+  workspaceId: string,
+  id: string
+): Promise<WebhookTestResult | null> {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id, workspaceId },
+    select: {
+      url: true,
+      version: true,
+      secret: true,
+      previousSecret: true,
+      previousSecretExpiresAt: true,
+    },
+  });
+  if (!webhook) return null;
+
+  const version = isWebhookPayloadVersion(webhook.version)
+    ? webhook.version
+    : "v1";
+  const result = await sendWebhook(
+    webhook,
+    buildWebhookPayload(
+      {
+        id: `test:${crypto.randomUUID()}`,
+        type: "webhook.test",
+        workspaceId,
+        webhookId: id,
+      },
+      version
+    )
+  );
+  return {
+    success: result.success,
+    statusCode: result.statusCode ?? null,
+    durationMs: result.durationMs,
+    responseSnippet: result.responseSnippet ?? null,
+    error: result.error ?? null,
+  };
+}
@@ -0,0 +1,57 @@
+import { TRPCError } from "@trpc/server";
+
+import { CodedError } from "@/core/coded-error";
+
+import type { Context } from "@/trpc/context";
+
+import { te } from "@/i18n";
+
+/** How a router surfaces one service's coded errors. */
+export interface CodedErrorMapping<Code extends string> {
+  /** i18n namespace holding the codes' messages. Defaults to `rabbitmq`. */
+  namespace?: "rabbitmq" | "alerts" | "outbox";
+  /** Status per code; a code left out is a BAD_REQUEST. */
+  status?: Partial<Record<Code, TRPCError["code"]>>;
+  /** Placeholder values for the localized message. */
+  params?: (error: CodedError<Code>) => object;
+  /** Logged with an unexpected failure before it becomes `fallbackKey`. */
+  logMessage?: string;
+}
+
+/** A service's coded error as a tRPC error with its localized message. */
+export function codedTRPCError<Code extends string>(
+  locale: string,
+  error: CodedError<Code>,
+  mapping: CodedErrorMapping<Code> = {}
+): TRPCError {
+  return new TRPCError({
+    code: mapping.status?.[error.code] ?? "BAD_REQUEST",
+    message: te(
+      locale,
+      `${mapping.namespace ?? "rabbitmq"}.${error.code}`,
+      mapping.params?.(error)
+    ),
+  });
+}
+
+/**
+ * Rethrow a procedure failure as a tRPC error: a `TRPCError` passes
+ * through, a `CodedError` goes through {@link codedTRPCError}, and
+ * anything else becomes an INTERNAL_SERVER_ERROR saying `fallbackKey`.
+ */
+export function throwAsTRPCError<Code extends string>(
+  ctx: Pick<Context, "locale" | "logger">,
+  error: unknown,
+  fallbackKey: string,
+  mapping: CodedErrorMapping<Code> = {}
+): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof CodedError) {
+    throw codedTRPCError(ctx.locale, error as CodedError<Code>, mapping);
+  }
+  if (mapping.logMessage) ctx.logger.error({ error }, mapping.logMessage);
+  throw new TRPCError({
+    code: "INTERNAL_SERVER_ERROR",
+    message: te(ctx.locale, fallbackKey),
+  });
+}
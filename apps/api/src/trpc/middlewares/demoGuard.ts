@@ -11,12 +11,28 @@ const BLOCKED_PATHS = new Set([
   "rabbitmq.server.createServer",
   "rabbitmq.server.updateServer",
   "rabbitmq.server.deleteServer",
+  "rabbitmq.users.rotateConnectionPassword",
+  "rabbitmq.users.setPasswordRotationPolicy",
   // Queue management (rabbitmq.queues.*)
   "rabbitmq.queues.createQueue",
   "rabbitmq.queues.purgeQueue",
   "rabbitmq.queues.deleteQueue",
   "rabbitmq.queues.pauseQueue",
   "rabbitmq.queues.resumeQueue",
+  "rabbitmq.queues.bulkPurgeQueues",
+  "rabbitmq.queues.bulkDeleteQueues",
+  "rabbitmq.queues.bulkPauseQueues",
+  "rabbitmq.queues.bulkResumeQueues",
+  // Queue templates (rabbitmq.queueTemplates.*)
+  "rabbitmq.queueTemplates.createTemplate",
+  "rabbitmq.queueTemplates.publishVersion",
+  "rabbitmq.queueTemplates.archiveTemplate",
+  // Cluster operations (rabbitmq.infrastructure.*)
+  "rabbitmq.infrastructure.rebalanceLeaders",
+  "rabbitmq.infrastructure.closeConnection",
+  "rabbitmq.infrastructure.closeConnections",
+  // VHost cloning (rabbitmq.vhost.*)
+  "rabbitmq.vhost.cloneVHost",
   // User management (user.*)
   "user.updateProfile",
   "user.updateUser",
@@ -30,6 +46,25 @@ const BLOCKED_PATHS = new Set([
   "workspace.management.delete",
   "workspace.invitation.sendInvitation",
   "workspace.invitation.revokeInvitation",
+  "workspace.notificationChannels.create",
+  "workspace.notificationChannels.update",
+  "workspace.notificationChannels.delete",
+  "workspace.notificationChannels.test",
+  "workspace.notificationRouting.createRule",
+  "workspace.notificationRouting.updateRule",
+  "workspace.notificationRouting.deleteRule",
+  "workspace.notificationRouting.reorderRules",
+  "workspace.notificationRouting.createPolicy",
+  "workspace.notificationRouting.updatePolicy",
+  "workspace.notificationRouting.deletePolicy",
+  "workspace.webhooks.updateSubscriptions",
+  "workspace.webhooks.rotateSecret",
+  "workspace.webhooks.test",
+  // Audit sinks (audit.sinks.*)
+  "audit.sinks.create",
+  "audit.sinks.update",
+  "audit.sinks.delete",
+  "audit.sinks.test",
   // Organization management (organization.*)
   "organization.management.update",
   "organization.members.invite",
@@ -55,6 +90,9 @@ const BLOCKED_PATHS = new Set([
   // License
   "selfhostedLicense.activate",
   "selfhostedLicense.deactivate",
+  // Notification outbox
+  "selfhostedOutbox.replay",
+  "selfhostedOutbox.purge",
 ]);
 
 /**
@@ -9,6 +9,7 @@ import { licenseRouter } from "./routers/portal/license";
 import { publicRouter } from "./routers/public/index";
 import { rabbitmqRouter } from "./routers/rabbitmq";
 import { selfhostedLicenseRouter } from "./routers/selfhosted-license";
+import { selfhostedOutboxRouter } from "./routers/selfhosted-outbox";
 import { selfhostedSmtpRouter } from "./routers/selfhosted-smtp";
 import { ssoRouter } from "./routers/sso";
 import { userRouter } from "./routers/user";
@@ -33,6 +34,7 @@ export const appRouter = router({
   rabbitmq: rabbitmqRouter,
   discord: discordRouter,
   selfhostedLicense: selfhostedLicenseRouter,
+  selfhostedOutbox: selfhostedOutboxRouter,
   selfhostedSmtp: selfhostedSmtpRouter,
   sso: ssoRouter,
   public: publicRouter,
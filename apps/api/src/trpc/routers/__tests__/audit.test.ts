@@ -270,7 +270,7 @@ describe("audit.export", () => {
     // header + 1 row + trailing CRLF → 3 split chunks (last is empty)
     expect(lines).toHaveLength(3);
     expect(lines[0]).toBe(
-      "timestamp,source,action,category,entityType,entityId,entityLabel,actorId,actorEmail,serverId,vhost,ipAddress,userAgent,metadata"
+      "timestamp,source,action,category,entityType,entityId,entityLabel,actorId,actorEmail,apiKeyId,serverId,vhost,ipAddress,userAgent,metadata"
     );
     expect(lines[1]).toContain("rabbitmq.queue.purge");
     // Metadata gets JSON-stringified + the resulting `{"foo":"bar"}` is
@@ -94,6 +94,7 @@ const WORKSPACE_PERMISSION_BASES = new Set([
  */
 const SKIPPED_FILES = new Set([
   join(REPO_ROOT, "src", "trpc", "routers", "selfhosted-license.ts"),
+  join(REPO_ROOT, "src", "trpc", "routers", "selfhosted-outbox.ts"),
   join(REPO_ROOT, "src", "trpc", "routers", "selfhosted-smtp.ts"),
   join(REPO_ROOT, "src", "trpc", "routers", "sso.ts"),
 ]);
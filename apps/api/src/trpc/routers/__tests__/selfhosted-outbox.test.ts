@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// --- Mocks ---
+
+const mockGetOutboxRow = vi.fn();
+const mockReplayOutboxRow = vi.fn();
+const mockPurgeOutboxRows = vi.fn();
+const mockRecordFromContext = vi.fn();
+
+vi.mock("@/services/notification/notification-outbox.service", () => ({
+  NOTIFICATION_CHANNELS: ["email", "pagerduty"],
+}));
+
+vi.mock("@/services/notification/outbox-console.service", async () => {
+  const { CodedError } = await import("@/core/coded-error");
+  class OutboxConsoleError extends CodedError {}
+  return {
+    OUTBOX_STATUSES: ["PENDING", "SENT", "FAILED", "CANCELLED"],
+    PURGEABLE_OUTBOX_STATUSES: ["SENT", "FAILED", "CANCELLED"],
+    OutboxConsoleError,
+    getOutboxOverview: vi.fn(),
+    listOutboxRows: vi.fn(),
+    getOutboxRow: (...args: unknown[]) => mockGetOutboxRow(...args),
+    replayOutboxRow: (...args: unknown[]) => mockReplayOutboxRow(...args),
+    purgeOutboxRows: (...args: unknown[]) => mockPurgeOutboxRows(...args),
+  };
+});
+
+vi.mock("@/services/audit", () => ({
+  recordFromContext: (...args: unknown[]) => mockRecordFromContext(...args),
+}));
+
+let mockSelfHostedMode = true;
+vi.mock("@/config/deployment", () => ({
+  isSelfHostedMode: () => mockSelfHostedMode,
+}));
+
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// Mock rate limiter to be a passthrough
+vi.mock("../../middlewares/rateLimiter", () => ({
+  standardRateLimiter: (opts: { next: () => unknown }) => opts.next(),
+  strictRateLimiter: (opts: { next: () => unknown }) => opts.next(),
+  billingRateLimiter: (opts: { next: () => unknown }) => opts.next(),
+}));
+
+// Mock plan service (imported by trpc.ts)
+vi.mock("@/services/plan/plan.service", () => ({
+  PlanLimitExceededError: class extends Error {},
+  PlanValidationError: class extends Error {},
+}));
+
+// Mock workspace middleware
+vi.mock("@/middlewares/workspace", () => ({
+  hasWorkspaceAccess: vi.fn().mockResolvedValue(true),
+}));
+
+// Import after mocks
+const { selfhostedOutboxRouter } = await import("../selfhosted-outbox");
+const { OutboxConsoleError } =
+  await import("@/services/notification/outbox-console.service");
+
+// --- Helpers ---
+
+const ROW_ID = "5b1c6a52-0a6e-4f5e-9a39-3f3a3c1f0d11";
+
+function makeCtx(bootstrapOrgId = "org-1") {
+  return {
+    prisma: {
+      organization: {
+        findFirst: vi.fn().mockResolvedValue({ id: bootstrapOrgId }),
+      },
+    },
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    user: {
+      id: "admin-1",
+      isActive: true,
+      email: "admin@test.com",
+    },
+    workspaceId: null,
+    organizationId: "org-1",
+    orgRole: "OWNER",
+    locale: "en",
+    resolveOrg: async () => ({ organizationId: "org-1", role: "OWNER" }),
+    req: {},
+  };
+}
+
+function summary(overrides: Record<string, unknown> = {}) {
+  return {
+    id: ROW_ID,
+    channel: "email",
+    template: "verification",
+    target: "old@example.com",
+    status: "FAILED",
+    attempts: 10,
+    lastError: "smtp timeout",
+    ...overrides,
+  };
+}
+
+// --- Tests ---
+
+describe("selfhostedOutboxRouter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSelfHostedMode = true;
+  });
+
+  it("is unavailable on cloud instances", async () => {
+    mockSelfHostedMode = false;
+    const caller = selfhostedOutboxRouter.createCaller(makeCtx() as never);
+
+    await expect(caller.purge({ status: "FAILED" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(mockPurgeOutboxRows).not.toHaveBeenCalled();
+  });
+
+  it("is restricted to the bootstrap organization", async () => {
+    const caller = selfhostedOutboxRouter.createCaller(
+      makeCtx("org-other") as never
+    );
+
+    await expect(caller.purge({ status: "FAILED" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("audits a re-target with the old and new recipient", async () => {
+    mockGetOutboxRow.mockResolvedValue(summary());
+    mockReplayOutboxRow.mockResolvedValue(
+      summary({ status: "PENDING", target: "new@example.com" })
+    );
+    const caller = selfhostedOutboxRouter.createCaller(makeCtx() as never);
+
+    await caller.replay({ id: ROW_ID, target: "new@example.com" });
+
+    expect(mockReplayOutboxRow).toHaveBeenCalledWith(ROW_ID, {
+      target: "new@example.com",
+    });
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: "notification_outbox.retargeted",
+        metadata: expect.objectContaining({
+          from: "old@example.com",
+          to: "new@example.com",
+        }),
+      })
+    );
+  });
+
+  it("maps a replay of a row that did not fail to CONFLICT", async () => {
+    mockGetOutboxRow.mockResolvedValue(summary({ status: "SENT" }));
+    mockReplayOutboxRow.mockRejectedValue(
+      new OutboxConsoleError("rowNotFailed", "not failed")
+    );
+    const caller = selfhostedOutboxRouter.createCaller(makeCtx() as never);
+
+    await expect(caller.replay({ id: ROW_ID })).rejects.toMatchObject({
+      code: "CONFLICT",
+    });
+    expect(mockRecordFromContext).not.toHaveBeenCalled();
+  });
+
+  it("never purges PENDING rows", async () => {
+    const caller = selfhostedOutboxRouter.createCaller(makeCtx() as never);
+
+    await expect(
+      caller.purge({ status: "PENDING" as never })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("purges and reports the deleted count", async () => {
+    mockPurgeOutboxRows.mockResolvedValue(3);
+    const caller = selfhostedOutboxRouter.createCaller(makeCtx() as never);
+
+    const result = await caller.purge({ status: "SENT", channel: "email" });
+
+    expect(result).toEqual({ deleted: 3 });
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: "notification_outbox.purged" })
+    );
+  });
+});
@@ -4,15 +4,31 @@ import { z } from "zod/v4";
 import { auth } from "@/core/better-auth";
 import { logger } from "@/core/logger";
 
+import { recordFromContext } from "@/services/audit";
+
 import { router, workspacePermissionProcedure } from "@/trpc/trpc";
 
 import { type ApiKeyScope, parseApiKeyScope } from "@/auth/api-key-scope";
+import {
+  WORKSPACE_PERMISSION_REQUIREMENTS,
+  type WorkspacePermission,
+} from "@/auth/permissions";
+import { ScopeJsonSchema } from "@/auth/scope-canonical";
 import { te } from "@/i18n";
 
 /** Default key lifetime when the caller doesn't pick one (D2: 90 days). */
 const DEFAULT_EXPIRY_DAYS = 90;
 const SECONDS_PER_DAY = 24 * 60 * 60;
 
+/**
+ * Permissions a write key may carry: the whole catalog minus key management
+ * itself (`assertNotApiKey` would refuse it anyway — listing it on a key would
+ * only suggest otherwise).
+ */
+const WRITE_GRANTABLE_PERMISSIONS = (
+  Object.keys(WORKSPACE_PERMISSION_REQUIREMENTS) as WorkspacePermission[]
+).filter((key) => key !== "apikey:manage");
+
 /** Parse the JSON-string `metadata` column of an `apikey` row into a scope. */
 function scopeFromRow(metadata: string | null): ApiKeyScope | null {
   if (!metadata) return null;
@@ -26,8 +42,9 @@ function scopeFromRow(metadata: string | null): ApiKeyScope | null {
 
 /**
  * Credential management is a human operation: an agent must never manage API
- * keys with an API key. The read-only clamp already blocks the mint/revoke
- * mutations, but `list` is a query — so guard all three explicitly.
+ * keys with an API key. The mutation floor already blocks mint/revoke (no key
+ * can be granted `apikey:manage`), but `list` is a query — so guard all three
+ * explicitly.
  */
 function assertNotApiKey(ctx: {
   apiKeyId: string | null;
@@ -43,24 +60,49 @@ function assertNotApiKey(ctx: {
   }
 }
 
-const mintInput = z.object({
-  workspaceId: z.string().min(1),
-  name: z.string().min(1).max(100),
-  mode: z.enum(["read", "explain"]),
-  /**
-   * Key lifetime in days. Omit for the 90-day default; pass `null` for a
-   * never-expiring key (surfaced with a warning in the UI). A positive
-   * integer sets an explicit lifetime.
-   */
-  expiresInDays: z
-    .number()
-    .int()
-    .positive()
-    // Cap so expiresInDays * SECONDS_PER_DAY stays within safe-integer range.
-    .max(Math.floor(Number.MAX_SAFE_INTEGER / SECONDS_PER_DAY))
-    .nullable()
-    .optional(),
-});
+const mintInput = z
+  .object({
+    workspaceId: z.string().min(1),
+    name: z.string().min(1).max(100),
+    mode: z.enum(["read", "explain", "write"]),
+    /**
+     * `write` mode only (required there): the permission keys whose mutations
+     * the key may run. Each must also be held by the minting user.
+     */
+    permissions: z
+      .array(z.enum(WRITE_GRANTABLE_PERMISSIONS))
+      .min(1)
+      .max(WRITE_GRANTABLE_PERMISSIONS.length)
+      .optional(),
+    /**
+     * `write` mode only: restrict those mutations to servers or environments
+     * (OR-combined). Omit for any server in the workspace.
+     */
+    scopes: z.array(ScopeJsonSchema).max(16).optional(),
+    /**
+     * Key lifetime in days. Omit for the 90-day default; pass `null` for a
+     * never-expiring key (surfaced with a warning in the UI). A positive
+     * integer sets an explicit lifetime.
+     */
+    expiresInDays: z
+      .number()
+      .int()
+      .positive()
+      // Cap so expiresInDays * SECONDS_PER_DAY stays within safe-integer range.
+      .max(Math.floor(Number.MAX_SAFE_INTEGER / SECONDS_PER_DAY))
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (input) =>
+      input.mode === "write"
+        ? input.permissions !== undefined
+        : input.permissions === undefined && input.scopes === undefined,
+    {
+      message: "permissions (and scopes) apply to write keys only",
+      path: ["permissions"],
+    }
+  );
 
 const listInput = z.object({ workspaceId: z.string().min(1) });
 
@@ -75,6 +117,10 @@ const revokeInput = z.object({
  * workspace-permission gate scopes correctly. Keys are minted via better-auth
  * (which generates + hashes the secret); list/revoke read the `apikey` table
  * directly, scoped to the caller's own keys for the given workspace.
+ *
+ * `write` keys carry an explicit permission list and optional server /
+ * environment scopes in their metadata; `workspacePermissionProcedure`
+ * enforces both on every mutation the key runs.
  */
 export const apiKeysRouter = router({
   mint: workspacePermissionProcedure("apikey:manage")
@@ -87,9 +133,45 @@ export const apiKeysRouter = router({
           ? undefined
           : (input.expiresInDays ?? DEFAULT_EXPIRY_DAYS) * SECONDS_PER_DAY;
 
+      const permissions = [...new Set(input.permissions ?? [])];
+      const scopes = input.scopes ?? [];
+
+      // A key never carries more than its creator: every granted permission
+      // must be held by the minting user right now. (The creator's live role
+      // is checked again on every request — this just refuses to mint a key
+      // that could never work.)
+      const notHeld = permissions.filter(
+        (key) => !ctx.effectivePermissions.permissions.has(key)
+      );
+      if (notHeld.length > 0) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: te(ctx.locale, "auth.apiKeyPermissionNotHeld"),
+          cause: { notHeld },
+        });
+      }
+
+      const serverIds = [
+        ...new Set(
+          scopes.flatMap((s) => (s.kind === "server.id" ? s.ids : []))
+        ),
+      ];
+      if (serverIds.length > 0) {
+        const found = await ctx.prisma.rabbitMQServer.count({
+          where: { id: { in: serverIds }, workspaceId: input.workspaceId },
+        });
+        if (found !== serverIds.length) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+      }
+
       const scope: ApiKeyScope = {
         workspaceId: input.workspaceId,
         mode: input.mode,
+        ...(input.mode === "write" ? { permissions, scopes } : {}),
         v: 1,
       };
 
@@ -102,6 +184,20 @@ export const apiKeysRouter = router({
         },
       });
 
+      void recordFromContext(ctx, {
+        action: "apikey.created",
+        category: "apikey",
+        entityType: "apikey",
+        entityId: created.id,
+        entityLabel: created.name,
+        metadata: {
+          mode: input.mode,
+          permissions,
+          scopes,
+          expiresAt: created.expiresAt?.toISOString() ?? null,
+        },
+      });
+
       // `key` is the plaintext secret — returned exactly once, never stored
       // or retrievable again (the table holds only a hash).
       return {
@@ -110,6 +206,8 @@ export const apiKeysRouter = router({
         prefix: created.prefix,
         name: created.name,
         mode: input.mode,
+        permissions,
+        scopes,
         expiresAt: created.expiresAt,
       };
     }),
@@ -146,6 +244,8 @@ export const apiKeysRouter = router({
           name: row.name,
           prefix: row.prefix,
           mode: scope.mode,
+          permissions: scope.permissions ?? [],
+          scopes: scope.scopes ?? [],
           enabled: row.enabled ?? true,
           expiresAt: row.expiresAt,
           lastRequest: row.lastRequest,
@@ -161,7 +261,7 @@ export const apiKeysRouter = router({
       // mismatch so we don't leak whether a key id exists elsewhere.
       const row = await ctx.prisma.apikey.findFirst({
         where: { id: input.id, referenceId: ctx.user.id },
-        select: { id: true, metadata: true },
+        select: { id: true, name: true, metadata: true },
       });
       const scope = row ? scopeFromRow(row.metadata) : null;
       if (!row || scope?.workspaceId !== input.workspaceId) {
@@ -172,6 +272,14 @@ export const apiKeysRouter = router({
         where: { id: input.id },
         data: { enabled: false },
       });
+      void recordFromContext(ctx, {
+        action: "apikey.revoked",
+        category: "apikey",
+        entityType: "apikey",
+        entityId: row.id,
+        entityLabel: row.name,
+        metadata: { mode: scope.mode },
+      });
       return { id: input.id };
     }),
 });
@@ -0,0 +1,314 @@
+/**
+ * Audit sink router — the SIEM streaming destinations of a workspace's
+ * audit log, nested under `audit.sinks`.
+ *
+ *   - `list`                   — sinks with their health (audit:read, ADMIN+)
+ *   - `create/update/delete`   — configuration (audit:export, OWNER)
+ *   - `test`                   — one synthetic event (audit:export, OWNER)
+ *
+ * Streaming a workspace's audit trail off-site is as sensitive as
+ * exporting it, hence the export permission for everything that writes.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  AuditSinkFileError,
+  createAuditSink,
+  DEFAULT_MAX_FILE_BYTES,
+  DEFAULT_MAX_FILES,
+  DEFAULT_SYSLOG_FACILITY,
+  deleteAuditSink,
+  listAuditSinks,
+  sendAuditSinkTest,
+  updateAuditSink,
+} from "@/services/audit-sinks";
+import { requirePremiumFeature } from "@/services/feature-gate";
+
+import { FEATURES } from "@/config/features";
+
+import { router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { te } from "@/i18n";
+
+const SinkFormatSchema = z.enum(["json", "ecs", "cef"]);
+
+const SyslogSettingsSchema = z.object({
+  host: z.string().trim().min(1).max(255),
+  port: z.number().int().min(1).max(65535),
+  tls: z.boolean().default(true),
+  caCert: z
+    .string()
+    .max(20_000)
+    .refine((value) => value.includes("BEGIN CERTIFICATE"), {
+      message: "Must be a PEM certificate bundle",
+    })
+    .optional(),
+  rejectUnauthorized: z.boolean().default(true),
+  facility: z.number().int().min(0).max(23).default(DEFAULT_SYSLOG_FACILITY),
+  appName: z
+    .string()
+    .regex(/^[\x21-\x7e]{1,48}$/)
+    .optional(),
+});
+
+const HttpSettingsSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .max(2048)
+    .refine((value) => /^https?:\/\//i.test(value), {
+      message: "Must be an http(s) URL",
+    }),
+});
+
+const FileSettingsSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  maxFileBytes: z
+    .number()
+    .int()
+    .min(1024 * 1024)
+    .max(1024 * 1024 * 1024)
+    .default(DEFAULT_MAX_FILE_BYTES),
+  maxFiles: z.number().int().min(0).max(100).default(DEFAULT_MAX_FILES),
+});
+
+const SinkFieldsSchema = z.object({
+  workspaceId: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+});
+
+// File sinks write NDJSON, so CEF lines are for the network kinds only
+const CreateAuditSinkSchema = z.discriminatedUnion("kind", [
+  SinkFieldsSchema.extend({
+    kind: z.literal("syslog"),
+    format: SinkFormatSchema,
+    settings: SyslogSettingsSchema,
+    backfill: z.boolean().default(false),
+  }),
+  SinkFieldsSchema.extend({
+    kind: z.literal("http"),
+    format: SinkFormatSchema,
+    settings: HttpSettingsSchema,
+    authorization: z.string().max(4096).optional(),
+    backfill: z.boolean().default(false),
+  }),
+  SinkFieldsSchema.extend({
+    kind: z.literal("file"),
+    format: z.enum(["json", "ecs"]),
+    settings: FileSettingsSchema,
+    backfill: z.boolean().default(false),
+  }),
+]);
+
+const SinkUpdateFieldsSchema = z.object({
+  workspaceId: z.string().uuid(),
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const UpdateAuditSinkSchema = z.discriminatedUnion("kind", [
+  SinkUpdateFieldsSchema.extend({
+    kind: z.literal("syslog"),
+    format: SinkFormatSchema.optional(),
+    settings: SyslogSettingsSchema.optional(),
+  }),
+  SinkUpdateFieldsSchema.extend({
+    kind: z.literal("http"),
+    format: SinkFormatSchema.optional(),
+    settings: HttpSettingsSchema.optional(),
+    authorization: z.string().max(4096).nullable().optional(),
+  }),
+  SinkUpdateFieldsSchema.extend({
+    kind: z.literal("file"),
+    format: z.enum(["json", "ecs"]).optional(),
+    settings: FileSettingsSchema.optional(),
+  }),
+]);
+
+const AuditSinkIdSchema = z.object({
+  workspaceId: z.string().uuid(),
+  id: z.string().uuid(),
+});
+
+const WorkspaceIdSchema = z.object({ workspaceId: z.string().uuid() });
+
+function fileError(error: unknown, locale: string): TRPCError | null {
+  if (!(error instanceof AuditSinkFileError)) return null;
+  return new TRPCError({
+    code: "BAD_REQUEST",
+    message: te(locale, "audit.invalidSinkFile"),
+  });
+}
+
+export const auditSinksRouter = router({
+  /**
+   * The workspace's sinks with their delivery health; the HTTP
+   * Authorization value is never returned
+   */
+  list: workspacePermissionProcedure("audit:read")
+    .use(requirePremiumFeature(FEATURES.AUDIT_LOG))
+    .input(WorkspaceIdSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await listAuditSinks(ctx.workspaceId);
+      } catch (error) {
+        ctx.logger.error({ error }, "Error listing audit sinks");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "audit.failedToGetSinks"),
+        });
+      }
+    }),
+
+  /**
+   * Add a sink. It streams from now on, or from the oldest retained row
+   * with `backfill`.
+   */
+  create: workspacePermissionProcedure("audit:export")
+    .use(requirePremiumFeature(FEATURES.AUDIT_LOG))
+    .input(CreateAuditSinkSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { workspaceId: _workspaceId, ...sink } = input;
+      try {
+        const { id } = await createAuditSink(ctx.workspaceId, sink);
+
+        void recordFromContext(ctx, {
+          action: "audit.sink.created",
+          category: "audit",
+          entityType: "audit_sink",
+          entityId: id,
+          entityLabel: input.name,
+          metadata: {
+            kind: input.kind,
+            format: input.format,
+            backfill: input.backfill,
+          },
+        });
+
+        return { id };
+      } catch (error) {
+        const badRequest = fileError(error, ctx.locale);
+        if (badRequest) throw badRequest;
+        ctx.logger.error({ error }, "Error creating audit sink");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "audit.failedToCreateSink"),
+        });
+      }
+    }),
+
+  /**
+   * Edit a sink. Any edit clears its backoff so a fix is retried at once.
+   */
+  update: workspacePermissionProcedure("audit:export")
+    .use(requirePremiumFeature(FEATURES.AUDIT_LOG))
+    .input(UpdateAuditSinkSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { workspaceId: _workspaceId, ...update } = input;
+      try {
+        const updated = await updateAuditSink(ctx.workspaceId, update);
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "audit.sinkNotFound"),
+          });
+        }
+
+        void recordFromContext(ctx, {
+          action: "audit.sink.updated",
+          category: "audit",
+          entityType: "audit_sink",
+          entityId: input.id,
+          entityLabel: input.name ?? null,
+          metadata: {
+            kind: input.kind,
+            ...(input.format !== undefined && { format: input.format }),
+            ...(input.enabled !== undefined && { enabled: input.enabled }),
+            settingsChanged: input.settings !== undefined,
+            ...(input.kind === "http" &&
+              input.authorization !== undefined && {
+                authorizationChanged: true,
+              }),
+          },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        const badRequest = fileError(error, ctx.locale);
+        if (badRequest) throw badRequest;
+        ctx.logger.error({ error }, `Error updating audit sink ${input.id}`);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "audit.failedToUpdateSink"),
+        });
+      }
+    }),
+
+  /**
+   * Remove a sink. What it already delivered stays with the receiver.
+   */
+  delete: workspacePermissionProcedure("audit:export")
+    .use(requirePremiumFeature(FEATURES.AUDIT_LOG))
+    .input(AuditSinkIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const deleted = await deleteAuditSink(ctx.workspaceId, input.id);
+        if (!deleted) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "audit.sinkNotFound"),
+          });
+        }
+
+        void recordFromContext(ctx, {
+          action: "audit.sink.deleted",
+          category: "audit",
+          entityType: "audit_sink",
+          entityId: input.id,
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error({ error }, `Error deleting audit sink ${input.id}`);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "audit.failedToDeleteSink"),
+        });
+      }
+    }),
+
+  /**
+   * Send one `audit.sink.test` event outside the stream and report how
+   * it went. A failed delivery is a result, not an error — the page
+   * shows it.
+   */
+  test: workspacePermissionProcedure("audit:export")
+    .use(requirePremiumFeature(FEATURES.AUDIT_LOG))
+    .input(AuditSinkIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const result = await sendAuditSinkTest(ctx.workspaceId, input.id, {
+        id: ctx.user?.id ?? null,
+        email: ctx.user?.email ?? null,
+      });
+      if (!result) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "audit.sinkNotFound"),
+        });
+      }
+      if (!result.success) {
+        ctx.logger.warn(
+          { sinkId: input.id, error: result.error },
+          "Test audit sink event was not delivered"
+        );
+      }
+      return result;
+    }),
+});
@@ -4,6 +4,7 @@
  * Read surface for the operator-facing audit table:
  *   - `list`   — paginated, filterable rows (audit:read, ADMIN+)
  *   - `export` — CSV dump of the same query (audit:export, OWNER)
+ *   - `sinks`  — SIEM streaming destinations (see `audit-sinks.ts`)
  *
  * Both procedures are workspace-scoped: callers only see rows for
  * their own workspace. The Enterprise plan-gate is enforced by the
@@ -21,6 +22,8 @@ import { FEATURES } from "@/config/features";
 
 import { router, workspacePermissionProcedure } from "@/trpc/trpc";
 
+import { auditSinksRouter } from "./audit-sinks";
+
 import { AuditSource, type Prisma } from "@/generated/prisma/client";
 import { te } from "@/i18n";
 
@@ -123,6 +126,7 @@ const CSV_COLUMNS = [
   "entityLabel",
   "actorId",
   "actorEmail",
+  "apiKeyId",
   "serverId",
   "vhost",
   "ipAddress",
@@ -131,6 +135,8 @@ const CSV_COLUMNS = [
 ] as const;
 
 export const auditRouter = router({
+  sinks: auditSinksRouter,
+
   /**
    * Paginated list of audit rows for the workspace.
    *
@@ -190,6 +196,7 @@ export const auditRouter = router({
               timestamp: true,
               actorId: true,
               actorEmail: true,
+              apiKeyId: true,
               source: true,
               action: true,
               category: true,
@@ -270,6 +277,7 @@ export const auditRouter = router({
             entityLabel: true,
             actorId: true,
             actorEmail: true,
+            apiKeyId: true,
             serverId: true,
             vhost: true,
             ipAddress: true,
@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// --- Mocks ---
+
+const mockVerifyServerAccess = vi.fn();
+const mockCreateRabbitMQClient = vi.fn();
+const mockRecordFromContext = vi.fn();
+
+vi.mock("@/core/prisma", () => ({
+  prisma: {
+    workspaceMember: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: "mem-1",
+        roleId: null,
+        role: null,
+        workspace: { organizationId: null, licenseTier: null },
+      }),
+    },
+  },
+}));
+vi.mock("@/core/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock("@/trpc/middlewares/rateLimiter", () => ({
+  standardRateLimiter: (opts: { next: () => unknown }) => opts.next(),
+  strictRateLimiter: (opts: { next: () => unknown }) => opts.next(),
+  billingRateLimiter: (opts: { next: () => unknown }) => opts.next(),
+}));
+vi.mock("@/middlewares/workspace", () => ({
+  hasWorkspaceAccess: vi.fn().mockResolvedValue(true),
+}));
+vi.mock("@/services/plan/plan.service", () => ({
+  PlanErrorCode: { PLAN_RESTRICTION: "PLAN_RESTRICTION" },
+  PlanLimitExceededError: class extends Error {},
+  PlanValidationError: class extends Error {},
+  getOrgPlan: vi.fn().mockResolvedValue("FREE"),
+}));
+vi.mock("@/services/audit", () => ({
+  recordFromContext: (...a: unknown[]) => mockRecordFromContext(...a),
+  recordAuditLog: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("../shared", () => ({
+  verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
+  createRabbitMQClient: (...a: unknown[]) => mockCreateRabbitMQClient(...a),
+}));
+
+const { bindingsRouter } = await import("../bindings");
+
+// --- Helpers ---
+
+function makeCtx(overrides: Record<string, unknown> = {}) {
+  const role = ((overrides.user as { role?: string }) ?? {}).role ?? "ADMIN";
+  const perms =
+    role === "ADMIN" || role === "OWNER"
+      ? new Set(["binding:write"])
+      : new Set<string>();
+  return {
+    prisma: {},
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+    user: {
+      id: "user-1",
+      email: "admin@test.com",
+      isActive: true,
+      role: "ADMIN",
+      workspaceId: "ws-1",
+    },
+    workspaceId: "ws-1",
+    resolveOrg: vi
+      .fn()
+      .mockResolvedValue({ organizationId: "org-1", role: "ADMIN" }),
+    locale: "en",
+    effectivePermissionsLoader: {
+      load: vi.fn().mockResolvedValue({
+        kind: "builtin",
+        role,
+        permissions: perms,
+        scopeRows: [],
+      }),
+    },
+    ...overrides,
+  };
+}
+
+const mockServer = {
+  id: "srv-1",
+  workspaceId: "ws-1",
+};
+
+const nonAdminOverride = {
+  user: {
+    id: "user-2",
+    email: "user@test.com",
+    isActive: true,
+    role: "USER",
+    workspaceId: "ws-1",
+  },
+};
+
+const createInput = {
+  serverId: "srv-1",
+  workspaceId: "ws-1",
+  source: "orders",
+  destination: "orders.audit",
+  destinationType: "queue" as const,
+  routingKey: "order.*",
+  vhost: "%2F",
+};
+
+const deleteInput = {
+  serverId: "srv-1",
+  workspaceId: "ws-1",
+  source: "orders",
+  destination: "billing",
+  destinationType: "exchange" as const,
+  propertiesKey: "order.created",
+  vhost: "%2F",
+};
+
+// --- Tests ---
+
+describe("bindingsRouter.create", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("throws FORBIDDEN when user lacks binding:write", async () => {
+    const caller = bindingsRouter.createCaller(
+      makeCtx(nonAdminOverride) as never
+    );
+    await expect(caller.create(createInput)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("rejects the default exchange as a source", async () => {
+    const caller = bindingsRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.create({ ...createInput, source: "" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(mockVerifyServerAccess).not.toHaveBeenCalled();
+  });
+
+  it("refuses to bind Qarote internal queues", async () => {
+    const caller = bindingsRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.create({ ...createInput, destination: "qarote.trace.srv-1" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("throws NOT_FOUND when verifyServerAccess returns null", async () => {
+    mockVerifyServerAccess.mockResolvedValue(null);
+
+    const caller = bindingsRouter.createCaller(makeCtx() as never);
+    await expect(caller.create(createInput)).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("creates a headers binding with arguments and audits it", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = { createBinding: vi.fn().mockResolvedValue(undefined) };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = bindingsRouter.createCaller(makeCtx() as never);
+    const result = await caller.create({
+      ...createInput,
+      routingKey: "",
+      arguments: { "x-match": "all", region: "eu" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockClient.createBinding).toHaveBeenCalledWith(
+      "/",
+      "orders",
+      "queue",
+      "orders.audit",
+      "",
+      { "x-match": "all", region: "eu" }
+    );
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: "rabbitmq.binding.created" })
+    );
+  });
+
+  it("wraps broker failures in INTERNAL_SERVER_ERROR", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockCreateRabbitMQClient.mockResolvedValue({
+      createBinding: vi.fn().mockRejectedValue(new Error("404")),
+    });
+
+    const caller = bindingsRouter.createCaller(makeCtx() as never);
+    await expect(caller.create(createInput)).rejects.toMatchObject({
+      code: "INTERNAL_SERVER_ERROR",
+    });
+    expect(mockRecordFromContext).not.toHaveBeenCalled();
+  });
+});
+
+describe("bindingsRouter.delete", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("throws FORBIDDEN when user lacks binding:write", async () => {
+    const caller = bindingsRouter.createCaller(
+      makeCtx(nonAdminOverride) as never
+    );
+    await expect(caller.delete(deleteInput)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("deletes an exchange-to-exchange binding by properties_key", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = { deleteBinding: vi.fn().mockResolvedValue(undefined) };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = bindingsRouter.createCaller(makeCtx() as never);
+    const result = await caller.delete(deleteInput);
+
+    expect(result.success).toBe(true);
+    expect(mockClient.deleteBinding).toHaveBeenCalledWith(
+      "/",
+      "orders",
+      "exchange",
+      "billing",
+      "order.created"
+    );
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: "rabbitmq.binding.deleted" })
+    );
+  });
+});
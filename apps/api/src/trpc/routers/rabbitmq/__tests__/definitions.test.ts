@@ -4,6 +4,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const mockVerifyServerAccess = vi.fn();
 const mockCreateRabbitMQClientFromServer = vi.fn();
+const mockRecordFromContext = vi.fn();
 
 vi.mock("@/core/prisma", () => ({
   prisma: {
@@ -34,6 +35,10 @@ vi.mock("@/services/plan/plan.service", () => ({
   PlanValidationError: class extends Error {},
   getOrgPlan: vi.fn().mockResolvedValue("FREE"),
 }));
+vi.mock("@/services/audit", () => ({
+  recordFromContext: (...a: unknown[]) => mockRecordFromContext(...a),
+  recordAuditLog: vi.fn().mockResolvedValue(undefined),
+}));
 vi.mock("../shared", () => ({
   verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
   createRabbitMQClientFromServer: (...a: unknown[]) =>
@@ -77,7 +82,7 @@ function makeCtx(overrides: Record<string, unknown> = {}) {
   };
 }
 
-const mockServer = { id: "srv-1", workspaceId: "ws-1" };
+const mockServer = { id: "srv-1", workspaceId: "ws-1", name: "prod" };
 
 const mockDefinitions = {
   rabbit_version: "3.12.0",
@@ -192,6 +197,7 @@ describe("definitionsRouter.importDefinitions", () => {
   it("calls uploadDefinitions and returns undefined on success", async () => {
     mockVerifyServerAccess.mockResolvedValue(mockServer);
     const mockClient = {
+      getDefinitions: vi.fn().mockResolvedValue(mockDefinitions),
       uploadDefinitions: vi.fn().mockResolvedValue(undefined),
     };
     mockCreateRabbitMQClientFromServer.mockReturnValue(mockClient);
@@ -213,6 +219,7 @@ describe("definitionsRouter.importDefinitions", () => {
   it("passes decoded vhost to uploadDefinitions", async () => {
     mockVerifyServerAccess.mockResolvedValue(mockServer);
     const mockClient = {
+      getDefinitions: vi.fn().mockResolvedValue(mockDefinitions),
       uploadDefinitions: vi.fn().mockResolvedValue(undefined),
     };
     mockCreateRabbitMQClientFromServer.mockReturnValue(mockClient);
@@ -231,3 +238,137 @@ describe("definitionsRouter.importDefinitions", () => {
     );
   });
 });
+
+describe("definitionsRouter.importDefinitions (diff-aware)", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const current = {
+    queues: [
+      { name: "orders", vhost: "/", durable: true, arguments: {} },
+      { name: "legacy", vhost: "/", durable: true, arguments: {} },
+    ],
+    users: [{ name: "app", password_hash: "old-hash", tags: ["management"] }],
+  };
+  const uploaded = {
+    rabbit_version: "3.13.0",
+    queues: [
+      {
+        name: "orders",
+        vhost: "/",
+        durable: true,
+        arguments: { "x-queue-type": "quorum" },
+      },
+      { name: "payments", vhost: "/", durable: true, arguments: {} },
+    ],
+    users: [{ name: "app", password_hash: "new-hash", tags: ["management"] }],
+    vhosts: [{ name: "/" }],
+  };
+
+  function brokerClient() {
+    const client = {
+      getDefinitions: vi.fn().mockResolvedValue(current),
+      uploadDefinitions: vi.fn().mockResolvedValue(undefined),
+    };
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockCreateRabbitMQClientFromServer.mockReturnValue(client);
+    return client;
+  }
+
+  it("rejects a document that is not a definitions export", async () => {
+    const client = brokerClient();
+    const caller = definitionsRouter.createCaller(makeCtx() as never);
+
+    await expect(
+      caller.importDefinitions({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        definitions: { hello: "world" },
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(client.uploadDefinitions).not.toHaveBeenCalled();
+  });
+
+  it("diff returns the change set without uploading", async () => {
+    const client = brokerClient();
+    const caller = definitionsRouter.createCaller(makeCtx() as never);
+
+    const diff = await caller.diff({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      definitions: uploaded,
+    });
+
+    expect(diff.queues.added.map((q) => q.label)).toEqual(["payments"]);
+    expect(diff.queues.changed.map((q) => q.fields)).toEqual([["arguments"]]);
+    expect(diff.queues.removed.map((q) => q.label)).toEqual(["legacy"]);
+    expect(diff.users.changed[0].fields).toEqual(["password_hash"]);
+    expect(JSON.stringify(diff)).not.toMatch(/old-hash|new-hash/);
+    expect(client.uploadDefinitions).not.toHaveBeenCalled();
+    expect(mockRecordFromContext).not.toHaveBeenCalled();
+  });
+
+  it("uploads only the selected items and audits the diff", async () => {
+    const client = brokerClient();
+    const caller = definitionsRouter.createCaller(makeCtx() as never);
+    const diff = await caller.diff({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      definitions: uploaded,
+    });
+    const paymentsKey = diff.queues.added[0].key;
+
+    await caller.importDefinitions({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      definitions: uploaded,
+      selection: [paymentsKey, diff.queues.removed[0].key],
+    });
+
+    expect(client.uploadDefinitions).toHaveBeenCalledWith(
+      {
+        rabbit_version: "3.13.0",
+        queues: [uploaded.queues[1]],
+        exchanges: [],
+        bindings: [],
+        policies: [],
+        users: [],
+        permissions: [],
+      },
+      undefined
+    );
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: "rabbitmq.definitions.imported",
+        entityType: "definitions",
+        serverId: "srv-1",
+        metadata: expect.objectContaining({
+          mode: "selective",
+          appliedCount: 1,
+          applied: [paymentsKey],
+          summary: expect.objectContaining({
+            queues: { added: 1, changed: 1, removed: 1 },
+          }),
+        }),
+      })
+    );
+  });
+
+  it("audits every applicable key on a full import", async () => {
+    brokerClient();
+    const caller = definitionsRouter.createCaller(makeCtx() as never);
+
+    await caller.importDefinitions({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      definitions: uploaded,
+    });
+
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        metadata: expect.objectContaining({ mode: "full", appliedCount: 3 }),
+      })
+    );
+  });
+});
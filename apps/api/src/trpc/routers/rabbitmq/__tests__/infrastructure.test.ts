@@ -46,11 +46,25 @@ vi.mock("@/mappers/rabbitmq", () => ({
   BindingMapper: { toApiResponseArray: vi.fn((bs) => bs) },
 }));
 
-vi.mock("../shared", () => ({
-  verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
-  createRabbitMQClient: (...a: unknown[]) => mockCreateRabbitMQClient(...a),
-  createRabbitMQClientFromServer: vi.fn(),
-}));
+vi.mock("../shared", async () => {
+  const { TRPCError } = await import("@trpc/server");
+  return {
+    verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
+    loadServer: async (
+      _ctx: unknown,
+      input: { serverId: string; workspaceId: string }
+    ) => {
+      const server = await mockVerifyServerAccess(
+        input.serverId,
+        input.workspaceId
+      );
+      if (!server) throw new TRPCError({ code: "NOT_FOUND" });
+      return server;
+    },
+    createRabbitMQClient: (...a: unknown[]) => mockCreateRabbitMQClient(...a),
+    createRabbitMQClientFromServer: () => mockClient,
+  };
+});
 
 const { infrastructureRouter } = await import("../infrastructure");
 
@@ -62,7 +76,9 @@ function makeCtx(overrides: Record<string, unknown> = {}) {
     role === "ADMIN" || role === "OWNER"
       ? new Set([
           "broker:read",
+          "broker:update",
           "broker:connections:read",
+          "broker:connections:close",
           "exchange:read",
           "exchange:create",
           "exchange:delete",
@@ -106,8 +122,13 @@ const mockServer = {
 
 const mockClient = {
   getNodes: vi.fn().mockResolvedValue([]),
+  getQueues: vi.fn().mockResolvedValue([]),
+  rebalanceQueues: vi.fn().mockResolvedValue(undefined),
   getConnections: vi.fn().mockResolvedValue([]),
   getChannels: vi.fn().mockResolvedValue([]),
+  getConnection: vi.fn(),
+  getConnectionChannels: vi.fn().mockResolvedValue([]),
+  closeConnection: vi.fn().mockResolvedValue(undefined),
   getExchanges: vi.fn().mockResolvedValue([]),
   getBindings: vi.fn().mockResolvedValue([]),
   createExchange: vi.fn().mockResolvedValue(undefined),
@@ -148,6 +169,56 @@ describe("infrastructureRouter.getNodes", () => {
   });
 });
 
+describe("infrastructureRouter.rebalanceLeaders (ADMIN only)", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+  });
+
+  it("requests a rebalance and returns the distribution it started from", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockClient.getNodes.mockResolvedValue([
+      { name: "rabbit@node1", running: true },
+      { name: "rabbit@node2", running: true },
+    ]);
+    mockClient.getQueues.mockResolvedValue([
+      { name: "q1", vhost: "/", type: "quorum", leader: "rabbit@node1" },
+      { name: "q2", vhost: "/", type: "quorum", leader: "rabbit@node1" },
+    ]);
+
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    const result = await caller.rebalanceLeaders({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+    });
+
+    expect(mockClient.rebalanceQueues).toHaveBeenCalled();
+    expect(result.before).toMatchObject({
+      busiestNode: "rabbit@node1",
+      skew: 2,
+      skewed: true,
+    });
+  });
+
+  it("throws FORBIDDEN when user is not ADMIN", async () => {
+    const caller = infrastructureRouter.createCaller(
+      makeCtx({
+        user: {
+          id: "user-2",
+          email: "u@u.com",
+          isActive: true,
+          role: "USER",
+          workspaceId: "ws-1",
+        },
+      }) as never
+    );
+    await expect(
+      caller.rebalanceLeaders({ serverId: "srv-1", workspaceId: "ws-1" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(mockClient.rebalanceQueues).not.toHaveBeenCalled();
+  });
+});
+
 describe("infrastructureRouter.getConnections", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -183,6 +254,214 @@ describe("infrastructureRouter.getConnections", () => {
   });
 });
 
+const USER_CTX = {
+  user: {
+    id: "user-2",
+    email: "u@u.com",
+    isActive: true,
+    role: "USER",
+    workspaceId: "ws-1",
+  },
+};
+
+function brokerConnection(
+  name: string,
+  clientName: string,
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    name,
+    user: "app",
+    vhost: "/",
+    peer_host: "10.0.0.5",
+    channels: 2,
+    state: "running",
+    client_properties: { connection_name: clientName },
+    ...overrides,
+  };
+}
+
+describe("infrastructureRouter.getConnection", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+  });
+
+  it("returns client properties and channels ordered by number", async () => {
+    mockClient.getConnection.mockResolvedValue(
+      brokerConnection("conn-1", "orders-worker")
+    );
+    mockClient.getConnectionChannels.mockResolvedValue([
+      { name: "conn-1 (2)", number: 2, prefetch_count: 0 },
+      {
+        name: "conn-1 (1)",
+        number: 1,
+        prefetch_count: 50,
+        messages_unacknowledged: 50,
+      },
+    ]);
+
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    const result = await caller.getConnection({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      connectionName: "conn-1",
+    });
+
+    expect(result.connection).toMatchObject({
+      clientName: "orders-worker",
+      internal: false,
+    });
+    expect(result.channels.map((c) => c.number)).toEqual([1, 2]);
+    expect(result.channels[0]).toMatchObject({
+      prefetchCount: 50,
+      messagesUnacknowledged: 50,
+    });
+  });
+
+  it("maps a broker 404 to NOT_FOUND", async () => {
+    mockClient.getConnection.mockRejectedValue(
+      new Error("RabbitMQ API error: 404 Not Found")
+    );
+
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.getConnection({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        connectionName: "gone",
+      })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+describe("infrastructureRouter.closeConnection (ADMIN only)", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+  });
+
+  it("closes the connection with the reason", async () => {
+    mockClient.getConnection.mockResolvedValue(
+      brokerConnection("conn-1", "orders-worker")
+    );
+
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    const result = await caller.closeConnection({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      connectionName: "conn-1",
+      reason: "leaking channels",
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockClient.closeConnection).toHaveBeenCalledWith(
+      "conn-1",
+      "leaking channels"
+    );
+  });
+
+  it("refuses to close Qarote's own connections", async () => {
+    mockClient.getConnection.mockResolvedValue(
+      brokerConnection("conn-q", "qarote")
+    );
+
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.closeConnection({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        connectionName: "conn-q",
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(mockClient.closeConnection).not.toHaveBeenCalled();
+  });
+
+  it("throws FORBIDDEN when user is not ADMIN", async () => {
+    const caller = infrastructureRouter.createCaller(
+      makeCtx(USER_CTX) as never
+    );
+    await expect(
+      caller.closeConnection({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        connectionName: "conn-1",
+      })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(mockClient.closeConnection).not.toHaveBeenCalled();
+  });
+});
+
+describe("infrastructureRouter.closeConnections (ADMIN only)", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockClient.getConnections.mockResolvedValue([
+      brokerConnection("conn-1", "orders-worker"),
+      brokerConnection("conn-2", "orders-worker", { peer_host: "10.0.0.6" }),
+      brokerConnection("conn-3", "billing-api"),
+      brokerConnection("conn-q", "qarote"),
+    ]);
+  });
+
+  it("previews what a selector matches without closing anything", async () => {
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    const result = await caller.previewCloseConnections({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      target: { selector: { clientNameRegex: "^orders" } },
+    });
+
+    expect(result.matched.map((c) => c.name)).toEqual(["conn-1", "conn-2"]);
+    expect(mockClient.closeConnection).not.toHaveBeenCalled();
+  });
+
+  it("rejects a client name pattern that is not a valid regex", async () => {
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.closeConnections({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        target: { selector: { clientNameRegex: "orders(" } },
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(mockClient.closeConnection).not.toHaveBeenCalled();
+  });
+
+  it("closes every connection the target resolves to", async () => {
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    const result = await caller.closeConnections({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      target: { selector: { peerHost: "10.0.0.5" } },
+      reason: "redeploy",
+    });
+
+    expect(result.closed.sort()).toEqual(["conn-1", "conn-3"]);
+    expect(result.skippedInternal).toBe(1);
+    expect(mockClient.closeConnection).toHaveBeenCalledWith(
+      "conn-1",
+      "redeploy"
+    );
+    expect(mockClient.closeConnection).not.toHaveBeenCalledWith(
+      "conn-q",
+      "redeploy"
+    );
+  });
+
+  it("rejects a selector with only a vhost", async () => {
+    const caller = infrastructureRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.closeConnections({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        target: { selector: { vhost: "/" } },
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(mockClient.closeConnection).not.toHaveBeenCalled();
+  });
+});
+
 describe("infrastructureRouter.createExchange (ADMIN only)", () => {
   beforeEach(() => {
     vi.clearAllMocks();
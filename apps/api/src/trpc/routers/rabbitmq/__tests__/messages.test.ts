@@ -4,6 +4,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const mockVerifyServerAccess = vi.fn();
 const mockCreateRabbitMQClient = vi.fn();
+const mockRecordFromContext = vi.fn();
 
 vi.mock("@/core/prisma", () => ({
   prisma: {
@@ -34,6 +35,10 @@ vi.mock("@/services/plan/plan.service", () => ({
   PlanValidationError: class extends Error {},
   getOrgPlan: vi.fn().mockResolvedValue("FREE"),
 }));
+vi.mock("@/services/audit", () => ({
+  recordFromContext: (...a: unknown[]) => mockRecordFromContext(...a),
+  recordAuditLog: vi.fn().mockResolvedValue(undefined),
+}));
 vi.mock("../shared", () => ({
   verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
   createRabbitMQClient: (...a: unknown[]) => mockCreateRabbitMQClient(...a),
@@ -47,7 +52,7 @@ function makeCtx(overrides: Record<string, unknown> = {}) {
   const role = ((overrides.user as { role?: string }) ?? {}).role ?? "ADMIN";
   const perms =
     role === "ADMIN" || role === "OWNER"
-      ? new Set(["message:publish"])
+      ? new Set(["message:publish", "message:browse", "message:move"])
       : new Set<string>();
   return {
     prisma: {},
@@ -234,3 +239,333 @@ describe("messagesRouter.publishMessage", () => {
     );
   });
 });
+
+const nonAdminOverride = {
+  user: {
+    id: "user-2",
+    email: "user@test.com",
+    isActive: true,
+    role: "USER",
+    workspaceId: "ws-1",
+  },
+};
+
+function makeMessage(payload: string, headers: Record<string, unknown> = {}) {
+  return {
+    payload: Buffer.from(payload).toString("base64"),
+    payload_bytes: Buffer.byteLength(payload),
+    payload_encoding: "base64",
+    properties: { delivery_mode: 2, headers },
+    routing_key: "rk",
+    redelivered: false,
+    exchange: "",
+    message_count: 0,
+  };
+}
+
+describe("messagesRouter.browse", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const browseInput = {
+    serverId: "srv-1",
+    workspaceId: "ws-1",
+    queueName: "my-queue",
+    vhost: "%2F",
+  };
+
+  it("throws FORBIDDEN when user lacks message:browse", async () => {
+    const caller = messagesRouter.createCaller(
+      makeCtx(nonAdminOverride) as never
+    );
+    await expect(caller.browse(browseInput)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("refuses Qarote internal queues", async () => {
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.browse({ ...browseInput, queueName: "qarote.trace.srv-1" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(mockVerifyServerAccess).not.toHaveBeenCalled();
+  });
+
+  it("peeks with a requeueing ack mode and audits the read", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getMessages: vi.fn().mockResolvedValue([
+        {
+          payload: "hello",
+          payload_bytes: 5,
+          payload_encoding: "string",
+          properties: {},
+          routing_key: "my-queue",
+          redelivered: true,
+          exchange: "",
+          message_count: 3,
+        },
+      ]),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.browse({
+      ...browseInput,
+      count: 5,
+      ackMode: "reject_requeue",
+      truncate: 1000,
+    });
+
+    expect(mockClient.getMessages).toHaveBeenCalledWith("my-queue", "/", 5, {
+      ackMode: "reject_requeue_true",
+      encoding: "auto",
+      truncate: 1000,
+    });
+    expect(result.totalReturned).toBe(1);
+    expect(result.messages[0]).toMatchObject({
+      payload: "hello",
+      truncated: false,
+      message_count: 3,
+    });
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: "rabbitmq.messages.browsed" })
+    );
+  });
+
+  it("decodes base64 payloads when encoding is 'string'", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getMessages: vi.fn().mockResolvedValue([makeMessage('{"id":1}')]),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.browse({ ...browseInput, encoding: "string" });
+
+    expect(mockClient.getMessages.mock.calls[0][3]).toMatchObject({
+      encoding: "base64",
+    });
+    expect(result.messages[0]).toMatchObject({
+      payload: '{"id":1}',
+      payload_encoding: "string",
+    });
+  });
+
+  it("flags payloads shortened by the broker as truncated", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getMessages: vi.fn().mockResolvedValue([
+        {
+          ...makeMessage("abc"),
+          payload_bytes: 1024,
+        },
+      ]),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.browse({ ...browseInput, truncate: 3 });
+
+    expect(result.messages[0].truncated).toBe(true);
+  });
+
+  it("flags a payload cut mid-character as truncated after the string decode", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    // "é" is two bytes; the broker kept only the first one.
+    const cut = Buffer.from("abé").subarray(0, 3);
+    const mockClient = {
+      getMessages: vi.fn().mockResolvedValue([
+        {
+          ...makeMessage(""),
+          payload: cut.toString("base64"),
+          payload_bytes: 4,
+        },
+      ]),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.browse({
+      ...browseInput,
+      encoding: "string",
+      truncate: 3,
+    });
+
+    expect(result.messages[0]).toMatchObject({
+      payload: "ab\uFFFD",
+      truncated: true,
+    });
+  });
+});
+
+describe("messagesRouter.moveMessages", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const moveInput = {
+    serverId: "srv-1",
+    workspaceId: "ws-1",
+    queueName: "orders.dlq",
+    targetExchange: "orders",
+    targetRoutingKey: "orders.retry",
+    count: 10,
+    vhost: "%2F",
+  };
+
+  it("throws FORBIDDEN when user lacks message:move", async () => {
+    const caller = messagesRouter.createCaller(
+      makeCtx(nonAdminOverride) as never
+    );
+    await expect(caller.moveMessages(moveInput)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("rejects moving messages back into the source queue", async () => {
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.moveMessages({
+        ...moveInput,
+        targetExchange: "",
+        targetRoutingKey: "orders.dlq",
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("republishes drained messages as base64 and reports counts", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getQueue: vi.fn().mockResolvedValue({ messages_ready: 2 }),
+      getMessages: vi
+        .fn()
+        .mockResolvedValueOnce([makeMessage("a"), makeMessage("b")]),
+      publishMessage: vi.fn().mockResolvedValue({ routed: true }),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.moveMessages(moveInput);
+
+    // Budget is capped by messages_ready (2), not the requested count (10).
+    expect(mockClient.getMessages).toHaveBeenCalledWith("orders.dlq", "/", 2, {
+      ackMode: "ack_requeue_false",
+      encoding: "base64",
+    });
+    expect(mockClient.publishMessage).toHaveBeenCalledWith(
+      "orders",
+      "orders.retry",
+      "/",
+      Buffer.from("a").toString("base64"),
+      expect.objectContaining({ delivery_mode: 2 }),
+      "base64"
+    );
+    expect(result).toEqual({ success: true, moved: 2, failed: 0, lost: 0 });
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: "rabbitmq.messages.moved",
+        metadata: expect.objectContaining({ moved: 2 }),
+      })
+    );
+  });
+
+  it("returns unroutable messages to the source queue and stops", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getQueue: vi.fn().mockResolvedValue({ messages_ready: 500 }),
+      getMessages: vi.fn().mockResolvedValue([makeMessage("a")]),
+      publishMessage: vi
+        .fn()
+        .mockImplementation((exchange: string) =>
+          Promise.resolve({ routed: exchange === "" })
+        ),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.moveMessages(moveInput);
+
+    expect(mockClient.getMessages).toHaveBeenCalledTimes(1);
+    expect(mockClient.publishMessage).toHaveBeenLastCalledWith(
+      "",
+      "orders.dlq",
+      "/",
+      expect.any(String),
+      expect.anything(),
+      "base64"
+    );
+    expect(result).toEqual({ success: false, moved: 0, failed: 1, lost: 0 });
+  });
+});
+
+describe("messagesRouter.requeueFromDlq", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const requeueInput = {
+    serverId: "srv-1",
+    workspaceId: "ws-1",
+    queueName: "orders.dlq",
+    count: 10,
+    vhost: "%2F",
+  };
+
+  it("routes each message to its x-death origin via the default exchange", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getQueue: vi.fn().mockResolvedValue({ messages_ready: 3 }),
+      getMessages: vi.fn().mockResolvedValueOnce([
+        makeMessage("a", {
+          "x-death": [{ queue: "orders", reason: "rejected", count: 1 }],
+        }),
+        makeMessage("b", { "x-first-death-queue": "payments" }),
+        makeMessage("c"),
+      ]),
+      publishMessage: vi.fn().mockResolvedValue({ routed: true }),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.requeueFromDlq(requeueInput);
+
+    const targets = mockClient.publishMessage.mock.calls.map((c) => [
+      c[0],
+      c[1],
+    ]);
+    // Message without death headers goes back to the DLQ itself.
+    expect(targets).toEqual([
+      ["", "orders"],
+      ["", "payments"],
+      ["", "orders.dlq"],
+    ]);
+    expect(result).toEqual({
+      success: true,
+      requeued: 2,
+      skipped: 1,
+      failed: 0,
+      lost: 0,
+    });
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: "rabbitmq.messages.requeued" })
+    );
+  });
+
+  it("counts messages that cannot be returned as lost", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    const mockClient = {
+      getQueue: vi.fn().mockResolvedValue({ messages_ready: 1 }),
+      getMessages: vi
+        .fn()
+        .mockResolvedValueOnce([
+          makeMessage("a", { "x-first-death-queue": "orders" }),
+        ]),
+      publishMessage: vi.fn().mockRejectedValue(new Error("broker down")),
+    };
+    mockCreateRabbitMQClient.mockResolvedValue(mockClient);
+
+    const caller = messagesRouter.createCaller(makeCtx() as never);
+    const result = await caller.requeueFromDlq(requeueInput);
+
+    expect(result).toMatchObject({ success: false, failed: 1, lost: 1 });
+  });
+});
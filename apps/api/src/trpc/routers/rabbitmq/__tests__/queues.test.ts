@@ -4,6 +4,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const mockVerifyServerAccess = vi.fn();
 const mockCreateRabbitMQClientFromServer = vi.fn();
+const mockRecordFromContext = vi.fn();
 
 vi.mock("@/core/prisma", () => ({
   prisma: {
@@ -20,7 +21,13 @@ vi.mock("@/core/prisma", () => ({
       findFirst: vi.fn().mockResolvedValue(null),
       create: vi.fn().mockResolvedValue({ id: "q-1" }),
       delete: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
     },
+    queueBulkOperation: {
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn(),
+    },
+    queueBulkOperationItem: { update: vi.fn().mockResolvedValue({}) },
     queueMetric: {
       create: vi.fn().mockResolvedValue({}),
       deleteMany: vi.fn().mockResolvedValue({}),
@@ -43,6 +50,11 @@ vi.mock("@/middlewares/workspace", () => ({
   hasWorkspaceAccess: vi.fn().mockResolvedValue(true),
 }));
 
+vi.mock("@/services/audit", () => ({
+  recordFromContext: (...a: unknown[]) => mockRecordFromContext(...a),
+  recordAuditLog: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock("@/services/plan/plan.service", () => ({
   PlanErrorCode: { PLAN_RESTRICTION: "PLAN_RESTRICTION" },
   PlanLimitExceededError: class extends Error {},
@@ -58,25 +70,66 @@ vi.mock("@/mappers/rabbitmq", () => ({
   QueueMapper: {
     toApiResponseArray: vi.fn((qs) => qs),
     toApiResponse: vi.fn((q) => q),
+    toStreamConsumerResponse: vi.fn((c) => c),
   },
   ConsumerMapper: { toApiResponseArray: vi.fn((cs) => cs) },
   BindingMapper: { toApiResponseArray: vi.fn((bs) => bs) },
 }));
 
+const mockGetQueuePause = vi.fn();
+const mockRequestQueuePause = vi.fn();
+const mockRequestQueueResume = vi.fn();
+vi.mock("@/services/queue-pause", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/queue-pause")>()),
+  getQueuePause: (...a: unknown[]) => mockGetQueuePause(...a),
+  requestQueuePause: (...a: unknown[]) => mockRequestQueuePause(...a),
+  requestQueueResume: (...a: unknown[]) => mockRequestQueueResume(...a),
+}));
+
+const mockGetDeclarableVersion = vi.fn();
+const mockDeclareFromTemplate = vi.fn();
+const mockRecordTemplatedQueue = vi.fn();
+vi.mock("@/services/queue-template", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/queue-template")>()),
+  getDeclarableVersion: (...a: unknown[]) => mockGetDeclarableVersion(...a),
+  declareFromTemplate: (...a: unknown[]) => mockDeclareFromTemplate(...a),
+  recordTemplatedQueue: (...a: unknown[]) => mockRecordTemplatedQueue(...a),
+}));
+
+const mockGetQueueConsumerHealth = vi.fn();
+vi.mock("@/services/consumer-health", () => ({
+  getQueueConsumerHealth: (...a: unknown[]) => mockGetQueueConsumerHealth(...a),
+}));
+
 vi.mock("@/core/rabbitmq/AmqpClient", () => ({ RabbitMQAmqpClient: class {} }));
 vi.mock("@/core/utils", () => ({ abortableSleep: vi.fn() }));
 
-vi.mock("../shared", () => ({
-  verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
-  createRabbitMQClient: vi.fn(),
-  createRabbitMQClientFromServer: (...a: unknown[]) =>
-    mockCreateRabbitMQClientFromServer(...a),
-  createAmqpClient: vi.fn(),
-  createStandaloneAmqpConnection: vi.fn(),
-}));
+vi.mock("../shared", async () => {
+  const { TRPCError } = await import("@trpc/server");
+  return {
+    verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
+    loadServer: async (
+      _ctx: unknown,
+      input: { serverId: string; workspaceId: string }
+    ) => {
+      const server = await mockVerifyServerAccess(
+        input.serverId,
+        input.workspaceId
+      );
+      if (!server) throw new TRPCError({ code: "NOT_FOUND" });
+      return server;
+    },
+    createRabbitMQClient: vi.fn(),
+    createRabbitMQClientFromServer: (...a: unknown[]) =>
+      mockCreateRabbitMQClientFromServer(...a),
+    createStandaloneAmqpConnection: vi.fn(),
+  };
+});
 
 const { MAX_QUEUES_PER_SERVER } = await import("@/services/queue-limit");
+const { QueueTemplateError } = await import("@/services/queue-template");
 const { queuesRouter } = await import("../queues");
+const { prisma } = await import("@/core/prisma");
 
 // --- Helpers ---
 
@@ -89,6 +142,7 @@ function makeCtx(overrides: Record<string, unknown> = {}) {
           "queue:create",
           "queue:delete",
           "queue:purge",
+          "queue:pause",
           "binding:read",
         ])
       : new Set<string>();
@@ -143,6 +197,8 @@ const mockClient = {
   purgeQueue: vi.fn().mockResolvedValue(undefined),
   getQueueConsumers: vi.fn().mockResolvedValue([]),
   getQueueBindings: vi.fn().mockResolvedValue([]),
+  getNodes: vi.fn().mockResolvedValue([]),
+  getStreamConsumers: vi.fn().mockResolvedValue([]),
 };
 
 // --- Tests ---
@@ -271,6 +327,103 @@ describe("queuesRouter.getQueues", () => {
   });
 });
 
+describe("queuesRouter.getQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateRabbitMQClientFromServer.mockReturnValue(mockClient);
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+  });
+
+  const input = {
+    serverId: "srv-1",
+    workspaceId: "ws-1",
+    queueName: "events",
+    vhost: "%2F",
+  };
+
+  it("does not look up stream offsets for other queue types", async () => {
+    mockClient.getQueue.mockResolvedValue({ name: "events", type: "quorum" });
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.getQueue(input);
+
+    expect(result.streamConsumers).toBeNull();
+    expect(mockClient.getStreamConsumers).not.toHaveBeenCalled();
+  });
+
+  it("returns this stream's consumer offsets when the plugin is enabled", async () => {
+    mockClient.getQueue.mockResolvedValue({ name: "events", type: "stream" });
+    mockClient.getNodes.mockResolvedValue([
+      { name: "rabbit@n1", enabled_plugins: ["rabbitmq_stream_management"] },
+    ]);
+    mockClient.getStreamConsumers.mockResolvedValue([
+      { queue: { name: "events", vhost: "/" }, offset: 10 },
+      { queue: { name: "other", vhost: "/" }, offset: 3 },
+    ]);
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.getQueue(input);
+
+    expect(mockClient.getStreamConsumers).toHaveBeenCalledWith("/");
+    expect(result.streamConsumers).toEqual([
+      { queue: { name: "events", vhost: "/" }, offset: 10 },
+    ]);
+  });
+
+  it("still returns the queue when offsets cannot be read", async () => {
+    mockClient.getQueue.mockResolvedValue({ name: "events", type: "stream" });
+    mockClient.getNodes.mockRejectedValue(new Error("RabbitMQ API error: 500"));
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.getQueue(input);
+
+    expect(result.queue).toMatchObject({ name: "events" });
+    expect(result.streamConsumers).toBeNull();
+  });
+});
+
+describe("queuesRouter.getQueueConsumerHealth", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateRabbitMQClientFromServer.mockReturnValue(mockClient);
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+  });
+
+  it("analyses the decoded vhost over the default window", async () => {
+    mockGetQueueConsumerHealth.mockResolvedValue({ stuck: 1 });
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.getQueueConsumerHealth({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      queueName: "orders",
+      vhost: "%2F",
+    });
+
+    expect(result).toEqual({ stuck: 1 });
+    expect(mockGetQueueConsumerHealth).toHaveBeenCalledWith(mockClient, {
+      workspaceId: "ws-1",
+      serverId: "srv-1",
+      queueName: "orders",
+      vhost: "/",
+      windowMinutes: 5,
+    });
+  });
+
+  it("hides Qarote's internal queues", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.getQueueConsumerHealth({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        queueName: "qarote.trace.v2.srv-1./",
+        vhost: "%2F",
+      })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(mockGetQueueConsumerHealth).not.toHaveBeenCalled();
+  });
+});
+
 describe("queuesRouter.createQueue (ADMIN only)", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -347,6 +500,89 @@ describe("queuesRouter.createQueue (ADMIN only)", () => {
       })
     ).rejects.toMatchObject({ code: "FORBIDDEN" });
   });
+
+  it("declares from the template and records the version used", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockGetDeclarableVersion.mockResolvedValue({
+      template: { id: "tpl-1", name: "orders" },
+      version: { id: "ver-3", version: 3 },
+    });
+    mockDeclareFromTemplate.mockResolvedValue({});
+    mockRecordTemplatedQueue.mockResolvedValue({});
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.createQueue({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      vhost: "/",
+      name: "orders.created",
+      durable: false,
+      autoDelete: true,
+      exclusive: false,
+      arguments: { "x-max-length": 1 },
+      routingKey: "",
+      templateId: "tpl-1",
+    });
+
+    expect(result.template).toEqual({
+      id: "tpl-1",
+      name: "orders",
+      version: 3,
+    });
+    expect(mockGetDeclarableVersion).toHaveBeenCalledWith("tpl-1", "ws-1");
+    // Raw options are ignored — the template declares the queue
+    expect(mockClient.createQueue).not.toHaveBeenCalled();
+    expect(mockDeclareFromTemplate).toHaveBeenCalledWith(
+      mockClient,
+      { id: "ver-3", version: 3 },
+      { name: "orders.created", vhost: "/" }
+    );
+    expect(mockRecordTemplatedQueue).toHaveBeenCalledWith({
+      serverId: "srv-1",
+      vhost: "/",
+      queueName: "orders.created",
+      templateVersionId: "ver-3",
+      createdById: "user-1",
+    });
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: "rabbitmq.queue.created",
+        metadata: {
+          templateId: "tpl-1",
+          templateName: "orders",
+          templateVersion: 3,
+        },
+      })
+    );
+  });
+
+  it("maps an archived template to BAD_REQUEST without declaring", async () => {
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockGetDeclarableVersion.mockRejectedValue(
+      new QueueTemplateError("templateArchived", "Template is archived")
+    );
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.createQueue({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        vhost: "/",
+        name: "orders.created",
+        durable: true,
+        autoDelete: false,
+        exclusive: false,
+        arguments: {},
+        routingKey: "",
+        templateId: "tpl-1",
+      })
+    ).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+      message: "This queue template is archived.",
+    });
+    expect(mockDeclareFromTemplate).not.toHaveBeenCalled();
+  });
 });
 
 describe("queuesRouter.deleteQueue (ADMIN only)", () => {
@@ -417,3 +653,270 @@ describe("queuesRouter.deleteQueue (ADMIN only)", () => {
     ).rejects.toMatchObject({ code: "FORBIDDEN" });
   });
 });
+
+describe("queuesRouter pause procedures", () => {
+  const pausedRow = {
+    id: "p-1",
+    serverId: "srv-1",
+    vhost: "/",
+    queueName: "orders",
+    status: "PAUSED",
+    reason: "deploy",
+    pausedById: "user-1",
+    pausedByEmail: "admin@test.com",
+    pausedAt: new Date(Date.now() - 10 * 60_000),
+    pausedUntil: null,
+    resumedById: null,
+    resumedAt: null,
+    resumeTrigger: null,
+    consumerTag: "qarote-pause-p-1",
+    appliedAt: new Date(Date.now() - 9 * 60_000),
+    lastError: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockCreateRabbitMQClientFromServer.mockReturnValue(mockClient);
+  });
+
+  it("records the pause with the caller, reason and schedule", async () => {
+    mockRequestQueuePause.mockResolvedValue(pausedRow);
+    const until = new Date(Date.now() + 3_600_000);
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.pauseQueue({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      queueName: "orders",
+      reason: "deploy",
+      pausedUntil: until,
+    });
+
+    expect(mockRequestQueuePause).toHaveBeenCalledWith(
+      { serverId: "srv-1", vhost: "/", queueName: "orders" },
+      { id: "user-1", email: "admin@test.com" },
+      { reason: "deploy", pausedUntil: until }
+    );
+    expect(result.pauseState).toMatchObject({ isPaused: true, applied: true });
+  });
+
+  it("maps a pause in the past to BAD_REQUEST", async () => {
+    const { QueuePauseError } = await import("@/services/queue-pause");
+    mockRequestQueuePause.mockRejectedValue(
+      new QueuePauseError("pauseUntilInPast", "in the past")
+    );
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+
+    await expect(
+      caller.pauseQueue({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        queueName: "orders",
+        pausedUntil: new Date(Date.now() - 60_000),
+      })
+    ).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+      message: "The pause end time must be in the future.",
+    });
+  });
+
+  it("maps resuming an unpaused queue to BAD_REQUEST", async () => {
+    const { QueuePauseError } = await import("@/services/queue-pause");
+    mockRequestQueueResume.mockRejectedValue(
+      new QueuePauseError("queueNotPaused", "not paused")
+    );
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.resumeQueue({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        queueName: "orders",
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("reports drift when the broker has no blocking consumer", async () => {
+    mockGetQueuePause.mockResolvedValue(pausedRow);
+    mockClient.getQueueConsumers.mockResolvedValueOnce([
+      { consumer_tag: "app-worker-1" },
+    ]);
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.getPauseStatus({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      queueName: "orders",
+    });
+
+    expect(result.brokerPauseConsumers).toBe(0);
+    expect(result.drift).toEqual({
+      kind: "consumer_missing",
+      brokerPauseConsumers: 0,
+    });
+  });
+
+  it("leaves drift unknown when the broker is unreachable", async () => {
+    mockGetQueuePause.mockResolvedValue(pausedRow);
+    mockClient.getQueueConsumers.mockRejectedValueOnce(
+      new Error("ECONNREFUSED")
+    );
+
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.getPauseStatus({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      queueName: "orders",
+    });
+
+    expect(result.brokerPauseConsumers).toBeNull();
+    expect(result.drift).toBeNull();
+    expect(result.pauseState?.isPaused).toBe(true);
+  });
+});
+
+describe("queuesRouter bulk procedures", () => {
+  const brokerQueues = [
+    { name: "test.a", vhost: "/", messages: 0, consumers: 0 },
+    { name: "test.b", vhost: "/", messages: 4, consumers: 0 },
+    { name: "orders", vhost: "/", messages: 0, consumers: 3 },
+    { name: "qarote.trace.v2.srv-1./", vhost: "/", messages: 0, consumers: 0 },
+  ];
+  const operationId = "5d0c8a52-51b1-4a53-9f0f-8f3f6f0d2a11";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockResolvedValue(mockServer);
+    mockCreateRabbitMQClientFromServer.mockReturnValue(mockClient);
+    mockClient.getQueues.mockResolvedValue(brokerQueues);
+    vi.mocked(prisma.queueBulkOperation.update).mockImplementation(((args: {
+      include?: unknown;
+    }) =>
+      Promise.resolve({
+        id: operationId,
+        serverId: "srv-1",
+        action: "PURGE",
+        status: args.include ? "COMPLETED" : "RUNNING",
+        total: 2,
+        succeeded: 2,
+        failed: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        finishedAt: new Date(),
+        items: [],
+      })) as never);
+  });
+
+  it("previews a selector without Qarote's internal queues", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.previewBulkQueues({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      target: { selector: { withoutConsumers: true } },
+    });
+
+    expect(result.matched.map((q) => q.name)).toEqual(["test.a", "test.b"]);
+    expect(result.skippedInternal).toBe(1);
+    expect(mockClient.purgeQueue).not.toHaveBeenCalled();
+  });
+
+  it("rejects a selector with no criteria", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.previewBulkQueues({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        target: { selector: {} },
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("purges each listed queue and audits each one", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    const result = await caller.bulkPurgeQueues({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      operationId,
+      target: {
+        queues: [
+          { name: "test.a", vhost: "/" },
+          { name: "test.b", vhost: "/" },
+          { name: "gone", vhost: "/" },
+        ],
+      },
+    });
+
+    expect(mockClient.purgeQueue).toHaveBeenCalledTimes(2);
+    expect(mockClient.purgeQueue).toHaveBeenCalledWith("test.a", "/");
+    expect(mockRecordFromContext).toHaveBeenCalledTimes(2);
+    expect(mockRecordFromContext).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        action: "rabbitmq.queue.purged",
+        entityId: "test.b",
+        metadata: { bulkOperationId: operationId },
+      })
+    );
+    expect(result.notFound).toEqual([{ name: "gone", vhost: "/" }]);
+    expect(result.operation.status).toBe("COMPLETED");
+  });
+
+  it("refuses to run when nothing matched", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.bulkDeleteQueues({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        operationId,
+        target: { queues: [{ name: "qarote.trace.v2.srv-1./", vhost: "/" }] },
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(mockClient.deleteQueue).not.toHaveBeenCalled();
+  });
+
+  it("rejects a bulk pause ending in the past before touching the broker", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.bulkPauseQueues({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        operationId,
+        target: { selector: { nameRegex: "^test\\." } },
+        pausedUntil: new Date(Date.now() - 60_000),
+      })
+    ).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+      message: "The pause end time must be in the future.",
+    });
+    expect(mockClient.getQueues).not.toHaveBeenCalled();
+    expect(mockRequestQueuePause).not.toHaveBeenCalled();
+  });
+
+  it("rejects a name pattern that is not a valid regex instead of matching it as text", async () => {
+    const caller = queuesRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.previewBulkQueues({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        target: { selector: { nameRegex: "legacy[" } },
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(mockClient.getQueues).not.toHaveBeenCalled();
+  });
+
+  it("is forbidden without the purge permission", async () => {
+    const caller = queuesRouter.createCaller(
+      makeCtx({ user: { id: "user-2", role: "USER" } }) as never
+    );
+    await expect(
+      caller.bulkPurgeQueues({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+        operationId,
+        target: { queues: [{ name: "test.a", vhost: "/" }] },
+      })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
@@ -82,7 +82,6 @@ vi.mock("@/core/rabbitmq", () => {
       getOverview = mockGetOverview;
     },
     RabbitMQAmqpClientFactory: { createClient: vi.fn() },
-    QueuePauseState: {},
   };
 });
 
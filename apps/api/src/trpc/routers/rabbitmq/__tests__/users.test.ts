@@ -54,14 +54,44 @@ vi.mock("@/mappers/rabbitmq", () => ({
   },
 }));
 
-vi.mock("../shared", () => ({
-  verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
-  createRabbitMQClient: vi.fn(),
-  createRabbitMQClientFromServer: (...a: unknown[]) =>
-    mockCreateRabbitMQClientFromServer(...a),
+const { mockRotateServerPassword, mockGetCredentialHygiene } = vi.hoisted(
+  () => ({
+    mockRotateServerPassword: vi.fn(),
+    mockGetCredentialHygiene: vi.fn(),
+  })
+);
+
+vi.mock("@/services/credential-rotation", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/credential-rotation")>()),
+  rotateServerPassword: mockRotateServerPassword,
+  getCredentialHygiene: mockGetCredentialHygiene,
 }));
 
+vi.mock("../shared", async () => {
+  const { TRPCError } = await import("@trpc/server");
+  return {
+    verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
+    loadServer: async (
+      _ctx: unknown,
+      input: { serverId: string; workspaceId: string }
+    ) => {
+      const server = await mockVerifyServerAccess(
+        input.serverId,
+        input.workspaceId
+      );
+      if (!server) throw new TRPCError({ code: "NOT_FOUND" });
+      return server;
+    },
+    createRabbitMQClient: vi.fn(),
+    createRabbitMQClientFromServer: (...a: unknown[]) =>
+      mockCreateRabbitMQClientFromServer(...a),
+  };
+});
+
 const { usersRouter } = await import("../users");
+const { prisma } = await import("@/core/prisma");
+const { CredentialRotationError } =
+  await import("@/services/credential-rotation");
 
 // --- Helpers ---
 
@@ -74,6 +104,7 @@ function makeCtx(overrides: Record<string, unknown> = {}) {
           "broker_user:write",
           "broker_user:delete",
           "broker_user:permissions:write",
+          "server:update",
         ])
       : new Set<string>();
   return {
@@ -317,3 +348,97 @@ describe("usersRouter.deleteUser (ADMIN only)", () => {
     ).rejects.toMatchObject({ code: "FORBIDDEN" });
   });
 });
+
+describe("usersRouter credential hygiene", () => {
+  const nonAdmin = {
+    user: {
+      id: "user-2",
+      email: "u@u.com",
+      isActive: true,
+      role: "USER",
+      workspaceId: "ws-1",
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockResolvedValue({
+      ...mockServer,
+      name: "prod",
+      passwordRotationDays: null,
+    });
+  });
+
+  it("rotates the connection password without returning it", async () => {
+    const rotatedAt = new Date("2026-10-21T09:00:00Z");
+    mockRotateServerPassword.mockResolvedValue({
+      username: "guest",
+      rotatedAt,
+    });
+
+    const caller = usersRouter.createCaller(makeCtx() as never);
+    const result = await caller.rotateConnectionPassword({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+    });
+
+    expect(mockRotateServerPassword).toHaveBeenCalledWith("srv-1");
+    expect(result).toEqual({ rotatedAt });
+  });
+
+  it("maps rotation failures to their own errors", async () => {
+    mockRotateServerPassword.mockRejectedValue(
+      new CredentialRotationError("passwordRotationNotPermitted", "nope")
+    );
+
+    const caller = usersRouter.createCaller(makeCtx() as never);
+    await expect(
+      caller.rotateConnectionPassword({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+      })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("stores the rotation policy with deduplicated admins", async () => {
+    vi.mocked(prisma.rabbitMQServer.update).mockResolvedValue({
+      ...mockServer,
+      createdAt: new Date("2026-10-01T00:00:00Z"),
+      passwordRotationDays: 30,
+      passwordRotatedAt: null,
+      passwordRotationError: null,
+      expectedBrokerAdmins: ["ops"],
+    } as never);
+
+    const caller = usersRouter.createCaller(makeCtx() as never);
+    const result = await caller.setPasswordRotationPolicy({
+      serverId: "srv-1",
+      workspaceId: "ws-1",
+      rotationDays: 30,
+      expectedAdmins: ["ops", "ops"],
+    });
+
+    expect(prisma.rabbitMQServer.update).toHaveBeenCalledWith({
+      where: { id: "srv-1" },
+      data: { passwordRotationDays: 30, expectedBrokerAdmins: ["ops"] },
+    });
+    expect(result.nextRotationAt?.toISOString()).toBe(
+      "2026-10-31T00:00:00.000Z"
+    );
+  });
+
+  it("keeps rotation and hygiene to admins", async () => {
+    const caller = usersRouter.createCaller(makeCtx(nonAdmin) as never);
+    await expect(
+      caller.rotateConnectionPassword({
+        serverId: "srv-1",
+        workspaceId: "ws-1",
+      })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(
+      caller.getCredentialHygiene({ serverId: "srv-1", workspaceId: "ws-1" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(mockRotateServerPassword).not.toHaveBeenCalled();
+    expect(mockGetCredentialHygiene).not.toHaveBeenCalled();
+  });
+});
@@ -4,10 +4,15 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const mockVerifyServerAccess = vi.fn();
 const mockCreateRabbitMQClient = vi.fn();
+const mockRunVHostClone = vi.fn();
+const mockRecordFromContext = vi.fn();
 
 vi.mock("@/core/prisma", () => ({
   prisma: {
-    rabbitMQServer: { update: vi.fn() },
+    rabbitMQServer: {
+      update: vi.fn(),
+      findFirst: vi.fn().mockResolvedValue({ id: "srv-1", environment: null }),
+    },
     workspaceMember: {
       findFirst: vi.fn().mockResolvedValue({
         id: "mem-1",
@@ -47,12 +52,36 @@ vi.mock("@/mappers/rabbitmq", () => ({
   },
 }));
 
-vi.mock("../shared", () => ({
-  verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
-  createRabbitMQClient: (...a: unknown[]) => mockCreateRabbitMQClient(...a),
-  createRabbitMQClientFromServer: vi.fn(),
+vi.mock("@/services/audit", () => ({
+  recordAuditLog: vi.fn(),
+  recordFromContext: (...a: unknown[]) => mockRecordFromContext(...a),
+}));
+
+vi.mock("@/services/vhost-clone", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/vhost-clone")>()),
+  runVHostClone: (...a: unknown[]) => mockRunVHostClone(...a),
 }));
 
+vi.mock("../shared", async () => {
+  const { TRPCError } = await import("@trpc/server");
+  return {
+    verifyServerAccess: (...a: unknown[]) => mockVerifyServerAccess(...a),
+    loadServer: async (
+      _ctx: unknown,
+      input: { serverId: string; workspaceId: string }
+    ) => {
+      const server = await mockVerifyServerAccess(
+        input.serverId,
+        input.workspaceId
+      );
+      if (!server) throw new TRPCError({ code: "NOT_FOUND" });
+      return server;
+    },
+    createRabbitMQClient: (...a: unknown[]) => mockCreateRabbitMQClient(...a),
+    createRabbitMQClientFromServer: vi.fn(),
+  };
+});
+
 const { vhostRouter } = await import("../vhost");
 
 // --- Helpers ---
@@ -317,3 +346,108 @@ describe("vhostRouter.deleteVHost (ADMIN only)", () => {
     ).rejects.toMatchObject({ code: "FORBIDDEN" });
   });
 });
+
+describe("vhostRouter.cloneVHost", () => {
+  const OPERATION_ID = "7b1e2f3a-4c5d-4e6f-8a9b-0c1d2e3f4a5b";
+  const input = {
+    serverId: "srv-1",
+    workspaceId: "ws-1",
+    vhostName: "prod",
+    targetServerId: "srv-2",
+    targetVhost: "staging",
+    renameRules: [],
+    excludeUsers: false,
+    operationId: OPERATION_ID,
+  };
+  const ownerPerms = new Set(["definitions:export", "definitions:import"]);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyServerAccess.mockImplementation(async (id: string) => ({
+      ...mockServer,
+      id,
+      name: id === "srv-1" ? "prod-cluster" : "staging-cluster",
+      environment: id === "srv-1" ? "production" : "staging",
+    }));
+    mockRunVHostClone.mockResolvedValue({
+      id: OPERATION_ID,
+      sourceServerId: "srv-1",
+      sourceVhost: "prod",
+      targetServerId: "srv-2",
+      targetVhost: "staging",
+      status: "COMPLETED",
+      steps: [{ step: "vhost", status: "succeeded", count: 1, error: null }],
+      report: { renamed: [], skipped: [], warnings: [] },
+      error: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      finishedAt: new Date(),
+    });
+  });
+
+  it("audits the clone on both servers", async () => {
+    const caller = vhostRouter.createCaller(
+      makeCtx({
+        effectivePermissionsLoader: {
+          load: vi.fn().mockResolvedValue({
+            kind: "builtin",
+            role: "OWNER",
+            permissions: ownerPerms,
+            scopeRows: [],
+          }),
+        },
+      }) as never
+    );
+
+    const result = await caller.cloneVHost(input);
+
+    expect(result.status).toBe("COMPLETED");
+    expect(mockRecordFromContext).toHaveBeenCalledTimes(2);
+    const [source, target] = mockRecordFromContext.mock.calls.map(
+      ([, entry]) => entry
+    );
+    expect(source).toMatchObject({
+      action: "rabbitmq.vhost.cloned",
+      serverId: "srv-1",
+      vhost: "prod",
+      metadata: { role: "source", targetVhost: "staging" },
+    });
+    expect(target).toMatchObject({
+      action: "rabbitmq.vhost.cloned",
+      serverId: "srv-2",
+      vhost: "staging",
+      metadata: { role: "target", sourceVhost: "prod" },
+    });
+  });
+
+  it("refuses a target server outside the caller's import scope", async () => {
+    const caller = vhostRouter.createCaller(
+      makeCtx({
+        effectivePermissionsLoader: {
+          load: vi.fn().mockResolvedValue({
+            kind: "custom",
+            permissions: ownerPerms,
+            scopeRows: [
+              { permissionKey: "definitions:export", scopeJson: null },
+              {
+                permissionKey: "definitions:import",
+                scopeJson: { kind: "server.environment", values: ["dev"] },
+              },
+            ],
+          }),
+        },
+      }) as never
+    );
+
+    await expect(caller.cloneVHost(input)).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(mockRunVHostClone).not.toHaveBeenCalled();
+    const { recordAuditLog } = await import("@/services/audit");
+    expect(recordAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "auth.denial.scope_denied:definitions:import",
+      })
+    );
+  });
+});
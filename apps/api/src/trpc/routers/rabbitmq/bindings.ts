@@ -0,0 +1,207 @@
+import { TRPCError } from "@trpc/server";
+
+import { isQaroteInternalQueue } from "@/core/rabbitmq/internal-queues";
+
+import { recordFromContext } from "@/services/audit";
+
+import {
+  CreateBindingSchema,
+  DeleteBindingSchema,
+  VHostRequiredQuerySchema,
+} from "@/schemas/rabbitmq";
+
+import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { createRabbitMQClient, verifyServerAccess } from "./shared";
+
+import { te } from "@/i18n";
+
+/**
+ * The default exchange implicitly binds every queue by name; RabbitMQ
+ * refuses explicit bind / unbind operations on it.
+ */
+function isDefaultExchange(name: string): boolean {
+  return name === "" || name === "amq.default";
+}
+
+/**
+ * Bindings router
+ * Handles creating and deleting exchange → queue / exchange → exchange
+ * bindings. Listing stays on queues.getQueueBindings and
+ * infrastructure.getExchanges.
+ */
+export const bindingsRouter = router({
+  /**
+   * Bind a queue or exchange to a source exchange (ADMIN ONLY)
+   */
+  create: workspacePermissionProcedure("binding:write", byServerId)
+    .input(CreateBindingSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const {
+        serverId,
+        workspaceId,
+        source,
+        destination,
+        destinationType,
+        routingKey,
+        arguments: bindingArgs,
+        vhost: vhostParam,
+      } = input;
+
+      if (destinationType === "queue" && isQaroteInternalQueue(destination)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.queueNotFound"),
+        });
+      }
+      if (isDefaultExchange(source)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: te(ctx.locale, "rabbitmq.cannotBindDefaultExchange"),
+        });
+      }
+
+      try {
+        // Verify server access
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        // Get vhost from validated input (required for binding operations)
+        const vhost = decodeURIComponent(vhostParam);
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        await client.createBinding(
+          vhost,
+          source,
+          destinationType,
+          destination,
+          routingKey,
+          bindingArgs
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.binding.created",
+          category: "rabbitmq",
+          entityType: "binding",
+          entityId: `${source}->${destination}`,
+          entityLabel: `${source} → ${destination}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            source,
+            destination,
+            destinationType,
+            routingKey,
+            arguments: bindingArgs,
+          },
+        });
+
+        return {
+          success: true,
+          message: `Bound ${destinationType} "${destination}" to exchange "${source}"`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error creating binding ${source} -> ${destination} on server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToCreateBinding"),
+        });
+      }
+    }),
+
+  /**
+   * Remove a binding, identified by its properties_key (ADMIN ONLY)
+   */
+  delete: workspacePermissionProcedure("binding:write", byServerId)
+    .input(DeleteBindingSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const {
+        serverId,
+        workspaceId,
+        source,
+        destination,
+        destinationType,
+        propertiesKey,
+        vhost: vhostParam,
+      } = input;
+
+      if (destinationType === "queue" && isQaroteInternalQueue(destination)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.queueNotFound"),
+        });
+      }
+      if (isDefaultExchange(source)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: te(ctx.locale, "rabbitmq.cannotBindDefaultExchange"),
+        });
+      }
+
+      try {
+        // Verify server access
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        // Get vhost from validated input (required for binding operations)
+        const vhost = decodeURIComponent(vhostParam);
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        await client.deleteBinding(
+          vhost,
+          source,
+          destinationType,
+          destination,
+          propertiesKey
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.binding.deleted",
+          category: "rabbitmq",
+          entityType: "binding",
+          entityId: `${source}->${destination}`,
+          entityLabel: `${source} → ${destination}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: { source, destination, destinationType, propertiesKey },
+        });
+
+        return {
+          success: true,
+          message: `Unbound ${destinationType} "${destination}" from exchange "${source}"`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error deleting binding ${source} -> ${destination} on server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToDeleteBinding"),
+        });
+      }
+    }),
+});
@@ -1,7 +1,19 @@
 import { TRPCError } from "@trpc/server";
-import { z } from "zod";
 
 import {
+  applicableKeys,
+  type DefinitionsDocument,
+  diffDefinitions,
+  selectDefinitions,
+  summarizeDefinitionsDiff,
+} from "@/core/rabbitmq/definitions-diff";
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+
+import { recordFromContext } from "@/services/audit";
+
+import {
+  DefinitionsDocumentSchema,
+  DefinitionsImportSchema,
   ServerWorkspaceInputSchema,
   VHostOptionalQuerySchema,
 } from "@/schemas/rabbitmq";
@@ -12,6 +24,31 @@ import { createRabbitMQClientFromServer, verifyServerAccess } from "./shared";
 
 import { te } from "@/i18n";
 
+/** Cap on item keys written into one import audit entry. */
+const MAX_AUDITED_KEYS = 500;
+
+function parseDocument(definitions: unknown, locale: string) {
+  const parsed = DefinitionsDocumentSchema.safeParse(definitions);
+  if (!parsed.success) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: te(locale, "rabbitmq.invalidDefinitionsDocument"),
+    });
+  }
+  return parsed.data;
+}
+
+async function diffAgainstBroker(
+  client: RabbitMQClient,
+  document: DefinitionsDocument,
+  vhost: string | undefined
+) {
+  const current = DefinitionsDocumentSchema.parse(
+    await client.getDefinitions(vhost)
+  );
+  return diffDefinitions(current, document, vhost);
+}
+
 export const definitionsRouter = router({
   getDefinitions: workspacePermissionProcedure("definitions:export")
     .input(ServerWorkspaceInputSchema.merge(VHostOptionalQuerySchema))
@@ -47,16 +84,18 @@ export const definitionsRouter = router({
       }
     }),
 
-  importDefinitions: workspacePermissionProcedure("definitions:import")
-    .input(
-      ServerWorkspaceInputSchema.merge(VHostOptionalQuerySchema).extend({
-        definitions: z.unknown(),
-      })
-    )
+  /**
+   * Dry run of `importDefinitions`: what the uploaded document would add or
+   * change on the broker, and what the broker has that the document lacks.
+   * A mutation only because the document is too large for a query string.
+   */
+  diff: workspacePermissionProcedure("definitions:import")
+    .input(DefinitionsImportSchema.omit({ selection: true }))
     .mutation(async ({ input, ctx }) => {
       const { serverId, workspaceId, vhost: vhostParam, definitions } = input;
 
       try {
+        const document = parseDocument(definitions, ctx.locale);
         const server = await verifyServerAccess(serverId, workspaceId);
         if (!server) {
           throw new TRPCError({
@@ -67,7 +106,84 @@ export const definitionsRouter = router({
 
         const client = createRabbitMQClientFromServer(server);
         const vhost = vhostParam ? decodeURIComponent(vhostParam) : undefined;
-        await client.uploadDefinitions(definitions, vhost);
+        return await diffAgainstBroker(client, document, vhost);
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId, workspaceId, vhost: vhostParam },
+          "Error diffing RabbitMQ definitions"
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToDiffDefinitions"),
+        });
+      }
+    }),
+
+  /**
+   * Uploads the whole document, or — with `selection` — only the items whose
+   * diff keys were selected. Either way the diff is computed first and
+   * recorded in the audit log.
+   */
+  importDefinitions: workspacePermissionProcedure("definitions:import")
+    .input(DefinitionsImportSchema)
+    .mutation(async ({ input, ctx }) => {
+      const {
+        serverId,
+        workspaceId,
+        vhost: vhostParam,
+        definitions,
+        selection,
+      } = input;
+
+      try {
+        const document = parseDocument(definitions, ctx.locale);
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = createRabbitMQClientFromServer(server);
+        const vhost = vhostParam ? decodeURIComponent(vhostParam) : undefined;
+        const diff = await diffAgainstBroker(client, document, vhost);
+
+        // Only added/changed items are applicable; anything else selected
+        // (unchanged or removed items) would be a no-op upload
+        const applicable = applicableKeys(diff);
+        const applied = selection
+          ? applicable.filter((key) => selection.includes(key))
+          : applicable;
+
+        if (selection) {
+          await client.uploadDefinitions(
+            selectDefinitions(document, new Set(applied), vhost),
+            vhost
+          );
+        } else {
+          await client.uploadDefinitions(definitions, vhost);
+        }
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.definitions.imported",
+          category: "rabbitmq",
+          entityType: "definitions",
+          entityId: server.id,
+          entityLabel: server.name,
+          serverId,
+          vhost: vhost ?? null,
+          metadata: {
+            mode: selection ? "selective" : "full",
+            summary: summarizeDefinitionsDiff(diff),
+            appliedCount: applied.length,
+            applied: applied.slice(0, MAX_AUDITED_KEYS),
+            appliedTruncated: applied.length > MAX_AUDITED_KEYS,
+          },
+        });
       } catch (error) {
         ctx.logger.error(
           { error, serverId, workspaceId, vhost: vhostParam },
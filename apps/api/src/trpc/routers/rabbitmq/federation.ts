@@ -0,0 +1,358 @@
+import { TRPCError } from "@trpc/server";
+import type { z } from "zod";
+
+import { detectPluginCapabilities } from "@/core/rabbitmq/capabilities";
+import type { FederationUpstreamDefinition } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { recordFromContext } from "@/services/audit";
+
+import {
+  CreateFederationUpstreamSchema,
+  FederationUpstreamNameSchema,
+  RestartFederationLinkSchema,
+  ServerWorkspaceInputSchema,
+  VHostOptionalQuerySchema,
+  VHostRequiredQuerySchema,
+} from "@/schemas/rabbitmq";
+
+import { FederationMapper } from "@/mappers/rabbitmq";
+import { redactAmqpUri } from "@/mappers/rabbitmq/uri";
+
+import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { createRabbitMQClient, verifyServerAccess } from "./shared";
+
+import { te } from "@/i18n";
+
+/**
+ * Build the broker-side `federation-upstream` parameter value from
+ * validated input. Only the keys the user set are sent, so broker
+ * defaults still apply.
+ */
+function toUpstreamDefinition(
+  input: z.infer<typeof CreateFederationUpstreamSchema>
+): FederationUpstreamDefinition {
+  return {
+    uri: input.uris,
+    ...(input.exchange ? { exchange: input.exchange } : {}),
+    ...(input.queue ? { queue: input.queue } : {}),
+    ...(input.prefetchCount !== undefined
+      ? { "prefetch-count": input.prefetchCount }
+      : {}),
+    ...(input.reconnectDelay !== undefined
+      ? { "reconnect-delay": input.reconnectDelay }
+      : {}),
+    "ack-mode": input.ackMode,
+    "trust-user-id": input.trustUserId,
+    ...(input.maxHops !== undefined ? { "max-hops": input.maxHops } : {}),
+    ...(input.expires !== undefined ? { expires: input.expires } : {}),
+    ...(input.messageTtl !== undefined
+      ? { "message-ttl": input.messageTtl }
+      : {}),
+  };
+}
+
+/**
+ * Federation router
+ * Handles federation upstreams (rabbitmq_federation) and their links:
+ * list upstreams with link state, status for node views, create/delete
+ * upstreams, restart a link.
+ *
+ * Upstreams only take effect once a policy with `federation-upstream` or
+ * `federation-upstream-set` matches an exchange or queue — that stays on
+ * the policies router.
+ */
+export const federationRouter = router({
+  /**
+   * List federation upstreams, each with its live links (ALL USERS)
+   * Returns an empty list with `pluginEnabled: false` when the plugin is
+   * off, so the page can explain instead of erroring.
+   */
+  list: workspacePermissionProcedure("federation:read")
+    .input(ServerWorkspaceInputSchema.merge(VHostOptionalQuerySchema))
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        const vhost = vhostParam ? decodeURIComponent(vhostParam) : undefined;
+        const capabilities = await detectPluginCapabilities(client);
+
+        if (!capabilities.federation) {
+          return {
+            success: true,
+            pluginEnabled: false,
+            managementEnabled: capabilities.federationManagement,
+            upstreams: [],
+            totalUpstreams: 0,
+          };
+        }
+
+        const [upstreams, links] = await Promise.all([
+          client.getFederationUpstreams(vhost),
+          capabilities.federationManagement
+            ? client.getFederationLinks(vhost)
+            : Promise.resolve([]),
+        ]);
+
+        return {
+          success: true,
+          pluginEnabled: true,
+          managementEnabled: capabilities.federationManagement,
+          upstreams: FederationMapper.toUpstreamResponseArray(upstreams, links),
+          totalUpstreams: upstreams.length,
+        };
+      } catch (error) {
+        ctx.logger.error({ error, serverId }, "Error fetching federation");
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToFetchFederation"),
+        });
+      }
+    }),
+
+  /**
+   * Live federation link state across the cluster, with per-state counts
+   * (ALL USERS). Used by the node views to surface failing links next to
+   * the node they run on.
+   */
+  status: workspacePermissionProcedure("federation:read")
+    .input(ServerWorkspaceInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        const capabilities = await detectPluginCapabilities(client);
+
+        const links = FederationMapper.toLinkResponseArray(
+          capabilities.federationManagement
+            ? await client.getFederationLinks()
+            : []
+        );
+
+        return {
+          success: true,
+          pluginEnabled: capabilities.federation,
+          managementEnabled: capabilities.federationManagement,
+          links,
+          summary: {
+            running: links.filter((l) => l.state === "running").length,
+            starting: links.filter((l) => l.state === "starting").length,
+            terminated: links.filter((l) => l.state === "terminated").length,
+          },
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          "Error fetching federation link status"
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToFetchFederation"),
+        });
+      }
+    }),
+
+  /**
+   * Create (or replace) a federation upstream (ADMIN ONLY)
+   */
+  create: workspacePermissionProcedure("federation:write", byServerId)
+    .input(CreateFederationUpstreamSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam, name } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        const capabilities = await detectPluginCapabilities(client);
+        if (!capabilities.federation) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: te(ctx.locale, "rabbitmq.federationPluginNotEnabled"),
+          });
+        }
+
+        await client.putFederationUpstream(
+          vhost,
+          name,
+          toUpstreamDefinition(input)
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.federation_upstream.created",
+          category: "rabbitmq",
+          entityType: "federation_upstream",
+          entityId: name,
+          entityLabel: `${name}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            uris: input.uris.map(redactAmqpUri),
+            exchange: input.exchange ?? null,
+            queue: input.queue ?? null,
+            ackMode: input.ackMode,
+          },
+        });
+
+        return {
+          success: true,
+          message: `Federation upstream "${name}" saved`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          `Error saving federation upstream "${name}" for server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToSaveFederationUpstream"),
+        });
+      }
+    }),
+
+  /**
+   * Delete a federation upstream (ADMIN ONLY)
+   * Links using it are torn down by the broker.
+   */
+  delete: workspacePermissionProcedure("federation:write", byServerId)
+    .input(FederationUpstreamNameSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam, name } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        await client.deleteFederationUpstream(vhost, name);
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.federation_upstream.deleted",
+          category: "rabbitmq",
+          entityType: "federation_upstream",
+          entityId: name,
+          entityLabel: `${name}@${vhost}`,
+          serverId,
+          vhost,
+        });
+
+        return {
+          success: true,
+          message: `Federation upstream "${name}" deleted`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          `Error deleting federation upstream "${name}" for server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToDeleteFederationUpstream"),
+        });
+      }
+    }),
+
+  /**
+   * Restart a single federation link on the node running it (ADMIN ONLY)
+   */
+  restart: workspacePermissionProcedure("federation:write", byServerId)
+    .input(RestartFederationLinkSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam, linkId, node } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        const capabilities = await detectPluginCapabilities(client);
+        if (!capabilities.federationManagement) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: te(ctx.locale, "rabbitmq.federationManagementNotEnabled"),
+          });
+        }
+
+        await client.restartFederationLink(vhost, linkId, node);
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.federation_link.restarted",
+          category: "rabbitmq",
+          entityType: "federation_link",
+          entityId: linkId,
+          entityLabel: `${linkId}@${node}`,
+          serverId,
+          vhost,
+          metadata: { node },
+        });
+
+        return {
+          success: true,
+          message: `Federation link "${linkId}" restarted`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          `Error restarting federation link "${linkId}" for server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToRestartFederationLink"),
+        });
+      }
+    }),
+});
@@ -1,14 +1,18 @@
 import { router } from "@/trpc/trpc";
 
+import { bindingsRouter } from "./bindings";
 import { definitionsRouter } from "./definitions";
+import { federationRouter } from "./federation";
 import { infrastructureRouter } from "./infrastructure";
 import { memoryRouter } from "./memory";
 import { messagesRouter } from "./messages";
 import { metricsRouter } from "./metrics";
 import { overviewRouter } from "./overview";
 import { policiesRouter } from "./policies";
+import { queueTemplatesRouter } from "./queue-templates";
 import { queuesRouter } from "./queues";
 import { serverRouter } from "./server";
+import { shovelsRouter } from "./shovels";
 import { usersRouter } from "./users";
 import { vhostRouter } from "./vhost";
 
@@ -19,6 +23,7 @@ import { vhostRouter } from "./vhost";
  */
 export const rabbitmqRouter = router({
   queues: queuesRouter,
+  queueTemplates: queueTemplatesRouter,
   overview: overviewRouter,
   infrastructure: infrastructureRouter,
   metrics: metricsRouter,
@@ -29,4 +34,7 @@ export const rabbitmqRouter = router({
   users: usersRouter,
   policies: policiesRouter,
   definitions: definitionsRouter,
+  bindings: bindingsRouter,
+  shovels: shovelsRouter,
+  federation: federationRouter,
 });
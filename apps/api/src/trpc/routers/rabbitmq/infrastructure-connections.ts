@@ -0,0 +1,280 @@
+import { TRPCError } from "@trpc/server";
+
+import { isQaroteInternalConnection } from "@/core/rabbitmq/internal-connections";
+import type {
+  RabbitMQChannel,
+  RabbitMQConnection,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  clientConnectionName,
+  closeConnections,
+  type ConnectionCloseErrorCode,
+  type ConnectionCloseTarget,
+  MAX_BULK_CONNECTIONS,
+  resolveConnectionTarget,
+} from "@/services/connection-close";
+
+import {
+  CloseConnectionSchema,
+  CloseConnectionsSchema,
+  PreviewCloseConnectionsSchema,
+  ServerWorkspaceWithConnectionNameSchema,
+} from "@/schemas/rabbitmq";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import { byServerId, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { createRabbitMQClientFromServer, type Ctx, loadServer } from "./shared";
+
+import { te } from "@/i18n";
+
+/**
+ * Per-connection detail and closing connections, spread into the
+ * infrastructure router.
+ *
+ * Closing is how an operator gets rid of a runaway client — one leaking
+ * channels or sitting on unacked deliveries. The broker hands the reason
+ * to the client in the connection.close frame. Bulk close follows the
+ * bulk queue flow: preview the target, then close exactly what was shown.
+ * Qarote's own connections are never closed.
+ */
+
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof Error && /RabbitMQ API error:\s*404/.test(error.message)
+  );
+}
+
+const CONNECTION_ERRORS = {
+  params: () => ({ limit: MAX_BULK_CONNECTIONS }),
+} satisfies CodedErrorMapping<ConnectionCloseErrorCode>;
+
+/** A broker 404 means the connection is already gone. */
+function mapConnectionError(
+  ctx: Ctx,
+  error: unknown,
+  fallbackKey: string
+): never {
+  if (isNotFound(error)) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: te(ctx.locale, "rabbitmq.connectionNotFound"),
+    });
+  }
+  throwAsTRPCError(ctx, error, fallbackKey, CONNECTION_ERRORS);
+}
+
+function toConnectionSummary(connection: RabbitMQConnection) {
+  return {
+    name: connection.name,
+    clientName: clientConnectionName(connection),
+    user: connection.user,
+    vhost: connection.vhost,
+    peerHost: connection.peer_host ?? null,
+    channels: connection.channels,
+    state: connection.state,
+  };
+}
+
+function toChannelDetail(channel: RabbitMQChannel) {
+  return {
+    name: channel.name,
+    number: channel.number,
+    state: channel.state,
+    prefetchCount: channel.prefetch_count,
+    globalPrefetchCount: channel.global_prefetch_count ?? null,
+    consumerCount: channel.consumer_count,
+    messagesUnacknowledged: channel.messages_unacknowledged,
+    messagesUnconfirmed: channel.messages_unconfirmed,
+    confirm: channel.confirm ?? null,
+    transactional: channel.transactional ?? null,
+    idleSince: channel.idle_since ?? null,
+  };
+}
+
+async function resolveTarget(
+  server: Awaited<ReturnType<typeof loadServer>>,
+  target: ConnectionCloseTarget
+) {
+  const client = createRabbitMQClientFromServer(server);
+  return resolveConnectionTarget(await client.getConnections(), target);
+}
+
+export const connectionProcedures = {
+  /**
+   * One connection with its client properties and channels — per-channel
+   * prefetch and unacked counts are what point at a leaking consumer.
+   */
+  getConnection: workspacePermissionProcedure("broker:connections:read")
+    .input(ServerWorkspaceWithConnectionNameSchema)
+    .query(async ({ input, ctx }) => {
+      const { serverId, connectionName } = input;
+
+      try {
+        const server = await loadServer(ctx, input);
+        const client = createRabbitMQClientFromServer(server);
+        const [connection, channels] = await Promise.all([
+          client.getConnection(connectionName),
+          client.getConnectionChannels(connectionName),
+        ]);
+
+        return {
+          connection: {
+            ...connection,
+            clientName: clientConnectionName(connection),
+            internal: isQaroteInternalConnection(connection),
+          },
+          channels: channels
+            .map(toChannelDetail)
+            .sort((a, b) => a.number - b.number),
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, connectionName },
+          `Error fetching connection for server ${serverId}`
+        );
+        mapConnectionError(ctx, error, "rabbitmq.failedToFetchConnection");
+      }
+    }),
+
+  /**
+   * Close one connection (ADMIN ONLY). Every channel on it goes with it and
+   * its unacked deliveries are requeued.
+   */
+  closeConnection: workspacePermissionProcedure(
+    "broker:connections:close",
+    byServerId
+  )
+    .input(CloseConnectionSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, connectionName, reason } = input;
+
+      try {
+        const server = await loadServer(ctx, input);
+        const client = createRabbitMQClientFromServer(server);
+        const connection = await client.getConnection(connectionName);
+        if (isQaroteInternalConnection(connection)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: te(ctx.locale, "rabbitmq.connectionCloseInternal"),
+          });
+        }
+
+        await client.closeConnection(connectionName, reason);
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.connection.closed",
+          category: "rabbitmq",
+          entityType: "connection",
+          entityId: connectionName,
+          entityLabel: clientConnectionName(connection) ?? connectionName,
+          serverId,
+          vhost: connection.vhost,
+          metadata: {
+            reason: reason ?? null,
+            user: connection.user,
+            peerHost: connection.peer_host ?? null,
+          },
+        });
+
+        return { success: true };
+      } catch (error) {
+        ctx.logger.error(
+          { error, connectionName },
+          `Error closing connection on server ${serverId}`
+        );
+        mapConnectionError(ctx, error, "rabbitmq.failedToCloseConnection");
+      }
+    }),
+
+  /**
+   * Resolve a bulk close target without touching anything. The UI shows
+   * this list and closes exactly it.
+   */
+  previewCloseConnections: workspacePermissionProcedure(
+    "broker:connections:read",
+    byServerId
+  )
+    .input(PreviewCloseConnectionsSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const server = await loadServer(ctx, input);
+        const resolved = await resolveTarget(server, input.target);
+        return {
+          matched: resolved.matched.map(toConnectionSummary),
+          notFound: resolved.notFound,
+          skippedInternal: resolved.skippedInternal,
+          limit: MAX_BULK_CONNECTIONS,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error previewing connection close on server ${input.serverId}`
+        );
+        mapConnectionError(
+          ctx,
+          error,
+          "rabbitmq.failedToPreviewConnectionClose"
+        );
+      }
+    }),
+
+  /**
+   * Close every targeted connection (ADMIN ONLY). The target is resolved
+   * again here — connections come and go between preview and execution.
+   */
+  closeConnections: workspacePermissionProcedure(
+    "broker:connections:close",
+    byServerId
+  )
+    .input(CloseConnectionsSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, target, reason } = input;
+
+      try {
+        const server = await loadServer(ctx, input);
+        const resolved = await resolveTarget(server, target);
+        const byName = new Map(resolved.matched.map((c) => [c.name, c]));
+        const client = createRabbitMQClientFromServer(server);
+
+        const outcome = await closeConnections(
+          client,
+          [...byName.keys()],
+          reason,
+          (name) => {
+            const connection = byName.get(name)!;
+            void recordFromContext(ctx, {
+              action: "rabbitmq.connection.closed",
+              category: "rabbitmq",
+              entityType: "connection",
+              entityId: name,
+              entityLabel: clientConnectionName(connection) ?? name,
+              serverId,
+              vhost: connection.vhost,
+              metadata: {
+                reason: reason ?? null,
+                user: connection.user,
+                peerHost: connection.peer_host ?? null,
+                bulk: true,
+              },
+            });
+          }
+        );
+
+        return {
+          closed: outcome.closed,
+          failed: outcome.failed,
+          notFound: resolved.notFound,
+          skippedInternal: resolved.skippedInternal,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error closing connections on server ${serverId}`
+        );
+        mapConnectionError(ctx, error, "rabbitmq.failedToCloseConnection");
+      }
+    }),
+};
@@ -1,5 +1,7 @@
 import { TRPCError } from "@trpc/server";
 
+import { summarizeLeaderDistribution } from "@/core/rabbitmq/leader-distribution";
+
 import { recordFromContext } from "@/services/audit";
 
 import {
@@ -14,13 +16,15 @@ import { BindingMapper, ExchangeMapper, NodeMapper } from "@/mappers/rabbitmq";
 
 import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
 
+import { connectionProcedures } from "./infrastructure-connections";
 import { createRabbitMQClient, verifyServerAccess } from "./shared";
 
 import { te } from "@/i18n";
 
 /**
  * Infrastructure router
- * Handles RabbitMQ infrastructure operations (nodes, connections, channels, exchanges)
+ * Handles RabbitMQ infrastructure operations (nodes, leader placement,
+ * connections, channels, exchanges)
  */
 export const infrastructureRouter = router({
   /**
@@ -78,6 +82,105 @@ export const infrastructureRouter = router({
       }
     }),
 
+  /**
+   * Quorum queue and stream leaders per node, with skew and replicas that
+   * are not online (ALL USERS)
+   */
+  getLeaderDistribution: workspacePermissionProcedure("broker:read")
+    .input(ServerWorkspaceInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        const [queues, nodes] = await Promise.all([
+          client.getQueues(),
+          client.getNodes(),
+        ]);
+
+        return summarizeLeaderDistribution(queues, nodes);
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          "Error fetching leader distribution for server"
+        );
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToFetchLeaderDistribution"),
+        });
+      }
+    }),
+
+  /**
+   * Ask the broker to spread quorum queue and stream leaders evenly across
+   * running nodes (ADMIN ONLY). Returns once the broker has accepted the
+   * request; leaders move in the background.
+   */
+  rebalanceLeaders: workspacePermissionProcedure("broker:update", byServerId)
+    .input(ServerWorkspaceInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        const [queues, nodes] = await Promise.all([
+          client.getQueues(),
+          client.getNodes(),
+        ]);
+        const before = summarizeLeaderDistribution(queues, nodes);
+
+        await client.rebalanceQueues();
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.cluster.leaders_rebalanced",
+          category: "rabbitmq",
+          entityType: "cluster",
+          entityId: serverId,
+          entityLabel: server.name,
+          serverId,
+          metadata: {
+            skewBefore: Number(before.skew.toFixed(2)),
+            busiestNode: before.busiestNode,
+            totalLeaders: before.totalLeaders,
+          },
+        });
+
+        return { success: true, before };
+      } catch (error) {
+        ctx.logger.error({ error, serverId }, "Error rebalancing leaders");
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToRebalanceLeaders"),
+        });
+      }
+    }),
+
   /**
    * Get all connections for a specific server (ALL USERS)
    */
@@ -127,6 +230,8 @@ export const infrastructureRouter = router({
       }
     }),
 
+  ...connectionProcedures,
+
   /**
    * Get all channels for a specific server (ALL USERS)
    */
@@ -1,21 +1,169 @@
 import { TRPCError } from "@trpc/server";
 
-import type { MessageProperties } from "@/core/rabbitmq/rabbitmq.interfaces";
+import { isQaroteInternalQueue } from "@/core/rabbitmq/internal-queues";
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+import type {
+  MessageProperties,
+  RabbitMQMessage,
+} from "@/core/rabbitmq/rabbitmq.interfaces";
+import { AckMode } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { recordFromContext } from "@/services/audit";
 
 import {
+  BrowseMessagesSchema,
+  MoveMessagesSchema,
   PublishMessageWithQueueSchema,
+  RequeueFromDlqSchema,
   VHostRequiredQuerySchema,
 } from "@/schemas/rabbitmq";
 
+import { MessageMapper } from "@/mappers/rabbitmq";
+
 import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
 
 import { createRabbitMQClient, verifyServerAccess } from "./shared";
 
 import { te } from "@/i18n";
 
+/** Messages fetched per Management API `/get` call while draining a queue. */
+const TRANSFER_BATCH_SIZE = 100;
+
+interface TransferTarget {
+  exchange: string;
+  routingKey: string;
+}
+
+interface TransferResult {
+  /** Republished to their target. */
+  transferred: number;
+  /** No target could be resolved; put back on the source queue. */
+  skipped: number;
+  /** Target publish failed or was unroutable; put back on the source queue. */
+  failed: number;
+  /** Could not be put back on the source queue either — gone from the broker. */
+  lost: number;
+}
+
+/**
+ * Drain up to `limit` messages from `sourceQueue` and republish each one to
+ * the target chosen by `resolveTarget`.
+ *
+ * The Management API has no transactional move: messages are fetched with
+ * `ack_requeue_false` and then republished (payload as base64, so binary
+ * bodies survive byte-for-byte). Anything that cannot be delivered goes back
+ * to the tail of the source queue through the default exchange. The budget is
+ * capped at the queue's ready count so requeued leftovers are not picked up
+ * twice.
+ */
+async function transferMessages(
+  client: RabbitMQClient,
+  vhost: string,
+  sourceQueue: string,
+  limit: number,
+  resolveTarget: (message: RabbitMQMessage) => TransferTarget | null,
+  logger: { error: (obj: object, msg: string) => void }
+): Promise<TransferResult> {
+  const result: TransferResult = {
+    transferred: 0,
+    skipped: 0,
+    failed: 0,
+    lost: 0,
+  };
+
+  const queue = await client.getQueue(sourceQueue, vhost);
+  const budget = Math.min(limit, queue.messages_ready ?? 0);
+
+  const putBack = async (message: RabbitMQMessage) => {
+    try {
+      const { routed } = await client.publishMessage(
+        "",
+        sourceQueue,
+        vhost,
+        message.payload,
+        message.properties,
+        "base64"
+      );
+      if (routed) return true;
+    } catch (error) {
+      logger.error({ error }, `Failed to return message to ${sourceQueue}`);
+    }
+    return false;
+  };
+
+  let processed = 0;
+  while (processed < budget) {
+    const batch = await client.getMessages(
+      sourceQueue,
+      vhost,
+      Math.min(TRANSFER_BATCH_SIZE, budget - processed),
+      { ackMode: AckMode.ACK_REQUEUE_FALSE, encoding: "base64" }
+    );
+    if (batch.length === 0) break;
+
+    let batchTransferred = 0;
+    let batchFailed = 0;
+    for (const message of batch) {
+      processed++;
+      const target = resolveTarget(message);
+      if (target) {
+        try {
+          const { routed } = await client.publishMessage(
+            target.exchange,
+            target.routingKey,
+            vhost,
+            message.payload,
+            message.properties,
+            "base64"
+          );
+          if (routed) {
+            batchTransferred++;
+            continue;
+          }
+        } catch (error) {
+          logger.error(
+            { error },
+            `Failed to republish message from ${sourceQueue}`
+          );
+        }
+        batchFailed++;
+      } else {
+        result.skipped++;
+      }
+      if (!(await putBack(message))) result.lost++;
+    }
+
+    result.transferred += batchTransferred;
+    result.failed += batchFailed;
+    // A whole batch that bounced means the target is unroutable — stop
+    // rather than cycling every message through the source queue.
+    if (batchTransferred === 0 && batchFailed > 0) break;
+  }
+
+  return result;
+}
+
+/**
+ * Origin queue of a dead-lettered message: the most recent `x-death` entry,
+ * falling back to `x-first-death-queue` for brokers that only set the latter.
+ */
+function resolveDeadLetterOrigin(properties: MessageProperties): string | null {
+  const headers = properties.headers ?? {};
+  const xDeath = headers["x-death"];
+  if (Array.isArray(xDeath) && xDeath.length > 0) {
+    const queue = (xDeath[0] as Record<string, unknown>)?.queue;
+    if (typeof queue === "string" && queue) return queue;
+  }
+  const firstDeathQueue = headers["x-first-death-queue"];
+  if (typeof firstDeathQueue === "string" && firstDeathQueue) {
+    return firstDeathQueue;
+  }
+  return null;
+}
+
 /**
  * Messages router
- * Handles RabbitMQ message publishing operations
+ * Handles RabbitMQ message publishing, browsing and moving operations
  */
 export const messagesRouter = router({
   /**
@@ -177,4 +325,292 @@ export const messagesRouter = router({
         });
       }
     }),
+
+  /**
+   * Peek at messages in a queue (ADMIN ONLY - payloads may contain PII).
+   * Messages are always requeued; destructive ack modes are only reachable
+   * through moveMessages / requeueFromDlq. A mutation: every peek marks the
+   * messages redelivered on the broker and is audited.
+   */
+  browse: workspacePermissionProcedure("message:browse")
+    .input(BrowseMessagesSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const {
+        serverId,
+        workspaceId,
+        queueName,
+        count,
+        ackMode,
+        encoding,
+        truncate,
+        vhost: vhostParam,
+      } = input;
+      if (isQaroteInternalQueue(queueName)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.queueNotFound"),
+        });
+      }
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        // The Management API only knows "auto" and "base64"; "string" is a
+        // forced UTF-8 decode of the raw bytes done here.
+        const messages = await client.getMessages(queueName, vhost, count, {
+          ackMode:
+            ackMode === "reject_requeue"
+              ? AckMode.REJECT_REQUEUE_TRUE
+              : AckMode.ACK_REQUEUE_TRUE,
+          encoding: encoding === "auto" ? "auto" : "base64",
+          truncate,
+        });
+        const browsed = messages.map((message) => {
+          const bytes = Buffer.from(
+            message.payload,
+            message.payload_encoding === "base64" ? "base64" : "utf8"
+          );
+          // `payload_bytes` is always the full body size, so fewer bytes
+          // means the broker applied the `truncate` limit. Measured before
+          // the decode: a character cut in half decodes to a 3-byte U+FFFD.
+          const truncated = bytes.length < message.payload_bytes;
+          return encoding === "string"
+            ? {
+                ...message,
+                payload: bytes.toString("utf8"),
+                payload_encoding: "string",
+                truncated,
+              }
+            : { ...message, truncated };
+        });
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.messages.browsed",
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: queueName,
+          entityLabel: `${queueName}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: { count, returned: messages.length, ackMode },
+        });
+
+        return {
+          messages: MessageMapper.toApiResponseArray(browsed),
+          totalReturned: messages.length,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error browsing messages in queue ${queueName} on server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToBrowseMessages"),
+        });
+      }
+    }),
+
+  /**
+   * Move up to `count` messages from a queue to another exchange / routing
+   * key (ADMIN ONLY - consumes messages from the source queue)
+   */
+  moveMessages: workspacePermissionProcedure("message:move", byServerId)
+    .input(MoveMessagesSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const {
+        serverId,
+        workspaceId,
+        queueName,
+        targetExchange,
+        targetRoutingKey,
+        count,
+        vhost: vhostParam,
+      } = input;
+      if (
+        isQaroteInternalQueue(queueName) ||
+        (targetExchange === "" && isQaroteInternalQueue(targetRoutingKey))
+      ) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.queueNotFound"),
+        });
+      }
+      if (targetExchange === "" && targetRoutingKey === queueName) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: te(ctx.locale, "rabbitmq.moveTargetIsSource"),
+        });
+      }
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        const result = await transferMessages(
+          client,
+          vhost,
+          queueName,
+          count,
+          () => ({ exchange: targetExchange, routingKey: targetRoutingKey }),
+          ctx.logger
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.messages.moved",
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: queueName,
+          entityLabel: `${queueName}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            targetExchange,
+            targetRoutingKey,
+            requested: count,
+            moved: result.transferred,
+            failed: result.failed,
+            lost: result.lost,
+          },
+        });
+
+        return {
+          success: result.failed === 0 && result.lost === 0,
+          moved: result.transferred,
+          failed: result.failed,
+          lost: result.lost,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error moving messages from queue ${queueName} on server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToMoveMessages"),
+        });
+      }
+    }),
+
+  /**
+   * Send dead-lettered messages back to the queue they died in, read from
+   * their `x-death` headers (ADMIN ONLY - consumes messages from the DLQ).
+   * Messages are published to the origin queue through the default exchange
+   * so fanout/topic bindings are not re-triggered.
+   */
+  requeueFromDlq: workspacePermissionProcedure("message:move", byServerId)
+    .input(RequeueFromDlqSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const {
+        serverId,
+        workspaceId,
+        queueName,
+        count,
+        vhost: vhostParam,
+      } = input;
+      if (isQaroteInternalQueue(queueName)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.queueNotFound"),
+        });
+      }
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        const result = await transferMessages(
+          client,
+          vhost,
+          queueName,
+          count,
+          (message) => {
+            const origin = resolveDeadLetterOrigin(message.properties ?? {});
+            if (
+              !origin ||
+              origin === queueName ||
+              isQaroteInternalQueue(origin)
+            ) {
+              return null;
+            }
+            return { exchange: "", routingKey: origin };
+          },
+          ctx.logger
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.messages.requeued",
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: queueName,
+          entityLabel: `${queueName}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            requested: count,
+            requeued: result.transferred,
+            skipped: result.skipped,
+            failed: result.failed,
+            lost: result.lost,
+          },
+        });
+
+        return {
+          success: result.failed === 0 && result.lost === 0,
+          requeued: result.transferred,
+          skipped: result.skipped,
+          failed: result.failed,
+          lost: result.lost,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error requeueing messages from ${queueName} on server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToRequeueMessages"),
+        });
+      }
+    }),
 });
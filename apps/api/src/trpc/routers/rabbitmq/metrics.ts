@@ -3,7 +3,7 @@ import { z } from "zod/v4";
 
 import { prisma } from "@/core/prisma";
 import { RabbitMQMetricsCalculator } from "@/core/rabbitmq/MetricsCalculator";
-import { abortableSleep } from "@/core/utils";
+import { brokerPollHub } from "@/core/rabbitmq/poll-hub";
 
 import { resolveAllowedRange } from "@/services/metrics/resolve-allowed-range";
 
@@ -306,7 +306,8 @@ export const metricsRouter = router({
 
   /**
    * Live system metrics stream — SSE subscription replacing 15s polling (ALL USERS)
-   * Fetches CPU/memory/disk metrics from RabbitMQ every 10s.
+   * CPU/memory/disk metrics, polled from RabbitMQ every 10s through the
+   * shared broker poll hub.
    */
   watchMetrics: workspacePermissionProcedure("metric:read")
     .input(ServerWorkspaceInputSchema)
@@ -327,68 +328,43 @@ export const metricsRouter = router({
           message: te(ctx.locale, "rabbitmq.subscriptionRequiresAbortSignal"),
         });
       }
-      const sig = signal;
-      type MappedOverview = ReturnType<typeof OverviewMapper.toApiResponse>;
-      type MappedNodes = ReturnType<typeof NodeMapper.toApiResponseArray>;
-      let lastMappedOverview: MappedOverview | undefined;
-      let lastMappedNodes: MappedNodes | undefined;
-      let lastEnhancedMetrics:
-        | Awaited<
-            ReturnType<
-              ReturnType<typeof createRabbitMQClientFromServer>["getMetrics"]
-            >
-          >
-        | undefined;
-
-      while (!sig.aborted) {
-        try {
+      const source = {
+        intervalMs: 10000,
+        fetch: async () => {
           const client = createRabbitMQClientFromServer(server);
           const enhancedMetrics = await client.getMetrics();
-          const mappedNodes = NodeMapper.toApiResponseArray(
-            enhancedMetrics.nodes
-          );
-          const mappedOverview = OverviewMapper.toApiResponse(
-            enhancedMetrics.overview
-          );
-
-          lastEnhancedMetrics = enhancedMetrics;
-          lastMappedOverview = mappedOverview;
-          lastMappedNodes = mappedNodes;
+          return {
+            ...enhancedMetrics,
+            overview: OverviewMapper.toApiResponse(enhancedMetrics.overview),
+            nodes: NodeMapper.toApiResponseArray(enhancedMetrics.nodes),
+          };
+        },
+      };
 
+      // One broker poll per server, shared by every open dashboard
+      for await (const result of brokerPollHub.subscribe(
+        `${serverId}:metrics`,
+        source,
+        signal
+      )) {
+        if (result.ok) {
+          yield { metrics: result.value };
+        } else if (
+          result.error instanceof Error &&
+          result.error.message.includes("401")
+        ) {
           yield {
-            metrics: {
-              ...enhancedMetrics,
-              overview: mappedOverview,
-              nodes: mappedNodes,
+            metrics: null,
+            permissionStatus: {
+              hasPermission: false,
+              requiredPermission: "monitor",
+              message:
+                "User does not have 'monitor' permissions to view metrics data. Please contact your RabbitMQ administrator to grant the necessary permissions.",
             },
           };
-        } catch (err) {
-          if (err instanceof Error && err.message.includes("401")) {
-            yield {
-              metrics: null,
-              permissionStatus: {
-                hasPermission: false,
-                requiredPermission: "monitor",
-                message:
-                  "User does not have 'monitor' permissions to view metrics data. Please contact your RabbitMQ administrator to grant the necessary permissions.",
-              },
-            };
-          } else {
-            ctx.logger.warn({ err, serverId }, "watchMetrics fetch error");
-            if (lastEnhancedMetrics && lastMappedOverview && lastMappedNodes) {
-              yield {
-                metrics: {
-                  ...lastEnhancedMetrics,
-                  overview: lastMappedOverview,
-                  nodes: lastMappedNodes,
-                },
-                stale: true,
-              };
-            }
-          }
+        } else if (result.lastValue) {
+          yield { metrics: result.lastValue, stale: true };
         }
-
-        await abortableSleep(10000, sig);
       }
     }),
 
@@ -539,7 +515,8 @@ export const metricsRouter = router({
 
   /**
    * Live message rates stream — SSE subscription replacing 4s polling (ALL USERS)
-   * Fetches message rates from RabbitMQ every 4s.
+   * Message rates, polled from RabbitMQ every 4s through the shared broker
+   * poll hub.
    */
   watchRates: workspacePermissionProcedure("metric:read")
     .input(GetMetricsSchema)
@@ -560,82 +537,71 @@ export const metricsRouter = router({
           message: te(ctx.locale, "rabbitmq.subscriptionRequiresAbortSignal"),
         });
       }
-      const sig = signal;
-      let lastRatesPayload:
-        | {
-            messagesRates: ReturnType<
-              typeof RabbitMQMetricsCalculator.extractMessageRates
-            >;
-            queueTotals: ReturnType<
-              typeof RabbitMQMetricsCalculator.extractQueueTotals
-            >;
-            ratesMode: ReturnType<
-              typeof RabbitMQMetricsCalculator.detectRatesMode
-            >;
-          }
-        | undefined;
-
-      while (!sig.aborted) {
-        try {
+      const source = {
+        intervalMs: 4000,
+        fetch: async () => {
           const client = createRabbitMQClientFromServer(server);
-          const timeConfig = timeRangeConfigs[timeRange];
-          const overview = await client.getOverviewWithTimeRange(timeConfig);
-          const messagesRates = RabbitMQMetricsCalculator.extractMessageRates(
-            overview,
-            { disk: true }
+          const overview = await client.getOverviewWithTimeRange(
+            timeRangeConfigs[timeRange]
           );
-          const queueTotals =
-            RabbitMQMetricsCalculator.extractQueueTotals(overview);
-          const ratesMode = RabbitMQMetricsCalculator.detectRatesMode(overview);
-
-          lastRatesPayload = { messagesRates, queueTotals, ratesMode };
+          return {
+            messagesRates: RabbitMQMetricsCalculator.extractMessageRates(
+              overview,
+              { disk: true }
+            ),
+            queueTotals: RabbitMQMetricsCalculator.extractQueueTotals(overview),
+            ratesMode: RabbitMQMetricsCalculator.detectRatesMode(overview),
+          };
+        },
+      };
 
+      // Shared per server and time range — the range changes the broker query
+      for await (const result of brokerPollHub.subscribe(
+        `${serverId}:rates:${timeRange}`,
+        source,
+        signal
+      )) {
+        if (result.ok) {
           yield {
             serverId,
             timeRange,
             dataSource: "live_rates_with_time_range",
+            timestamp: result.fetchedAt.toISOString(),
+            ...result.value,
+          };
+        } else if (
+          result.error instanceof Error &&
+          result.error.message.includes("401")
+        ) {
+          yield {
+            serverId,
+            timeRange,
+            dataSource: "permission_denied",
             timestamp: new Date().toISOString(),
-            messagesRates,
-            queueTotals,
-            ratesMode,
+            messagesRates: [],
+            ratesMode: "none" as const,
+            permissionStatus: {
+              hasPermission: false,
+              requiredPermission: "monitor",
+              message:
+                "User does not have 'monitor' permissions to view metrics data. Please contact your RabbitMQ administrator to grant the necessary permissions.",
+            },
+            metadata: {
+              plan: null,
+              updateInterval: "real-time",
+              dataPoints: 0,
+            },
+          };
+        } else if (result.lastValue) {
+          yield {
+            serverId,
+            timeRange,
+            dataSource: "stale_rates",
+            timestamp: new Date().toISOString(),
+            ...result.lastValue,
+            stale: true,
           };
-        } catch (err) {
-          if (err instanceof Error && err.message.includes("401")) {
-            yield {
-              serverId,
-              timeRange,
-              dataSource: "permission_denied",
-              timestamp: new Date().toISOString(),
-              messagesRates: [],
-              ratesMode: "none" as const,
-              permissionStatus: {
-                hasPermission: false,
-                requiredPermission: "monitor",
-                message:
-                  "User does not have 'monitor' permissions to view metrics data. Please contact your RabbitMQ administrator to grant the necessary permissions.",
-              },
-              metadata: {
-                plan: null,
-                updateInterval: "real-time",
-                dataPoints: 0,
-              },
-            };
-          } else {
-            ctx.logger.warn({ err, serverId }, "watchRates fetch error");
-            if (lastRatesPayload) {
-              yield {
-                serverId,
-                timeRange,
-                dataSource: "stale_rates",
-                timestamp: new Date().toISOString(),
-                ...lastRatesPayload,
-                stale: true,
-              };
-            }
-          }
         }
-
-        await abortableSleep(4000, sig);
       }
     }),
 });
@@ -0,0 +1,227 @@
+import { TRPCError } from "@trpc/server";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  archiveQueueTemplate,
+  checkTemplateDrift,
+  createQueueTemplate,
+  getQueueTemplate,
+  listQueueTemplates,
+  publishQueueTemplateVersion,
+  type QueueTemplateErrorCode,
+  serializeQueueTemplate,
+} from "@/services/queue-template";
+
+import {
+  CheckTemplateDriftSchema,
+  CreateQueueTemplateSchema,
+  ListQueueTemplatesSchema,
+  PublishQueueTemplateVersionSchema,
+  QueueTemplateIdSchema,
+} from "@/schemas/rabbitmq";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { createRabbitMQClientFromServer, verifyServerAccess } from "./shared";
+
+import { te } from "@/i18n";
+
+export const QUEUE_TEMPLATE_ERRORS = {
+  status: { templateNotFound: "NOT_FOUND", templateNameTaken: "CONFLICT" },
+} satisfies CodedErrorMapping<QueueTemplateErrorCode>;
+
+/**
+ * Queue templates router
+ * Workspace-level declaration conventions (queue type, arguments,
+ * dead-letter topology, policy) and the drift check against a server.
+ * Declaring a queue from a template goes through `queues.createQueue`.
+ */
+export const queueTemplatesRouter = router({
+  /** Active templates with their latest version (ALL USERS) */
+  listTemplates: workspacePermissionProcedure("queue_template:read")
+    .input(ListQueueTemplatesSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const templates = await listQueueTemplates(input.workspaceId, {
+          includeArchived: input.includeArchived,
+        });
+        return { templates: templates.map(serializeQueueTemplate) };
+      } catch (error) {
+        ctx.logger.error({ error }, "Error listing queue templates");
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToFetchTemplates",
+          QUEUE_TEMPLATE_ERRORS
+        );
+      }
+    }),
+
+  /** One template with its full version history (ALL USERS) */
+  getTemplate: workspacePermissionProcedure("queue_template:read")
+    .input(QueueTemplateIdSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const template = await getQueueTemplate(
+          input.templateId,
+          input.workspaceId
+        );
+        return { template: serializeQueueTemplate(template) };
+      } catch (error) {
+        ctx.logger.error({ error }, "Error fetching queue template");
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToFetchTemplates",
+          QUEUE_TEMPLATE_ERRORS
+        );
+      }
+    }),
+
+  /** Create a template at version 1 (ADMIN ONLY) */
+  createTemplate: workspacePermissionProcedure("queue_template:write")
+    .input(CreateQueueTemplateSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const template = await createQueueTemplate(
+          input.workspaceId,
+          {
+            name: input.name,
+            description: input.description,
+            spec: input.spec,
+          },
+          ctx.user.id
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.queue_template.created",
+          category: "rabbitmq",
+          entityType: "queue_template",
+          entityId: template.id,
+          entityLabel: template.name,
+          metadata: { version: 1, queueType: input.spec.queueType },
+        });
+
+        return { template: serializeQueueTemplate(template) };
+      } catch (error) {
+        ctx.logger.error({ error }, "Error creating queue template");
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToSaveTemplate",
+          QUEUE_TEMPLATE_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Publish a new version (ADMIN ONLY). Existing queues keep the version
+   * they were declared with; the drift check shows how far behind they are.
+   */
+  publishVersion: workspacePermissionProcedure("queue_template:write")
+    .input(PublishQueueTemplateVersionSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const template = await publishQueueTemplateVersion(
+          input.templateId,
+          input.workspaceId,
+          { description: input.description, spec: input.spec },
+          ctx.user.id
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.queue_template.version_published",
+          category: "rabbitmq",
+          entityType: "queue_template",
+          entityId: template.id,
+          entityLabel: template.name,
+          metadata: {
+            version: template.latestVersion,
+            queueType: input.spec.queueType,
+          },
+        });
+
+        return { template: serializeQueueTemplate(template) };
+      } catch (error) {
+        ctx.logger.error({ error }, "Error publishing queue template version");
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToSaveTemplate",
+          QUEUE_TEMPLATE_ERRORS
+        );
+      }
+    }),
+
+  /** Hide a template from queue creation; its queues stay checkable (ADMIN ONLY) */
+  archiveTemplate: workspacePermissionProcedure("queue_template:write")
+    .input(QueueTemplateIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const template = await archiveQueueTemplate(
+          input.templateId,
+          input.workspaceId
+        );
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.queue_template.archived",
+          category: "rabbitmq",
+          entityType: "queue_template",
+          entityId: template.id,
+          entityLabel: template.name,
+        });
+
+        return { success: true };
+      } catch (error) {
+        ctx.logger.error({ error }, "Error archiving queue template");
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToSaveTemplate",
+          QUEUE_TEMPLATE_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Compare the server's templated queues with the version each was
+   * declared from (ALL USERS)
+   */
+  checkDrift: workspacePermissionProcedure("queue_template:read", byServerId)
+    .input(CheckTemplateDriftSchema)
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId, templateId } = input;
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = createRabbitMQClientFromServer(server);
+        const queues = await checkTemplateDrift(client, serverId, workspaceId, {
+          templateId,
+        });
+
+        return {
+          queues,
+          drifted: queues.filter((q) => q.drift.length > 0).length,
+          checkedAt: new Date().toISOString(),
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          "Error checking queue template drift"
+        );
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToCheckTemplateDrift",
+          QUEUE_TEMPLATE_ERRORS
+        );
+      }
+    }),
+});
@@ -0,0 +1,348 @@
+import { TRPCError } from "@trpc/server";
+
+import { prisma } from "@/core/prisma";
+import { abortableSleep } from "@/core/utils";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  type BulkQueueTarget,
+  getBulkItems,
+  getBulkOperation,
+  getSettledBulkItems,
+  MAX_BULK_QUEUES,
+  parseIdleSince,
+  type QueueBulkErrorCode,
+  type QueueRef,
+  resolveBulkTarget,
+  runBulkOperation,
+  serializeBulkItem,
+  serializeBulkOperation,
+} from "@/services/queue-bulk";
+import { requestQueuePause, requestQueueResume } from "@/services/queue-pause";
+
+import {
+  BulkDeleteQueuesSchema,
+  BulkOperationIdSchema,
+  BulkPauseQueuesSchema,
+  BulkQueueOperationSchema,
+  PreviewBulkQueuesSchema,
+} from "@/schemas/rabbitmq";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import { byServerId, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { createRabbitMQClientFromServer, type Ctx, loadServer } from "./shared";
+
+import { Prisma, QueueBulkAction } from "@/generated/prisma/client";
+import { te } from "@/i18n";
+
+/**
+ * Bulk queue operations (purge / delete / pause / resume), spread into the
+ * queues router.
+ *
+ * Flow: `previewBulkQueues` resolves an explicit list or a selector against
+ * the broker and returns what matched; the UI then executes on the exact
+ * list it showed. Each execution is recorded as a `QueueBulkOperation`
+ * whose progress `watchBulkOperation` streams. Qarote's internal queues
+ * are never targeted, whatever the selector says.
+ */
+
+// Progress is read back from Postgres; a second is plenty for a progress bar.
+const PROGRESS_POLL_MS = 1000;
+
+// How long the watcher waits for the mutation to create the run — the
+// client subscribes before (or while) it fires the mutation.
+const WAIT_FOR_RUN_MS = 15_000;
+
+type BulkTargetInput = {
+  serverId: string;
+  workspaceId: string;
+  target: BulkQueueTarget;
+};
+
+async function resolveTarget(
+  server: Awaited<ReturnType<typeof loadServer>>,
+  target: BulkQueueTarget
+) {
+  const client = createRabbitMQClientFromServer(server);
+  const scopedVhost = "selector" in target ? target.selector.vhost : undefined;
+  const brokerQueues = await client.getQueues(scopedVhost);
+  return resolveBulkTarget(brokerQueues, target);
+}
+
+const BULK_ERRORS = {
+  status: { bulkOperationExists: "CONFLICT" },
+} satisfies CodedErrorMapping<QueueBulkErrorCode>;
+
+interface BulkExecution {
+  action: QueueBulkAction;
+  auditAction: string;
+  options: Prisma.InputJsonObject | null;
+  perform: (queue: QueueRef) => Promise<void>;
+}
+
+/**
+ * Resolve the target again at execution time (the broker may have moved
+ * on since the preview), run the action and audit each queue it hit.
+ */
+async function executeBulk(
+  ctx: Ctx,
+  input: BulkTargetInput & { operationId: string },
+  build: (server: Awaited<ReturnType<typeof loadServer>>) => BulkExecution
+) {
+  const { serverId, workspaceId, operationId, target } = input;
+  try {
+    const server = await loadServer(ctx, input);
+    const resolved = await resolveTarget(server, target);
+    const execution = build(server);
+
+    const operation = await runBulkOperation({
+      id: operationId,
+      workspaceId,
+      serverId,
+      action: execution.action,
+      selector: "selector" in target ? target.selector : null,
+      options: execution.options,
+      requestedById: ctx.user.id,
+      queues: resolved.matched.map((q) => ({ name: q.name, vhost: q.vhost })),
+      perform: execution.perform,
+      onSucceeded: (queue) => {
+        void recordFromContext(ctx, {
+          action: execution.auditAction,
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: queue.name,
+          entityLabel: `${queue.name}@${queue.vhost}`,
+          serverId,
+          vhost: queue.vhost,
+          metadata: { bulkOperationId: operationId, ...execution.options },
+        });
+      },
+    });
+
+    return {
+      operation: serializeBulkOperation(operation),
+      items: operation.items.map(serializeBulkItem),
+      notFound: resolved.notFound,
+      skippedInternal: resolved.skippedInternal,
+    };
+  } catch (error) {
+    ctx.logger.error(
+      { error, operationId },
+      `Error running bulk queue operation on server ${serverId}`
+    );
+    throwAsTRPCError(
+      ctx,
+      error,
+      "rabbitmq.failedToRunBulkOperation",
+      BULK_ERRORS
+    );
+  }
+}
+
+export const queueBulkProcedures = {
+  /**
+   * Resolve a bulk target without touching anything (queue:read). The UI
+   * shows this list and executes on exactly it.
+   */
+  previewBulkQueues: workspacePermissionProcedure("queue:read", byServerId)
+    .input(PreviewBulkQueuesSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const server = await loadServer(ctx, input);
+        const resolved = await resolveTarget(server, input.target);
+        return {
+          matched: resolved.matched.map((q) => ({
+            name: q.name,
+            vhost: q.vhost,
+            messages: q.messages ?? null,
+            consumers: q.consumers ?? null,
+            idleSince: parseIdleSince(q.idle_since)?.toISOString() ?? null,
+          })),
+          notFound: resolved.notFound,
+          skippedInternal: resolved.skippedInternal,
+          limit: MAX_BULK_QUEUES,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error previewing bulk queue target on server ${input.serverId}`
+        );
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToPreviewBulkQueues",
+          BULK_ERRORS
+        );
+      }
+    }),
+
+  /** Purge every targeted queue (ADMIN ONLY - dangerous operation). */
+  bulkPurgeQueues: workspacePermissionProcedure("queue:purge", byServerId)
+    .input(BulkQueueOperationSchema)
+    .mutation(({ input, ctx }) =>
+      executeBulk(ctx, input, (server) => {
+        const client = createRabbitMQClientFromServer(server);
+        return {
+          action: QueueBulkAction.PURGE,
+          auditAction: "rabbitmq.queue.purged",
+          options: null,
+          perform: async (queue) => {
+            await client.purgeQueue(queue.name, queue.vhost);
+          },
+        };
+      })
+    ),
+
+  /** Delete every targeted queue (ADMIN ONLY - dangerous operation). */
+  bulkDeleteQueues: workspacePermissionProcedure("queue:delete", byServerId)
+    .input(BulkDeleteQueuesSchema)
+    .mutation(({ input, ctx }) =>
+      executeBulk(ctx, input, (server) => {
+        const client = createRabbitMQClientFromServer(server);
+        const { ifUnused, ifEmpty } = input;
+        return {
+          action: QueueBulkAction.DELETE,
+          auditAction: "rabbitmq.queue.deleted",
+          options: { ifUnused, ifEmpty },
+          perform: async (queue) => {
+            await client.deleteQueue(queue.name, queue.vhost, {
+              if_unused: ifUnused,
+              if_empty: ifEmpty,
+            });
+            await prisma.queue.deleteMany({
+              where: {
+                name: queue.name,
+                vhost: queue.vhost,
+                serverId: server.id,
+              },
+            });
+          },
+        };
+      })
+    ),
+
+  /** Pause every targeted queue, optionally until a given time. */
+  bulkPauseQueues: workspacePermissionProcedure("queue:pause", byServerId)
+    .input(BulkPauseQueuesSchema)
+    .mutation(({ input, ctx }) => {
+      // Checked once up front rather than failing every item the same way
+      if (input.pausedUntil && input.pausedUntil.getTime() <= Date.now()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: te(ctx.locale, "rabbitmq.pauseUntilInPast"),
+        });
+      }
+      return executeBulk(ctx, input, (server) => {
+        const { reason, pausedUntil } = input;
+        return {
+          action: QueueBulkAction.PAUSE,
+          auditAction: "rabbitmq.queue.paused",
+          options: {
+            reason: reason ?? null,
+            pausedUntil: pausedUntil?.toISOString() ?? null,
+          },
+          perform: async (queue) => {
+            await requestQueuePause(
+              {
+                serverId: server.id,
+                vhost: queue.vhost,
+                queueName: queue.name,
+              },
+              { id: ctx.user.id, email: ctx.user.email },
+              { reason, pausedUntil }
+            );
+          },
+        };
+      });
+    }),
+
+  /** Resume every targeted queue Qarote has paused. */
+  bulkResumeQueues: workspacePermissionProcedure("queue:pause", byServerId)
+    .input(BulkQueueOperationSchema)
+    .mutation(({ input, ctx }) =>
+      executeBulk(ctx, input, (server) => ({
+        action: QueueBulkAction.RESUME,
+        auditAction: "rabbitmq.queue.resumed",
+        options: { trigger: "manual" },
+        perform: async (queue) => {
+          await requestQueueResume(
+            { serverId: server.id, vhost: queue.vhost, queueName: queue.name },
+            { id: ctx.user.id, email: ctx.user.email }
+          );
+        },
+      }))
+    ),
+
+  /** A bulk run with every per-queue result (queue:read). */
+  getBulkOperation: workspacePermissionProcedure("queue:read", byServerId)
+    .input(BulkOperationIdSchema)
+    .query(async ({ input, ctx }) => {
+      const operation = await getBulkOperation(
+        input.operationId,
+        input.serverId,
+        input.workspaceId
+      );
+      if (!operation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.bulkOperationNotFound"),
+        });
+      }
+      const items = await getBulkItems(operation.id);
+      return {
+        operation: serializeBulkOperation(operation),
+        items: items.map(serializeBulkItem),
+      };
+    }),
+
+  /**
+   * Progress of a bulk run — SSE subscription (queue:read). Each event
+   * carries the run's counters and the items settled since the previous
+   * event; the stream ends once the run completes or is found interrupted.
+   */
+  watchBulkOperation: workspacePermissionProcedure("queue:read", byServerId)
+    .input(BulkOperationIdSchema)
+    .subscription(async function* ({ input, ctx, signal }) {
+      if (!signal) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.subscriptionRequiresAbortSignal"),
+        });
+      }
+
+      const waitUntil = Date.now() + WAIT_FOR_RUN_MS;
+      const reported = new Set<number>();
+      let since: Date | null = null;
+
+      while (!signal.aborted) {
+        const operation = await getBulkOperation(
+          input.operationId,
+          input.serverId,
+          input.workspaceId
+        );
+        if (!operation) {
+          if (Date.now() > waitUntil) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: te(ctx.locale, "rabbitmq.bulkOperationNotFound"),
+            });
+          }
+          await abortableSleep(PROGRESS_POLL_MS, signal);
+          continue;
+        }
+
+        const settled = await getSettledBulkItems(operation.id, since);
+        const fresh = settled.filter((item) => !reported.has(item.position));
+        for (const item of fresh) reported.add(item.position);
+        const last = settled.at(-1);
+        if (last?.finishedAt) since = last.finishedAt;
+
+        const summary = serializeBulkOperation(operation);
+        yield { operation: summary, items: fresh.map(serializeBulkItem) };
+
+        if (summary.status === "COMPLETED" || summary.interrupted) break;
+        await abortableSleep(PROGRESS_POLL_MS, signal);
+      }
+    }),
+};
@@ -1,24 +1,42 @@
 import { TRPCError } from "@trpc/server";
 
 import { prisma } from "@/core/prisma";
-import { RabbitMQAmqpClient } from "@/core/rabbitmq/AmqpClient";
+import { detectPluginCapabilities } from "@/core/rabbitmq/capabilities";
 import {
   excludeInternalQueues,
   isQaroteInternalQueue,
 } from "@/core/rabbitmq/internal-queues";
-import { abortableSleep } from "@/core/utils";
+import { brokerPollHub } from "@/core/rabbitmq/poll-hub";
+import type { CreateQueueResult } from "@/core/rabbitmq/rabbitmq.interfaces";
 
 import { recordFromContext } from "@/services/audit";
+import { getQueueConsumerHealth } from "@/services/consumer-health";
 import {
   getOrgPlan,
   getOrgResourceCounts,
   validateQueueCreationOnServer,
 } from "@/services/plan/plan.service";
 import { MAX_QUEUES_PER_SERVER } from "@/services/queue-limit";
+import {
+  assessPauseDrift,
+  getQueuePause,
+  PAUSE_CONSUMER_TAG_PREFIX,
+  requestQueuePause,
+  requestQueueResume,
+  serializeQueuePause,
+} from "@/services/queue-pause";
+import {
+  declareFromTemplate,
+  getDeclarableVersion,
+  recordTemplatedQueue,
+} from "@/services/queue-template";
 
 import {
   CreateQueueSchema,
   DeleteQueueSchema,
+  PauseQueueSchema,
+  QueueConsumerHealthSchema,
+  QueuePauseTargetSchema,
   ServerWorkspaceInputSchema,
   ServerWorkspaceWithQueueNameSchema,
   VHostOptionalQuerySchema,
@@ -27,18 +45,18 @@ import {
 
 import { BindingMapper, ConsumerMapper, QueueMapper } from "@/mappers/rabbitmq";
 
+import { throwAsTRPCError } from "@/trpc/errors";
 import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
 
-import {
-  createAmqpClient,
-  createRabbitMQClientFromServer,
-  verifyServerAccess,
-} from "./shared";
+import { QUEUE_TEMPLATE_ERRORS } from "./queue-templates";
+import { queueBulkProcedures } from "./queues-bulk";
+import { createRabbitMQClientFromServer, verifyServerAccess } from "./shared";
 
 import { UserPlan } from "@/generated/prisma/client";
 import { te } from "@/i18n";
 
 type RawQueue = Parameters<typeof QueueMapper.toApiResponseArray>[0][number];
+type StreamConsumer = ReturnType<typeof QueueMapper.toStreamConsumerResponse>;
 
 type QueuesServerInfo = {
   isOverQueueLimit: boolean;
@@ -230,7 +248,28 @@ export const queuesRouter = router({
         // Map queue to API response format (only include fields used by Web)
         const mappedQueue = QueueMapper.toApiResponse(queue);
 
-        return { queue: mappedQueue };
+        // Stream offsets come from the stream management plugin. They are
+        // extra detail: a broker without the plugin (or a failed read)
+        // yields `null` rather than failing the whole queue view.
+        let streamConsumers: StreamConsumer[] | null = null;
+        if (queue.type === "stream") {
+          try {
+            const capabilities = await detectPluginCapabilities(client);
+            if (capabilities.streamManagement) {
+              const consumers = await client.getStreamConsumers(vhost);
+              streamConsumers = consumers
+                .filter((consumer) => consumer.queue.name === queueName)
+                .map(QueueMapper.toStreamConsumerResponse);
+            }
+          } catch (error) {
+            ctx.logger.warn(
+              { error, serverId, queueName },
+              "Could not read stream consumer offsets"
+            );
+          }
+        }
+
+        return { queue: mappedQueue, streamConsumers };
       } catch (error) {
         ctx.logger.error(
           { error, serverId, queueName },
@@ -306,6 +345,52 @@ export const queuesRouter = router({
       }
     }),
 
+  /**
+   * Per-consumer health for a queue (ALL USERS): prefetch utilization,
+   * unacked age, ack rate, and consumers stuck on a full prefetch without
+   * acking over the window.
+   */
+  getQueueConsumerHealth: workspacePermissionProcedure("queue:read")
+    .input(QueueConsumerHealthSchema)
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId, queueName, windowMinutes } = input;
+      if (isQaroteInternalQueue(queueName)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.queueNotFound"),
+        });
+      }
+
+      const server = await verifyServerAccess(serverId, workspaceId, true);
+      if (!server || !server.workspace) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+        });
+      }
+
+      try {
+        const client = createRabbitMQClientFromServer(server);
+        return await getQueueConsumerHealth(client, {
+          workspaceId,
+          serverId,
+          queueName,
+          vhost: decodeURIComponent(input.vhost),
+          windowMinutes,
+        });
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error analysing consumers for queue ${queueName} on server ${serverId}`
+        );
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToAnalyzeConsumers"),
+        });
+      }
+    }),
+
   /**
    * Get bindings for a specific queue on a server (ALL USERS)
    */
@@ -382,6 +467,7 @@ export const queuesRouter = router({
         durable,
         autoDelete,
         arguments: args,
+        templateId,
       } = input;
 
       try {
@@ -427,13 +513,41 @@ export const queuesRouter = router({
         // Get vhost from validated input (required for queue operations)
         const vhost = decodeURIComponent(vhostParam);
 
-        // Create the queue via RabbitMQ API
+        // Create the queue via RabbitMQ API — from a template, the
+        // dead-letter topology and policy are declared alongside it
         const client = createRabbitMQClientFromServer(server);
-        const queue = await client.createQueue(name, vhost, {
-          durable: durable,
-          autoDelete: autoDelete,
-          arguments: args,
-        });
+        let queue: CreateQueueResult;
+        let template: { id: string; name: string; version: number } | null =
+          null;
+        if (templateId) {
+          const declarable = await getDeclarableVersion(
+            templateId,
+            workspaceId
+          );
+          await declareFromTemplate(client, declarable.version, {
+            name,
+            vhost,
+          });
+          await recordTemplatedQueue({
+            serverId,
+            vhost,
+            queueName: name,
+            templateVersionId: declarable.version.id,
+            createdById: ctx.user.id,
+          });
+          queue = { created: true };
+          template = {
+            id: declarable.template.id,
+            name: declarable.template.name,
+            version: declarable.version.version,
+          };
+        } else {
+          queue = await client.createQueue(name, vhost, {
+            durable: durable,
+            autoDelete: autoDelete,
+            arguments: args,
+          });
+        }
 
         // 🔧 NEW: Immediately store the queue in the database
         const newQueueData = {
@@ -474,29 +588,33 @@ export const queuesRouter = router({
           entityLabel: `${name}@${vhost}`,
           serverId,
           vhost,
-          metadata: {
-            durable,
-            autoDelete,
-            arguments: args,
-          },
+          metadata: template
+            ? {
+                templateId: template.id,
+                templateName: template.name,
+                templateVersion: template.version,
+              }
+            : {
+                durable,
+                autoDelete,
+                arguments: args,
+              },
         });
 
         return {
           success: true,
           message: "Queue created successfully",
           queue,
+          template,
         };
       } catch (error) {
         ctx.logger.error({ error }, "Error creating queue");
-
-        if (error instanceof TRPCError) {
-          throw error;
-        }
-
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: te(ctx.locale, "rabbitmq.failedToCreateQueue"),
-        });
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToCreateQueue",
+          QUEUE_TEMPLATE_ERRORS
+        );
       }
     }),
 
@@ -684,12 +802,14 @@ export const queuesRouter = router({
     }),
 
   /**
-   * Pause a queue using AMQP protocol for better control (ADMIN ONLY)
+   * Pause a queue, optionally until a given time (ADMIN ONLY). Recorded
+   * here and applied by the queue-pause worker, which holds the blocking
+   * consumer and re-applies it across restarts.
    */
   pauseQueue: workspacePermissionProcedure("queue:pause", byServerId)
-    .input(ServerWorkspaceWithQueueNameSchema)
+    .input(PauseQueueSchema)
     .mutation(async ({ input, ctx }) => {
-      const { serverId, workspaceId, queueName } = input;
+      const { serverId, workspaceId, queueName, reason, pausedUntil } = input;
       // Qarote's own firehose queue is not the user's to read or act on: it is
       // hidden from every listing, so answering here would contradict that —
       // and purging or deleting it would silently break message tracing.
@@ -710,56 +830,54 @@ export const queuesRouter = router({
           });
         }
 
-        // Create AMQP client for direct queue control
-        const amqpClient = await createAmqpClient(serverId, workspaceId);
+        const vhost = input.vhost
+          ? decodeURIComponent(input.vhost)
+          : server.vhost || "/";
 
-        // Connect and pause the queue
-        await amqpClient.connect();
-        const pauseState = await amqpClient.pauseQueue(queueName);
+        // Fail now rather than leave the worker retrying a missing queue
+        const client = createRabbitMQClientFromServer(server);
+        await client.getQueue(queueName, vhost);
 
-        ctx.logger.info(
-          {
-            serverId,
-            queueName,
-            pausedAt: pauseState.pausedAt,
-            userId: ctx.user.id,
-          },
-          `Queue ${queueName} paused via AMQP`
+        const pause = await requestQueuePause(
+          { serverId, vhost, queueName },
+          { id: ctx.user.id, email: ctx.user.email },
+          { reason, pausedUntil }
         );
 
+        void recordFromContext(ctx, {
+          action: "rabbitmq.queue.paused",
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: queueName,
+          entityLabel: `${queueName}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            reason: pause.reason,
+            pausedUntil: pause.pausedUntil?.toISOString() ?? null,
+          },
+        });
+
         return {
           success: true,
-          message: `Queue "${queueName}" paused successfully using AMQP protocol`,
-          pauseState: {
-            queueName: pauseState.queueName,
-            isPaused: pauseState.isPaused,
-            pausedAt: pauseState.pausedAt,
-            method: "AMQP blocking consumer",
-          },
+          message: `Queue "${queueName}" paused`,
+          pauseState: serializeQueuePause(pause),
         };
       } catch (error) {
         ctx.logger.error(
           { error },
           `Error pausing queue ${queueName} on server ${serverId}`
         );
-
-        if (error instanceof TRPCError) {
-          throw error;
-        }
-
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: te(ctx.locale, "rabbitmq.failedToPauseQueue"),
-        });
+        throwAsTRPCError(ctx, error, "rabbitmq.failedToPauseQueue");
       }
-      // Note: Don't disconnect here - keep the connection for resume operations
     }),
 
   /**
-   * Resume a queue using AMQP protocol (ADMIN ONLY)
+   * Resume a paused queue (ADMIN ONLY). The worker cancels the blocking
+   * consumer; held messages are redelivered to the queue's consumers.
    */
   resumeQueue: workspacePermissionProcedure("queue:pause", byServerId)
-    .input(ServerWorkspaceWithQueueNameSchema)
+    .input(QueuePauseTargetSchema)
     .mutation(async ({ input, ctx }) => {
       const { serverId, workspaceId, queueName } = input;
       // Qarote's own firehose queue is not the user's to read or act on: it is
@@ -772,8 +890,6 @@ export const queuesRouter = router({
         });
       }
 
-      let amqpClient: RabbitMQAmqpClient | null = null;
-
       try {
         // Verify server access
         const server = await verifyServerAccess(serverId, workspaceId);
@@ -784,65 +900,48 @@ export const queuesRouter = router({
           });
         }
 
-        // Create AMQP client for direct queue control
-        amqpClient = await createAmqpClient(serverId, workspaceId);
+        const vhost = input.vhost
+          ? decodeURIComponent(input.vhost)
+          : server.vhost || "/";
 
-        // Connect and resume the queue
-        await amqpClient.connect();
-        const resumeState = await amqpClient.resumeQueue(queueName);
+        const pause = await requestQueueResume(
+          { serverId, vhost, queueName },
+          { id: ctx.user.id, email: ctx.user.email }
+        );
 
-        ctx.logger.info(
-          {
-            serverId,
-            queueName,
-            resumedAt: resumeState.resumedAt,
-            userId: ctx.user.id,
+        void recordFromContext(ctx, {
+          action: "rabbitmq.queue.resumed",
+          category: "rabbitmq",
+          entityType: "queue",
+          entityId: queueName,
+          entityLabel: `${queueName}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            trigger: "manual",
+            pausedAt: pause.pausedAt.toISOString(),
+            pausedById: pause.pausedById,
           },
-          `Queue ${queueName} resumed via AMQP`
-        );
+        });
 
         return {
           success: true,
-          message: `Queue "${queueName}" resumed successfully using AMQP protocol`,
-          resumeState: {
-            queueName: resumeState.queueName,
-            isPaused: resumeState.isPaused,
-            resumedAt: resumeState.resumedAt,
-            method: "AMQP consumer cancellation",
-          },
+          message: `Queue "${queueName}" resumed`,
+          resumeState: serializeQueuePause(pause),
         };
       } catch (error) {
         ctx.logger.error(
           { error },
           `Error resuming queue ${queueName} on server ${serverId}`
         );
-
-        if (error instanceof TRPCError) {
-          throw error;
-        }
-
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: te(ctx.locale, "rabbitmq.failedToResumeQueue"),
-        });
-      } finally {
-        // Cleanup the connection after resume
-        if (amqpClient) {
-          try {
-            await amqpClient.disconnect();
-          } catch (cleanupError) {
-            ctx.logger.warn(
-              { cleanupError },
-              "Error cleaning up AMQP connection:"
-            );
-          }
-        }
+        throwAsTRPCError(ctx, error, "rabbitmq.failedToResumeQueue");
       }
     }),
 
   /**
    * Live queue stream — SSE subscription replacing client polling (ALL USERS)
-   * Fetches queues from RabbitMQ every 4s and pushes updates to the client.
+   * Queues are polled from RabbitMQ every 4s through the shared broker poll
+   * hub (one poll per server + vhost) and pushed to the client.
    */
   watchQueues: workspacePermissionProcedure("queue:read")
     .input(ServerWorkspaceInputSchema.merge(VHostOptionalQuerySchema))
@@ -865,52 +964,60 @@ export const queuesRouter = router({
           message: te(ctx.locale, "rabbitmq.subscriptionRequiresAbortSignal"),
         });
       }
-      const sig = signal;
-      let lastPayload:
-        | Awaited<ReturnType<typeof buildQueuesResponse>>
-        | undefined;
-
-      while (!sig.aborted) {
-        try {
-          // Re-fetch server status each iteration for fresh over-limit info
+      const source = {
+        intervalMs: 4000,
+        fetch: async (pollSignal: AbortSignal) => {
+          // Re-fetch server status each poll for fresh over-limit info
           const freshServer = await verifyServerAccess(
             serverId,
             workspaceId,
             true
           );
-          if (!freshServer || !freshServer.workspace) {
-            break; // Server removed or access revoked — terminate stream
-          }
+          if (!freshServer || !freshServer.workspace) return null;
 
           const client = createRabbitMQClientFromServer(freshServer);
-          const queues = excludeInternalQueues(await client.getQueues(vhost));
-
+          const queues = excludeInternalQueues(
+            await client.getQueues(vhost, pollSignal)
+          );
+          // Persisted once per poll, however many subscribers share it
           await persistQueueData(queues, serverId);
+          return { server: freshServer, queues };
+        },
+      };
 
+      for await (const result of brokerPollHub.subscribe(
+        `${serverId}:queues:${vhost ?? ""}`,
+        source,
+        signal
+      )) {
+        if (result.ok && result.value === null) {
+          break; // Server removed or access revoked — terminate stream
+        }
+        const snapshot = result.ok ? result.value : result.lastValue;
+        if (!snapshot) continue;
+
+        try {
           const orgInfo = await ctx.resolveOrg();
-          lastPayload = await buildQueuesResponse(
-            queues,
-            freshServer,
+          // buildQueuesResponse sorts in place — the snapshot is shared
+          const payload = await buildQueuesResponse(
+            [...snapshot.queues],
+            snapshot.server,
             orgInfo?.organizationId ?? null,
             ctx.locale
           );
-          yield lastPayload;
+          yield result.ok ? payload : { ...payload, stale: true };
         } catch (err) {
-          ctx.logger.warn({ err, serverId }, "watchQueues fetch error");
-          if (lastPayload) {
-            yield { ...lastPayload, stale: true };
-          }
+          ctx.logger.warn({ err, serverId }, "watchQueues response error");
         }
-
-        await abortableSleep(4000, sig);
       }
     }),
 
   /**
-   * Get pause status of a queue
+   * Get pause status of a queue, with drift between the recorded pause and
+   * the blocking consumers the broker actually reports
    */
   getPauseStatus: workspacePermissionProcedure("queue:read")
-    .input(ServerWorkspaceWithQueueNameSchema)
+    .input(QueuePauseTargetSchema)
     .query(async ({ input, ctx }) => {
       const { serverId, workspaceId, queueName } = input;
       // Qarote's own firehose queue is not the user's to read or act on: it is
@@ -923,8 +1030,6 @@ export const queuesRouter = router({
         });
       }
 
-      let amqpClient: RabbitMQAmqpClient | null = null;
-
       try {
         // Verify server access
         const server = await verifyServerAccess(serverId, workspaceId);
@@ -935,21 +1040,36 @@ export const queuesRouter = router({
           });
         }
 
-        // Create AMQP client to check pause status (already connects in factory)
-        amqpClient = await createAmqpClient(serverId, workspaceId);
+        const vhost = input.vhost
+          ? decodeURIComponent(input.vhost)
+          : server.vhost || "/";
+        const pause = await getQueuePause({ serverId, vhost, queueName });
 
-        const pauseState = amqpClient.getQueuePauseState(queueName);
+        // Drift needs the broker's view; an unreachable broker leaves it
+        // unknown (null) rather than failing the whole status read.
+        let brokerPauseConsumers: number | null = null;
+        try {
+          const client = createRabbitMQClientFromServer(server);
+          const consumers = await client.getQueueConsumers(queueName, vhost);
+          brokerPauseConsumers = consumers.filter((consumer) =>
+            consumer.consumer_tag.startsWith(PAUSE_CONSUMER_TAG_PREFIX)
+          ).length;
+        } catch (error) {
+          ctx.logger.warn(
+            { error, serverId, queueName },
+            "Could not read queue consumers for pause drift"
+          );
+        }
 
         return {
           success: true,
           queueName,
-          pauseState: pauseState
-            ? {
-                ...pauseState,
-                pausedAt: pauseState.pausedAt?.toISOString(),
-                resumedAt: pauseState.resumedAt?.toISOString(),
-              }
-            : null,
+          pauseState: pause ? serializeQueuePause(pause) : null,
+          brokerPauseConsumers,
+          drift:
+            brokerPauseConsumers === null
+              ? null
+              : assessPauseDrift(pause, brokerPauseConsumers),
         };
       } catch (error) {
         ctx.logger.error(
@@ -965,17 +1085,8 @@ export const queuesRouter = router({
           code: "INTERNAL_SERVER_ERROR",
           message: te(ctx.locale, "rabbitmq.failedToCheckPauseStatus"),
         });
-      } finally {
-        if (amqpClient) {
-          try {
-            await amqpClient.disconnect();
-          } catch (cleanupError) {
-            ctx.logger.warn(
-              { cleanupError },
-              "Error cleaning up AMQP connection:"
-            );
-          }
-        }
       }
     }),
+
+  ...queueBulkProcedures,
 });
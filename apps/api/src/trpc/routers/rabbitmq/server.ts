@@ -3,9 +3,20 @@ import { z } from "zod";
 
 import { prisma } from "@/core/prisma";
 import { RabbitMQClient } from "@/core/rabbitmq";
+import type { BrokerTlsOptions } from "@/core/rabbitmq/rabbitmq.interfaces";
 
 import { seedDefaultAlertRules } from "@/services/alerts/alert-seeding.service";
 import { recordCapabilityRecheck, recordFromContext } from "@/services/audit";
+import {
+  applyBrokerTlsPatch,
+  BROKER_TLS_SELECT,
+  BrokerTlsValidationError,
+  decryptBrokerTls,
+  describeBrokerTls,
+  encryptBrokerTlsColumns,
+  syncClientCertificateFinding,
+  validateBrokerTls,
+} from "@/services/broker-tls";
 import { EncryptionService } from "@/services/encryption.service";
 import {
   getBadgeTrackedFeatures,
@@ -27,6 +38,7 @@ import {
   exceedsQueueLimit,
   MAX_QUEUES_PER_SERVER,
 } from "@/services/queue-limit";
+import { resolveSecretRef, SecretSourceError } from "@/services/secret-source";
 
 import {
   CreateServerWithWorkspaceSchema,
@@ -37,6 +49,7 @@ import {
   UpdateServerWithWorkspaceSchema,
 } from "@/schemas/rabbitmq";
 
+import { codedTRPCError } from "@/trpc/errors";
 import {
   byServerId,
   router,
@@ -47,6 +60,39 @@ import {
 import { UserPlan } from "@/generated/prisma/client";
 import { te } from "@/i18n";
 
+/**
+ * Reject unusable TLS material up front with a localized BAD_REQUEST —
+ * otherwise it only surfaces as an opaque OpenSSL error on connect.
+ */
+function assertValidBrokerTls(
+  tls: BrokerTlsOptions | undefined,
+  locale: string
+): void {
+  if (!tls) return;
+  try {
+    validateBrokerTls(tls);
+  } catch (error) {
+    if (error instanceof BrokerTlsValidationError) {
+      throw codedTRPCError(locale, error);
+    }
+    throw error;
+  }
+}
+
+/** Read a password reference, as a BAD_REQUEST saying what is wrong with it. */
+function resolvePasswordRef(ref: string, locale: string): string {
+  try {
+    return resolveSecretRef(ref);
+  } catch (error) {
+    if (error instanceof SecretSourceError) {
+      throw codedTRPCError(locale, error, {
+        params: ({ message }) => ({ detail: message }),
+      });
+    }
+    throw error;
+  }
+}
+
 /**
  * Server router
  * Handles RabbitMQ server management operations
@@ -73,6 +119,7 @@ export const serverRouter = router({
             port: true,
             amqpPort: true,
             username: true,
+            passwordRef: true,
             vhost: true,
             useHttps: true,
             isOverQueueLimit: true,
@@ -93,6 +140,7 @@ export const serverRouter = router({
           port: server.port,
           amqpPort: server.amqpPort,
           username: EncryptionService.decrypt(server.username), // Decrypt for display
+          passwordRef: server.passwordRef,
           vhost: server.vhost,
           useHttps: server.useHttps,
           isOverQueueLimit: server.isOverQueueLimit,
@@ -138,6 +186,7 @@ export const serverRouter = router({
             port: true,
             amqpPort: true,
             username: true,
+            passwordRef: true,
             vhost: true,
             useHttps: true,
             isOverQueueLimit: true,
@@ -147,6 +196,7 @@ export const serverRouter = router({
             createdAt: true,
             updatedAt: true,
             workspaceId: true,
+            ...BROKER_TLS_SELECT,
           },
         });
 
@@ -165,6 +215,7 @@ export const serverRouter = router({
           port: server.port,
           amqpPort: server.amqpPort,
           username: EncryptionService.decrypt(server.username), // Decrypt for display
+          passwordRef: server.passwordRef,
           vhost: server.vhost,
           useHttps: server.useHttps,
           isOverQueueLimit: server.isOverQueueLimit,
@@ -174,6 +225,9 @@ export const serverRouter = router({
           createdAt: server.createdAt.toISOString(),
           updatedAt: server.updatedAt.toISOString(),
           workspaceId: server.workspaceId,
+          // Certificate summaries only (subject, issuer, expiry) — never
+          // the PEM text or the client key.
+          tls: describeBrokerTls(decryptBrokerTls(server)),
         };
 
         return {
@@ -214,20 +268,32 @@ export const serverRouter = router({
 
         validateServerCreation(plan, resourceCounts.servers);
 
+        const tls = data.tls
+          ? applyBrokerTlsPatch(undefined, data.tls)
+          : undefined;
+        assertValidBrokerTls(tls, ctx.locale);
+
         ctx.logger.info(
-          { data: { ...data, password: "[redacted]" } },
+          { data: { ...data, password: "[redacted]", tls: !!tls } },
           "Creating server with data"
         );
 
+        // A reference wins over a typed password; the column then stays empty
+        const passwordRef = data.passwordRef || null;
+        const password = passwordRef
+          ? resolvePasswordRef(passwordRef, ctx.locale)
+          : (data.password ?? "");
+
         // Test connection before creating the server (use plain text for testing)
         const client = new RabbitMQClient({
           host: data.host,
           port: data.port,
           amqpPort: data.amqpPort,
           username: data.username,
-          password: data.password,
+          password,
           vhost: data.vhost,
           useHttps: data.useHttps,
+          tls,
         });
 
         // Attempt to get the overview to validate connection and detect version
@@ -264,9 +330,12 @@ export const serverRouter = router({
             port: data.port,
             amqpPort: data.amqpPort,
             username: EncryptionService.encrypt(data.username), // Encrypt username
-            password: EncryptionService.encrypt(data.password), // Encrypt password
+            password: passwordRef ? "" : EncryptionService.encrypt(password), // Encrypt password
+            passwordRef,
+            encryptionKeyVersion: EncryptionService.keyVersion,
             vhost: data.vhost,
             useHttps: data.useHttps,
+            ...encryptBrokerTlsColumns(tls),
             // RBAC Phase 3 — free-text env tag for `server.environment`
             // scope predicates. Null-coerced by the schema.
             environment: data.environment ?? null,
@@ -289,6 +358,15 @@ export const serverRouter = router({
         // server creation is never blocked or rolled back by seeding failures.
         void seedDefaultAlertRules(server.id, workspaceId);
 
+        if (server.tlsClientCertNotAfter) {
+          void syncClientCertificateFinding(server.id).catch((error) => {
+            ctx.logger.warn(
+              { error, serverId: server.id },
+              "client certificate expiry check failed"
+            );
+          });
+        }
+
         // Detect broker capabilities and persist the snapshot. Fire-and-forget
         // for the same reason as alert seeding — capability detection failure
         // must not block server creation; the nightly cron will retry.
@@ -319,6 +397,13 @@ export const serverRouter = router({
             environment: data.environment ?? null,
             version: rabbitMqVersion,
             passwordChanged: true,
+            passwordRef,
+            // Presence only — certificate material never enters the audit log.
+            tls: {
+              caBundle: !!tls?.ca,
+              clientCertificate: !!tls?.cert,
+              servername: tls?.servername ?? null,
+            },
           },
         });
 
@@ -385,13 +470,47 @@ export const serverRouter = router({
           amqpPort?: number;
           username?: string;
           password?: string;
+          passwordRef?: string | null;
           vhost?: string;
           useHttps?: boolean;
           version?: string;
           versionMajorMinor?: string;
           environment?: string | null;
           payloadCaptureEnabled?: boolean;
-        } = {};
+        } & Partial<ReturnType<typeof encryptBrokerTlsColumns>> = {};
+
+        const existingTls = decryptBrokerTls(existingServer);
+        const tls = data.tls
+          ? applyBrokerTlsPatch(existingTls, data.tls)
+          : existingTls;
+        if (data.tls) assertValidBrokerTls(tls, ctx.locale);
+
+        // A typed password replaces a reference; clearing the reference
+        // needs one
+        const passwordRef =
+          data.passwordRef !== undefined
+            ? data.passwordRef || null
+            : data.password !== undefined
+              ? null
+              : existingServer.passwordRef;
+        const passwordSourceChanged =
+          data.password !== undefined ||
+          passwordRef !== existingServer.passwordRef;
+        if (
+          !passwordRef &&
+          data.password === undefined &&
+          existingServer.passwordRef
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: te(ctx.locale, "rabbitmq.passwordRequiredWithoutRef"),
+          });
+        }
+        const password = () =>
+          passwordRef
+            ? resolvePasswordRef(passwordRef, ctx.locale)
+            : (data.password ??
+              EncryptionService.decrypt(existingServer.password));
 
         // If any connection-affecting field changed, re-test the connection
         // and re-run plan-version validation. Existing credentials in the
@@ -401,9 +520,10 @@ export const serverRouter = router({
           data.port !== undefined ||
           data.amqpPort !== undefined ||
           data.username !== undefined ||
-          data.password !== undefined ||
+          passwordSourceChanged ||
           data.vhost !== undefined ||
-          data.useHttps !== undefined
+          data.useHttps !== undefined ||
+          data.tls !== undefined
         ) {
           const client = new RabbitMQClient({
             host: data.host ?? existingServer.host,
@@ -412,13 +532,12 @@ export const serverRouter = router({
             username:
               data.username ??
               EncryptionService.decrypt(existingServer.username),
-            password:
-              data.password ??
-              EncryptionService.decrypt(existingServer.password),
+            password: password(),
             vhost: data.vhost ?? existingServer.vhost,
             useHttps: data.useHttps ?? existingServer.useHttps,
             version: existingServer.version ?? undefined,
             versionMajorMinor: existingServer.versionMajorMinor ?? undefined,
+            tls,
           });
 
           const overview = await client.getOverview();
@@ -442,8 +561,12 @@ export const serverRouter = router({
         if (data.amqpPort !== undefined) updateData.amqpPort = data.amqpPort;
         if (data.username !== undefined)
           updateData.username = EncryptionService.encrypt(data.username);
-        if (data.password !== undefined)
-          updateData.password = EncryptionService.encrypt(data.password);
+        if (passwordSourceChanged) {
+          updateData.passwordRef = passwordRef;
+          updateData.password = passwordRef
+            ? ""
+            : EncryptionService.encrypt(password());
+        }
         if (data.vhost !== undefined) updateData.vhost = data.vhost;
         if (data.useHttps !== undefined) updateData.useHttps = data.useHttps;
         // RBAC Phase 3 — `null` is a legitimate clear-the-tag value, so
@@ -457,6 +580,9 @@ export const serverRouter = router({
         if (data.payloadCaptureEnabled !== undefined) {
           updateData.payloadCaptureEnabled = data.payloadCaptureEnabled;
         }
+        if (data.tls !== undefined) {
+          Object.assign(updateData, encryptBrokerTlsColumns(tls));
+        }
 
         const server = await prisma.rabbitMQServer.update({
           where: { id },
@@ -475,7 +601,13 @@ export const serverRouter = router({
         if (data.vhost !== undefined) auditChanges.vhost = data.vhost;
         if (data.useHttps !== undefined) auditChanges.useHttps = data.useHttps;
         if (data.username !== undefined) auditChanges.usernameChanged = true;
-        const passwordChanged = data.password !== undefined;
+        const passwordChanged = passwordSourceChanged;
+        if (passwordRef !== existingServer.passwordRef) {
+          auditChanges.passwordRef = {
+            from: existingServer.passwordRef,
+            to: passwordRef,
+          };
+        }
         if (updateData.version !== undefined) {
           auditChanges.version = updateData.version;
         }
@@ -491,6 +623,16 @@ export const serverRouter = router({
         if (data.payloadCaptureEnabled !== undefined) {
           auditChanges.payloadCaptureEnabled = data.payloadCaptureEnabled;
         }
+        // TLS material is secret like the password: flag what changed only.
+        if (data.tls !== undefined) {
+          if (data.tls.ca !== undefined) auditChanges.tlsCaBundleChanged = true;
+          if (data.tls.cert !== undefined || data.tls.key !== undefined) {
+            auditChanges.tlsClientCertificateChanged = true;
+          }
+          if (data.tls.servername !== undefined) {
+            auditChanges.tlsServername = tls?.servername ?? "";
+          }
+        }
 
         void recordFromContext(ctx, {
           action: "rabbitmq.server.updated",
@@ -506,6 +648,15 @@ export const serverRouter = router({
           },
         });
 
+        if (data.tls !== undefined || data.name !== undefined) {
+          void syncClientCertificateFinding(server.id).catch((error) => {
+            ctx.logger.warn(
+              { error, serverId: server.id },
+              "client certificate expiry check failed"
+            );
+          });
+        }
+
         return {
           server: {
             id: server.id,
@@ -607,16 +758,51 @@ export const serverRouter = router({
     .input(TestConnectionWithWorkspaceSchema)
     .mutation(async ({ input, ctx }) => {
       // Extract connection credentials (exclude workspaceId which is only for validation)
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { workspaceId, ...credentials } = input;
+      const {
+        workspaceId,
+        serverId,
+        tls: tlsInput,
+        passwordRef,
+        ...credentials
+      } = input;
 
       ctx.logger.info(
-        { credentials: { ...credentials, password: "[redacted]" } },
+        {
+          credentials: { ...credentials, password: "[redacted]" },
+          tls: !!tlsInput,
+        },
         "Testing connection with credentials"
       );
 
+      // Edit mode tests against the stored TLS material, with any fields the
+      // form changed layered on top.
+      let storedTls: BrokerTlsOptions | undefined;
+      if (serverId) {
+        const stored = await prisma.rabbitMQServer.findFirst({
+          where: { id: serverId, workspaceId },
+          select: BROKER_TLS_SELECT,
+        });
+        if (!stored) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+        storedTls = decryptBrokerTls(stored);
+      }
+      const tls = tlsInput
+        ? applyBrokerTlsPatch(storedTls, tlsInput)
+        : storedTls;
+      assertValidBrokerTls(tls, ctx.locale);
+
       try {
-        const client = new RabbitMQClient(credentials);
+        const client = new RabbitMQClient({
+          ...credentials,
+          password: passwordRef
+            ? resolvePasswordRef(passwordRef, ctx.locale)
+            : (credentials.password ?? ""),
+          tls,
+        });
         const overview = await client.getOverview();
 
         return {
@@ -624,6 +810,7 @@ export const serverRouter = router({
           message: te(ctx.locale, "messages.connectionSuccessful"),
           version: overview.rabbitmq_version,
           cluster_name: overview.cluster_name,
+          tls: describeBrokerTls(tls),
         };
       } catch (error) {
         ctx.logger.error({ error }, "Connection test failed");
@@ -1,47 +1,19 @@
-import { logger } from "@/core/logger";
+import { TRPCError } from "@trpc/server";
+
+import type { SafeUser } from "@/core/auth";
 import { prisma } from "@/core/prisma";
-import { QueuePauseState, RabbitMQAmqpClientFactory } from "@/core/rabbitmq";
-import { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+import type { RabbitMQClient } from "@/core/rabbitmq/RabbitClient";
+import { createRabbitMQClientFromServer } from "@/core/rabbitmq/server-client";
 
-import { EncryptionService } from "@/services/encryption.service";
+import type { Context } from "@/trpc/context";
 
 import { RabbitMQServer, Workspace } from "@/generated/prisma/client";
+import { te } from "@/i18n";
 
-/**
- * The connection fields a RabbitMQ client actually needs — deliberately narrower
- * than the full `RabbitMQServer` row so callers can pass a projected `select`
- * result instead of hydrating every column (interface segregation). A full row
- * still satisfies it structurally, so existing call-sites are unaffected.
- */
-type RabbitMQConnectionFields = Pick<
-  RabbitMQServer,
-  | "host"
-  | "port"
-  | "amqpPort"
-  | "username"
-  | "password"
-  | "vhost"
-  | "useHttps"
-  | "version"
-  | "versionMajorMinor"
->;
+export { createRabbitMQClientFromServer } from "@/core/rabbitmq/server-client";
 
-/**
- * Helper function to decrypt server credentials for RabbitMQ client
- */
-function getDecryptedCredentials(server: RabbitMQConnectionFields) {
-  return {
-    host: server.host,
-    port: server.port,
-    username: EncryptionService.decrypt(server.username),
-    password: EncryptionService.decrypt(server.password),
-    vhost: server.vhost,
-    useHttps: server.useHttps,
-    amqpPort: server.amqpPort,
-    version: server.version ?? undefined,
-    versionMajorMinor: server.versionMajorMinor ?? undefined,
-  };
-}
+/** Procedure context once the permission middleware has admitted a user. */
+export type Ctx = Context & { user: SafeUser };
 
 /**
  * Helper function to verify server belongs to user's workspace and return server
@@ -67,14 +39,21 @@ export async function verifyServerAccess(
 }
 
 /**
- * Helper function to create RabbitMQ client from an already-fetched server object.
- * Use this when you already have a server from verifyServerAccess() to avoid
- * a redundant DB query.
+ * The workspace's server the procedure targets, as NOT_FOUND when it is
+ * missing or belongs to another workspace.
  */
-export function createRabbitMQClientFromServer(
-  server: RabbitMQConnectionFields
-): RabbitMQClient {
-  return new RabbitMQClient(getDecryptedCredentials(server));
+export async function loadServer(
+  ctx: Pick<Context, "locale">,
+  input: { serverId: string; workspaceId: string }
+) {
+  const server = await verifyServerAccess(input.serverId, input.workspaceId);
+  if (!server) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+    });
+  }
+  return server;
 }
 
 /**
@@ -93,127 +72,3 @@ export async function createRabbitMQClient(
   }
   return createRabbitMQClientFromServer(server);
 }
-
-/**
- * Helper function to create AMQP client for queue operations using the factory
- */
-export async function createAmqpClient(serverId: string, workspaceId: string) {
-  const server = await prisma.rabbitMQServer.findFirst({
-    where: {
-      id: serverId,
-      workspaceId,
-    },
-    select: {
-      id: true,
-      name: true,
-      host: true,
-      port: true,
-      amqpPort: true,
-      username: true,
-      password: true,
-      vhost: true,
-      useHttps: true,
-      queuePauseStates: true,
-    },
-  });
-
-  if (!server) {
-    throw new Error(`Server with ID ${serverId} not found or access denied`);
-  }
-
-  // Decrypt username and password before creating client
-  let decryptedUsername: string;
-  let decryptedPassword: string;
-
-  try {
-    decryptedUsername = EncryptionService.decrypt(server.username);
-    decryptedPassword = EncryptionService.decrypt(server.password);
-
-    logger.debug(
-      {
-        serverId: server.id,
-        serverName: server.name,
-        hasUsername: !!decryptedUsername,
-        hasPassword: !!decryptedPassword,
-      },
-      `Decrypted credentials for server ${server.name}`
-    );
-  } catch (error) {
-    logger.error(
-      { error },
-      `Failed to decrypt credentials for server ${server.name}`
-    );
-    throw new Error(`Failed to decrypt server credentials for ${server.name}`, {
-      cause: error,
-    });
-  }
-
-  // Create client using factory with decrypted credentials
-  const client = await RabbitMQAmqpClientFactory.createClient({
-    id: server.id,
-    name: server.name,
-    host: server.host,
-    port: server.port, // Management API port
-    amqpPort: server.amqpPort, // AMQP protocol port
-    username: decryptedUsername, // ✅ Using decrypted username
-    password: decryptedPassword, // ✅ Using decrypted password
-    vhost: server.vhost || "/",
-    useHttps: server.useHttps,
-  });
-
-  // Set up persistence callback to save pause states to database
-  client.setPersistenceCallback(
-    async (serverId: string, pauseStates: QueuePauseState[]) => {
-      try {
-        await prisma.rabbitMQServer.update({
-          where: { id: serverId },
-          data: {
-            queuePauseStates: JSON.parse(
-              JSON.stringify(
-                pauseStates.reduce(
-                  (acc, state) => {
-                    acc[state.queueName] = state;
-                    return acc;
-                  },
-                  {} as Record<string, QueuePauseState>
-                )
-              )
-            ),
-          },
-        });
-
-        logger.debug(
-          {
-            pausedQueues: pauseStates.filter((s) => s.isPaused).length,
-            totalQueues: pauseStates.length,
-          },
-          `Persisted pause states for server ${serverId}`
-        );
-      } catch (error) {
-        logger.error(
-          { error },
-          `Failed to persist pause states for server ${serverId}`
-        );
-      }
-    }
-  );
-
-  // Load existing pause states from database
-  const existingPauseStates = server.queuePauseStates as Record<
-    string,
-    QueuePauseState
-  > | null;
-
-  if (existingPauseStates) {
-    const pauseStatesArray = Object.values(existingPauseStates).map(
-      (state) => ({
-        ...state,
-        pausedAt: state.pausedAt ? new Date(state.pausedAt) : undefined,
-        resumedAt: state.resumedAt ? new Date(state.resumedAt) : undefined,
-      })
-    );
-    client.loadPauseStates(pauseStatesArray);
-  }
-
-  return client;
-}
@@ -0,0 +1,358 @@
+import { TRPCError } from "@trpc/server";
+import type { z } from "zod";
+
+import { detectPluginCapabilities } from "@/core/rabbitmq/capabilities";
+import type { ShovelDefinition } from "@/core/rabbitmq/rabbitmq.interfaces";
+
+import { recordFromContext } from "@/services/audit";
+
+import {
+  CreateShovelSchema,
+  ServerWorkspaceInputSchema,
+  ShovelNameSchema,
+  VHostOptionalQuerySchema,
+  VHostRequiredQuerySchema,
+} from "@/schemas/rabbitmq";
+
+import { ShovelMapper } from "@/mappers/rabbitmq";
+import { redactAmqpUri } from "@/mappers/rabbitmq/uri";
+
+import { byServerId, router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { createRabbitMQClient, verifyServerAccess } from "./shared";
+
+import { te } from "@/i18n";
+
+/**
+ * Build the broker-side `shovel` parameter value from validated input.
+ * Only the keys the user set are sent, so broker defaults still apply.
+ */
+function toShovelDefinition(
+  input: z.infer<typeof CreateShovelSchema>
+): ShovelDefinition {
+  const { source, destination } = input;
+  return {
+    "src-protocol": "amqp091",
+    "src-uri": source.uris,
+    ...(source.queue ? { "src-queue": source.queue } : {}),
+    ...(source.exchange ? { "src-exchange": source.exchange } : {}),
+    ...(source.exchange && source.exchangeKey !== undefined
+      ? { "src-exchange-key": source.exchangeKey }
+      : {}),
+    ...(input.prefetchCount !== undefined
+      ? { "src-prefetch-count": input.prefetchCount }
+      : {}),
+    "src-delete-after": input.deleteAfter,
+    "dest-protocol": "amqp091",
+    "dest-uri": destination.uris,
+    ...(destination.queue ? { "dest-queue": destination.queue } : {}),
+    ...(destination.exchange ? { "dest-exchange": destination.exchange } : {}),
+    ...(destination.exchange && destination.exchangeKey !== undefined
+      ? { "dest-exchange-key": destination.exchangeKey }
+      : {}),
+    "dest-add-forward-headers": input.addForwardHeaders,
+    "ack-mode": input.ackMode,
+    ...(input.reconnectDelay !== undefined
+      ? { "reconnect-delay": input.reconnectDelay }
+      : {}),
+  };
+}
+
+/**
+ * Shovels router
+ * Handles dynamic shovels (rabbitmq_shovel): list definitions joined with
+ * live state, status for node views, create/delete, restart.
+ */
+export const shovelsRouter = router({
+  /**
+   * List shovel definitions with their live state (ALL USERS)
+   * Returns an empty list with `pluginEnabled: false` when the plugin is
+   * off, so the page can explain instead of erroring.
+   */
+  list: workspacePermissionProcedure("shovel:read")
+    .input(ServerWorkspaceInputSchema.merge(VHostOptionalQuerySchema))
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        const vhost = vhostParam ? decodeURIComponent(vhostParam) : undefined;
+        const capabilities = await detectPluginCapabilities(client);
+
+        if (!capabilities.shovel) {
+          return {
+            success: true,
+            pluginEnabled: false,
+            managementEnabled: capabilities.shovelManagement,
+            shovels: [],
+            totalShovels: 0,
+          };
+        }
+
+        const [parameters, statuses] = await Promise.all([
+          client.getShovelParameters(vhost),
+          capabilities.shovelManagement
+            ? client.getShovelStatuses(vhost)
+            : Promise.resolve([]),
+        ]);
+        const shovels = ShovelMapper.toApiResponseArray(parameters, statuses);
+
+        return {
+          success: true,
+          pluginEnabled: true,
+          managementEnabled: capabilities.shovelManagement,
+          shovels,
+          totalShovels: shovels.length,
+        };
+      } catch (error) {
+        ctx.logger.error({ error, serverId }, "Error fetching shovels");
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToFetchShovels"),
+        });
+      }
+    }),
+
+  /**
+   * Live shovel state across the cluster, with per-state counts (ALL USERS)
+   * Cheaper than `list` (no definitions) — used by the node views to
+   * surface terminated shovels next to the node they ran on.
+   */
+  status: workspacePermissionProcedure("shovel:read")
+    .input(ServerWorkspaceInputSchema)
+    .query(async ({ input, ctx }) => {
+      const { serverId, workspaceId } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        const capabilities = await detectPluginCapabilities(client);
+
+        const statuses = capabilities.shovelManagement
+          ? await client.getShovelStatuses()
+          : [];
+        const shovels = statuses.map((status) =>
+          ShovelMapper.fromStatus(status)
+        );
+
+        return {
+          success: true,
+          pluginEnabled: capabilities.shovel,
+          managementEnabled: capabilities.shovelManagement,
+          shovels,
+          summary: {
+            running: shovels.filter((s) => s.state === "running").length,
+            starting: shovels.filter((s) => s.state === "starting").length,
+            terminated: shovels.filter((s) => s.state === "terminated").length,
+          },
+        };
+      } catch (error) {
+        ctx.logger.error({ error, serverId }, "Error fetching shovel status");
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToFetchShovels"),
+        });
+      }
+    }),
+
+  /**
+   * Create (or replace) a dynamic shovel (ADMIN ONLY)
+   * RabbitMQ uses PUT on the runtime parameter — an existing shovel with
+   * the same name is redefined and restarted.
+   */
+  create: workspacePermissionProcedure("shovel:write", byServerId)
+    .input(CreateShovelSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam, name } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        const capabilities = await detectPluginCapabilities(client);
+        if (!capabilities.shovel) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: te(ctx.locale, "rabbitmq.shovelPluginNotEnabled"),
+          });
+        }
+
+        await client.putShovel(vhost, name, toShovelDefinition(input));
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.shovel.created",
+          category: "rabbitmq",
+          entityType: "shovel",
+          entityId: name,
+          entityLabel: `${name}@${vhost}`,
+          serverId,
+          vhost,
+          metadata: {
+            sourceUris: input.source.uris.map(redactAmqpUri),
+            sourceQueue: input.source.queue ?? null,
+            sourceExchange: input.source.exchange ?? null,
+            destinationUris: input.destination.uris.map(redactAmqpUri),
+            destinationQueue: input.destination.queue ?? null,
+            destinationExchange: input.destination.exchange ?? null,
+            ackMode: input.ackMode,
+            deleteAfter: input.deleteAfter,
+          },
+        });
+
+        return {
+          success: true,
+          message: `Shovel "${name}" saved`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          `Error saving shovel "${name}" for server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToSaveShovel"),
+        });
+      }
+    }),
+
+  /**
+   * Delete a dynamic shovel (ADMIN ONLY)
+   */
+  delete: workspacePermissionProcedure("shovel:write", byServerId)
+    .input(ShovelNameSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam, name } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+        await client.deleteShovel(vhost, name);
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.shovel.deleted",
+          category: "rabbitmq",
+          entityType: "shovel",
+          entityId: name,
+          entityLabel: `${name}@${vhost}`,
+          serverId,
+          vhost,
+        });
+
+        return {
+          success: true,
+          message: `Shovel "${name}" deleted`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          `Error deleting shovel "${name}" for server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToDeleteShovel"),
+        });
+      }
+    }),
+
+  /**
+   * Restart a dynamic shovel without changing its definition (ADMIN ONLY)
+   */
+  restart: workspacePermissionProcedure("shovel:write", byServerId)
+    .input(ShovelNameSchema.merge(VHostRequiredQuerySchema))
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, workspaceId, vhost: vhostParam, name } = input;
+
+      try {
+        const server = await verifyServerAccess(serverId, workspaceId);
+        if (!server) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "rabbitmq.serverNotFoundOrAccessDenied"),
+          });
+        }
+
+        const vhost = decodeURIComponent(vhostParam);
+        const client = await createRabbitMQClient(serverId, workspaceId);
+
+        const capabilities = await detectPluginCapabilities(client);
+        if (!capabilities.shovelManagement) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: te(ctx.locale, "rabbitmq.shovelManagementNotEnabled"),
+          });
+        }
+
+        await client.restartShovel(vhost, name);
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.shovel.restarted",
+          category: "rabbitmq",
+          entityType: "shovel",
+          entityId: name,
+          entityLabel: `${name}@${vhost}`,
+          serverId,
+          vhost,
+        });
+
+        return {
+          success: true,
+          message: `Shovel "${name}" restarted`,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error, serverId },
+          `Error restarting shovel "${name}" for server ${serverId}`
+        );
+
+        if (error instanceof TRPCError) throw error;
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToRestartShovel"),
+        });
+      }
+    }),
+});
@@ -0,0 +1,160 @@
+import { TRPCError } from "@trpc/server";
+
+import { prisma } from "@/core/prisma";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  type CredentialRotationErrorCode,
+  getCredentialHygiene,
+  rotateServerPassword,
+  rotationStatus,
+} from "@/services/credential-rotation";
+
+import {
+  PasswordRotationPolicySchema,
+  ServerWorkspaceInputSchema,
+} from "@/schemas/rabbitmq";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import { byServerId, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { loadServer } from "./shared";
+
+import { te } from "@/i18n";
+
+/**
+ * Credential hygiene, spread into the users router: rotating the broker
+ * password Qarote itself connects with, its rotation schedule, and a
+ * review of the broker's users (no permissions, remotely usable `guest`,
+ * unexpected administrators).
+ */
+
+const ROTATION_ERRORS = {
+  status: {
+    passwordRotationNotPermitted: "FORBIDDEN",
+    passwordRotationLockedOut: "INTERNAL_SERVER_ERROR",
+    passwordRotationConflict: "CONFLICT",
+  },
+} satisfies CodedErrorMapping<CredentialRotationErrorCode>;
+
+export const credentialProcedures = {
+  /**
+   * Broker users worth a second look, and the connection password's
+   * rotation status (ADMIN ONLY).
+   */
+  getCredentialHygiene: workspacePermissionProcedure("broker_user:read")
+    .input(ServerWorkspaceInputSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const server = await loadServer(ctx, input);
+        return await getCredentialHygiene(server);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error checking broker credentials on server ${input.serverId}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToCheckCredentials"),
+        });
+      }
+    }),
+
+  /**
+   * Rotate the connection password now (ADMIN ONLY). The new password is
+   * never returned — only Qarote needs it.
+   */
+  rotateConnectionPassword: workspacePermissionProcedure(
+    "server:update",
+    byServerId
+  )
+    .input(ServerWorkspaceInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { serverId } = input;
+
+      try {
+        const server = await loadServer(ctx, input);
+        const result = await rotateServerPassword(server.id);
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.server.password.rotated",
+          category: "rabbitmq",
+          entityType: "server",
+          entityId: server.id,
+          entityLabel: server.name,
+          serverId,
+          vhost: server.vhost,
+          metadata: { username: result.username, scheduled: false },
+        });
+
+        return { rotatedAt: result.rotatedAt };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error rotating broker password on server ${serverId}`
+        );
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToRotatePassword",
+          ROTATION_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Set the rotation cadence (null = on demand only) and the expected
+   * administrators (ADMIN ONLY).
+   */
+  setPasswordRotationPolicy: workspacePermissionProcedure(
+    "server:update",
+    byServerId
+  )
+    .input(PasswordRotationPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      const { serverId, rotationDays } = input;
+      const expectedAdmins = [...new Set(input.expectedAdmins)].sort();
+
+      try {
+        const server = await loadServer(ctx, input);
+        const updated = await prisma.rabbitMQServer.update({
+          where: { id: server.id },
+          data: {
+            passwordRotationDays: rotationDays,
+            expectedBrokerAdmins: expectedAdmins,
+          },
+        });
+
+        void recordFromContext(ctx, {
+          action: "rabbitmq.server.password_rotation_policy.updated",
+          category: "rabbitmq",
+          entityType: "server",
+          entityId: server.id,
+          entityLabel: server.name,
+          serverId,
+          vhost: server.vhost,
+          metadata: {
+            rotationDays: {
+              from: server.passwordRotationDays,
+              to: rotationDays,
+            },
+            expectedAdmins,
+          },
+        });
+
+        return rotationStatus(updated);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error updating password rotation policy on server ${serverId}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.failedToUpdateRotationPolicy"),
+        });
+      }
+    }),
+};
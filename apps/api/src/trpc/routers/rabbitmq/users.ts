@@ -16,6 +16,7 @@ import { UserMapper } from "@/mappers/rabbitmq";
 import { router, workspacePermissionProcedure } from "@/trpc/trpc";
 
 import { createRabbitMQClientFromServer, verifyServerAccess } from "./shared";
+import { credentialProcedures } from "./users-credentials";
 
 import { te } from "@/i18n";
 
@@ -487,4 +488,6 @@ export const usersRouter = router({
         });
       }
     }),
+
+  ...credentialProcedures,
 });
@@ -0,0 +1,316 @@
+import { TRPCError } from "@trpc/server";
+
+import { abortableSleep } from "@/core/utils";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  assertTargetVhostFree,
+  buildClonePlan,
+  type CloneOptions,
+  getCloneOperation,
+  loadCloneSource,
+  planSteps,
+  runVHostClone,
+  serializeCloneOperation,
+  VHostCloneError,
+  type VHostCloneErrorCode,
+} from "@/services/vhost-clone";
+
+import {
+  CloneVHostSchema,
+  PreviewVHostCloneSchema,
+  VHostCloneIdSchema,
+} from "@/schemas/rabbitmq";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import {
+  assertWorkspacePermission,
+  byServerId,
+  type PermissionCheckOpts,
+  workspacePermissionProcedure,
+} from "@/trpc/trpc";
+
+import { createRabbitMQClientFromServer, loadServer } from "./shared";
+
+import { VHostCloneStatus } from "@/generated/prisma/client";
+import { te } from "@/i18n";
+
+/**
+ * vhost.clone, spread into the vhost router: copy a vhost's topology,
+ * limits and (optionally) users and permissions to a new vhost on the
+ * same or another server, with rename rules.
+ *
+ * The procedure gate (`definitions:export`) covers the source server —
+ * the input's `serverId`. Writing to the target needs `definitions:import`
+ * there, checked in `loadEndpoints` with the gate's own checks
+ * (`assertWorkspacePermission`).
+ */
+
+// Progress is read back from Postgres; a second is plenty for a step list.
+const PROGRESS_POLL_MS = 1000;
+
+// How long the watcher waits for the mutation to create the run.
+const WAIT_FOR_RUN_MS = 15_000;
+
+type CloneInput = {
+  serverId: string;
+  workspaceId: string;
+  vhostName: string;
+  targetServerId: string;
+  targetVhost: string;
+  renameRules: CloneOptions["renameRules"];
+  excludeUsers: boolean;
+};
+
+const CLONE_ERRORS = {
+  status: {
+    vhostCloneTargetExists: "CONFLICT",
+    vhostCloneSourceNotFound: "NOT_FOUND",
+    vhostCloneExists: "CONFLICT",
+  },
+} satisfies CodedErrorMapping<VHostCloneErrorCode>;
+
+async function loadEndpoints(
+  procedure: PermissionCheckOpts,
+  input: CloneInput
+) {
+  const { ctx } = procedure;
+  const [sourceServer, targetServer] = await Promise.all([
+    loadServer(ctx, input),
+    loadServer(ctx, {
+      serverId: input.targetServerId,
+      workspaceId: input.workspaceId,
+    }),
+  ]);
+  assertWorkspacePermission(procedure, "definitions:import", targetServer);
+
+  const sourceClient = createRabbitMQClientFromServer(sourceServer);
+  return {
+    sourceServer,
+    targetServer,
+    source: {
+      serverId: sourceServer.id,
+      client: sourceClient,
+      vhost: input.vhostName,
+    },
+    target: {
+      serverId: targetServer.id,
+      client:
+        targetServer.id === sourceServer.id
+          ? sourceClient
+          : createRabbitMQClientFromServer(targetServer),
+      vhost: input.targetVhost,
+    },
+  };
+}
+
+export const vhostCloneProcedures = {
+  /**
+   * What a clone would write, without touching either server (ADMIN ONLY).
+   */
+  previewClone: workspacePermissionProcedure("definitions:export", byServerId)
+    .input(PreviewVHostCloneSchema)
+    .query(async ({ input, ctx, path }) => {
+      try {
+        const { source, target } = await loadEndpoints(
+          { ctx, path, type: "query" },
+          input
+        );
+        const options = {
+          renameRules: input.renameRules,
+          excludeUsers: input.excludeUsers,
+        };
+        const [sourceData, targetExists] = await Promise.all([
+          loadCloneSource(source.client, source.vhost),
+          assertTargetVhostFree(target).then(
+            () => false,
+            (error: unknown) => {
+              if (
+                error instanceof VHostCloneError &&
+                error.code === "vhostCloneTargetExists"
+              ) {
+                return true;
+              }
+              throw error;
+            }
+          ),
+        ]);
+        const plan = buildClonePlan(sourceData, options);
+
+        return {
+          targetExists,
+          steps: planSteps(plan, options, source.serverId === target.serverId),
+          users: plan.users,
+          renamed: plan.renamed,
+          skipped: plan.skipped,
+          warnings: plan.warnings,
+        };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error previewing clone of vhost ${input.vhostName} on server ${input.serverId}`
+        );
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToPreviewVhostClone",
+          CLONE_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Clone the vhost (ADMIN ONLY). The run is recorded and audited on both
+   * servers whether it completes or stops at a failed step.
+   */
+  cloneVHost: workspacePermissionProcedure("definitions:export", byServerId)
+    .input(CloneVHostSchema)
+    .mutation(async ({ input, ctx, path }) => {
+      const { operationId } = input;
+
+      try {
+        const { sourceServer, targetServer, source, target } =
+          await loadEndpoints({ ctx, path, type: "mutation" }, input);
+        const operation = await runVHostClone({
+          id: operationId,
+          workspaceId: ctx.workspaceId,
+          requestedById: ctx.user.id,
+          source,
+          target,
+          options: {
+            renameRules: input.renameRules,
+            excludeUsers: input.excludeUsers,
+          },
+        });
+        const result = serializeCloneOperation(operation);
+
+        const action =
+          operation.status === VHostCloneStatus.COMPLETED
+            ? "rabbitmq.vhost.cloned"
+            : "rabbitmq.vhost.clone_failed";
+        const metadata = {
+          cloneId: operationId,
+          status: operation.status,
+          error: operation.error,
+          steps: result.steps.map(({ step, status, count }) => ({
+            step,
+            status,
+            count,
+          })),
+          renamed: result.report?.renamed.length ?? 0,
+          excludeUsers: input.excludeUsers,
+        };
+        void recordFromContext(ctx, {
+          action,
+          category: "rabbitmq",
+          entityType: "vhost",
+          entityId: source.vhost,
+          entityLabel: source.vhost,
+          serverId: sourceServer.id,
+          vhost: source.vhost,
+          metadata: {
+            ...metadata,
+            role: "source",
+            targetServerId: targetServer.id,
+            targetServerName: targetServer.name,
+            targetVhost: target.vhost,
+          },
+        });
+        void recordFromContext(ctx, {
+          action,
+          category: "rabbitmq",
+          entityType: "vhost",
+          entityId: target.vhost,
+          entityLabel: target.vhost,
+          serverId: targetServer.id,
+          vhost: target.vhost,
+          metadata: {
+            ...metadata,
+            role: "target",
+            sourceServerId: sourceServer.id,
+            sourceServerName: sourceServer.name,
+            sourceVhost: source.vhost,
+          },
+        });
+
+        return result;
+      } catch (error) {
+        ctx.logger.error(
+          { error, operationId },
+          `Error cloning vhost ${input.vhostName} on server ${input.serverId}`
+        );
+        throwAsTRPCError(
+          ctx,
+          error,
+          "rabbitmq.failedToCloneVhost",
+          CLONE_ERRORS
+        );
+      }
+    }),
+
+  /** A clone run, from either of its servers (vhost:read). */
+  getClone: workspacePermissionProcedure("vhost:read", byServerId)
+    .input(VHostCloneIdSchema)
+    .query(async ({ input, ctx }) => {
+      const operation = await getCloneOperation(
+        input.operationId,
+        input.workspaceId
+      );
+      if (
+        !operation ||
+        (operation.sourceServerId !== input.serverId &&
+          operation.targetServerId !== input.serverId)
+      ) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "rabbitmq.vhostCloneNotFound"),
+        });
+      }
+      return serializeCloneOperation(operation);
+    }),
+
+  /**
+   * Progress of a clone run — SSE subscription (vhost:read). Each event
+   * carries the whole step list; the stream ends once the run finishes or
+   * is found interrupted.
+   */
+  watchClone: workspacePermissionProcedure("vhost:read", byServerId)
+    .input(VHostCloneIdSchema)
+    .subscription(async function* ({ input, ctx, signal }) {
+      if (!signal) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "rabbitmq.subscriptionRequiresAbortSignal"),
+        });
+      }
+
+      const waitUntil = Date.now() + WAIT_FOR_RUN_MS;
+      while (!signal.aborted) {
+        const operation = await getCloneOperation(
+          input.operationId,
+          input.workspaceId
+        );
+        if (
+          !operation ||
+          (operation.sourceServerId !== input.serverId &&
+            operation.targetServerId !== input.serverId)
+        ) {
+          if (Date.now() > waitUntil) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: te(ctx.locale, "rabbitmq.vhostCloneNotFound"),
+            });
+          }
+          await abortableSleep(PROGRESS_POLL_MS, signal);
+          continue;
+        }
+
+        const summary = serializeCloneOperation(operation);
+        yield summary;
+
+        if (summary.status !== VHostCloneStatus.RUNNING || summary.interrupted)
+          break;
+        await abortableSleep(PROGRESS_POLL_MS, signal);
+      }
+    }),
+};
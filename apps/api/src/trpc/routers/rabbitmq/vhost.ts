@@ -20,6 +20,7 @@ import { VHostMapper } from "@/mappers/rabbitmq";
 import { router, workspacePermissionProcedure } from "@/trpc/trpc";
 
 import { createRabbitMQClient, verifyServerAccess } from "./shared";
+import { vhostCloneProcedures } from "./vhost-clone";
 
 import { te } from "@/i18n";
 
@@ -651,4 +652,6 @@ export const vhostRouter = router({
         });
       }
     }),
+
+  ...vhostCloneProcedures,
 });
@@ -0,0 +1,186 @@
+/**
+ * Self-Hosted Notification Outbox Router
+ * Lets the platform admin inspect, replay and purge outbox rows via the UI —
+ * the only way to tell why an email or alert never reached its recipient
+ */
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod/v4";
+
+import { recordFromContext } from "@/services/audit";
+import { NOTIFICATION_CHANNELS } from "@/services/notification/notification-outbox.service";
+import {
+  getOutboxOverview,
+  getOutboxRow,
+  listOutboxRows,
+  OUTBOX_STATUSES,
+  type OutboxConsoleErrorCode,
+  PURGEABLE_OUTBOX_STATUSES,
+  purgeOutboxRows,
+  replayOutboxRow,
+} from "@/services/notification/outbox-console.service";
+
+import { isSelfHostedMode } from "@/config/deployment";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import { rateLimitedOrgAdminProcedure, router } from "@/trpc/trpc";
+
+import { te } from "@/i18n";
+
+/**
+ * Admin procedure that only runs in self-hosted mode AND only for the
+ * bootstrap organization (the first org created by `bootstrap-admin.ts`).
+ *
+ * The outbox is shared by the whole instance — its rows name every
+ * tenant's recipients, and a replay or re-target sends mail on their
+ * behalf — so only whoever provisioned the instance may operate it.
+ */
+const selfHostedProcedure = rateLimitedOrgAdminProcedure.use(async (opts) => {
+  if (!isSelfHostedMode()) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: te(opts.ctx.locale, "outbox.selfHostedOnly"),
+    });
+  }
+
+  const bootstrapOrg = await opts.ctx.prisma.organization.findFirst({
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+  if (!bootstrapOrg || bootstrapOrg.id !== opts.ctx.organizationId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: te(opts.ctx.locale, "outbox.platformAdminOnly"),
+    });
+  }
+
+  return opts.next();
+});
+
+const outboxFilterSchema = z.object({
+  channel: z.enum(NOTIFICATION_CHANNELS).optional(),
+  status: z.enum(OUTBOX_STATUSES).optional(),
+  template: z.string().min(1).max(64).optional(),
+});
+
+const OUTBOX_ERRORS = {
+  namespace: "outbox",
+  status: { rowNotFound: "NOT_FOUND", rowNotFailed: "CONFLICT" },
+  logMessage: "Notification outbox console request failed",
+} satisfies CodedErrorMapping<OutboxConsoleErrorCode>;
+
+export const selfhostedOutboxRouter = router({
+  /**
+   * Row counts per channel and status, known templates, and the drain
+   * worker's circuit breaker states
+   */
+  overview: selfHostedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getOutboxOverview();
+    } catch (error) {
+      throwAsTRPCError(ctx, error, "outbox.failedToLoad", OUTBOX_ERRORS);
+    }
+  }),
+
+  /**
+   * Outbox rows, newest first, filtered by channel / status / template
+   */
+  list: selfHostedProcedure
+    .input(
+      outboxFilterSchema.extend({
+        cursor: z.string().uuid().optional(),
+        limit: z.number().int().min(1).max(100).default(50),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        return await listOutboxRows(input);
+      } catch (error) {
+        throwAsTRPCError(ctx, error, "outbox.failedToLoad", OUTBOX_ERRORS);
+      }
+    }),
+
+  /**
+   * One row with its idempotency key and attempt history
+   */
+  get: selfHostedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getOutboxRow(input.id);
+      } catch (error) {
+        throwAsTRPCError(ctx, error, "outbox.failedToLoad", OUTBOX_ERRORS);
+      }
+    }),
+
+  /**
+   * Requeue a FAILED row with fresh attempts, optionally to a new target
+   */
+  replay: selfHostedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        target: z.string().trim().min(1).max(320).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const before = await getOutboxRow(input.id);
+        const row = await replayOutboxRow(input.id, { target: input.target });
+        const retargeted = row.target !== before.target;
+        void recordFromContext(ctx, {
+          action: retargeted
+            ? "notification_outbox.retargeted"
+            : "notification_outbox.replayed",
+          category: "system",
+          entityType: "notification_outbox",
+          entityId: row.id,
+          entityLabel: `${row.channel}/${row.template}`,
+          metadata: {
+            lastError: before.lastError,
+            attempts: before.attempts,
+            ...(retargeted && { from: before.target, to: row.target }),
+          },
+          workspaceId: null,
+        });
+        return row;
+      } catch (error) {
+        throwAsTRPCError(ctx, error, "outbox.failedToReplay", OUTBOX_ERRORS);
+      }
+    }),
+
+  /**
+   * Delete SENT, FAILED or CANCELLED rows matching the filter, or only
+   * the selected ones
+   */
+  purge: selfHostedProcedure
+    .input(
+      outboxFilterSchema.extend({
+        status: z.enum(PURGEABLE_OUTBOX_STATUSES),
+        ids: z.array(z.string().uuid()).min(1).max(500).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const deleted = await purgeOutboxRows(input);
+        void recordFromContext(ctx, {
+          action: "notification_outbox.purged",
+          category: "system",
+          entityType: "notification_outbox",
+          entityId: null,
+          entityLabel: input.status,
+          metadata: {
+            status: input.status,
+            channel: input.channel ?? null,
+            template: input.template ?? null,
+            selected: input.ids?.length ?? null,
+            deleted,
+          },
+          workspaceId: null,
+        });
+        return { deleted };
+      } catch (error) {
+        throwAsTRPCError(ctx, error, "outbox.failedToPurge", OUTBOX_ERRORS);
+      }
+    }),
+});
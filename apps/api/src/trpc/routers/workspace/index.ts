@@ -4,7 +4,10 @@ import { coreRouter } from "./core";
 import { dataRouter } from "./data.ce";
 import { invitationRouter } from "./invitation";
 import { managementRouter } from "./management";
+import { notificationChannelsRouter } from "./notification-channels";
+import { notificationRoutingRouter } from "./notification-routing";
 import { roleRouter } from "./role";
+import { webhooksRouter } from "./webhooks";
 
 /**
  * CE workspace router — no EE imports.
@@ -17,4 +20,7 @@ export const workspaceRouter = router({
   invitation: invitationRouter,
   data: dataRouter,
   role: roleRouter,
+  notificationChannels: notificationChannelsRouter,
+  notificationRouting: notificationRoutingRouter,
+  webhooks: webhooksRouter,
 });
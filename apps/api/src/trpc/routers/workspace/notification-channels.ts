@@ -0,0 +1,239 @@
+import { TRPCError } from "@trpc/server";
+
+import {
+  type AlertChannel,
+  createAlertChannelConfig,
+  deleteAlertChannelConfig,
+  listAlertChannelConfigs,
+  loadChannelTarget,
+  sendTestAlert,
+  toAlertNotificationPayload,
+  updateAlertChannelConfig,
+} from "@/services/alert-channels";
+import { recordFromContext } from "@/services/audit";
+
+import {
+  AlertChannelIdSchema,
+  CreateAlertChannelSchema,
+  UpdateAlertChannelSchema,
+} from "@/schemas/alerts";
+import { WorkspaceIdParamSchema } from "@/schemas/workspace";
+
+import { router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { te } from "@/i18n";
+
+/**
+ * PagerDuty, Opsgenie and Teams alert channels of the workspace. Alerts
+ * reach them through the notification outbox; `test` bypasses it so the
+ * settings page can report the provider's answer right away.
+ */
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  pagerduty: "PagerDuty",
+  opsgenie: "Opsgenie",
+  teams: "Microsoft Teams",
+};
+
+export const notificationChannelsRouter = router({
+  /**
+   * List the workspace's alert channels, secrets masked
+   */
+  list: workspacePermissionProcedure("notification_channel:read")
+    .input(WorkspaceIdParamSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await listAlertChannelConfigs(ctx.workspaceId);
+      } catch (error) {
+        ctx.logger.error({ error }, "Error listing alert channels");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToGetChannelConfigs"),
+        });
+      }
+    }),
+
+  /**
+   * Add a PagerDuty, Opsgenie or Teams channel
+   */
+  create: workspacePermissionProcedure("notification_channel:write")
+    .input(CreateAlertChannelSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { id } = await createAlertChannelConfig(ctx.workspaceId, input);
+
+        void recordFromContext(ctx, {
+          action: "alert.notification_channel.created",
+          category: "alert",
+          entityType: "notification_channel",
+          entityId: id,
+          entityLabel: input.name,
+          metadata: {
+            channel: input.channel,
+            severities: input.severities,
+            enabled: input.enabled,
+          },
+        });
+
+        return { id };
+      } catch (error) {
+        ctx.logger.error(
+          { error },
+          `Error creating ${input.channel} alert channel`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToSaveChannelConfig"),
+        });
+      }
+    }),
+
+  /**
+   * Update a channel. Omitted secrets keep the stored value.
+   */
+  update: workspacePermissionProcedure("notification_channel:write")
+    .input(UpdateAlertChannelSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const updated = await updateAlertChannelConfig(ctx.workspaceId, input);
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "alerts.channelConfigNotFound"),
+          });
+        }
+
+        const {
+          workspaceId: _workspaceId,
+          id: _id,
+          channel,
+          ...changes
+        } = input;
+        void recordFromContext(ctx, {
+          action: "alert.notification_channel.updated",
+          category: "alert",
+          entityType: "notification_channel",
+          entityId: input.id,
+          entityLabel: input.name,
+          metadata: {
+            channel,
+            // Field names only — never the secret values
+            changed: Object.keys(changes).filter(
+              (key) => changes[key as keyof typeof changes] !== undefined
+            ),
+          },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error updating ${input.channel} alert channel ${input.id}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToSaveChannelConfig"),
+        });
+      }
+    }),
+
+  /**
+   * Remove a channel. Rows already queued for it are dropped at dispatch.
+   */
+  delete: workspacePermissionProcedure("notification_channel:delete")
+    .input(AlertChannelIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const deleted = await deleteAlertChannelConfig(
+          ctx.workspaceId,
+          input.channel,
+          input.id
+        );
+        if (!deleted) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "alerts.channelConfigNotFound"),
+          });
+        }
+
+        void recordFromContext(ctx, {
+          action: "alert.notification_channel.deleted",
+          category: "alert",
+          entityType: "notification_channel",
+          entityId: input.id,
+          metadata: { channel: input.channel },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error deleting ${input.channel} alert channel ${input.id}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToDeleteChannelConfig"),
+        });
+      }
+    }),
+
+  /**
+   * Send a sample alert through a channel. PagerDuty and Opsgenie get the
+   * matching resolve straight after, so nobody is left with an open
+   * incident.
+   */
+  test: workspacePermissionProcedure("notification_channel:write")
+    .input(AlertChannelIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const config = await loadChannelTarget(
+        input.channel,
+        input.id,
+        ctx.workspaceId
+      );
+      if (!config) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "alerts.channelConfigNotFound"),
+        });
+      }
+
+      const now = new Date();
+      const result = await sendTestAlert(
+        config.target,
+        toAlertNotificationPayload({
+          id: `test-${now.getTime()}`,
+          workspaceId: ctx.workspaceId,
+          fingerprint: null,
+          title: "Test alert from Qarote",
+          description: `This is a test alert sent to ${CHANNEL_LABELS[input.channel]} channel "${config.name}". No action is needed.`,
+          severity: "INFO",
+          serverId: null,
+          serverName: null,
+          vhost: null,
+          category: null,
+          sourceType: null,
+          sourceName: null,
+          value: null,
+          threshold: null,
+          createdAt: now,
+          firstSeenAt: now,
+          resolvedAt: null,
+        })
+      );
+      if (!result.success) {
+        ctx.logger.warn(
+          { channel: input.channel, configId: input.id, error: result.error },
+          "Test alert was not delivered"
+        );
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: te(ctx.locale, "alerts.channelTestFailed", {
+            error: result.error ?? "",
+          }),
+        });
+      }
+      return { success: true };
+    }),
+});
@@ -0,0 +1,302 @@
+import { recordFromContext } from "@/services/audit";
+import {
+  createEscalationPolicy,
+  createRoutingRule,
+  deleteEscalationPolicy,
+  deleteRoutingRule,
+  listEscalationPolicies,
+  listRoutingRules,
+  listRoutingTargets,
+  type NotificationRoutingErrorCode,
+  reorderRoutingRules,
+  updateEscalationPolicy,
+  updateRoutingRule,
+} from "@/services/notification-routing";
+
+import {
+  CreateEscalationPolicySchema,
+  CreateRoutingRuleSchema,
+  EscalationPolicyIdSchema,
+  ReorderRoutingRulesSchema,
+  RoutingRuleIdSchema,
+  UpdateEscalationPolicySchema,
+  UpdateRoutingRuleSchema,
+} from "@/schemas/alerts";
+import { WorkspaceIdParamSchema } from "@/schemas/workspace";
+
+import { type CodedErrorMapping, throwAsTRPCError } from "@/trpc/errors";
+import { router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+const ROUTING_ERRORS = {
+  namespace: "alerts",
+  status: {
+    routingRuleNotFound: "NOT_FOUND",
+    escalationPolicyNotFound: "NOT_FOUND",
+    escalationTargetNotFound: "NOT_FOUND",
+    escalationPolicyInUse: "CONFLICT",
+  },
+  logMessage: "Notification routing request failed",
+} satisfies CodedErrorMapping<NotificationRoutingErrorCode>;
+
+/**
+ * Routing rules and escalation policies of the workspace: which channels,
+ * webhooks and email recipients an alert reaches, and who is notified
+ * next when nobody acknowledges it. Gated by the notification channel permissions —
+ * routing decides where those channels' alerts go.
+ */
+export const notificationRoutingRouter = router({
+  /**
+   * Routing rules in evaluation order
+   */
+  listRules: workspacePermissionProcedure("notification_channel:read")
+    .input(WorkspaceIdParamSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await listRoutingRules(ctx.workspaceId);
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToGetRoutingRules",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Add a rule at the end of the order
+   */
+  createRule: workspacePermissionProcedure("notification_channel:write")
+    .input(CreateRoutingRuleSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { workspaceId: _workspaceId, ...rule } = input;
+        const { id } = await createRoutingRule(ctx.workspaceId, rule);
+
+        void recordFromContext(ctx, {
+          action: "alert.routing_rule.created",
+          category: "alert",
+          entityType: "routing_rule",
+          entityId: id,
+          entityLabel: input.name,
+          metadata: { ...rule },
+        });
+
+        return { id };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToSaveRoutingRule",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Update a rule. Omitted fields keep their value.
+   */
+  updateRule: workspacePermissionProcedure("notification_channel:write")
+    .input(UpdateRoutingRuleSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { workspaceId: _workspaceId, id, ...changes } = input;
+        await updateRoutingRule(ctx.workspaceId, { id, ...changes });
+
+        void recordFromContext(ctx, {
+          action: "alert.routing_rule.updated",
+          category: "alert",
+          entityType: "routing_rule",
+          entityId: id,
+          entityLabel: input.name,
+          metadata: { changes },
+        });
+
+        return { success: true };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToSaveRoutingRule",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Remove a rule. Escalations it already queued still run.
+   */
+  deleteRule: workspacePermissionProcedure("notification_channel:delete")
+    .input(RoutingRuleIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await deleteRoutingRule(ctx.workspaceId, input.id);
+
+        void recordFromContext(ctx, {
+          action: "alert.routing_rule.deleted",
+          category: "alert",
+          entityType: "routing_rule",
+          entityId: input.id,
+        });
+
+        return { success: true };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToDeleteRoutingRule",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Set the evaluation order; `ruleIds` lists every rule once
+   */
+  reorderRules: workspacePermissionProcedure("notification_channel:write")
+    .input(ReorderRoutingRulesSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await reorderRoutingRules(ctx.workspaceId, input.ruleIds);
+
+        void recordFromContext(ctx, {
+          action: "alert.routing_rule.reordered",
+          category: "alert",
+          entityType: "routing_rule",
+          metadata: { ruleIds: input.ruleIds },
+        });
+
+        return { success: true };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToSaveRoutingRule",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Everything a policy step can notify
+   */
+  listTargets: workspacePermissionProcedure("notification_channel:read")
+    .input(WorkspaceIdParamSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await listRoutingTargets(ctx.workspaceId);
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToGetRoutingTargets",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Escalation policies with the number of rules using each
+   */
+  listPolicies: workspacePermissionProcedure("notification_channel:read")
+    .input(WorkspaceIdParamSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await listEscalationPolicies(ctx.workspaceId);
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToGetEscalationPolicies",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Add a policy; every step target must be one of `listTargets`
+   */
+  createPolicy: workspacePermissionProcedure("notification_channel:write")
+    .input(CreateEscalationPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { workspaceId: _workspaceId, ...policy } = input;
+        const { id } = await createEscalationPolicy(ctx.workspaceId, policy);
+
+        void recordFromContext(ctx, {
+          action: "alert.escalation_policy.created",
+          category: "alert",
+          entityType: "escalation_policy",
+          entityId: id,
+          entityLabel: input.name,
+          metadata: { steps: input.steps },
+        });
+
+        return { id };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToSaveEscalationPolicy",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Update a policy. New steps apply to alerts fired from now on.
+   */
+  updatePolicy: workspacePermissionProcedure("notification_channel:write")
+    .input(UpdateEscalationPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const { workspaceId: _workspaceId, id, ...changes } = input;
+        await updateEscalationPolicy(ctx.workspaceId, { id, ...changes });
+
+        void recordFromContext(ctx, {
+          action: "alert.escalation_policy.updated",
+          category: "alert",
+          entityType: "escalation_policy",
+          entityId: id,
+          entityLabel: input.name,
+          metadata: { changes },
+        });
+
+        return { success: true };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToSaveEscalationPolicy",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+
+  /**
+   * Remove a policy no rule routes to
+   */
+  deletePolicy: workspacePermissionProcedure("notification_channel:delete")
+    .input(EscalationPolicyIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await deleteEscalationPolicy(ctx.workspaceId, input.id);
+
+        void recordFromContext(ctx, {
+          action: "alert.escalation_policy.deleted",
+          category: "alert",
+          entityType: "escalation_policy",
+          entityId: input.id,
+        });
+
+        return { success: true };
+      } catch (error) {
+        throwAsTRPCError(
+          ctx,
+          error,
+          "alerts.failedToDeleteEscalationPolicy",
+          ROUTING_ERRORS
+        );
+      }
+    }),
+});
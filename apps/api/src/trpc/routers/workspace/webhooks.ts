@@ -0,0 +1,187 @@
+import { TRPCError } from "@trpc/server";
+
+import { recordFromContext } from "@/services/audit";
+import {
+  listWebhookDeliveries,
+  listWebhooks,
+  rotateWebhookSecret,
+  sendWebhookTest,
+  updateWebhookSubscriptions,
+} from "@/services/webhooks";
+
+import {
+  RotateWebhookSecretSchema,
+  UpdateWebhookSubscriptionsSchema,
+  WebhookDeliveriesSchema,
+  WorkspaceWebhookIdSchema,
+} from "@/schemas/alerts";
+import { WorkspaceIdParamSchema } from "@/schemas/workspace";
+
+import { router, workspacePermissionProcedure } from "@/trpc/trpc";
+
+import { te } from "@/i18n";
+
+/**
+ * Signing, event subscriptions and delivery history of the workspace's
+ * webhooks. Deliveries go through the notification outbox, so the log is
+ * its attempt history; `test` bypasses it so the settings page can show
+ * the receiver's answer right away.
+ */
+export const webhooksRouter = router({
+  /**
+   * List the workspace's webhooks, secrets never included
+   */
+  list: workspacePermissionProcedure("webhook:read")
+    .input(WorkspaceIdParamSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await listWebhooks(ctx.workspaceId);
+      } catch (error) {
+        ctx.logger.error({ error }, "Error listing webhooks");
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToGetWebhooks"),
+        });
+      }
+    }),
+
+  /**
+   * Delivery log of one webhook, newest first
+   */
+  deliveries: workspacePermissionProcedure("webhook:read")
+    .input(WebhookDeliveriesSchema)
+    .query(async ({ input, ctx }) => {
+      try {
+        const page = await listWebhookDeliveries(ctx.workspaceId, input.id, {
+          cursor: input.cursor,
+          limit: input.limit,
+        });
+        if (!page) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "alerts.webhookNotFound"),
+          });
+        }
+        return page;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error listing deliveries of webhook ${input.id}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToGetWebhookDeliveries"),
+        });
+      }
+    }),
+
+  /**
+   * Choose the event groups a webhook receives and its payload version
+   */
+  updateSubscriptions: workspacePermissionProcedure("webhook:write")
+    .input(UpdateWebhookSubscriptionsSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const updated = await updateWebhookSubscriptions(
+          ctx.workspaceId,
+          input.id,
+          { events: input.events, version: input.version }
+        );
+        if (!updated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "alerts.webhookNotFound"),
+          });
+        }
+
+        void recordFromContext(ctx, {
+          action: "alert.webhook.subscriptions_updated",
+          category: "alert",
+          entityType: "webhook",
+          entityId: input.id,
+          metadata: { events: input.events, version: input.version },
+        });
+
+        return { success: true };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error updating subscriptions of webhook ${input.id}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToUpdateWebhook"),
+        });
+      }
+    }),
+
+  /**
+   * Generate a new signing secret. The old one keeps signing deliveries
+   * for the overlap window. The new secret is returned once, here.
+   */
+  rotateSecret: workspacePermissionProcedure("webhook:write")
+    .input(RotateWebhookSecretSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const rotated = await rotateWebhookSecret(
+          ctx.workspaceId,
+          input.id,
+          input.overlapHours
+        );
+        if (!rotated) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: te(ctx.locale, "alerts.webhookNotFound"),
+          });
+        }
+
+        void recordFromContext(ctx, {
+          action: "alert.webhook.secret_rotated",
+          category: "alert",
+          entityType: "webhook",
+          entityId: input.id,
+          metadata: {
+            overlapHours: input.overlapHours,
+            previousSecretExpiresAt: rotated.previousSecretExpiresAt,
+          },
+        });
+
+        return rotated;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        ctx.logger.error(
+          { error },
+          `Error rotating the secret of webhook ${input.id}`
+        );
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: te(ctx.locale, "alerts.failedToRotateWebhookSecret"),
+        });
+      }
+    }),
+
+  /**
+   * Send a signed `webhook.test` event and report the receiver's answer.
+   * A failed delivery is a result, not an error — the page shows it.
+   */
+  test: workspacePermissionProcedure("webhook:write")
+    .input(WorkspaceWebhookIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const result = await sendWebhookTest(ctx.workspaceId, input.id);
+      if (!result) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: te(ctx.locale, "alerts.webhookNotFound"),
+        });
+      }
+      if (!result.success) {
+        ctx.logger.warn(
+          { webhookId: input.id, statusCode: result.statusCode },
+          "Test webhook event was not accepted"
+        );
+      }
+      return result;
+    }),
+});
@@ -7,7 +7,7 @@ import { prisma } from "@/core/prisma";
 // Deep import: only pulls in error.ts so test mocks of upstream modules
 // (prisma, config, plan.service) are not transitively required for any
 // procedure that simply uses the errorFormatter.
-import { recordAuditLog } from "@/services/audit";
+import { recordAuditLog, recordFromContext } from "@/services/audit";
 import {
   extractGatePayload,
   throwGateError,
@@ -24,8 +24,11 @@ import {
 
 import {
   apiKeyMutationBlocked,
+  type ApiKeyScope,
+  apiKeyScopeRows,
   apiKeyWorkspaceMismatch,
 } from "@/auth/api-key-scope";
+import type { EffectivePermissions } from "@/auth/effective-permissions";
 import {
   WORKSPACE_PERMISSION_REQUIREMENTS,
   type WorkspacePermission,
@@ -76,6 +79,17 @@ export function extractPropagatedCause(
   return cause;
 }
 
+/**
+ * Static per-procedure metadata, readable by every middleware in the chain —
+ * including ones that run before the middleware that set it.
+ * `workspacePermissionProcedure` records its gating `permission` here so the
+ * API-key mutation floor in `protectedProcedure` can match it against a
+ * write key's grant list.
+ */
+interface ProcedureMeta {
+  permission?: WorkspacePermission;
+}
+
 /**
  * Initialize tRPC with context.
  *
@@ -90,7 +104,9 @@ export function extractPropagatedCause(
  * Default tRPC error fields (`message`, `code`, `httpStatus`, `path`,
  * `stack`) are preserved.
  */
-const t = initTRPC.context<Context>().create({
+const trpcBuilder = initTRPC.context<Context>().meta<ProcedureMeta>();
+
+const t = trpcBuilder.create({
   errorFormatter({ shape, error }) {
     // Defensive: a malformed bag or a non-object `shape.data` must never
     // turn every tRPC error into an opaque 500. We catch any failure during
@@ -220,27 +236,36 @@ export const protectedProcedure = publicProcedure.use(async (opts) => {
     });
   }
 
-  // Read-only floor for machine API keys. A `read`-scoped key may only run
-  // queries — never mutations or subscriptions. This lives in
+  // Mutation floor for machine API keys. A `read` / `explain` key may only
+  // run queries; a `write` key may additionally run mutations whose gating
+  // permission (procedure meta) is in its grant list. This lives in
   // `protectedProcedure` (the chokepoint every authenticated procedure
   // descends from, including orgScoped/workspace) so it cannot be bypassed,
   // and it is a floor independent of the creator's live role: a later
   // promotion of the creating user never escalates the key.
-  if (apiKeyMutationBlocked(ctx.apiKeyScope, opts.type)) {
+  if (
+    apiKeyMutationBlocked(ctx.apiKeyScope, opts.type, opts.meta?.permission)
+  ) {
+    const writeKey = ctx.apiKeyScope?.mode === "write";
     logAuthorizationDenial(opts, {
       userId: ctx.user.id,
       userEmail: ctx.user.email,
       workspaceId: ctx.workspaceId,
-      requiredRole: "QUERY_ONLY",
+      requiredRole: writeKey ? "API_KEY_PERMISSION" : "QUERY_ONLY",
       actualRole: null,
-      reason: "api_key_read_only",
+      reason: writeKey
+        ? `api_key_permission_not_granted:${opts.meta?.permission ?? "none"}`
+        : "api_key_read_only",
       ipAddress: ctx.remoteIp,
       userAgent: ctx.userAgent,
       apiKeyId: ctx.apiKeyId,
     });
     throw new TRPCError({
       code: "FORBIDDEN",
-      message: te(ctx.locale, "auth.apiKeyReadOnly"),
+      message: te(
+        ctx.locale,
+        writeKey ? "auth.apiKeyPermissionNotGranted" : "auth.apiKeyReadOnly"
+      ),
     });
   }
 
@@ -535,6 +560,167 @@ export const workspaceOwnerProcedure = workspaceProcedure.use(async (opts) => {
   return opts.next();
 });
 
+/** The workspace procedure context the permission checks read. */
+export type PermissionCheckOpts = {
+  ctx: Pick<
+    Context,
+    "locale" | "remoteIp" | "userAgent" | "apiKeyScope" | "apiKeyId"
+  > & {
+    user: { id: string; email: string };
+    workspaceId: string;
+    workspaceRole: WorkspaceRole | null;
+    effectivePermissions: EffectivePermissions;
+  };
+  path: string;
+  type: "query" | "mutation" | "subscription";
+};
+
+/** The write-mode API key behind a mutation, which must admit it too. */
+function writeKeyOf(opts: PermissionCheckOpts): ApiKeyScope | null {
+  return opts.type === "mutation" && opts.ctx.apiKeyScope?.mode === "write"
+    ? opts.ctx.apiKeyScope
+    : null;
+}
+
+/** The role, then the write key behind a mutation, must grant `permission`. */
+function assertPermissionGranted(
+  opts: PermissionCheckOpts,
+  permission: WorkspacePermission
+): void {
+  const { ctx } = opts;
+  // Effective-permissions check — honors both built-in tier
+  // promotion (`hasPermission(role, key)` semantics) and custom
+  // role permissions from the new `RolePermission` rows.
+  if (!ctx.effectivePermissions.permissions.has(permission)) {
+    logAuthorizationDenial(opts, {
+      userId: ctx.user.id,
+      userEmail: ctx.user.email,
+      workspaceId: ctx.workspaceId,
+      requiredRole: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
+      actualRole: ctx.workspaceRole,
+      reason: `permission_denied:${permission}`,
+      ipAddress: ctx.remoteIp,
+      userAgent: ctx.userAgent,
+    });
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: te(ctx.locale, "auth.workspacePermissionRequired"),
+      cause: {
+        code: "WORKSPACE_PERMISSION",
+        required: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
+        actual: ctx.workspaceRole,
+        permission,
+      },
+    });
+  }
+
+  // A write-mode API key running a mutation. `protectedProcedure` already
+  // matched the procedure meta against the key's grant list; re-check the
+  // key here so a later `.meta()` override can't widen it.
+  const apiKeyWrite = writeKeyOf(opts);
+  if (apiKeyWrite && !apiKeyWrite.permissions?.includes(permission)) {
+    logAuthorizationDenial(opts, {
+      userId: ctx.user.id,
+      userEmail: ctx.user.email,
+      workspaceId: ctx.workspaceId,
+      requiredRole: "API_KEY_PERMISSION",
+      actualRole: ctx.workspaceRole,
+      reason: `api_key_permission_not_granted:${permission}`,
+      ipAddress: ctx.remoteIp,
+      userAgent: ctx.userAgent,
+      apiKeyId: ctx.apiKeyId,
+    });
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: te(ctx.locale, "auth.apiKeyPermissionNotGranted"),
+    });
+  }
+}
+
+/**
+ * Custom-role scope rows (when `roleScoped`) and the write key's own
+ * server / environment scopes must both admit `resourceCtx`.
+ */
+function assertPermissionScope(
+  opts: PermissionCheckOpts,
+  permission: WorkspacePermission,
+  resourceCtx: ResourceCtx,
+  roleScoped: boolean
+): void {
+  const { ctx } = opts;
+  if (roleScoped && ctx.effectivePermissions.kind === "custom") {
+    // Filter the actor's scope rows down to the key under check.
+    const matchingRows = ctx.effectivePermissions.scopeRows.filter(
+      (row) => row.permissionKey === permission
+    );
+    if (!evaluateScope(matchingRows, resourceCtx)) {
+      logAuthorizationDenial(opts, {
+        userId: ctx.user.id,
+        userEmail: ctx.user.email,
+        workspaceId: ctx.workspaceId,
+        requiredRole: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
+        actualRole: ctx.workspaceRole,
+        reason: `scope_denied:${permission}`,
+        ipAddress: ctx.remoteIp,
+        userAgent: ctx.userAgent,
+      });
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: te(ctx.locale, "auth.workspacePermissionRequired"),
+        cause: {
+          code: "WORKSPACE_PERMISSION",
+          required: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
+          actual: ctx.workspaceRole,
+          permission,
+          scopeDenied: true,
+        },
+      });
+    }
+  }
+
+  const apiKeyWrite = writeKeyOf(opts);
+  if (!apiKeyWrite) return;
+  // A scoped key fails closed on procedures with no server context
+  // (no `resourceCtxFn`): the evaluator needs a serverId to admit.
+  if (!evaluateScope(apiKeyScopeRows(apiKeyWrite), resourceCtx)) {
+    logAuthorizationDenial(opts, {
+      userId: ctx.user.id,
+      userEmail: ctx.user.email,
+      workspaceId: ctx.workspaceId,
+      requiredRole: "API_KEY_PERMISSION",
+      actualRole: ctx.workspaceRole,
+      reason: `api_key_scope_denied:${permission}`,
+      ipAddress: ctx.remoteIp,
+      userAgent: ctx.userAgent,
+      apiKeyId: ctx.apiKeyId,
+    });
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: te(ctx.locale, "auth.apiKeyPermissionNotGranted"),
+    });
+  }
+}
+
+/**
+ * The checks of `workspacePermissionProcedure(permission, byServerId)` for
+ * a server the gate never saw — e.g. the target of a cross-server
+ * operation. Denials are logged and thrown as the gate's are; the caller
+ * has already verified the server belongs to the workspace.
+ */
+export function assertWorkspacePermission(
+  opts: PermissionCheckOpts,
+  permission: WorkspacePermission,
+  server: { id: string; environment: string | null }
+): void {
+  assertPermissionGranted(opts, permission);
+  assertPermissionScope(
+    opts,
+    permission,
+    { serverId: server.id, serverEnvironment: server.environment ?? undefined },
+    opts.ctx.effectivePermissions.kind === "custom"
+  );
+}
+
 /**
  * Workspace permission procedure (RBAC Phase 2 + 3, rbac.md §3) —
  * gates on a permission key from the catalog
@@ -560,6 +746,12 @@ export const workspaceOwnerProcedure = workspaceProcedure.use(async (opts) => {
  * Read procedures (`*:read`) intentionally don't carry a scope
  * context in v1 (per plan §3.6) — gates only writes.
  *
+ * **Write-mode API keys**. The permission is recorded in procedure
+ * meta so the key floor in `protectedProcedure` can admit a write
+ * key's mutation only when the key lists it. Here the key's own
+ * server / environment scopes are evaluated on top of the creator's
+ * role, and the mutation is audited with the key as the actor.
+ *
  * Usage (PR-2 style, no scope):
  *   workspacePermissionProcedure("role:read").input(...).query(...)
  *
@@ -595,40 +787,23 @@ export function workspacePermissionProcedure(
   permission: WorkspacePermission,
   resourceCtxFn?: (input: unknown) => { serverId?: string }
 ) {
-  return workspaceProcedure.use(async (opts) => {
+  return workspaceProcedure.meta({ permission }).use(async (opts) => {
     const { ctx } = opts;
-    // Effective-permissions check — honors both built-in tier
-    // promotion (`hasPermission(role, key)` semantics) and custom
-    // role permissions from the new `RolePermission` rows.
-    if (!ctx.effectivePermissions.permissions.has(permission)) {
-      logAuthorizationDenial(opts, {
-        userId: ctx.user.id,
-        userEmail: ctx.user.email,
-        workspaceId: ctx.workspaceId,
-        requiredRole: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
-        actualRole: ctx.workspaceRole,
-        reason: `permission_denied:${permission}`,
-        ipAddress: ctx.remoteIp,
-        userAgent: ctx.userAgent,
-      });
-      throw new TRPCError({
-        code: "FORBIDDEN",
-        message: te(ctx.locale, "auth.workspacePermissionRequired"),
-        cause: {
-          code: "WORKSPACE_PERMISSION",
-          required: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
-          actual: ctx.workspaceRole,
-          permission,
-        },
-      });
-    }
+    assertPermissionGranted(opts, permission);
 
+    const apiKeyWrite = writeKeyOf(opts);
     // Scope evaluation (PR-3). Built-in roles always pass — their
     // catalog grants are unscoped by construction. Custom roles
-    // run the row scope predicate against a server-derived context.
-    if (resourceCtxFn && ctx.effectivePermissions.kind === "custom") {
-      const requested = resourceCtxFn(await opts.getRawInput());
-      let resourceCtx: ResourceCtx = {};
+    // run the row scope predicate against a server-derived context,
+    // and so do write keys against their own server / environment
+    // scopes (both must admit the resource).
+    const roleScoped =
+      !!resourceCtxFn && ctx.effectivePermissions.kind === "custom";
+    let resourceCtx: ResourceCtx = {};
+    if (roleScoped || apiKeyWrite) {
+      const requested = resourceCtxFn
+        ? resourceCtxFn(await opts.getRawInput())
+        : {};
       if (requested.serverId) {
         // IDOR guard — verify the server belongs to this workspace
         // BEFORE evaluating scope. `findFirst` because
@@ -647,6 +822,7 @@ export function workspacePermissionProcedure(
             reason: `scope_server_not_in_workspace:${permission}`,
             ipAddress: ctx.remoteIp,
             userAgent: ctx.userAgent,
+            apiKeyId: ctx.apiKeyId,
           });
           throw new TRPCError({
             code: "NOT_FOUND",
@@ -658,37 +834,26 @@ export function workspacePermissionProcedure(
           serverEnvironment: server.environment ?? undefined,
         };
       }
-
-      // Filter the actor's scope rows down to the key under check.
-      const matchingRows = ctx.effectivePermissions.scopeRows.filter(
-        (row) => row.permissionKey === permission
-      );
-      if (!evaluateScope(matchingRows, resourceCtx)) {
-        logAuthorizationDenial(opts, {
-          userId: ctx.user.id,
-          userEmail: ctx.user.email,
-          workspaceId: ctx.workspaceId,
-          requiredRole: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
-          actualRole: ctx.workspaceRole,
-          reason: `scope_denied:${permission}`,
-          ipAddress: ctx.remoteIp,
-          userAgent: ctx.userAgent,
-        });
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: te(ctx.locale, "auth.workspacePermissionRequired"),
-          cause: {
-            code: "WORKSPACE_PERMISSION",
-            required: WORKSPACE_PERMISSION_REQUIREMENTS[permission],
-            actual: ctx.workspaceRole,
-            permission,
-            scopeDenied: true,
-          },
-        });
-      }
     }
 
-    return opts.next();
+    assertPermissionScope(opts, permission, resourceCtx, roleScoped);
+
+    if (!apiKeyWrite) return opts.next();
+
+    // Every API-key mutation lands in the audit trail with the key as the
+    // actor — success or failure — independent of whether the procedure
+    // writes its own domain-specific entry.
+    const result = await opts.next();
+    void recordFromContext(ctx, {
+      action: "apikey.mutation",
+      category: "apikey",
+      entityType: "procedure",
+      entityId: opts.path,
+      entityLabel: `${opts.type} ${opts.path}`,
+      serverId: resourceCtx.serverId ?? null,
+      metadata: { permission, ok: result.ok },
+    });
+    return result;
   });
 }
 
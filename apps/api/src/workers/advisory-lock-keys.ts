@@ -23,4 +23,6 @@ export const ADVISORY_LOCK_KEYS = {
   release: 1_919_512_434,
   /** notification-worker: drains NotificationOutbox; one drainer cluster-wide. */
   notification: 1_852_796_274,
+  /** queue-pause-worker: owns the blocking pause consumers; two would split held messages. */
+  queuePause: 1_903_520_371,
 } as const;
@@ -3,10 +3,12 @@ import { Client } from "pg";
 import { logger } from "@/core/logger";
 import { prisma } from "@/core/prisma";
 
+import { AUDIT_SINK_CHANNEL } from "@/services/audit-sinks/signal";
 import { NOTIFICATION_OUTBOX_CHANNEL } from "@/services/notification/notification-outbox.service";
 
 import { config } from "@/config";
 
+import { auditSinkCronService } from "@/cron/audit-sink.cron";
 import { notificationOutboxCronService } from "@/cron/notification-outbox.cron";
 import { notificationRetentionCronService } from "@/cron/notification-retention.cron";
 import { acquireSingletonLock } from "@/workers/advisory-lock";
@@ -16,7 +18,8 @@ import { ADVISORY_LOCK_KEYS } from "@/workers/advisory-lock-keys";
  * Notification Worker Process
  * Drains NotificationOutbox: delivers transactional emails (Stripe-driven,
  * auth flows) and any future Slack/webhook fanout. Runs in both cloud and
- * self-hosted (auth emails are universal).
+ * self-hosted (auth emails are universal). Also streams the audit log to
+ * the workspaces' SIEM sinks.
  *
  * Singleton enforcement: PostgreSQL session-level advisory lock acquired at
  * startup via a dedicated pg.Client whose lifetime matches the process. If
@@ -78,15 +81,22 @@ async function startWorker() {
     notificationRetentionCronService.start();
     logger.info("Notification retention cron service started");
 
+    auditSinkCronService.start();
+    logger.info("Audit sink drain cron service started");
+
     // LISTEN for new outbox rows. Postgres pushes a notification each time
     // an enqueue commits with NOTIFY, so the drain wakes in <100ms instead
     // of waiting for the polling tick. Polling stays as the safety net.
     listenClient = new Client({ connectionString: config.DATABASE_URL });
     await listenClient.connect();
     await listenClient.query(`LISTEN ${NOTIFICATION_OUTBOX_CHANNEL}`);
+    await listenClient.query(`LISTEN ${AUDIT_SINK_CHANNEL}`);
     listenClient.on("notification", (msg) => {
-      if (msg.channel !== NOTIFICATION_OUTBOX_CHANNEL) return;
-      notificationOutboxCronService.triggerCycleNow();
+      if (msg.channel === NOTIFICATION_OUTBOX_CHANNEL) {
+        notificationOutboxCronService.triggerCycleNow();
+      } else if (msg.channel === AUDIT_SINK_CHANNEL) {
+        auditSinkCronService.triggerCycleNow();
+      }
     });
     listenClient.on("error", (err) => {
       // Don't crash the worker — the polling fallback keeps the drain
@@ -98,7 +108,7 @@ async function startWorker() {
       );
     });
     logger.info(
-      { channel: NOTIFICATION_OUTBOX_CHANNEL },
+      { channels: [NOTIFICATION_OUTBOX_CHANNEL, AUDIT_SINK_CHANNEL] },
       "notification-worker: LISTEN active"
     );
 
@@ -127,6 +137,7 @@ async function shutdown(exitCode = 0) {
     const stopResults = await Promise.allSettled([
       notificationOutboxCronService.stopAndWait(),
       notificationRetentionCronService.stopAndWait(),
+      auditSinkCronService.stopAndWait(),
     ]);
     if (listenClient) {
       await listenClient.end().catch(() => {});
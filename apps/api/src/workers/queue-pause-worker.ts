@@ -0,0 +1,174 @@
+import { Client } from "pg";
+
+import { logger } from "@/core/logger";
+import { prisma } from "@/core/prisma";
+
+import { QUEUE_PAUSE_CHANNEL } from "@/services/queue-pause";
+
+import { config } from "@/config";
+
+import { credentialRotationCronService } from "@/cron/credential-rotation.cron";
+import { queuePauseCronService } from "@/cron/queue-pause.cron";
+import { acquireSingletonLock } from "@/workers/advisory-lock";
+import { ADVISORY_LOCK_KEYS } from "@/workers/advisory-lock-keys";
+
+/**
+ * Queue Pause Worker Process
+ * Owns the blocking consumers behind every queue pause. The API only
+ * records intent in `QueuePause`; this process reconciles the rows on
+ * startup and on every change, and resumes pauses whose `pausedUntil` has
+ * passed. Runs in both cloud and self-hosted.
+ *
+ * Also runs scheduled broker password rotation: it needs the same
+ * single-owner guarantee, and this is the one broker-facing singleton
+ * every deployment has.
+ *
+ * Singleton enforcement: PostgreSQL session-level advisory lock acquired at
+ * startup via a dedicated pg.Client whose lifetime matches the process. If
+ * the lock is already held another instance is running and this process
+ * exits 0 (intentional yield — supervisor will not restart). On unexpected
+ * lock disconnect we exit 1 so the supervisor restarts a fresh singleton —
+ * and that one re-applies every pause on its first cycle.
+ */
+
+let lockClient: Client | null = null;
+// Dedicated LISTEN connection, kept separate from the lock client so a
+// LISTEN failure can't release the singleton lock.
+let listenClient: Client | null = null;
+
+async function startWorker() {
+  try {
+    logger.info("Starting Queue Pause worker process...");
+
+    await prisma.$connect();
+    logger.info("Connected to database");
+
+    lockClient = new Client({ connectionString: config.DATABASE_URL });
+    await lockClient.connect();
+
+    const acquired = await acquireSingletonLock(
+      lockClient,
+      ADVISORY_LOCK_KEYS.queuePause,
+      "queue-pause-worker"
+    );
+    if (!acquired) {
+      await lockClient.end();
+      await prisma.$disconnect();
+      process.exit(0);
+    }
+    logger.info("queue-pause-worker: advisory lock acquired");
+
+    lockClient.on("error", async (err) => {
+      logger.error(
+        { error: err },
+        "queue-pause-worker: lock client error — exiting"
+      );
+      await shutdown(1);
+    });
+
+    lockClient.on("end", async () => {
+      if (shuttingDown) return;
+      logger.error(
+        { event: "queue-pause-worker.lock-client-ended" },
+        "queue-pause-worker: lock client ended unexpectedly — exiting"
+      );
+      await shutdown(1);
+    });
+
+    queuePauseCronService.start();
+    logger.info("Queue pause reconcile cron service started");
+
+    credentialRotationCronService.start();
+    logger.info("Credential rotation cron service started");
+
+    listenClient = new Client({ connectionString: config.DATABASE_URL });
+    await listenClient.connect();
+    await listenClient.query(`LISTEN ${QUEUE_PAUSE_CHANNEL}`);
+    listenClient.on("notification", (msg) => {
+      if (msg.channel !== QUEUE_PAUSE_CHANNEL) return;
+      queuePauseCronService.triggerCycleNow();
+    });
+    listenClient.on("error", (err) => {
+      // Polling keeps pauses converging; changes just land on the next tick.
+      logger.error(
+        { error: err },
+        "queue-pause-worker: LISTEN client error — falling back to polling"
+      );
+    });
+    logger.info(
+      { channel: QUEUE_PAUSE_CHANNEL },
+      "queue-pause-worker: LISTEN active"
+    );
+
+    logger.info("Queue Pause worker process is running");
+  } catch (error) {
+    logger.error({ error }, "Failed to start Queue Pause worker");
+    if (listenClient) {
+      await listenClient.end().catch(() => {});
+      listenClient = null;
+    }
+    if (lockClient) {
+      await lockClient.end().catch(() => {});
+      lockClient = null;
+    }
+    await prisma.$disconnect();
+    process.exit(1);
+  }
+}
+
+let shuttingDown = false;
+async function shutdown(exitCode = 0) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info("Shutting down Queue Pause worker...");
+  try {
+    const stopResults = await Promise.allSettled([
+      queuePauseCronService.stopAndWait(),
+      credentialRotationCronService.stopAndWait(),
+    ]);
+    if (listenClient) {
+      await listenClient.end().catch(() => {});
+      listenClient = null;
+    }
+    if (lockClient) {
+      await lockClient.end().catch(() => {});
+      lockClient = null;
+    }
+    await prisma.$disconnect();
+
+    const stopFailures = stopResults.filter(
+      (r): r is PromiseRejectedResult => r.status === "rejected"
+    );
+    if (stopFailures.length > 0) {
+      logger.error(
+        { errors: stopFailures.map((f) => f.reason) },
+        "Queue Pause worker failed to stop cleanly"
+      );
+      exitCode = 1;
+    } else {
+      logger.info("Queue Pause worker stopped gracefully");
+    }
+  } catch (error) {
+    logger.error({ error }, "Error during shutdown");
+    exitCode = 1;
+  }
+  process.exit(exitCode);
+}
+
+process.on("SIGINT", () => shutdown(0));
+process.on("SIGTERM", () => shutdown(0));
+
+process.on("uncaughtException", async (error) => {
+  logger.error({ error }, "Uncaught exception in Queue Pause worker");
+  await shutdown(1);
+});
+
+process.on("unhandledRejection", async (reason, promise) => {
+  logger.error(
+    { reason, promise },
+    "Unhandled rejection in Queue Pause worker"
+  );
+  await shutdown(1);
+});
+
+startWorker();
@@ -85,6 +85,11 @@ const SMTPSection = lazy(() =>
     default: m.default,
   }))
 );
+const NotificationOutboxSection = lazy(() =>
+  import("./pages/settings/NotificationOutboxSection").then((m) => ({
+    default: m.default,
+  }))
+);
 const DigestSection = lazy(() =>
   import("./pages/settings/DigestSection").then((m) => ({
     default: m.default,
@@ -105,6 +110,11 @@ const IntegrationsSection = lazy(() =>
     default: m.default,
   }))
 );
+const QueueTemplatesSection = lazy(() =>
+  import("./pages/settings/QueueTemplatesSection").then((m) => ({
+    default: m.default,
+  }))
+);
 const AuditSection = lazy(() =>
   import("./pages/settings/AuditSection").then((m) => ({
     default: m.default,
@@ -131,6 +141,8 @@ const SubscriptionSection = lazy(() =>
   }))
 );
 const Policies = lazy(() => import("./pages/Policies"));
+const Shovels = lazy(() => import("./pages/Shovels"));
+const Federation = lazy(() => import("./pages/Federation"));
 const Plans = lazy(() => import("./pages/Plans"));
 const PaymentSuccess = lazy(() => import("./pages/PaymentSuccess"));
 const PaymentCancelled = lazy(() => import("./pages/PaymentCancelled"));
@@ -344,6 +356,26 @@ const AppCore = () => (
                                     </ProtectedRoute>
                                   }
                                 />
+                                <Route
+                                  path="/shovels"
+                                  element={
+                                    <ProtectedRoute>
+                                      <Layout>
+                                        <Shovels />
+                                      </Layout>
+                                    </ProtectedRoute>
+                                  }
+                                />
+                                <Route
+                                  path="/federation"
+                                  element={
+                                    <ProtectedRoute>
+                                      <Layout>
+                                        <Federation />
+                                      </Layout>
+                                    </ProtectedRoute>
+                                  }
+                                />
                                 <Route
                                   path="/topology"
                                   element={
@@ -513,6 +545,10 @@ const AppCore = () => (
                                     path="smtp"
                                     element={<SMTPSection />}
                                   />
+                                  <Route
+                                    path="outbox"
+                                    element={<NotificationOutboxSection />}
+                                  />
                                   <Route
                                     path="digest"
                                     element={<DigestSection />}
@@ -526,6 +562,10 @@ const AppCore = () => (
                                     path="integrations"
                                     element={<IntegrationsSection />}
                                   />
+                                  <Route
+                                    path="queue-templates"
+                                    element={<QueueTemplatesSection />}
+                                  />
                                   <Route
                                     path="audit"
                                     element={<AuditSection />}
@@ -18,6 +18,7 @@ import {
 } from "@/components/AddQueueFormComponent/constants";
 import { ExchangeBindingField } from "@/components/AddQueueFormComponent/ExchangeBindingField";
 import { QueuePreviewCard } from "@/components/AddQueueFormComponent/QueuePreviewCard";
+import { QueueTemplateField } from "@/components/AddQueueFormComponent/QueueTemplateField";
 import { QueueTypePreset } from "@/components/AddQueueFormComponent/QueueTypePreset";
 import { RabbitMQQueueTypeSelector } from "@/components/AddQueueFormComponent/RabbitMQQueueTypeSelector";
 import type { ArgRow } from "@/components/AddQueueFormComponent/types";
@@ -78,6 +79,8 @@ export function AddQueueForm({
   const [preset, setPreset] = useState<QueuePresetId>("classic");
   const [rows, setRows] = useState<ArgRow[]>([]);
   const [queueType, setQueueType] = useState<RabbitMQQueueType>("default");
+  // A template declares type, arguments, dead-lettering and policy itself
+  const [templateId, setTemplateId] = useState<string | null>(null);
   // Harden: track pending type switch requiring confirmation when args exist
   const [pendingTypeSwitch, setPendingTypeSwitch] =
     useState<RabbitMQQueueType | null>(null);
@@ -189,6 +192,7 @@ export function AddQueueForm({
     setPreset("classic");
     setMode("quick");
     setQueueType("default");
+    setTemplateId(null);
     setPendingTypeSwitch(null);
     setClearedArgsCount(0);
   };
@@ -208,7 +212,7 @@ export function AddQueueForm({
     }
 
     // Guard: type-switch confirmation is pending — do not submit yet.
-    if (pendingTypeSwitch) return;
+    if (pendingTypeSwitch && !templateId) return;
 
     // Build final arguments object from the structured builder rows.
     const finalArguments: Record<string, unknown> = {};
@@ -237,6 +241,7 @@ export function AddQueueForm({
         vhost: selectedVHost
           ? encodeURIComponent(selectedVHost)
           : encodeURIComponent("/"),
+        ...(templateId && { templateId }),
         // Pass binding info only if present — keeps existing backend contract.
         ...(hasBinding && {
           bindToExchange:
@@ -348,12 +353,16 @@ export function AddQueueForm({
                 )}
               />
 
-              <RabbitMQQueueTypeSelector
-                value={queueType}
-                onChange={handleQueueTypeChange}
-              />
+              <QueueTemplateField value={templateId} onChange={setTemplateId} />
+
+              {!templateId && (
+                <RabbitMQQueueTypeSelector
+                  value={queueType}
+                  onChange={handleQueueTypeChange}
+                />
+              )}
 
-              {mode === "quick" && (
+              {mode === "quick" && !templateId && (
                 <div
                   key={
                     queueType === "quorum" || queueType === "stream"
@@ -427,23 +436,25 @@ export function AddQueueForm({
 
               <ExchangeBindingField form={form} exchanges={exchanges} />
 
-              {mode === "advanced" && (
+              {mode === "advanced" && !templateId && (
                 <>
                   <AdvancedQueueProperties form={form} />
                   <ArgumentsBuilder rows={rows} onChange={setRows} />
                 </>
               )}
 
-              <QueuePreviewCard
-                name={name}
-                durable={durable}
-                autoDelete={autoDelete}
-                exclusive={exclusive}
-                bindToExchange={bindToExchange}
-                routingKey={routingKey}
-                rows={previewRows}
-                queueType={queueType}
-              />
+              {!templateId && (
+                <QueuePreviewCard
+                  name={name}
+                  durable={durable}
+                  autoDelete={autoDelete}
+                  exclusive={exclusive}
+                  bindToExchange={bindToExchange}
+                  routingKey={routingKey}
+                  rows={previewRows}
+                  queueType={queueType}
+                />
+              )}
             </form>
           </Form>
         </div>
@@ -460,7 +471,10 @@ export function AddQueueForm({
           <Button
             type="submit"
             onClick={form.handleSubmit(onSubmit)}
-            disabled={createQueueMutation.isPending || !!pendingTypeSwitch}
+            disabled={
+              createQueueMutation.isPending ||
+              (!!pendingTypeSwitch && !templateId)
+            }
             className="btn-primary"
           >
             {createQueueMutation.isPending ? (
@@ -0,0 +1,93 @@
+import { useTranslation } from "react-i18next";
+
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { useQueueTemplates } from "@/hooks/queries/useQueueTemplates";
+
+const NO_TEMPLATE = "__none__";
+
+interface QueueTemplateFieldProps {
+  value: string | null;
+  onChange: (templateId: string | null) => void;
+}
+
+/**
+ * Declare from a workspace queue template instead of hand-picked options.
+ * Renders nothing until the workspace has at least one template.
+ */
+export const QueueTemplateField = ({
+  value,
+  onChange,
+}: QueueTemplateFieldProps) => {
+  const { t } = useTranslation("queues");
+  const { data } = useQueueTemplates();
+  const templates = data?.templates ?? [];
+  if (templates.length === 0) return null;
+
+  const selected = templates.find((tpl) => tpl.id === value);
+  const latest = selected?.versions[0];
+  const args = Object.entries(latest?.arguments ?? {});
+
+  return (
+    <div className="space-y-2">
+      <Label>{t("templates.field.label")}</Label>
+      <Select
+        value={value ?? NO_TEMPLATE}
+        onValueChange={(v) => onChange(v === NO_TEMPLATE ? null : v)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_TEMPLATE}>
+            {t("templates.field.none")}
+          </SelectItem>
+          {templates.map((tpl) => (
+            <SelectItem key={tpl.id} value={tpl.id}>
+              {tpl.name} · v{tpl.latestVersion}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selected && latest && (
+        <div className="rounded-lg border border-dashed border-border p-3 space-y-2 text-xs">
+          {selected.description && (
+            <p className="text-muted-foreground">{selected.description}</p>
+          )}
+          <div className="flex flex-wrap gap-1.5">
+            <Badge variant="secondary">
+              {t(`templates.type.${latest.queueType}`)}
+            </Badge>
+            {args.map(([key, arg]) => (
+              <Badge key={key} variant="outline" className="font-mono">
+                {key}={String(arg)}
+              </Badge>
+            ))}
+          </div>
+          {latest.deadLetter && (
+            <p className="text-muted-foreground">
+              {t("templates.field.deadLetter", {
+                exchange: latest.deadLetter.exchange,
+                queue: latest.deadLetter.queue,
+              })}
+            </p>
+          )}
+          {latest.policy && (
+            <p className="text-muted-foreground">
+              {t("templates.field.policy")}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -73,6 +73,7 @@ import { useTriggerScan } from "@/hooks/queries/useScan";
 import {
   useCreateServer,
   useDeleteServer,
+  useServer,
   useTestConnection,
   useUpdateServer,
 } from "@/hooks/queries/useServer";
@@ -85,6 +86,7 @@ import {
   editServerSchema,
 } from "@/schemas";
 
+import { CertificateExpiryList } from "./CertificateExpiryList";
 import { ConfirmConnectionCard } from "./ConfirmConnectionCard";
 import { ConnectionStatusDisplay } from "./ConnectionStatusDisplay";
 import { PlanVersionSupport } from "./PlanVersionSupport";
@@ -92,6 +94,7 @@ import { type DiffKey, RedetectDiff } from "./RedetectDiff";
 import { ServerDetails } from "./ServerDetails";
 import { ServerUrlInput } from "./ServerUrlInput";
 import { TestConnectionButton } from "./TestConnectionButton";
+import { buildTlsInput, EMPTY_TLS_FORM } from "./tls";
 import { TunnelHelper } from "./TunnelHelper";
 import type { AddServerFormProps, ConnectionStatus } from "./types";
 
@@ -137,6 +140,12 @@ export const AddServerForm = ({
   const updateServerMutation = useUpdateServer();
   const deleteServerMutation = useDeleteServer();
   const testConnectionMutation = useTestConnection();
+  // The list rows the drawer opens from carry no TLS; the certificate
+  // summary (never the PEM) comes from getServer.
+  const { data: storedServerData } = useServer(
+    mode === "edit" && server ? server.id : ""
+  );
+  const storedTls = storedServerData?.server.tls ?? null;
   const triggerScanMutation = useTriggerScan();
   const utils = trpc.useUtils();
   const [internalIsOpen, setInternalIsOpen] = useState(false);
@@ -191,9 +200,11 @@ export const AddServerForm = ({
       amqpPort: server?.amqpPort || 5672,
       username: server?.username || "guest",
       password: "",
+      passwordRef: server?.passwordRef ?? "",
       vhost: server?.vhost || "/",
       useHttps: server?.useHttps || false,
       environment: server?.environment ?? null,
+      tls: EMPTY_TLS_FORM,
     },
   });
 
@@ -206,9 +217,11 @@ export const AddServerForm = ({
         amqpPort: server.amqpPort,
         username: server.username,
         password: "",
+        passwordRef: server.passwordRef ?? "",
         vhost: server.vhost,
         useHttps: server.useHttps || false,
         environment: server.environment ?? null,
+        tls: EMPTY_TLS_FORM,
       });
       setConnectionStatus({ status: "idle" });
       setStep(1);
@@ -219,7 +232,15 @@ export const AddServerForm = ({
     // In step 1 add mode, name isn't filled yet — skip its validation.
     const fieldsToValidate: (keyof AddServerFormData)[] =
       mode === "add" && step === 1
-        ? ["host", "port", "amqpPort", "username", "password", "useHttps"]
+        ? [
+            "host",
+            "port",
+            "amqpPort",
+            "username",
+            "password",
+            "passwordRef",
+            "useHttps",
+          ]
         : [
             "name",
             "host",
@@ -227,6 +248,7 @@ export const AddServerForm = ({
             "amqpPort",
             "username",
             "password",
+            "passwordRef",
             "useHttps",
           ];
 
@@ -252,9 +274,13 @@ export const AddServerForm = ({
         port: formData.port,
         amqpPort: formData.amqpPort,
         username: formData.username,
-        password: formData.password,
+        password: formData.password || undefined,
+        passwordRef: formData.passwordRef || undefined,
         vhost: formData.vhost,
         useHttps: formData.useHttps,
+        tls: buildTlsInput(formData.tls, mode),
+        // Edit mode: TLS fields left blank are tested with the stored ones.
+        ...(mode === "edit" && server ? { serverId: server.id } : {}),
       });
 
       if (result.success) {
@@ -264,6 +290,7 @@ export const AddServerForm = ({
           details: {
             version: result.version,
             cluster_name: result.cluster_name,
+            tls: result.tls,
           },
         });
 
@@ -311,11 +338,18 @@ export const AddServerForm = ({
           username: data.username,
           // Leave-blank = keep the current password. Only send a new password
           // when the user actually typed one, so an empty field never clears
-          // the stored credential.
-          ...(data.password ? { password: data.password } : {}),
+          // the stored credential. The reference is only sent when edited —
+          // switching password source re-tests the connection server-side.
+          ...(data.password && !data.passwordRef
+            ? { password: data.password }
+            : {}),
+          ...((data.passwordRef || null) !== (server.passwordRef ?? null)
+            ? { passwordRef: data.passwordRef || null }
+            : {}),
           vhost: data.vhost,
           useHttps: data.useHttps,
           environment: data.environment,
+          tls: buildTlsInput(data.tls, "edit"),
         });
 
         setIsOpen(false);
@@ -334,10 +368,12 @@ export const AddServerForm = ({
           port: data.port,
           amqpPort: data.amqpPort,
           username: data.username,
-          password: data.password,
+          password: data.password || undefined,
+          passwordRef: data.passwordRef || undefined,
           vhost: data.vhost,
           useHttps: data.useHttps,
           environment: data.environment,
+          tls: buildTlsInput(data.tls, "add"),
         });
 
         setSelectedServerId(result.server.id);
@@ -684,6 +720,8 @@ export const AddServerForm = ({
                   form={form}
                   alwaysExpanded
                   passwordPlaceholder={t("leaveBlankKeepCurrent")}
+                  tlsSummary={connectionStatus.details?.tls ?? storedTls}
+                  hasStoredTls={!!storedTls}
                 />
                 <ConnectionStatusDisplay connectionStatus={connectionStatus} />
 
@@ -942,6 +980,7 @@ export const AddServerForm = ({
                     hideVhostField
                     forceExpanded={detailsExpanded}
                     hideToggle
+                    tlsSummary={connectionStatus.details?.tls}
                   />
                   <ConnectionStatusDisplay
                     connectionStatus={connectionStatus}
@@ -968,6 +1007,12 @@ export const AddServerForm = ({
                     onUpgrade={handleUpgrade}
                   />
 
+                  {connectionStatus.details?.tls && (
+                    <CertificateExpiryList
+                      summary={connectionStatus.details.tls}
+                    />
+                  )}
+
                   {/* Credentials — Management URLs usually omit user:pass, so we
                       collect them here (pre-filled when the URL did carry them)
                       before "Connect & scan". */}
@@ -0,0 +1,85 @@
+import { useTranslation } from "react-i18next";
+
+import { formatDate } from "@/lib/date-utils";
+import { cn } from "@/lib/utils";
+
+import {
+  type BrokerTlsSummary,
+  CERT_EXPIRY_WARN_DAYS,
+  type CertificateSummary,
+} from "./tls";
+
+interface CertificateExpiryListProps {
+  summary: BrokerTlsSummary;
+}
+
+/**
+ * Subject and expiry of each configured certificate — the client
+ * certificate first, since that's the one the broker rejects on expiry.
+ */
+export const CertificateExpiryList = ({
+  summary,
+}: CertificateExpiryListProps) => {
+  const { t, i18n } = useTranslation("dashboard");
+
+  const rows: { kind: "client" | "ca"; certificate: CertificateSummary }[] = [
+    ...(summary.clientCertificate
+      ? [{ kind: "client" as const, certificate: summary.clientCertificate }]
+      : []),
+    ...summary.caCertificates.map((certificate) => ({
+      kind: "ca" as const,
+      certificate,
+    })),
+  ];
+  if (rows.length === 0) return null;
+
+  return (
+    <ul className="divide-y rounded-md border border-border text-sm">
+      {rows.map(({ kind, certificate }) => {
+        const date = formatDate(certificate.validTo, i18n.language, {
+          year: "numeric",
+          month: "short",
+          day: "numeric",
+        });
+        const expiring =
+          !certificate.expired &&
+          certificate.expiresInDays <= CERT_EXPIRY_WARN_DAYS;
+
+        return (
+          <li
+            key={`${kind}:${certificate.fingerprint256}`}
+            className="flex items-start justify-between gap-3 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground">
+                {t(`tls.certificateKind.${kind}`)}
+              </p>
+              <p className="break-all font-mono text-xs">
+                {certificate.subject}
+              </p>
+            </div>
+            <span
+              className={cn(
+                "shrink-0 text-xs",
+                certificate.expired
+                  ? "text-destructive"
+                  : expiring
+                    ? "text-warning"
+                    : "text-muted-foreground"
+              )}
+            >
+              {certificate.expired
+                ? t("tls.expired", { date })
+                : expiring
+                  ? t("tls.expiresSoon", {
+                      date,
+                      days: certificate.expiresInDays,
+                    })
+                  : t("tls.expires", { date })}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
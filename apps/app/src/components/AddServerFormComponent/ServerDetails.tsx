@@ -7,6 +7,7 @@ import { Eye, EyeOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -19,6 +20,9 @@ import { Switch } from "@/components/ui/switch";
 
 import type { AddServerFormData } from "@/schemas";
 
+import type { BrokerTlsSummary } from "./tls";
+import { TlsSettings } from "./TlsSettings";
+
 interface ServerDetailsProps {
   form: UseFormReturn<AddServerFormData>;
   /** When true, render the fields inline without the disclosure toggle. */
@@ -38,6 +42,10 @@ interface ServerDetailsProps {
    *  "leave blank to keep current" hint; an empty value never clears the
    *  stored credential. */
   passwordPlaceholder?: string;
+  /** Certificates to report in the TLS section (last test, else stored). */
+  tlsSummary?: BrokerTlsSummary | null;
+  /** Edit mode with TLS material already stored on the server. */
+  hasStoredTls?: boolean;
 }
 
 export const ServerDetails = ({
@@ -48,6 +56,8 @@ export const ServerDetails = ({
   forceExpanded = false,
   hideToggle = false,
   passwordPlaceholder,
+  tlsSummary,
+  hasStoredTls = false,
 }: ServerDetailsProps) => {
   const { t } = useTranslation("dashboard");
   const [expanded, setExpanded] = useState(alwaysExpanded);
@@ -56,8 +66,14 @@ export const ServerDetails = ({
     if (forceExpanded) setExpanded(true);
   }, [forceExpanded]);
   const [showPassword, setShowPassword] = useState(false);
+  // A password reference replaces the typed password entirely.
+  const usesPasswordRef = !!form.watch("passwordRef")?.trim();
 
   const isOpen = alwaysExpanded || expanded;
+  // TLS material only applies to TLS connections — HTTPS for the
+  // Management API, amqps (5671 by convention) for AMQP.
+  const usesTls =
+    form.watch("useHttps") || form.watch("amqpPort") === 5671 || hasStoredTls;
 
   // Name + environment are always visible (outside the collapsible) so the
   // environment tag is discoverable in add mode without expanding manual setup.
@@ -225,6 +241,14 @@ export const ServerDetails = ({
         )}
       />
 
+      {usesTls && (
+        <TlsSettings
+          form={form}
+          summary={tlsSummary}
+          hasStored={hasStoredTls}
+        />
+      )}
+
       {!hideVhostField && (
         <FormField
           control={form.control}
@@ -278,7 +302,12 @@ export const ServerDetails = ({
                     <Input
                       type={showPassword ? "text" : "password"}
                       autoComplete="off"
-                      placeholder={passwordPlaceholder}
+                      placeholder={
+                        usesPasswordRef
+                          ? t("passwordFromReference")
+                          : passwordPlaceholder
+                      }
+                      disabled={usesPasswordRef}
                       {...field}
                     />
                     <Button
@@ -304,6 +333,25 @@ export const ServerDetails = ({
             )}
           />
         </div>
+        <FormField
+          control={form.control}
+          name="passwordRef"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("passwordRefLabel")}</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="file:rabbitmq-password"
+                  autoComplete="off"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormDescription>{t("passwordRefHint")}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,55 @@
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+
+import type { AddServerFormData } from "@/schemas";
+
+export type BrokerTlsSummary = NonNullable<
+  inferRouterOutputs<AppRouter>["rabbitmq"]["server"]["getServer"]["server"]["tls"]
+>;
+
+export type CertificateSummary = BrokerTlsSummary["caCertificates"][number];
+
+type BrokerTlsInput = NonNullable<
+  inferRouterInputs<AppRouter>["rabbitmq"]["server"]["updateServer"]["tls"]
+>;
+
+type TlsFormValues = NonNullable<AddServerFormData["tls"]>;
+
+/** Matches the API's expiry-finding window. */
+export const CERT_EXPIRY_WARN_DAYS = 30;
+
+export const EMPTY_TLS_FORM: TlsFormValues = {
+  ca: "",
+  cert: "",
+  key: "",
+  servername: "",
+  clearStored: false,
+};
+
+/**
+ * Map the form's TLS fields to the API patch. Add mode sends only what was
+ * typed; edit mode leaves blank fields undefined (keep stored) unless
+ * `clearStored` is set, in which case they're sent as null (clear).
+ */
+export function buildTlsInput(
+  tls: TlsFormValues | undefined,
+  mode: "add" | "edit"
+): BrokerTlsInput | undefined {
+  if (!tls) return undefined;
+  const typed = {
+    ca: tls.ca.trim() || undefined,
+    cert: tls.cert.trim() || undefined,
+    key: tls.key.trim() || undefined,
+    servername: tls.servername.trim() || undefined,
+  };
+
+  if (mode === "edit" && tls.clearStored) {
+    return {
+      ca: typed.ca ?? null,
+      cert: typed.cert ?? null,
+      key: typed.key ?? null,
+      servername: typed.servername ?? null,
+    };
+  }
+  return Object.values(typed).some(Boolean) ? typed : undefined;
+}
@@ -1,5 +1,7 @@
 import type { GateErrorPayload } from "@/lib/feature-gate/types";
 
+import type { BrokerTlsSummary } from "./tls";
+
 export interface ConnectionStatus {
   status: "idle" | "success" | "error";
   message?: string;
@@ -14,6 +16,8 @@ export interface ConnectionStatus {
   details?: {
     version?: string;
     cluster_name?: string;
+    /** Certificates the test connected with, for the expiry report. */
+    tls?: BrokerTlsSummary | null;
   };
 }
 
@@ -38,6 +42,8 @@ interface Server {
    * v1 persists the flag only (no capture pipeline yet).
    */
   payloadCaptureEnabled?: boolean;
+  /** External password source (`env:` / `file:`); null when stored. */
+  passwordRef?: string | null;
 }
 
 export interface AddServerFormProps {
@@ -87,6 +87,7 @@ export const AgentKeysList = ({ workspaceId }: Props) => {
           <tbody className="divide-y divide-border">
             {active.map((k) => {
               const explain = k.mode === "explain";
+              const write = k.mode === "write";
               return (
                 <tr key={k.id}>
                   <td className="px-5 py-3.5 font-medium">{k.name}</td>
@@ -94,12 +95,17 @@ export const AgentKeysList = ({ workspaceId }: Props) => {
                     <span
                       className={cn(
                         "inline-flex items-center rounded-full border px-2 py-0.5 font-mono text-[10px] uppercase tracking-wide",
-                        explain
-                          ? "border-primary/40 bg-accent text-primary"
-                          : "border-success/40 bg-success-muted text-success"
+                        write
+                          ? "border-warning/40 bg-warning-muted text-warning"
+                          : explain
+                            ? "border-primary/40 bg-accent text-primary"
+                            : "border-success/40 bg-success-muted text-success"
                       )}
+                      // Write keys list their grants on hover — the badge
+                      // alone doesn't say what the key can change.
+                      title={write ? k.permissions.join(", ") : undefined}
                     >
-                      {k.mode}
+                      {write ? `${k.mode} · ${k.permissions.length}` : k.mode}
                     </span>
                   </td>
                   <td className="px-5 py-3.5 font-mono text-xs text-muted-foreground">
@@ -12,7 +12,9 @@ import {
 } from "@/components/ui/command";
 import {
   IconActivity,
+  IconArrowRight,
   IconBell,
+  IconCluster,
   IconDatabase,
   IconHelp,
   IconHome,
@@ -57,9 +59,10 @@ type PaletteEntry = {
 /**
  * The dissolved "Browse" section lives here as the ⌘K escape hatch (W5 in
  * docs/plans/agent-first-cockpit.md). Queues/exchanges point at Topology —
- * their V2 home. The admin object views (users/policies/vhosts/definitions)
- * point at their existing routes, kept alive but off the 3-item nav, until
- * the admin-near-Settings surface lands in a later phase.
+ * their V2 home. The admin object views (users/policies/shovels/federation/
+ * vhosts/definitions) point at their existing routes, kept alive but off
+ * the 3-item nav, until the admin-near-Settings surface lands in a later
+ * phase.
  */
 const GO_TO: PaletteEntry[] = [
   { labelKey: "goTo.cockpit", icon: IconHome, to: "/", keywords: ["home"] },
@@ -89,6 +92,20 @@ const OBJECTS: PaletteEntry[] = [
     to: "/policies",
     adminOnly: true,
   },
+  {
+    labelKey: "objects.shovels",
+    icon: IconArrowRight,
+    to: "/shovels",
+    keywords: ["shovel", "move"],
+    adminOnly: true,
+  },
+  {
+    labelKey: "objects.federation",
+    icon: IconCluster,
+    to: "/federation",
+    keywords: ["federation", "upstream"],
+    adminOnly: true,
+  },
   {
     labelKey: "objects.virtualHosts",
     icon: IconLayers,
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Unplug } from "lucide-react";
+import { toast } from "sonner";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+import {
+  useCloseConnections,
+  useConnectionClosePreview,
+} from "@/hooks/queries/useRabbitMQ";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+/**
+ * Select connections by user / client-provided name / client IP, review
+ * what matched, then close the reviewed list with one reason. Qarote's
+ * own connections never match.
+ */
+export function CloseConnectionsDialog({ serverId }: { serverId: string }) {
+  const { t } = useTranslation("connections");
+  const { workspace } = useWorkspace();
+  const [open, setOpen] = useState(false);
+
+  const [user, setUser] = useState("");
+  const [clientNameRegex, setClientNameRegex] = useState("");
+  const [peerHost, setPeerHost] = useState("");
+  const [vhost, setVhost] = useState("");
+  const [reason, setReason] = useState("");
+
+  const [target, setTarget] =
+    useState<Parameters<typeof useConnectionClosePreview>[1]>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<{
+    closed: string[];
+    failed: { name: string; error: string }[];
+  } | null>(null);
+
+  const preview = useConnectionClosePreview(serverId, target);
+  const closeConnections = useCloseConnections();
+  const running = closeConnections.isPending;
+
+  // A vhost alone would close every client on it, so it only narrows
+  const hasCriteria = !!user.trim() || !!clientNameRegex.trim() || !!peerHost;
+
+  const matched = preview.data?.matched ?? [];
+  const selected = matched.filter((c) => !excluded.has(c.name));
+
+  const reset = () => {
+    setTarget(null);
+    setExcluded(new Set());
+    setResult(null);
+  };
+
+  const handlePreview = () => {
+    reset();
+    setTarget({
+      selector: {
+        user: user.trim() || undefined,
+        clientNameRegex: clientNameRegex.trim() || undefined,
+        peerHost: peerHost.trim() || undefined,
+        vhost: vhost.trim() || undefined,
+      },
+    });
+  };
+
+  const toggle = (name: string, include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (include) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const handleClose = async () => {
+    if (!workspace?.id || selected.length === 0) return;
+    try {
+      const outcome = await closeConnections.mutateAsync({
+        serverId,
+        workspaceId: workspace.id,
+        // Close exactly what was reviewed, not a re-evaluated selector
+        target: { connections: selected.map((c) => c.name) },
+        reason: reason.trim() || undefined,
+      });
+      setResult(outcome);
+      if (outcome.failed.length > 0) {
+        toast.warning(
+          t("bulkClose.doneWithFailures", {
+            closed: outcome.closed.length,
+            failed: outcome.failed.length,
+          })
+        );
+      } else {
+        toast.success(t("bulkClose.done", { count: outcome.closed.length }));
+      }
+    } catch (error) {
+      toast.error(t("bulkClose.errorTitle"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (running) return;
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Unplug className="w-4 h-4" />
+          {t("bulkClose.trigger")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("bulkClose.title")}</DialogTitle>
+          <DialogDescription>{t("bulkClose.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="close-user">{t("user")}</Label>
+            <Input
+              id="close-user"
+              value={user}
+              onChange={(e) => setUser(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="close-client-name">
+              {t("bulkClose.clientName")}
+            </Label>
+            <Input
+              id="close-client-name"
+              value={clientNameRegex}
+              onChange={(e) => setClientNameRegex(e.target.value)}
+              placeholder="^orders-worker"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="close-peer-host">{t("peerHost")}</Label>
+            <Input
+              id="close-peer-host"
+              value={peerHost}
+              onChange={(e) => setPeerHost(e.target.value)}
+              placeholder="10.0.0.5"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="close-vhost">{t("vhost")}</Label>
+            <Input
+              id="close-vhost"
+              value={vhost}
+              onChange={(e) => setVhost(e.target.value)}
+              placeholder={t("bulkClose.allVhosts")}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!hasCriteria || running || preview.isFetching}
+          >
+            {preview.isFetching
+              ? t("bulkClose.previewing")
+              : t("bulkClose.preview")}
+          </Button>
+        </div>
+
+        {preview.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{preview.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview.data && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {t("bulkClose.matched", {
+                  selected: selected.length,
+                  count: matched.length,
+                })}
+              </span>
+              {preview.data.skippedInternal > 0 && (
+                <span className="text-muted-foreground">
+                  {t("bulkClose.skippedInternal", {
+                    count: preview.data.skippedInternal,
+                  })}
+                </span>
+              )}
+            </div>
+            {matched.length > preview.data.limit && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {t("bulkClose.overLimit", { limit: preview.data.limit })}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="max-h-56 overflow-y-auto border divide-y">
+              {matched.map((c) => {
+                const failure = result?.failed.find((f) => f.name === c.name);
+                const closed = result?.closed.includes(c.name);
+                return (
+                  <label
+                    key={c.name}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm"
+                    title={failure?.error}
+                  >
+                    <Checkbox
+                      checked={!excluded.has(c.name)}
+                      disabled={running || !!result}
+                      onCheckedChange={(v) => toggle(c.name, v === true)}
+                    />
+                    <span className="font-mono truncate flex-1">
+                      {c.clientName ?? c.name}
+                    </span>
+                    <span className="text-muted-foreground">{c.user}</span>
+                    <span className="font-mono text-muted-foreground">
+                      {c.peerHost ?? "—"}
+                    </span>
+                    <Badge variant="outline" className="tabular-nums">
+                      {c.channels}
+                    </Badge>
+                    {closed && (
+                      <Badge variant="secondary">{t("bulkClose.closed")}</Badge>
+                    )}
+                    {failure && (
+                      <Badge variant="destructive">
+                        {t("bulkClose.failed")}
+                      </Badge>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="close-reason">{t("close.reason")}</Label>
+          <Input
+            id="close-reason"
+            value={reason}
+            maxLength={200}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t("close.reasonPlaceholder")}
+            disabled={running || !!result}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={handleClose}
+            disabled={
+              selected.length === 0 ||
+              selected.length > (preview.data?.limit ?? 0) ||
+              running ||
+              !!result
+            }
+          >
+            {running
+              ? t("bulkClose.closing")
+              : t("bulkClose.execute", { count: selected.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { AlertTriangle, Zap } from "lucide-react";
+import { toast } from "sonner";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { useServerContext } from "@/contexts/ServerContext";
+
+import {
+  useCloseConnection,
+  useConnectionDetail,
+} from "@/hooks/queries/useRabbitMQ";
+import { useIsWorkspaceAdmin } from "@/hooks/queries/useWorkspaceRole";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+import { getStateBadgeClass } from "./connectionStateUi";
+
+/** Client properties worth showing, in display order. */
+const CLIENT_PROPERTIES = [
+  "connection_name",
+  "product",
+  "version",
+  "platform",
+  "information",
+] as const;
+
+/**
+ * Live detail of one connection: what the client says it is, and every
+ * channel with its prefetch and unacked counts. A channel whose unacked
+ * count sits at its prefetch is saturated — its consumer stopped acking
+ * — and a connection whose channel count keeps growing is leaking them.
+ * Admins can close the connection from here with a reason the client
+ * receives.
+ */
+export function ConnectionInspector({
+  connectionName,
+}: {
+  connectionName: string;
+}) {
+  const { t } = useTranslation("connections");
+  const { selectedServerId } = useServerContext();
+  const { workspace } = useWorkspace();
+  const isAdmin = useIsWorkspaceAdmin() === true;
+  const { data, isLoading, error } = useConnectionDetail(
+    selectedServerId,
+    connectionName
+  );
+  const closeConnection = useCloseConnection();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full rounded-md" />;
+  }
+  if (error || !data) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {error?.message ?? t("detail.unavailable")}
+      </p>
+    );
+  }
+
+  const { connection, channels } = data;
+  const properties = connection.client_properties ?? {};
+  const shownProperties = CLIENT_PROPERTIES.filter(
+    (key) => typeof properties[key] === "string" && properties[key] !== ""
+  );
+
+  const handleClose = async () => {
+    if (!selectedServerId || !workspace?.id) return;
+    try {
+      await closeConnection.mutateAsync({
+        serverId: selectedServerId,
+        workspaceId: workspace.id,
+        connectionName,
+        reason: reason.trim() || undefined,
+      });
+      toast.success(t("close.closed"));
+      setConfirmOpen(false);
+      setReason("");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("close.closeError")
+      );
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-baseline gap-x-6 gap-y-2">
+        {shownProperties.map((key) => (
+          <div key={key} className="flex items-baseline gap-1.5">
+            <span className="text-xs text-muted-foreground">
+              {t(`detail.property.${key}`)}
+            </span>
+            <span className="text-xs font-medium text-foreground font-mono">
+              {String(properties[key])}
+            </span>
+          </div>
+        ))}
+        {connection.auth_mechanism && (
+          <div className="flex items-baseline gap-1.5">
+            <span className="text-xs text-muted-foreground">
+              {t("detail.auth")}
+            </span>
+            <span className="text-xs font-medium text-foreground font-mono">
+              {connection.auth_mechanism}
+              {connection.ssl && ` · ${connection.ssl_protocol ?? "TLS"}`}
+            </span>
+          </div>
+        )}
+        {connection.internal ? (
+          <Badge variant="outline" className="ml-auto">
+            {t("detail.internal")}
+          </Badge>
+        ) : (
+          isAdmin && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto text-destructive"
+              onClick={() => setConfirmOpen(true)}
+              disabled={closeConnection.isPending}
+            >
+              {t("close.action")}
+            </Button>
+          )
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-[11px] font-medium uppercase tracking-widest text-muted-foreground mb-2 flex items-center gap-1.5">
+          <Zap className="h-3 w-3" aria-hidden="true" />
+          {t("activeChannels")} ({channels.length})
+        </h4>
+        {channels.length > 0 && (
+          <div className="rounded-md border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>{t("state")}</TableHead>
+                  <TableHead className="text-right">
+                    {t("detail.consumers")}
+                  </TableHead>
+                  <TableHead className="text-right">
+                    {t("detail.prefetch")}
+                  </TableHead>
+                  <TableHead className="text-right">
+                    {t("detail.unacked")}
+                  </TableHead>
+                  <TableHead className="text-right">
+                    {t("detail.unconfirmed")}
+                  </TableHead>
+                  <TableHead>{t("detail.mode")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {channels.map((channel) => {
+                  const saturated =
+                    channel.prefetchCount > 0 &&
+                    channel.messagesUnacknowledged >= channel.prefetchCount;
+                  const unbounded =
+                    channel.consumerCount > 0 &&
+                    channel.prefetchCount === 0 &&
+                    !channel.globalPrefetchCount;
+                  return (
+                    <TableRow key={channel.name}>
+                      <TableCell className="font-mono text-xs">
+                        {channel.number}
+                      </TableCell>
+                      <TableCell>
+                        {channel.state && (
+                          <Badge className={getStateBadgeClass(channel.state)}>
+                            {channel.state}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono tabular-nums text-xs">
+                        {channel.consumerCount}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-mono tabular-nums text-xs ${unbounded ? "text-warning" : ""}`}
+                        title={
+                          unbounded ? t("detail.unboundedTooltip") : undefined
+                        }
+                      >
+                        {channel.prefetchCount || t("detail.unlimited")}
+                        {!!channel.globalPrefetchCount &&
+                          ` / ${channel.globalPrefetchCount}`}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-mono tabular-nums text-xs ${saturated ? "text-warning font-semibold" : ""}`}
+                        title={
+                          saturated ? t("detail.saturatedTooltip") : undefined
+                        }
+                      >
+                        {saturated && (
+                          <AlertTriangle
+                            className="inline h-3 w-3 mr-1"
+                            aria-hidden="true"
+                          />
+                        )}
+                        {channel.messagesUnacknowledged.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right font-mono tabular-nums text-xs">
+                        {channel.messagesUnconfirmed.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {channel.transactional
+                          ? t("detail.transactional")
+                          : channel.confirm
+                            ? t("detail.confirm")
+                            : "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={(open) => {
+          setConfirmOpen(open);
+          if (!open) setReason("");
+        }}
+        tone="danger"
+        title={t("close.confirmTitle")}
+        body={
+          <div className="space-y-3">
+            <p>
+              {t("close.confirmBody", {
+                name: connection.clientName ?? connectionName,
+                channels: channels.length,
+              })}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="close-connection-reason">
+                {t("close.reason")}
+              </Label>
+              <Input
+                id="close-connection-reason"
+                value={reason}
+                maxLength={200}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t("close.reasonPlaceholder")}
+              />
+            </div>
+          </div>
+        }
+        confirmLabel={t("close.action")}
+        cancelLabel={t("common:cancel")}
+        isPending={closeConnection.isPending}
+        onConfirm={handleClose}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { ReactNode } from "react";
 import { useTranslation } from "react-i18next";
 
-import { Server, Users, Zap } from "lucide-react";
+import { Server, Users } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import {
@@ -11,13 +11,14 @@ import {
 } from "@/components/ui/collapsible";
 import { IconChevronRight } from "@/components/ui/icons";
 
+import { ConnectionInspector } from "./ConnectionInspector";
 import {
   formatBytes,
   getConnectionIcon,
   getStateBadgeClass,
   getStateIconColorClass,
 } from "./connectionStateUi";
-import type { ChannelDetail, ConnectionListItem } from "./types";
+import type { ConnectionListItem } from "./types";
 
 interface ConnectionRowProps {
   connection: ConnectionListItem;
@@ -32,7 +33,7 @@ interface ConnectionRowProps {
  *
  * The expand chevron rotates 90° when open. The expanded panel shows
  * only data NOT already visible in the collapsed header: protocol,
- * vhost, packets, bytes received, and channel details.
+ * vhost, packets, bytes received, and the live connection detail.
  */
 export function ConnectionRow({
   connection,
@@ -67,6 +68,11 @@ export function ConnectionRow({
             >
               {connection.name}
             </span>
+            {connection.clientName && (
+              <Badge variant="outline" className="font-mono shrink-0">
+                {connection.clientName}
+              </Badge>
+            )}
             {connection.state && (
               <Badge
                 className={getStateBadgeClass(connection.state)}
@@ -118,7 +124,8 @@ export function ConnectionRow({
  * Only shows data NOT already in the collapsed header:
  *   - Protocol, vhost (metadata the header omits for density)
  *   - Bytes received, packets in/out (traffic the header omits)
- *   - Channel list (expandable sub-detail)
+ *   - Client properties and per-channel prefetch / unacked counts,
+ *     fetched only while the row is open
  *
  * Bytes sent and channel count are NOT repeated here.
  */
@@ -137,6 +144,9 @@ function ConnectionDetailsPanel({
         <DetailItem label={t("virtualHost")} value={connection.vhost} mono />
         <DetailItem label={t("user")} value={connection.user} />
         <DetailItem label={t("node")} value={connection.node} mono />
+        {connection.peerHost && (
+          <DetailItem label={t("peerHost")} value={connection.peerHost} mono />
+        )}
         <DetailItem
           label={t("bytesReceived")}
           value={formatBytes(connection.recv_oct ?? 0)}
@@ -154,10 +164,7 @@ function ConnectionDetailsPanel({
         />
       </div>
 
-      {/* Channel list */}
-      {connection.channelDetails && connection.channelDetails.length > 0 && (
-        <ChannelsList channels={connection.channelDetails} />
-      )}
+      <ConnectionInspector connectionName={connection.name} />
     </div>
   );
 }
@@ -182,43 +189,3 @@ function DetailItem({
     </div>
   );
 }
-
-function ChannelsList({ channels }: { channels: ChannelDetail[] }) {
-  const { t } = useTranslation("connections");
-
-  return (
-    <div>
-      <h4 className="text-[11px] font-medium uppercase tracking-widest text-muted-foreground mb-2 flex items-center gap-1.5">
-        <Zap className="h-3 w-3" aria-hidden="true" />
-        {t("activeChannels")} ({channels.length})
-      </h4>
-      <div className="divide-y divide-border rounded-md border border-border overflow-hidden">
-        {channels.map((channel) => (
-          <ChannelRow key={channel.name} channel={channel} />
-        ))}
-      </div>
-    </div>
-  );
-}
-
-function ChannelRow({ channel }: { channel: ChannelDetail }) {
-  return (
-    <div className="flex items-center gap-3 px-3 py-2 text-xs">
-      <Badge variant="outline" className="font-mono text-xs shrink-0">
-        #{channel.number}
-      </Badge>
-      <span
-        className="font-mono text-xs truncate flex-1 min-w-0"
-        title={channel.name}
-      >
-        {channel.name}
-      </span>
-      {channel.state && (
-        <Badge className={getStateBadgeClass(channel.state)}>
-          {channel.state}
-        </Badge>
-      )}
-      <span className="text-muted-foreground shrink-0">{channel.vhost}</span>
-    </div>
-  );
-}
@@ -21,18 +21,7 @@ export interface ConnectionListItem {
   send_oct?: number;
   recv_cnt?: number;
   send_cnt?: number;
-  channelDetails?: ChannelDetail[];
-}
-
-export interface ChannelDetail {
-  name: string;
-  number: number;
-  state?: string;
-  user: string;
-  vhost: string;
-  node: string;
-  connection_details?: {
-    peer_host?: string;
-    peer_port?: number;
-  };
+  /** Name the client gave itself (`connection_name` client property) */
+  clientName?: string | null;
+  peerHost?: string;
 }
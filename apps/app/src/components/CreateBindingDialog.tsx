@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+import { useCreateBinding } from "@/hooks/queries/useRabbitMQ";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+type DestinationType = "queue" | "exchange";
+type BindingArguments = Record<string, string | number | boolean>;
+
+interface CreateBindingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  serverId: string;
+  vhost: string;
+  /** Pre-filled, read-only source exchange (exchanges list). */
+  source?: string;
+  /** Pre-filled, read-only destination queue (queue detail). */
+  destinationQueue?: string;
+}
+
+/**
+ * Parse the arguments textarea. Only flat objects of primitive values are
+ * accepted — that is what RabbitMQ binding arguments (headers exchange
+ * matching, `x-match`) support. Returns null when the input is invalid.
+ */
+function parseBindingArguments(raw: string): BindingArguments | null {
+  if (!raw.trim()) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return null;
+    }
+    const entries = Object.entries(parsed as Record<string, unknown>);
+    if (
+      entries.some(
+        ([, v]) => !["string", "number", "boolean"].includes(typeof v)
+      )
+    ) {
+      return null;
+    }
+    return parsed as BindingArguments;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Dialog for binding a queue or exchange to a source exchange. Used from
+ * the queue detail bindings tab (destination fixed) and from an exchange
+ * row in the exchanges list (source fixed).
+ */
+export function CreateBindingDialog({
+  open,
+  onOpenChange,
+  serverId,
+  vhost,
+  source: fixedSource,
+  destinationQueue,
+}: CreateBindingDialogProps) {
+  const { t } = useTranslation("exchanges");
+  const { workspace } = useWorkspace();
+  const createBindingMutation = useCreateBinding();
+
+  const [source, setSource] = useState(fixedSource ?? "");
+  const [destinationType, setDestinationType] =
+    useState<DestinationType>("queue");
+  const [destination, setDestination] = useState(destinationQueue ?? "");
+  const [routingKey, setRoutingKey] = useState("");
+  const [rawArguments, setRawArguments] = useState("");
+
+  const parsedArguments = parseBindingArguments(rawArguments);
+  const canSubmit =
+    !!source.trim() &&
+    !!destination.trim() &&
+    parsedArguments !== null &&
+    !createBindingMutation.isPending;
+
+  const reset = () => {
+    setSource(fixedSource ?? "");
+    setDestinationType("queue");
+    setDestination(destinationQueue ?? "");
+    setRoutingKey("");
+    setRawArguments("");
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async () => {
+    if (!workspace?.id || parsedArguments === null) return;
+    try {
+      await createBindingMutation.mutateAsync({
+        serverId,
+        workspaceId: workspace.id,
+        vhost: encodeURIComponent(vhost),
+        source: source.trim(),
+        destination: destination.trim(),
+        destinationType,
+        routingKey,
+        arguments: parsedArguments,
+      });
+      qToast({
+        severity: "success",
+        title: t("binding.createdTitle"),
+        msg: t("binding.createdDesc", {
+          source: source.trim(),
+          destination: destination.trim(),
+        }),
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(t("binding.createError"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("binding.addTitle")}</DialogTitle>
+          <DialogDescription>{t("binding.addDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="binding-source">{t("binding.source")}</Label>
+            <Input
+              id="binding-source"
+              className="font-mono"
+              value={source}
+              disabled={fixedSource !== undefined}
+              onChange={(e) => setSource(e.target.value)}
+            />
+          </div>
+
+          {destinationQueue === undefined && (
+            <div className="space-y-1.5">
+              <Label>{t("binding.destinationType")}</Label>
+              <Select
+                value={destinationType}
+                onValueChange={(v) => setDestinationType(v as DestinationType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="queue">
+                    {t("binding.destinationQueue")}
+                  </SelectItem>
+                  <SelectItem value="exchange">
+                    {t("binding.destinationExchange")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="binding-destination">
+              {t("binding.destination")}
+            </Label>
+            <Input
+              id="binding-destination"
+              className="font-mono"
+              value={destination}
+              disabled={destinationQueue !== undefined}
+              onChange={(e) => setDestination(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="binding-routing-key">
+              {t("binding.routingKey")}
+            </Label>
+            <Input
+              id="binding-routing-key"
+              className="font-mono"
+              value={routingKey}
+              onChange={(e) => setRoutingKey(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="binding-arguments">{t("arguments")}</Label>
+            <Textarea
+              id="binding-arguments"
+              className="font-mono text-xs"
+              rows={3}
+              placeholder='{"x-match": "all", "format": "pdf"}'
+              value={rawArguments}
+              onChange={(e) => setRawArguments(e.target.value)}
+            />
+            <p
+              className={`text-xs ${
+                parsedArguments === null
+                  ? "text-destructive"
+                  : "text-muted-foreground"
+              }`}
+            >
+              {parsedArguments === null
+                ? t("binding.argumentsInvalid")
+                : t("binding.argumentsHint")}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={createBindingMutation.isPending}
+          >
+            {t("common:cancel")}
+          </Button>
+          <Button onClick={() => void handleSubmit()} disabled={!canSubmit}>
+            {createBindingMutation.isPending
+              ? t("binding.creating")
+              : t("binding.add")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+
+import { useDeleteBinding } from "@/hooks/queries/useRabbitMQ";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+export interface BindingToDelete {
+  source: string;
+  destination: string;
+  destinationType: "queue" | "exchange";
+  routingKey: string;
+  propertiesKey: string;
+}
+
+interface DeleteBindingDialogProps {
+  /** The binding to remove; the dialog is open while this is set. */
+  binding: BindingToDelete | null;
+  onOpenChange: (open: boolean) => void;
+  serverId: string;
+  vhost: string;
+}
+
+export function DeleteBindingDialog({
+  binding,
+  onOpenChange,
+  serverId,
+  vhost,
+}: DeleteBindingDialogProps) {
+  const { t } = useTranslation("exchanges");
+  const { workspace } = useWorkspace();
+  const deleteBindingMutation = useDeleteBinding();
+
+  // Re-throws on failure so ConfirmDialog keeps the dialog open.
+  const handleDelete = async () => {
+    if (!binding || !workspace?.id) return;
+    try {
+      await deleteBindingMutation.mutateAsync({
+        serverId,
+        workspaceId: workspace.id,
+        vhost: encodeURIComponent(vhost),
+        source: binding.source,
+        destination: binding.destination,
+        destinationType: binding.destinationType,
+        propertiesKey: binding.propertiesKey,
+      });
+      qToast({
+        severity: "success",
+        title: t("binding.deletedTitle"),
+        msg: t("binding.deletedDesc", {
+          source: binding.source,
+          destination: binding.destination,
+        }),
+      });
+    } catch (error) {
+      toast.error(t("binding.deleteError"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+      throw error;
+    }
+  };
+
+  return (
+    <ConfirmDialog
+      open={binding !== null}
+      onOpenChange={onOpenChange}
+      tone="danger"
+      title={t("binding.deleteTitle")}
+      body={
+        binding && (
+          <div className="space-y-3">
+            <div>{t("binding.deleteDescription")}</div>
+            <div className="p-3 bg-muted rounded-lg border font-mono text-sm">
+              {binding.source} &rarr; {binding.destination}
+              {binding.routingKey && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  ({binding.routingKey})
+                </span>
+              )}
+            </div>
+          </div>
+        )
+      }
+      confirmLabel={t("binding.delete")}
+      pendingLabel={t("binding.deleting")}
+      cancelLabel={t("common:cancel")}
+      isPending={deleteBindingMutation.isPending}
+      onConfirm={handleDelete}
+    />
+  );
+}
@@ -1,7 +1,7 @@
 import { ReactNode } from "react";
 import { useTranslation } from "react-i18next";
 
-import { Activity, Filter, Lock } from "lucide-react";
+import { Activity, Filter, Lock, Plus, Trash2 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,7 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { IconChevronRight, IconTrash } from "@/components/ui/icons";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import { ExchangeFeatureBadges } from "./ExchangeFeatureBadges";
 import { getExchangeTypeBadgeClass } from "./exchangeTypeUi";
@@ -22,6 +23,9 @@ interface ExchangeRowProps {
   onOpenChange: (open: boolean) => void;
   onDelete?: () => void;
   isDeleting?: boolean;
+  /** Present when the user may add bindings from this exchange. */
+  onAddBinding?: () => void;
+  onDeleteBinding?: (binding: ExchangeBinding) => void;
 }
 
 /**
@@ -35,6 +39,8 @@ export function ExchangeRow({
   onOpenChange,
   onDelete,
   isDeleting,
+  onAddBinding,
+  onDeleteBinding,
 }: ExchangeRowProps) {
   const { t } = useTranslation("exchanges");
 
@@ -116,6 +122,8 @@ export function ExchangeRow({
           exchange={exchange}
           onDelete={onDelete}
           isDeleting={isDeleting}
+          onAddBinding={onAddBinding}
+          onDeleteBinding={onDeleteBinding}
         />
       </CollapsibleContent>
     </Collapsible>
@@ -124,25 +132,76 @@ export function ExchangeRow({
 
 /**
  * Expanded details pane matching the QueueTable DetailItem pattern:
- * inline flex-wrap metrics strip instead of a two-column grid.
+ * inline flex-wrap metrics strip instead of a two-column grid. Bindings
+ * live on their own tab so they can be managed without crowding the
+ * details.
  */
 function ExchangeDetailsPanel({
   exchange,
   onDelete,
   isDeleting,
+  onAddBinding,
+  onDeleteBinding,
 }: {
   exchange: ExchangeListItem;
   onDelete?: () => void;
   isDeleting?: boolean;
+  onAddBinding?: () => void;
+  onDeleteBinding?: (binding: ExchangeBinding) => void;
 }) {
   const { t } = useTranslation("exchanges");
 
   const hasArguments =
     exchange.arguments && Object.keys(exchange.arguments).length > 0;
-  const hasBindings = exchange.bindings && exchange.bindings.length > 0;
+  const bindings = exchange.bindings ?? [];
 
   return (
-    <div className="border-t border-border bg-muted/20 px-4 py-3 space-y-3">
+    <Tabs
+      defaultValue="details"
+      className="border-t border-border bg-muted/20 px-4 py-3"
+    >
+      <TabsList className="mb-3">
+        <TabsTrigger value="details">{t("binding.tabDetails")}</TabsTrigger>
+        <TabsTrigger value="bindings">
+          {t("bindings")} ({bindings.length})
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="details" className="mt-0 space-y-3">
+        <ExchangeDetails
+          exchange={exchange}
+          hasArguments={!!hasArguments}
+          onDelete={onDelete}
+          isDeleting={isDeleting}
+        />
+      </TabsContent>
+
+      <TabsContent value="bindings" className="mt-0">
+        <ExchangeBindingsList
+          bindings={bindings}
+          onAdd={onAddBinding}
+          onDelete={onDeleteBinding}
+        />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function ExchangeDetails({
+  exchange,
+  hasArguments,
+  onDelete,
+  isDeleting,
+}: {
+  exchange: ExchangeListItem;
+  hasArguments: boolean;
+  onDelete?: () => void;
+  isDeleting?: boolean;
+}) {
+  const { t } = useTranslation("exchanges");
+
+  return (
+    <>
       {/* Inline metrics strip */}
       <div className="flex flex-wrap gap-x-6 gap-y-2">
         <DetailItem label={t("vhost")} value={exchange.vhost} mono />
@@ -201,8 +260,6 @@ function ExchangeDetailsPanel({
         </div>
       )}
 
-      {/* Bindings + delete */}
-      {hasBindings && <ExchangeBindingsList bindings={exchange.bindings!} />}
       {onDelete && (
         <div className="flex items-center gap-2 pt-1">
           <Button
@@ -219,7 +276,7 @@ function ExchangeDetailsPanel({
           </Button>
         </div>
       )}
-    </div>
+    </>
   );
 }
 
@@ -244,27 +301,49 @@ function DetailItem({
   );
 }
 
-function ExchangeBindingsList({ bindings }: { bindings: ExchangeBinding[] }) {
+function ExchangeBindingsList({
+  bindings,
+  onAdd,
+  onDelete,
+}: {
+  bindings: ExchangeBinding[];
+  onAdd?: () => void;
+  onDelete?: (binding: ExchangeBinding) => void;
+}) {
   const { t } = useTranslation("exchanges");
 
   return (
-    <div>
-      <p className="text-xs font-medium text-muted-foreground mb-2">
-        {t("bindings")} ({bindings.length})
-      </p>
-      <div className="divide-y divide-border rounded-md border overflow-hidden">
-        {bindings.map((binding, index) => (
-          <ExchangeBindingItem
-            key={`${binding.destination}-${index}`}
-            binding={binding}
-          />
-        ))}
-      </div>
+    <div className="space-y-2">
+      {onAdd && (
+        <Button variant="outline" size="sm" onClick={onAdd}>
+          <Plus className="h-3.5 w-3.5 mr-1.5" aria-hidden="true" />
+          {t("binding.add")}
+        </Button>
+      )}
+      {bindings.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t("binding.none")}</p>
+      ) : (
+        <div className="divide-y divide-border rounded-md border overflow-hidden">
+          {bindings.map((binding, index) => (
+            <ExchangeBindingItem
+              key={`${binding.destination}-${index}`}
+              binding={binding}
+              onDelete={onDelete ? () => onDelete(binding) : undefined}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
 
-function ExchangeBindingItem({ binding }: { binding: ExchangeBinding }) {
+function ExchangeBindingItem({
+  binding,
+  onDelete,
+}: {
+  binding: ExchangeBinding;
+  onDelete?: () => void;
+}) {
   const { t } = useTranslation("exchanges");
   const argCount = Object.keys(binding.arguments).length;
 
@@ -300,11 +379,25 @@ function ExchangeBindingItem({ binding }: { binding: ExchangeBinding }) {
           </code>
         )}
       </div>
-      {argCount > 0 && (
-        <span className="text-xs text-muted-foreground shrink-0">
-          {argCount} {t("arguments")}
-        </span>
-      )}
+      <div className="flex items-center gap-2 shrink-0">
+        {argCount > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {argCount} {t("arguments")}
+          </span>
+        )}
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+            onClick={onDelete}
+            aria-label={t("binding.delete")}
+            title={t("binding.delete")}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
     </div>
   );
 }
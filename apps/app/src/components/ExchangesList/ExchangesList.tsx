@@ -3,6 +3,11 @@ import { useTranslation } from "react-i18next";
 
 import { Activity, ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
 
+import { CreateBindingDialog } from "@/components/CreateBindingDialog";
+import {
+  type BindingToDelete,
+  DeleteBindingDialog,
+} from "@/components/DeleteBindingDialog";
 import { Skeleton } from "@/components/ui/skeleton";
 
 import { ExchangeRow } from "./ExchangeRow";
@@ -37,6 +42,9 @@ interface ExchangesListProps {
   onTypeFilterChange: (value: ExchangeTypeFilterValue) => void;
   onDelete?: (exchange: ExchangeListItem) => void;
   isDeleting?: boolean;
+  serverId: string;
+  /** Show add / remove binding controls (binding:write). */
+  canManageBindings?: boolean;
 }
 
 /**
@@ -57,9 +65,19 @@ export function ExchangesList({
   onTypeFilterChange,
   onDelete,
   isDeleting,
+  serverId,
+  canManageBindings = false,
 }: ExchangesListProps) {
   const { t } = useTranslation("exchanges");
   const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+  // Bindings are vhost-scoped, so the dialogs carry the exchange's own vhost.
+  const [bindingSource, setBindingSource] = useState<ExchangeListItem | null>(
+    null
+  );
+  const [bindingToDelete, setBindingToDelete] = useState<{
+    vhost: string;
+    binding: BindingToDelete;
+  } | null>(null);
   const [sortField, setSortField] = useState<SortField>("bindingCount");
   const [sortDir, setSortDir] = useState<SortDir>("desc");
 
@@ -198,12 +216,60 @@ export function ExchangesList({
                   onOpenChange={(open) => toggleExpanded(key, open)}
                   onDelete={onDelete ? () => onDelete(exchange) : undefined}
                   isDeleting={isDeleting}
+                  // The default exchange cannot be bound explicitly
+                  onAddBinding={
+                    canManageBindings && exchange.name
+                      ? () => setBindingSource(exchange)
+                      : undefined
+                  }
+                  onDeleteBinding={
+                    canManageBindings && exchange.name
+                      ? (binding) =>
+                          setBindingToDelete({
+                            vhost: exchange.vhost,
+                            binding: {
+                              source: binding.source,
+                              destination: binding.destination,
+                              destinationType:
+                                binding.destination_type === "exchange"
+                                  ? "exchange"
+                                  : "queue",
+                              routingKey: binding.routing_key ?? "",
+                              propertiesKey: binding.properties_key,
+                            },
+                          })
+                      : undefined
+                  }
                 />
               );
             })}
           </div>
         </>
       )}
+
+      {canManageBindings && (
+        <>
+          <CreateBindingDialog
+            // Remount per exchange so the fixed source resets
+            key={bindingSource ? exchangeKey(bindingSource) : "closed"}
+            open={bindingSource !== null}
+            onOpenChange={(open) => {
+              if (!open) setBindingSource(null);
+            }}
+            serverId={serverId}
+            vhost={bindingSource?.vhost ?? "/"}
+            source={bindingSource?.name}
+          />
+          <DeleteBindingDialog
+            binding={bindingToDelete?.binding ?? null}
+            onOpenChange={(open) => {
+              if (!open) setBindingToDelete(null);
+            }}
+            serverId={serverId}
+            vhost={bindingToDelete?.vhost ?? "/"}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -26,10 +26,12 @@ export interface ExchangeListItem {
 }
 
 export interface ExchangeBinding {
+  source: string;
   destination: string;
   destination_type: string;
   routing_key?: string;
   arguments: Record<string, unknown>;
+  properties_key: string;
 }
 
 /**
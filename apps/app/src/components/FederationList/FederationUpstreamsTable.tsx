@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { AlertTriangle, ChevronRight, Network } from "lucide-react";
+
+import { LinkStateBadge } from "@/components/LinkStateBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { IconRefresh, IconTrash } from "@/components/ui/icons";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import type { FederationLinkItem, FederationUpstreamItem } from "./types";
+
+interface FederationUpstreamsTableProps {
+  upstreams: FederationUpstreamItem[];
+  isLoading: boolean;
+  onDelete?: (upstream: FederationUpstreamItem) => void;
+  onRestartLink?: (link: FederationLinkItem) => void;
+  isRestarting?: boolean;
+}
+
+export function FederationUpstreamsTable({
+  upstreams,
+  isLoading,
+  onDelete,
+  onRestartLink,
+  isRestarting,
+}: FederationUpstreamsTableProps) {
+  const { t } = useTranslation("federation");
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      {isLoading ? (
+        <LoadingRows />
+      ) : upstreams.length === 0 ? (
+        <EmptyState />
+      ) : (
+        <>
+          <div className="flex items-center px-4 py-2 border-b border-border bg-muted/30 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            <div className="flex-1 min-w-0">{t("columnName")}</div>
+            <div className="w-72 hidden lg:block">{t("columnUri")}</div>
+            <div className="w-40 text-right">{t("columnLinks")}</div>
+            {onDelete && <div className="w-12" />}
+          </div>
+
+          <div className="divide-y divide-border">
+            {upstreams.map((upstream) => (
+              <UpstreamRow
+                key={`${upstream.vhost}:${upstream.name}`}
+                upstream={upstream}
+                onDelete={onDelete}
+                onRestartLink={onRestartLink}
+                isRestarting={isRestarting}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function UpstreamRow({
+  upstream,
+  onDelete,
+  onRestartLink,
+  isRestarting,
+}: {
+  upstream: FederationUpstreamItem;
+  onDelete?: (u: FederationUpstreamItem) => void;
+  onRestartLink?: (l: FederationLinkItem) => void;
+  isRestarting?: boolean;
+}) {
+  const { t } = useTranslation("federation");
+  const terminated = upstream.links.filter((l) => l.state === "terminated");
+  // Open by default when something is broken so the error is visible.
+  const [expanded, setExpanded] = useState(terminated.length > 0);
+
+  return (
+    <div>
+      <div className="flex items-center px-4 py-3 hover:bg-muted/20 transition-colors">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+          aria-expanded={expanded}
+        >
+          <ChevronRight
+            className={`h-3.5 w-3.5 shrink-0 text-muted-foreground transition-transform ${expanded ? "rotate-90" : ""}`}
+            aria-hidden="true"
+          />
+          <div className="min-w-0">
+            <span className="font-medium text-sm truncate block">
+              {upstream.name}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {upstream.vhost}
+            </span>
+          </div>
+        </button>
+
+        <div className="w-72 hidden lg:block font-mono text-xs text-muted-foreground truncate">
+          {upstream.uris.join(", ")}
+        </div>
+
+        <div className="w-40 flex items-center justify-end gap-1.5">
+          <Badge variant="outline" className="text-xs tabular-nums">
+            {t("linkCount", { count: upstream.links.length })}
+          </Badge>
+          {terminated.length > 0 && (
+            <Badge variant="destructive" className="text-xs tabular-nums">
+              {t("terminatedCount", { count: terminated.length })}
+            </Badge>
+          )}
+        </div>
+
+        {onDelete && (
+          <div className="w-12 flex items-center justify-end">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0 hover:text-destructive"
+              onClick={() => onDelete(upstream)}
+              title={t("deleteUpstream")}
+              aria-label={t("deleteUpstream")}
+            >
+              <IconTrash className="h-3.5 w-auto shrink-0" aria-hidden="true" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-3 bg-muted/10 border-t border-border/50">
+          {upstream.links.length === 0 ? (
+            <p className="py-3 text-xs text-muted-foreground">{t("noLinks")}</p>
+          ) : (
+            <div className="divide-y divide-border/50">
+              {upstream.links.map((link) => (
+                <LinkRow
+                  key={`${link.node}:${link.id}`}
+                  link={link}
+                  onRestart={onRestartLink}
+                  isRestarting={isRestarting}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LinkRow({
+  link,
+  onRestart,
+  isRestarting,
+}: {
+  link: FederationLinkItem;
+  onRestart?: (l: FederationLinkItem) => void;
+  isRestarting?: boolean;
+}) {
+  const { t } = useTranslation("federation");
+
+  return (
+    <div className="py-2 text-xs">
+      <div className="flex items-center gap-3">
+        <Badge variant="outline" className="text-xs capitalize">
+          {link.type === "exchange" ? t("typeExchange") : t("typeQueue")}
+        </Badge>
+        <span className="flex-1 min-w-0 font-mono truncate">
+          {link.resource ?? "—"}
+          {link.upstreamResource &&
+            link.upstreamResource !== link.resource &&
+            ` ← ${link.upstreamResource}`}
+        </span>
+        <span className="w-48 font-mono text-muted-foreground truncate text-right">
+          {link.node}
+        </span>
+        <div className="w-28 text-right">
+          <LinkStateBadge state={link.state} />
+        </div>
+        {onRestart && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            onClick={() => onRestart(link)}
+            disabled={isRestarting}
+            title={t("restartLink")}
+            aria-label={t("restartLink")}
+          >
+            <IconRefresh className="h-3.5 w-auto shrink-0" aria-hidden="true" />
+          </Button>
+        )}
+      </div>
+      {link.error && (
+        <div className="flex items-start gap-2 mt-1.5 text-destructive">
+          <AlertTriangle
+            className="h-3.5 w-3.5 shrink-0 mt-0.5"
+            aria-hidden="true"
+          />
+          <span className="font-mono break-all">{link.error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LoadingRows() {
+  return (
+    <div className="divide-y divide-border">
+      {Array.from({ length: 3 }).map((_, i) => (
+        <div key={i} className="flex items-center justify-between px-4 py-4">
+          <Skeleton className="h-4 w-40" />
+          <Skeleton className="h-4 w-56" />
+          <Skeleton className="h-5 w-16 rounded-full" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EmptyState() {
+  const { t } = useTranslation("federation");
+  return (
+    <div className="py-12 text-center">
+      <Network
+        className="h-10 w-10 text-muted-foreground mx-auto mb-3"
+        aria-hidden="true"
+      />
+      <h2 className="text-sm font-medium text-foreground mb-1">
+        {t("noUpstreamsFound")}
+      </h2>
+      <p className="text-xs text-muted-foreground">{t("noUpstreamsDesc")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import type { LinkState } from "@/components/LinkStateBadge";
+
+/**
+ * Client-side shape of a federation upstream as returned by
+ * `rabbitmq.federation.list`, with the links established from it on every
+ * node. URIs arrive with credentials already redacted.
+ */
+export interface FederationLinkItem {
+  id: string;
+  node: string;
+  vhost: string;
+  upstream: string;
+  type: "exchange" | "queue";
+  state: LinkState;
+  status: string;
+  resource: string | null;
+  upstreamResource: string | null;
+  uri: string | null;
+  error: string | null;
+  timestamp: string | null;
+}
+
+export interface FederationUpstreamItem {
+  name: string;
+  vhost: string;
+  uris: string[];
+  exchange: string | null;
+  queue: string | null;
+  prefetchCount: number | null;
+  reconnectDelay: number | null;
+  ackMode: string | null;
+  trustUserId: boolean;
+  maxHops: number | null;
+  expires: number | null;
+  messageTtl: number | null;
+  links: FederationLinkItem[];
+}
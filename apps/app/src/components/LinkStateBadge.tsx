@@ -0,0 +1,33 @@
+import { useTranslation } from "react-i18next";
+
+import { Badge } from "@/components/ui/badge";
+
+export type LinkState = "running" | "starting" | "terminated";
+
+const STATE_VARIANT = {
+  running: "soft-success",
+  starting: "soft-warning",
+  terminated: "destructive",
+} as const;
+
+/**
+ * Live state of a shovel or federation link. `null` means the broker did
+ * not report one (management plugin missing, or not started yet).
+ */
+export function LinkStateBadge({ state }: { state: LinkState | null }) {
+  const { t } = useTranslation();
+
+  if (!state) {
+    return (
+      <Badge variant="soft-muted" className="px-2 py-0.5">
+        {t("linkState.unknown")}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant={STATE_VARIANT[state]} className="px-2 py-0.5">
+      {t(`linkState.${state}`)}
+    </Badge>
+  );
+}
@@ -13,6 +13,9 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 
 import { useServerContext } from "@/contexts/ServerContext";
 
@@ -21,6 +24,7 @@ import { useWorkspace } from "@/hooks/ui/useWorkspace";
 
 interface PauseQueueDialogProps {
   queueName: string;
+  vhost?: string | null;
   isPaused?: boolean;
   consumerCount: number;
   onSuccess?: () => void;
@@ -29,12 +33,16 @@ interface PauseQueueDialogProps {
 
 export function PauseQueueDialog({
   queueName,
+  vhost,
   isPaused = false,
   consumerCount,
   onSuccess,
   trigger,
 }: PauseQueueDialogProps) {
   const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  // `datetime-local` value, in the browser's timezone
+  const [pausedUntil, setPausedUntil] = useState("");
   const { selectedServerId } = useServerContext();
   const { workspace } = useWorkspace();
   const pauseQueueMutation = usePauseQueue();
@@ -48,6 +56,11 @@ export function PauseQueueDialog({
         serverId: selectedServerId,
         workspaceId: workspace.id,
         queueName,
+        vhost: vhost ? encodeURIComponent(vhost) : undefined,
+        reason: reason.trim() || undefined,
+        pausedUntil: pausedUntil
+          ? new Date(pausedUntil).toISOString()
+          : undefined,
       });
 
       toast("Success", {
@@ -55,6 +68,8 @@ export function PauseQueueDialog({
       });
 
       setOpen(false);
+      setReason("");
+      setPausedUntil("");
       onSuccess?.();
     } catch (error) {
       toast.error("Error", {
@@ -72,21 +87,13 @@ export function PauseQueueDialog({
         serverId: selectedServerId,
         workspaceId: workspace.id,
         queueName,
+        vhost: vhost ? encodeURIComponent(vhost) : undefined,
       });
 
       toast("Success", {
         description: result.message,
       });
 
-      if (result.note) {
-        // Show additional info about manual consumer reconnection
-        setTimeout(() => {
-          toast("Note", {
-            description: result.note,
-          });
-        }, 2000);
-      }
-
       setOpen(false);
       onSuccess?.();
     } catch (error) {
@@ -144,7 +151,8 @@ export function PauseQueueDialog({
                 <br />
                 <strong>AMQP Pause:</strong> This will create a high-priority
                 blocking consumer that will prevent message processing without
-                affecting existing consumers.
+                affecting existing consumers. The pause is kept across Qarote
+                restarts until it is resumed.
                 {consumerCount > 0 && (
                   <span className="text-sm text-muted-foreground block mt-2">
                     Current consumers: {consumerCount}
@@ -154,6 +162,33 @@ export function PauseQueueDialog({
             )}
           </DialogDescription>
         </DialogHeader>
+        {!isPaused && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pause-reason">Reason (optional)</Label>
+              <Textarea
+                id="pause-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. Deploying orders-service v2.4"
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pause-until">Resume automatically at</Label>
+              <Input
+                id="pause-until"
+                type="datetime-local"
+                value={pausedUntil}
+                onChange={(e) => setPausedUntil(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to keep the queue paused until it is resumed.
+              </p>
+            </div>
+          </div>
+        )}
         <DialogFooter>
           <Button
             variant="outline"
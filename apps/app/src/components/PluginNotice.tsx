@@ -0,0 +1,38 @@
+import { useTranslation } from "react-i18next";
+
+import { Puzzle } from "lucide-react";
+
+/**
+ * Explains that a RabbitMQ plugin a page depends on is not enabled on the
+ * selected server, with the command that enables it.
+ */
+export function PluginNotice({
+  title,
+  description,
+  plugin,
+}: {
+  title: string;
+  description: string;
+  plugin: string;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex gap-3 rounded-lg border border-warning/30 bg-warning-muted px-4 py-3">
+      <Puzzle
+        className="h-4 w-4 shrink-0 mt-0.5 text-warning"
+        aria-hidden="true"
+      />
+      <div className="space-y-1.5 text-sm">
+        <div className="font-medium text-foreground">{title}</div>
+        <p className="text-muted-foreground">{description}</p>
+        <p className="text-xs text-muted-foreground">
+          {t("pluginNotice.enableWith")}{" "}
+          <code className="bg-background px-1.5 py-0.5 rounded font-mono">
+            rabbitmq-plugins enable {plugin}
+          </code>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+import { AlertTriangle, Users } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { useQueueConsumerHealth } from "@/hooks/queries/useRabbitMQ";
+
+import type { ReactNode } from "react";
+
+type ConsumerHealthReport =
+  inferRouterOutputs<AppRouter>["rabbitmq"]["queues"]["getQueueConsumerHealth"];
+type ConsumerStatus = ConsumerHealthReport["consumers"][number]["status"];
+
+const WINDOW_OPTIONS = [1, 5, 15, 30, 60] as const;
+
+const STATUS_BADGE: Record<
+  ConsumerStatus,
+  "destructive" | "secondary" | "outline"
+> = {
+  stuck: "destructive",
+  saturated: "outline",
+  healthy: "secondary",
+  idle: "outline",
+  auto_ack: "outline",
+  unknown: "outline",
+};
+
+interface ConsumerHealthProps {
+  serverId: string;
+  queueName: string;
+  vhost: string | null;
+  enabled: boolean;
+}
+
+function Field({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold font-mono tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+/**
+ * Which consumer is holding the queue back. Every consumer with how full
+ * its prefetch is, how long its in-flight deliveries have gone unacked
+ * and how fast it acks. A consumer whose prefetch is full and that acked
+ * nothing over the window is stuck: the broker will not deliver to it
+ * again until it acks, so its share of the queue sits in ready.
+ */
+export function ConsumerHealth({
+  serverId,
+  queueName,
+  vhost,
+  enabled,
+}: ConsumerHealthProps) {
+  const { t } = useTranslation("queues");
+  const [windowMinutes, setWindowMinutes] = useState<number>(5);
+  const { data, isLoading, error } = useQueueConsumerHealth(
+    serverId,
+    queueName,
+    vhost,
+    windowMinutes,
+    enabled
+  );
+
+  const history = data?.history ?? [];
+  const peakConsumers = Math.max(1, ...history.map((p) => p.consumerCount));
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-border overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 bg-muted/30 border-b border-border">
+          <h3 className="title-section">{t("consumerHealth.title")}</h3>
+          <Select
+            value={String(windowMinutes)}
+            onValueChange={(v) => setWindowMinutes(Number(v))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {t("consumerHealth.window", { count: n })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : error || !data ? (
+            <p className="text-sm text-muted-foreground">
+              {error?.message ?? t("consumerHealth.unavailable")}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <Field
+                  label={t("consumerHealth.consumers")}
+                  value={data.consumers.length}
+                />
+                <Field
+                  label={t("consumerHealth.stuck")}
+                  value={
+                    <span className={data.stuck > 0 ? "text-destructive" : ""}>
+                      {data.stuck}
+                    </span>
+                  }
+                />
+                <Field
+                  label={t("consumerHealth.saturated")}
+                  value={
+                    <span className={data.saturated > 0 ? "text-warning" : ""}>
+                      {data.saturated}
+                    </span>
+                  }
+                />
+                <Field
+                  label={t("consumerHealth.utilisation")}
+                  value={
+                    data.consumerUtilisation !== null
+                      ? `${Math.round(data.consumerUtilisation * 100)}%`
+                      : "—"
+                  }
+                />
+              </div>
+
+              {data.starving && (
+                <p className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {t("consumerHealth.starving", {
+                    ready: data.messagesReady.toLocaleString(),
+                  })}
+                </p>
+              )}
+              {data.uninspected > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {t("consumerHealth.uninspected", {
+                    count: data.uninspected,
+                  })}
+                </p>
+              )}
+
+              {data.consumers.length === 0 ? (
+                <div className="text-center py-8">
+                  <Users className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+                  <p className="text-muted-foreground">
+                    {t("noActiveConsumers")}
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("consumerHealth.consumer")}</TableHead>
+                      <TableHead>{t("consumerHealth.status")}</TableHead>
+                      <TableHead className="text-right">
+                        {t("consumerHealth.prefetchUtilization")}
+                      </TableHead>
+                      <TableHead className="text-right">
+                        {t("consumerHealth.unacked")}
+                      </TableHead>
+                      <TableHead className="text-right">
+                        {t("consumerHealth.unackedAge")}
+                      </TableHead>
+                      <TableHead className="text-right">
+                        {t("consumerHealth.ackRate")}
+                      </TableHead>
+                      <TableHead className="text-right">
+                        {t("consumerHealth.ackedInWindow")}
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.consumers.map((consumer) => (
+                      <TableRow key={consumer.consumerTag}>
+                        <TableCell className="max-w-64">
+                          <div className="font-mono text-xs truncate">
+                            {consumer.consumerTag}
+                          </div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {consumer.peerHost ?? consumer.connectionName}
+                            {consumer.sharedChannel &&
+                              ` · ${t("consumerHealth.sharedChannel", {
+                                count: consumer.channelConsumers,
+                              })}`}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={STATUS_BADGE[consumer.status]}
+                            className={
+                              consumer.status === "saturated"
+                                ? "text-warning border-warning/40"
+                                : undefined
+                            }
+                            title={t(
+                              `consumerHealth.statusHint.${consumer.status}`
+                            )}
+                          >
+                            {t(`consumerHealth.statusLabel.${consumer.status}`)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums text-xs">
+                          {consumer.prefetchUtilization !== null
+                            ? `${Math.round(consumer.prefetchUtilization * 100)}%`
+                            : t("consumerHealth.unlimited")}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums text-xs">
+                          {consumer.unacked?.toLocaleString() ?? "—"}
+                          {consumer.prefetchCount !== null &&
+                            ` / ${consumer.prefetchCount}`}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums text-xs">
+                          {consumer.unackedAgeSeconds !== null
+                            ? `${consumer.unackedAgeIsLowerBound ? "≥ " : ""}${formatAge(consumer.unackedAgeSeconds)}`
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums text-xs">
+                          {consumer.ackRate !== null
+                            ? `${consumer.ackRate.toFixed(1)}/s`
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums text-xs">
+                          {consumer.ackedInWindow?.toLocaleString() ?? "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="rounded-lg border border-border overflow-hidden">
+          <div className="px-4 py-3 bg-muted/30 border-b border-border">
+            <h3 className="title-section">
+              {t("consumerHealth.historyTitle")}
+            </h3>
+          </div>
+          <div className="p-4">
+            <div className="flex items-end gap-0.5 h-16">
+              {history.map((point) => (
+                <div
+                  key={String(point.timestamp)}
+                  className="flex-1 bg-primary/60 rounded-sm min-h-px"
+                  style={{
+                    height: `${(point.consumerCount / peakConsumers) * 100}%`,
+                  }}
+                  title={t("consumerHealth.historyPoint", {
+                    time: new Date(point.timestamp).toLocaleTimeString(),
+                    count: point.consumerCount,
+                    rate: point.consumeRate.toFixed(1),
+                  })}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
+import { useState } from "react";
 import { useTranslation } from "react-i18next";
 
-import { Link2 } from "lucide-react";
+import { Link2, Plus, Trash2 } from "lucide-react";
 
+import { CreateBindingDialog } from "@/components/CreateBindingDialog";
+import {
+  type BindingToDelete,
+  DeleteBindingDialog,
+} from "@/components/DeleteBindingDialog";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface Binding {
@@ -23,9 +30,20 @@ interface QueueBindingsProps {
       }
     | undefined;
   bindingsLoading: boolean;
+  serverId: string;
+  queueName: string;
+  vhost: string | null | undefined;
+  /** Show add / remove controls (binding:write). */
+  canManage?: boolean;
 }
 
-function BindingRow({ binding }: { binding: Binding }) {
+function BindingRow({
+  binding,
+  onDelete,
+}: {
+  binding: Binding;
+  onDelete?: () => void;
+}) {
   const { t } = useTranslation("queues");
   const hasArgs = Object.keys(binding.arguments).length > 0;
   const exchangeName = binding.source || t("spyDefaultExchange");
@@ -50,6 +68,18 @@ function BindingRow({ binding }: { binding: Binding }) {
         <span className="text-xs text-muted-foreground ml-auto shrink-0">
           {binding.vhost}
         </span>
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 shrink-0 text-muted-foreground hover:text-destructive"
+            onClick={onDelete}
+            aria-label={t("bindingRemove")}
+            title={t("bindingRemove")}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
       </div>
 
       {/* Extra details shown directly below */}
@@ -76,14 +106,33 @@ function BindingRow({ binding }: { binding: Binding }) {
 export function QueueBindings({
   bindingsData,
   bindingsLoading,
+  serverId,
+  queueName,
+  vhost,
+  canManage = false,
 }: QueueBindingsProps) {
   const { t } = useTranslation("queues");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [bindingToDelete, setBindingToDelete] =
+    useState<BindingToDelete | null>(null);
+  const resolvedVhost = vhost ?? "/";
 
   return (
     <div className="rounded-lg border border-border overflow-hidden">
       <div className="flex items-center gap-2 px-4 py-3 bg-muted/30 border-b border-border">
         <h3 className="title-section">{t("queueBindings")}</h3>
         <Badge variant="secondary">{bindingsData?.totalBindings || 0}</Badge>
+        {canManage && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={() => setCreateOpen(true)}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {t("bindingAdd")}
+          </Button>
+        )}
       </div>
       {bindingsLoading ? (
         <div className="p-4 space-y-3">
@@ -105,10 +154,43 @@ export function QueueBindings({
             <BindingRow
               key={`${binding.source}-${binding.routing_key}-${index}`}
               binding={binding}
+              // The implicit default-exchange binding cannot be removed
+              onDelete={
+                canManage && binding.source
+                  ? () =>
+                      setBindingToDelete({
+                        source: binding.source,
+                        destination: binding.destination,
+                        destinationType: "queue",
+                        routingKey: binding.routing_key,
+                        propertiesKey: binding.properties_key,
+                      })
+                  : undefined
+              }
             />
           ))}
         </div>
       )}
+
+      {canManage && (
+        <>
+          <CreateBindingDialog
+            open={createOpen}
+            onOpenChange={setCreateOpen}
+            serverId={serverId}
+            vhost={resolvedVhost}
+            destinationQueue={queueName}
+          />
+          <DeleteBindingDialog
+            binding={bindingToDelete}
+            onOpenChange={(open) => {
+              if (!open) setBindingToDelete(null);
+            }}
+            serverId={serverId}
+            vhost={resolvedVhost}
+          />
+        </>
+      )}
     </div>
   );
 }
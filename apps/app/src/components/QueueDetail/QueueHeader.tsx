@@ -2,6 +2,7 @@ import { useTranslation } from "react-i18next";
 
 import { PauseQueueDialog } from "@/components/PauseQueueDialog";
 import { PurgeQueueDialog } from "@/components/PurgeQueueDialog";
+import { QueuePauseBanner } from "@/components/QueueDetail/QueuePauseBanner";
 import { SendMessageDialog } from "@/components/SendMessageDialog";
 import { Button } from "@/components/ui/button";
 import {
@@ -19,6 +20,7 @@ import { useQueuePauseStatus } from "@/hooks/queries/useRabbitMQ";
 interface QueueHeaderProps {
   queueName: string;
   selectedServerId: string;
+  vhost?: string | null;
   messageCount: number;
   consumerCount?: number;
   isAdmin?: boolean;
@@ -30,6 +32,7 @@ interface QueueHeaderProps {
 export function QueueHeader({
   queueName,
   selectedServerId,
+  vhost,
   messageCount,
   consumerCount = 0,
   isAdmin,
@@ -41,7 +44,7 @@ export function QueueHeader({
 
   // Get the actual pause status from the backend
   const { data: pauseStatus, refetch: refetchPauseStatus } =
-    useQueuePauseStatus(selectedServerId, queueName);
+    useQueuePauseStatus(selectedServerId, queueName, vhost);
 
   const isPaused = pauseStatus?.pauseState?.isPaused ?? false;
 
@@ -84,6 +87,7 @@ export function QueueHeader({
                 />
                 <PauseQueueDialog
                   queueName={queueName}
+                  vhost={vhost}
                   consumerCount={consumerCount}
                   isPaused={isPaused}
                   onSuccess={() => {
@@ -123,6 +127,7 @@ export function QueueHeader({
           </div>
         )}
       </div>
+      <QueuePauseBanner pauseStatus={pauseStatus} />
     </div>
   );
 }
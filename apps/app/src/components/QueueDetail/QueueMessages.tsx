@@ -0,0 +1,418 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Inbox, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import {
+  useBrowseMessages,
+  useMoveMessages,
+  useRequeueFromDlq,
+} from "@/hooks/queries/useRabbitMQ";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+type AckMode = "requeue" | "reject_requeue";
+type Encoding = "auto" | "base64" | "string";
+
+const COUNT_OPTIONS = [10, 25, 50, 100] as const;
+const TRUNCATE_OPTIONS = [0, 1_000, 10_000, 100_000] as const;
+
+interface QueueMessagesProps {
+  serverId: string;
+  queueName: string;
+  vhost: string | null | undefined;
+  messageCount: number;
+}
+
+function MessageRow({
+  index,
+  message,
+}: {
+  index: number;
+  message: {
+    payload: string;
+    payload_bytes: number;
+    payload_encoding: string;
+    truncated: boolean;
+    properties: { headers?: Record<string, unknown> } & Record<string, unknown>;
+    routing_key: string;
+    redelivered: boolean;
+    exchange: string;
+  };
+}) {
+  const { t } = useTranslation("queues");
+  const { headers, ...properties } = message.properties;
+  const hasHeaders = !!headers && Object.keys(headers).length > 0;
+
+  return (
+    <div className="px-4 py-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+        <span className="text-muted-foreground">#{index + 1}</span>
+        <span className="text-primary font-medium truncate">
+          {message.exchange || t("spyDefaultExchange")}
+        </span>
+        <span className="text-muted-foreground">&rarr;</span>
+        <span className="text-foreground truncate">{message.routing_key}</span>
+        <span className="text-muted-foreground">
+          {t("browse.bytes", { count: message.payload_bytes })}
+        </span>
+        {message.payload_encoding === "base64" && (
+          <Badge variant="secondary">{t("spyBinaryPayload")}</Badge>
+        )}
+        {message.truncated && (
+          <Badge variant="secondary">{t("spyTruncated")}</Badge>
+        )}
+        {message.redelivered && (
+          <Badge variant="outline">{t("spyRedelivered")}</Badge>
+        )}
+      </div>
+      <pre className="text-xs font-mono bg-muted rounded p-2 whitespace-pre-wrap break-all max-h-64 overflow-auto">
+        {message.payload}
+      </pre>
+      {(hasHeaders || Object.keys(properties).length > 0) && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground font-mono">
+          {Object.entries(properties).map(([key, value]) => (
+            <span key={key}>
+              {key}: <span className="text-foreground">{String(value)}</span>
+            </span>
+          ))}
+          {hasHeaders && (
+            <span>
+              {t("spyHeaders")}:{" "}
+              <span className="text-foreground">{JSON.stringify(headers)}</span>
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function QueueMessages({
+  serverId,
+  queueName,
+  vhost,
+  messageCount,
+}: QueueMessagesProps) {
+  const { t } = useTranslation("queues");
+  const { workspace } = useWorkspace();
+  const [count, setCount] = useState<number>(10);
+  const [ackMode, setAckMode] = useState<AckMode>("requeue");
+  const [encoding, setEncoding] = useState<Encoding>("auto");
+  const [truncate, setTruncate] = useState<number>(0);
+  const [moveOpen, setMoveOpen] = useState(false);
+  const [requeueOpen, setRequeueOpen] = useState(false);
+  const [targetExchange, setTargetExchange] = useState("");
+  const [targetRoutingKey, setTargetRoutingKey] = useState("");
+  const [actionCount, setActionCount] = useState(100);
+
+  const browseMutation = useBrowseMessages();
+  const moveMutation = useMoveMessages();
+  const requeueMutation = useRequeueFromDlq();
+
+  const mutationInput = {
+    serverId,
+    workspaceId: workspace?.id || "",
+    queueName,
+    vhost: encodeURIComponent(vhost ?? "/"),
+    count: actionCount,
+  };
+
+  const browse = () =>
+    browseMutation.mutate({
+      ...mutationInput,
+      count,
+      ackMode,
+      encoding,
+      truncate: truncate > 0 ? truncate : undefined,
+    });
+
+  // Awaited by ConfirmDialog — rethrowing keeps the dialog open on failure.
+  const handleMove = async () => {
+    try {
+      const result = await moveMutation.mutateAsync({
+        ...mutationInput,
+        targetExchange,
+        targetRoutingKey,
+      });
+      qToast({
+        severity: result.success ? "success" : "warning",
+        title: t("move.resultTitle"),
+        msg: t("move.resultDescription", {
+          moved: result.moved,
+          failed: result.failed,
+          lost: result.lost,
+        }),
+      });
+      browse();
+    } catch (error) {
+      toast.error(t("move.errorTitle"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+      throw error;
+    }
+  };
+
+  const handleRequeue = async () => {
+    try {
+      const result = await requeueMutation.mutateAsync(mutationInput);
+      qToast({
+        severity: result.success ? "success" : "warning",
+        title: t("requeue.resultTitle"),
+        msg: t("requeue.resultDescription", {
+          requeued: result.requeued,
+          skipped: result.skipped,
+          failed: result.failed,
+          lost: result.lost,
+        }),
+      });
+      browse();
+    } catch (error) {
+      toast.error(t("requeue.errorTitle"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+      throw error;
+    }
+  };
+
+  const messages = browseMutation.data?.messages;
+  const countField = (
+    <div className="space-y-1">
+      <Label htmlFor="message-action-count">{t("browse.countLabel")}</Label>
+      <Input
+        id="message-action-count"
+        type="number"
+        min={1}
+        max={10000}
+        value={actionCount}
+        onChange={(e) => setActionCount(Number(e.target.value) || 1)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-muted/30 border-b border-border">
+        <h3 className="title-section">{t("browse.title")}</h3>
+        <Badge variant="secondary">{messageCount.toLocaleString()}</Badge>
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-none"
+            disabled={messageCount === 0}
+            onClick={() => setRequeueOpen(true)}
+          >
+            {t("requeue.trigger")}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-none"
+            disabled={messageCount === 0}
+            onClick={() => setMoveOpen(true)}
+          >
+            {t("move.trigger")}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 px-4 py-3 border-b border-border">
+        <div className="space-y-1">
+          <Label>{t("browse.countLabel")}</Label>
+          <Select
+            value={String(count)}
+            onValueChange={(v) => setCount(Number(v))}
+          >
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COUNT_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{t("browse.ackModeLabel")}</Label>
+          <Select
+            value={ackMode}
+            onValueChange={(v) => setAckMode(v as AckMode)}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="requeue">
+                {t("browse.ackModeRequeue")}
+              </SelectItem>
+              <SelectItem value="reject_requeue">
+                {t("browse.ackModeReject")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{t("browse.encodingLabel")}</Label>
+          <Select
+            value={encoding}
+            onValueChange={(v) => setEncoding(v as Encoding)}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">{t("browse.encodingAuto")}</SelectItem>
+              <SelectItem value="string">
+                {t("browse.encodingString")}
+              </SelectItem>
+              <SelectItem value="base64">
+                {t("browse.encodingBase64")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{t("browse.truncateLabel")}</Label>
+          <Select
+            value={String(truncate)}
+            onValueChange={(v) => setTruncate(Number(v))}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRUNCATE_OPTIONS.map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n === 0
+                    ? t("browse.truncateNone")
+                    : t("browse.bytes", { count: n })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          size="sm"
+          className="rounded-none"
+          disabled={browseMutation.isPending || !workspace?.id}
+          onClick={browse}
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-1 ${browseMutation.isPending ? "animate-spin" : ""}`}
+          />
+          {t("browse.fetch")}
+        </Button>
+      </div>
+
+      {browseMutation.isPending && !messages ? (
+        <div className="p-4 space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : browseMutation.error ? (
+        <div className="p-4 text-sm text-destructive">
+          {browseMutation.error.message}
+        </div>
+      ) : !messages ? (
+        <div className="p-4 text-sm text-muted-foreground">
+          {t("browse.hint")}
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="text-center py-8">
+          <Inbox className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">{t("browse.empty")}</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {messages.map((message, index) => (
+            <MessageRow key={index} index={index} message={message} />
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={moveOpen}
+        onOpenChange={setMoveOpen}
+        tone="danger"
+        title={t("move.title", { queueName })}
+        warn={{ tone: "danger", message: t("move.warning") }}
+        body={
+          <div className="space-y-3">
+            <div>{t("move.description")}</div>
+            <div className="space-y-1">
+              <Label htmlFor="move-target-exchange">
+                {t("move.exchangeLabel")}
+              </Label>
+              <Input
+                id="move-target-exchange"
+                value={targetExchange}
+                placeholder={t("spyDefaultExchange")}
+                onChange={(e) => setTargetExchange(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="move-target-routing-key">{t("routingKey")}</Label>
+              <Input
+                id="move-target-routing-key"
+                value={targetRoutingKey}
+                onChange={(e) => setTargetRoutingKey(e.target.value)}
+              />
+            </div>
+            {countField}
+          </div>
+        }
+        confirmLabel={t("move.confirm")}
+        pendingLabel={t("move.moving")}
+        cancelLabel={t("cancel")}
+        isPending={moveMutation.isPending}
+        onConfirm={handleMove}
+      />
+
+      <ConfirmDialog
+        open={requeueOpen}
+        onOpenChange={setRequeueOpen}
+        tone="danger"
+        title={t("requeue.title", { queueName })}
+        warn={{ tone: "danger", message: t("move.warning") }}
+        body={
+          <div className="space-y-3">
+            <div>{t("requeue.description")}</div>
+            {countField}
+          </div>
+        }
+        confirmLabel={t("requeue.confirm")}
+        pendingLabel={t("requeue.requeueing")}
+        cancelLabel={t("cancel")}
+        isPending={requeueMutation.isPending}
+        onConfirm={handleRequeue}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useTranslation } from "react-i18next";
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+import { AlertTriangle, Pause } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+type PauseStatus =
+  inferRouterOutputs<AppRouter>["rabbitmq"]["queues"]["getPauseStatus"];
+
+interface QueuePauseBannerProps {
+  pauseStatus: PauseStatus | undefined;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * Who paused the queue, why and until when — plus a warning when the
+ * recorded pause and the broker disagree (e.g. the pause state says paused
+ * but no blocking consumer is attached).
+ */
+export function QueuePauseBanner({ pauseStatus }: QueuePauseBannerProps) {
+  const { t } = useTranslation("queues");
+  const pauseState = pauseStatus?.pauseState;
+  const drift = pauseStatus?.drift;
+
+  if (!pauseState?.isPaused && !drift) return null;
+
+  return (
+    <div className="space-y-2">
+      {pauseState?.isPaused && (
+        <Alert>
+          <Pause className="h-4 w-4" />
+          <AlertTitle>
+            {t("pausedBy", {
+              who: pauseState.pausedBy?.email ?? t("pausedBySomeone"),
+              when: formatDateTime(pauseState.pausedAt),
+            })}
+          </AlertTitle>
+          <AlertDescription className="space-y-1">
+            {pauseState.reason && (
+              <p>{t("pauseReason", { reason: pauseState.reason })}</p>
+            )}
+            <p>
+              {pauseState.pausedUntil
+                ? t("pauseResumesAt", {
+                    time: formatDateTime(pauseState.pausedUntil),
+                  })
+                : t("pauseUntilResumed")}
+            </p>
+            {!pauseState.applied && (
+              <p className="text-muted-foreground">
+                {pauseState.lastError
+                  ? t("pauseApplyFailed", { error: pauseState.lastError })
+                  : t("pausePending")}
+              </p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      {drift && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{t("pauseDriftTitle")}</AlertTitle>
+          <AlertDescription>
+            {t(`pauseDrift.${drift.kind}`, {
+              count: drift.brokerPauseConsumers,
+            })}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
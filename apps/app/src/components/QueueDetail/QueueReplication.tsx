@@ -0,0 +1,252 @@
+import { useTranslation } from "react-i18next";
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+import { AlertTriangle } from "lucide-react";
+
+import { Queue } from "@/lib/api";
+import { formatBytes } from "@/lib/utils";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import type { ReactNode } from "react";
+
+type StreamConsumers =
+  inferRouterOutputs<AppRouter>["rabbitmq"]["queues"]["getQueue"]["streamConsumers"];
+
+interface QueueReplicationProps {
+  queue: Queue;
+  streamConsumers: StreamConsumers | undefined;
+}
+
+function Field({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold font-mono tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Raft placement and type-specific limits for quorum queues and streams:
+ * where the leader runs, which members are not online, the delivery limit
+ * that stops poison messages, and stream retention, segments and consumer
+ * offsets. Renders nothing for classic queues.
+ */
+export function QueueReplication({
+  queue,
+  streamConsumers,
+}: QueueReplicationProps) {
+  const { t } = useTranslation("queues");
+  const placement = queue.quorum ?? queue.stream;
+  if (!placement) return null;
+
+  const unlimited = t("replication.unlimited");
+  const orDash = (value: number | string | null) => value ?? "—";
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      <div className="px-4 py-3 bg-muted/30 border-b border-border">
+        <h3 className="title-section">
+          {queue.quorum
+            ? t("replication.quorumTitle")
+            : t("replication.streamTitle")}
+        </h3>
+      </div>
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <Field
+            label={t("replication.leader")}
+            value={orDash(placement.leader)}
+          />
+          <Field
+            label={t("replication.onlineMembers")}
+            value={`${placement.online.length} / ${placement.members.length}`}
+          />
+          {queue.quorum && (
+            <>
+              <Field
+                label={t("replication.initialGroupSize")}
+                value={orDash(queue.quorum.initialGroupSize)}
+              />
+              <Field
+                label={t("replication.deliveryLimit")}
+                value={queue.quorum.deliveryLimit ?? unlimited}
+              />
+            </>
+          )}
+          {queue.stream && (
+            <Field
+              label={t("replication.initialClusterSize")}
+              value={orDash(queue.stream.initialClusterSize)}
+            />
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {placement.members.map((member) => (
+            <Badge
+              key={member}
+              variant={
+                placement.outOfSync.includes(member)
+                  ? "destructive"
+                  : member === placement.leader
+                    ? "secondary"
+                    : "outline"
+              }
+              className="font-mono"
+            >
+              {member}
+              {member === placement.leader && ` · ${t("replication.leader")}`}
+            </Badge>
+          ))}
+        </div>
+
+        {placement.outOfSync.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {t("replication.outOfSync", {
+              count: placement.outOfSync.length,
+              members: placement.outOfSync.join(", "),
+            })}
+          </p>
+        )}
+
+        {queue.quorum && (
+          <div className="pt-4 border-t border-border space-y-2">
+            <Field
+              label={t("replication.deadLettered")}
+              value={`${queue.quorum.messagesDeadLettered.toLocaleString()} (${formatBytes(queue.quorum.messageBytesDeadLettered)})`}
+            />
+            {queue.quorum.deliveryLimit === null && (
+              <p className="text-sm text-warning">
+                {t("replication.noDeliveryLimit")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {queue.stream && (
+          <div className="pt-4 border-t border-border space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <Field
+                label={t("replication.maxLengthBytes")}
+                value={
+                  queue.stream.maxLengthBytes !== null
+                    ? formatBytes(queue.stream.maxLengthBytes)
+                    : unlimited
+                }
+              />
+              <Field
+                label={t("replication.maxAge")}
+                value={queue.stream.maxAge ?? unlimited}
+              />
+              <Field
+                label={t("replication.maxSegmentSize")}
+                value={
+                  queue.stream.maxSegmentSizeBytes !== null
+                    ? formatBytes(queue.stream.maxSegmentSizeBytes)
+                    : t("replication.brokerDefault")
+                }
+              />
+              <Field
+                label={t("replication.segments")}
+                value={orDash(queue.stream.segments)}
+              />
+              <Field
+                label={t("replication.firstOffset")}
+                value={orDash(queue.stream.firstOffset)}
+              />
+              <Field
+                label={t("replication.committedOffset")}
+                value={orDash(queue.stream.committedOffset)}
+              />
+              <Field
+                label={t("replication.oldestMessage")}
+                value={
+                  queue.stream.firstTimestamp
+                    ? new Date(queue.stream.firstTimestamp).toLocaleString()
+                    : "—"
+                }
+              />
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-foreground mb-2">
+                {t("replication.streamConsumers")}
+              </h4>
+              {streamConsumers == null ? (
+                <p className="text-sm text-muted-foreground">
+                  {t("replication.streamConsumersUnavailable")}
+                </p>
+              ) : streamConsumers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {t("replication.noStreamConsumers")}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("replication.connection")}</TableHead>
+                      <TableHead>{t("replication.user")}</TableHead>
+                      <TableHead className="text-right">
+                        {t("replication.offset")}
+                      </TableHead>
+                      <TableHead className="text-right">
+                        {t("replication.offsetLag")}
+                      </TableHead>
+                      <TableHead className="text-right">
+                        {t("replication.consumed")}
+                      </TableHead>
+                      <TableHead>{t("replication.status")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {streamConsumers.map((consumer) => (
+                      <TableRow
+                        key={`${consumer.connectionName}|${consumer.subscriptionId}`}
+                      >
+                        <TableCell className="font-mono text-xs truncate max-w-64">
+                          {consumer.connectionName}
+                        </TableCell>
+                        <TableCell>{consumer.user ?? "—"}</TableCell>
+                        <TableCell className="text-right font-mono tabular-nums">
+                          {consumer.offset.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums">
+                          {consumer.offsetLag.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums">
+                          {consumer.messagesConsumed.toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={consumer.active ? "secondary" : "outline"}
+                          >
+                            {consumer.activityStatus ??
+                              (consumer.active
+                                ? t("replication.active")
+                                : t("replication.inactive"))}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
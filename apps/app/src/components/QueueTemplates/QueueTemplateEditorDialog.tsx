@@ -0,0 +1,415 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+import { toast } from "sonner";
+
+import { ArgumentsBuilder } from "@/components/AddQueueFormComponent/ArgumentsBuilder";
+import { normalizeArgValue } from "@/components/AddQueueFormComponent/constants";
+import type { ArgRow } from "@/components/AddQueueFormComponent/types";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+import { useQueueTemplateMutations } from "@/hooks/queries/useQueueTemplates";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+export type QueueTemplate =
+  inferRouterOutputs<AppRouter>["rabbitmq"]["queueTemplates"]["listTemplates"]["templates"][number];
+
+type QueueType = QueueTemplate["versions"][number]["queueType"];
+type ExchangeType = "direct" | "fanout" | "topic";
+
+const QUEUE_TYPES: QueueType[] = ["quorum", "classic", "stream"];
+const EXCHANGE_TYPES: ExchangeType[] = ["direct", "fanout", "topic"];
+
+interface QueueTemplateEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** When set, the dialog publishes a new version of this template. */
+  template?: QueueTemplate | null;
+}
+
+const newRowId = () => crypto.randomUUID();
+
+/**
+ * Create a queue template, or publish a new version of one pre-filled from
+ * its latest version. Versions are immutable: queues already declared keep
+ * the version they were created with.
+ */
+export function QueueTemplateEditorDialog({
+  open,
+  onOpenChange,
+  template,
+}: QueueTemplateEditorDialogProps) {
+  const { t } = useTranslation("queues");
+  const { workspace } = useWorkspace();
+  const { create, publish } = useQueueTemplateMutations();
+  const latest = template?.versions[0];
+
+  const [name, setName] = useState(template?.name ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [queueType, setQueueType] = useState<QueueType>(
+    latest?.queueType ?? "quorum"
+  );
+  const [durable, setDurable] = useState(latest?.durable ?? true);
+  const [autoDelete, setAutoDelete] = useState(latest?.autoDelete ?? false);
+  const [rows, setRows] = useState<ArgRow[]>(() =>
+    Object.entries(latest?.arguments ?? {}).map(([key, value]) => ({
+      id: newRowId(),
+      key,
+      value: String(value),
+    }))
+  );
+  const [deadLetterEnabled, setDeadLetterEnabled] = useState(
+    !!latest?.deadLetter
+  );
+  const [dlExchange, setDlExchange] = useState(
+    latest?.deadLetter?.exchange ?? "{queue}.dlx"
+  );
+  const [dlExchangeType, setDlExchangeType] = useState<ExchangeType>(
+    latest?.deadLetter?.exchangeType ?? "direct"
+  );
+  const [dlQueue, setDlQueue] = useState(
+    latest?.deadLetter?.queue ?? "{queue}.dlq"
+  );
+  const [dlRoutingKey, setDlRoutingKey] = useState(
+    latest?.deadLetter?.routingKey ?? "{queue}"
+  );
+  const [policyEnabled, setPolicyEnabled] = useState(!!latest?.policy);
+  const [policyDefinition, setPolicyDefinition] = useState(
+    latest?.policy ? JSON.stringify(latest.policy.definition, null, 2) : ""
+  );
+  const [policyPriority, setPolicyPriority] = useState(
+    String(latest?.policy?.priority ?? 0)
+  );
+  const [policyError, setPolicyError] = useState<string | null>(null);
+
+  const pending = create.isPending || publish.isPending;
+  const isStream = queueType === "stream";
+
+  const handleSubmit = async () => {
+    if (!workspace?.id) return;
+
+    const args: Record<string, string | number | boolean> = {};
+    for (const row of rows) {
+      if (!row.key) continue;
+      const value = normalizeArgValue(row.key, row.value);
+      if (value === undefined) continue;
+      args[row.key] = value as string | number | boolean;
+    }
+
+    let policy = null;
+    if (policyEnabled) {
+      try {
+        const definition: unknown = JSON.parse(policyDefinition || "{}");
+        if (
+          !definition ||
+          typeof definition !== "object" ||
+          Array.isArray(definition)
+        ) {
+          throw new Error();
+        }
+        policy = {
+          definition: definition as Record<string, unknown>,
+          priority: Number(policyPriority) || 0,
+        };
+        setPolicyError(null);
+      } catch {
+        setPolicyError(t("templates.editor.policyInvalid"));
+        return;
+      }
+    }
+
+    const spec = {
+      queueType,
+      durable,
+      autoDelete,
+      arguments: args,
+      deadLetter:
+        deadLetterEnabled && !isStream
+          ? {
+              exchange: dlExchange.trim(),
+              exchangeType: dlExchangeType,
+              queue: dlQueue.trim(),
+              routingKey: dlRoutingKey.trim(),
+            }
+          : null,
+      policy,
+    };
+
+    try {
+      if (template) {
+        const result = await publish.mutateAsync({
+          workspaceId: workspace.id,
+          templateId: template.id,
+          description: description.trim() || undefined,
+          spec,
+        });
+        toast.success(
+          t("templates.toast.published", {
+            name: template.name,
+            version: result.template.latestVersion,
+          })
+        );
+      } else {
+        await create.mutateAsync({
+          workspaceId: workspace.id,
+          name: name.trim(),
+          description: description.trim() || undefined,
+          spec,
+        });
+        toast.success(t("templates.toast.created", { name: name.trim() }));
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(t("templates.toast.saveError"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !pending && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader className="shrink-0">
+          <DialogTitle>
+            {template
+              ? t("templates.editor.publishTitle", {
+                  name: template.name,
+                  version: template.latestVersion + 1,
+                })
+              : t("templates.editor.createTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {template
+              ? t("templates.editor.publishDescription")
+              : t("templates.editor.createDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">
+                {t("templates.editor.name")}
+              </Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!!template}
+                placeholder="quorum-standard"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("templates.editor.queueType")}</Label>
+              <Select
+                value={queueType}
+                onValueChange={(v) => setQueueType(v as QueueType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUEUE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {t(`templates.type.${type}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description">
+              {t("templates.editor.description")}
+            </Label>
+            <Input
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={durable}
+                onCheckedChange={(v) => setDurable(v === true)}
+              />
+              {t("templates.editor.durable")}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={autoDelete}
+                onCheckedChange={(v) => setAutoDelete(v === true)}
+              />
+              {t("templates.editor.autoDelete")}
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {t("templates.editor.argumentsHint")}
+            </p>
+            <ArgumentsBuilder rows={rows} onChange={setRows} />
+          </div>
+
+          <div className="space-y-3 rounded-lg border border-border p-3">
+            <label className="flex items-center justify-between gap-2 text-sm font-medium">
+              {t("templates.editor.deadLetter")}
+              <Switch
+                checked={deadLetterEnabled && !isStream}
+                onCheckedChange={setDeadLetterEnabled}
+                disabled={isStream}
+              />
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {isStream
+                ? t("templates.editor.deadLetterStream")
+                : t("templates.editor.deadLetterHint")}
+            </p>
+            {deadLetterEnabled && !isStream && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="dl-exchange">
+                    {t("templates.editor.dlExchange")}
+                  </Label>
+                  <Input
+                    id="dl-exchange"
+                    value={dlExchange}
+                    onChange={(e) => setDlExchange(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t("templates.editor.dlExchangeType")}</Label>
+                  <Select
+                    value={dlExchangeType}
+                    onValueChange={(v) => setDlExchangeType(v as ExchangeType)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXCHANGE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="dl-queue">
+                    {t("templates.editor.dlQueue")}
+                  </Label>
+                  <Input
+                    id="dl-queue"
+                    value={dlQueue}
+                    onChange={(e) => setDlQueue(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="dl-routing-key">
+                    {t("templates.editor.dlRoutingKey")}
+                  </Label>
+                  <Input
+                    id="dl-routing-key"
+                    value={dlRoutingKey}
+                    onChange={(e) => setDlRoutingKey(e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-lg border border-border p-3">
+            <label className="flex items-center justify-between gap-2 text-sm font-medium">
+              {t("templates.editor.policy")}
+              <Switch
+                checked={policyEnabled}
+                onCheckedChange={setPolicyEnabled}
+              />
+            </label>
+            <p className="text-xs text-muted-foreground">
+              {t("templates.editor.policyHint")}
+            </p>
+            {policyEnabled && (
+              <div className="space-y-3">
+                <Textarea
+                  value={policyDefinition}
+                  onChange={(e) => setPolicyDefinition(e.target.value)}
+                  placeholder='{ "max-length": 100000 }'
+                  rows={4}
+                  className="font-mono text-xs"
+                />
+                {policyError && (
+                  <p className="text-xs text-destructive">{policyError}</p>
+                )}
+                <div className="space-y-1 w-32">
+                  <Label htmlFor="policy-priority">
+                    {t("templates.editor.policyPriority")}
+                  </Label>
+                  <Input
+                    id="policy-priority"
+                    type="number"
+                    value={policyPriority}
+                    onChange={(e) => setPolicyPriority(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="shrink-0 pt-4 border-t border-border">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={pending}
+          >
+            {t("cancel")}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={pending || (!template && !name.trim())}
+          >
+            {pending
+              ? t("templates.editor.saving")
+              : template
+                ? t("templates.editor.publish")
+                : t("templates.editor.create")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+import { CheckCircle2, RefreshCw } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { useServerContext } from "@/contexts/ServerContext";
+
+import { useTemplateDrift } from "@/hooks/queries/useQueueTemplates";
+import { useServers } from "@/hooks/queries/useServer";
+
+type DriftReport =
+  inferRouterOutputs<AppRouter>["rabbitmq"]["queueTemplates"]["checkDrift"]["queues"][number];
+type Drift = DriftReport["drift"][number];
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Checks one server's templated queues against the template version each
+ * was declared from. On demand only: a check reads the broker's queues,
+ * exchanges, bindings and policies in one go.
+ */
+export function TemplateDriftPanel() {
+  const { t } = useTranslation("queues");
+  const { selectedServerId } = useServerContext();
+  const { data: serversData } = useServers();
+  const servers = serversData?.servers ?? [];
+
+  const [serverId, setServerId] = useState<string | null>(selectedServerId);
+  const [requested, setRequested] = useState(false);
+  const drift = useTemplateDrift(serverId, { enabled: requested });
+
+  const describe = (d: Drift) =>
+    t(`templates.drift.kind.${d.kind}`, {
+      subject: d.subject ?? "",
+      expected: formatValue(d.expected),
+      actual: formatValue(d.actual),
+    });
+
+  return (
+    <div className="space-y-4 rounded-xl border border-border p-5">
+      <div>
+        <h3 className="text-base font-semibold">
+          {t("templates.drift.title")}
+        </h3>
+        <p className="mt-1 text-sm text-muted-foreground">
+          {t("templates.drift.description")}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          value={serverId ?? ""}
+          onValueChange={(v) => {
+            setServerId(v);
+            setRequested(false);
+          }}
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder={t("templates.drift.selectServer")} />
+          </SelectTrigger>
+          <SelectContent>
+            {servers.map((server) => (
+              <SelectItem key={server.id} value={server.id}>
+                {server.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          disabled={!serverId || drift.isFetching}
+          onClick={() =>
+            requested ? void drift.refetch() : setRequested(true)
+          }
+        >
+          <RefreshCw
+            className={`h-4 w-4 ${drift.isFetching ? "animate-spin" : ""}`}
+          />
+          {t("templates.drift.check")}
+        </Button>
+      </div>
+
+      {drift.error && (
+        <Alert variant="destructive">
+          <AlertDescription>{drift.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {drift.data &&
+        (drift.data.queues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("templates.drift.none")}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {t("templates.drift.summary", {
+                drifted: drift.data.drifted,
+                count: drift.data.queues.length,
+              })}
+            </p>
+            <div className="divide-y rounded-lg border border-border">
+              {drift.data.queues.map((q) => (
+                <div key={`${q.vhost}|${q.queueName}`} className="px-3 py-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    {q.drift.length === 0 && (
+                      <CheckCircle2 className="h-4 w-4 text-success" />
+                    )}
+                    <span className="font-mono truncate">{q.queueName}</span>
+                    <span className="text-muted-foreground">{q.vhost}</span>
+                    <Badge variant="outline" className="ml-auto">
+                      {q.templateName} v{q.version}
+                    </Badge>
+                    {q.version < q.latestVersion && (
+                      <Badge variant="secondary">
+                        {t("templates.drift.behind", {
+                          latest: q.latestVersion,
+                        })}
+                      </Badge>
+                    )}
+                  </div>
+                  {q.drift.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-xs text-destructive">
+                      {q.drift.map((d, i) => (
+                        <li key={i}>{describe(d)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
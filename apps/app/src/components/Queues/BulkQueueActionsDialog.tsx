@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { CheckCircle2, ListChecks, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  useBulkDeleteQueues,
+  useBulkOperationProgress,
+  useBulkPauseQueues,
+  useBulkPurgeQueues,
+  useBulkQueuePreview,
+  useBulkResumeQueues,
+} from "@/hooks/queries/useRabbitMQ";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+type BulkAction = "purge" | "delete" | "pause" | "resume";
+
+const BULK_ACTIONS: BulkAction[] = ["purge", "delete", "pause", "resume"];
+
+interface BulkQueueActionsDialogProps {
+  serverId: string;
+  /** Pre-fills the selector's vhost with the one the page is scoped to. */
+  vhost?: string | null;
+}
+
+const queueKey = (q: { name: string; vhost: string }) => `${q.vhost}|${q.name}`;
+
+/**
+ * Select queues by vhost / name regex / emptiness / consumers / idleness,
+ * review what matched, then run one action over the reviewed list with
+ * live per-queue progress.
+ */
+export function BulkQueueActionsDialog({
+  serverId,
+  vhost,
+}: BulkQueueActionsDialogProps) {
+  const { t } = useTranslation("queues");
+  const { workspace } = useWorkspace();
+  const [open, setOpen] = useState(false);
+
+  const [vhostFilter, setVhostFilter] = useState(vhost ?? "");
+  const [nameRegex, setNameRegex] = useState("");
+  const [emptyOnly, setEmptyOnly] = useState(false);
+  const [withoutConsumers, setWithoutConsumers] = useState(false);
+  // `datetime-local` value, in the browser's timezone
+  const [idleSince, setIdleSince] = useState("");
+
+  const [target, setTarget] =
+    useState<Parameters<typeof useBulkQueuePreview>[1]>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [action, setAction] = useState<BulkAction>("purge");
+  const [operationId, setOperationId] = useState<string | null>(null);
+
+  const preview = useBulkQueuePreview(serverId, target);
+  const progress = useBulkOperationProgress(serverId, operationId);
+  const purge = useBulkPurgeQueues();
+  const remove = useBulkDeleteQueues();
+  const pause = useBulkPauseQueues();
+  const resume = useBulkResumeQueues();
+  const mutations = { purge, delete: remove, pause, resume };
+  const running = mutations[action].isPending;
+
+  const hasCriteria =
+    !!vhostFilter.trim() ||
+    !!nameRegex.trim() ||
+    emptyOnly ||
+    withoutConsumers ||
+    !!idleSince;
+
+  const matched = preview.data?.matched ?? [];
+  const selected = matched.filter((q) => !excluded.has(queueKey(q)));
+
+  const reset = () => {
+    setTarget(null);
+    setExcluded(new Set());
+    setOperationId(null);
+  };
+
+  const handlePreview = () => {
+    reset();
+    setTarget({
+      selector: {
+        vhost: vhostFilter.trim() || undefined,
+        nameRegex: nameRegex.trim() || undefined,
+        emptyOnly: emptyOnly || undefined,
+        withoutConsumers: withoutConsumers || undefined,
+        idleSince: idleSince ? new Date(idleSince) : undefined,
+      },
+    });
+  };
+
+  const toggle = (key: string, include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (include) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleExecute = async () => {
+    if (!workspace?.id || selected.length === 0) return;
+    const id = crypto.randomUUID();
+    setOperationId(id);
+    const input = {
+      serverId,
+      workspaceId: workspace.id,
+      operationId: id,
+      // Run on exactly what was reviewed, not on a re-evaluated selector
+      target: {
+        queues: selected.map(({ name, vhost }) => ({ name, vhost })),
+      },
+    };
+    try {
+      const result = await mutations[action].mutateAsync(input);
+      const { succeeded, failed } = result.operation;
+      if (failed > 0) {
+        toast.warning(t("bulk.doneWithFailures", { succeeded, failed }));
+      } else {
+        toast.success(t("bulk.done", { count: succeeded }));
+      }
+    } catch (error) {
+      toast.error(t("bulk.errorTitle"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  const operation = progress.operation;
+  const settled = operation ? operation.succeeded + operation.failed : 0;
+  const percent = operation?.total ? (settled / operation.total) * 100 : 0;
+  const failures = progress.items.filter((item) => item.status === "FAILED");
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (running) return;
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          {t("bulk.trigger")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("bulk.title")}</DialogTitle>
+          <DialogDescription>{t("bulk.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-vhost">{t("vhost")}</Label>
+            <Input
+              id="bulk-vhost"
+              value={vhostFilter}
+              onChange={(e) => setVhostFilter(e.target.value)}
+              placeholder={t("bulk.allVhosts")}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-regex">{t("filterRegex")}</Label>
+            <Input
+              id="bulk-regex"
+              value={nameRegex}
+              onChange={(e) => setNameRegex(e.target.value)}
+              placeholder="^test\."
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-idle-since">{t("bulk.idleSince")}</Label>
+            <Input
+              id="bulk-idle-since"
+              type="datetime-local"
+              value={idleSince}
+              onChange={(e) => setIdleSince(e.target.value)}
+            />
+          </div>
+          <div className="space-y-3 pt-7">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={emptyOnly}
+                onCheckedChange={(v) => setEmptyOnly(v === true)}
+              />
+              {t("bulk.emptyOnly")}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={withoutConsumers}
+                onCheckedChange={(v) => setWithoutConsumers(v === true)}
+              />
+              {t("bulk.withoutConsumers")}
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!hasCriteria || running || preview.isFetching}
+          >
+            {preview.isFetching ? t("bulk.previewing") : t("bulk.preview")}
+          </Button>
+        </div>
+
+        {preview.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{preview.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview.data && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {t("bulk.matched", {
+                  selected: selected.length,
+                  count: matched.length,
+                })}
+              </span>
+              {preview.data.skippedInternal > 0 && (
+                <span className="text-muted-foreground">
+                  {t("bulk.skippedInternal", {
+                    count: preview.data.skippedInternal,
+                  })}
+                </span>
+              )}
+            </div>
+            {matched.length > preview.data.limit && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {t("bulk.overLimit", { limit: preview.data.limit })}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="max-h-56 overflow-y-auto border divide-y">
+              {matched.map((q) => {
+                const key = queueKey(q);
+                const result = progress.items.find(
+                  (item) => item.queueName === q.name && item.vhost === q.vhost
+                );
+                return (
+                  <label
+                    key={key}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm"
+                  >
+                    <Checkbox
+                      checked={!excluded.has(key)}
+                      disabled={running || !!operationId}
+                      onCheckedChange={(v) => toggle(key, v === true)}
+                    />
+                    <span className="font-mono truncate flex-1">{q.name}</span>
+                    <span className="text-muted-foreground">{q.vhost}</span>
+                    <Badge variant="outline" className="tabular-nums">
+                      {q.messages ?? "–"}
+                    </Badge>
+                    {result?.status === "SUCCEEDED" && (
+                      <CheckCircle2 className="w-4 h-4 text-success" />
+                    )}
+                    {result?.status === "FAILED" && (
+                      <XCircle className="w-4 h-4 text-destructive" />
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {operation && (
+          <div className="space-y-2">
+            <Progress value={percent} className="h-2" />
+            <p className="text-sm text-muted-foreground tabular-nums">
+              {t("bulk.progress", {
+                settled,
+                total: operation.total,
+                failed: operation.failed,
+              })}
+            </p>
+            {operation.interrupted && (
+              <Alert variant="destructive">
+                <AlertDescription>{t("bulk.interrupted")}</AlertDescription>
+              </Alert>
+            )}
+            {failures.length > 0 && (
+              <ul className="text-xs text-destructive space-y-1 max-h-24 overflow-y-auto">
+                {failures.map((item) => (
+                  <li key={item.position}>
+                    <span className="font-mono">{item.queueName}</span>:{" "}
+                    {item.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:items-center">
+          <Select
+            value={action}
+            onValueChange={(v) => setAction(v as BulkAction)}
+            disabled={running}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BULK_ACTIONS.map((a) => (
+                <SelectItem key={a} value={a}>
+                  {t(`bulk.action.${a}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={
+              action === "delete" || action === "purge"
+                ? "destructive"
+                : "default"
+            }
+            onClick={handleExecute}
+            disabled={
+              selected.length === 0 ||
+              selected.length > (preview.data?.limit ?? 0) ||
+              running ||
+              !!operationId
+            }
+          >
+            {running
+              ? t("bulk.running")
+              : t("bulk.execute", {
+                  action: t(`bulk.action.${action}`),
+                  count: selected.length,
+                })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
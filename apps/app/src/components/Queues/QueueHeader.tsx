@@ -2,8 +2,11 @@ import { useTranslation } from "react-i18next";
 
 import { AddQueueButton } from "@/components/AddQueueButton";
 import { AddSendMessageButton } from "@/components/AddSendMessageButton";
+import { BulkQueueActionsDialog } from "@/components/Queues/BulkQueueActionsDialog";
 import { PageHeader } from "@/components/ui/PageHeader";
 
+import { useVHostContext } from "@/contexts/VHostContextDefinition";
+
 interface QueueHeaderProps {
   selectedServerId: string;
   queueCount: number;
@@ -24,8 +27,13 @@ export function QueueHeader({
   onRefetch,
 }: QueueHeaderProps) {
   const { t } = useTranslation("queues");
+  const { selectedVHost } = useVHostContext();
   const actions = isAdmin ? (
     <>
+      <BulkQueueActionsDialog
+        serverId={selectedServerId}
+        vhost={selectedVHost}
+      />
       <AddSendMessageButton serverId={selectedServerId} onSuccess={onRefetch} />
       <AddQueueButton serverId={selectedServerId} onSuccess={onRefetch} />
     </>
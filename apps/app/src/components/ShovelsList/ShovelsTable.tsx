@@ -0,0 +1,258 @@
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { AlertTriangle, ArrowRight, Truck } from "lucide-react";
+
+import { LinkStateBadge } from "@/components/LinkStateBadge";
+import { Button } from "@/components/ui/button";
+import { IconRefresh, IconTrash } from "@/components/ui/icons";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import type { ShovelEndpoint, ShovelListItem } from "./types";
+
+interface ShovelsTableProps {
+  shovels: ShovelListItem[];
+  isLoading: boolean;
+  onRestart?: (shovel: ShovelListItem) => void;
+  onDelete?: (shovel: ShovelListItem) => void;
+  isRestarting?: boolean;
+}
+
+export function ShovelsTable({
+  shovels,
+  isLoading,
+  onRestart,
+  onDelete,
+  isRestarting,
+}: ShovelsTableProps) {
+  const { t } = useTranslation("shovels");
+
+  // Terminated shovels first — they are the ones that need attention.
+  const sorted = useMemo(
+    () =>
+      [...shovels].sort((a, b) => {
+        const rank = (s: ShovelListItem) => (s.state === "terminated" ? 0 : 1);
+        return rank(a) - rank(b) || a.name.localeCompare(b.name);
+      }),
+    [shovels]
+  );
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      {isLoading ? (
+        <LoadingRows />
+      ) : shovels.length === 0 ? (
+        <EmptyState />
+      ) : (
+        <>
+          <div className="flex items-center px-4 py-2 border-b border-border bg-muted/30 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            <div className="flex-1 min-w-0">{t("columnName")}</div>
+            <div className="w-72 hidden lg:block">{t("columnRoute")}</div>
+            <div className="w-28 text-right">{t("columnState")}</div>
+            <div className="w-48 text-right hidden md:block">
+              {t("columnNode")}
+            </div>
+            {(onRestart || onDelete) && <div className="w-20" />}
+          </div>
+
+          <div className="divide-y divide-border">
+            {sorted.map((shovel) => (
+              <ShovelRow
+                key={`${shovel.vhost}:${shovel.name}`}
+                shovel={shovel}
+                onRestart={onRestart}
+                onDelete={onDelete}
+                isRestarting={isRestarting}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function endpointLabel(endpoint: ShovelEndpoint): string {
+  if (endpoint.queue) return endpoint.queue;
+  if (endpoint.exchange) {
+    return endpoint.exchangeKey
+      ? `${endpoint.exchange} (${endpoint.exchangeKey})`
+      : endpoint.exchange;
+  }
+  return "—";
+}
+
+function ShovelRow({
+  shovel,
+  onRestart,
+  onDelete,
+  isRestarting,
+}: {
+  shovel: ShovelListItem;
+  onRestart?: (s: ShovelListItem) => void;
+  onDelete?: (s: ShovelListItem) => void;
+  isRestarting?: boolean;
+}) {
+  const { t } = useTranslation("shovels");
+  const [expanded, setExpanded] = useState(false);
+  const isDynamic = shovel.type === "dynamic";
+
+  return (
+    <div>
+      <div className="flex items-center px-4 py-3 hover:bg-muted/20 transition-colors">
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="flex-1 min-w-0 text-left"
+          title={t("expandDetails")}
+        >
+          <span className="font-medium text-sm truncate block">
+            {shovel.name}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {shovel.vhost}
+            {!isDynamic && ` · ${t("typeStatic")}`}
+          </span>
+        </button>
+
+        <div className="w-72 hidden lg:flex items-center gap-1.5 font-mono text-xs text-muted-foreground min-w-0">
+          <span className="truncate">{endpointLabel(shovel.source)}</span>
+          <ArrowRight className="h-3 w-3 shrink-0" aria-hidden="true" />
+          <span className="truncate">{endpointLabel(shovel.destination)}</span>
+        </div>
+
+        <div className="w-28 text-right">
+          <LinkStateBadge state={shovel.state} />
+        </div>
+
+        <div className="w-48 text-right hidden md:block font-mono text-xs text-muted-foreground truncate">
+          {shovel.node ?? "—"}
+        </div>
+
+        {(onRestart || onDelete) && (
+          <div className="w-20 flex items-center justify-end gap-1">
+            {onRestart && isDynamic && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                onClick={() => onRestart(shovel)}
+                disabled={isRestarting}
+                title={t("restartShovel")}
+                aria-label={t("restartShovel")}
+              >
+                <IconRefresh
+                  className="h-3.5 w-auto shrink-0"
+                  aria-hidden="true"
+                />
+              </Button>
+            )}
+            {onDelete && isDynamic && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0 hover:text-destructive"
+                onClick={() => onDelete(shovel)}
+                title={t("deleteShovel")}
+                aria-label={t("deleteShovel")}
+              >
+                <IconTrash
+                  className="h-3.5 w-auto shrink-0"
+                  aria-hidden="true"
+                />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {shovel.error && (
+        <div className="flex items-start gap-2 px-4 pb-3 text-xs text-destructive">
+          <AlertTriangle
+            className="h-3.5 w-3.5 shrink-0 mt-0.5"
+            aria-hidden="true"
+          />
+          <span className="font-mono break-all">{shovel.error}</span>
+        </div>
+      )}
+
+      {expanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-4 py-3 bg-muted/10 border-t border-border/50 text-xs">
+          <EndpointDetails label={t("source")} endpoint={shovel.source} />
+          <EndpointDetails
+            label={t("destination")}
+            endpoint={shovel.destination}
+          />
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 md:col-span-2">
+            <dt className="text-muted-foreground">{t("ackModeLabel")}</dt>
+            <dd className="font-mono">{shovel.ackMode ?? "—"}</dd>
+            <dt className="text-muted-foreground">{t("deleteAfterLabel")}</dt>
+            <dd className="font-mono">{shovel.deleteAfter ?? "—"}</dd>
+            <dt className="text-muted-foreground">{t("prefetchLabel")}</dt>
+            <dd className="font-mono">{shovel.prefetchCount ?? "—"}</dd>
+            <dt className="text-muted-foreground">{t("lastChange")}</dt>
+            <dd className="font-mono">{shovel.timestamp ?? "—"}</dd>
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EndpointDetails({
+  label,
+  endpoint,
+}: {
+  label: string;
+  endpoint: ShovelEndpoint;
+}) {
+  const { t } = useTranslation("shovels");
+  return (
+    <div className="space-y-1">
+      <div className="font-medium text-foreground">{label}</div>
+      {endpoint.uris.map((uri) => (
+        <div key={uri} className="font-mono text-muted-foreground break-all">
+          {uri}
+        </div>
+      ))}
+      <div className="font-mono">
+        {endpoint.queue
+          ? t("queueValue", { name: endpoint.queue })
+          : endpoint.exchange
+            ? t("exchangeValue", { name: endpoint.exchange })
+            : "—"}
+      </div>
+    </div>
+  );
+}
+
+function LoadingRows() {
+  return (
+    <div className="divide-y divide-border">
+      {Array.from({ length: 3 }).map((_, i) => (
+        <div key={i} className="flex items-center justify-between px-4 py-4">
+          <Skeleton className="h-4 w-40" />
+          <Skeleton className="h-4 w-56" />
+          <Skeleton className="h-5 w-16 rounded-full" />
+          <Skeleton className="h-4 w-32" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EmptyState() {
+  const { t } = useTranslation("shovels");
+  return (
+    <div className="py-12 text-center">
+      <Truck
+        className="h-10 w-10 text-muted-foreground mx-auto mb-3"
+        aria-hidden="true"
+      />
+      <h2 className="text-sm font-medium text-foreground mb-1">
+        {t("noShovelsFound")}
+      </h2>
+      <p className="text-xs text-muted-foreground">{t("noShovelsDesc")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { LinkState } from "@/components/LinkStateBadge";
+
+/**
+ * Client-side shape of a shovel as returned by `rabbitmq.shovels.list` —
+ * a dynamic definition joined with its live status. URIs arrive with
+ * credentials already redacted.
+ */
+export interface ShovelEndpoint {
+  uris: string[];
+  protocol: string;
+  queue: string | null;
+  exchange: string | null;
+  exchangeKey: string | null;
+}
+
+export interface ShovelListItem {
+  name: string;
+  vhost: string;
+  type: "dynamic" | "static";
+  state: LinkState | null;
+  node: string | null;
+  error: string | null;
+  timestamp: string | null;
+  source: ShovelEndpoint;
+  destination: ShovelEndpoint;
+  ackMode: string | null;
+  prefetchCount: number | null;
+  reconnectDelay: number | null;
+  deleteAfter: string | number | null;
+}
@@ -9,11 +9,15 @@ import { Button } from "@/components/ui/button";
 import { IconChevronLeft } from "@/components/ui/icons";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 
+import type { ReactNode } from "react";
+
 interface VHostDetailHeaderProps {
   vhostName: string;
   vhost: VHost;
   onNavigateBack: () => void;
   onEdit: () => void;
+  /** Extra header actions, rendered before Edit. */
+  actions?: ReactNode;
 }
 
 export function VHostDetailHeader({
@@ -21,6 +25,7 @@ export function VHostDetailHeader({
   vhost,
   onNavigateBack,
   onEdit,
+  actions,
 }: VHostDetailHeaderProps) {
   const { t } = useTranslation("vhosts");
 
@@ -71,9 +76,12 @@ export function VHostDetailHeader({
           )}
         </div>
       </div>
-      <Button onClick={onEdit} className="btn-primary shrink-0">
-        {t("common:edit")}
-      </Button>
+      <div className="flex items-center gap-2 shrink-0">
+        {actions}
+        <Button onClick={onEdit} className="btn-primary shrink-0">
+          {t("common:edit")}
+        </Button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,223 @@
+/**
+ * Grant picker for `write` agent keys: the permission keys whose mutations the
+ * key may run, plus an optional server / environment restriction. Rendered by
+ * MintAgentKeyForm when the write scope is selected; the API re-checks every
+ * grant against the minting user's own permissions.
+ */
+
+import { useId, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+
+import { trpc } from "@/lib/trpc/client";
+
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radioGroup";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TagsInput } from "@/components/ui/tags-input";
+
+export type AgentKeyScope =
+  | null
+  | { kind: "server.id"; ids: string[] }
+  | { kind: "server.environment"; values: string[] };
+
+type CatalogKey =
+  inferRouterOutputs<AppRouter>["workspace"]["role"]["permissionList"]["permissions"][number]["key"];
+
+/** Permission keys the mint endpoint accepts for a write key. */
+export type GrantablePermission = NonNullable<
+  inferRouterInputs<AppRouter>["apiKeys"]["mint"]["permissions"]
+>[number];
+
+interface CatalogPermission {
+  key: GrantablePermission;
+  label: string;
+  category: string;
+}
+
+/**
+ * Read permissions are implied by every key (queries are never blocked), and
+ * key management is never grantable — neither belongs in the list.
+ */
+function isWriteGrantable(key: CatalogKey): key is GrantablePermission {
+  return !key.endsWith(":read") && key !== "apikey:manage";
+}
+
+export function AgentKeyWriteGrants({
+  workspaceId,
+  permissions,
+  onPermissionsChange,
+  scope,
+  onScopeChange,
+}: {
+  workspaceId: string;
+  permissions: GrantablePermission[];
+  onPermissionsChange: (permissions: GrantablePermission[]) => void;
+  scope: AgentKeyScope;
+  onScopeChange: (scope: AgentKeyScope) => void;
+}) {
+  const { t } = useTranslation("settings");
+  const { t: tRoles } = useTranslation("roles");
+  const uid = useId();
+
+  const catalog = trpc.workspace.role.permissionList.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 60_000 }
+  );
+  const servers = trpc.rabbitmq.server.getServers.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 60_000 }
+  );
+
+  const grouped = useMemo(() => {
+    const map = new Map<string, CatalogPermission[]>();
+    for (const { key, label, category } of catalog.data?.permissions ?? []) {
+      if (!isWriteGrantable(key)) continue;
+      if (!map.has(category)) map.set(category, []);
+      map.get(category)!.push({ key, label, category });
+    }
+    return Array.from(map.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [catalog.data?.permissions]);
+
+  const toggle = (key: GrantablePermission, checked: boolean) =>
+    onPermissionsChange(
+      checked
+        ? Array.from(new Set([...permissions, key]))
+        : permissions.filter((p) => p !== key)
+    );
+
+  const serverList = servers.data?.servers ?? [];
+
+  return (
+    <div className="space-y-4">
+      {/* Permissions */}
+      <div className="space-y-1.5">
+        <Label>{t("agentAccess.mint.write.permissionsLabel")}</Label>
+        {catalog.isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="max-h-60 space-y-3 overflow-y-auto rounded-md border border-border p-3">
+            {grouped.map(([category, perms]) => (
+              <div key={category} className="space-y-1">
+                <p className="font-mono text-[10px] uppercase tracking-[0.08em] text-muted-foreground">
+                  {tRoles(`editor.category.${category}`, {
+                    defaultValue: category,
+                  })}
+                </p>
+                {perms.map((p) => (
+                  <label
+                    key={p.key}
+                    className="flex cursor-pointer items-center gap-2 py-0.5 text-sm"
+                  >
+                    <Checkbox
+                      checked={permissions.includes(p.key)}
+                      onCheckedChange={(c) => toggle(p.key, c === true)}
+                    />
+                    <span className="flex-1 truncate">{p.label}</span>
+                    <code className="font-mono text-[11px] text-muted-foreground">
+                      {p.key}
+                    </code>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {t("agentAccess.mint.write.permissionsHint", {
+            count: permissions.length,
+          })}
+        </p>
+      </div>
+
+      {/* Resource scope */}
+      <div className="space-y-1.5">
+        <Label>{t("agentAccess.mint.write.scopeLabel")}</Label>
+        <RadioGroup
+          value={scope?.kind ?? "any"}
+          onValueChange={(v) => {
+            if (v === "server.id")
+              onScopeChange({ kind: "server.id", ids: [] });
+            else if (v === "server.environment") {
+              onScopeChange({ kind: "server.environment", values: [] });
+            } else onScopeChange(null);
+          }}
+          className="gap-2"
+        >
+          <label className="flex cursor-pointer items-center gap-2">
+            <RadioGroupItem value="any" id={`${uid}-scope-any`} />
+            <span className="text-sm">{tRoles("editor.scope.any")}</span>
+          </label>
+          <label className="flex cursor-pointer items-center gap-2">
+            <RadioGroupItem value="server.id" id={`${uid}-scope-ids`} />
+            <span className="text-sm">
+              {tRoles("editor.scope.modeServers")}
+            </span>
+          </label>
+          <label className="flex cursor-pointer items-center gap-2">
+            <RadioGroupItem
+              value="server.environment"
+              id={`${uid}-scope-env`}
+            />
+            <span className="text-sm">
+              {tRoles("editor.scope.modeEnvironments")}
+            </span>
+          </label>
+        </RadioGroup>
+
+        {scope?.kind === "server.id" && (
+          <div className="max-h-40 space-y-1 overflow-y-auto rounded-md border border-border p-2">
+            {serverList.length === 0 ? (
+              <p className="p-2 text-xs text-muted-foreground">—</p>
+            ) : (
+              serverList.map((s) => (
+                <label
+                  key={s.id}
+                  className="flex cursor-pointer items-center gap-2 py-1 text-sm"
+                >
+                  <Checkbox
+                    checked={scope.ids.includes(s.id)}
+                    onCheckedChange={(c) =>
+                      onScopeChange({
+                        kind: "server.id",
+                        ids: c
+                          ? Array.from(new Set([...scope.ids, s.id]))
+                          : scope.ids.filter((id) => id !== s.id),
+                      })
+                    }
+                  />
+                  <span className="flex-1 truncate">{s.name}</span>
+                  {s.environment && (
+                    <Badge variant="outline" className="py-0 text-[10px]">
+                      {s.environment}
+                    </Badge>
+                  )}
+                </label>
+              ))
+            )}
+          </div>
+        )}
+
+        {scope?.kind === "server.environment" && (
+          <TagsInput
+            value={scope.values}
+            onChange={(values) =>
+              onScopeChange({ kind: "server.environment", values })
+            }
+            placeholder={tRoles("editor.scope.environmentsPlaceholder")}
+            maxTags={16}
+            maxTagLength={64}
+          />
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {t("agentAccess.mint.write.scopeHint")}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,12 @@
  * "Connect your agent" flow (both via MintAgentKeyDialog). Calls
  * `onMinted(secret, name)` with the one-time plaintext secret on success; the
  * caller owns the reveal dialog and clears the secret from its own state.
+ *
+ * The `write` scope additionally picks the permissions the key may exercise
+ * and an optional server / environment restriction (AgentKeyWriteGrants).
  */
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm, useWatch } from "react-hook-form";
 import { useTranslation } from "react-i18next";
 
@@ -15,6 +18,11 @@ import { z } from "zod";
 
 import { qToast } from "@/lib/qToast";
 
+import {
+  type AgentKeyScope,
+  AgentKeyWriteGrants,
+  type GrantablePermission,
+} from "@/components/agent/AgentKeyWriteGrants";
 import { QuotaUsageWidget } from "@/components/llm/QuotaUsageWidget";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -33,7 +41,7 @@ const mintSchema = z.object({
   // .trim() runs as a transform BEFORE the min/max checks so a whitespace-only
   // name fails validation instead of silently passing.
   name: z.string().trim().min(1).max(80),
-  mode: z.enum(["read", "explain"]),
+  mode: z.enum(["read", "explain", "write"]),
   expiry: z.enum(EXPIRY_OPTIONS),
 });
 
@@ -64,6 +72,11 @@ export function MintAgentKeyForm({
   const { hasFeature } = useFeatureFlags();
   const canExplain = hasFeature("ai_explain_inline");
 
+  // Write grants live outside react-hook-form: they're structured picks, not
+  // text fields, and only apply to the write scope.
+  const [permissions, setPermissions] = useState<GrantablePermission[]>([]);
+  const [resourceScope, setResourceScope] = useState<AgentKeyScope>(null);
+
   const form = useForm<MintFormValues>({
     resolver: zodResolver(mintSchema),
     defaultValues: { name: "", mode: "read", expiry: "90" },
@@ -97,6 +110,12 @@ export function MintAgentKeyForm({
         name: values.name,
         mode: values.mode,
         expiresInDays,
+        ...(values.mode === "write"
+          ? {
+              permissions,
+              scopes: resourceScope ? [resourceScope] : [],
+            }
+          : {}),
       },
       {
         onSuccess: (data) => {
@@ -106,6 +125,8 @@ export function MintAgentKeyForm({
           minting.dismiss();
           onMinted(data.key, data.name);
           form.reset();
+          setPermissions([]);
+          setResourceScope(null);
         },
         onError: (err) => {
           minting.update({
@@ -122,10 +143,24 @@ export function MintAgentKeyForm({
   const scopeHint =
     (mode === "read"
       ? t("agentAccess.mint.scopeReadConsequence")
-      : t("agentAccess.mint.scopeExplainConsequence")) +
-    (canExplain ? "" : t("agentAccess.mint.scopeExplainGated"));
+      : mode === "explain"
+        ? t("agentAccess.mint.scopeExplainConsequence")
+        : t("agentAccess.mint.scopeWriteConsequence")) +
+    (canExplain || mode === "write"
+      ? ""
+      : t("agentAccess.mint.scopeExplainGated"));
+
+  // A write key needs at least one grant, and a chosen restriction needs at
+  // least one server / environment (an empty one would match nothing).
+  const writeIncomplete =
+    mode === "write" &&
+    (permissions.length === 0 ||
+      (resourceScope?.kind === "server.id" && resourceScope.ids.length === 0) ||
+      (resourceScope?.kind === "server.environment" &&
+        resourceScope.values.length === 0));
 
-  const mintDisabled = !name?.trim() || mint.isPending || !workspaceId;
+  const mintDisabled =
+    !name?.trim() || mint.isPending || !workspaceId || writeIncomplete;
 
   return (
     <form onSubmit={onSubmit} className="space-y-6">
@@ -162,7 +197,7 @@ export function MintAgentKeyForm({
             v && form.setValue("mode", v as MintFormValues["mode"])
           }
           aria-label={t("agentAccess.mint.scopeLabel")}
-          className={`${SEG_CLASS} grid-cols-2`}
+          className={`${SEG_CLASS} grid-cols-3`}
         >
           <ToggleGroupItem value="read" className={SEG_ITEM}>
             {t("agentAccess.mint.scopeRead")}
@@ -174,6 +209,9 @@ export function MintAgentKeyForm({
           >
             {t("agentAccess.mint.scopeExplain")}
           </ToggleGroupItem>
+          <ToggleGroupItem value="write" className={SEG_ITEM}>
+            {t("agentAccess.mint.scopeWrite")}
+          </ToggleGroupItem>
         </ToggleGroup>
         <p className="text-xs text-muted-foreground">{scopeHint}</p>
         {mode === "explain" && (
@@ -181,6 +219,17 @@ export function MintAgentKeyForm({
             <QuotaUsageWidget />
           </div>
         )}
+        {mode === "write" && (
+          <div className="pt-1">
+            <AgentKeyWriteGrants
+              workspaceId={workspaceId}
+              permissions={permissions}
+              onPermissionsChange={setPermissions}
+              scope={resourceScope}
+              onScopeChange={setResourceScope}
+            />
+          </div>
+        )}
       </div>
 
       {/* Expiry */}
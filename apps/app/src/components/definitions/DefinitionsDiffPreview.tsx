@@ -0,0 +1,156 @@
+/**
+ * Change-review preview for a definitions import: what the uploaded file
+ * adds to and changes on the broker, each item selectable, plus what the
+ * broker has that the file lacks. Removed items are read-only — an import
+ * never deletes, so they are listed only so the reviewer knows they stay.
+ */
+
+import { useTranslation } from "react-i18next";
+
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+
+import {
+  applicableDiffKeys,
+  DEFINITION_KINDS,
+  type DefinitionsDiff,
+} from "./diff";
+
+interface DefinitionsDiffPreviewProps {
+  diff: DefinitionsDiff;
+  selected: ReadonlySet<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+}
+
+export function DefinitionsDiffPreview({
+  diff,
+  selected,
+  onSelectedChange,
+}: DefinitionsDiffPreviewProps) {
+  const { t } = useTranslation("definitions");
+  const applicable = applicableDiffKeys(diff);
+  const hasRemoved = DEFINITION_KINDS.some(
+    (kind) => diff[kind].removed.length > 0
+  );
+
+  if (applicable.length === 0 && !hasRemoved) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("diff.noChanges")}</p>
+    );
+  }
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(key);
+    else next.delete(key);
+    onSelectedChange(next);
+  };
+
+  const allSelected = applicable.every((key) => selected.has(key));
+
+  return (
+    <div className="space-y-4">
+      {applicable.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="definitions-diff-all"
+            checked={
+              allSelected ? true : selected.size > 0 ? "indeterminate" : false
+            }
+            onCheckedChange={(checked) =>
+              onSelectedChange(new Set(checked === true ? applicable : []))
+            }
+          />
+          <label htmlFor="definitions-diff-all" className="text-sm">
+            {t("diff.selectAll", {
+              selected: selected.size,
+              total: applicable.length,
+            })}
+          </label>
+        </div>
+      )}
+
+      <div className="max-h-[32rem] space-y-4 overflow-y-auto pr-2">
+        {DEFINITION_KINDS.map((kind) => {
+          const { added, changed, removed } = diff[kind];
+          if (added.length + changed.length + removed.length === 0) {
+            return null;
+          }
+          const rows = [
+            ...added.map((item) => ({ ...item, change: "added" as const })),
+            ...changed.map((item) => ({ ...item, change: "changed" as const })),
+            ...removed.map((item) => ({ ...item, change: "removed" as const })),
+          ];
+
+          return (
+            <section key={kind} className="space-y-2">
+              <h3 className="flex items-center gap-2 text-sm font-medium">
+                {t(`diff.kinds.${kind}`)}
+                <span className="text-xs font-normal text-muted-foreground">
+                  {t("diff.counts", {
+                    added: added.length,
+                    changed: changed.length,
+                    removed: removed.length,
+                  })}
+                </span>
+              </h3>
+              <ul className="divide-y rounded-md border">
+                {rows.map((row) => (
+                  <li
+                    key={`${row.change}:${row.key}`}
+                    className="flex items-start gap-3 px-3 py-2 text-sm"
+                  >
+                    {row.change === "removed" ? (
+                      <span className="w-4 shrink-0" aria-hidden="true" />
+                    ) : (
+                      <Checkbox
+                        checked={selected.has(row.key)}
+                        onCheckedChange={(checked) =>
+                          toggle(row.key, checked === true)
+                        }
+                        aria-label={row.label}
+                        className="mt-0.5"
+                      />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="break-all font-mono">{row.label}</span>
+                        {row.vhost !== null && (
+                          <span className="text-xs text-muted-foreground">
+                            {row.vhost === "/"
+                              ? t("common:default")
+                              : row.vhost}
+                          </span>
+                        )}
+                      </div>
+                      {"fields" in row && (
+                        <p className="text-xs text-muted-foreground">
+                          {t("diff.changedFields", {
+                            fields: row.fields.join(", "),
+                          })}
+                        </p>
+                      )}
+                      {row.change === "removed" && (
+                        <p className="text-xs text-muted-foreground">
+                          {t("diff.removedHint")}
+                        </p>
+                      )}
+                    </div>
+                    <Badge
+                      variant={
+                        row.change === "removed" ? "outline" : "secondary"
+                      }
+                      className="shrink-0"
+                    >
+                      {t(`diff.change.${row.change}`)}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+
+export type DefinitionsDiff =
+  inferRouterOutputs<AppRouter>["rabbitmq"]["definitions"]["diff"];
+
+export type DefinitionKind =
+  | "queues"
+  | "exchanges"
+  | "bindings"
+  | "policies"
+  | "users"
+  | "permissions";
+
+export const DEFINITION_KINDS: DefinitionKind[] = [
+  "queues",
+  "exchanges",
+  "bindings",
+  "policies",
+  "users",
+  "permissions",
+];
+
+/** Keys of every added or changed item — what a full import would apply. */
+export function applicableDiffKeys(diff: DefinitionsDiff): string[] {
+  return DEFINITION_KINDS.flatMap((kind) => [
+    ...diff[kind].added.map((item) => item.key),
+    ...diff[kind].changed.map((item) => item.key),
+  ]);
+}
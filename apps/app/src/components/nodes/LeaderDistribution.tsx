@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Link } from "react-router";
+
+import { AlertTriangle, Scale } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatBytes } from "@/lib/utils";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import {
+  useLeaderDistribution,
+  useRebalanceLeaders,
+} from "@/hooks/queries/useRabbitMQ";
+import { useIsWorkspaceAdmin } from "@/hooks/queries/useWorkspaceRole";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+/**
+ * Quorum queue and stream leaders per node. Leaders take the writes and
+ * hold the in-memory state, so leaders piling onto one node is the usual
+ * cause of one node using far more memory than its peers. Admins can ask
+ * the broker to rebalance. Renders nothing on clusters without replicated
+ * queues.
+ */
+export function LeaderDistribution({ serverId }: { serverId: string }) {
+  const { t } = useTranslation("nodes");
+  const { workspace } = useWorkspace();
+  const isAdmin = useIsWorkspaceAdmin() === true;
+  const { data } = useLeaderDistribution(serverId);
+  const rebalance = useRebalanceLeaders();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  if (!data || (data.totalLeaders === 0 && data.outOfSync.length === 0)) {
+    return null;
+  }
+
+  const handleRebalance = async () => {
+    if (!workspace?.id) return;
+    try {
+      await rebalance.mutateAsync({ serverId, workspaceId: workspace.id });
+      toast(t("leaders.rebalanceStarted"));
+      setConfirmOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("leaders.rebalanceError")
+      );
+      throw error;
+    }
+  };
+
+  const nodes = data.nodes.filter(
+    (n) => n.running || n.quorumLeaders + n.streamLeaders > 0
+  );
+
+  return (
+    <Card className={data.skewed ? "border-warning/40" : undefined}>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Scale className="h-4 w-4" aria-hidden="true" />
+          {t("leaders.title")}
+          <Badge variant={data.skewed ? "destructive" : "outline"}>
+            {t("leaders.skew", { skew: data.skew.toFixed(2) })}
+          </Badge>
+        </CardTitle>
+        {isAdmin && (
+          <Button
+            size="sm"
+            variant={data.skewed ? "default" : "outline"}
+            onClick={() => setConfirmOpen(true)}
+            disabled={rebalance.isPending}
+          >
+            {t("leaders.rebalance")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.skewed && data.busiestNode && (
+          <p className="flex items-center gap-2 text-sm text-warning">
+            <AlertTriangle className="h-4 w-4 shrink-0" aria-hidden="true" />
+            {t("leaders.skewWarning", { node: data.busiestNode })}
+          </p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("nodeName")}</TableHead>
+              <TableHead className="text-right">
+                {t("leaders.quorumLeaders")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("leaders.streamLeaders")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("leaders.followers")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("leaders.classicQueues")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("leaders.queueMemory")}
+              </TableHead>
+              <TableHead className="text-right">{t("memory")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {nodes.map((node) => (
+              <TableRow key={node.node}>
+                <TableCell className="font-mono text-xs">
+                  {node.node}
+                  {!node.running && (
+                    <Badge variant="destructive" className="ml-2">
+                      {t("leaders.down")}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-mono tabular-nums ${
+                    node.node === data.busiestNode && data.skewed
+                      ? "text-warning font-semibold"
+                      : ""
+                  }`}
+                >
+                  {node.quorumLeaders}
+                </TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {node.streamLeaders}
+                </TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {node.followerReplicas}
+                </TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {node.classicQueues}
+                </TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {formatBytes(node.leaderMemory)}
+                </TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {node.memUsed !== null ? formatBytes(node.memUsed) : "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {data.outOfSync.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-destructive">
+              {t("leaders.outOfSync", { count: data.outOfSync.length })}
+            </p>
+            <div className="divide-y divide-border rounded-md border border-border">
+              {data.outOfSync.map((queue) => (
+                <div
+                  key={`${queue.vhost}|${queue.name}`}
+                  className="px-3 py-2 text-xs flex items-center gap-2"
+                >
+                  <Link
+                    to={`/queues/${encodeURIComponent(queue.name)}?vhost=${encodeURIComponent(queue.vhost)}&tab=configuration`}
+                    className="font-mono font-medium truncate flex-1 min-w-0 hover:underline"
+                  >
+                    {queue.name}
+                  </Link>
+                  <span className="text-muted-foreground">{queue.vhost}</span>
+                  <Badge variant="outline">{queue.type}</Badge>
+                  <span className="font-mono text-destructive">
+                    {queue.outOfSync.join(", ")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title={t("leaders.confirmTitle")}
+        body={t("leaders.confirmBody")}
+        confirmLabel={t("leaders.rebalance")}
+        cancelLabel={t("common:cancel")}
+        isPending={rebalance.isPending}
+        onConfirm={handleRebalance}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Link } from "react-router";
+
+import { AlertTriangle } from "lucide-react";
+
+import { LinkStateBadge } from "@/components/LinkStateBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+import {
+  useFederationStatus,
+  useShovelStatus,
+} from "@/hooks/queries/useRabbitMQ";
+
+interface FailedLink {
+  kind: "shovel" | "federation";
+  key: string;
+  label: string;
+  vhost: string;
+  node: string | null;
+  error: string | null;
+}
+
+/**
+ * Terminated shovels and federation links, grouped by the node they ran
+ * on. Renders nothing when both plugins are off or every link is healthy,
+ * so the node views stay quiet on clusters that don't use them.
+ */
+export function NodeLinkErrors({ serverId }: { serverId: string }) {
+  const { t } = useTranslation("nodes");
+  const { data: shovelStatus } = useShovelStatus(serverId);
+  const { data: federationStatus } = useFederationStatus(serverId);
+
+  const byNode = useMemo(() => {
+    const failed: FailedLink[] = [
+      ...(shovelStatus?.shovels ?? [])
+        .filter((s) => s.state === "terminated")
+        .map((s) => ({
+          kind: "shovel" as const,
+          key: `shovel:${s.vhost}:${s.name}`,
+          label: s.name,
+          vhost: s.vhost,
+          node: s.node,
+          error: s.error,
+        })),
+      ...(federationStatus?.links ?? [])
+        .filter((l) => l.state === "terminated")
+        .map((l) => ({
+          kind: "federation" as const,
+          key: `federation:${l.node}:${l.id}`,
+          label: `${l.upstream} → ${l.resource ?? l.id}`,
+          vhost: l.vhost,
+          node: l.node,
+          error: l.error,
+        })),
+    ];
+
+    const groups = new Map<string, FailedLink[]>();
+    for (const link of failed) {
+      const node = link.node ?? "";
+      groups.set(node, [...(groups.get(node) ?? []), link]);
+    }
+    return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [shovelStatus, federationStatus]);
+
+  if (byNode.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <AlertTriangle
+            className="h-4 w-4 text-destructive"
+            aria-hidden="true"
+          />
+          {t("links.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {byNode.map(([node, links]) => (
+          <div key={node} className="space-y-2">
+            <div className="font-mono text-xs text-muted-foreground">
+              {node || t("links.unknownNode")}
+            </div>
+            <div className="divide-y divide-border rounded-md border border-border">
+              {links.map((link) => (
+                <div key={link.key} className="px-3 py-2 text-xs space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Link
+                      to={link.kind === "shovel" ? "/shovels" : "/federation"}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      {link.kind === "shovel"
+                        ? t("links.shovel")
+                        : t("links.federation")}
+                    </Link>
+                    <span className="font-mono font-medium truncate flex-1 min-w-0">
+                      {link.label}
+                    </span>
+                    <span className="text-muted-foreground">{link.vhost}</span>
+                    <LinkStateBadge state="terminated" />
+                  </div>
+                  {link.error && (
+                    <div className="font-mono text-destructive break-all">
+                      {link.error}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
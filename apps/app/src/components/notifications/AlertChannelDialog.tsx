@@ -0,0 +1,277 @@
+/**
+ * Add / edit dialog for a PagerDuty, Opsgenie or Teams alert channel. The
+ * secret field is write-only: when editing, leaving it blank keeps the
+ * stored key (the list only ever shows its hint). Ticking every severity
+ * is saved as "all", so severities added later are forwarded too.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { useAlertChannels } from "@/hooks/queries/useAlertChannels";
+
+const ALERT_CHANNEL_KINDS = ["pagerduty", "opsgenie", "teams"] as const;
+type AlertChannelKind = (typeof ALERT_CHANNEL_KINDS)[number];
+
+const SEVERITIES = ["CRITICAL", "HIGH", "MEDIUM", "LOW", "INFO"] as const;
+type Severity = (typeof SEVERITIES)[number];
+
+export type ListedAlertChannel = NonNullable<
+  ReturnType<typeof useAlertChannels>["list"]["data"]
+>[number];
+
+interface Props {
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Channel being edited; null adds a new one. */
+  editing: ListedAlertChannel | null;
+}
+
+export function AlertChannelDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+  editing,
+}: Props) {
+  const { t } = useTranslation("alerts");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {editing
+              ? t("incidentChannels.form.editTitle")
+              : t("incidentChannels.form.addTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("incidentChannels.description")}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        <AlertChannelForm
+          workspaceId={workspaceId}
+          editing={editing}
+          onDone={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AlertChannelForm({
+  workspaceId,
+  editing,
+  onDone,
+}: Pick<Props, "workspaceId" | "editing"> & { onDone: () => void }) {
+  const { t } = useTranslation("alerts");
+  const { create, update } = useAlertChannels(workspaceId);
+
+  const [channel, setChannel] = useState<AlertChannelKind>(
+    editing?.channel ?? "pagerduty"
+  );
+  const [name, setName] = useState(editing?.name ?? "");
+  const [secret, setSecret] = useState("");
+  const [region, setRegion] = useState<"us" | "eu">(editing?.region ?? "us");
+  const [severities, setSeverities] = useState<Severity[]>(
+    editing?.severities ?? [...SEVERITIES]
+  );
+
+  const isPending = create.isPending || update.isPending;
+  const canSubmit =
+    name.trim() !== "" &&
+    severities.length > 0 &&
+    (editing !== null || secret.trim() !== "");
+
+  const toggleSeverity = (severity: Severity, checked: boolean) => {
+    setSeverities((current) =>
+      checked
+        ? SEVERITIES.filter((s) => s === severity || current.includes(s))
+        : current.filter((s) => s !== severity)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const common = {
+      workspaceId,
+      name: name.trim(),
+      severities: severities.length === SEVERITIES.length ? null : severities,
+    };
+    const key = secret.trim() || undefined;
+
+    try {
+      if (editing) {
+        const input =
+          channel === "pagerduty"
+            ? { ...common, channel, id: editing.id, routingKey: key }
+            : channel === "opsgenie"
+              ? { ...common, channel, id: editing.id, apiKey: key, region }
+              : { ...common, channel, id: editing.id, webhookUrl: key };
+        await update.mutateAsync(input);
+      } else {
+        const input =
+          channel === "pagerduty"
+            ? { ...common, channel, routingKey: secret.trim() }
+            : channel === "opsgenie"
+              ? { ...common, channel, apiKey: secret.trim(), region }
+              : { ...common, channel, webhookUrl: secret.trim() };
+        await create.mutateAsync(input);
+      }
+      qToast({
+        severity: "success",
+        title: t("incidentChannels.toast.saved", { name: common.name }),
+      });
+      onDone();
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("incidentChannels.toast.saveError")
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="alert-channel-kind">
+          {t("incidentChannels.form.channel")}
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {t(`incidentChannels.form.help.${channel}`)}
+        </p>
+        <Select
+          value={channel}
+          onValueChange={(value) => setChannel(value as AlertChannelKind)}
+          disabled={editing !== null}
+        >
+          <SelectTrigger id="alert-channel-kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_CHANNEL_KINDS.map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {t(`incidentChannels.channel.${kind}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alert-channel-name">
+          {t("incidentChannels.form.name")}
+        </Label>
+        <Input
+          id="alert-channel-name"
+          value={name}
+          maxLength={100}
+          placeholder={t("incidentChannels.form.namePlaceholder")}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alert-channel-secret">
+          {t(`incidentChannels.form.secret.${channel}`)}
+        </Label>
+        <Input
+          id="alert-channel-secret"
+          type={channel === "teams" ? "url" : "password"}
+          autoComplete="off"
+          value={secret}
+          placeholder={
+            editing
+              ? t("incidentChannels.form.keepSecret", {
+                  hint: editing.secretHint,
+                })
+              : undefined
+          }
+          onChange={(e) => setSecret(e.target.value)}
+        />
+      </div>
+
+      {channel === "opsgenie" && (
+        <div className="space-y-2">
+          <Label htmlFor="alert-channel-region">
+            {t("incidentChannels.form.region")}
+          </Label>
+          <Select
+            value={region}
+            onValueChange={(value) => setRegion(value as "us" | "eu")}
+          >
+            <SelectTrigger id="alert-channel-region">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="us">
+                {t("incidentChannels.form.regionUs")}
+              </SelectItem>
+              <SelectItem value="eu">
+                {t("incidentChannels.form.regionEu")}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">
+          {t("incidentChannels.form.severities")}
+        </legend>
+        <div className="flex flex-wrap gap-4">
+          {SEVERITIES.map((severity) => (
+            <label key={severity} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={severities.includes(severity)}
+                onCheckedChange={(checked) =>
+                  toggleSeverity(severity, checked === true)
+                }
+              />
+              {t(`sevLabel.${severity.toLowerCase()}`)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          {t("incidentChannels.form.cancel")}
+        </Button>
+        <Button type="submit" disabled={!canSubmit || isPending}>
+          {isPending
+            ? t("incidentChannels.form.saving")
+            : t("incidentChannels.form.save")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,261 @@
+/**
+ * Settings → Integrations: PagerDuty, Opsgenie and Teams alert channels.
+ * Each row can be toggled, test-fired and removed; fired alerts reach the
+ * channel through the notification outbox, and resolving the alert
+ * resolves the PagerDuty incident / closes the Opsgenie alert.
+ *
+ * Mutations are server-gated (notification_channel:write / :delete) —
+ * a viewer sees the list and gets the server's error if they try.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { BellRing, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import {
+  AlertChannelDialog,
+  type ListedAlertChannel,
+} from "@/components/notifications/AlertChannelDialog";
+import { SettingsTableSkeleton } from "@/components/skeletons/SettingsSkeleton";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+import { useAlertChannels } from "@/hooks/queries/useAlertChannels";
+
+export const AlertChannelsCard = ({ workspaceId }: { workspaceId: string }) => {
+  const { t } = useTranslation("alerts");
+  const { list, update, remove, test } = useAlertChannels(workspaceId);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ListedAlertChannel | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ListedAlertChannel | null>(
+    null
+  );
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const channels = list.data ?? [];
+
+  const openDialog = (channel: ListedAlertChannel | null) => {
+    setEditing(channel);
+    setDialogOpen(true);
+  };
+
+  const handleToggle = async (
+    channel: ListedAlertChannel,
+    enabled: boolean
+  ) => {
+    try {
+      await update.mutateAsync({
+        workspaceId,
+        channel: channel.channel,
+        id: channel.id,
+        enabled,
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("incidentChannels.toast.saveError")
+      );
+    }
+  };
+
+  const handleTest = async (channel: ListedAlertChannel) => {
+    setTestingId(channel.id);
+    try {
+      await test.mutateAsync({
+        workspaceId,
+        channel: channel.channel,
+        id: channel.id,
+      });
+      qToast({
+        severity: "success",
+        title: t("incidentChannels.toast.testSent", { name: channel.name }),
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("incidentChannels.toast.testFailed")
+      );
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const target = pendingDelete;
+    try {
+      await remove.mutateAsync({
+        workspaceId,
+        channel: target.channel,
+        id: target.id,
+      });
+      qToast({
+        severity: "success",
+        title: t("incidentChannels.toast.deleted", { name: target.name }),
+      });
+      setPendingDelete(null);
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("incidentChannels.toast.deleteError")
+      );
+    }
+  };
+
+  const colHead =
+    "px-5 py-3 text-left font-mono text-[10px] font-medium uppercase tracking-[0.08em] text-muted-foreground";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <BellRing
+            className="h-6 w-6 text-muted-foreground"
+            aria-hidden="true"
+          />
+          <div>
+            <h2 className="text-xl font-semibold">
+              {t("incidentChannels.title")}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {t("incidentChannels.description")}
+            </p>
+          </div>
+        </div>
+        <Button className="shrink-0" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" aria-hidden="true" />
+          {t("incidentChannels.add")}
+        </Button>
+      </div>
+
+      {list.isLoading ? (
+        <SettingsTableSkeleton rows={2} />
+      ) : list.isError ? (
+        <p className="text-sm text-destructive">
+          {t("incidentChannels.loadError")}
+        </p>
+      ) : channels.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t("incidentChannels.empty")}
+        </p>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border">
+              <tr>
+                <th className={colHead}>{t("incidentChannels.col.name")}</th>
+                <th className={colHead}>{t("incidentChannels.col.channel")}</th>
+                <th className={colHead}>
+                  {t("incidentChannels.col.severities")}
+                </th>
+                <th className={colHead}>{t("incidentChannels.col.enabled")}</th>
+                <th className={`${colHead} sr-only`}>
+                  {t("incidentChannels.col.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {channels.map((channel) => (
+                <tr key={`${channel.channel}:${channel.id}`}>
+                  <td className="px-5 py-3.5">
+                    <p className="font-medium">{channel.name}</p>
+                    <p className="font-mono text-xs text-muted-foreground">
+                      {channel.secretHint}
+                    </p>
+                  </td>
+                  <td className="px-5 py-3.5">
+                    {t(`incidentChannels.channel.${channel.channel}`)}
+                    {channel.region && (
+                      <span className="ml-1.5 font-mono text-xs uppercase text-muted-foreground">
+                        {channel.region}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-5 py-3.5 text-xs text-muted-foreground">
+                    {channel.severities
+                      ? channel.severities
+                          .map((s) => t(`sevLabel.${s.toLowerCase()}`))
+                          .join(", ")
+                      : t("incidentChannels.allSeverities")}
+                  </td>
+                  <td className="px-5 py-3.5">
+                    <Switch
+                      checked={channel.enabled}
+                      disabled={update.isPending}
+                      onCheckedChange={(enabled) =>
+                        void handleToggle(channel, enabled)
+                      }
+                      aria-label={t("incidentChannels.toggle", {
+                        name: channel.name,
+                      })}
+                    />
+                  </td>
+                  <td className="space-x-2 whitespace-nowrap px-5 py-3.5 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={testingId !== null}
+                      onClick={() => void handleTest(channel)}
+                    >
+                      {testingId === channel.id
+                        ? t("incidentChannels.testing")
+                        : t("incidentChannels.test")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(channel)}
+                    >
+                      {t("incidentChannels.edit")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={remove.isPending}
+                      onClick={() => setPendingDelete(channel)}
+                    >
+                      {t("incidentChannels.delete.action")}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <AlertChannelDialog
+        workspaceId={workspaceId}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        editing={editing}
+      />
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingDelete(null);
+        }}
+        tone="danger"
+        title={t("incidentChannels.delete.title")}
+        body={t("incidentChannels.delete.description", {
+          name: pendingDelete?.name ?? "",
+        })}
+        confirmLabel={t("incidentChannels.delete.confirm")}
+        pendingLabel={t("incidentChannels.delete.pending")}
+        cancelLabel={t("incidentChannels.delete.cancel")}
+        isPending={remove.isPending}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+/**
+ * Add / edit dialog for an escalation policy: a list of steps, each
+ * notifying some of the workspace's channels, webhooks and email
+ * recipients a number of minutes after the previous one. A step only goes
+ * out while the alert is neither acknowledged nor resolved.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+import {
+  useNotificationRouting,
+  useRoutingTargets,
+} from "@/hooks/queries/useNotificationRouting";
+
+export type ListedEscalationPolicy = NonNullable<
+  ReturnType<typeof useNotificationRouting>["policies"]["data"]
+>[number];
+
+type Step = ListedEscalationPolicy["steps"][number];
+
+const MAX_STEPS = 10;
+
+interface Props {
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Policy being edited; null adds a new one. */
+  editing: ListedEscalationPolicy | null;
+}
+
+export function EscalationPolicyDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+  editing,
+}: Props) {
+  const { t } = useTranslation("alerts");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {editing
+              ? t("routing.policyForm.editTitle")
+              : t("routing.policyForm.addTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("routing.policyForm.description")}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        <EscalationPolicyForm
+          workspaceId={workspaceId}
+          editing={editing}
+          onDone={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EscalationPolicyForm({
+  workspaceId,
+  editing,
+  onDone,
+}: Pick<Props, "workspaceId" | "editing"> & { onDone: () => void }) {
+  const { t } = useTranslation("alerts");
+  const { createPolicy, updatePolicy } = useNotificationRouting(workspaceId);
+  const targets = useRoutingTargets(workspaceId);
+
+  const [name, setName] = useState(editing?.name ?? "");
+  const [description, setDescription] = useState(editing?.description ?? "");
+  const [steps, setSteps] = useState<Step[]>(
+    editing?.steps ?? [{ delayMinutes: 0, targets: [] }]
+  );
+
+  const isPending = createPolicy.isPending || updatePolicy.isPending;
+  const canSubmit =
+    name.trim() !== "" &&
+    steps.length > 0 &&
+    steps.every((step) => step.targets.length > 0);
+
+  const updateStep = (index: number, change: Partial<Step>) => {
+    setSteps((current) =>
+      current.map((step, i) => (i === index ? { ...step, ...change } : step))
+    );
+  };
+
+  const toggleTarget = (
+    index: number,
+    target: Step["targets"][number],
+    checked: boolean
+  ) => {
+    const step = steps[index];
+    updateStep(index, {
+      targets: checked
+        ? [...step.targets, target]
+        : step.targets.filter(
+            (existing) =>
+              existing.channel !== target.channel ||
+              existing.configId !== target.configId
+          ),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const input = {
+      workspaceId,
+      name: name.trim(),
+      description: description.trim() || null,
+      steps,
+    };
+    try {
+      if (editing) {
+        await updatePolicy.mutateAsync({ ...input, id: editing.id });
+      } else {
+        await createPolicy.mutateAsync(input);
+      }
+      qToast({
+        severity: "success",
+        title: t("routing.toast.policySaved", { name: input.name }),
+      });
+      onDone();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("routing.toast.saveError")
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="escalation-policy-name">
+          {t("routing.policyForm.name")}
+        </Label>
+        <Input
+          id="escalation-policy-name"
+          value={name}
+          maxLength={100}
+          placeholder={t("routing.policyForm.namePlaceholder")}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="escalation-policy-description">
+          {t("routing.policyForm.descriptionLabel")}
+        </Label>
+        <Input
+          id="escalation-policy-description"
+          value={description}
+          maxLength={500}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      {steps.map((step, index) => (
+        <div
+          key={index}
+          role="group"
+          aria-label={t("routing.policyForm.step", { number: index + 1 })}
+          className="space-y-3 rounded-lg border border-border p-4"
+        >
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">
+              {t("routing.policyForm.step", { number: index + 1 })}
+            </p>
+            {steps.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label={t("routing.policyForm.removeStep", {
+                  number: index + 1,
+                })}
+                onClick={() =>
+                  setSteps((current) => current.filter((_, i) => i !== index))
+                }
+              >
+                <Trash2 className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`escalation-step-delay-${index}`}>
+              {index === 0
+                ? t("routing.policyForm.firstDelay")
+                : t("routing.policyForm.delay")}
+            </Label>
+            <Input
+              id={`escalation-step-delay-${index}`}
+              type="number"
+              min={0}
+              max={1440}
+              value={step.delayMinutes}
+              onChange={(e) =>
+                updateStep(index, {
+                  delayMinutes: Math.min(
+                    1440,
+                    Math.max(0, Math.floor(Number(e.target.value) || 0))
+                  ),
+                })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm">{t("routing.policyForm.notify")}</p>
+            {(targets.data ?? []).length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                {t("routing.policyForm.noChannels")}
+              </p>
+            ) : (
+              <div className="flex flex-col gap-2">
+                {(targets.data ?? []).map((option) => {
+                  const target = {
+                    channel: option.channel,
+                    configId: option.configId,
+                  };
+                  return (
+                    <label
+                      key={`${option.channel}:${option.configId}`}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Checkbox
+                        checked={step.targets.some(
+                          (existing) =>
+                            existing.channel === target.channel &&
+                            existing.configId === target.configId
+                        )}
+                        onCheckedChange={(checked) =>
+                          toggleTarget(index, target, checked === true)
+                        }
+                      />
+                      <span className="truncate">{option.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {t(`routing.target.${option.channel}`)}
+                        {!option.enabled &&
+                          ` · ${t("routing.policyForm.targetDisabled")}`}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {steps.length < MAX_STEPS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setSteps((current) => [
+              ...current,
+              { delayMinutes: 15, targets: [] },
+            ])
+          }
+        >
+          <Plus className="h-4 w-4" aria-hidden="true" />
+          {t("routing.policyForm.addStep")}
+        </Button>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          {t("incidentChannels.form.cancel")}
+        </Button>
+        <Button type="submit" disabled={!canSubmit || isPending}>
+          {isPending
+            ? t("incidentChannels.form.saving")
+            : t("incidentChannels.form.save")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,405 @@
+/**
+ * Settings → Integrations: routing rules and escalation policies for every
+ * notification channel, webhook and email recipient. Rules are evaluated
+ * top to bottom — the first match wins unless it lets evaluation continue
+ * — and hand the alert to an escalation policy. Once any rule is enabled,
+ * alerts that match none are not sent.
+ *
+ * Mutations are server-gated (notification_channel:write / :delete).
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { ArrowDown, ArrowUp, Plus, Route } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import {
+  EscalationPolicyDialog,
+  type ListedEscalationPolicy,
+} from "@/components/notifications/EscalationPolicyDialog";
+import {
+  type ListedRoutingRule,
+  RoutingRuleDialog,
+} from "@/components/notifications/RoutingRuleDialog";
+import { SettingsTableSkeleton } from "@/components/skeletons/SettingsSkeleton";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+import { useNotificationRouting } from "@/hooks/queries/useNotificationRouting";
+
+type PendingDelete =
+  | { kind: "rule"; item: ListedRoutingRule }
+  | { kind: "policy"; item: ListedEscalationPolicy };
+
+export const NotificationRoutingCard = ({
+  workspaceId,
+}: {
+  workspaceId: string;
+}) => {
+  const { t } = useTranslation("alerts");
+  const {
+    rules,
+    policies,
+    updateRule,
+    deleteRule,
+    reorderRules,
+    deletePolicy,
+  } = useNotificationRouting(workspaceId);
+
+  const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<ListedRoutingRule | null>(
+    null
+  );
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] =
+    useState<ListedEscalationPolicy | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(
+    null
+  );
+
+  const ruleList = rules.data ?? [];
+  const policyList = policies.data ?? [];
+
+  const openRuleDialog = (rule: ListedRoutingRule | null) => {
+    setEditingRule(rule);
+    setRuleDialogOpen(true);
+  };
+
+  const openPolicyDialog = (policy: ListedEscalationPolicy | null) => {
+    setEditingPolicy(policy);
+    setPolicyDialogOpen(true);
+  };
+
+  const describeRule = (rule: ListedRoutingRule): string => {
+    const parts = [
+      rule.severities &&
+        rule.severities.map((s) => t(`sevLabel.${s.toLowerCase()}`)).join(", "),
+      rule.categories &&
+        rule.categories.map((c) => t(`routing.category.${c}`)).join(", "),
+      rule.environments &&
+        t("routing.summary.environments", {
+          list: rule.environments.join(", "),
+        }),
+      rule.vhosts &&
+        t("routing.summary.vhosts", { list: rule.vhosts.join(", ") }),
+      rule.queuePattern &&
+        t("routing.summary.queuePattern", { pattern: rule.queuePattern }),
+      rule.quietHours &&
+        t("routing.summary.quietHours", {
+          start: rule.quietHours.start,
+          end: rule.quietHours.end,
+          timezone: rule.quietHours.timezone,
+        }),
+      rule.continueMatching && t("routing.summary.continueMatching"),
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(" · ") : t("routing.summary.any");
+  };
+
+  const describePolicy = (policy: ListedEscalationPolicy): string =>
+    policy.steps
+      .map((step, index) =>
+        t("routing.summary.step", {
+          number: index + 1,
+          delay: step.delayMinutes,
+          count: step.targets.length,
+        })
+      )
+      .join(" → ");
+
+  const handleToggle = async (rule: ListedRoutingRule, enabled: boolean) => {
+    try {
+      await updateRule.mutateAsync({ workspaceId, id: rule.id, enabled });
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("routing.toast.saveError")
+      );
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = ruleList.map((rule) => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    try {
+      await reorderRules.mutateAsync({ workspaceId, ruleIds: ids });
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("routing.toast.saveError")
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const target = pendingDelete;
+    try {
+      if (target.kind === "rule") {
+        await deleteRule.mutateAsync({ workspaceId, id: target.item.id });
+      } else {
+        await deletePolicy.mutateAsync({ workspaceId, id: target.item.id });
+      }
+      qToast({
+        severity: "success",
+        title: t("routing.toast.deleted", { name: target.item.name }),
+      });
+      setPendingDelete(null);
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("routing.toast.deleteError")
+      );
+    }
+  };
+
+  const colHead =
+    "px-5 py-3 text-left font-mono text-[10px] font-medium uppercase tracking-[0.08em] text-muted-foreground";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Route className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
+          <div>
+            <h2 className="text-xl font-semibold">{t("routing.title")}</h2>
+            <p className="text-sm text-muted-foreground">
+              {t("routing.description")}
+            </p>
+          </div>
+        </div>
+        <Button
+          className="shrink-0"
+          disabled={policyList.length === 0}
+          onClick={() => openRuleDialog(null)}
+        >
+          <Plus className="h-4 w-4" aria-hidden="true" />
+          {t("routing.addRule")}
+        </Button>
+      </div>
+
+      {rules.isLoading ? (
+        <SettingsTableSkeleton rows={2} />
+      ) : rules.isError ? (
+        <p className="text-sm text-destructive">{t("routing.loadError")}</p>
+      ) : ruleList.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {policyList.length === 0
+            ? t("routing.emptyNoPolicy")
+            : t("routing.empty")}
+        </p>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border">
+              <tr>
+                <th className={colHead}>{t("routing.col.order")}</th>
+                <th className={colHead}>{t("routing.col.rule")}</th>
+                <th className={colHead}>{t("routing.col.policy")}</th>
+                <th className={colHead}>{t("routing.col.enabled")}</th>
+                <th className={`${colHead} sr-only`}>
+                  {t("routing.col.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {ruleList.map((rule, index) => (
+                <tr key={rule.id}>
+                  <td className="whitespace-nowrap px-5 py-3.5">
+                    <span className="mr-2 font-mono text-xs text-muted-foreground">
+                      {index + 1}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0 || reorderRules.isPending}
+                      aria-label={t("routing.moveUp", { name: rule.name })}
+                      onClick={() => void handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={
+                        index === ruleList.length - 1 || reorderRules.isPending
+                      }
+                      aria-label={t("routing.moveDown", { name: rule.name })}
+                      onClick={() => void handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  </td>
+                  <td className="px-5 py-3.5">
+                    <p className="font-medium">{rule.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {describeRule(rule)}
+                    </p>
+                  </td>
+                  <td className="px-5 py-3.5">{rule.escalationPolicyName}</td>
+                  <td className="px-5 py-3.5">
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={updateRule.isPending}
+                      onCheckedChange={(enabled) =>
+                        void handleToggle(rule, enabled)
+                      }
+                      aria-label={t("routing.toggle", { name: rule.name })}
+                    />
+                  </td>
+                  <td className="space-x-2 whitespace-nowrap px-5 py-3.5 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openRuleDialog(rule)}
+                    >
+                      {t("incidentChannels.edit")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setPendingDelete({ kind: "rule", item: rule })
+                      }
+                    >
+                      {t("incidentChannels.delete.action")}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-semibold">
+            {t("routing.policiesTitle")}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {t("routing.policiesDescription")}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="shrink-0"
+          onClick={() => openPolicyDialog(null)}
+        >
+          <Plus className="h-4 w-4" aria-hidden="true" />
+          {t("routing.addPolicy")}
+        </Button>
+      </div>
+
+      {policies.isLoading ? (
+        <SettingsTableSkeleton rows={2} />
+      ) : policies.isError ? (
+        <p className="text-sm text-destructive">{t("routing.loadError")}</p>
+      ) : policyList.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t("routing.policiesEmpty")}
+        </p>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border">
+              <tr>
+                <th className={colHead}>{t("routing.col.policy")}</th>
+                <th className={colHead}>{t("routing.col.steps")}</th>
+                <th className={colHead}>{t("routing.col.rules")}</th>
+                <th className={`${colHead} sr-only`}>
+                  {t("routing.col.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {policyList.map((policy) => (
+                <tr key={policy.id}>
+                  <td className="px-5 py-3.5">
+                    <p className="font-medium">{policy.name}</p>
+                    {policy.description && (
+                      <p className="text-xs text-muted-foreground">
+                        {policy.description}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-5 py-3.5 text-xs text-muted-foreground">
+                    {describePolicy(policy)}
+                  </td>
+                  <td className="px-5 py-3.5 font-mono text-xs">
+                    {policy.ruleCount}
+                  </td>
+                  <td className="space-x-2 whitespace-nowrap px-5 py-3.5 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openPolicyDialog(policy)}
+                    >
+                      {t("incidentChannels.edit")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={policy.ruleCount > 0}
+                      title={
+                        policy.ruleCount > 0
+                          ? t("routing.policyInUse")
+                          : undefined
+                      }
+                      onClick={() =>
+                        setPendingDelete({ kind: "policy", item: policy })
+                      }
+                    >
+                      {t("incidentChannels.delete.action")}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <RoutingRuleDialog
+        workspaceId={workspaceId}
+        open={ruleDialogOpen}
+        onOpenChange={setRuleDialogOpen}
+        editing={editingRule}
+      />
+
+      <EscalationPolicyDialog
+        workspaceId={workspaceId}
+        open={policyDialogOpen}
+        onOpenChange={setPolicyDialogOpen}
+        editing={editingPolicy}
+      />
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingDelete(null);
+        }}
+        tone="danger"
+        title={
+          pendingDelete?.kind === "policy"
+            ? t("routing.delete.policyTitle")
+            : t("routing.delete.ruleTitle")
+        }
+        body={
+          pendingDelete?.kind === "policy"
+            ? t("routing.delete.policyDescription", {
+                name: pendingDelete.item.name,
+              })
+            : t("routing.delete.ruleDescription", {
+                name: pendingDelete?.item.name ?? "",
+              })
+        }
+        confirmLabel={t("incidentChannels.delete.action")}
+        pendingLabel={t("incidentChannels.delete.pending")}
+        cancelLabel={t("incidentChannels.delete.cancel")}
+        isPending={deleteRule.isPending || deletePolicy.isPending}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,380 @@
+/**
+ * Add / edit dialog for a notification routing rule. Every condition left
+ * empty (or with all its boxes ticked) matches any alert; the alert goes
+ * to the rule's escalation policy, held back while the rule's quiet hours
+ * last.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TagsInput } from "@/components/ui/tags-input";
+
+import { useNotificationRouting } from "@/hooks/queries/useNotificationRouting";
+
+const SEVERITIES = ["CRITICAL", "HIGH", "MEDIUM", "LOW", "INFO"] as const;
+type Severity = (typeof SEVERITIES)[number];
+
+const CATEGORIES = [
+  "queue",
+  "memory",
+  "disk",
+  "connection",
+  "node",
+  "performance",
+] as const;
+type Category = (typeof CATEGORIES)[number];
+
+export type ListedRoutingRule = NonNullable<
+  ReturnType<typeof useNotificationRouting>["rules"]["data"]
+>[number];
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface Props {
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rule being edited; null adds a new one. */
+  editing: ListedRoutingRule | null;
+}
+
+export function RoutingRuleDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+  editing,
+}: Props) {
+  const { t } = useTranslation("alerts");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {editing
+              ? t("routing.ruleForm.editTitle")
+              : t("routing.ruleForm.addTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("routing.ruleForm.description")}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        <RoutingRuleForm
+          workspaceId={workspaceId}
+          editing={editing}
+          onDone={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RoutingRuleForm({
+  workspaceId,
+  editing,
+  onDone,
+}: Pick<Props, "workspaceId" | "editing"> & { onDone: () => void }) {
+  const { t } = useTranslation("alerts");
+  const { policies, createRule, updateRule } =
+    useNotificationRouting(workspaceId);
+
+  const [name, setName] = useState(editing?.name ?? "");
+  const [policyId, setPolicyId] = useState(editing?.escalationPolicyId ?? "");
+  const [severities, setSeverities] = useState<Severity[]>(
+    editing?.severities ?? [...SEVERITIES]
+  );
+  const [categories, setCategories] = useState<Category[]>(
+    (editing?.categories as Category[] | null) ?? [...CATEGORIES]
+  );
+  const [environments, setEnvironments] = useState<string[]>(
+    editing?.environments ?? []
+  );
+  const [vhosts, setVhosts] = useState<string[]>(editing?.vhosts ?? []);
+  const [queuePattern, setQueuePattern] = useState(editing?.queuePattern ?? "");
+  const [continueMatching, setContinueMatching] = useState(
+    editing?.continueMatching ?? false
+  );
+  const [quietEnabled, setQuietEnabled] = useState(!!editing?.quietHours);
+  const [quietStart, setQuietStart] = useState(
+    editing?.quietHours?.start ?? "22:00"
+  );
+  const [quietEnd, setQuietEnd] = useState(editing?.quietHours?.end ?? "07:00");
+  const [timezone, setTimezone] = useState(
+    editing?.quietHours?.timezone ??
+      Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
+
+  const patternValid = queuePattern === "" || isValidPattern(queuePattern);
+  const isPending = createRule.isPending || updateRule.isPending;
+  const canSubmit =
+    name.trim() !== "" &&
+    policyId !== "" &&
+    severities.length > 0 &&
+    categories.length > 0 &&
+    patternValid &&
+    (!quietEnabled || (quietStart !== quietEnd && timezone.trim() !== ""));
+
+  const toggle = <T extends string>(
+    all: readonly T[],
+    setter: React.Dispatch<React.SetStateAction<T[]>>,
+    value: T,
+    checked: boolean
+  ) => {
+    setter((current) =>
+      checked
+        ? all.filter((v) => v === value || current.includes(v))
+        : current.filter((v) => v !== value)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const input = {
+      workspaceId,
+      name: name.trim(),
+      escalationPolicyId: policyId,
+      severities: severities.length === SEVERITIES.length ? null : severities,
+      categories: categories.length === CATEGORIES.length ? null : categories,
+      environments: environments.length > 0 ? environments : null,
+      vhosts: vhosts.length > 0 ? vhosts : null,
+      queuePattern: queuePattern || null,
+      continueMatching,
+      quietHours: quietEnabled
+        ? { start: quietStart, end: quietEnd, timezone: timezone.trim() }
+        : null,
+    };
+    try {
+      if (editing) {
+        await updateRule.mutateAsync({ ...input, id: editing.id });
+      } else {
+        await createRule.mutateAsync(input);
+      }
+      qToast({
+        severity: "success",
+        title: t("routing.toast.ruleSaved", { name: input.name }),
+      });
+      onDone();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("routing.toast.saveError")
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="routing-rule-name">{t("routing.ruleForm.name")}</Label>
+        <Input
+          id="routing-rule-name"
+          value={name}
+          maxLength={100}
+          placeholder={t("routing.ruleForm.namePlaceholder")}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="routing-rule-policy">
+          {t("routing.ruleForm.policy")}
+        </Label>
+        <Select value={policyId} onValueChange={setPolicyId}>
+          <SelectTrigger id="routing-rule-policy">
+            <SelectValue placeholder={t("routing.ruleForm.pickPolicy")} />
+          </SelectTrigger>
+          <SelectContent>
+            {(policies.data ?? []).map((policy) => (
+              <SelectItem key={policy.id} value={policy.id}>
+                {policy.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">
+          {t("routing.ruleForm.severities")}
+        </legend>
+        <div className="flex flex-wrap gap-4">
+          {SEVERITIES.map((severity) => (
+            <label key={severity} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={severities.includes(severity)}
+                onCheckedChange={(checked) =>
+                  toggle(SEVERITIES, setSeverities, severity, checked === true)
+                }
+              />
+              {t(`sevLabel.${severity.toLowerCase()}`)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">
+          {t("routing.ruleForm.categories")}
+        </legend>
+        <div className="flex flex-wrap gap-4">
+          {CATEGORIES.map((category) => (
+            <label key={category} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={categories.includes(category)}
+                onCheckedChange={(checked) =>
+                  toggle(CATEGORIES, setCategories, category, checked === true)
+                }
+              />
+              {t(`routing.category.${category}`)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label>{t("routing.ruleForm.environments")}</Label>
+        <TagsInput
+          value={environments}
+          onChange={setEnvironments}
+          maxTags={20}
+          maxTagLength={50}
+          placeholder={t("routing.ruleForm.environmentsPlaceholder")}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t("routing.ruleForm.vhosts")}</Label>
+        <TagsInput
+          value={vhosts}
+          onChange={setVhosts}
+          maxTags={50}
+          maxTagLength={255}
+          placeholder={t("routing.ruleForm.vhostsPlaceholder")}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="routing-rule-queue-pattern">
+          {t("routing.ruleForm.queuePattern")}
+        </Label>
+        <Input
+          id="routing-rule-queue-pattern"
+          className="font-mono"
+          value={queuePattern}
+          maxLength={200}
+          placeholder="^orders\."
+          aria-invalid={!patternValid}
+          onChange={(e) => setQueuePattern(e.target.value)}
+        />
+        <p
+          className={`text-xs ${patternValid ? "text-muted-foreground" : "text-destructive"}`}
+        >
+          {patternValid
+            ? t("routing.ruleForm.queuePatternHelp")
+            : t("routing.ruleForm.queuePatternInvalid")}
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={continueMatching}
+          onCheckedChange={(checked) => setContinueMatching(checked === true)}
+        />
+        {t("routing.ruleForm.continueMatching")}
+      </label>
+
+      <div className="space-y-3 rounded-lg border border-border p-4">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Checkbox
+            checked={quietEnabled}
+            onCheckedChange={(checked) => setQuietEnabled(checked === true)}
+          />
+          {t("routing.ruleForm.quietHours")}
+        </label>
+        <p className="text-xs text-muted-foreground">
+          {t("routing.ruleForm.quietHoursHelp")}
+        </p>
+        {quietEnabled && (
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-quiet-start">
+                {t("routing.ruleForm.quietStart")}
+              </Label>
+              <Input
+                id="routing-rule-quiet-start"
+                type="time"
+                value={quietStart}
+                onChange={(e) => setQuietStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-quiet-end">
+                {t("routing.ruleForm.quietEnd")}
+              </Label>
+              <Input
+                id="routing-rule-quiet-end"
+                type="time"
+                value={quietEnd}
+                onChange={(e) => setQuietEnd(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-timezone">
+                {t("routing.ruleForm.timezone")}
+              </Label>
+              <Input
+                id="routing-rule-timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          {t("incidentChannels.form.cancel")}
+        </Button>
+        <Button type="submit" disabled={!canSubmit || isPending}>
+          {isPending
+            ? t("incidentChannels.form.saving")
+            : t("incidentChannels.form.save")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
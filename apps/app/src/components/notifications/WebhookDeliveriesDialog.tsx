@@ -0,0 +1,178 @@
+/**
+ * Delivery log of one webhook, newest first: every outbox attempt with the
+ * receiver's status code, the latency and the start of its answer. Pages
+ * back with the attempt-id cursor the API hands out.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import {
+  useWebhookDeliveries,
+  type WebhookSummary,
+} from "@/hooks/queries/useWebhookSettings";
+
+interface Props {
+  workspaceId: string;
+  webhook: WebhookSummary | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WebhookDeliveriesDialog({
+  workspaceId,
+  webhook,
+  open,
+  onOpenChange,
+}: Props) {
+  const { t } = useTranslation("alerts");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t("webhookSettings.deliveries.title")}</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so paging restarts from the newest */}
+        {webhook && (
+          <DeliveryLog workspaceId={workspaceId} webhookId={webhook.id} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeliveryLog({
+  workspaceId,
+  webhookId,
+}: {
+  workspaceId: string;
+  webhookId: string;
+}) {
+  const { t } = useTranslation("alerts");
+  // Cursors of the pages already visited, so "Newer" can step back
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const cursor = cursors[cursors.length - 1];
+  const page = useWebhookDeliveries(workspaceId, webhookId, cursor);
+
+  const deliveries = page.data?.items ?? [];
+  const nextCursor = page.data?.nextCursor ?? null;
+
+  if (page.isLoading) return <Skeleton className="h-40 w-full" />;
+  if (page.isError) {
+    return (
+      <p className="text-sm text-destructive">
+        {t("webhookSettings.deliveries.loadError")}
+      </p>
+    );
+  }
+
+  const colHead =
+    "px-3 py-2 text-left font-mono text-[10px] font-medium uppercase tracking-[0.08em] text-muted-foreground";
+
+  return (
+    <div className="space-y-3">
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t("webhookSettings.deliveries.empty")}
+        </p>
+      ) : (
+        <div className="max-h-[60vh] overflow-auto rounded-md border border-border">
+          <table className="w-full text-xs">
+            <thead className="border-b border-border">
+              <tr>
+                <th className={colHead}>
+                  {t("webhookSettings.deliveries.col.time")}
+                </th>
+                <th className={colHead}>
+                  {t("webhookSettings.deliveries.col.event")}
+                </th>
+                <th className={colHead}>
+                  {t("webhookSettings.deliveries.col.outcome")}
+                </th>
+                <th className={colHead}>
+                  {t("webhookSettings.deliveries.col.status")}
+                </th>
+                <th className={colHead}>
+                  {t("webhookSettings.deliveries.col.latency")}
+                </th>
+                <th className={colHead}>
+                  {t("webhookSettings.deliveries.col.response")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="align-top">
+                  <td className="whitespace-nowrap px-3 py-2 text-muted-foreground">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2">
+                    <p className="font-mono">{delivery.eventType}</p>
+                    {delivery.eventId && (
+                      <p className="break-all font-mono text-muted-foreground">
+                        {delivery.eventId}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    {t(
+                      `webhookSettings.deliveries.outcome.${delivery.outcome}`
+                    )}
+                  </td>
+                  <td className="px-3 py-2 font-mono">
+                    {delivery.statusCode ?? "—"}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-muted-foreground">
+                    {delivery.durationMs !== null
+                      ? t("webhookSettings.deliveries.latency", {
+                          ms: delivery.durationMs,
+                        })
+                      : "—"}
+                  </td>
+                  <td className="max-w-xs break-all px-3 py-2 font-mono text-muted-foreground">
+                    {delivery.responseSnippet ?? delivery.error ?? "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={cursors.length === 1}
+          onClick={() => setCursors((current) => current.slice(0, -1))}
+        >
+          {t("webhookSettings.deliveries.newer")}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!nextCursor}
+          onClick={() =>
+            nextCursor && setCursors((current) => [...current, nextCursor])
+          }
+        >
+          {t("webhookSettings.deliveries.older")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Rotate a webhook's signing secret. For the chosen overlap, deliveries
+ * carry a signature for the old secret too, so the receiver can be
+ * switched over without dropping events. The new secret is shown once,
+ * right after the rotation — it is never readable again.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  useWebhookSettings,
+  type WebhookSummary,
+} from "@/hooks/queries/useWebhookSettings";
+
+const OVERLAP_HOURS = [0, 1, 24, 72, 168] as const;
+
+interface Props {
+  workspaceId: string;
+  webhook: WebhookSummary | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WebhookSecretDialog({
+  workspaceId,
+  webhook,
+  open,
+  onOpenChange,
+}: Props) {
+  const { t } = useTranslation("alerts");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("webhookSettings.secret.title")}</DialogTitle>
+          <DialogDescription>
+            {t("webhookSettings.secret.description")}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so a shown secret goes with it */}
+        {webhook && (
+          <RotateForm
+            workspaceId={workspaceId}
+            webhook={webhook}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RotateForm({
+  workspaceId,
+  webhook,
+  onDone,
+}: {
+  workspaceId: string;
+  webhook: WebhookSummary;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation("alerts");
+  const { rotateSecret } = useWebhookSettings(workspaceId);
+
+  const [overlapHours, setOverlapHours] = useState<number>(24);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const handleRotate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const rotated = await rotateSecret.mutateAsync({
+        workspaceId,
+        id: webhook.id,
+        overlapHours,
+      });
+      setSecret(rotated.secret);
+      qToast({
+        severity: "success",
+        title: t("webhookSettings.toast.rotated"),
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("webhookSettings.toast.rotateError")
+      );
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    try {
+      await navigator.clipboard.writeText(secret);
+      qToast({ severity: "success", title: t("webhookSettings.toast.copied") });
+    } catch {
+      toast.error(t("webhookSettings.toast.copyError"));
+    }
+  };
+
+  if (secret) {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-new-secret">
+            {t("webhookSettings.secret.newSecret")}
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="webhook-new-secret"
+              readOnly
+              value={secret}
+              className="font-mono text-xs"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => void handleCopy()}
+              aria-label={t("webhookSettings.secret.copy")}
+            >
+              <Copy className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("webhookSettings.secret.shownOnce")}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={onDone}>
+            {t("webhookSettings.secret.done")}
+          </Button>
+        </DialogFooter>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleRotate} className="space-y-4">
+      {webhook.signed && (
+        <div className="space-y-2">
+          <Label htmlFor="webhook-secret-overlap">
+            {t("webhookSettings.secret.overlap")}
+          </Label>
+          <Select
+            value={String(overlapHours)}
+            onValueChange={(value) => setOverlapHours(Number(value))}
+          >
+            <SelectTrigger id="webhook-secret-overlap">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OVERLAP_HOURS.map((hours) => (
+                <SelectItem key={hours} value={String(hours)}>
+                  {hours === 0
+                    ? t("webhookSettings.secret.noOverlap")
+                    : t("webhookSettings.secret.overlapHours", {
+                        count: hours,
+                      })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          {t("webhookSettings.cancel")}
+        </Button>
+        <Button type="submit" disabled={rotateSecret.isPending}>
+          {rotateSecret.isPending
+            ? t("webhookSettings.secret.rotating")
+            : webhook.signed
+              ? t("webhookSettings.secret.rotate")
+              : t("webhookSettings.secret.generate")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,195 @@
+/**
+ * Which event groups a webhook receives, and the payload version it gets
+ * them in. `webhook.test` events are always delivered.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  useWebhookSettings,
+  type WebhookSummary,
+} from "@/hooks/queries/useWebhookSettings";
+
+const EVENT_GROUPS = ["alerts", "audit", "config_findings"] as const;
+type EventGroup = (typeof EVENT_GROUPS)[number];
+
+const PAYLOAD_VERSIONS = ["v1"] as const;
+type PayloadVersion = (typeof PAYLOAD_VERSIONS)[number];
+
+interface Props {
+  workspaceId: string;
+  webhook: WebhookSummary | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WebhookSubscriptionsDialog({
+  workspaceId,
+  webhook,
+  open,
+  onOpenChange,
+}: Props) {
+  const { t } = useTranslation("alerts");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("webhookSettings.subscriptions.title")}</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        {webhook && (
+          <SubscriptionsForm
+            workspaceId={workspaceId}
+            webhook={webhook}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SubscriptionsForm({
+  workspaceId,
+  webhook,
+  onDone,
+}: {
+  workspaceId: string;
+  webhook: WebhookSummary;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation("alerts");
+  const { updateSubscriptions } = useWebhookSettings(workspaceId);
+
+  const [events, setEvents] = useState<EventGroup[]>(
+    EVENT_GROUPS.filter((group) => webhook.events.includes(group))
+  );
+  const [version, setVersion] = useState<PayloadVersion>(
+    PAYLOAD_VERSIONS.find((v) => v === webhook.version) ?? "v1"
+  );
+
+  const toggleEvent = (group: EventGroup, checked: boolean) => {
+    setEvents((current) =>
+      checked
+        ? EVENT_GROUPS.filter((g) => g === group || current.includes(g))
+        : current.filter((g) => g !== group)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (events.length === 0) return;
+
+    try {
+      await updateSubscriptions.mutateAsync({
+        workspaceId,
+        id: webhook.id,
+        events,
+        version,
+      });
+      qToast({
+        severity: "success",
+        title: t("webhookSettings.toast.subscriptionsSaved"),
+      });
+      onDone();
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("webhookSettings.toast.subscriptionsError")
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium">
+          {t("webhookSettings.subscriptions.events")}
+        </legend>
+        <div className="space-y-2">
+          {EVENT_GROUPS.map((group) => (
+            <label key={group} className="flex items-start gap-2 text-sm">
+              <Checkbox
+                className="mt-0.5"
+                checked={events.includes(group)}
+                onCheckedChange={(checked) =>
+                  toggleEvent(group, checked === true)
+                }
+              />
+              <span>
+                {t(`webhookSettings.events.${group}`)}
+                <span className="block text-xs text-muted-foreground">
+                  {t(`webhookSettings.subscriptions.help.${group}`)}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label htmlFor="webhook-payload-version">
+          {t("webhookSettings.subscriptions.version")}
+        </Label>
+        <Select
+          value={version}
+          onValueChange={(value) => setVersion(value as PayloadVersion)}
+        >
+          <SelectTrigger id="webhook-payload-version">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAYLOAD_VERSIONS.map((v) => (
+              <SelectItem key={v} value={v}>
+                {v}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          {t("webhookSettings.cancel")}
+        </Button>
+        <Button
+          type="submit"
+          disabled={events.length === 0 || updateSubscriptions.isPending}
+        >
+          {updateSubscriptions.isPending
+            ? t("webhookSettings.saving")
+            : t("webhookSettings.save")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
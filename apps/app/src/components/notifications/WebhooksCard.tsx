@@ -0,0 +1,221 @@
+/**
+ * Settings → Integrations: signing, event subscriptions and delivery log
+ * of the workspace's webhooks. The webhooks themselves are created in the
+ * notification settings; this card lists them with their signing state,
+ * test-fires a signed `webhook.test` event and links the JSON Schema of
+ * each payload version.
+ *
+ * Mutations are server-gated (webhook:write) — a viewer sees the list and
+ * gets the server's error if they try.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { ExternalLink, Webhook } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+import { getApiUrl } from "@/lib/runtimeConfig";
+
+import { WebhookDeliveriesDialog } from "@/components/notifications/WebhookDeliveriesDialog";
+import { WebhookSecretDialog } from "@/components/notifications/WebhookSecretDialog";
+import { WebhookSubscriptionsDialog } from "@/components/notifications/WebhookSubscriptionsDialog";
+import { SettingsTableSkeleton } from "@/components/skeletons/SettingsSkeleton";
+import { Button } from "@/components/ui/button";
+
+import {
+  useWebhookSettings,
+  type WebhookSummary,
+} from "@/hooks/queries/useWebhookSettings";
+
+/** Public JSON Schema of a payload version, served by the REST API. */
+function webhookSchemaUrl(version: string): string {
+  const base = getApiUrl() || window.location.origin;
+  return `${base.replace(/\/+$/, "")}/api/v1/webhook-schemas/${version}`;
+}
+
+type OpenDialog = "subscriptions" | "secret" | "deliveries";
+
+export const WebhooksCard = ({ workspaceId }: { workspaceId: string }) => {
+  const { t } = useTranslation("alerts");
+  const { list, test } = useWebhookSettings(workspaceId);
+
+  const [selected, setSelected] = useState<WebhookSummary | null>(null);
+  const [dialog, setDialog] = useState<OpenDialog | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const webhooks = list.data ?? [];
+
+  const openDialog = (webhook: WebhookSummary, kind: OpenDialog) => {
+    setSelected(webhook);
+    setDialog(kind);
+  };
+
+  const dialogProps = (kind: OpenDialog) => ({
+    workspaceId,
+    webhook: selected,
+    open: dialog === kind,
+    onOpenChange: (open: boolean) => {
+      if (!open) setDialog(null);
+    },
+  });
+
+  const handleTest = async (webhook: WebhookSummary) => {
+    setTestingId(webhook.id);
+    try {
+      const result = await test.mutateAsync({ workspaceId, id: webhook.id });
+      const answer = result.statusCode
+        ? t("webhookSettings.testResult", {
+            status: result.statusCode,
+            ms: result.durationMs,
+          })
+        : t("webhookSettings.testNoAnswer", { ms: result.durationMs });
+      qToast({
+        severity: result.success ? "success" : "error",
+        title: result.success
+          ? t("webhookSettings.toast.testAccepted")
+          : t("webhookSettings.toast.testRejected"),
+        msg: [answer, result.responseSnippet ?? result.error]
+          .filter(Boolean)
+          .join(" — "),
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("webhookSettings.toast.testRejected")
+      );
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const colHead =
+    "px-5 py-3 text-left font-mono text-[10px] font-medium uppercase tracking-[0.08em] text-muted-foreground";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Webhook
+            className="h-6 w-6 text-muted-foreground"
+            aria-hidden="true"
+          />
+          <div>
+            <h2 className="text-xl font-semibold">
+              {t("webhookSettings.title")}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {t("webhookSettings.description")}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" className="shrink-0" asChild>
+          <a href={webhookSchemaUrl("v1")} target="_blank" rel="noreferrer">
+            <ExternalLink className="h-4 w-4" aria-hidden="true" />
+            {t("webhookSettings.schema", { version: "v1" })}
+          </a>
+        </Button>
+      </div>
+
+      {list.isLoading ? (
+        <SettingsTableSkeleton rows={2} />
+      ) : list.isError ? (
+        <p className="text-sm text-destructive">
+          {t("webhookSettings.loadError")}
+        </p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t("webhookSettings.empty")}
+        </p>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border">
+              <tr>
+                <th className={colHead}>{t("webhookSettings.col.url")}</th>
+                <th className={colHead}>{t("webhookSettings.col.events")}</th>
+                <th className={colHead}>{t("webhookSettings.col.version")}</th>
+                <th className={colHead}>{t("webhookSettings.col.signing")}</th>
+                <th className={`${colHead} sr-only`}>
+                  {t("webhookSettings.col.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {webhooks.map((webhook) => (
+                <tr key={webhook.id}>
+                  <td className="max-w-xs px-5 py-3.5">
+                    <p className="truncate font-mono text-xs">{webhook.url}</p>
+                    {!webhook.enabled && (
+                      <p className="text-xs text-muted-foreground">
+                        {t("webhookSettings.disabled")}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-5 py-3.5 text-xs text-muted-foreground">
+                    {webhook.events
+                      .map((group) => t(`webhookSettings.events.${group}`))
+                      .join(", ")}
+                  </td>
+                  <td className="px-5 py-3.5 font-mono text-xs">
+                    {webhook.version}
+                  </td>
+                  <td className="px-5 py-3.5 text-xs text-muted-foreground">
+                    {!webhook.signed
+                      ? t("webhookSettings.unsigned")
+                      : webhook.previousSecretExpiresAt
+                        ? t("webhookSettings.rotating", {
+                            until: new Date(
+                              webhook.previousSecretExpiresAt
+                            ).toLocaleString(),
+                          })
+                        : t("webhookSettings.signed")}
+                  </td>
+                  <td className="space-x-2 whitespace-nowrap px-5 py-3.5 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={testingId !== null || !webhook.enabled}
+                      onClick={() => void handleTest(webhook)}
+                    >
+                      {testingId === webhook.id
+                        ? t("webhookSettings.testing")
+                        : t("webhookSettings.test")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(webhook, "deliveries")}
+                    >
+                      {t("webhookSettings.deliveries.action")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(webhook, "subscriptions")}
+                    >
+                      {t("webhookSettings.subscriptions.action")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openDialog(webhook, "secret")}
+                    >
+                      {t("webhookSettings.secret.action")}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <WebhookDeliveriesDialog {...dialogProps("deliveries")} />
+      <WebhookSubscriptionsDialog {...dialogProps("subscriptions")} />
+      <WebhookSecretDialog {...dialogProps("secret")} />
+    </div>
+  );
+};
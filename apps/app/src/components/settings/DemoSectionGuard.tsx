@@ -10,7 +10,7 @@ import type { ReactNode } from "react";
 /**
  * Sections hidden on the public demo. Everything here is either an account or
  * tenancy surface that has no meaning on a shared showcase (members, roles,
- * SSO, SMTP, billing, audit) or, in the case of `llm`, a place where a visitor
+ * SSO, SMTP, notification outbox, billing, audit) or, in the case of `llm`, a place where a visitor
  * would be invited to paste an API key onto a server they do not own.
  *
  * `agent-access` is deliberately NOT here: minting and managing an agent key is
@@ -27,6 +27,7 @@ const DEMO_BLOCKED_SECTIONS = new Set([
   "roles",
   "sso",
   "smtp",
+  "outbox",
   "license",
   "organization",
   "plans",
@@ -4,12 +4,14 @@ import { Link, useLocation, useNavigate } from "react-router";
 import { isCloudMode } from "@/lib/featureFlags";
 
 import {
+  IconActivity,
   IconCard,
   IconDoc,
   IconGrid,
   IconKey,
   IconLock,
   IconMail,
+  IconQueue,
   IconServer,
   IconSparkle,
   IconSun,
@@ -36,8 +38,8 @@ interface NavGroup {
 /**
  * Settings sub-nav (prototype `.set__nav`). Four peer groups — Account,
  * Workspace, Organization, Billing — reflecting that Org (billing + team) and
- * Workspace (operations) are PEERS, not nested. Mode-aware: Email (SMTP) shows
- * self-hosted only; Billing is a single item whose label/route flips between
+ * Workspace (operations) are PEERS, not nested. Mode-aware: Email (SMTP) and
+ * the notification outbox show self-hosted only; Billing is a single item whose label/route flips between
  * Subscription (cloud) and License (self-hosted). Enterprise-gated items
  * (Roles, SSO, Audit) stay visible and lock inside the section — never hidden.
  */
@@ -85,6 +87,13 @@ function buildGroups(cloud: boolean): NavGroup[] {
           labelKey: "settings:nav.agentKeys",
           adminOnly: true,
         },
+        {
+          key: "queue-templates",
+          path: "/settings/queue-templates",
+          icon: IconQueue,
+          labelKey: "settings:nav.queueTemplates",
+          adminOnly: true,
+        },
       ],
     },
     {
@@ -128,6 +137,15 @@ function buildGroups(cloud: boolean): NavGroup[] {
           adminOnly: true,
           selfHostedOnly: true,
         },
+        // The notification outbox is instance-wide — self-hosted only, like SMTP.
+        {
+          key: "outbox",
+          path: "/settings/outbox",
+          icon: IconActivity,
+          labelKey: "settings:nav.outbox",
+          adminOnly: true,
+          selfHostedOnly: true,
+        },
         {
           key: "audit",
           path: "/settings/audit",
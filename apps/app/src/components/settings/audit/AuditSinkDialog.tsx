@@ -0,0 +1,446 @@
+/**
+ * Add / edit dialog for an audit sink. The kind is fixed once created —
+ * it decides which settings exist. The HTTP Authorization value is
+ * write-only: when editing, leaving it blank keeps the stored one. File
+ * sinks write NDJSON, so CEF is offered for syslog and HTTP only.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+import {
+  type AuditSinkSummary,
+  useAuditSinks,
+} from "@/hooks/queries/useAuditSinks";
+
+const SINK_KINDS = ["syslog", "http", "file"] as const;
+type SinkKind = (typeof SINK_KINDS)[number];
+
+const SINK_FORMATS = ["json", "ecs", "cef"] as const;
+type SinkFormat = (typeof SINK_FORMATS)[number];
+
+const MB = 1024 * 1024;
+
+interface Props {
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Sink being edited; null adds a new one. */
+  editing: AuditSinkSummary | null;
+}
+
+export function AuditSinkDialog({
+  workspaceId,
+  open,
+  onOpenChange,
+  editing,
+}: Props) {
+  const { t } = useTranslation("audit");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {editing ? t("sinks.form.editTitle") : t("sinks.form.addTitle")}
+          </DialogTitle>
+          <DialogDescription>{t("sinks.description")}</DialogDescription>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        <AuditSinkForm
+          workspaceId={workspaceId}
+          editing={editing}
+          onDone={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function stringSetting(
+  sink: AuditSinkSummary | null,
+  key: string,
+  fallback = ""
+): string {
+  const value = sink?.settings[key];
+  return value === undefined || value === null ? fallback : String(value);
+}
+
+function AuditSinkForm({
+  workspaceId,
+  editing,
+  onDone,
+}: Pick<Props, "workspaceId" | "editing"> & { onDone: () => void }) {
+  const { t } = useTranslation("audit");
+  const { create, update } = useAuditSinks(workspaceId);
+
+  const [kind, setKind] = useState<SinkKind>(editing?.kind ?? "syslog");
+  const [name, setName] = useState(editing?.name ?? "");
+  const [format, setFormat] = useState<SinkFormat>(editing?.format ?? "cef");
+  const [backfill, setBackfill] = useState(false);
+  // syslog
+  const [host, setHost] = useState(stringSetting(editing, "host"));
+  const [port, setPort] = useState(stringSetting(editing, "port", "6514"));
+  const [useTls, setUseTls] = useState(editing?.settings.tls !== false);
+  const [caCert, setCaCert] = useState(stringSetting(editing, "caCert"));
+  const [facility, setFacility] = useState(
+    stringSetting(editing, "facility", "13")
+  );
+  // http
+  const [url, setUrl] = useState(stringSetting(editing, "url"));
+  const [authorization, setAuthorization] = useState("");
+  // file
+  const [fileName, setFileName] = useState(
+    stringSetting(editing, "fileName", "audit.ndjson")
+  );
+  const [maxFileMb, setMaxFileMb] = useState(
+    String(Number(stringSetting(editing, "maxFileBytes", String(50 * MB))) / MB)
+  );
+  const [maxFiles, setMaxFiles] = useState(
+    stringSetting(editing, "maxFiles", "5")
+  );
+
+  const formats = kind === "file" ? SINK_FORMATS.slice(0, 2) : SINK_FORMATS;
+  const effectiveFormat =
+    kind === "file" && format === "cef" ? "ecs" : (format as SinkFormat);
+
+  const isPending = create.isPending || update.isPending;
+  const canSubmit =
+    name.trim() !== "" &&
+    (kind === "syslog"
+      ? host.trim() !== "" && Number(port) > 0
+      : kind === "http"
+        ? url.trim() !== ""
+        : fileName.trim() !== "");
+
+  const buildSettings = () => {
+    switch (kind) {
+      case "syslog":
+        return {
+          kind,
+          settings: {
+            host: host.trim(),
+            port: Number(port),
+            tls: useTls,
+            facility: Number(facility),
+            ...(useTls && caCert.trim() && { caCert: caCert.trim() }),
+          },
+        } as const;
+      case "http":
+        return { kind, settings: { url: url.trim() } } as const;
+      case "file":
+        return {
+          kind,
+          settings: {
+            fileName: fileName.trim(),
+            maxFileBytes: Math.round(Number(maxFileMb) * MB),
+            maxFiles: Number(maxFiles),
+          },
+        } as const;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const common = { workspaceId, name: name.trim() };
+    const target = buildSettings();
+    const auth = authorization.trim() || undefined;
+
+    try {
+      if (editing) {
+        await update.mutateAsync(
+          target.kind === "http"
+            ? {
+                ...common,
+                ...target,
+                id: editing.id,
+                format: effectiveFormat,
+                authorization: auth,
+              }
+            : target.kind === "file"
+              ? {
+                  ...common,
+                  ...target,
+                  id: editing.id,
+                  format: effectiveFormat as "json" | "ecs",
+                }
+              : {
+                  ...common,
+                  ...target,
+                  id: editing.id,
+                  format: effectiveFormat,
+                }
+        );
+      } else {
+        await create.mutateAsync(
+          target.kind === "http"
+            ? {
+                ...common,
+                ...target,
+                format: effectiveFormat,
+                authorization: auth,
+                backfill,
+              }
+            : target.kind === "file"
+              ? {
+                  ...common,
+                  ...target,
+                  format: effectiveFormat as "json" | "ecs",
+                  backfill,
+                }
+              : { ...common, ...target, format: effectiveFormat, backfill }
+        );
+      }
+      qToast({
+        severity: "success",
+        title: t("sinks.toast.saved", { name: common.name }),
+      });
+      onDone();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("sinks.toast.saveError")
+      );
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="audit-sink-kind">{t("sinks.form.kind")}</Label>
+          <Select
+            value={kind}
+            onValueChange={(value) => setKind(value as SinkKind)}
+            disabled={editing !== null}
+          >
+            <SelectTrigger id="audit-sink-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SINK_KINDS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`sinks.kind.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-sink-format">{t("sinks.form.format")}</Label>
+          <Select
+            value={effectiveFormat}
+            onValueChange={(value) => setFormat(value as SinkFormat)}
+          >
+            <SelectTrigger id="audit-sink-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {formats.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`sinks.format.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t(`sinks.form.help.${kind}`)}
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="audit-sink-name">{t("sinks.form.name")}</Label>
+        <Input
+          id="audit-sink-name"
+          value={name}
+          maxLength={100}
+          placeholder={t("sinks.form.namePlaceholder")}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      {kind === "syslog" && (
+        <>
+          <div className="grid grid-cols-[1fr_7rem_6rem] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-sink-host">{t("sinks.form.host")}</Label>
+              <Input
+                id="audit-sink-host"
+                value={host}
+                placeholder="siem.example.com"
+                onChange={(e) => setHost(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-sink-port">{t("sinks.form.port")}</Label>
+              <Input
+                id="audit-sink-port"
+                type="number"
+                min={1}
+                max={65535}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-sink-facility">
+                {t("sinks.form.facility")}
+              </Label>
+              <Input
+                id="audit-sink-facility"
+                type="number"
+                min={0}
+                max={23}
+                value={facility}
+                onChange={(e) => setFacility(e.target.value)}
+              />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={useTls}
+              onCheckedChange={(checked) => setUseTls(checked === true)}
+            />
+            {t("sinks.form.tls")}
+          </label>
+          {useTls && (
+            <div className="space-y-2">
+              <Label htmlFor="audit-sink-ca">{t("sinks.form.caCert")}</Label>
+              <Textarea
+                id="audit-sink-ca"
+                rows={3}
+                className="font-mono text-xs"
+                value={caCert}
+                placeholder="-----BEGIN CERTIFICATE-----"
+                onChange={(e) => setCaCert(e.target.value)}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {kind === "http" && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="audit-sink-url">{t("sinks.form.url")}</Label>
+            <Input
+              id="audit-sink-url"
+              type="url"
+              value={url}
+              placeholder="https://splunk.example.com:8088/services/collector/raw"
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-sink-auth">
+              {t("sinks.form.authorization")}
+            </Label>
+            <Input
+              id="audit-sink-auth"
+              type="password"
+              autoComplete="off"
+              value={authorization}
+              placeholder={
+                editing?.hasAuthorization
+                  ? t("sinks.form.keepAuthorization")
+                  : "Splunk 00000000-0000-0000-0000-000000000000"
+              }
+              onChange={(e) => setAuthorization(e.target.value)}
+            />
+          </div>
+        </>
+      )}
+
+      {kind === "file" && (
+        <div className="grid grid-cols-[1fr_7rem_6rem] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="audit-sink-file">{t("sinks.form.fileName")}</Label>
+            <Input
+              id="audit-sink-file"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-sink-max-mb">
+              {t("sinks.form.maxFileMb")}
+            </Label>
+            <Input
+              id="audit-sink-max-mb"
+              type="number"
+              min={1}
+              max={1024}
+              value={maxFileMb}
+              onChange={(e) => setMaxFileMb(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-sink-max-files">
+              {t("sinks.form.maxFiles")}
+            </Label>
+            <Input
+              id="audit-sink-max-files"
+              type="number"
+              min={0}
+              max={100}
+              value={maxFiles}
+              onChange={(e) => setMaxFiles(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {!editing && (
+        <label className="flex items-start gap-2 text-sm">
+          <Checkbox
+            className="mt-0.5"
+            checked={backfill}
+            onCheckedChange={(checked) => setBackfill(checked === true)}
+          />
+          <span>
+            {t("sinks.form.backfill")}
+            <span className="block text-xs text-muted-foreground">
+              {t("sinks.form.backfillHelp")}
+            </span>
+          </span>
+        </label>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          {t("sinks.form.cancel")}
+        </Button>
+        <Button type="submit" disabled={!canSubmit || isPending}>
+          {isPending ? t("sinks.form.saving") : t("sinks.form.save")}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,306 @@
+/**
+ * Settings → Audit log: the SIEM sinks the workspace's audit log streams
+ * to, each with a health indicator — delivered up to date, lagging behind,
+ * failing (with the collector's last error) or disabled.
+ *
+ * Reading needs audit:read; adding, editing, testing and removing sinks
+ * need audit:export, like the CSV export.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Plus, Radio } from "lucide-react";
+import { toast } from "sonner";
+
+import { formatRelativeAgo } from "@/lib/formatRelativeAgo";
+import { qToast } from "@/lib/qToast";
+import { cn } from "@/lib/utils";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { AuditSinkDialog } from "@/components/settings/audit/AuditSinkDialog";
+import { SettingsTableSkeleton } from "@/components/skeletons/SettingsSkeleton";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+import {
+  type AuditSinkSummary,
+  useAuditSinks,
+} from "@/hooks/queries/useAuditSinks";
+
+const HEALTH_TONE: Record<AuditSinkSummary["health"], string> = {
+  healthy: "bg-success",
+  lagging: "bg-warning",
+  failing: "bg-destructive",
+  disabled: "bg-muted-foreground",
+};
+
+function sinkTarget(sink: AuditSinkSummary): string {
+  const settings = sink.settings;
+  switch (sink.kind) {
+    case "syslog":
+      return `${settings.tls === false ? "tcp" : "tls"}://${String(settings.host)}:${String(settings.port)}`;
+    case "http":
+      return String(settings.url);
+    case "file":
+      return String(settings.fileName);
+  }
+}
+
+export function AuditSinksPanel({
+  workspaceId,
+  canManage,
+}: {
+  workspaceId: string;
+  canManage: boolean;
+}) {
+  const { t } = useTranslation("audit");
+  const { list, update, remove, test } = useAuditSinks(workspaceId);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<AuditSinkSummary | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AuditSinkSummary | null>(
+    null
+  );
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const sinks = list.data ?? [];
+
+  const openDialog = (sink: AuditSinkSummary | null) => {
+    setEditing(sink);
+    setDialogOpen(true);
+  };
+
+  const handleToggle = async (sink: AuditSinkSummary, enabled: boolean) => {
+    try {
+      await update.mutateAsync({
+        workspaceId,
+        kind: sink.kind,
+        id: sink.id,
+        enabled,
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("sinks.toast.saveError")
+      );
+    }
+  };
+
+  const handleTest = async (sink: AuditSinkSummary) => {
+    setTestingId(sink.id);
+    try {
+      const result = await test.mutateAsync({ workspaceId, id: sink.id });
+      qToast({
+        severity: result.success ? "success" : "error",
+        title: result.success
+          ? t("sinks.toast.testDelivered", { name: sink.name })
+          : t("sinks.toast.testFailed", { name: sink.name }),
+        msg: [t("sinks.testDuration", { ms: result.durationMs }), result.error]
+          .filter(Boolean)
+          .join(" — "),
+      });
+    } catch (err) {
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : t("sinks.toast.testFailed", { name: sink.name })
+      );
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const target = pendingDelete;
+    try {
+      await remove.mutateAsync({ workspaceId, id: target.id });
+      qToast({
+        severity: "success",
+        title: t("sinks.toast.deleted", { name: target.name }),
+      });
+      setPendingDelete(null);
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("sinks.toast.deleteError")
+      );
+    }
+  };
+
+  const healthDetail = (sink: AuditSinkSummary): string => {
+    switch (sink.health) {
+      case "failing":
+        return t("sinks.detail.failing", {
+          count: sink.consecutiveFailures,
+          error: sink.lastError ?? "",
+        });
+      case "lagging":
+        return t("sinks.detail.lagging", {
+          count: sink.pendingEvents,
+          pending: sink.pendingCapped
+            ? `${sink.pendingEvents}+`
+            : String(sink.pendingEvents),
+        });
+      case "healthy":
+        return sink.lastDeliveredAt
+          ? t("sinks.detail.delivered", {
+              ago: formatRelativeAgo(sink.lastDeliveredAt, t("sinks.justNow")),
+            })
+          : t("sinks.detail.waiting");
+      case "disabled":
+        return t("sinks.detail.disabled");
+    }
+  };
+
+  const colHead =
+    "px-5 py-3 text-left font-mono text-[10px] font-medium uppercase tracking-[0.08em] text-muted-foreground";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Radio className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
+          <div>
+            <h3 className="text-xl font-semibold">{t("sinks.title")}</h3>
+            <p className="text-sm text-muted-foreground">
+              {t("sinks.description")}
+            </p>
+          </div>
+        </div>
+        {canManage && (
+          <Button className="shrink-0" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4" aria-hidden="true" />
+            {t("sinks.add")}
+          </Button>
+        )}
+      </div>
+
+      {list.isLoading ? (
+        <SettingsTableSkeleton rows={2} />
+      ) : list.isError ? (
+        <p className="text-sm text-destructive">
+          {list.error?.message ?? t("sinks.loadError")}
+        </p>
+      ) : sinks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("sinks.empty")}</p>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border">
+              <tr>
+                <th className={colHead}>{t("sinks.col.name")}</th>
+                <th className={colHead}>{t("sinks.col.destination")}</th>
+                <th className={colHead}>{t("sinks.col.health")}</th>
+                <th className={colHead}>{t("sinks.col.enabled")}</th>
+                <th className={`${colHead} sr-only`}>
+                  {t("sinks.col.actions")}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {sinks.map((sink) => (
+                <tr key={sink.id}>
+                  <td className="px-5 py-3.5">
+                    <p className="font-medium">{sink.name}</p>
+                    <p className="font-mono text-xs text-muted-foreground">
+                      {t(`sinks.kind.${sink.kind}`)} ·{" "}
+                      {t(`sinks.format.${sink.format}`)}
+                    </p>
+                  </td>
+                  <td className="max-w-xs px-5 py-3.5">
+                    <p className="truncate font-mono text-xs">
+                      {sinkTarget(sink)}
+                    </p>
+                  </td>
+                  <td className="max-w-xs px-5 py-3.5">
+                    <p className="flex items-center gap-2 text-sm">
+                      <span
+                        className={cn(
+                          "h-2 w-2 shrink-0 rounded-full",
+                          HEALTH_TONE[sink.health]
+                        )}
+                        aria-hidden="true"
+                      />
+                      {t(`sinks.health.${sink.health}`)}
+                    </p>
+                    <p
+                      className="truncate text-xs text-muted-foreground"
+                      title={sink.lastError ?? undefined}
+                    >
+                      {healthDetail(sink)}
+                    </p>
+                  </td>
+                  <td className="px-5 py-3.5">
+                    <Switch
+                      checked={sink.enabled}
+                      disabled={!canManage || update.isPending}
+                      onCheckedChange={(enabled) =>
+                        void handleToggle(sink, enabled)
+                      }
+                      aria-label={t("sinks.toggle", { name: sink.name })}
+                    />
+                  </td>
+                  <td className="space-x-2 whitespace-nowrap px-5 py-3.5 text-right">
+                    {canManage && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={testingId !== null}
+                          onClick={() => void handleTest(sink)}
+                        >
+                          {testingId === sink.id
+                            ? t("sinks.testing")
+                            : t("sinks.test")}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog(sink)}
+                        >
+                          {t("sinks.edit")}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={remove.isPending}
+                          onClick={() => setPendingDelete(sink)}
+                        >
+                          {t("sinks.delete.action")}
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <AuditSinkDialog
+        workspaceId={workspaceId}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        editing={editing}
+      />
+
+      <ConfirmDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingDelete(null);
+        }}
+        tone="danger"
+        title={t("sinks.delete.title")}
+        body={t("sinks.delete.description", {
+          name: pendingDelete?.name ?? "",
+        })}
+        confirmLabel={t("sinks.delete.confirm")}
+        pendingLabel={t("sinks.delete.pending")}
+        cancelLabel={t("sinks.delete.cancel")}
+        isPending={remove.isPending}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useTranslation } from "react-i18next";
+
+import { formatRelativeAgo } from "@/lib/formatRelativeAgo";
+import { cn } from "@/lib/utils";
+
+import type { OutboxOverview } from "@/hooks/queries/useSelfhostedOutbox";
+
+const STATE_TONE: Record<string, string> = {
+  closed: "bg-success",
+  half_open: "bg-warning",
+  open: "bg-destructive",
+  isolated: "bg-destructive",
+};
+
+/**
+ * Circuit breaker of each outbox channel, as last reported by the
+ * notification worker. An open breaker means the drain stopped calling
+ * that downstream for now — rows wait for it to half-open instead of
+ * burning their attempts.
+ */
+export function OutboxBreakersCard({
+  breakers,
+  reportedAt,
+}: {
+  breakers: OutboxOverview["breakers"];
+  reportedAt: string | null;
+}) {
+  const { t } = useTranslation("outbox");
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      <div className="px-4 py-3 bg-muted/30 border-b border-border">
+        <h2 className="title-section">{t("breakers.title")}</h2>
+        <p className="text-sm text-muted-foreground">
+          {reportedAt
+            ? t("breakers.reportedAt", {
+                ago: formatRelativeAgo(reportedAt, t("justNow")),
+              })
+            : t("breakers.neverReported")}
+        </p>
+      </div>
+      <ul className="grid grid-cols-2 gap-px bg-border sm:grid-cols-3">
+        {breakers.map((breaker) => (
+          <li key={breaker.channel} className="bg-card px-4 py-3">
+            <p className="text-sm font-medium">
+              {t(`channel.${breaker.channel}`)}
+            </p>
+            <p className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+              <span
+                className={cn(
+                  "h-2 w-2 rounded-full",
+                  STATE_TONE[breaker.state] ?? "bg-muted-foreground"
+                )}
+                aria-hidden="true"
+              />
+              {t(`breakers.state.${breaker.state}`)}
+              {breaker.since && breaker.state !== "closed" && (
+                <span>· {formatRelativeAgo(breaker.since, t("justNow"))}</span>
+              )}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * Detail dialog for one outbox row: its last error and attempt history,
+ * and — for a FAILED row — a replay, optionally to a different recipient
+ * (an email address, or the id of another incident channel of the same
+ * workspace).
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import {
+  useOutboxMutations,
+  useOutboxRow,
+} from "@/hooks/queries/useSelfhostedOutbox";
+
+interface Props {
+  /** Row to show; null keeps the dialog closed. */
+  rowId: string | null;
+  onClose: () => void;
+}
+
+export function OutboxRowDialog({ rowId, onClose }: Props) {
+  const { t } = useTranslation("outbox");
+  const row = useOutboxRow(rowId);
+
+  return (
+    <Dialog
+      open={rowId !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("detail.title")}</DialogTitle>
+          <DialogDescription>
+            {row.data
+              ? `${t(`channel.${row.data.channel}`)} · ${row.data.template}`
+              : t("detail.loading")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {row.isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : row.isError || !row.data ? (
+          <p className="text-sm text-destructive">{t("loadError")}</p>
+        ) : (
+          <div className="space-y-5">
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">{t("col.status")}</dt>
+              <dd>{t(`status.${row.data.status}`)}</dd>
+              <dt className="text-muted-foreground">{t("col.target")}</dt>
+              <dd className="break-all font-mono text-xs">{row.data.target}</dd>
+              <dt className="text-muted-foreground">{t("col.attempts")}</dt>
+              <dd>{row.data.attempts}</dd>
+              <dt className="text-muted-foreground">{t("detail.created")}</dt>
+              <dd>{new Date(row.data.createdAt).toLocaleString()}</dd>
+              <dt className="text-muted-foreground">
+                {t("detail.idempotencyKey")}
+              </dt>
+              <dd className="break-all font-mono text-xs">
+                {row.data.idempotencyKey}
+              </dd>
+            </dl>
+
+            {row.data.lastError && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{t("col.lastError")}</p>
+                <pre className="whitespace-pre-wrap break-all rounded-md bg-destructive/10 p-3 font-mono text-xs text-destructive">
+                  {row.data.lastError}
+                </pre>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t("detail.history")}</p>
+              {row.data.history.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  {t("detail.noHistory")}
+                </p>
+              ) : (
+                <ol className="divide-y divide-border rounded-md border border-border">
+                  {row.data.history.map((attempt) => (
+                    <li key={attempt.id} className="px-3 py-2 text-xs">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="font-medium">
+                          {t(`outcome.${attempt.outcome}`)}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {new Date(attempt.createdAt).toLocaleString()}
+                          {attempt.durationMs !== null &&
+                            ` · ${t("detail.duration", { ms: attempt.durationMs })}`}
+                        </span>
+                      </div>
+                      {attempt.detail && (
+                        <p className="mt-1 break-all font-mono text-muted-foreground">
+                          {attempt.detail}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            {row.data.status === "FAILED" && (
+              // Keyed on the target so a replay elsewhere starts fresh
+              <ReplayForm
+                key={row.data.target}
+                rowId={row.data.id}
+                currentTarget={row.data.target}
+                onDone={onClose}
+              />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReplayForm({
+  rowId,
+  currentTarget,
+  onDone,
+}: {
+  rowId: string;
+  currentTarget: string;
+  onDone: () => void;
+}) {
+  const { t } = useTranslation("outbox");
+  const { replay } = useOutboxMutations();
+  const [target, setTarget] = useState(currentTarget);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = target.trim();
+    if (!trimmed) return;
+    try {
+      await replay.mutateAsync({
+        id: rowId,
+        target: trimmed === currentTarget ? undefined : trimmed,
+      });
+      qToast({
+        severity: "success",
+        title:
+          trimmed === currentTarget
+            ? t("toast.replayed")
+            : t("toast.retargeted", { target: trimmed }),
+      });
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t("toast.replayError"));
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg border border-border p-4"
+    >
+      <div className="space-y-2">
+        <Label htmlFor="outbox-replay-target">{t("replay.target")}</Label>
+        <Input
+          id="outbox-replay-target"
+          className="font-mono"
+          value={target}
+          maxLength={320}
+          onChange={(e) => setTarget(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">{t("replay.help")}</p>
+      </div>
+      <Button type="submit" disabled={!target.trim() || replay.isPending}>
+        <RotateCcw className="h-4 w-4" aria-hidden="true" />
+        {replay.isPending
+          ? t("replay.pending")
+          : target.trim() === currentTarget
+            ? t("replay.submit")
+            : t("replay.submitRetarget")}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Link } from "react-router";
+
+import { AlertTriangle, KeyRound } from "lucide-react";
+import { toast } from "sonner";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TagsInput } from "@/components/ui/tags-input";
+
+import {
+  useCredentialHygiene,
+  useRotateConnectionPassword,
+  useSetPasswordRotationPolicy,
+} from "@/hooks/queries/useRabbitMQUsers";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+import type { ReactNode } from "react";
+
+const CADENCE_OPTIONS = [30, 60, 90, 180, 365] as const;
+const OFF = "off";
+
+function Field({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium font-mono">{value}</p>
+    </div>
+  );
+}
+
+function RotationPolicyForm({
+  serverId,
+  rotationDays,
+  expectedAdmins,
+}: {
+  serverId: string;
+  rotationDays: number | null;
+  expectedAdmins: string[];
+}) {
+  const { t } = useTranslation("users");
+  const { workspace } = useWorkspace();
+  const setPolicy = useSetPasswordRotationPolicy();
+  const [cadence, setCadence] = useState(
+    rotationDays ? String(rotationDays) : OFF
+  );
+  const [admins, setAdmins] = useState(expectedAdmins);
+
+  const options = new Set<number>(CADENCE_OPTIONS);
+  if (rotationDays) options.add(rotationDays);
+
+  const dirty =
+    cadence !== (rotationDays ? String(rotationDays) : OFF) ||
+    admins.join(",") !== expectedAdmins.join(",");
+
+  const handleSave = async () => {
+    if (!workspace?.id) return;
+    try {
+      await setPolicy.mutateAsync({
+        serverId,
+        workspaceId: workspace.id,
+        rotationDays: cadence === OFF ? null : Number(cadence),
+        expectedAdmins: admins,
+      });
+      toast.success(t("hygiene.policySaved"));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("hygiene.policyError")
+      );
+    }
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[12rem_1fr_auto] items-end">
+      <div className="space-y-2">
+        <Label>{t("hygiene.cadence")}</Label>
+        <Select value={cadence} onValueChange={setCadence}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OFF}>{t("hygiene.cadenceOff")}</SelectItem>
+            {[...options]
+              .sort((a, b) => a - b)
+              .map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {t("hygiene.cadenceDays", { count: days })}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>{t("hygiene.expectedAdmins")}</Label>
+        <TagsInput
+          value={admins}
+          onChange={setAdmins}
+          placeholder={t("hygiene.expectedAdminsPlaceholder")}
+          maxTags={50}
+          maxTagLength={255}
+        />
+      </div>
+      <Button
+        variant="outline"
+        onClick={handleSave}
+        disabled={!dirty || setPolicy.isPending}
+      >
+        {t("hygiene.savePolicy")}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Credential hygiene for the selected server: rotating the broker password
+ * Qarote connects with (now, or on a cadence), and the broker users worth
+ * a second look — users with no permissions, a `guest` usable from outside
+ * the broker host, and administrators nobody listed as expected.
+ */
+export function CredentialHygiene({ serverId }: { serverId: string }) {
+  const { t } = useTranslation("users");
+  const { workspace } = useWorkspace();
+  const { data, isLoading, error } = useCredentialHygiene(serverId);
+  const rotate = useRotateConnectionPassword();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const handleRotate = async () => {
+    if (!workspace?.id) return;
+    try {
+      await rotate.mutateAsync({ serverId, workspaceId: workspace.id });
+      toast.success(t("hygiene.rotated"));
+      setConfirmOpen(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("hygiene.rotateError")
+      );
+      throw error;
+    }
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleString() : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <KeyRound className="h-4 w-4" aria-hidden="true" />
+          {t("hygiene.title")}
+          {data && data.findings.length > 0 && (
+            <Badge
+              variant={
+                data.findings.some((f) => f.severity === "critical")
+                  ? "destructive"
+                  : "outline"
+              }
+            >
+              {data.findings.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setConfirmOpen(true)}
+          disabled={!data || data.rotation.externalSecret || rotate.isPending}
+        >
+          {t("hygiene.rotateNow")}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error || !data ? (
+          <p className="text-sm text-muted-foreground">
+            {error?.message ?? t("hygiene.unavailable")}
+          </p>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <Field
+                  label={t("hygiene.connectionUser")}
+                  value={data.rotation.connectionUser}
+                />
+                <Field
+                  label={t("hygiene.rotatedAt")}
+                  value={
+                    formatDate(data.rotation.rotatedAt) ?? t("hygiene.never")
+                  }
+                />
+                <Field
+                  label={t("hygiene.nextRotation")}
+                  value={
+                    formatDate(data.rotation.nextRotationAt) ??
+                    t("hygiene.onDemand")
+                  }
+                />
+              </div>
+              {data.rotation.externalSecret && (
+                <Alert>
+                  <AlertDescription>
+                    {t("hygiene.externalSecret")}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {data.rotation.lastError && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {t("hygiene.lastError", {
+                      error: data.rotation.lastError,
+                    })}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <RotationPolicyForm
+                key={`${data.rotation.rotationDays}|${data.rotation.expectedAdmins.join(",")}`}
+                serverId={serverId}
+                rotationDays={data.rotation.rotationDays}
+                expectedAdmins={data.rotation.expectedAdmins}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">{t("hygiene.findings")}</h4>
+              {data.findings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {t("hygiene.noFindings")}
+                </p>
+              ) : (
+                <div className="divide-y divide-border rounded-md border border-border">
+                  {data.findings.map((finding) => (
+                    <div
+                      key={`${finding.kind}|${finding.username}`}
+                      className="px-3 py-2 text-sm flex items-center gap-3"
+                    >
+                      <AlertTriangle
+                        className={`h-4 w-4 shrink-0 ${
+                          finding.severity === "critical"
+                            ? "text-destructive"
+                            : "text-warning"
+                        }`}
+                        aria-hidden="true"
+                      />
+                      <Link
+                        to={`/users/${encodeURIComponent(finding.username)}`}
+                        className="font-mono font-medium hover:underline"
+                      >
+                        {finding.username}
+                      </Link>
+                      <span className="text-muted-foreground flex-1 min-w-0">
+                        {finding.kind === "guest_remote"
+                          ? [
+                              finding.evidence?.includes("default_password") &&
+                                t("hygiene.finding.guestDefaultPassword"),
+                              finding.remotePeers?.length &&
+                                t("hygiene.finding.guestRemoteConnection", {
+                                  peers: finding.remotePeers.join(", "),
+                                }),
+                            ]
+                              .filter(Boolean)
+                              .join(" ")
+                          : t(`hygiene.finding.${finding.kind}`)}
+                      </span>
+                      {finding.tags.length > 0 && (
+                        <Badge variant="outline">
+                          {finding.tags.join(", ")}
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!data.guestProbed && (
+                <p className="text-xs text-muted-foreground">
+                  {t("hygiene.guestNotProbed")}
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title={t("hygiene.rotateConfirmTitle")}
+        body={t("hygiene.rotateConfirmBody", {
+          user: data?.rotation.connectionUser ?? "",
+        })}
+        confirmLabel={t("hygiene.rotateNow")}
+        cancelLabel={t("common:cancel")}
+        isPending={rotate.isPending}
+        onConfirm={handleRotate}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,426 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import {
+  CheckCircle2,
+  Circle,
+  Copy,
+  Loader2,
+  MinusCircle,
+  Plus,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  useCloneVHost,
+  useVHostClonePreview,
+  useVHostCloneProgress,
+  type VHostCloneRequest,
+} from "@/hooks/queries/useRabbitMQVHosts";
+import { useServers } from "@/hooks/queries/useServer";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+type RenameRule = VHostCloneRequest["renameRules"][number];
+
+const RENAME_SCOPES: RenameRule["appliesTo"][] = ["all", "queues", "exchanges"];
+
+const STEP_ICONS = {
+  pending: Circle,
+  running: Loader2,
+  succeeded: CheckCircle2,
+  failed: XCircle,
+  skipped: MinusCircle,
+} as const;
+
+const STEP_ICON_CLASSES = {
+  pending: "text-muted-foreground",
+  running: "text-muted-foreground animate-spin",
+  succeeded: "text-success",
+  failed: "text-destructive",
+  skipped: "text-muted-foreground",
+} as const;
+
+interface CloneVHostDialogProps {
+  serverId: string;
+  vhostName: string;
+}
+
+/**
+ * Copy this vhost's topology, limits and (optionally) users and
+ * permissions to a new vhost on this or another server. Rename rules are
+ * previewed first; the run then streams its step list.
+ */
+export function CloneVHostDialog({
+  serverId,
+  vhostName,
+}: CloneVHostDialogProps) {
+  const { t } = useTranslation("vhosts");
+  const { workspace } = useWorkspace();
+  const { data: serversData } = useServers();
+  const servers = serversData?.servers ?? [];
+  const [open, setOpen] = useState(false);
+
+  const [targetServerId, setTargetServerId] = useState(serverId);
+  const [targetVhost, setTargetVhost] = useState(`${vhostName}-copy`);
+  const [excludeUsers, setExcludeUsers] = useState(false);
+  const [rules, setRules] = useState<RenameRule[]>([]);
+  const [request, setRequest] = useState<VHostCloneRequest | null>(null);
+  const [operationId, setOperationId] = useState<string | null>(null);
+
+  const preview = useVHostClonePreview(request);
+  const progress = useVHostCloneProgress(serverId, operationId);
+  const clone = useCloneVHost();
+  const running = clone.isPending;
+
+  const reset = () => {
+    setRequest(null);
+    setOperationId(null);
+  };
+
+  const updateRule = (index: number, patch: Partial<RenameRule>) => {
+    reset();
+    setRules((prev) =>
+      prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule))
+    );
+  };
+
+  const handlePreview = () => {
+    setOperationId(null);
+    setRequest({
+      serverId,
+      vhostName,
+      targetServerId,
+      targetVhost: targetVhost.trim(),
+      renameRules: rules.filter((rule) => rule.match.trim()),
+      excludeUsers,
+    });
+  };
+
+  const handleClone = async () => {
+    if (!workspace?.id || !request) return;
+    const id = crypto.randomUUID();
+    setOperationId(id);
+    try {
+      const result = await clone.mutateAsync({
+        ...request,
+        workspaceId: workspace.id,
+        operationId: id,
+      });
+      if (result.status === "COMPLETED") {
+        toast.success(t("clone.done", { name: result.targetVhost }));
+      } else {
+        toast.error(t("clone.failed"), {
+          description: result.error ?? undefined,
+        });
+      }
+    } catch (error) {
+      toast.error(t("clone.failed"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  const steps = progress.operation?.steps ?? preview.data?.steps ?? [];
+  const report = progress.operation?.report;
+  const targetServerName =
+    servers.find((s) => s.id === targetServerId)?.name ?? targetServerId;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (running) return;
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2 shrink-0">
+          <Copy className="w-4 h-4" />
+          {t("clone.trigger")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("clone.title", { name: vhostName })}</DialogTitle>
+          <DialogDescription>{t("clone.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>{t("clone.targetServer")}</Label>
+            <Select
+              value={targetServerId}
+              onValueChange={(value) => {
+                reset();
+                setTargetServerId(value);
+              }}
+              disabled={running}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {servers.map((server) => (
+                  <SelectItem key={server.id} value={server.id}>
+                    {server.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="clone-target-vhost">{t("clone.targetVhost")}</Label>
+            <Input
+              id="clone-target-vhost"
+              value={targetVhost}
+              onChange={(e) => {
+                reset();
+                setTargetVhost(e.target.value);
+              }}
+              className="font-mono"
+              disabled={running}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>{t("clone.renameRules")}</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                reset();
+                setRules((prev) => [
+                  ...prev,
+                  { appliesTo: "all", match: "", replace: "" },
+                ]);
+              }}
+              disabled={running || rules.length >= 20}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {t("clone.addRule")}
+            </Button>
+          </div>
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t("clone.noRules")}
+            </p>
+          ) : (
+            rules.map((rule, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-[8rem_1fr_1fr_auto] gap-2"
+              >
+                <Select
+                  value={rule.appliesTo}
+                  onValueChange={(value) =>
+                    updateRule(index, {
+                      appliesTo: value as RenameRule["appliesTo"],
+                    })
+                  }
+                  disabled={running}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RENAME_SCOPES.map((scope) => (
+                      <SelectItem key={scope} value={scope}>
+                        {t(`clone.scope.${scope}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={rule.match}
+                  onChange={(e) => updateRule(index, { match: e.target.value })}
+                  placeholder="^prod\."
+                  className="font-mono"
+                  aria-label={t("clone.match")}
+                  disabled={running}
+                />
+                <Input
+                  value={rule.replace}
+                  onChange={(e) =>
+                    updateRule(index, { replace: e.target.value })
+                  }
+                  placeholder="staging."
+                  className="font-mono"
+                  aria-label={t("clone.replace")}
+                  disabled={running}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    reset();
+                    setRules((prev) => prev.filter((_, i) => i !== index));
+                  }}
+                  aria-label={t("clone.removeRule")}
+                  disabled={running}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={excludeUsers}
+            onCheckedChange={(v) => {
+              reset();
+              setExcludeUsers(v === true);
+            }}
+            disabled={running}
+          />
+          {t("clone.excludeUsers")}
+        </label>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!targetVhost.trim() || running || preview.isFetching}
+          >
+            {preview.isFetching ? t("clone.previewing") : t("clone.preview")}
+          </Button>
+        </div>
+
+        {(preview.error || progress.error) && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {(preview.error ?? progress.error)?.message}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {preview.data?.targetExists && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {t("clone.targetExists", {
+                name: request?.targetVhost,
+                server: targetServerName,
+              })}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {steps.length > 0 && (
+          <div className="border divide-y">
+            {steps.map((step) => {
+              const Icon = STEP_ICONS[step.status];
+              return (
+                <div
+                  key={step.step}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm"
+                >
+                  <Icon
+                    className={`w-4 h-4 ${STEP_ICON_CLASSES[step.status]}`}
+                  />
+                  <span className="flex-1">{t(`clone.step.${step.step}`)}</span>
+                  {step.status !== "skipped" && (
+                    <Badge variant="outline" className="tabular-nums">
+                      {step.count}
+                    </Badge>
+                  )}
+                  {step.error && (
+                    <span className="text-xs text-destructive truncate max-w-xs">
+                      {step.error}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {preview.data && (
+          <div className="space-y-2 text-sm">
+            {preview.data.renamed.length > 0 && (
+              <div className="max-h-32 overflow-y-auto space-y-0.5">
+                {preview.data.renamed.map((item) => (
+                  <div
+                    key={`${item.kind}|${item.from}`}
+                    className="font-mono text-xs"
+                  >
+                    {item.from} → {item.to}
+                  </div>
+                ))}
+              </div>
+            )}
+            {preview.data.skipped.length > 0 && (
+              <p className="text-muted-foreground">
+                {t("clone.skipped", { count: preview.data.skipped.length })}
+              </p>
+            )}
+            {preview.data.warnings.map((warning) => (
+              <p key={warning.code} className="text-warning">
+                {t(`clone.warning.${warning.code}`, { count: warning.count })}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {progress.operation?.interrupted && (
+          <Alert variant="destructive">
+            <AlertDescription>{t("clone.interrupted")}</AlertDescription>
+          </Alert>
+        )}
+
+        {report && report.usersCreated.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t("clone.usersCreated", {
+              users: report.usersCreated.join(", "),
+            })}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleClone}
+            disabled={
+              !preview.data ||
+              preview.data.targetExists ||
+              running ||
+              !!operationId
+            }
+          >
+            {running ? t("clone.running") : t("clone.execute")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
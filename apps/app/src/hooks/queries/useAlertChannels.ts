@@ -0,0 +1,34 @@
+/**
+ * Wraps the `workspace.notificationChannels` tRPC router (PagerDuty,
+ * Opsgenie and Teams alert channels) for Settings → Integrations. Secrets
+ * are write-only: the list returns a `secretHint`, never the key itself.
+ */
+
+import { trpc } from "@/lib/trpc/client";
+
+export const useAlertChannels = (workspaceId: string) => {
+  const utils = trpc.useUtils();
+  const invalidate = () =>
+    void utils.workspace.notificationChannels.list.invalidate({ workspaceId });
+
+  const list = trpc.workspace.notificationChannels.list.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 30_000 }
+  );
+
+  const create = trpc.workspace.notificationChannels.create.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const update = trpc.workspace.notificationChannels.update.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const remove = trpc.workspace.notificationChannels.delete.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const test = trpc.workspace.notificationChannels.test.useMutation();
+
+  return { list, create, update, remove, test };
+};
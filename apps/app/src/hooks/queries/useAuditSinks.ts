@@ -0,0 +1,41 @@
+/**
+ * Wraps the `audit.sinks` tRPC router (syslog, HTTP and file destinations
+ * the audit log is streamed to) for Settings → Audit log. The HTTP
+ * Authorization value is write-only: the list only says whether one is
+ * set. The list refreshes on its own so the health badges stay current.
+ */
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+
+import { trpc } from "@/lib/trpc/client";
+
+export type AuditSinkSummary =
+  inferRouterOutputs<AppRouter>["audit"]["sinks"]["list"][number];
+
+export const useAuditSinks = (workspaceId: string, enabled = true) => {
+  const utils = trpc.useUtils();
+  const invalidate = () =>
+    void utils.audit.sinks.list.invalidate({ workspaceId });
+
+  const list = trpc.audit.sinks.list.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId && enabled, refetchInterval: 30_000 }
+  );
+
+  const create = trpc.audit.sinks.create.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const update = trpc.audit.sinks.update.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const remove = trpc.audit.sinks.delete.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const test = trpc.audit.sinks.test.useMutation();
+
+  return { list, create, update, remove, test };
+};
@@ -30,6 +30,25 @@ export const useExportDefinitions = (
   return query;
 };
 
+/**
+ * Dry run of an import: the change set between the uploaded document and
+ * the broker. A mutation because the document goes in the request body.
+ */
+export const useDiffDefinitions = () => {
+  const mutation = trpc.rabbitmq.definitions.diff.useMutation();
+
+  const mutate: typeof mutation.mutate = (input, options) =>
+    mutation.mutate(
+      {
+        ...input,
+        vhost: input.vhost ? encodeURIComponent(input.vhost) : undefined,
+      },
+      options
+    );
+
+  return { ...mutation, mutate };
+};
+
 export const useImportDefinitions = () => {
   const utils = trpc.useUtils();
 
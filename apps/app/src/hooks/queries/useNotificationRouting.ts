@@ -0,0 +1,81 @@
+/**
+ * Wraps the `workspace.notificationRouting` tRPC router (routing rules,
+ * escalation policies and the targets a step can notify) for Settings →
+ * Integrations. Rule mutations refresh
+ * both lists — the policies list carries each policy's rule count.
+ */
+
+import { trpc } from "@/lib/trpc/client";
+
+export const useNotificationRouting = (workspaceId: string) => {
+  const utils = trpc.useUtils();
+  const invalidate = () => {
+    void utils.workspace.notificationRouting.listRules.invalidate({
+      workspaceId,
+    });
+    void utils.workspace.notificationRouting.listPolicies.invalidate({
+      workspaceId,
+    });
+  };
+
+  const rules = trpc.workspace.notificationRouting.listRules.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 30_000 }
+  );
+
+  const policies = trpc.workspace.notificationRouting.listPolicies.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 30_000 }
+  );
+
+  const createRule = trpc.workspace.notificationRouting.createRule.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const updateRule = trpc.workspace.notificationRouting.updateRule.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const deleteRule = trpc.workspace.notificationRouting.deleteRule.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const reorderRules =
+    trpc.workspace.notificationRouting.reorderRules.useMutation({
+      onSuccess: invalidate,
+    });
+
+  const createPolicy =
+    trpc.workspace.notificationRouting.createPolicy.useMutation({
+      onSuccess: invalidate,
+    });
+
+  const updatePolicy =
+    trpc.workspace.notificationRouting.updatePolicy.useMutation({
+      onSuccess: invalidate,
+    });
+
+  const deletePolicy =
+    trpc.workspace.notificationRouting.deletePolicy.useMutation({
+      onSuccess: invalidate,
+    });
+
+  return {
+    rules,
+    policies,
+    createRule,
+    updateRule,
+    deleteRule,
+    reorderRules,
+    createPolicy,
+    updatePolicy,
+    deletePolicy,
+  };
+};
+
+/** Channels, webhooks and addresses an escalation step can notify. */
+export const useRoutingTargets = (workspaceId: string) =>
+  trpc.workspace.notificationRouting.listTargets.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 30_000 }
+  );
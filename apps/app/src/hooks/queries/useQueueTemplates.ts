@@ -0,0 +1,81 @@
+/**
+ * Wraps the `rabbitmq.queueTemplates` tRPC router for Settings → Queue
+ * templates and the template picker in the Add Queue dialog. Templates are
+ * workspace-scoped; only the drift check is tied to a server.
+ */
+
+import { trpc } from "@/lib/trpc/client";
+
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+export const useQueueTemplates = (
+  options: { includeArchived?: boolean } = {}
+) => {
+  const { workspace } = useWorkspace();
+  const workspaceId = workspace?.id || "";
+
+  return trpc.rabbitmq.queueTemplates.listTemplates.useQuery(
+    { workspaceId, includeArchived: options.includeArchived },
+    { enabled: !!workspaceId, staleTime: 60_000 }
+  );
+};
+
+export const useQueueTemplate = (templateId: string | null) => {
+  const { workspace } = useWorkspace();
+  const workspaceId = workspace?.id || "";
+
+  return trpc.rabbitmq.queueTemplates.getTemplate.useQuery(
+    { workspaceId, templateId: templateId ?? "" },
+    { enabled: !!workspaceId && !!templateId }
+  );
+};
+
+export const useQueueTemplateMutations = () => {
+  const utils = trpc.useUtils();
+  const invalidate = () => {
+    void utils.rabbitmq.queueTemplates.listTemplates.invalidate();
+    void utils.rabbitmq.queueTemplates.getTemplate.invalidate();
+  };
+
+  const create = trpc.rabbitmq.queueTemplates.createTemplate.useMutation({
+    onSuccess: invalidate,
+  });
+  const publish = trpc.rabbitmq.queueTemplates.publishVersion.useMutation({
+    onSuccess: () => {
+      invalidate();
+      // Drift reports carry the latest version alongside the declared one
+      void utils.rabbitmq.queueTemplates.checkDrift.invalidate();
+    },
+  });
+  const archive = trpc.rabbitmq.queueTemplates.archiveTemplate.useMutation({
+    onSuccess: invalidate,
+  });
+
+  return { create, publish, archive };
+};
+
+/**
+ * Compare a server's templated queues with the version each was declared
+ * from. Runs on demand — every check reads the whole broker topology.
+ */
+export const useTemplateDrift = (
+  serverId: string | null,
+  options: { templateId?: string; enabled: boolean }
+) => {
+  const { workspace } = useWorkspace();
+  const workspaceId = workspace?.id || "";
+
+  return trpc.rabbitmq.queueTemplates.checkDrift.useQuery(
+    {
+      serverId: serverId ?? "",
+      workspaceId,
+      templateId: options.templateId,
+    },
+    {
+      enabled: !!serverId && !!workspaceId && options.enabled,
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+      retry: false,
+    }
+  );
+};
@@ -171,6 +171,84 @@ export const useChannels = (serverId: string | null) => {
   return query;
 };
 
+/**
+ * One connection with its client properties and channels. Fetched only
+ * while the connection's row is open in the list.
+ */
+export const useConnectionDetail = (
+  serverId: string | null,
+  connectionName: string | null
+) => {
+  const { workspace } = useWorkspace();
+
+  const query = trpc.rabbitmq.infrastructure.getConnection.useQuery(
+    {
+      serverId: serverId || "",
+      workspaceId: workspace?.id || "",
+      connectionName: connectionName || "",
+    },
+    {
+      enabled: !!serverId && !!workspace?.id && !!connectionName,
+      staleTime: 5000,
+      refetchInterval: 5000,
+      retry: false,
+    }
+  );
+
+  return query;
+};
+
+type ConnectionCloseTarget = Parameters<
+  typeof trpc.rabbitmq.infrastructure.previewCloseConnections.useQuery
+>[0]["target"];
+
+export const useConnectionClosePreview = (
+  serverId: string,
+  target: ConnectionCloseTarget | null
+) => {
+  const { workspace } = useWorkspace();
+
+  const query = trpc.rabbitmq.infrastructure.previewCloseConnections.useQuery(
+    {
+      serverId,
+      workspaceId: workspace?.id || "",
+      target: target ?? { connections: [] },
+    },
+    {
+      // Same contract as the bulk queue preview: resolved on demand and
+      // frozen, so the list the operator reviews is the list that closes.
+      enabled: !!serverId && !!workspace?.id && !!target,
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+      retry: false,
+    }
+  );
+
+  return query;
+};
+
+const useInvalidateAfterConnectionClose = () => {
+  const utils = trpc.useUtils();
+  return () => {
+    utils.rabbitmq.infrastructure.getConnections.invalidate();
+    utils.rabbitmq.infrastructure.getChannels.invalidate();
+  };
+};
+
+export const useCloseConnection = () => {
+  const onSettled = useInvalidateAfterConnectionClose();
+  return trpc.rabbitmq.infrastructure.closeConnection.useMutation({
+    onSettled,
+  });
+};
+
+export const useCloseConnections = () => {
+  const onSettled = useInvalidateAfterConnectionClose();
+  return trpc.rabbitmq.infrastructure.closeConnections.useMutation({
+    onSettled,
+  });
+};
+
 export const useExchanges = (
   serverId: string | null,
   vhost?: string | null
@@ -219,6 +297,33 @@ export const useDeleteExchange = () => {
   return mutation;
 };
 
+export const useCreateBinding = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.bindings.create.useMutation({
+    onSuccess: async () => {
+      // Bindings surface on both the exchanges list and queue detail
+      await Promise.all([
+        utils.rabbitmq.infrastructure.getExchanges.invalidate(),
+        utils.rabbitmq.queues.getQueueBindings.invalidate(),
+      ]);
+    },
+  });
+};
+
+export const useDeleteBinding = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.bindings.delete.useMutation({
+    onSuccess: async () => {
+      await Promise.all([
+        utils.rabbitmq.infrastructure.getExchanges.invalidate(),
+        utils.rabbitmq.queues.getQueueBindings.invalidate(),
+      ]);
+    },
+  });
+};
+
 export const useQueueConsumers = (
   serverId: string,
   queueName: string,
@@ -251,6 +356,31 @@ export const useQueueConsumers = (
   };
 };
 
+export const useQueueConsumerHealth = (
+  serverId: string,
+  queueName: string,
+  vhost: string | null | undefined,
+  windowMinutes: number,
+  enabled = true
+) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.queues.getQueueConsumerHealth.useQuery(
+    {
+      serverId,
+      workspaceId: workspace?.id || "",
+      queueName,
+      vhost: vhost ? encodeURIComponent(vhost) : encodeURIComponent("/"),
+      windowMinutes,
+    },
+    {
+      enabled: enabled && !!serverId && !!queueName && !!workspace?.id,
+      staleTime: 10000, // 10 seconds
+      refetchInterval: 15000, // Refetch every 15 seconds
+    }
+  );
+};
+
 export const useQueueBindings = (
   serverId: string,
   queueName: string,
@@ -337,6 +467,35 @@ export const usePublishMessage = () => {
   return trpc.rabbitmq.messages.publishMessage.useMutation();
 };
 
+// Peeking marks messages as redelivered on the broker and is audited, so it
+// is a mutation: nothing refetches it behind the caller's back.
+export const useBrowseMessages = () => {
+  return trpc.rabbitmq.messages.browse.useMutation();
+};
+
+export const useMoveMessages = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.messages.moveMessages.useMutation({
+    onSuccess: () => {
+      // Both source and target message counts change
+      utils.rabbitmq.queues.getQueues.invalidate();
+      utils.rabbitmq.queues.getQueue.invalidate();
+    },
+  });
+};
+
+export const useRequeueFromDlq = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.messages.requeueFromDlq.useMutation({
+    onSuccess: () => {
+      utils.rabbitmq.queues.getQueues.invalidate();
+      utils.rabbitmq.queues.getQueue.invalidate();
+    },
+  });
+};
+
 export const useCreateQueue = () => {
   const utils = trpc.useUtils();
 
@@ -387,6 +546,7 @@ export const usePauseQueue = () => {
       utils.rabbitmq.queues.getQueues.invalidate();
       utils.rabbitmq.queues.getQueue.invalidate();
       utils.rabbitmq.queues.getQueueConsumers.invalidate();
+      utils.rabbitmq.queues.getPauseStatus.invalidate();
     },
   });
 
@@ -402,13 +562,18 @@ export const useResumeQueue = () => {
       utils.rabbitmq.queues.getQueues.invalidate();
       utils.rabbitmq.queues.getQueue.invalidate();
       utils.rabbitmq.queues.getQueueConsumers.invalidate();
+      utils.rabbitmq.queues.getPauseStatus.invalidate();
     },
   });
 
   return mutation;
 };
 
-export const useQueuePauseStatus = (serverId: string, queueName: string) => {
+export const useQueuePauseStatus = (
+  serverId: string,
+  queueName: string,
+  vhost?: string | null
+) => {
   const { workspace } = useWorkspace();
 
   const query = trpc.rabbitmq.queues.getPauseStatus.useQuery(
@@ -416,17 +581,135 @@ export const useQueuePauseStatus = (serverId: string, queueName: string) => {
       serverId,
       workspaceId: workspace?.id || "",
       queueName,
+      vhost: vhost ? encodeURIComponent(vhost) : undefined,
     },
     {
       enabled: !!serverId && !!queueName && !!workspace?.id,
       staleTime: 5000, // 5 seconds
-      refetchInterval: false, // Don't auto-refetch, let mutations handle updates
+      // The worker applies pauses asynchronously — poll until it holds the
+      // consumer, and keep an eye on an active pause so drift shows up.
+      refetchInterval: (query) => {
+        const pauseState = query.state.data?.pauseState;
+        if (!pauseState?.isPaused) return false;
+        return pauseState.applied ? 30000 : 3000;
+      },
     }
   );
 
   return query;
 };
 
+type BulkQueueTarget = Parameters<
+  typeof trpc.rabbitmq.queues.previewBulkQueues.useQuery
+>[0]["target"];
+
+export const useBulkQueuePreview = (
+  serverId: string,
+  target: BulkQueueTarget | null
+) => {
+  const { workspace } = useWorkspace();
+
+  const query = trpc.rabbitmq.queues.previewBulkQueues.useQuery(
+    {
+      serverId,
+      workspaceId: workspace?.id || "",
+      target: target ?? { queues: [] },
+    },
+    {
+      // Resolved on demand — the dialog sets a target when the user asks
+      // for a preview, and the result must not shift under them afterwards.
+      enabled: !!serverId && !!workspace?.id && !!target,
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+      retry: false,
+    }
+  );
+
+  return query;
+};
+
+const useInvalidateAfterBulk = () => {
+  const utils = trpc.useUtils();
+  return () => {
+    utils.rabbitmq.queues.getQueues.invalidate();
+    utils.rabbitmq.queues.getQueue.invalidate();
+    utils.rabbitmq.queues.getPauseStatus.invalidate();
+  };
+};
+
+export const useBulkPurgeQueues = () => {
+  const onSettled = useInvalidateAfterBulk();
+  return trpc.rabbitmq.queues.bulkPurgeQueues.useMutation({ onSettled });
+};
+
+export const useBulkDeleteQueues = () => {
+  const onSettled = useInvalidateAfterBulk();
+  return trpc.rabbitmq.queues.bulkDeleteQueues.useMutation({ onSettled });
+};
+
+export const useBulkPauseQueues = () => {
+  const onSettled = useInvalidateAfterBulk();
+  return trpc.rabbitmq.queues.bulkPauseQueues.useMutation({ onSettled });
+};
+
+export const useBulkResumeQueues = () => {
+  const onSettled = useInvalidateAfterBulk();
+  return trpc.rabbitmq.queues.bulkResumeQueues.useMutation({ onSettled });
+};
+
+type BulkProgressEvent = SubData<
+  typeof trpc.rabbitmq.queues.watchBulkOperation
+>;
+
+/**
+ * Live progress of a bulk run. Subscribes as soon as an operation id is
+ * set (before the mutation returns) and accumulates the per-queue results
+ * each event carries.
+ */
+export const useBulkOperationProgress = (
+  serverId: string,
+  operationId: string | null
+) => {
+  const { workspace } = useWorkspace();
+  const [progress, setProgress] = useState<{
+    operationId: string;
+    operation: BulkProgressEvent["operation"];
+    items: BulkProgressEvent["items"];
+  } | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  trpc.rabbitmq.queues.watchBulkOperation.useSubscription(
+    {
+      serverId,
+      workspaceId: workspace?.id || "",
+      operationId: operationId || "",
+    },
+    {
+      enabled: !!serverId && !!workspace?.id && !!operationId,
+      onData: (d) => {
+        setError(null);
+        setProgress((prev) => ({
+          operationId: d.operation.id,
+          operation: d.operation,
+          items:
+            prev?.operationId === d.operation.id
+              ? [...prev.items, ...d.items]
+              : d.items,
+        }));
+      },
+      onError: setError,
+    }
+  );
+
+  const current =
+    progress && progress.operationId === operationId ? progress : null;
+  return {
+    operation: current?.operation ?? null,
+    items: current?.items ?? [],
+    error,
+  };
+};
+
 export const usePolicies = (
   serverId: string | null,
   vhost?: string | null,
@@ -482,6 +765,125 @@ export const useDeletePolicy = () => {
   return mutation;
 };
 
+export const useShovels = (serverId: string | null, vhost?: string | null) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.shovels.list.useQuery(
+    {
+      serverId: serverId || "",
+      workspaceId: workspace?.id || "",
+      vhost: vhost ? encodeURIComponent(vhost) : undefined,
+    },
+    {
+      enabled: !!serverId && !!workspace?.id,
+      staleTime: 0,
+      refetchInterval: 10000,
+    }
+  );
+};
+
+/** Cluster-wide shovel state; used by the node views. */
+export const useShovelStatus = (serverId: string | null) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.shovels.status.useQuery(
+    { serverId: serverId || "", workspaceId: workspace?.id || "" },
+    {
+      enabled: !!serverId && !!workspace?.id,
+      staleTime: 10000,
+      refetchInterval: 30000,
+    }
+  );
+};
+
+const useInvalidateShovels = () => {
+  const utils = trpc.useUtils();
+  return () =>
+    Promise.all([
+      utils.rabbitmq.shovels.list.invalidate(),
+      utils.rabbitmq.shovels.status.invalidate(),
+    ]);
+};
+
+export const useCreateShovel = () => {
+  const invalidate = useInvalidateShovels();
+  return trpc.rabbitmq.shovels.create.useMutation({ onSuccess: invalidate });
+};
+
+export const useDeleteShovel = () => {
+  const invalidate = useInvalidateShovels();
+  return trpc.rabbitmq.shovels.delete.useMutation({ onSuccess: invalidate });
+};
+
+export const useRestartShovel = () => {
+  const invalidate = useInvalidateShovels();
+  return trpc.rabbitmq.shovels.restart.useMutation({ onSuccess: invalidate });
+};
+
+export const useFederationUpstreams = (
+  serverId: string | null,
+  vhost?: string | null
+) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.federation.list.useQuery(
+    {
+      serverId: serverId || "",
+      workspaceId: workspace?.id || "",
+      vhost: vhost ? encodeURIComponent(vhost) : undefined,
+    },
+    {
+      enabled: !!serverId && !!workspace?.id,
+      staleTime: 0,
+      refetchInterval: 10000,
+    }
+  );
+};
+
+/** Cluster-wide federation link state; used by the node views. */
+export const useFederationStatus = (serverId: string | null) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.federation.status.useQuery(
+    { serverId: serverId || "", workspaceId: workspace?.id || "" },
+    {
+      enabled: !!serverId && !!workspace?.id,
+      staleTime: 10000,
+      refetchInterval: 30000,
+    }
+  );
+};
+
+const useInvalidateFederation = () => {
+  const utils = trpc.useUtils();
+  return () =>
+    Promise.all([
+      utils.rabbitmq.federation.list.invalidate(),
+      utils.rabbitmq.federation.status.invalidate(),
+    ]);
+};
+
+export const useCreateFederationUpstream = () => {
+  const invalidate = useInvalidateFederation();
+  return trpc.rabbitmq.federation.create.useMutation({
+    onSuccess: invalidate,
+  });
+};
+
+export const useDeleteFederationUpstream = () => {
+  const invalidate = useInvalidateFederation();
+  return trpc.rabbitmq.federation.delete.useMutation({
+    onSuccess: invalidate,
+  });
+};
+
+export const useRestartFederationLink = () => {
+  const invalidate = useInvalidateFederation();
+  return trpc.rabbitmq.federation.restart.useMutation({
+    onSuccess: invalidate,
+  });
+};
+
 export const useSetClusterName = () => {
   const utils = trpc.useUtils();
 
@@ -494,6 +896,30 @@ export const useSetClusterName = () => {
   return mutation;
 };
 
+export const useLeaderDistribution = (serverId: string | null) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.infrastructure.getLeaderDistribution.useQuery(
+    { serverId: serverId || "", workspaceId: workspace?.id || "" },
+    {
+      enabled: !!serverId && !!workspace?.id,
+      staleTime: 10000,
+      refetchInterval: 30000,
+    }
+  );
+};
+
+export const useRebalanceLeaders = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.infrastructure.rebalanceLeaders.useMutation({
+    onSuccess: () => {
+      // Leaders move in the background; the next polls show them settle
+      utils.rabbitmq.infrastructure.getLeaderDistribution.invalidate();
+    },
+  });
+};
+
 export const useTopology = (
   serverId: string | null,
   vhost?: string | null,
@@ -107,3 +107,39 @@ export const useCreateUser = () => {
     },
   });
 };
+
+export const useCredentialHygiene = (serverId: string | null) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.users.getCredentialHygiene.useQuery(
+    {
+      serverId: serverId || "",
+      workspaceId: workspace?.id || "",
+    },
+    {
+      enabled: !!serverId && !!workspace?.id,
+      staleTime: 60000, // 1 minute — probes the broker with a guest login
+    }
+  );
+};
+
+export const useRotateConnectionPassword = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.users.rotateConnectionPassword.useMutation({
+    // A failed rotation is recorded on the server too
+    onSettled: () => {
+      utils.rabbitmq.users.getCredentialHygiene.invalidate();
+    },
+  });
+};
+
+export const useSetPasswordRotationPolicy = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.users.setPasswordRotationPolicy.useMutation({
+    onSuccess: () => {
+      utils.rabbitmq.users.getCredentialHygiene.invalidate();
+    },
+  });
+};
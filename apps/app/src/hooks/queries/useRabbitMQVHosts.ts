@@ -1,4 +1,7 @@
+import { useState } from "react";
+
 import { trpc } from "@/lib/trpc/client";
+import { SubData } from "@/lib/trpc/types";
 
 import { useWorkspace } from "../ui/useWorkspace";
 
@@ -120,3 +123,77 @@ export const useUpdateVHost = () => {
     },
   });
 };
+
+export type VHostCloneRequest = Omit<
+  Parameters<typeof trpc.rabbitmq.vhost.previewClone.useQuery>[0],
+  "workspaceId"
+>;
+
+export const useVHostClonePreview = (request: VHostCloneRequest | null) => {
+  const { workspace } = useWorkspace();
+
+  return trpc.rabbitmq.vhost.previewClone.useQuery(
+    {
+      serverId: "",
+      vhostName: "",
+      targetServerId: "",
+      targetVhost: "",
+      ...request,
+      workspaceId: workspace?.id || "",
+    },
+    {
+      // Resolved on demand, like the bulk queue preview — the result must
+      // not shift under the reviewer before they run the clone.
+      enabled: !!workspace?.id && !!request,
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+      retry: false,
+    }
+  );
+};
+
+export const useCloneVHost = () => {
+  const utils = trpc.useUtils();
+
+  return trpc.rabbitmq.vhost.cloneVHost.useMutation({
+    onSettled: () => {
+      utils.rabbitmq.vhost.getVHosts.invalidate();
+    },
+  });
+};
+
+type VHostCloneProgress = SubData<typeof trpc.rabbitmq.vhost.watchClone>;
+
+/**
+ * Live step list of a clone run. Subscribes as soon as an operation id is
+ * set, before the mutation returns.
+ */
+export const useVHostCloneProgress = (
+  serverId: string,
+  operationId: string | null
+) => {
+  const { workspace } = useWorkspace();
+  const [progress, setProgress] = useState<VHostCloneProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  trpc.rabbitmq.vhost.watchClone.useSubscription(
+    {
+      serverId,
+      workspaceId: workspace?.id || "",
+      operationId: operationId || "",
+    },
+    {
+      enabled: !!serverId && !!workspace?.id && !!operationId,
+      onData: (d) => {
+        setError(null);
+        setProgress(d);
+      },
+      onError: setError,
+    }
+  );
+
+  return {
+    operation: progress && progress.id === operationId ? progress : null,
+    error,
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * Wraps the `selfhostedOutbox` tRPC router (notification outbox console)
+ * for Settings → Notification outbox. Replays and purges refresh the
+ * overview counts along with the row lists.
+ */
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+
+import { trpc } from "@/lib/trpc/client";
+
+export type OutboxListInput =
+  inferRouterInputs<AppRouter>["selfhostedOutbox"]["list"];
+
+export type OutboxRowSummary =
+  inferRouterOutputs<AppRouter>["selfhostedOutbox"]["list"]["items"][number];
+
+export type OutboxOverview =
+  inferRouterOutputs<AppRouter>["selfhostedOutbox"]["overview"];
+
+export const useOutboxOverview = () => {
+  return trpc.selfhostedOutbox.overview.useQuery(undefined, {
+    refetchInterval: 30_000,
+    retry: (failureCount, error) => {
+      // Don't retry on FORBIDDEN — only the bootstrap org's admins get in
+      if (error.data?.code === "FORBIDDEN") return false;
+      return failureCount < 3;
+    },
+  });
+};
+
+export const useOutboxRows = (input: OutboxListInput) => {
+  return trpc.selfhostedOutbox.list.useQuery(input, { staleTime: 5_000 });
+};
+
+export const useOutboxRow = (id: string | null) => {
+  return trpc.selfhostedOutbox.get.useQuery(
+    { id: id ?? "" },
+    { enabled: !!id }
+  );
+};
+
+export const useOutboxMutations = () => {
+  const utils = trpc.useUtils();
+  const invalidate = () => {
+    void utils.selfhostedOutbox.overview.invalidate();
+    void utils.selfhostedOutbox.list.invalidate();
+    void utils.selfhostedOutbox.get.invalidate();
+  };
+
+  const replay = trpc.selfhostedOutbox.replay.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const purge = trpc.selfhostedOutbox.purge.useMutation({
+    onSuccess: invalidate,
+  });
+
+  return { replay, purge };
+};
@@ -50,11 +50,16 @@ export const useUpdateServer = () => {
   const utils = trpc.useUtils();
 
   return trpc.rabbitmq.server.updateServer.useMutation({
-    onSuccess: () => {
+    onSuccess: (_data, variables) => {
       if (workspace?.id) {
         utils.rabbitmq.server.getServers.invalidate({
           workspaceId: workspace.id,
         });
+        // getServer carries the stored TLS certificate summary
+        utils.rabbitmq.server.getServer.invalidate({
+          workspaceId: workspace.id,
+          id: variables.id,
+        });
       }
     },
   });
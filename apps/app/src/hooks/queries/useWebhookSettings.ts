@@ -0,0 +1,51 @@
+/**
+ * Wraps the `workspace.webhooks` tRPC router (signing, event subscriptions
+ * and delivery log of the workspace's webhooks) for Settings →
+ * Integrations. A rotated secret is only ever returned by `rotateSecret`.
+ */
+
+import type { AppRouter } from "@api/trpc/types";
+import type { inferRouterOutputs } from "@trpc/server";
+
+import { trpc } from "@/lib/trpc/client";
+
+export type WebhookSummary =
+  inferRouterOutputs<AppRouter>["workspace"]["webhooks"]["list"][number];
+
+export type WebhookDelivery =
+  inferRouterOutputs<AppRouter>["workspace"]["webhooks"]["deliveries"]["items"][number];
+
+export const useWebhookSettings = (workspaceId: string) => {
+  const utils = trpc.useUtils();
+  const invalidate = () =>
+    void utils.workspace.webhooks.list.invalidate({ workspaceId });
+
+  const list = trpc.workspace.webhooks.list.useQuery(
+    { workspaceId },
+    { enabled: !!workspaceId, staleTime: 30_000 }
+  );
+
+  const updateSubscriptions =
+    trpc.workspace.webhooks.updateSubscriptions.useMutation({
+      onSuccess: invalidate,
+    });
+
+  const rotateSecret = trpc.workspace.webhooks.rotateSecret.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const test = trpc.workspace.webhooks.test.useMutation();
+
+  return { list, updateSubscriptions, rotateSecret, test };
+};
+
+export const useWebhookDeliveries = (
+  workspaceId: string,
+  id: string | null,
+  cursor?: string
+) => {
+  return trpc.workspace.webhooks.deliveries.useQuery(
+    { workspaceId, id: id ?? "", cursor, limit: 25 },
+    { enabled: !!workspaceId && !!id, staleTime: 5_000 }
+  );
+};
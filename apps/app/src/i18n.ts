@@ -24,6 +24,7 @@ const i18n = createI18nInstance({
     "settings",
     "sso",
     "smtp",
+    "outbox",
     "digest",
     "topology",
     "onboarding",
@@ -17,6 +17,33 @@ interface QueueArguments {
   "x-queue-type"?: string;
 }
 
+/** Replica placement shared by quorum queues and streams */
+interface ReplicaPlacement {
+  leader: string | null;
+  members: string[];
+  online: string[];
+  outOfSync: string[];
+}
+
+export interface QuorumQueueDetails extends ReplicaPlacement {
+  initialGroupSize: number | null;
+  /** `null` means unlimited — poison messages are redelivered forever */
+  deliveryLimit: number | null;
+  messagesDeadLettered: number;
+  messageBytesDeadLettered: number;
+}
+
+export interface StreamDetails extends ReplicaPlacement {
+  initialClusterSize: number | null;
+  maxLengthBytes: number | null;
+  maxSegmentSizeBytes: number | null;
+  maxAge: string | null;
+  segments: number | null;
+  firstOffset: number | null;
+  committedOffset: number | null;
+  firstTimestamp: string | null;
+}
+
 export interface Queue {
   // Basic queue information
   name: string;
@@ -68,6 +95,10 @@ export interface Queue {
   internal?: boolean;
   internal_owner?: string;
 
+  // Type-specific (null for other queue types)
+  quorum?: QuorumQueueDetails | null;
+  stream?: StreamDetails | null;
+
   // Deprecated (for display only)
   slave_nodes?: string[];
   synchronised_slave_nodes?: string[];
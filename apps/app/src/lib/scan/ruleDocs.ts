@@ -26,6 +26,7 @@ const RULE_DOC_URLS: Record<string, string> = {
     "https://www.rabbitmq.com/docs/networking#open-file-handle-limit",
   "config.cluster.even_node_count": "https://www.rabbitmq.com/docs/clustering",
   "config.cluster.version_skew": "https://www.rabbitmq.com/docs/upgrade",
+  "config.cluster.client_cert_expiring": "https://www.rabbitmq.com/docs/ssl",
   "config.exchange.orphan": "https://www.rabbitmq.com/docs/exchanges",
   "config.user.guest_enabled":
     "https://www.rabbitmq.com/docs/access-control#default-state",
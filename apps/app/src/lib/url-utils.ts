@@ -11,3 +11,18 @@ export function isLocalhostUrl(url: string): boolean {
     return false;
   }
 }
+
+/**
+ * Split a comma / whitespace separated AMQP URI list (shovel and
+ * federation endpoints). RabbitMQ tries the URIs in order.
+ */
+export function parseAmqpUriList(raw: string): string[] {
+  return raw
+    .split(/[\s,]+/)
+    .map((u) => u.trim())
+    .filter(Boolean);
+}
+
+export function isValidAmqpUriList(uris: string[]): boolean {
+  return uris.length > 0 && uris.every((u) => /^amqps?:\/\//.test(u));
+}
@@ -4,6 +4,7 @@ import { useTranslation } from "react-i18next";
 import { Search } from "lucide-react";
 import { parseAsString, useQueryState } from "nuqs";
 
+import { CloseConnectionsDialog } from "@/components/ConnectionsList/CloseConnectionsDialog";
 import { ConnectionsList } from "@/components/ConnectionsList/ConnectionsList";
 import { ConnectionsOverviewCards } from "@/components/ConnectionsList/ConnectionsOverviewCards";
 import { LoadingSkeleton } from "@/components/ConnectionsList/LoadingSkeleton";
@@ -19,10 +20,12 @@ import { TitleWithCount } from "@/components/ui/TitleWithCount";
 import { useServerContext } from "@/contexts/ServerContext";
 
 import { useChannels, useConnections } from "@/hooks/queries/useRabbitMQ";
+import { useIsWorkspaceAdmin } from "@/hooks/queries/useWorkspaceRole";
 
 const Connections = () => {
   const { t } = useTranslation("connections");
   const { selectedServerId, hasServers } = useServerContext();
+  const isAdmin = useIsWorkspaceAdmin() === true;
   const [searchTerm, setSearchTerm] = useQueryState(
     "q",
     parseAsString.withDefault(""),
@@ -54,7 +57,8 @@ const Connections = () => {
           send_oct: c.send_oct,
           recv_cnt: c.recv_cnt,
           send_cnt: c.send_cnt,
-          channelDetails: c.channelDetails,
+          clientName: c.client_properties?.connection_name ?? null,
+          peerHost: c.peer_host,
         })
       ),
     [connectionsData?.connections]
@@ -66,6 +70,7 @@ const Connections = () => {
     return connections.filter(
       (c) =>
         c.name.toLowerCase().includes(q) ||
+        c.clientName?.toLowerCase().includes(q) ||
         c.user.toLowerCase().includes(q) ||
         c.vhost.toLowerCase().includes(q) ||
         c.node.toLowerCase().includes(q)
@@ -136,6 +141,7 @@ const Connections = () => {
             </TitleWithCount>
           </div>
         </div>
+        {isAdmin && <CloseConnectionsDialog serverId={selectedServerId} />}
       </div>
 
       <ConnectionsOverviewCards
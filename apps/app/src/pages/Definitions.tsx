@@ -1,9 +1,14 @@
 import { useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 
-import { Download, Upload } from "lucide-react";
+import { Download, FileDiff, Upload } from "lucide-react";
 import { toast } from "sonner";
 
+import { DefinitionsDiffPreview } from "@/components/definitions/DefinitionsDiffPreview";
+import {
+  applicableDiffKeys,
+  type DefinitionsDiff,
+} from "@/components/definitions/diff";
 import { NoServerConfigured } from "@/components/NoServerConfigured";
 import { PageErrorOrGate } from "@/components/PageErrorOrGate";
 import { NoServerSelectedCard, PageShell } from "@/components/PageShell";
@@ -38,6 +43,7 @@ import { useServerContext } from "@/contexts/ServerContext";
 import { useVHostContext } from "@/contexts/VHostContextDefinition";
 
 import {
+  useDiffDefinitions,
   useExportDefinitions,
   useImportDefinitions,
 } from "@/hooks/queries/useDefinitions";
@@ -93,37 +99,89 @@ const Definitions = () => {
   // --- Import state ---
   const [importVhost, setImportVhost] = useState<string>(ALL_VHOSTS_VALUE);
   const [importFile, setImportFile] = useState<File | null>(null);
-  const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  // "all" uploads the whole file, "selected" only the items picked in the
+  // diff preview
+  const [confirmMode, setConfirmMode] = useState<"all" | "selected" | null>(
+    null
+  );
+  const [diff, setDiff] = useState<DefinitionsDiff | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const importMutation = useImportDefinitions();
+  const diffMutation = useDiffDefinitions();
 
   const vhostForImport =
     importVhost === ALL_VHOSTS_VALUE ? undefined : importVhost;
 
-  const handleImportConfirm = async () => {
-    if (!importFile || !selectedServerId) return;
-
+  const resetReview = () => {
+    setDiff(null);
+    setSelectedKeys(new Set());
+    diffMutation.reset();
     importMutation.reset();
-    setShowConfirmDialog(false);
+  };
 
-    const text = await importFile.text();
-    let definitions: unknown;
+  const readImportFile = async (): Promise<{ definitions: unknown } | null> => {
+    if (!importFile) return null;
     try {
-      definitions = JSON.parse(text);
+      return { definitions: JSON.parse(await importFile.text()) };
     } catch {
       toast.error(t("common:error"), {
         description: t("import.parseError"),
       });
-      return;
+      return null;
     }
+  };
 
-    importMutation.mutate({
-      serverId: selectedServerId,
-      workspaceId: workspace?.id ?? "",
-      vhost: vhostForImport,
-      definitions,
-    });
+  const handleReview = async () => {
+    if (!selectedServerId) return;
+    resetReview();
+
+    const file = await readImportFile();
+    if (!file) return;
+
+    diffMutation.mutate(
+      {
+        serverId: selectedServerId,
+        workspaceId: workspace?.id ?? "",
+        vhost: vhostForImport,
+        definitions: file.definitions,
+      },
+      {
+        onSuccess: (result) => {
+          setDiff(result);
+          setSelectedKeys(new Set(applicableDiffKeys(result)));
+        },
+      }
+    );
+  };
+
+  const handleImportConfirm = async () => {
+    if (!selectedServerId || !confirmMode) return;
+
+    const selection =
+      confirmMode === "selected" ? Array.from(selectedKeys) : undefined;
+    importMutation.reset();
+    setConfirmMode(null);
+
+    const file = await readImportFile();
+    if (!file) return;
+
+    importMutation.mutate(
+      {
+        serverId: selectedServerId,
+        workspaceId: workspace?.id ?? "",
+        vhost: vhostForImport,
+        definitions: file.definitions,
+        selection,
+      },
+      {
+        onSuccess: () => {
+          setDiff(null);
+          setSelectedKeys(new Set());
+        },
+      }
+    );
   };
 
   if (!hasServers) {
@@ -262,7 +320,7 @@ const Definitions = () => {
                 accept=".json"
                 onChange={(e) => {
                   setImportFile(e.target.files?.[0] ?? null);
-                  importMutation.reset();
+                  resetReview();
                 }}
                 className="cursor-pointer"
               />
@@ -270,7 +328,13 @@ const Definitions = () => {
 
             <div className="space-y-2">
               <Label htmlFor="import-vhost">{t("import.vhostLabel")}</Label>
-              <Select value={importVhost} onValueChange={setImportVhost}>
+              <Select
+                value={importVhost}
+                onValueChange={(value) => {
+                  setImportVhost(value);
+                  resetReview();
+                }}
+              >
                 <SelectTrigger id="import-vhost">
                   <SelectValue />
                 </SelectTrigger>
@@ -295,13 +359,38 @@ const Definitions = () => {
 
             {importMutation.isError && (
               <p className="text-sm text-destructive">
-                {t("import.errorMessage")}
+                {importMutation.error.data?.code === "BAD_REQUEST"
+                  ? importMutation.error.message
+                  : t("import.errorMessage")}
               </p>
             )}
 
+            {diffMutation.isError && (
+              <p className="text-sm text-destructive">
+                {diffMutation.error.data?.code === "BAD_REQUEST"
+                  ? diffMutation.error.message
+                  : t("diff.errorMessage")}
+              </p>
+            )}
+
+            <Button
+              onClick={handleReview}
+              disabled={
+                !importFile ||
+                diffMutation.isPending ||
+                importMutation.isPending
+              }
+              className="w-full"
+            >
+              <FileDiff className="h-4 w-4" aria-hidden="true" />
+              {diffMutation.isPending
+                ? t("diff.comparing")
+                : t("diff.reviewButton")}
+            </Button>
+
             <Button
               variant="outline"
-              onClick={() => setShowConfirmDialog(true)}
+              onClick={() => setConfirmMode("all")}
               disabled={!importFile || importMutation.isPending}
               className="w-full"
             >
@@ -314,20 +403,60 @@ const Definitions = () => {
         </Card>
       </div>
 
+      {/* Diff preview */}
+      {diff && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileDiff
+                className="h-4 w-4 text-muted-foreground"
+                aria-hidden="true"
+              />
+              {t("diff.title")}
+            </CardTitle>
+            <CardDescription>
+              {t("diff.description", {
+                target: vhostForImport ?? t("allVhosts"),
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <DefinitionsDiffPreview
+              diff={diff}
+              selected={selectedKeys}
+              onSelectedChange={setSelectedKeys}
+            />
+            {applicableDiffKeys(diff).length > 0 && (
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => setConfirmMode("selected")}
+                  disabled={selectedKeys.size === 0 || importMutation.isPending}
+                >
+                  <Upload className="h-4 w-4" aria-hidden="true" />
+                  {t("diff.applyButton", { count: selectedKeys.size })}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Import confirmation dialog */}
-      <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
+      <Dialog
+        open={confirmMode !== null}
+        onOpenChange={(open) => !open && setConfirmMode(null)}
+      >
         <DialogContent>
           <DialogHeader>
             <DialogTitle>{t("import.confirmTitle")}</DialogTitle>
             <DialogDescription>
-              {t("import.confirmDescription")}
+              {confirmMode === "selected"
+                ? t("diff.confirmDescription", { count: selectedKeys.size })
+                : t("import.confirmDescription")}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setShowConfirmDialog(false)}
-            >
+            <Button variant="outline" onClick={() => setConfirmMode(null)}>
               {t("common:cancel")}
             </Button>
             <Button variant="destructive" onClick={handleImportConfirm}>
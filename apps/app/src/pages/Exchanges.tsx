@@ -194,6 +194,8 @@ const Exchanges = () => {
         onTypeFilterChange={(v) => void setSelectedExchangeType(v)}
         onDelete={isAdmin ? (e) => setExchangeToDelete(e) : undefined}
         isDeleting={deleteExchangeMutation.isPending}
+        serverId={selectedServerId}
+        canManageBindings={isAdmin}
       />
 
       <DeleteExchangeDialog
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { FederationUpstreamForm } from "@/components/FederationList/FederationUpstreamForm";
+import { FederationUpstreamsTable } from "@/components/FederationList/FederationUpstreamsTable";
+import type {
+  FederationLinkItem,
+  FederationUpstreamItem,
+} from "@/components/FederationList/types";
+import { NoServerConfigured } from "@/components/NoServerConfigured";
+import { PageErrorOrGate } from "@/components/PageErrorOrGate";
+import { NoServerSelectedCard, PageShell } from "@/components/PageShell";
+import { PluginNotice } from "@/components/PluginNotice";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { TitleWithCount } from "@/components/ui/TitleWithCount";
+
+import { useServerContext } from "@/contexts/ServerContext";
+import { useVHostContext } from "@/contexts/VHostContextDefinition";
+
+import {
+  useDeleteFederationUpstream,
+  useFederationUpstreams,
+  useRestartFederationLink,
+} from "@/hooks/queries/useRabbitMQ";
+import { useIsWorkspaceAdmin } from "@/hooks/queries/useWorkspaceRole";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+const Federation = () => {
+  const { t } = useTranslation("federation");
+  const isAdmin = useIsWorkspaceAdmin() === true;
+  const { selectedServerId, hasServers } = useServerContext();
+  const { selectedVHost } = useVHostContext();
+  const { workspace } = useWorkspace();
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [upstreamToDelete, setUpstreamToDelete] =
+    useState<FederationUpstreamItem | null>(null);
+
+  const { data, isLoading, error } = useFederationUpstreams(
+    selectedServerId,
+    selectedVHost
+  );
+  const deleteMutation = useDeleteFederationUpstream();
+  const restartMutation = useRestartFederationLink();
+
+  // Re-throws on failure so ConfirmDialog keeps the dialog open.
+  const handleDelete = async () => {
+    if (!upstreamToDelete || !selectedServerId || !workspace?.id) return;
+    const { name, vhost } = upstreamToDelete;
+    try {
+      await deleteMutation.mutateAsync({
+        serverId: selectedServerId,
+        workspaceId: workspace.id,
+        vhost: encodeURIComponent(vhost),
+        name,
+      });
+      qToast({
+        severity: "success",
+        title: t("toast.deleted"),
+        msg: t("toast.deletedDesc", { name }),
+      });
+    } catch (err) {
+      toast.error(t("toast.deleteFailed"), {
+        description: err instanceof Error ? err.message : t("toast.saveError"),
+      });
+      throw err;
+    }
+  };
+
+  const handleRestartLink = async (link: FederationLinkItem) => {
+    if (!selectedServerId || !workspace?.id) return;
+    try {
+      await restartMutation.mutateAsync({
+        serverId: selectedServerId,
+        workspaceId: workspace.id,
+        vhost: encodeURIComponent(link.vhost),
+        linkId: link.id,
+        node: link.node,
+      });
+      qToast({
+        severity: "success",
+        title: t("toast.restarted"),
+        msg: t("toast.restartedDesc", { node: link.node }),
+      });
+    } catch (err) {
+      toast.error(t("toast.restartFailed"), {
+        description: err instanceof Error ? err.message : t("toast.saveError"),
+      });
+    }
+  };
+
+  if (!hasServers) {
+    return (
+      <PageShell bare>
+        <NoServerConfigured
+          title={t("pageTitle")}
+          subtitle={t("pageSubtitle")}
+          description={t("noServerDescription")}
+        />
+      </PageShell>
+    );
+  }
+
+  if (!selectedServerId) {
+    return (
+      <PageShell>
+        <NoServerSelectedCard
+          title={t("pageTitle")}
+          subtitle={t("pageSubtitle")}
+          heading={t("noServerSelected")}
+          description={t("selectServerPrompt")}
+        />
+      </PageShell>
+    );
+  }
+
+  if (error) {
+    return (
+      <PageShell>
+        <div className="flex items-center gap-4">
+          <SidebarTrigger />
+          <h1 className="title-page">{t("pageTitle")}</h1>
+        </div>
+        <PageErrorOrGate
+          error={error}
+          fallbackMessage={t("common:serverConnectionError")}
+        />
+      </PageShell>
+    );
+  }
+
+  const upstreams = (data?.upstreams ?? []) as FederationUpstreamItem[];
+  const pluginEnabled = data?.pluginEnabled ?? true;
+  const managementEnabled = data?.managementEnabled ?? true;
+
+  return (
+    <PageShell>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4 min-w-0">
+          <SidebarTrigger />
+          <div className="min-w-0">
+            <TitleWithCount count={upstreams.length}>
+              {t("pageTitle")}
+            </TitleWithCount>
+          </div>
+        </div>
+        {isAdmin && pluginEnabled && (
+          <Button className="btn-primary" onClick={() => setShowCreate(true)}>
+            {t("addUpstream")}
+          </Button>
+        )}
+      </div>
+
+      {!pluginEnabled ? (
+        <PluginNotice
+          title={t("pluginDisabledTitle")}
+          description={t("pluginDisabledDesc")}
+          plugin="rabbitmq_federation"
+        />
+      ) : (
+        <>
+          {!managementEnabled && (
+            <PluginNotice
+              title={t("managementDisabledTitle")}
+              description={t("managementDisabledDesc")}
+              plugin="rabbitmq_federation_management"
+            />
+          )}
+          <FederationUpstreamsTable
+            upstreams={upstreams}
+            isLoading={isLoading}
+            onDelete={isAdmin ? (u) => setUpstreamToDelete(u) : undefined}
+            onRestartLink={
+              isAdmin && managementEnabled
+                ? (l) => void handleRestartLink(l)
+                : undefined
+            }
+            isRestarting={restartMutation.isPending}
+          />
+        </>
+      )}
+
+      {isAdmin && (
+        <FederationUpstreamForm
+          open={showCreate}
+          onOpenChange={setShowCreate}
+          serverId={selectedServerId}
+          vhost={selectedVHost ?? "/"}
+        />
+      )}
+
+      <ConfirmDialog
+        open={upstreamToDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setUpstreamToDelete(null);
+        }}
+        tone="danger"
+        title={t("deleteTitle", { name: upstreamToDelete?.name ?? "" })}
+        body={t("deleteDescription")}
+        confirmLabel={t("deleteUpstream")}
+        pendingLabel={t("deleting")}
+        cancelLabel={t("common:cancel")}
+        isPending={deleteMutation.isPending}
+        onConfirm={handleDelete}
+      />
+    </PageShell>
+  );
+};
+
+export default Federation;
@@ -6,6 +6,8 @@ import { toast } from "sonner";
 
 import { EnhancedNodesOverview } from "@/components/nodes/EnhancedNodesOverview";
 import { EnhancedNodesTable } from "@/components/nodes/EnhancedNodesTable";
+import { LeaderDistribution } from "@/components/nodes/LeaderDistribution";
+import { NodeLinkErrors } from "@/components/nodes/NodeLinkErrors";
 import { PortsAndContexts } from "@/components/nodes/PortsAndContexts";
 import { NoServerConfigured } from "@/components/NoServerConfigured";
 import { PageErrorOrGate } from "@/components/PageErrorOrGate";
@@ -270,6 +272,12 @@ const Nodes = () => {
         }
       />
 
+      {/* Quorum queue / stream leaders per node */}
+      <LeaderDistribution serverId={selectedServerId} />
+
+      {/* Terminated shovels / federation links, per node */}
+      <NodeLinkErrors serverId={selectedServerId} />
+
       {/* Ports & Contexts — collapsed by default */}
       {(overviewData?.overview?.listeners?.length ?? 0) > 0 ||
       (overviewData?.overview?.contexts?.length ?? 0) > 0 ? (
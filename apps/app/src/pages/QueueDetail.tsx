@@ -25,12 +25,15 @@ import { MessagesRatesChart } from "@/components/MessagesRatesChart";
 import { PageShell } from "@/components/PageShell";
 import { PurgeQueueDialog } from "@/components/PurgeQueueDialog";
 import { ConsumerDetails } from "@/components/QueueDetail/ConsumerDetails";
+import { ConsumerHealth } from "@/components/QueueDetail/ConsumerHealth";
 import { LoadingSkeleton } from "@/components/QueueDetail/LoadingSkeleton";
 import { MessageStatistics } from "@/components/QueueDetail/MessageStatistics";
 import { NotFound } from "@/components/QueueDetail/NotFound";
 import { QueueBindings } from "@/components/QueueDetail/QueueBindings";
 import { QueueConfiguration } from "@/components/QueueDetail/QueueConfiguration";
 import { QueueHeader } from "@/components/QueueDetail/QueueHeader";
+import { QueueMessages } from "@/components/QueueDetail/QueueMessages";
+import { QueueReplication } from "@/components/QueueDetail/QueueReplication";
 import { QueueStats } from "@/components/QueueDetail/QueueStats";
 import { QueueTiming } from "@/components/QueueDetail/QueueTiming";
 import { QueuedMessagesChart } from "@/components/QueuedMessagesChart";
@@ -57,6 +60,21 @@ import { useWorkspace } from "@/hooks/ui/useWorkspace";
 
 import { UserPlan } from "@/types/plans";
 
+const QUEUE_TABS = [
+  "health",
+  "consumers",
+  "history",
+  "configuration",
+  "bindings",
+  "messages",
+] as const;
+
+type QueueTab = (typeof QUEUE_TABS)[number];
+
+function isQueueTab(value: string): value is QueueTab {
+  return (QUEUE_TABS as readonly string[]).includes(value);
+}
+
 const QueueDetail = () => {
   const { t } = useTranslation("queues");
   const { t: tDiagnosis } = useTranslation("diagnosis");
@@ -79,12 +97,7 @@ const QueueDetail = () => {
   // enum, so an out-of-range ?tab= param just lands on "health" — no crash.
   const [activeTab, setActiveTab] = useQueryState(
     "tab",
-    parseAsStringEnum([
-      "health",
-      "history",
-      "configuration",
-      "bindings",
-    ]).withDefault("health"),
+    parseAsStringEnum<QueueTab>([...QUEUE_TABS]).withDefault("health"),
     { history: "push" }
   );
 
@@ -219,6 +232,7 @@ const QueueDetail = () => {
         <QueueHeader
           queueName={queueName}
           selectedServerId={selectedServerId}
+          vhost={vhost}
           messageCount={queue?.messages || 0}
           consumerCount={queue?.consumers || 0}
           isAdmin={isAdmin}
@@ -258,11 +272,21 @@ const QueueDetail = () => {
             {/* Tabbed content */}
             <Tabs
               value={activeTab}
-              onValueChange={(v) => void setActiveTab(v)}
+              onValueChange={(v) => {
+                if (isQueueTab(v)) void setActiveTab(v);
+              }}
               className="space-y-6"
             >
               <TabsList>
                 <TabsTrigger value="health">{t("tabHealth")}</TabsTrigger>
+                <TabsTrigger value="consumers">
+                  {t("tabConsumers")}
+                  {consumersData?.totalConsumers ? (
+                    <span className="ml-1.5 text-xs text-muted-foreground">
+                      {consumersData.totalConsumers}
+                    </span>
+                  ) : null}
+                </TabsTrigger>
                 <TabsTrigger value="history">{t("tabHistory")}</TabsTrigger>
                 <TabsTrigger value="configuration">
                   {t("tabConfiguration")}
@@ -275,6 +299,9 @@ const QueueDetail = () => {
                     </span>
                   ) : null}
                 </TabsTrigger>
+                {isAdmin && (
+                  <TabsTrigger value="messages">{t("tabMessages")}</TabsTrigger>
+                )}
               </TabsList>
 
               {/* Health tab — SRE-first: consumers right after stats */}
@@ -304,6 +331,16 @@ const QueueDetail = () => {
                 />
               </TabsContent>
 
+              {/* Consumers tab — which consumer is holding the queue back */}
+              <TabsContent value="consumers" className="mt-0">
+                <ConsumerHealth
+                  serverId={selectedServerId}
+                  queueName={queue.name}
+                  vhost={vhost}
+                  enabled={activeTab === "consumers"}
+                />
+              </TabsContent>
+
               {/* History tab — scheduled snapshots, 5-min resolution */}
               <TabsContent value="history" className="space-y-6 mt-0">
                 <div className="rounded-lg border border-border overflow-hidden">
@@ -362,6 +399,10 @@ const QueueDetail = () => {
 
               {/* Configuration tab */}
               <TabsContent value="configuration" className="space-y-6 mt-0">
+                <QueueReplication
+                  queue={queue}
+                  streamConsumers={queueData?.streamConsumers}
+                />
                 <QueueConfiguration queue={queue} />
                 <QueueTiming queue={queue} />
               </TabsContent>
@@ -371,8 +412,24 @@ const QueueDetail = () => {
                 <QueueBindings
                   bindingsData={bindingsData}
                   bindingsLoading={bindingsLoading}
+                  serverId={selectedServerId}
+                  queueName={queue.name}
+                  vhost={vhost}
+                  canManage={isAdmin}
                 />
               </TabsContent>
+
+              {/* Messages tab — payload browser, admin-only (PII) */}
+              {isAdmin && (
+                <TabsContent value="messages" className="mt-0">
+                  <QueueMessages
+                    serverId={selectedServerId}
+                    queueName={queue.name}
+                    vhost={vhost}
+                    messageCount={queue.messages_ready ?? 0}
+                  />
+                </TabsContent>
+              )}
             </Tabs>
           </>
         ) : (
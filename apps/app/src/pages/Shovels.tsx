@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { toast } from "sonner";
+
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { NoServerConfigured } from "@/components/NoServerConfigured";
+import { PageErrorOrGate } from "@/components/PageErrorOrGate";
+import { NoServerSelectedCard, PageShell } from "@/components/PageShell";
+import { PluginNotice } from "@/components/PluginNotice";
+import { ShovelForm } from "@/components/ShovelsList/ShovelForm";
+import { ShovelsTable } from "@/components/ShovelsList/ShovelsTable";
+import type { ShovelListItem } from "@/components/ShovelsList/types";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { TitleWithCount } from "@/components/ui/TitleWithCount";
+
+import { useServerContext } from "@/contexts/ServerContext";
+import { useVHostContext } from "@/contexts/VHostContextDefinition";
+
+import {
+  useDeleteShovel,
+  useRestartShovel,
+  useShovels,
+} from "@/hooks/queries/useRabbitMQ";
+import { useIsWorkspaceAdmin } from "@/hooks/queries/useWorkspaceRole";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+const Shovels = () => {
+  const { t } = useTranslation("shovels");
+  const isAdmin = useIsWorkspaceAdmin() === true;
+  const { selectedServerId, hasServers } = useServerContext();
+  const { selectedVHost } = useVHostContext();
+  const { workspace } = useWorkspace();
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [shovelToDelete, setShovelToDelete] = useState<ShovelListItem | null>(
+    null
+  );
+
+  const { data, isLoading, error } = useShovels(
+    selectedServerId,
+    selectedVHost
+  );
+  const deleteMutation = useDeleteShovel();
+  const restartMutation = useRestartShovel();
+
+  // Re-throws on failure so ConfirmDialog keeps the dialog open.
+  const handleDelete = async () => {
+    if (!shovelToDelete || !selectedServerId || !workspace?.id) return;
+    const { name, vhost } = shovelToDelete;
+    try {
+      await deleteMutation.mutateAsync({
+        serverId: selectedServerId,
+        workspaceId: workspace.id,
+        vhost: encodeURIComponent(vhost),
+        name,
+      });
+      qToast({
+        severity: "success",
+        title: t("toast.deleted"),
+        msg: t("toast.deletedDesc", { name }),
+      });
+    } catch (err) {
+      toast.error(t("toast.deleteFailed"), {
+        description: err instanceof Error ? err.message : t("toast.saveError"),
+      });
+      throw err;
+    }
+  };
+
+  const handleRestart = async (shovel: ShovelListItem) => {
+    if (!selectedServerId || !workspace?.id) return;
+    try {
+      await restartMutation.mutateAsync({
+        serverId: selectedServerId,
+        workspaceId: workspace.id,
+        vhost: encodeURIComponent(shovel.vhost),
+        name: shovel.name,
+      });
+      qToast({
+        severity: "success",
+        title: t("toast.restarted"),
+        msg: t("toast.restartedDesc", { name: shovel.name }),
+      });
+    } catch (err) {
+      toast.error(t("toast.restartFailed"), {
+        description: err instanceof Error ? err.message : t("toast.saveError"),
+      });
+    }
+  };
+
+  if (!hasServers) {
+    return (
+      <PageShell bare>
+        <NoServerConfigured
+          title={t("pageTitle")}
+          subtitle={t("pageSubtitle")}
+          description={t("noServerDescription")}
+        />
+      </PageShell>
+    );
+  }
+
+  if (!selectedServerId) {
+    return (
+      <PageShell>
+        <NoServerSelectedCard
+          title={t("pageTitle")}
+          subtitle={t("pageSubtitle")}
+          heading={t("noServerSelected")}
+          description={t("selectServerPrompt")}
+        />
+      </PageShell>
+    );
+  }
+
+  if (error) {
+    return (
+      <PageShell>
+        <div className="flex items-center gap-4">
+          <SidebarTrigger />
+          <h1 className="title-page">{t("pageTitle")}</h1>
+        </div>
+        <PageErrorOrGate
+          error={error}
+          fallbackMessage={t("common:serverConnectionError")}
+        />
+      </PageShell>
+    );
+  }
+
+  const shovels = (data?.shovels ?? []) as ShovelListItem[];
+  const pluginEnabled = data?.pluginEnabled ?? true;
+  const managementEnabled = data?.managementEnabled ?? true;
+
+  return (
+    <PageShell>
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4 min-w-0">
+          <SidebarTrigger />
+          <div className="min-w-0">
+            <TitleWithCount count={shovels.length}>
+              {t("pageTitle")}
+            </TitleWithCount>
+          </div>
+        </div>
+        {isAdmin && pluginEnabled && (
+          <Button className="btn-primary" onClick={() => setShowCreate(true)}>
+            {t("addShovel")}
+          </Button>
+        )}
+      </div>
+
+      {!pluginEnabled ? (
+        <PluginNotice
+          title={t("pluginDisabledTitle")}
+          description={t("pluginDisabledDesc")}
+          plugin="rabbitmq_shovel"
+        />
+      ) : (
+        <>
+          {!managementEnabled && (
+            <PluginNotice
+              title={t("managementDisabledTitle")}
+              description={t("managementDisabledDesc")}
+              plugin="rabbitmq_shovel_management"
+            />
+          )}
+          <ShovelsTable
+            shovels={shovels}
+            isLoading={isLoading}
+            onRestart={
+              isAdmin && managementEnabled
+                ? (s) => void handleRestart(s)
+                : undefined
+            }
+            onDelete={isAdmin ? (s) => setShovelToDelete(s) : undefined}
+            isRestarting={restartMutation.isPending}
+          />
+        </>
+      )}
+
+      {isAdmin && (
+        <ShovelForm
+          open={showCreate}
+          onOpenChange={setShowCreate}
+          serverId={selectedServerId}
+          vhost={selectedVHost ?? "/"}
+        />
+      )}
+
+      <ConfirmDialog
+        open={shovelToDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setShovelToDelete(null);
+        }}
+        tone="danger"
+        title={t("deleteTitle", { name: shovelToDelete?.name ?? "" })}
+        body={t("deleteDescription")}
+        confirmLabel={t("deleteShovel")}
+        pendingLabel={t("deleting")}
+        cancelLabel={t("common:cancel")}
+        isPending={deleteMutation.isPending}
+        onConfirm={handleDelete}
+      />
+    </PageShell>
+  );
+};
+
+export default Shovels;
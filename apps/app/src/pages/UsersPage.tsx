@@ -17,6 +17,7 @@ import { SidebarTrigger } from "@/components/ui/sidebar";
 import { TitleWithCount } from "@/components/ui/TitleWithCount";
 import { AddUserButton } from "@/components/users/AddUserButton";
 import { BulkDeleteUsersModal } from "@/components/users/BulkDeleteUsersModal";
+import { CredentialHygiene } from "@/components/users/CredentialHygiene";
 import { DeleteUserModal } from "@/components/users/DeleteUserModal";
 import { LoadingSkeleton } from "@/components/UsersList/LoadingSkeleton";
 import { UsersTable } from "@/components/UsersList/UsersTable";
@@ -256,6 +257,8 @@ function UsersPageBody() {
         onClearFilter={() => setFilterRegex("")}
       />
 
+      <CredentialHygiene serverId={currentServerId} />
+
       {deleteUser && (
         <DeleteUserModal
           isOpen
@@ -18,6 +18,7 @@ import { VHostDetailHeader } from "@/components/VHostDetail/VHostDetailHeader";
 import { VHostLimits } from "@/components/VHostDetail/VHostLimits";
 import { VHostPermissionsTable } from "@/components/VHostDetail/VHostPermissionsTable";
 import { VHostStats } from "@/components/VHostDetail/VHostStats";
+import { CloneVHostDialog } from "@/components/vhosts/CloneVHostDialog";
 import { EditVHostModal } from "@/components/vhosts/EditVHostModal";
 
 import { useServerContext } from "@/contexts/ServerContext";
@@ -324,6 +325,14 @@ function VHostDetailsPageBody() {
         vhost={vhost}
         onNavigateBack={() => navigate("/vhosts")}
         onEdit={() => setShowEditModal(true)}
+        actions={
+          currentServerId && (
+            <CloneVHostDialog
+              serverId={currentServerId}
+              vhostName={decodedVHostName}
+            />
+          )
+        }
       />
 
       <VHostStats vhost={vhost} dataUpdatedAt={dataUpdatedAt} />
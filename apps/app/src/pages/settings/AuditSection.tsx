@@ -20,6 +20,7 @@ import { openPortalPath } from "@/lib/runtimeConfig";
 import { trpc } from "@/lib/trpc/client";
 import { cn } from "@/lib/utils";
 
+import { AuditSinksPanel } from "@/components/settings/audit/AuditSinksPanel";
 import { SettingsUpgradePrompt } from "@/components/settings/SettingsUpgradePrompt";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -58,7 +59,9 @@ const CATEGORY_OPTIONS = [
   { value: "org", labelKey: "category.org" },
   { value: "alert", labelKey: "category.alert" },
   { value: "auth", labelKey: "category.auth" },
+  { value: "apikey", labelKey: "category.apikey" },
   { value: "system", labelKey: "category.system" },
+  { value: "audit", labelKey: "category.audit" },
 ] as const;
 
 const RANGE_OPTIONS: RangeKey[] = ["24h", "7d", "30d"];
@@ -369,7 +372,16 @@ export default function AuditSection() {
                   {formatCompact(row.timestamp, i18n.language)}
                 </span>
                 <span className="min-w-0 truncate">
-                  {actor ? (
+                  {row.apiKeyId ? (
+                    // Agent-key actions: the key is the actor; its creator
+                    // stays visible on hover.
+                    <span
+                      className="font-mono text-xs text-muted-foreground"
+                      title={actor ?? undefined}
+                    >
+                      {t("apiKeyActor", { id: row.apiKeyId })}
+                    </span>
+                  ) : actor ? (
                     <span className="font-mono text-xs text-muted-foreground">
                       {actor}
                     </span>
@@ -455,6 +467,13 @@ export default function AuditSection() {
           </div>
         </div>
       ) : null}
+
+      {workspace?.id && (
+        <AuditSinksPanel
+          workspaceId={workspace.id}
+          canManage={canExport === true}
+        />
+      )}
     </div>
   );
 }
@@ -3,6 +3,9 @@ import { useTranslation } from "react-i18next";
 
 import { CheckCircle2, Radio, WifiOff } from "lucide-react";
 
+import { AlertChannelsCard } from "@/components/notifications/AlertChannelsCard";
+import { NotificationRoutingCard } from "@/components/notifications/NotificationRoutingCard";
+import { WebhooksCard } from "@/components/notifications/WebhooksCard";
 import { TracingDisabledState } from "@/components/tracing/TracingDisabledState";
 import { Button } from "@/components/ui/button";
 
@@ -25,6 +28,10 @@ import { useWorkspace } from "@/hooks/ui/useWorkspace";
  * firehose status query + the trace-enable mutation. The component surfaces
  * the enable error itself (it catches a rejected `onEnable`), so `handleEnable`
  * just throws on a non-success result.
+ *
+ * Below it, the PagerDuty / Opsgenie / Teams alert channels and the rules
+ * routing alerts to them — workspace-wide, so they render whether or not a
+ * server is selected.
  */
 const IntegrationsSection = () => {
   const { t } = useTranslation("tracing");
@@ -71,50 +78,58 @@ const IntegrationsSection = () => {
   };
 
   return (
-    <div className="space-y-6">
-      <div className="flex items-center gap-3">
-        <Radio className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
-        <div>
-          <h2 className="text-xl font-semibold">{t("integrations.title")}</h2>
-          <p className="text-sm text-muted-foreground">
-            {t("integrations.description")}
-          </p>
+    <div className="space-y-10">
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Radio className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
+          <div>
+            <h2 className="text-xl font-semibold">{t("integrations.title")}</h2>
+            <p className="text-sm text-muted-foreground">
+              {t("integrations.description")}
+            </p>
+          </div>
         </div>
-      </div>
 
-      {!selectedServerId ? (
-        <p className="text-sm text-muted-foreground">
-          {t("integrations.noServer")}
-        </p>
-      ) : firehoseStatus?.error === "management_api_unavailable" ? (
-        <div className="flex flex-col items-start gap-3 rounded-md border border-border bg-card px-4 py-4">
-          <div className="flex items-start gap-2">
-            <WifiOff className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
-            <div>
-              <p className="text-sm font-medium">
-                {t("empty.managementApi.title")}
-              </p>
-              <p className="mt-1 text-xs text-muted-foreground">
-                {t("empty.managementApi.description")}
-              </p>
+        {!selectedServerId ? (
+          <p className="text-sm text-muted-foreground">
+            {t("integrations.noServer")}
+          </p>
+        ) : firehoseStatus?.error === "management_api_unavailable" ? (
+          <div className="flex flex-col items-start gap-3 rounded-md border border-border bg-card px-4 py-4">
+            <div className="flex items-start gap-2">
+              <WifiOff className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium">
+                  {t("empty.managementApi.title")}
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {t("empty.managementApi.description")}
+                </p>
+              </div>
             </div>
+            <Button variant="outline" size="sm" onClick={() => void refetch()}>
+              {t("empty.managementApi.retry")}
+            </Button>
           </div>
-          <Button variant="outline" size="sm" onClick={() => void refetch()}>
-            {t("empty.managementApi.retry")}
-          </Button>
-        </div>
-      ) : firehoseStatus?.active ? (
-        <p className="flex items-center gap-2 text-sm text-success">
-          <CheckCircle2 className="h-4 w-4 shrink-0" />
-          {t("integrations.active")}
-        </p>
-      ) : (
-        <TracingDisabledState
-          vhosts={firehoseStatus?.vhosts ?? []}
-          onEnable={handleEnable}
-          isEnabling={isEnabling}
-        />
-      )}
+        ) : firehoseStatus?.active ? (
+          <p className="flex items-center gap-2 text-sm text-success">
+            <CheckCircle2 className="h-4 w-4 shrink-0" />
+            {t("integrations.active")}
+          </p>
+        ) : (
+          <TracingDisabledState
+            vhosts={firehoseStatus?.vhosts ?? []}
+            onEnable={handleEnable}
+            isEnabling={isEnabling}
+          />
+        )}
+      </div>
+
+      {workspaceId && <AlertChannelsCard workspaceId={workspaceId} />}
+
+      {workspaceId && <NotificationRoutingCard workspaceId={workspaceId} />}
+
+      {workspaceId && <WebhooksCard workspaceId={workspaceId} />}
     </div>
   );
 };
@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Navigate } from "react-router";
+
+import { Inbox, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { isSelfHostedMode } from "@/lib/featureFlags";
+import { qToast } from "@/lib/qToast";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { PermissionDeniedCard, RequireOrgAdmin } from "@/components/rbac";
+import { OutboxBreakersCard } from "@/components/settings/outbox/OutboxBreakersCard";
+import { OutboxRowDialog } from "@/components/settings/outbox/OutboxRowDialog";
+import { SettingsTableSkeleton } from "@/components/skeletons/SettingsSkeleton";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+
+import {
+  type OutboxListInput,
+  type OutboxOverview,
+  useOutboxMutations,
+  useOutboxOverview,
+  useOutboxRows,
+} from "@/hooks/queries/useSelfhostedOutbox";
+
+const ALL = "all";
+const STATUSES = ["PENDING", "SENT", "FAILED", "CANCELLED"] as const;
+type Status = (typeof STATUSES)[number];
+type PurgeableStatus = Exclude<Status, "PENDING">;
+const PAGE_SIZE = 50;
+
+function isPurgeable(status: Status | undefined): status is PurgeableStatus {
+  return status !== undefined && status !== "PENDING";
+}
+
+/**
+ * Notification outbox console for self-hosted instances. Every email and
+ * incident-channel notification goes through the outbox; a row that
+ * exhausts its retries ends FAILED, and this is where the platform admin
+ * finds out why, replays it (optionally to a new recipient) and clears
+ * out finished rows.
+ *
+ * The outbox is instance-wide, so the server only lets the bootstrap
+ * organization's admins in; other org admins get the denied card.
+ */
+const NotificationOutboxSection = () => {
+  const { t } = useTranslation("outbox");
+  const { t: tc } = useTranslation("common");
+
+  if (!isSelfHostedMode()) {
+    return <Navigate to="/settings/profile" replace />;
+  }
+
+  const denied = (
+    <div className="flex min-h-[60vh] items-center justify-center">
+      <PermissionDeniedCard
+        title={t("accessDeniedTitle")}
+        description={t("accessDenied")}
+        returnTo="/settings/profile"
+        returnLabel={tc("backToSettings")}
+      />
+    </div>
+  );
+
+  return (
+    <RequireOrgAdmin
+      loadingFallback={<OutboxLoadingSkeleton />}
+      deniedFallback={denied}
+    >
+      <OutboxSectionBody denied={denied} />
+    </RequireOrgAdmin>
+  );
+};
+
+export default NotificationOutboxSection;
+
+function OutboxSectionBody({ denied }: { denied: React.ReactNode }) {
+  const { t } = useTranslation("outbox");
+  const overview = useOutboxOverview();
+
+  if (overview.error?.data?.code === "FORBIDDEN") return denied;
+  if (overview.isLoading || !overview.data) {
+    return overview.isError ? (
+      <p className="text-sm text-destructive">{t("loadError")}</p>
+    ) : (
+      <OutboxLoadingSkeleton />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Inbox className="h-6 w-6 text-muted-foreground" aria-hidden="true" />
+        <div>
+          <h2 className="text-xl font-semibold">{t("title")}</h2>
+          <p className="text-sm text-muted-foreground">{t("description")}</p>
+        </div>
+      </div>
+
+      <OutboxBreakersCard
+        breakers={overview.data.breakers}
+        reportedAt={overview.data.breakersReportedAt}
+      />
+
+      <OutboxRowsCard overview={overview.data} />
+    </div>
+  );
+}
+
+function OutboxRowsCard({ overview }: { overview: OutboxOverview }) {
+  const { t } = useTranslation("outbox");
+  const { purge } = useOutboxMutations();
+
+  const [channel, setChannel] = useState<string>(ALL);
+  const [status, setStatus] = useState<Status | undefined>("FAILED");
+  const [template, setTemplate] = useState<string>(ALL);
+  // Cursors of the pages before the current one, for "Newer"
+  const [cursors, setCursors] = useState<(string | undefined)[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [openRowId, setOpenRowId] = useState<string | null>(null);
+  const [confirmPurge, setConfirmPurge] = useState(false);
+
+  const filter = {
+    channel:
+      channel === ALL
+        ? undefined
+        : (channel as NonNullable<OutboxListInput["channel"]>),
+    status,
+    template: template === ALL ? undefined : template,
+  };
+  const rows = useOutboxRows({ ...filter, cursor, limit: PAGE_SIZE });
+  const items = rows.data?.items ?? [];
+  const nextCursor = rows.data?.nextCursor ?? null;
+
+  const resetPaging = () => {
+    setCursors([]);
+    setCursor(undefined);
+    setSelected(new Set());
+  };
+
+  const countFor = (s: Status) =>
+    overview.counts
+      .filter(
+        (c) => c.status === s && (channel === ALL || c.channel === channel)
+      )
+      .reduce((sum, c) => sum + c.count, 0);
+
+  const toggleRow = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handlePurge = async () => {
+    if (!isPurgeable(status)) return;
+    try {
+      const { deleted } = await purge.mutateAsync({
+        ...filter,
+        status,
+        ids: selected.size > 0 ? [...selected] : undefined,
+      });
+      qToast({
+        severity: "success",
+        title: t("toast.purged", { count: deleted }),
+      });
+      setConfirmPurge(false);
+      resetPaging();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t("toast.purgeError"));
+    }
+  };
+
+  const colHead =
+    "px-4 py-3 text-left font-mono text-[10px] font-medium uppercase tracking-[0.08em] text-muted-foreground";
+  const purgeable = isPurgeable(status);
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="flex flex-wrap gap-2"
+        role="group"
+        aria-label={t("filter.status")}
+      >
+        {STATUSES.map((s) => (
+          <Button
+            key={s}
+            variant={status === s ? "default" : "outline"}
+            size="sm"
+            aria-pressed={status === s}
+            onClick={() => {
+              setStatus(status === s ? undefined : s);
+              resetPaging();
+            }}
+          >
+            {t(`status.${s}`)}
+            <span className="ml-1 font-mono text-xs opacity-70">
+              {countFor(s)}
+            </span>
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2.5">
+        <Select
+          value={channel}
+          onValueChange={(value) => {
+            setChannel(value);
+            resetPaging();
+          }}
+        >
+          <SelectTrigger className="w-auto" aria-label={t("filter.channel")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t("filter.allChannels")}</SelectItem>
+            {overview.breakers.map((b) => (
+              <SelectItem key={b.channel} value={b.channel}>
+                {t(`channel.${b.channel}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={template}
+          onValueChange={(value) => {
+            setTemplate(value);
+            resetPaging();
+          }}
+        >
+          <SelectTrigger className="w-auto" aria-label={t("filter.template")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t("filter.allTemplates")}</SelectItem>
+            {overview.templates.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex-1" />
+
+        <Button
+          variant="outline"
+          disabled={!purgeable || items.length === 0}
+          title={purgeable ? undefined : t("purge.pickStatus")}
+          onClick={() => setConfirmPurge(true)}
+        >
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+          {selected.size > 0
+            ? t("purge.selected", { count: selected.size })
+            : t("purge.matching")}
+        </Button>
+      </div>
+
+      {rows.isLoading ? (
+        <SettingsTableSkeleton rows={4} />
+      ) : rows.isError ? (
+        <p className="text-sm text-destructive">{t("loadError")}</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("empty")}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b border-border">
+              <tr>
+                {purgeable && (
+                  <th className={colHead}>
+                    <span className="sr-only">{t("col.select")}</span>
+                  </th>
+                )}
+                <th className={colHead}>{t("col.notification")}</th>
+                <th className={colHead}>{t("col.target")}</th>
+                <th className={colHead}>{t("col.status")}</th>
+                <th className={colHead}>{t("col.attempts")}</th>
+                <th className={colHead}>{t("col.lastError")}</th>
+                <th className={`${colHead} sr-only`}>{t("col.actions")}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {items.map((row) => (
+                <tr key={row.id}>
+                  {purgeable && (
+                    <td className="px-4 py-3">
+                      <Checkbox
+                        checked={selected.has(row.id)}
+                        onCheckedChange={(checked) =>
+                          toggleRow(row.id, checked === true)
+                        }
+                        aria-label={t("col.selectRow", {
+                          template: row.template,
+                          target: row.target,
+                        })}
+                      />
+                    </td>
+                  )}
+                  <td className="px-4 py-3">
+                    <p className="font-medium">{row.template}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t(`channel.${row.channel}`)} ·{" "}
+                      {new Date(row.createdAt).toLocaleString()}
+                    </p>
+                  </td>
+                  <td className="max-w-48 truncate px-4 py-3 font-mono text-xs">
+                    {row.target}
+                  </td>
+                  <td className="px-4 py-3">{t(`status.${row.status}`)}</td>
+                  <td className="px-4 py-3 font-mono text-xs">
+                    {row.attempts}/{overview.maxAttempts}
+                  </td>
+                  <td
+                    className="max-w-64 truncate px-4 py-3 font-mono text-xs text-muted-foreground"
+                    title={row.lastError ?? undefined}
+                  >
+                    {row.lastError ?? "—"}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOpenRowId(row.id)}
+                    >
+                      {row.status === "FAILED" ? t("replay.open") : t("view")}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(cursors.length > 0 || nextCursor) && (
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={cursors.length === 0}
+            onClick={() => {
+              setCursor(cursors[cursors.length - 1]);
+              setCursors((current) => current.slice(0, -1));
+              setSelected(new Set());
+            }}
+          >
+            {t("page.newer")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!nextCursor}
+            onClick={() => {
+              if (!nextCursor) return;
+              setCursors((current) => [...current, cursor]);
+              setCursor(nextCursor);
+              setSelected(new Set());
+            }}
+          >
+            {t("page.older")}
+          </Button>
+        </div>
+      )}
+
+      <OutboxRowDialog rowId={openRowId} onClose={() => setOpenRowId(null)} />
+
+      <ConfirmDialog
+        open={confirmPurge}
+        onOpenChange={setConfirmPurge}
+        tone="danger"
+        title={t("purge.title")}
+        body={
+          selected.size > 0
+            ? t("purge.bodySelected", { count: selected.size })
+            : t("purge.bodyMatching", {
+                status: status ? t(`status.${status}`) : "",
+              })
+        }
+        confirmLabel={t("purge.confirm")}
+        pendingLabel={t("purge.pending")}
+        cancelLabel={t("purge.cancel")}
+        isPending={purge.isPending}
+        onConfirm={handlePurge}
+      />
+    </div>
+  );
+}
+
+function OutboxLoadingSkeleton() {
+  return (
+    <div className="space-y-4">
+      <Skeleton className="h-8 w-48" />
+      <Skeleton className="h-32 w-full" />
+      <Skeleton className="h-32 w-full" />
+    </div>
+  );
+}
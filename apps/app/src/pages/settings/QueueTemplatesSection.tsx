@@ -0,0 +1,181 @@
+/**
+ * Settings → Queue templates. Workspace-wide declaration conventions —
+ * queue type, arguments, dead-letter topology and a policy — that the Add
+ * Queue dialog declares from. Templates are versioned: editing publishes a
+ * new version and queues created earlier are checked against the version
+ * they were declared with.
+ */
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Archive, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import {
+  type QueueTemplate,
+  QueueTemplateEditorDialog,
+} from "@/components/QueueTemplates/QueueTemplateEditorDialog";
+import { TemplateDriftPanel } from "@/components/QueueTemplates/TemplateDriftPanel";
+import { SettingsTableSkeleton } from "@/components/skeletons/SettingsSkeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+import {
+  useQueueTemplateMutations,
+  useQueueTemplates,
+} from "@/hooks/queries/useQueueTemplates";
+import { useIsWorkspaceAdmin } from "@/hooks/queries/useWorkspaceRole";
+import { useWorkspace } from "@/hooks/ui/useWorkspace";
+
+const QueueTemplatesSection = () => {
+  const { t } = useTranslation("queues");
+  const { workspace } = useWorkspace();
+  const isAdmin = useIsWorkspaceAdmin() === true;
+  const templates = useQueueTemplates();
+  const { archive } = useQueueTemplateMutations();
+
+  // `undefined` = closed, `null` = creating, a template = new version
+  const [editing, setEditing] = useState<QueueTemplate | null | undefined>(
+    undefined
+  );
+  const [archiving, setArchiving] = useState<QueueTemplate | null>(null);
+
+  const handleArchive = async () => {
+    if (!workspace?.id || !archiving) return;
+    try {
+      await archive.mutateAsync({
+        workspaceId: workspace.id,
+        templateId: archiving.id,
+      });
+      toast.success(t("templates.toast.archived", { name: archiving.name }));
+    } catch (error) {
+      toast.error(t("templates.toast.saveError"), {
+        description:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    } finally {
+      setArchiving(null);
+    }
+  };
+
+  const list = templates.data?.templates ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">
+            {t("templates.title")}
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {t("templates.description")}
+          </p>
+        </div>
+        {isAdmin && (
+          <Button className="shrink-0" onClick={() => setEditing(null)}>
+            <Plus className="h-4 w-4" aria-hidden="true" />
+            {t("templates.new")}
+          </Button>
+        )}
+      </div>
+
+      {templates.isLoading ? (
+        <SettingsTableSkeleton rows={2} />
+      ) : templates.isError ? (
+        <p className="text-sm text-destructive">{t("templates.loadError")}</p>
+      ) : list.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("templates.empty")}</p>
+      ) : (
+        <div className="divide-y rounded-xl border border-border">
+          {list.map((template) => {
+            const latest = template.versions[0];
+            return (
+              <div
+                key={template.id}
+                className="flex flex-wrap items-center gap-3 px-5 py-3.5"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm font-medium">
+                      {template.name}
+                    </span>
+                    <Badge variant="outline">v{template.latestVersion}</Badge>
+                    {latest && (
+                      <Badge variant="secondary">
+                        {t(`templates.type.${latest.queueType}`)}
+                      </Badge>
+                    )}
+                    {latest?.deadLetter && (
+                      <Badge variant="secondary">
+                        {t("templates.badge.deadLetter")}
+                      </Badge>
+                    )}
+                    {latest?.policy && (
+                      <Badge variant="secondary">
+                        {t("templates.badge.policy")}
+                      </Badge>
+                    )}
+                  </div>
+                  {template.description && (
+                    <p className="mt-1 text-sm text-muted-foreground">
+                      {template.description}
+                    </p>
+                  )}
+                </div>
+                {isAdmin && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditing(template)}
+                    >
+                      {t("templates.newVersion")}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setArchiving(template)}
+                      aria-label={t("templates.archive")}
+                    >
+                      <Archive className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <TemplateDriftPanel />
+
+      {editing !== undefined && (
+        <QueueTemplateEditorDialog
+          // Remount per target so the form re-seeds from its latest version
+          key={editing?.id ?? "new"}
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+          template={editing}
+        />
+      )}
+
+      <ConfirmDialog
+        open={!!archiving}
+        onOpenChange={(open) => !open && setArchiving(null)}
+        title={t("templates.archiveConfirmTitle", {
+          name: archiving?.name ?? "",
+        })}
+        body={t("templates.archiveConfirmDescription")}
+        confirmLabel={t("templates.archive")}
+        onConfirm={handleArchive}
+        isPending={archive.isPending}
+      />
+    </div>
+  );
+};
+
+export default QueueTemplatesSection;
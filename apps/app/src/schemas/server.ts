@@ -1,7 +1,7 @@
 import { z } from "zod";
 
-// Add server form schema
-export const addServerSchema = z.object({
+// Fields shared by the add and edit server forms
+const serverFormSchema = z.object({
   name: z.string().min(1, "Server name is required"),
   host: z.string().min(1, "Host is required"),
   port: z
@@ -13,8 +13,21 @@ export const addServerSchema = z.object({
     .min(1, "AMQP Port must be a positive number")
     .max(65535, "AMQP Port must be less than 65536"),
   username: z.string().min(1, "Username is required"),
-  password: z.string().min(1, "Password is required"),
-  vhost: z.string().default("/"),
+  password: z.string(),
+  /**
+   * External source for the broker password — `env:QAROTE_SECRET_<NAME>`
+   * or `file:<path under SECRET_FILES_DIR>` — read by the API instead of
+   * a stored password. Empty means the password is stored encrypted.
+   */
+  passwordRef: z
+    .string()
+    .trim()
+    .max(512)
+    .regex(/^((env|file):.+)?$/, "Reference must start with env: or file:")
+    .optional(),
+  // Both forms seed "/" in their default values. No `.default()` here: the
+  // resolver needs the schema's input and output types to be the same.
+  vhost: z.string(),
   useHttps: z.boolean(),
   /**
    * Free-text environment tag (`prod`, `staging`, `dev`, …) consumed
@@ -27,21 +40,48 @@ export const addServerSchema = z.object({
     .trim()
     .max(64)
     .nullable()
-    .optional()
     .transform((v) => (v ? v : null)),
+  /**
+   * Broker TLS material (PEM) and SNI override for brokers behind a private
+   * PKI. Blank fields are "not set" on add and "keep the stored value" on
+   * edit; `clearStored` drops everything stored before applying what was
+   * typed. Mapped to the API shape by `buildTlsInput`.
+   */
+  tls: z
+    .object({
+      ca: z.string(),
+      cert: z.string(),
+      key: z.string(),
+      servername: z.string().trim().max(253),
+      clearStored: z.boolean(),
+    })
+    .optional(),
 });
 
-export type AddServerFormData = z.infer<typeof addServerSchema>;
+// Add server form schema — a password is required unless it comes from a
+// reference. `when` runs the check even while other fields are still
+// invalid, so step 1 flags a missing password before the name is filled.
+export const addServerSchema = serverFormSchema.refine(
+  (data) => !!data.password || !!data.passwordRef,
+  {
+    message: "Password is required",
+    path: ["password"],
+    when: (payload) =>
+      typeof payload.value === "object" && payload.value !== null,
+  }
+);
+
+export type AddServerFormData = z.infer<typeof serverFormSchema>;
 
 /**
- * Edit-mode schema — identical to {@link addServerSchema} except the password
- * is optional. In the Manage-server sheet an empty password means "keep the
- * current credential" (the submit handler omits it from the mutation), so it
- * must not fail validation. Add mode keeps `password.min(1)`.
+ * Edit-mode schema — identical to {@link addServerSchema} without the
+ * password check. In the Manage-server sheet an empty password means "keep
+ * the current credential" (the submit handler omits it from the mutation),
+ * so it must not fail validation. Add mode requires a password or a
+ * reference. Both schemas share one input and output type, so either can
+ * back the same `useForm<AddServerFormData>`.
  */
-export const editServerSchema = addServerSchema.extend({
-  password: z.string().optional(),
-});
+export const editServerSchema = serverFormSchema;
 
 // URL validation schema for RabbitMQ server URLs
 // Ensures protocol is at the start and URL is parseable